@@ -3,7 +3,7 @@ import Mocha from "mocha"
 import { glob } from "glob"
 import * as vscode from "vscode"
 
-import type { RooCodeAPI } from "@roo-code/types"
+import type { RooCodeAPI, RooCodeSettings } from "@roo-code/types"
 
 import { waitFor } from "./utils"
 
@@ -12,6 +12,25 @@ import { waitFor } from "./utils"
  */
 const MODELS_TO_TEST = ["openai/gpt-5.2", "anthropic/claude-sonnet-4.5", "google/gemini-3-pro-preview"]
 
+/**
+ * Directory with API sessions recorded through ROO_CODE_API_RECORDING_DIR. When set, the tests
+ * run offline against the recordings instead of calling the models.
+ */
+const REPLAY_DIR = process.env.ROO_CODE_API_REPLAY_DIR
+
+function getConfiguration(model?: string): RooCodeSettings {
+	return REPLAY_DIR
+		? { apiProvider: "replay" as const, replayDirectory: REPLAY_DIR }
+		: {
+				apiProvider: "openrouter" as const,
+				openRouterApiKey: process.env.OPENROUTER_API_KEY!,
+				openRouterModelId: model,
+			}
+}
+
+// Recordings are keyed by the request, so only one model is recorded or replayed.
+const models = REPLAY_DIR || process.env.ROO_CODE_API_RECORDING_DIR ? MODELS_TO_TEST.slice(0, 1) : MODELS_TO_TEST
+
 interface ModelTestResult {
 	model: string
 	failures: number
@@ -29,11 +48,7 @@ export async function run() {
 	const api = extension.isActive ? extension.exports : await extension.activate()
 
 	// Initial configuration with first model (will be reconfigured per model)
-	await api.setConfiguration({
-		apiProvider: "openrouter" as const,
-		openRouterApiKey: process.env.OPENROUTER_API_KEY!,
-		openRouterModelId: MODELS_TO_TEST[0],
-	})
+	await api.setConfiguration(getConfiguration(models[0]))
 
 	await vscode.commands.executeCommand("zgsm.SidebarProvider.focus")
 	await waitFor(() => api.isReady())
@@ -63,17 +78,13 @@ export async function run() {
 	let totalFailures = 0
 
 	// Run tests for each model sequentially
-	for (const model of MODELS_TO_TEST) {
+	for (const model of models) {
 		console.log(`\n${"=".repeat(60)}`)
 		console.log(`  TESTING WITH MODEL: ${model}`)
 		console.log(`${"=".repeat(60)}\n`)
 
 		// Reconfigure API for this model
-		await api.setConfiguration({
-			apiProvider: "openrouter" as const,
-			openRouterApiKey: process.env.OPENROUTER_API_KEY!,
-			openRouterModelId: model,
-		})
+		await api.setConfiguration(getConfiguration(model))
 
 		// Wait for API to be ready with new configuration
 		await waitFor(() => api.isReady())
@@ -96,6 +96,25 @@ describe("consolidateTokenUsage", () => {
 			expect(result.contextTokens).toBe(5000)
 			expect(result.totalCost).toBeCloseTo(0.05)
 		})
+
+		it("should add mcp_sampling usage to the totals but not to the context tokens", () => {
+			const messages: ClineMessage[] = [
+				createApiReqMessage(1000, { tokensIn: 100, tokensOut: 50, cost: 0.01 }),
+				{
+					ts: 1001,
+					type: "say",
+					say: "mcp_sampling",
+					text: JSON.stringify({ serverName: "docs", tokensIn: 300, tokensOut: 20, cost: 0.02 }),
+				},
+			]
+
+			const result = consolidateTokenUsage(messages)
+
+			expect(result.totalTokensIn).toBe(400)
+			expect(result.totalTokensOut).toBe(70)
+			expect(result.totalCost).toBeCloseTo(0.03)
+			expect(result.contextTokens).toBe(150)
+		})
 	})
 
 	describe("invalid data handling", () => {
@@ -12,8 +12,8 @@ export type ParsedApiReqStartedTextType = {
 /**
  * Consolidates token usage metrics from an array of ClineMessages.
  *
- * This function processes 'condense_context' messages and 'api_req_started' messages that have been
- * consolidated with their corresponding 'api_req_finished' messages by the consolidateApiRequests function.
+ * This function processes 'condense_context' messages, 'mcp_sampling' messages and 'api_req_started' messages
+ * that have been consolidated with their corresponding 'api_req_finished' messages by the consolidateApiRequests function.
  * It extracts and sums up the tokensIn, tokensOut, cacheWrites, cacheReads, and cost from these messages.
  *
  * @param messages - An array of ClineMessage objects to process.
@@ -67,6 +67,16 @@ export function consolidateTokenUsage(messages: ClineMessage[]): TokenUsage {
 			}
 		} else if (message.type === "say" && message.say === "condense_context") {
 			result.totalCost += message.contextCondense?.cost ?? 0
+		} else if (message.type === "say" && message.say === "mcp_sampling" && message.text) {
+			// Sampling requests of MCP servers have their own context, so they only add to the totals.
+			try {
+				const { tokensIn, tokensOut, cost } = JSON.parse(message.text) as Partial<ParsedApiReqStartedTextType>
+				result.totalTokensIn += tokensIn ?? 0
+				result.totalTokensOut += tokensOut ?? 0
+				result.totalCost += cost ?? 0
+			} catch (error) {
+				console.error("Error parsing JSON:", error)
+			}
 		}
 	})
 
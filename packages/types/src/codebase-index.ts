@@ -14,6 +14,17 @@ export const CODEBASE_INDEX_DEFAULTS = {
 	SEARCH_SCORE_STEP: 0.05,
 } as const
 
+/**
+ * Codebase search modes
+ */
+
+export const codebaseSearchModes = ["semantic", "keyword", "hybrid"] as const
+
+export type CodebaseSearchMode = (typeof codebaseSearchModes)[number]
+
+export const isCodebaseSearchMode = (value: string): value is CodebaseSearchMode =>
+	codebaseSearchModes.includes(value as CodebaseSearchMode)
+
 /**
  * CodebaseIndexConfig
  */
@@ -21,6 +32,7 @@ export const CODEBASE_INDEX_DEFAULTS = {
 export const codebaseIndexConfigSchema = z.object({
 	codebaseIndexEnabled: z.boolean().optional(),
 	codebaseIndexQdrantUrl: z.string().optional(),
+	codebaseIndexVectorStoreProvider: z.enum(["qdrant", "local"]).optional(),
 	codebaseIndexEmbedderProvider: z
 		.enum([
 			"openai",
@@ -31,6 +43,7 @@ export const codebaseIndexConfigSchema = z.object({
 			"vercel-ai-gateway",
 			"bedrock",
 			"openrouter",
+			"local",
 		])
 		.optional(),
 	codebaseIndexEmbedderBaseUrl: z.string().optional(),
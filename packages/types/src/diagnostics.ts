@@ -0,0 +1,52 @@
+import { z } from "zod"
+
+/**
+ * DiagnosticsGate
+ *
+ * Keeps the tasks of a mode from completing while the files they edited have problems that were
+ * not there before their edits, so that the model fixes them first.
+ */
+
+export const diagnosticSeverities = ["error", "warning", "information", "hint"] as const
+
+export const diagnosticSeveritySchema = z.enum(diagnosticSeverities)
+
+export type DiagnosticSeverityName = z.infer<typeof diagnosticSeveritySchema>
+
+export const DEFAULT_DIAGNOSTICS_GATE_MAX_ATTEMPTS = 3
+
+export const diagnosticsGateSchema = z.object({
+	enabled: z.boolean(),
+	// The least severe problems that block completion, "error" if not set.
+	severity: diagnosticSeveritySchema.optional(),
+	// The sources of the problems that never block completion, like "eslint" or "cSpell".
+	ignoredSources: z.array(z.string()).optional(),
+	// How many times completion is blocked before the task may complete with the problems left,
+	// DEFAULT_DIAGNOSTICS_GATE_MAX_ATTEMPTS if not set.
+	maxAttempts: z.number().int().positive().optional(),
+})
+
+export type DiagnosticsGate = z.infer<typeof diagnosticsGateSchema>
+
+/**
+ * IntroducedProblem
+ *
+ * A problem in a file that a task edited, which the file did not have before the task edited it.
+ */
+
+export interface IntroducedProblem {
+	// The path of the file, relative to the workspace.
+	file: string
+	// The position of the problem, starting at 1.
+	line: number
+	column: number
+	severity: DiagnosticSeverityName
+	source?: string
+	message: string
+}
+
+export interface IntroducedProblemsReport {
+	problems: IntroducedProblem[]
+	// Whether the problems kept the task from completing, which they stop doing after maxAttempts.
+	blocked: boolean
+}
@@ -6,7 +6,10 @@ export type EmbedderProvider =
 	| "mistral"
 	| "vercel-ai-gateway"
 	| "bedrock"
-	| "openrouter" // Add other providers as needed.
+	| "openrouter"
+	| "local" // Add other providers as needed.
+
+export type VectorStoreProvider = "qdrant" | "local"
 
 export interface EmbeddingModelProfile {
 	dimension: number
@@ -39,3 +39,16 @@ export const historyItemSchema = z.object({
 })
 
 export type HistoryItem = z.infer<typeof historyItemSchema>
+
+/**
+ * TaskSearchResult
+ *
+ * A task whose transcript matches a full-text search of the task history, with
+ * an excerpt of the first message that matches outside of the task prompt.
+ */
+
+export interface TaskSearchResult {
+	taskId: string
+	score: number
+	snippet?: string
+}
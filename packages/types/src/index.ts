@@ -4,6 +4,7 @@ export * from "./codebase-index.js"
 export * from "./context-management.js"
 export * from "./cookie-consent.js"
 export * from "./custom-tool.js"
+export * from "./diagnostics.js"
 export * from "./embedding.js"
 export * from "./events.js"
 export * from "./experiment.js"
@@ -26,6 +27,7 @@ export * from "./task.js"
 export * from "./todo.js"
 export * from "./telemetry.js"
 export * from "./terminal.js"
+export * from "./test-results.js"
 export * from "./tool.js"
 export * from "./tool-params.js"
 export * from "./type-fu.js"
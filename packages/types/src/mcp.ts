@@ -54,13 +54,21 @@ export type McpServer = {
 	tools?: McpTool[]
 	resources?: McpResource[]
 	resourceTemplates?: McpResourceTemplate[]
+	prompts?: McpPrompt[]
 	disabled?: boolean
 	timeout?: number
 	source?: "global" | "project"
 	projectPath?: string
 	instructions?: string
+	oauth?: McpServerOAuthStatus
 }
 
+/**
+ * The OAuth state of a remote server: it needs the user to authorize it, the authorization
+ * is in progress or the server is used with stored tokens.
+ */
+export type McpServerOAuthStatus = "required" | "authorizing" | "authorized"
+
 export type McpTool = {
 	name: string
 	description?: string
@@ -83,6 +91,19 @@ export type McpResourceTemplate = {
 	mimeType?: string
 }
 
+export type McpPrompt = {
+	name: string
+	title?: string
+	description?: string
+	arguments?: McpPromptArgument[]
+}
+
+export type McpPromptArgument = {
+	name: string
+	description?: string
+	required?: boolean
+}
+
 export type McpResourceResponse = {
 	_meta?: Record<string, any> // eslint-disable-line @typescript-eslint/no-explicit-any
 	contents: Array<{
@@ -131,6 +152,23 @@ export type McpToolCallResponse = {
 	isError?: boolean
 }
 
+/**
+ * McpSamplingInfo
+ *
+ * Usage of a server-initiated `sampling/createMessage` request, stored as the text
+ * of `mcp_sampling` messages.
+ */
+
+export type McpSamplingInfo = {
+	serverName: string
+	model: string
+	tokensIn: number
+	tokensOut: number
+	cacheWrites: number
+	cacheReads: number
+	cost: number
+}
+
 export type McpErrorEntry = {
 	message: string
 	timestamp: number
@@ -173,6 +173,7 @@ export const clineSays = [
 	"browser_session_status",
 	"mcp_server_request_started",
 	"mcp_server_response",
+	"mcp_sampling",
 	"subtask_result",
 	"checkpoint_saved",
 	"rooignore_error",
@@ -182,6 +183,8 @@ export const clineSays = [
 	"condense_context_error",
 	"sliding_window_truncation",
 	"codebase_search_result",
+	"test_results",
+	"introduced_problems",
 	"user_edit_todos",
 ] as const
 
@@ -1,6 +1,8 @@
 import { z } from "zod"
 
 import { toolGroupsSchema } from "./tool.js"
+import { commandSandboxSchema } from "./terminal.js"
+import { diagnosticsGateSchema } from "./diagnostics.js"
 
 /**
  * GroupOptions
@@ -38,6 +40,36 @@ export const groupEntrySchema = z.union([toolGroupsSchema, z.tuple([toolGroupsSc
 
 export type GroupEntry = z.infer<typeof groupEntrySchema>
 
+/**
+ * ModePermissions
+ *
+ * Restricts what the tools of a mode may do, on top of the tool groups it has.
+ * An empty or missing list does not restrict anything.
+ */
+
+const permissionListSchema = z.object({
+	allow: z.array(z.string()).optional(),
+	deny: z.array(z.string()).optional(),
+})
+
+export const modePermissionsSchema = z.object({
+	// Command prefixes, matched like the allowed and denied commands of auto-approval.
+	commands: permissionListSchema.optional(),
+	// MCP servers ("github") or tools ("github/get_issue"), where "*" matches anything.
+	mcp: permissionListSchema.optional(),
+	// Globs of the files that the mode may read or write, relative to the workspace.
+	paths: z
+		.object({
+			read: z.array(z.string()).optional(),
+			write: z.array(z.string()).optional(),
+		})
+		.optional(),
+	// Whether the mode may use tools that access the network, like the browser.
+	network: z.boolean().optional(),
+})
+
+export type ModePermissions = z.infer<typeof modePermissionsSchema>
+
 /**
  * ModeConfig
  */
@@ -61,19 +93,46 @@ const groupEntryArraySchema = z.array(groupEntrySchema).refine(
 	{ message: "Duplicate groups are not allowed" },
 )
 
-export const modeConfigSchema = z.object({
-	slug: z.string().regex(/^[a-zA-Z0-9-]+$/, "Slug must contain only letters numbers and dashes"),
-	name: z.string().min(1, "Name is required"),
-	roleDefinition: z.string().min(1, "Role definition is required"),
-	whenToUse: z.string().optional(),
-	description: z.string().optional(),
-	customInstructions: z.string().optional(),
-	groups: groupEntryArraySchema,
-	source: z.enum(["global", "project"]).optional(),
-	// zgsmCodeModeGroup: z.enum(["strict", "vibe", "plan", "raw"]).default("vibe").optional(),
-	zgsmCodeModeGroup: z.string().default("vibe").optional(),
-	apiProvider: z.string().optional(),
-})
+export const modeConfigSchema = z.preprocess(
+	// A mode that extends another mode inherits the role definition and the groups that it leaves out.
+	(mode) =>
+		mode && typeof mode === "object" && "extends" in mode && mode.extends
+			? { roleDefinition: "", groups: [], ...mode }
+			: mode,
+	z
+		.object({
+			slug: z.string().regex(/^[a-zA-Z0-9-]+$/, "Slug must contain only letters numbers and dashes"),
+			name: z.string().min(1, "Name is required"),
+			roleDefinition: z.string(),
+			whenToUse: z.string().optional(),
+			description: z.string().optional(),
+			customInstructions: z.string().optional(),
+			groups: groupEntryArraySchema,
+			permissions: modePermissionsSchema.optional(),
+			// Where the commands of the mode run, instead of the sandbox of the API configuration profile.
+			commandSandbox: commandSandboxSchema.optional(),
+			// Whether new problems in the edited files block attempt_completion.
+			diagnosticsGate: diagnosticsGateSchema.optional(),
+			// The slug of the mode that this mode extends, see resolveModeConfig in src/shared/modes.ts.
+			extends: z.string().optional(),
+			source: z.enum(["global", "project"]).optional(),
+			// zgsmCodeModeGroup: z.enum(["strict", "vibe", "plan", "raw"]).default("vibe").optional(),
+			zgsmCodeModeGroup: z.string().default("vibe").optional(),
+			apiProvider: z.string().optional(),
+		})
+		.superRefine((mode, ctx) => {
+			if (!mode.extends && !mode.roleDefinition) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.too_small,
+					minimum: 1,
+					type: "string",
+					inclusive: true,
+					message: "Role definition is required",
+					path: ["roleDefinition"],
+				})
+			}
+		}),
+)
 
 export type ModeConfig = z.infer<typeof modeConfigSchema>
 
@@ -2,6 +2,7 @@ import { z } from "zod"
 
 import { modelInfoSchema, reasoningEffortSettingSchema, verbosityLevelsSchema, serviceTierSchema } from "./model.js"
 import { codebaseIndexProviderSchema } from "./codebase-index.js"
+import { commandSandboxSchema } from "./terminal.js"
 import {
 	anthropicModels,
 	basetenModels,
@@ -104,12 +105,26 @@ export const isCustomProvider = (key: string): key is CustomProvider => customPr
  * model lists.
  */
 
-export const fauxProviders = ["fake-ai", "human-relay"] as const
+export const fauxProviders = ["fake-ai", "human-relay", "replay"] as const
 
 export type FauxProvider = (typeof fauxProviders)[number]
 
 export const isFauxProvider = (key: string): key is FauxProvider => fauxProviders.includes(key as FauxProvider)
 
+/**
+ * CompositeProvider
+ *
+ * Composite providers do not call a model themselves, they route each request
+ * to one of several other provider profiles.
+ */
+
+export const compositeProviders = ["router"] as const
+
+export type CompositeProvider = (typeof compositeProviders)[number]
+
+export const isCompositeProvider = (key: string): key is CompositeProvider =>
+	compositeProviders.includes(key as CompositeProvider)
+
 /**
  * ProviderName
  */
@@ -120,6 +135,7 @@ export const providerNames = [
 	...internalProviders,
 	...customProviders,
 	...fauxProviders,
+	...compositeProviders,
 	"anthropic",
 	"bedrock",
 	"baseten",
@@ -190,6 +206,9 @@ const baseProviderSettingsSchema = z.object({
 
 	// Tool protocol override for this profile.
 	toolProtocol: z.enum(["xml", "native"]).optional(),
+
+	// Where the commands run, unless the mode has its own sandbox.
+	commandSandbox: commandSandboxSchema.optional(),
 })
 
 // Several of the providers share common model config properties.
@@ -370,6 +389,33 @@ const fakeAiSchema = baseProviderSettingsSchema.extend({
 	fakeAi: z.unknown().optional(),
 })
 
+const replaySchema = baseProviderSettingsSchema.extend({
+	// Directory with the API sessions recorded through ROO_CODE_API_RECORDING_DIR.
+	replayDirectory: z.string().optional(),
+})
+
+export const routerStrategies = ["priority", "weighted"] as const
+
+export const routerStrategySchema = z.enum(routerStrategies)
+
+export type RouterStrategy = z.infer<typeof routerStrategySchema>
+
+export const routerProfileSchema = z.object({
+	profileId: z.string(),
+	// Lower values are tried first.
+	priority: z.number().int().optional(),
+	// Relative share of the requests with the "weighted" strategy.
+	weight: z.number().min(0).optional(),
+})
+
+export type RouterProfile = z.infer<typeof routerProfileSchema>
+
+const routerSchema = baseProviderSettingsSchema.extend({
+	routerStrategy: routerStrategySchema.optional(),
+	routerProfiles: z.array(routerProfileSchema).optional(),
+	routerCooldownSeconds: z.number().min(0).optional(),
+})
+
 const xaiSchema = apiModelIdProviderModelSchema.extend({
 	xaiApiKey: z.string().optional(),
 })
@@ -472,6 +518,8 @@ export const providerSettingsSchemaDiscriminated = z.discriminatedUnion("apiProv
 	requestySchema.merge(z.object({ apiProvider: z.literal("requesty") })),
 	humanRelaySchema.merge(z.object({ apiProvider: z.literal("human-relay") })),
 	fakeAiSchema.merge(z.object({ apiProvider: z.literal("fake-ai") })),
+	replaySchema.merge(z.object({ apiProvider: z.literal("replay") })),
+	routerSchema.merge(z.object({ apiProvider: z.literal("router") })),
 	xaiSchema.merge(z.object({ apiProvider: z.literal("xai") })),
 	groqSchema.merge(z.object({ apiProvider: z.literal("groq") })),
 	basetenSchema.merge(z.object({ apiProvider: z.literal("baseten") })),
@@ -516,6 +564,8 @@ export const providerSettingsSchema = z.object({
 	...requestySchema.shape,
 	...humanRelaySchema.shape,
 	...fakeAiSchema.shape,
+	...replaySchema.shape,
+	...routerSchema.shape,
 	...xaiSchema.shape,
 	...groqSchema.shape,
 	...basetenSchema.shape,
@@ -587,10 +637,17 @@ export const getModelId = (settings: ProviderSettings): string | undefined => {
  * TypicalProvider
  */
 
-export type TypicalProvider = Exclude<ProviderName, InternalProvider | CustomProvider | FauxProvider>
+export type TypicalProvider = Exclude<
+	ProviderName,
+	InternalProvider | CustomProvider | FauxProvider | CompositeProvider
+>
 
 export const isTypicalProvider = (key: unknown): key is TypicalProvider =>
-	isProviderName(key) && !isInternalProvider(key) && !isCustomProvider(key) && !isFauxProvider(key)
+	isProviderName(key) &&
+	!isInternalProvider(key) &&
+	!isCustomProvider(key) &&
+	!isFauxProvider(key) &&
+	!isCompositeProvider(key)
 
 export const modelIdKeysByProvider: Record<TypicalProvider, ModelIdKey> = {
 	zgsm: "zgsmModelId",
@@ -675,7 +732,7 @@ export interface ZgsmUserInfo {
  */
 
 export const MODELS_BY_PROVIDER: Record<
-	Exclude<ProviderName, "fake-ai" | "human-relay" | "gemini-cli" | "openai">,
+	Exclude<ProviderName, "fake-ai" | "human-relay" | "replay" | "gemini-cli" | "openai" | "router">,
 	{ id: ProviderName; label: string; models: string[] }
 > = {
 	zgsm: {
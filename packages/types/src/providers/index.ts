@@ -151,6 +151,8 @@ export function getProviderDefaultModelId(
 			return qwenCodeDefaultModelId
 		case "vercel-ai-gateway":
 			return vercelAiGatewayDefaultModelId
+		case "router":
+			return "" // The model is chosen by the routed profiles
 		case "anthropic":
 		case "gemini-cli":
 		case "human-relay":
@@ -32,3 +32,52 @@ export const commandExecutionStatusSchema = z.discriminatedUnion("status", [
 ])
 
 export type CommandExecutionStatus = z.infer<typeof commandExecutionStatusSchema>
+
+/**
+ * BackgroundProcessInfo
+ *
+ * A long-running process, like a dev server, that a task started with `start_process`.
+ */
+
+export interface BackgroundProcessInfo {
+	id: number
+	taskId: string
+	command: string
+	cwd: string
+	pid?: number
+	status: "running" | "exited" | "stopped"
+	exitCode?: number
+	startedAt: number
+	endedAt?: number
+	// The end of the output, for display.
+	outputTail: string
+}
+
+/**
+ * CommandSandbox
+ *
+ * Runs the commands of a task in a rootless container or a bubblewrap jail instead of directly on
+ * the host. The workspace is the only writable directory that the commands can see.
+ */
+
+export const commandSandboxBackends = ["none", "docker", "podman", "bubblewrap"] as const
+
+export const commandSandboxBackendSchema = z.enum(commandSandboxBackends)
+
+export type CommandSandboxBackend = z.infer<typeof commandSandboxBackendSchema>
+
+export const DEFAULT_COMMAND_SANDBOX_IMAGE = "node:lts"
+
+export const commandSandboxSchema = z.object({
+	backend: commandSandboxBackendSchema,
+	// The image of the container backends, DEFAULT_COMMAND_SANDBOX_IMAGE if not set.
+	image: z.string().optional(),
+	// Whether the commands may access the network, which they may not by default.
+	network: z.boolean().optional(),
+	// Resource limits, not limited if not set.
+	memoryLimitMb: z.number().int().positive().optional(),
+	cpuLimit: z.number().positive().optional(),
+	pidsLimit: z.number().int().positive().optional(),
+})
+
+export type CommandSandbox = z.infer<typeof commandSandboxSchema>
@@ -0,0 +1,53 @@
+/**
+ * TestFramework
+ */
+
+export const testFrameworks = ["vitest", "jest", "pytest", "go", "cargo"] as const
+
+export type TestFramework = (typeof testFrameworks)[number]
+
+export const isTestFramework = (value: unknown): value is TestFramework =>
+	testFrameworks.includes(value as TestFramework)
+
+/**
+ * TestCaseResult
+ */
+
+export type TestCaseStatus = "passed" | "failed" | "skipped"
+
+export interface TestCaseResult {
+	name: string
+	status: TestCaseStatus
+	// Where the test failed, or else where it is defined, when the reporter says so.
+	file?: string
+	line?: number
+	durationMs?: number
+	// The failure message of failed tests.
+	message?: string
+}
+
+/**
+ * TestRunResults
+ *
+ * The parsed results of a `run_tests` call, shown as a summary in the chat.
+ */
+
+export interface TestRunResults {
+	framework: TestFramework
+	command: string
+	cwd: string
+	exitCode?: number
+	durationMs: number
+	passed: number
+	failed: number
+	skipped: number
+	tests: TestCaseResult[]
+}
+
+/**
+ * Gets the percentage of the tests that ran that passed, with one decimal. Skipped tests do not
+ * count. Returns undefined when no test ran.
+ */
+export function getTestPassRate({ passed, failed }: Pick<TestRunResults, "passed" | "failed">): number | undefined {
+	return passed + failed > 0 ? Math.round((passed / (passed + failed)) * 1000) / 10 : undefined
+}
@@ -35,6 +35,15 @@ export const toolNames = [
 	"new_task",
 	"fetch_instructions",
 	"codebase_search",
+	"find_definition",
+	"find_references",
+	"navigate_symbol",
+	"rename_symbol",
+	"start_process",
+	"read_process_output",
+	"wait_for_output",
+	"stop_process",
+	"run_tests",
 	"update_todo_list",
 	"run_slash_command",
 	"generate_image",
@@ -45,6 +54,19 @@ export const toolNamesSchema = z.enum(toolNames)
 
 export type ToolName = z.infer<typeof toolNamesSchema>
 
+/**
+ * SymbolNavigation
+ *
+ * What the `navigate_symbol` tool asks the language server about a symbol.
+ */
+
+export const symbolNavigations = ["definition", "references", "hover", "incoming_calls", "outgoing_calls"] as const
+
+export type SymbolNavigation = (typeof symbolNavigations)[number]
+
+export const isSymbolNavigation = (value: unknown): value is SymbolNavigation =>
+	symbolNavigations.includes(value as SymbolNavigation)
+
 /**
  * ToolUsage
  */
@@ -2,7 +2,7 @@ import { z } from "zod"
 
 import type { GlobalSettings, RooCodeSettings } from "./global-settings.js"
 import type { ProviderSettings, ProviderSettingsEntry } from "./provider-settings.js"
-import type { HistoryItem } from "./history.js"
+import type { HistoryItem, TaskSearchResult } from "./history.js"
 import type { ModeConfig, PromptComponent } from "./mode.js"
 import type { TelemetrySetting } from "./telemetry.js"
 import type { Experiments } from "./experiment.js"
@@ -19,7 +19,20 @@ import type { SerializedCustomToolDefinition } from "./custom-tool.js"
 import type { GitCommit } from "./git.js"
 import type { McpServer } from "./mcp.js"
 import type { IZgsmModelResponseData, ModelRecord, RouterModels } from "./model.js"
+import type { VectorStoreProvider } from "./embedding.js"
 import type { INotice } from "./notification.js"
+import type { BackgroundProcessInfo } from "./terminal.js"
+
+/**
+ * A workspace symbol offered by the `@symbol:` mention autocomplete
+ */
+export interface WorkspaceSymbolSearchResult {
+	name: string
+	kind: string
+	containerName?: string
+	/** Workspace-relative path of the file declaring the symbol */
+	path: string
+}
 
 /**
  * ExtensionMessage
@@ -37,6 +50,8 @@ export interface ExtensionMessage {
 		| "mcpServers"
 		| "enhancedPrompt"
 		| "commitSearchResults"
+		| "symbolSearchResults"
+		| "branchSearchResults"
 		| "listApiConfig"
 		| "routerModels"
 		| "openAiModels"
@@ -66,6 +81,7 @@ export interface ExtensionMessage {
 		| "deleteCustomModeCheck"
 		| "currentCheckpointUpdated"
 		| "checkpointInitWarning"
+		| "checkpointTimelineDiff"
 		| "showHumanRelayDialog"
 		| "humanRelayResponse"
 		| "humanRelayCancel"
@@ -89,6 +105,7 @@ export interface ExtensionMessage {
 		| "rooCreditBalance"
 		| "indexingStatusUpdate"
 		| "indexCleared"
+		| "codeIndexVectorStoreOperationResult"
 		| "codebaseIndexConfig"
 		| "marketplaceInstallResult"
 		| "marketplaceRemoveResult"
@@ -113,6 +130,8 @@ export interface ExtensionMessage {
 		| "customToolsResult"
 		| "modes"
 		| "taskWithAggregatedCosts"
+		| "taskHistorySearchResults"
+		| "backgroundProcesses"
 	text?: string
 	payload?: any // eslint-disable-line @typescript-eslint/no-explicit-any
 	checkpointWarning?: {
@@ -173,6 +192,8 @@ export interface ExtensionMessage {
 	}>
 	mcpServers?: McpServer[]
 	commits?: GitCommit[]
+	symbols?: WorkspaceSymbolSearchResult[]
+	branches?: string[]
 	listApiConfig?: ProviderSettingsEntry[]
 	mode?: string
 	customMode?: ModeConfig
@@ -220,6 +241,8 @@ export interface ExtensionMessage {
 		childrenCost: number
 	}
 	historyItem?: HistoryItem
+	taskSearchResults?: TaskSearchResult[] // For taskHistorySearchResults
+	backgroundProcesses?: BackgroundProcessInfo[]
 }
 
 export type ExtensionState = Pick<
@@ -380,7 +403,7 @@ export type ExtensionState = Pick<
 
 export interface Command {
 	name: string
-	source: "global" | "project" | "built-in"
+	source: "global" | "project" | "built-in" | "mcp"
 	filePath?: string
 	description?: string
 	argumentHint?: string
@@ -482,6 +505,8 @@ export interface WebviewMessage {
 		| "openMcpSettings"
 		| "openProjectMcpSettings"
 		| "restartMcpServer"
+		| "authorizeMcpServer"
+		| "signOutMcpServer"
 		| "refreshAllMcpServers"
 		| "toggleToolAlwaysAllow"
 		| "toggleToolEnabledForPrompt"
@@ -498,6 +523,8 @@ export interface WebviewMessage {
 		| "remoteControlEnabled"
 		| "taskSyncEnabled"
 		| "searchCommits"
+		| "searchSymbols"
+		| "searchBranches"
 		| "setApiConfigPassword"
 		| "mode"
 		| "updatePrompt"
@@ -512,6 +539,10 @@ export interface WebviewMessage {
 		| "openCustomModesSettings"
 		| "checkpointDiff"
 		| "checkpointRestore"
+		| "checkpointTimelineDiff"
+		| "checkpointLabel"
+		| "checkpointRestoreFiles"
+		| "exportTaskCheckpoints"
 		| "deleteMcpServer"
 		| "codebaseIndexEnabled"
 		| "telemetrySetting"
@@ -535,6 +566,8 @@ export interface WebviewMessage {
 		| "requestIndexingStatus"
 		| "startIndexing"
 		| "clearIndexData"
+		| "migrateCodeIndexVectorStore"
+		| "clearCodeIndexVectorStore"
 		| "indexingStatusUpdate"
 		| "indexCleared"
 		| "focusPanelRequest"
@@ -586,6 +619,9 @@ export interface WebviewMessage {
 		| "requestModes"
 		| "switchMode"
 		| "debugSetting"
+		| "searchTaskHistory"
+		| "requestBackgroundProcesses"
+		| "stopBackgroundProcess"
 	// costrict-start
 	issueId?: string
 	terminalPid?: number
@@ -627,6 +663,8 @@ export interface WebviewMessage {
 	source?: "global" | "project"
 	requestId?: string
 	ids?: string[]
+	fileFilter?: string // For searchTaskHistory
+	processId?: number // For stopBackgroundProcess
 	hasSystemPromptOverride?: boolean
 	terminalOperation?: "continue" | "abort"
 	messageTs?: number
@@ -651,6 +689,7 @@ export interface WebviewMessage {
 		// Global state settings
 		codebaseIndexEnabled: boolean
 		codebaseIndexQdrantUrl: string
+		codebaseIndexVectorStoreProvider?: VectorStoreProvider
 		codebaseIndexEmbedderProvider:
 			| "openai"
 			| "ollama"
@@ -660,6 +699,7 @@ export interface WebviewMessage {
 			| "vercel-ai-gateway"
 			| "bedrock"
 			| "openrouter"
+			| "local"
 		codebaseIndexEmbedderBaseUrl?: string
 		codebaseIndexEmbedderModelId: string
 		codebaseIndexEmbedderModelDimension?: number // Generic dimension for all providers
@@ -699,6 +739,62 @@ export const checkoutRestorePayloadSchema = z.object({
 
 export type CheckpointRestorePayload = z.infer<typeof checkoutRestorePayloadSchema>
 
+export const checkpointTimelineDiffPayloadSchema = z.object({
+	from: z.string(),
+	to: z.string().optional(), // Defaults to the current workspace
+})
+
+export type CheckpointTimelineDiffPayload = z.infer<typeof checkpointTimelineDiffPayloadSchema>
+
+export const checkpointLabelPayloadSchema = z.object({
+	commitHash: z.string(),
+	label: z.string(),
+})
+
+export type CheckpointLabelPayload = z.infer<typeof checkpointLabelPayloadSchema>
+
+export const checkpointRestoreFilesPayloadSchema = z.object({
+	commitHash: z.string(),
+	files: z
+		.array(
+			z.object({
+				path: z.string(),
+				hunks: z.array(z.number().int().nonnegative()).optional(), // Restores the whole file when omitted
+			}),
+		)
+		.min(1),
+})
+
+export type CheckpointRestoreFilesPayload = z.infer<typeof checkpointRestoreFilesPayloadSchema>
+
+/**
+ * A hunk of the diff between two checkpoints, in unified diff form.
+ */
+export interface CheckpointDiffHunk {
+	oldStart: number
+	oldLines: number
+	newStart: number
+	newLines: number
+	lines: string[]
+}
+
+export interface CheckpointTimelineFile {
+	path: string
+	status: "added" | "deleted" | "modified"
+	hunks: CheckpointDiffHunk[]
+}
+
+/**
+ * Diff between a checkpoint and a later checkpoint or the current workspace,
+ * sent in response to a `checkpointTimelineDiff` request.
+ */
+export interface CheckpointTimelineDiff {
+	from: string
+	to?: string
+	files: CheckpointTimelineFile[]
+	error?: string
+}
+
 export interface IndexingStatusPayload {
 	state: "Standby" | "Indexing" | "Indexed" | "Error"
 	message: string
@@ -721,6 +817,9 @@ export type InstallMarketplaceItemWithParametersPayload = z.infer<
 export type WebViewMessagePayload =
 	| CheckpointDiffPayload
 	| CheckpointRestorePayload
+	| CheckpointTimelineDiffPayload
+	| CheckpointLabelPayload
+	| CheckpointRestoreFilesPayload
 	| IndexingStatusPayload
 	| IndexClearedPayload
 	| InstallMarketplaceItemWithParametersPayload
@@ -754,6 +853,14 @@ export interface ClineSayTool {
 		| "appliedDiff"
 		| "newFileCreated"
 		| "codebaseSearch"
+		| "findDefinition"
+		| "findReferences"
+		| "navigateSymbol"
+		| "startProcess"
+		| "readProcessOutput"
+		| "waitForProcessOutput"
+		| "stopProcess"
+		| "runTests"
 		| "readFile"
 		| "fetchInstructions"
 		| "listFilesTopLevel"
@@ -781,6 +888,14 @@ export interface ClineSayTool {
 	additionalFileCount?: number // Number of additional files in the same read_file request
 	lineNumber?: number
 	query?: string
+	symbol?: string
+	// Properties for the navigate_symbol tool
+	navigation?: string
+	// Properties for the background process tools
+	processId?: number
+	pattern?: string
+	// Properties for the run_tests tool
+	framework?: string
 	batchFiles?: Array<{
 		path: string
 		lineSnippet: string
@@ -865,6 +980,10 @@ export interface ClineApiReqInfo {
 	selectReason?: string
 	isAuto?: boolean
 	originModelId?: string
+	// Backend of a router profile that served the request
+	routerProfileName?: string
+	routerModelId?: string
+	routerFailovers?: string[]
 	// Raw timing data for frontend calculation
 	requestIdTimestamp?: number
 	responseIdTimestamp?: number
@@ -67,6 +67,10 @@ export const commandIds = [
 	"addFileToContext",
 	"toggleAutoApprove",
 	"generateCommitMessage",
+
+	"exportTaskCheckpoints",
+	"browseCheckpoints",
+	"downloadLocalEmbeddingModel",
 ] as const
 
 export const costrictCommandIds = [
@@ -89,6 +93,8 @@ export const costrictCommandIds = [
 	"view.userHelperDoc",
 	"codelens_button",
 	"codelens_more_button",
+	"codelens_quick_command",
+	"runQuickCommand",
 	"login",
 	"logout",
 	"checkLoginStatus",
@@ -119,6 +119,21 @@ describe("CommandsAPI", () => {
 
 			expect(result).toBeUndefined()
 		})
+
+		it("should find nothing with the language feature commands", async () => {
+			for (const command of [
+				"vscode.executeDefinitionProvider",
+				"vscode.executeReferenceProvider",
+				"vscode.executeHoverProvider",
+				"vscode.prepareCallHierarchy",
+				"vscode.provideIncomingCalls",
+				"vscode.provideOutgoingCalls",
+			]) {
+				expect(await commands.executeCommand(command)).toEqual([])
+			}
+
+			expect(await commands.executeCommand("vscode.executeDocumentRenameProvider")).toBeUndefined()
+		})
 	})
 
 	describe("generic type support", () => {
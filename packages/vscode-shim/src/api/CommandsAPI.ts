@@ -47,6 +47,16 @@ export class CommandsAPI {
 			case "workbench.action.closeWindow":
 			case "workbench.action.reloadWindow":
 				return Promise.resolve(undefined as T)
+			// No language servers run in the CLI, so the language features find nothing
+			case "vscode.executeDefinitionProvider":
+			case "vscode.executeReferenceProvider":
+			case "vscode.executeHoverProvider":
+			case "vscode.prepareCallHierarchy":
+			case "vscode.provideIncomingCalls":
+			case "vscode.provideOutgoingCalls":
+				return Promise.resolve([] as T)
+			case "vscode.executeDocumentRenameProvider":
+				return Promise.resolve(undefined as T)
 			case "vscode.diff":
 				// Simulate opening a diff view for the CLI
 				// The extension's DiffViewProvider expects this to create a diff editor
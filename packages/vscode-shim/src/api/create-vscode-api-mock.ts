@@ -215,6 +215,8 @@ export function createVSCodeAPIMock(
 				}
 				return []
 			},
+			// No language servers run in the CLI, so the diagnostics never change
+			onDidChangeDiagnostics: () => ({ dispose: () => {} }),
 			createDiagnosticCollection: (name?: string): DiagnosticCollection => {
 				const diagnostics = new Map<string, Diagnostic[]>()
 				const collection: DiagnosticCollection = {
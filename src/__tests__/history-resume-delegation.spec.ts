@@ -121,8 +121,9 @@ describe("History resume delegation - parent metadata transitions", () => {
 		const createCall = createTaskWithHistoryItem.mock.invocationCallOrder[0]
 		expect(updateCall).toBeLessThan(createCall)
 
-		// Verify child closed and parent reopened with updated metadata
+		// Verify child closed without stopping the processes of the parent, and parent reopened with updated metadata
 		expect(removeClineFromStack).toHaveBeenCalledTimes(1)
+		expect(removeClineFromStack).toHaveBeenCalledWith({ resumingParent: true })
 		expect(createTaskWithHistoryItem).toHaveBeenCalledWith(
 			expect.objectContaining({
 				status: "active",
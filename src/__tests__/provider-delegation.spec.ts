@@ -3,6 +3,7 @@
 import { describe, it, expect, vi } from "vitest"
 import { RooCodeEventName } from "@roo-code/types"
 import { ClineProvider } from "../core/webview/ClineProvider"
+import { BackgroundProcessRegistry } from "../integrations/terminal/BackgroundProcessRegistry"
 
 describe("ClineProvider.delegateParentAndOpenChild()", () => {
 	it("persists parent delegation metadata and emits TaskDelegated", async () => {
@@ -60,8 +61,9 @@ describe("ClineProvider.delegateParentAndOpenChild()", () => {
 
 		expect(child.taskId).toBe("child-1")
 
-		// Invariant: parent closed before child creation
+		// Invariant: parent closed before child creation, keeping its background processes
 		expect(removeClineFromStack).toHaveBeenCalledTimes(1)
+		expect(removeClineFromStack).toHaveBeenCalledWith({ suspendForDelegation: true })
 		// Child task is created with initialStatus: "active" to avoid race conditions
 		expect(createTask).toHaveBeenCalledWith("Do something", undefined, parentTask, {
 			initialTodos: [],
@@ -90,3 +92,50 @@ describe("ClineProvider.delegateParentAndOpenChild()", () => {
 		expect(handleModeSwitch).toHaveBeenCalledWith("code")
 	})
 })
+
+describe("ClineProvider.removeClineFromStack()", () => {
+	const createProvider = (task: any) =>
+		({
+			clineStack: [task],
+			taskEventListeners: new Map(),
+			getGlobalState: vi.fn(() => [
+				{ id: "child-1", parentTaskId: "parent-1" },
+				{ id: "parent-1", parentTaskId: "root-1" },
+				{ id: "root-1" },
+			]),
+			stopWaitingParentProcesses: (ClineProvider.prototype as any).stopWaitingParentProcesses,
+			log: vi.fn(),
+		}) as unknown as ClineProvider
+
+	const createTask = () => ({
+		taskId: "child-1",
+		parentTaskId: "parent-1",
+		emit: vi.fn(),
+		abortTask: vi.fn().mockResolvedValue(undefined),
+		suspendedForDelegation: false,
+	})
+
+	it("keeps the background processes of a task suspended for delegation", async () => {
+		const stopProcessesForTask = vi.spyOn(BackgroundProcessRegistry, "stopProcessesForTask").mockResolvedValue()
+		const task = createTask()
+
+		await ClineProvider.prototype.removeClineFromStack.call(createProvider(task), { suspendForDelegation: true })
+
+		expect(task.suspendedForDelegation).toBe(true)
+		expect(task.abortTask).toHaveBeenCalledWith(true)
+		expect(stopProcessesForTask).not.toHaveBeenCalled()
+		stopProcessesForTask.mockRestore()
+	})
+
+	it("stops the processes of the waiting parents when a subtask is abandoned", async () => {
+		const stopProcessesForTask = vi.spyOn(BackgroundProcessRegistry, "stopProcessesForTask").mockResolvedValue()
+
+		await ClineProvider.prototype.removeClineFromStack.call(createProvider(createTask()))
+		expect(stopProcessesForTask.mock.calls).toEqual([["parent-1"], ["root-1"]])
+
+		stopProcessesForTask.mockClear()
+		await ClineProvider.prototype.removeClineFromStack.call(createProvider(createTask()), { resumingParent: true })
+		expect(stopProcessesForTask).not.toHaveBeenCalled()
+		stopProcessesForTask.mockRestore()
+	})
+})
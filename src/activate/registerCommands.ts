@@ -19,6 +19,7 @@ import { t } from "../i18n"
 import { EditorContext, EditorUtils } from "../integrations/editor/EditorUtils"
 import * as path from "path"
 import { handleGenerateCommitMessage } from "../core/costrict/commit"
+import { handleBrowseCheckpoints, handleExportTaskCheckpoints } from "../core/checkpoints/export"
 import { isJetbrainsPlatform } from "../utils/platform"
 
 interface UriSource {
@@ -316,6 +317,42 @@ const getCommandsMap = ({ context, outputChannel, provider }: RegisterCommandOpt
 			vscode.window.showErrorMessage(`Failed to generate commit message: ${errorMessage}`)
 		}
 	},
+	exportTaskCheckpoints: async (taskId?: string) => {
+		const visibleProvider = getVisibleProviderOrLog(outputChannel)
+
+		if (!visibleProvider) {
+			return
+		}
+
+		await handleExportTaskCheckpoints(visibleProvider, typeof taskId === "string" ? taskId : undefined)
+	},
+	browseCheckpoints: async () => {
+		const visibleProvider = getVisibleProviderOrLog(outputChannel)
+
+		if (!visibleProvider) {
+			return
+		}
+
+		await handleBrowseCheckpoints(visibleProvider)
+	},
+	downloadLocalEmbeddingModel: async () => {
+		const manager = CodeIndexManager.getInstance(context)
+
+		if (!manager) {
+			vscode.window.showErrorMessage(t("embeddings:local.downloadNoWorkspace"))
+			return
+		}
+
+		try {
+			const modelId = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: t("embeddings:local.downloading") },
+				() => manager.downloadLocalEmbeddingModel(),
+			)
+			vscode.window.showInformationMessage(t("embeddings:local.downloaded", { modelId }))
+		} catch (error) {
+			vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error))
+		}
+	},
 })
 
 async function createAliasedPath(resourceUri: vscode.Uri): Promise<ProcessedResource | null> {
@@ -45,8 +45,12 @@ import {
 	DeepInfraHandler,
 	MiniMaxHandler,
 	BasetenHandler,
+	RouterHandler,
+	RecordingHandler,
+	ReplayHandler,
 } from "./providers"
 import { NativeOllamaHandler } from "./providers/native-ollama"
+import { API_RECORDING_DIR_ENV } from "./providers/utils/api-recording"
 
 export interface SingleCompletionHandler {
 	completePrompt(prompt: string, systemPrompt?: string, metadata?: any): Promise<string>
@@ -141,7 +145,27 @@ export interface ApiHandler {
 	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number>
 }
 
+/**
+ * Data about the last response that some handlers expose, to be stored with the assistant message.
+ */
+export interface ApiHandlerResponseMetadata {
+	getResponseId?: () => string | undefined
+	getEncryptedContent?: () => { encrypted_content: string; id?: string } | undefined
+	getThoughtSignature?: () => string | undefined
+	getSummary?: () => any[] | undefined
+	getReasoningDetails?: () => any[] | undefined
+}
+
 export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
+	const handler = createApiHandler(configuration)
+	const recordingDirectory = process.env[API_RECORDING_DIR_ENV]
+
+	return recordingDirectory && configuration.apiProvider !== "replay"
+		? new RecordingHandler(handler, recordingDirectory)
+		: handler
+}
+
+function createApiHandler(configuration: ProviderSettings): ApiHandler {
 	const { apiProvider, ...options } = configuration
 
 	switch (apiProvider) {
@@ -193,6 +217,8 @@ export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
 			return new HumanRelayHandler()
 		case "fake-ai":
 			return new FakeAIHandler(options)
+		case "replay":
+			return new ReplayHandler(options)
 		case "xai":
 			return new XAIHandler(options)
 		case "groq":
@@ -227,6 +253,9 @@ export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
 			return new MiniMaxHandler(options)
 		case "baseten":
 			return new BasetenHandler(options)
+		case "router":
+			// The router is recorded as a whole, with the backend that served each request.
+			return new RouterHandler(options, createApiHandler)
 		default:
 			return new AnthropicHandler(options)
 	}
@@ -0,0 +1,137 @@
+// npx vitest run api/providers/__tests__/replay.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import * as vscode from "vscode"
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ApiHandler } from "../../index"
+import { buildApiHandler } from "../../index"
+import type { ApiStreamChunk } from "../../transform/stream"
+import { RecordingHandler } from "../recording"
+import { ReplayHandler } from "../replay"
+import { API_RECORDING_DIR_ENV, getMessageRecordingKey } from "../utils/api-recording"
+
+async function collect(stream: AsyncGenerator<ApiStreamChunk>) {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+const userMessage = (text: string): Anthropic.Messages.MessageParam => ({
+	role: "user",
+	content: [{ type: "text", text }],
+})
+
+describe("RecordingHandler and ReplayHandler", () => {
+	let directory: string
+	let handler: ApiHandler & { completePrompt: ReturnType<typeof vi.fn>; getResponseId: () => string }
+
+	const chunks: ApiStreamChunk[] = [
+		{ type: "text", text: "Reading the file." },
+		{ type: "tool_call", id: "call_1", name: "read_file", arguments: '{"path":"a.ts"}' },
+		{ type: "usage", inputTokens: 10, outputTokens: 5 },
+	]
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), "api-recordings-"))
+		handler = {
+			createMessage: vi.fn(async function* () {
+				yield* chunks
+			}),
+			getModel: () => ({ id: "recorded-model", info: { contextWindow: 64_000, supportsPromptCache: false } }),
+			countTokens: async () => 0,
+			completePrompt: vi.fn(async () => "completion"),
+			getResponseId: () => "resp_1",
+		}
+	})
+
+	afterEach(async () => {
+		await fs.rm(directory, { recursive: true, force: true })
+	})
+
+	it("replays a recorded session offline", async () => {
+		const messages = [userMessage("Read a.ts\n<environment_details>Current time: 10:00</environment_details>")]
+		const recorder = new RecordingHandler(handler, directory)
+
+		expect(await collect(recorder.createMessage("system", messages))).toEqual(chunks)
+		expect(await recorder.completePrompt("Summarize")).toBe("completion")
+
+		const replay = new ReplayHandler({ replayDirectory: directory })
+		const replayedMessages = [
+			userMessage("Read a.ts\n<environment_details>Current time: 11:00</environment_details>"),
+		]
+
+		expect(await collect(replay.createMessage("system", replayedMessages))).toEqual(chunks)
+		expect(replay.getResponseId()).toBe("resp_1")
+		expect(replay.getModel()).toEqual(handler.getModel())
+		expect(await replay.completePrompt("Summarize")).toBe("completion")
+	})
+
+	it("replays sessions recorded in another workspace", async () => {
+		const setWorkspace = (fsPath: string) =>
+			Object.assign(vscode.workspace, { workspaceFolders: [{ uri: { fsPath }, name: "project", index: 0 }] })
+
+		try {
+			setWorkspace("/home/dev/project")
+			await collect(
+				new RecordingHandler(handler, directory).createMessage("Workspace: /home/dev/project", [
+					userMessage("Read /home/dev/project/a.ts"),
+				]),
+			)
+
+			setWorkspace("/tmp/ci-workspace")
+			const replay = new ReplayHandler({ replayDirectory: directory })
+
+			expect(
+				await collect(
+					replay.createMessage("Workspace: /tmp/ci-workspace", [userMessage("Read /tmp/ci-workspace/a.ts")]),
+				),
+			).toEqual(chunks)
+		} finally {
+			Object.assign(vscode.workspace, { workspaceFolders: [] })
+		}
+	})
+
+	it("replays recorded errors with their status", async () => {
+		handler.createMessage = vi.fn(async function* () {
+			yield { type: "text" as const, text: "partial" }
+			throw Object.assign(new Error("Rate limited"), { status: 429 })
+		})
+		const messages = [userMessage("Hello")]
+
+		await expect(
+			collect(new RecordingHandler(handler, directory).createMessage("system", messages)),
+		).rejects.toThrow("Rate limited")
+
+		const replay = new ReplayHandler({ replayDirectory: directory })
+		const error = await collect(replay.createMessage("system", messages)).catch((e) => e)
+
+		expect(error.message).toBe("Rate limited")
+		expect(error.status).toBe(429)
+	})
+
+	it("fails requests without a recording with their key", async () => {
+		const messages = [userMessage("Not recorded")]
+		const replay = new ReplayHandler({ replayDirectory: directory })
+
+		await expect(collect(replay.createMessage("system", messages))).rejects.toThrow(
+			getMessageRecordingKey("system", messages),
+		)
+	})
+
+	it("records every handler built while the recording directory is set", async () => {
+		vi.stubEnv(API_RECORDING_DIR_ENV, directory)
+
+		try {
+			expect(buildApiHandler({ apiProvider: "anthropic", apiKey: "key" })).toBeInstanceOf(RecordingHandler)
+			expect(buildApiHandler({ apiProvider: "replay", replayDirectory: directory })).toBeInstanceOf(ReplayHandler)
+		} finally {
+			vi.unstubAllEnvs()
+		}
+	})
+})
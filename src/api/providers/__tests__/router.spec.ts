@@ -0,0 +1,201 @@
+// npx vitest run api/providers/__tests__/router.spec.ts
+
+import type { ModelInfo, ProviderSettings } from "@roo-code/types"
+
+import type { ApiHandler } from "../../index"
+import type { ApiStreamChunk } from "../../transform/stream"
+import { RouterHandler, clearRouterCooldowns, setRouterProfileResolver } from "../router"
+
+function createBackend(id: string, info: Partial<ModelInfo>, behavior: () => AsyncGenerator<ApiStreamChunk>) {
+	return {
+		createMessage: vi.fn(behavior),
+		getModel: vi.fn(() => ({ id, info: { contextWindow: 100_000, supportsPromptCache: false, ...info } })),
+		countTokens: vi.fn(async () => 42),
+		completePrompt: vi.fn(async () => `${id} completion`),
+	}
+}
+
+function rateLimited(): AsyncGenerator<ApiStreamChunk> {
+	// eslint-disable-next-line require-yield
+	return (async function* () {
+		throw Object.assign(new Error("Too many requests"), { status: 429 })
+	})()
+}
+
+function respond(text: string): () => AsyncGenerator<ApiStreamChunk> {
+	return async function* () {
+		yield { type: "text", text }
+	}
+}
+
+async function collect(stream: AsyncGenerator<ApiStreamChunk>) {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+describe("RouterHandler", () => {
+	let backends: Record<string, ReturnType<typeof createBackend>>
+
+	const profiles: Record<string, { name: string; settings: ProviderSettings }> = {
+		"id-primary": { name: "primary", settings: { apiProvider: "anthropic" } },
+		"id-secondary": { name: "secondary", settings: { apiProvider: "openai" } },
+		"id-nested": { name: "nested", settings: { apiProvider: "router" } },
+	}
+
+	const buildHandler = vi.fn((settings: ProviderSettings) => {
+		const name = Object.values(profiles).find((profile) => profile.settings === settings)!.name
+		return backends[name] as unknown as ApiHandler
+	})
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		clearRouterCooldowns()
+		setRouterProfileResolver((profileId) => profiles[profileId])
+
+		backends = {
+			primary: createBackend("claude", { contextWindow: 200_000, maxTokens: 8192 }, respond("from primary")),
+			secondary: createBackend("gpt", { contextWindow: 128_000, maxTokens: 16_384 }, respond("from secondary")),
+		}
+	})
+
+	afterEach(() => {
+		vi.restoreAllMocks()
+		setRouterProfileResolver(undefined)
+	})
+
+	const createRouter = (options: ProviderSettings = {}) =>
+		new RouterHandler(
+			{
+				routerProfiles: [
+					{ profileId: "id-secondary", priority: 1 },
+					{ profileId: "id-primary", priority: 0 },
+				],
+				...options,
+			},
+			buildHandler,
+		)
+
+	it("serves requests from the profile with the lowest priority", async () => {
+		const chunks = await collect(createRouter().createMessage("system", [], { taskId: "task" }))
+
+		expect(chunks).toEqual([
+			{ type: "router", profileName: "primary", modelId: "claude", failovers: [] },
+			{ type: "text", text: "from primary" },
+		])
+		expect(backends.secondary.createMessage).not.toHaveBeenCalled()
+	})
+
+	it("fails over to the next profile with the same metadata on a retryable error", async () => {
+		backends.primary.createMessage.mockImplementation(rateLimited)
+		const metadata = { taskId: "task", toolProtocol: "native" as const }
+
+		const chunks = await collect(createRouter().createMessage("system", [], metadata))
+
+		expect(chunks).toEqual([
+			{ type: "router", profileName: "secondary", modelId: "gpt", failovers: ["primary"] },
+			{ type: "text", text: "from secondary" },
+		])
+		expect(backends.secondary.createMessage).toHaveBeenCalledWith("system", [], metadata)
+	})
+
+	it("keeps a failed profile on cooldown for the following requests", async () => {
+		backends.primary.createMessage.mockImplementation(rateLimited)
+		await collect(createRouter().createMessage("system", [], { taskId: "task" }))
+		backends.primary.createMessage.mockImplementation(respond("from primary"))
+
+		const chunks = await collect(createRouter().createMessage("system", [], { taskId: "task" }))
+
+		expect(chunks[0]).toMatchObject({ profileName: "secondary", failovers: [] })
+		expect(backends.primary.createMessage).toHaveBeenCalledTimes(1)
+	})
+
+	it("does not fail over on errors that are not retryable", async () => {
+		// eslint-disable-next-line require-yield
+		backends.primary.createMessage.mockImplementation(async function* () {
+			throw Object.assign(new Error("Invalid API key"), { status: 401 })
+		})
+
+		await expect(collect(createRouter().createMessage("system", [], { taskId: "task" }))).rejects.toThrow(
+			"Invalid API key",
+		)
+		expect(backends.secondary.createMessage).not.toHaveBeenCalled()
+	})
+
+	it("rethrows errors after the response started streaming", async () => {
+		backends.primary.createMessage.mockImplementation(async function* () {
+			yield { type: "text", text: "partial" }
+			throw Object.assign(new Error("Service unavailable"), { status: 503 })
+		})
+
+		await expect(collect(createRouter().createMessage("system", [], { taskId: "task" }))).rejects.toThrow(
+			"Service unavailable",
+		)
+		expect(backends.secondary.createMessage).not.toHaveBeenCalled()
+	})
+
+	it("clamps the model limits to the smallest of all profiles", () => {
+		const model = createRouter().getModel()
+
+		expect(model.id).toBe("claude")
+		expect(model.info.contextWindow).toBe(128_000)
+		expect(model.info.maxTokens).toBe(8192)
+	})
+
+	it("supports native tools only when all profiles support them", async () => {
+		backends.primary = createBackend("claude", { supportsNativeTools: true }, rateLimited)
+		backends.secondary = createBackend("gpt", { supportsNativeTools: false }, respond("from secondary"))
+		const router = createRouter()
+
+		expect(router.getModel().info.supportsNativeTools).toBe(false)
+
+		await collect(router.createMessage("system", []))
+
+		expect(router.getModel().id).toBe("gpt")
+		expect(router.getModel().info.supportsNativeTools).toBe(false)
+	})
+
+	it("picks profiles in proportion to their weight", async () => {
+		vi.spyOn(Math, "random").mockReturnValue(0.9)
+
+		const router = createRouter({
+			routerStrategy: "weighted",
+			routerProfiles: [
+				{ profileId: "id-primary", weight: 1 },
+				{ profileId: "id-secondary", weight: 3 },
+			],
+		})
+		const chunks = await collect(router.createMessage("system", [], { taskId: "task" }))
+
+		expect(chunks[0]).toMatchObject({ profileName: "secondary" })
+		expect(router.getModel().id).toBe("gpt")
+	})
+
+	it("skips unknown and nested router profiles", async () => {
+		const router = createRouter({ routerProfiles: [{ profileId: "id-nested" }, { profileId: "id-missing" }] })
+
+		expect(buildHandler).not.toHaveBeenCalled()
+		await expect(collect(router.createMessage("system", [], { taskId: "task" }))).rejects.toThrow(
+			"no available backend profiles",
+		)
+	})
+
+	it("exposes the response data of the profile that served the request", async () => {
+		const router = createRouter()
+		Object.assign(backends.primary, { getThoughtSignature: () => "signature" })
+
+		expect(router.getThoughtSignature()).toBeUndefined()
+		await collect(router.createMessage("system", [], { taskId: "task" }))
+
+		expect(router.getThoughtSignature()).toBe("signature")
+		expect(router.getResponseId()).toBeUndefined()
+	})
+
+	it("fails over single completions", async () => {
+		backends.primary.completePrompt.mockRejectedValue(Object.assign(new Error("Timeout"), { code: "ETIMEDOUT" }))
+
+		expect(await createRouter().completePrompt("prompt")).toBe("gpt completion")
+	})
+})
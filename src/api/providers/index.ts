@@ -37,3 +37,6 @@ export { VercelAiGatewayHandler } from "./vercel-ai-gateway"
 export { DeepInfraHandler } from "./deepinfra"
 export { MiniMaxHandler } from "./minimax"
 export { BasetenHandler } from "./baseten"
+export { RouterHandler } from "./router"
+export { RecordingHandler } from "./recording"
+export { ReplayHandler } from "./replay"
@@ -0,0 +1,125 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ModelInfo } from "@roo-code/types"
+
+import type {
+	ApiHandler,
+	ApiHandlerCreateMessageMetadata,
+	ApiHandlerResponseMetadata,
+	SingleCompletionHandler,
+} from "../index"
+import type { ApiStream } from "../transform/stream"
+
+import {
+	type ApiMessageRecording,
+	type RecordedResponseMetadata,
+	getCompletionRecordingKey,
+	getMessageRecordingKey,
+	toRecordedError,
+	writeRecordedModel,
+	writeRecording,
+} from "./utils/api-recording"
+
+/**
+ * Wraps an API handler to write every request and its streamed response to a directory, for the
+ * ReplayHandler to serve them back offline. Failing to write a recording never fails the request.
+ */
+export class RecordingHandler implements ApiHandler, ApiHandlerResponseMetadata, SingleCompletionHandler {
+	constructor(
+		private readonly handler: ApiHandler & ApiHandlerResponseMetadata & Partial<SingleCompletionHandler>,
+		private readonly directory: string,
+	) {}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const recording: ApiMessageRecording = {
+			key: getMessageRecordingKey(systemPrompt, messages),
+			systemPrompt,
+			messages,
+			chunks: [],
+		}
+
+		try {
+			for await (const chunk of this.handler.createMessage(systemPrompt, messages, metadata)) {
+				recording.chunks.push(chunk)
+				yield chunk
+			}
+
+			recording.response = this.getResponseMetadata()
+		} catch (error) {
+			recording.error = toRecordedError(error)
+			throw error
+		} finally {
+			await this.save(recording)
+		}
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		return this.handler.getModel()
+	}
+
+	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number> {
+		return this.handler.countTokens(content)
+	}
+
+	async completePrompt(prompt: string, systemPrompt?: string, metadata?: any): Promise<string> {
+		if (!this.handler.completePrompt) {
+			throw new Error("The recorded provider does not support single completions")
+		}
+
+		const key = getCompletionRecordingKey(prompt, systemPrompt)
+
+		try {
+			const text = await this.handler.completePrompt(prompt, systemPrompt, metadata)
+			await this.save({ key, prompt, systemPrompt, text })
+			return text
+		} catch (error) {
+			await this.save({ key, prompt, systemPrompt, error: toRecordedError(error) })
+			throw error
+		}
+	}
+
+	getResponseId() {
+		return this.handler.getResponseId?.()
+	}
+
+	getEncryptedContent() {
+		return this.handler.getEncryptedContent?.()
+	}
+
+	getThoughtSignature() {
+		return this.handler.getThoughtSignature?.()
+	}
+
+	getSummary() {
+		return this.handler.getSummary?.()
+	}
+
+	getReasoningDetails() {
+		return this.handler.getReasoningDetails?.()
+	}
+
+	private getResponseMetadata(): RecordedResponseMetadata | undefined {
+		const response: RecordedResponseMetadata = {
+			responseId: this.getResponseId(),
+			encryptedContent: this.getEncryptedContent(),
+			thoughtSignature: this.getThoughtSignature(),
+			summary: this.getSummary(),
+			reasoningDetails: this.getReasoningDetails(),
+		}
+
+		return Object.values(response).some((value) => value !== undefined) ? response : undefined
+	}
+
+	private async save(recording: Parameters<typeof writeRecording>[1]) {
+		try {
+			await writeRecordedModel(this.directory, this.getModel())
+			await writeRecording(this.directory, recording)
+		} catch (error) {
+			console.error(`[RecordingHandler] Failed to write recording ${recording.key}:`, error)
+		}
+	}
+}
@@ -0,0 +1,106 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import { type ModelInfo, openAiModelInfoSaneDefaults } from "@roo-code/types"
+
+import type { ApiHandlerCreateMessageMetadata, ApiHandlerResponseMetadata, SingleCompletionHandler } from "../index"
+import type { ApiHandlerOptions } from "../../shared/api"
+import { ApiStream } from "../transform/stream"
+
+import { BaseProvider } from "./base-provider"
+import {
+	type ApiCompletionRecording,
+	type ApiMessageRecording,
+	type RecordedResponseMetadata,
+	fromRecordedError,
+	getCompletionRecordingKey,
+	getMessageRecordingKey,
+	readRecordedModel,
+	readRecording,
+} from "./utils/api-recording"
+
+/**
+ * Serves the API sessions recorded by the RecordingHandler without any network access, so
+ * tasks can be tested end-to-end deterministically. A request without a recording fails with
+ * its key, to make it easy to find which request changed.
+ */
+export class ReplayHandler extends BaseProvider implements ApiHandlerResponseMetadata, SingleCompletionHandler {
+	private readonly directory: string
+	private readonly model: { id: string; info: ModelInfo }
+	private lastResponse?: RecordedResponseMetadata
+
+	constructor(options: ApiHandlerOptions) {
+		super()
+		this.directory = options.replayDirectory ?? ""
+		this.model = (this.directory && readRecordedModel(this.directory)) || {
+			id: "replay",
+			info: openAiModelInfoSaneDefaults,
+		}
+	}
+
+	override async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		_metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const recording = await this.read<ApiMessageRecording>(getMessageRecordingKey(systemPrompt, messages))
+		this.lastResponse = undefined
+
+		for (const chunk of recording.chunks) {
+			yield chunk
+		}
+
+		if (recording.error) {
+			throw fromRecordedError(recording.error)
+		}
+
+		this.lastResponse = recording.response
+	}
+
+	override getModel(): { id: string; info: ModelInfo } {
+		return this.model
+	}
+
+	async completePrompt(prompt: string, systemPrompt?: string): Promise<string> {
+		const recording = await this.read<ApiCompletionRecording>(getCompletionRecordingKey(prompt, systemPrompt))
+
+		if (recording.error) {
+			throw fromRecordedError(recording.error)
+		}
+
+		return recording.text ?? ""
+	}
+
+	getResponseId() {
+		return this.lastResponse?.responseId
+	}
+
+	getEncryptedContent() {
+		return this.lastResponse?.encryptedContent
+	}
+
+	getThoughtSignature() {
+		return this.lastResponse?.thoughtSignature
+	}
+
+	getSummary() {
+		return this.lastResponse?.summary
+	}
+
+	getReasoningDetails() {
+		return this.lastResponse?.reasoningDetails
+	}
+
+	private async read<T extends ApiMessageRecording | ApiCompletionRecording>(key: string): Promise<T> {
+		if (!this.directory) {
+			throw new Error("The replay provider requires a directory with recorded API sessions")
+		}
+
+		const recording = await readRecording<T>(this.directory, key)
+
+		if (!recording) {
+			throw new Error(`No recorded API response for request ${key} in ${this.directory}`)
+		}
+
+		return recording
+	}
+}
@@ -0,0 +1,272 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import {
+	type ModelInfo,
+	type ProviderSettings,
+	type RouterProfile,
+	isCompositeProvider,
+	openAiModelInfoSaneDefaults,
+} from "@roo-code/types"
+
+import type {
+	ApiHandler,
+	ApiHandlerCreateMessageMetadata,
+	ApiHandlerResponseMetadata,
+	SingleCompletionHandler,
+} from "../index"
+import type { ApiHandlerOptions } from "../../shared/api"
+import { ApiStream, ApiStreamRouterChunk } from "../transform/stream"
+
+import { isRetryableProviderError } from "./utils/error-handler"
+
+const DEFAULT_COOLDOWN_SECONDS = 60
+
+/**
+ * Looks up the settings of a provider profile by its ID. Handlers are built synchronously,
+ * so the ProviderSettingsManager registers a resolver backed by its last loaded profiles.
+ */
+export type RouterProfileResolver = (profileId: string) => { name: string; settings: ProviderSettings } | undefined
+
+let profileResolver: RouterProfileResolver | undefined
+
+export function setRouterProfileResolver(resolver: RouterProfileResolver | undefined): void {
+	profileResolver = resolver
+}
+
+/**
+ * Profiles that failed with a retryable error, mapped to the time until which they are only
+ * tried as a last resort. Shared by all router handlers so the next task avoids them too.
+ */
+const cooldowns = new Map<string, number>()
+
+export function clearRouterCooldowns(): void {
+	cooldowns.clear()
+}
+
+interface RouterMember extends RouterProfile {
+	name: string
+	handler: ApiHandler & ApiHandlerResponseMetadata
+	index: number
+}
+
+/**
+ * Routes each request to one of several provider profiles, ordered by priority or picked by
+ * weight. When a backend fails with a retryable error before streaming anything, the request
+ * fails over to the next backend. A backend that fails mid-stream is put on cooldown and the
+ * error is rethrown, so the retry of the task picks another backend.
+ *
+ * All backends get the same request metadata, so the tool protocol of the task never changes,
+ * and the model info is clamped to the smallest context window and output limit of the backends.
+ */
+export class RouterHandler implements ApiHandler, ApiHandlerResponseMetadata, SingleCompletionHandler {
+	private readonly options: ApiHandlerOptions
+	private readonly members: RouterMember[]
+	private activeMember?: RouterMember
+
+	constructor(options: ApiHandlerOptions, buildHandler: (configuration: ProviderSettings) => ApiHandler) {
+		this.options = options
+		this.members = (options.routerProfiles ?? []).flatMap((profile, index) => {
+			const resolved = profileResolver?.(profile.profileId)
+
+			// Routers are not nested, which also rules out cycles.
+			if (!resolved?.settings.apiProvider || isCompositeProvider(resolved.settings.apiProvider)) {
+				return []
+			}
+
+			try {
+				return [{ ...profile, name: resolved.name, handler: buildHandler(resolved.settings), index }]
+			} catch (error) {
+				console.warn(`[RouterHandler] Skipping profile '${resolved.name}': ${error}`)
+				return []
+			}
+		})
+	}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const order = this.getMemberOrder()
+
+		if (order.length === 0) {
+			throw new Error("The router profile has no available backend profiles")
+		}
+
+		const failovers: string[] = []
+
+		for (const [index, member] of order.entries()) {
+			let started = false
+
+			try {
+				for await (const chunk of member.handler.createMessage(systemPrompt, messages, metadata)) {
+					if (!started) {
+						started = true
+						yield this.activate(member, failovers)
+					}
+
+					yield chunk
+				}
+
+				if (!started) {
+					yield this.activate(member, failovers)
+				}
+
+				cooldowns.delete(member.profileId)
+				return
+			} catch (error) {
+				if (!isRetryableProviderError(error)) {
+					throw error
+				}
+
+				this.coolDown(member)
+
+				if (started || index === order.length - 1) {
+					throw error
+				}
+
+				console.warn(`[RouterHandler] Failing over from '${member.name}': ${error}`)
+				failovers.push(member.name)
+			}
+		}
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		const member = this.activeMember ?? this.getMemberOrder()[0]
+
+		if (!member) {
+			return { id: "router", info: openAiModelInfoSaneDefaults }
+		}
+
+		const { id, info } = member.handler.getModel()
+		const infos = this.members.map((m) => m.handler.getModel().info)
+		const maxTokens = infos.map((i) => i.maxTokens).filter((value): value is number => !!value && value > 0)
+
+		return {
+			id,
+			info: {
+				...info,
+				contextWindow: Math.min(...infos.map((i) => i.contextWindow)),
+				maxTokens: maxTokens.length > 0 ? Math.min(...maxTokens) : info.maxTokens,
+				supportsImages: infos.every((i) => i.supportsImages),
+				// The tool protocol must not change when a request fails over to another profile
+				supportsNativeTools: infos.every((i) => i.supportsNativeTools),
+			},
+		}
+	}
+
+	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number> {
+		const member = this.activeMember ?? this.getMemberOrder()[0]
+
+		if (!member) {
+			return Promise.resolve(0)
+		}
+
+		return member.handler.countTokens(content)
+	}
+
+	async completePrompt(prompt: string, systemPrompt?: string, metadata?: any): Promise<string> {
+		const order = this.getMemberOrder().filter((member) => "completePrompt" in member.handler)
+
+		for (const [index, member] of order.entries()) {
+			try {
+				const result = await (member.handler as ApiHandler & SingleCompletionHandler).completePrompt(
+					prompt,
+					systemPrompt,
+					metadata,
+				)
+				cooldowns.delete(member.profileId)
+				return result
+			} catch (error) {
+				if (!isRetryableProviderError(error) || index === order.length - 1) {
+					throw error
+				}
+
+				this.coolDown(member)
+			}
+		}
+
+		throw new Error("The router profile has no backend profile that supports single completions")
+	}
+
+	// The data about the last response comes from the backend that served it.
+
+	getResponseId() {
+		return this.activeMember?.handler.getResponseId?.()
+	}
+
+	getEncryptedContent() {
+		return this.activeMember?.handler.getEncryptedContent?.()
+	}
+
+	getThoughtSignature() {
+		return this.activeMember?.handler.getThoughtSignature?.()
+	}
+
+	getSummary() {
+		return this.activeMember?.handler.getSummary?.()
+	}
+
+	getReasoningDetails() {
+		return this.activeMember?.handler.getReasoningDetails?.()
+	}
+
+	private activate(member: RouterMember, failovers: string[]): ApiStreamRouterChunk {
+		this.activeMember = member
+
+		return {
+			type: "router",
+			profileName: member.name,
+			modelId: member.handler.getModel().id,
+			failovers,
+		}
+	}
+
+	private coolDown(member: RouterMember) {
+		const seconds = this.options.routerCooldownSeconds ?? DEFAULT_COOLDOWN_SECONDS
+		cooldowns.set(member.profileId, Date.now() + seconds * 1000)
+	}
+
+	/**
+	 * Orders the backends for a request: available ones by priority, or with a weighted pick
+	 * first, followed by the ones on cooldown, soonest available first.
+	 */
+	private getMemberOrder(): RouterMember[] {
+		const now = Date.now()
+		const byPriority = [...this.members].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0) || a.index - b.index)
+		const available = byPriority.filter((member) => (cooldowns.get(member.profileId) ?? 0) <= now)
+		const coolingDown = byPriority
+			.filter((member) => !available.includes(member))
+			.sort((a, b) => cooldowns.get(a.profileId)! - cooldowns.get(b.profileId)!)
+
+		if (this.options.routerStrategy === "weighted") {
+			const picked = pickWeighted(available)
+
+			if (picked) {
+				return [picked, ...available.filter((member) => member !== picked), ...coolingDown]
+			}
+		}
+
+		return [...available, ...coolingDown]
+	}
+}
+
+function pickWeighted(members: RouterMember[]): RouterMember | undefined {
+	const total = members.reduce((sum, member) => sum + (member.weight ?? 1), 0)
+
+	if (total <= 0) {
+		return undefined
+	}
+
+	let random = Math.random() * total
+
+	for (const member of members) {
+		random -= member.weight ?? 1
+
+		if (random < 0) {
+			return member
+		}
+	}
+
+	return members[members.length - 1]
+}
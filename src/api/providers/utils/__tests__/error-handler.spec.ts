@@ -1,4 +1,4 @@
-import { handleProviderError, handleOpenAIError } from "../error-handler"
+import { handleProviderError, handleOpenAIError, isRetryableProviderError } from "../error-handler"
 
 describe("handleProviderError", () => {
 	const providerName = "TestProvider"
@@ -281,3 +281,35 @@ describe("handleOpenAIError (backward compatibility)", () => {
 		expect((result as any).status).toBe(401)
 	})
 })
+
+describe("isRetryableProviderError", () => {
+	it.each([408, 429, 500, 503])("should retry status %d", (status) => {
+		const error = handleProviderError(Object.assign(new Error("failed"), { status }), "TestProvider")
+
+		expect(isRetryableProviderError(error)).toBe(true)
+	})
+
+	it.each([400, 401, 403, 404])("should not retry status %d", (status) => {
+		expect(isRetryableProviderError(Object.assign(new Error("failed"), { status }))).toBe(false)
+	})
+
+	it("should retry Bedrock throttling with AWS metadata", () => {
+		const error = Object.assign(new Error("ThrottlingException"), { $metadata: { httpStatusCode: 429 } })
+
+		expect(isRetryableProviderError(error)).toBe(true)
+	})
+
+	it("should retry network failures", () => {
+		expect(isRetryableProviderError(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }))).toBe(true)
+		expect(
+			isRetryableProviderError(
+				new Error("fetch failed", { cause: Object.assign(new Error(), { code: "ETIMEDOUT" }) }),
+			),
+		).toBe(true)
+	})
+
+	it("should not retry errors without status or network code", () => {
+		expect(isRetryableProviderError(new Error("Invalid API key"))).toBe(false)
+		expect(isRetryableProviderError(undefined)).toBe(false)
+	})
+})
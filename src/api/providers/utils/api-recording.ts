@@ -0,0 +1,167 @@
+import * as crypto from "crypto"
+import * as fs from "fs/promises"
+import * as fsSync from "fs"
+import * as os from "os"
+import * as path from "path"
+import * as vscode from "vscode"
+
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ModelInfo } from "@roo-code/types"
+
+import type { ApiStreamChunk } from "../../transform/stream"
+
+/**
+ * Environment variable with the directory that every API session is recorded to, for the
+ * "replay" provider to serve them back offline.
+ */
+export const API_RECORDING_DIR_ENV = "ROO_CODE_API_RECORDING_DIR"
+
+const MODEL_FILE = "model.json"
+
+export interface RecordedError {
+	message: string
+	status?: number
+	code?: string
+}
+
+/**
+ * The data about a response that handlers expose after streaming it, see ApiHandlerResponseMetadata.
+ */
+export interface RecordedResponseMetadata {
+	responseId?: string
+	encryptedContent?: { encrypted_content: string; id?: string }
+	thoughtSignature?: string
+	summary?: any[]
+	reasoningDetails?: any[]
+}
+
+export interface ApiMessageRecording {
+	key: string
+	systemPrompt: string
+	messages: Anthropic.Messages.MessageParam[]
+	chunks: ApiStreamChunk[]
+	response?: RecordedResponseMetadata
+	error?: RecordedError
+}
+
+export interface ApiCompletionRecording {
+	key: string
+	prompt: string
+	systemPrompt?: string
+	text?: string
+	error?: RecordedError
+}
+
+// The environment details contain the current time and other state of the editor, which would
+// make every request of a replayed task miss its recording.
+const ENVIRONMENT_DETAILS_REGEX = /<environment_details>[\s\S]*?<\/environment_details>/g
+
+function normalize(value: unknown, paths: [string, string][]): unknown {
+	if (typeof value === "string") {
+		return paths.reduce(
+			(text, [from, to]) => text.replaceAll(from, to),
+			value.replace(ENVIRONMENT_DETAILS_REGEX, "<environment_details />"),
+		)
+	}
+
+	if (Array.isArray(value)) {
+		return value.map((entry) => normalize(entry, paths))
+	}
+
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([key, entry]) => key !== "ts" && entry !== undefined)
+				.sort(([a], [b]) => a.localeCompare(b))
+				.map(([key, entry]) => [key, normalize(entry, paths)]),
+		)
+	}
+
+	return value
+}
+
+function hash(value: unknown): string {
+	// Recordings are replayed in other workspaces and on other machines, e.g. in CI.
+	const workspacePaths = (vscode.workspace.workspaceFolders ?? [])
+		.map((folder) => folder.uri.fsPath)
+		.sort((a, b) => b.length - a.length)
+	const paths: [string, string][] = [
+		...workspacePaths.map((workspacePath): [string, string] => [workspacePath, "{workspace}"]),
+		[os.homedir(), "{home}"],
+	]
+
+	return crypto
+		.createHash("sha256")
+		.update(JSON.stringify(normalize(value, paths)))
+		.digest("hex")
+		.slice(0, 16)
+}
+
+/**
+ * Derives the key of a request from its system prompt and messages, ignoring the environment
+ * details, message timestamps and the paths of the workspace and home directory.
+ */
+export function getMessageRecordingKey(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): string {
+	return hash({ systemPrompt, messages })
+}
+
+export function getCompletionRecordingKey(prompt: string, systemPrompt?: string): string {
+	return `completion-${hash({ systemPrompt, prompt })}`
+}
+
+export function toRecordedError(error: unknown): RecordedError {
+	const anyErr = error as any
+
+	return {
+		message: error instanceof Error ? error.message : String(error),
+		status: typeof anyErr?.status === "number" ? anyErr.status : undefined,
+		code: typeof anyErr?.code === "string" ? anyErr.code : undefined,
+	}
+}
+
+/**
+ * Recreates a recorded error with the metadata that the retry logic of the task relies on.
+ */
+export function fromRecordedError({ message, status, code }: RecordedError): Error {
+	return Object.assign(new Error(message), status !== undefined ? { status } : {}, code ? { code } : {})
+}
+
+export async function writeRecording(
+	directory: string,
+	recording: ApiMessageRecording | ApiCompletionRecording,
+): Promise<void> {
+	await fs.mkdir(directory, { recursive: true })
+	await fs.writeFile(path.join(directory, `${recording.key}.json`), JSON.stringify(recording, null, 2))
+}
+
+export async function readRecording<T extends ApiMessageRecording | ApiCompletionRecording>(
+	directory: string,
+	key: string,
+): Promise<T | undefined> {
+	try {
+		return JSON.parse(await fs.readFile(path.join(directory, `${key}.json`), "utf8"))
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return undefined
+		}
+
+		throw error
+	}
+}
+
+export async function writeRecordedModel(directory: string, model: { id: string; info: ModelInfo }): Promise<void> {
+	await fs.mkdir(directory, { recursive: true })
+	await fs.writeFile(path.join(directory, MODEL_FILE), JSON.stringify(model, null, 2))
+}
+
+/**
+ * Reads the recorded model synchronously, since handlers are built synchronously.
+ */
+export function readRecordedModel(directory: string): { id: string; info: ModelInfo } | undefined {
+	try {
+		return JSON.parse(fsSync.readFileSync(path.join(directory, MODEL_FILE), "utf8"))
+	} catch {
+		return undefined
+	}
+}
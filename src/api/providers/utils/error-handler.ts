@@ -112,3 +112,33 @@ export function handleProviderError(
 export function handleOpenAIError(error: unknown, providerName: string): Error {
 	return handleProviderError(error, providerName, { messagePrefix: "completion" })
 }
+
+// Network failures that are worth retrying on another backend.
+const RETRYABLE_ERROR_CODES = new Set([
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ECONNABORTED",
+	"ETIMEDOUT",
+	"EPIPE",
+	"ENOTFOUND",
+	"EAI_AGAIN",
+	"UND_ERR_CONNECT_TIMEOUT",
+	"UND_ERR_SOCKET",
+])
+
+/**
+ * Checks whether a provider error is transient, based on the metadata preserved by
+ * handleProviderError: rate limits, timeouts, server errors and network failures.
+ * Errors like invalid keys or bad requests would fail the same way when retried.
+ */
+export function isRetryableProviderError(error: unknown): boolean {
+	const anyErr = error as any
+	const status = anyErr?.status ?? anyErr?.$metadata?.httpStatusCode
+
+	if (typeof status === "number") {
+		return status === 408 || status === 429 || status >= 500
+	}
+
+	const code = anyErr?.code ?? anyErr?.cause?.code
+	return typeof code === "string" && RETRYABLE_ERROR_CODES.has(code)
+}
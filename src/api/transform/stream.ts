@@ -3,6 +3,7 @@ export type ApiStream = AsyncGenerator<ApiStreamChunk>
 export type ApiStreamChunk =
 	| ApiStreamTextChunk
 	| ApiStreamAutoModelChunk
+	| ApiStreamRouterChunk
 	| ApiStreamUsageChunk
 	| ApiStreamReasoningChunk
 	| ApiStreamThinkingCompleteChunk
@@ -33,6 +34,16 @@ export interface ApiStreamAutoModelChunk {
 	selectedLLM?: string
 }
 
+/**
+ * Backend of a router profile that serves the request, with the profiles it failed over from.
+ */
+export interface ApiStreamRouterChunk {
+	type: "router"
+	profileName: string
+	modelId: string
+	failovers: string[]
+}
+
 /**
  * Reasoning/thinking chunk from the API stream.
  * For Anthropic extended thinking, this may include a signature field
@@ -440,6 +440,76 @@ export class NativeToolCallParser {
 					nativeArgs = {
 						query: partialArgs.query,
 						path: partialArgs.path,
+						mode: partialArgs.mode,
+					}
+				}
+				break
+
+			case "find_definition":
+			case "find_references":
+				if (partialArgs.symbol !== undefined) {
+					nativeArgs = {
+						symbol: partialArgs.symbol,
+						path: partialArgs.path,
+					}
+				}
+				break
+
+			case "navigate_symbol":
+				if (partialArgs.path !== undefined) {
+					nativeArgs = {
+						path: partialArgs.path,
+						line: partialArgs.line,
+						symbol: partialArgs.symbol,
+						action: partialArgs.action,
+					}
+				}
+				break
+
+			case "rename_symbol":
+				if (partialArgs.path !== undefined) {
+					nativeArgs = {
+						path: partialArgs.path,
+						line: partialArgs.line,
+						symbol: partialArgs.symbol,
+						new_name: partialArgs.new_name,
+					}
+				}
+				break
+
+			case "start_process":
+				if (partialArgs.command) {
+					nativeArgs = {
+						command: partialArgs.command,
+						cwd: partialArgs.cwd,
+					}
+				}
+				break
+
+			case "run_tests":
+				nativeArgs = {
+					framework: partialArgs.framework,
+					path: partialArgs.path,
+					pattern: partialArgs.pattern,
+					cwd: partialArgs.cwd,
+				}
+				break
+
+			case "read_process_output":
+			case "stop_process":
+				if (partialArgs.process_id !== undefined) {
+					nativeArgs = {
+						process_id: partialArgs.process_id,
+					}
+				}
+				break
+
+			case "wait_for_output":
+				if (partialArgs.process_id !== undefined || partialArgs.pattern !== undefined) {
+					nativeArgs = {
+						process_id: partialArgs.process_id,
+						pattern: partialArgs.pattern,
+						timeout: partialArgs.timeout,
 					}
 				}
 				break
@@ -736,6 +806,86 @@ export class NativeToolCallParser {
 						nativeArgs = {
 							query: args.query,
 							path: args.path,
+							mode: args.mode,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "find_definition":
+				case "find_references":
+					if (args.symbol !== undefined) {
+						nativeArgs = {
+							symbol: args.symbol,
+							path: args.path,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "navigate_symbol":
+					if (
+						args.path !== undefined &&
+						args.line !== undefined &&
+						args.symbol !== undefined &&
+						args.action !== undefined
+					) {
+						nativeArgs = {
+							path: args.path,
+							line: args.line,
+							symbol: args.symbol,
+							action: args.action,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "rename_symbol":
+					if (
+						args.path !== undefined &&
+						args.line !== undefined &&
+						args.symbol !== undefined &&
+						args.new_name !== undefined
+					) {
+						nativeArgs = {
+							path: args.path,
+							line: args.line,
+							symbol: args.symbol,
+							new_name: args.new_name,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "start_process":
+					if (args.command) {
+						nativeArgs = {
+							command: args.command,
+							cwd: args.cwd,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "run_tests":
+					nativeArgs = {
+						framework: args.framework,
+						path: args.path,
+						pattern: args.pattern,
+						cwd: args.cwd,
+					} as NativeArgsFor<TName>
+					break
+
+				case "read_process_output":
+				case "stop_process":
+					if (args.process_id !== undefined) {
+						nativeArgs = {
+							process_id: args.process_id,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "wait_for_output":
+					if (args.process_id !== undefined && args.pattern !== undefined) {
+						nativeArgs = {
+							process_id: args.process_id,
+							pattern: args.pattern,
+							timeout: args.timeout,
 						} as NativeArgsFor<TName>
 					}
 					break
@@ -44,6 +44,15 @@ import { applyDiffTool as applyDiffToolClass } from "../tools/ApplyDiffTool"
 import { formatResponse } from "../prompts/responses"
 import { validateToolUse } from "../tools/validateToolUse"
 // import { codebaseSearchTool } from "../tools/CodebaseSearchTool"
+import { findDefinitionTool } from "../tools/FindDefinitionTool"
+import { findReferencesTool } from "../tools/FindReferencesTool"
+import { navigateSymbolTool } from "../tools/NavigateSymbolTool"
+import { renameSymbolTool } from "../tools/RenameSymbolTool"
+import { startProcessTool } from "../tools/StartProcessTool"
+import { readProcessOutputTool } from "../tools/ReadProcessOutputTool"
+import { waitForOutputTool } from "../tools/WaitForOutputTool"
+import { stopProcessTool } from "../tools/StopProcessTool"
+import { runTestsTool } from "../tools/RunTestsTool"
 import { updateCospecMetadata } from "../checkpoints"
 import { fixBrowserLaunchAction } from "../../utils/fixbrowserLaunchAction"
 // import { isNativeProtocol } from "@roo-code/types"
@@ -309,6 +318,28 @@ export async function presentAssistantMessage(cline: Task) {
 				},
 			}
 
+			// Native MCP tools skip the validation of tool_use blocks, but the mode still has to allow them.
+			if (!mcpBlock.partial) {
+				const { mode, customModes } = (await cline.providerRef.deref()?.getState()) ?? {}
+
+				try {
+					validateToolUse(
+						"use_mcp_tool",
+						mode ?? defaultModeSlug,
+						customModes ?? [],
+						undefined,
+						syntheticToolUse.params,
+						undefined,
+						undefined,
+						{ cwd: cline.cwd },
+					)
+				} catch (error) {
+					cline.consecutiveMistakeCount++
+					pushToolResult(formatResponse.toolError(error.message, toolProtocol))
+					break
+				}
+			}
+
 			await useMcpToolTool.handle(cline, syntheticToolUse, {
 				askApproval,
 				handleError,
@@ -456,6 +487,22 @@ export async function presentAssistantMessage(cline: Task) {
 						return `[${block.name} to '${block.params.mode_slug}'${block.params.reason ? ` because: ${block.params.reason}` : ""}]`
 					case "codebase_search": // Add case for the new tool
 						return `[${block.name} for '${block.params.query}']`
+					case "find_definition":
+					case "find_references":
+						return `[${block.name} for '${block.params.symbol}']`
+					case "navigate_symbol":
+						return `[${block.name} ${block.params.action} for '${block.params.symbol}']`
+					case "rename_symbol":
+						return `[${block.name} '${block.params.symbol}' to '${block.params.new_name}']`
+					case "start_process":
+						return `[${block.name} for '${block.params.command}']`
+					case "read_process_output":
+					case "stop_process":
+						return `[${block.name} for process ${block.params.process_id}]`
+					case "wait_for_output":
+						return `[${block.name} for '${block.params.pattern}' in process ${block.params.process_id}]`
+					case "run_tests":
+						return `[${block.name}${block.params.path ? ` for '${block.params.path}'` : ""}]`
 					case "update_todo_list":
 						return `[${block.name}]`
 					case "new_task": {
@@ -821,6 +868,7 @@ export async function presentAssistantMessage(cline: Task) {
 						block.params,
 						stateExperiments,
 						includedTools,
+						{ cwd: cline.cwd, nativeArgs: block.nativeArgs as Record<string, any> | undefined },
 					)
 				} catch (error) {
 					cline.consecutiveMistakeCount++
@@ -1040,6 +1088,43 @@ export async function presentAssistantMessage(cline: Task) {
 				// 		toolProtocol,
 				// 	})
 				// 	break
+				case "find_definition":
+					await findDefinitionTool.handle(cline, block as ToolUse<"find_definition">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
+				case "find_references":
+					await findReferencesTool.handle(cline, block as ToolUse<"find_references">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
+				case "navigate_symbol":
+					await navigateSymbolTool.handle(cline, block as ToolUse<"navigate_symbol">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
+				case "rename_symbol":
+					await checkpointSaveAndMark(cline)
+					await renameSymbolTool.handle(cline, block as ToolUse<"rename_symbol">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
 				case "search_files":
 					await searchFilesTool.handle(cline, block as ToolUse<"search_files">, {
 						askApproval,
@@ -1068,6 +1153,51 @@ export async function presentAssistantMessage(cline: Task) {
 						toolProtocol,
 					})
 					break
+				case "start_process":
+					await startProcessTool.handle(cline, block as ToolUse<"start_process">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
+				case "read_process_output":
+					await readProcessOutputTool.handle(cline, block as ToolUse<"read_process_output">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
+				case "wait_for_output":
+					await waitForOutputTool.handle(cline, block as ToolUse<"wait_for_output">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
+				case "stop_process":
+					await stopProcessTool.handle(cline, block as ToolUse<"stop_process">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
+				case "run_tests":
+					await runTestsTool.handle(cline, block as ToolUse<"run_tests">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
 				case "use_mcp_tool":
 					await useMcpToolTool.handle(cline, block as ToolUse<"use_mcp_tool">, {
 						askApproval,
@@ -171,6 +171,27 @@ export async function checkAutoApproval({
 			return state.alwaysAllowSubtasks === true ? { decision: "approve" } : { decision: "ask" }
 		}
 
+		// Background processes and test runs follow the same rules as the commands of `execute_command`.
+		if (tool.tool === "startProcess" || tool.tool === "runTests") {
+			if (state.alwaysAllowExecute !== true || !tool.command) {
+				return { decision: "ask" }
+			}
+
+			const decision = getCommandDecision(tool.command, state.allowedCommands || [], state.deniedCommands || [])
+
+			if (decision === "auto_approve") {
+				return { decision: "approve" }
+			} else if (decision === "auto_deny") {
+				return { decision: "deny" }
+			} else {
+				return { decision: "ask" }
+			}
+		}
+
+		if (tool.tool === "stopProcess") {
+			return state.alwaysAllowExecute === true ? { decision: "approve" } : { decision: "ask" }
+		}
+
 		const isOutsideWorkspace = !!tool.isOutsideWorkspace
 
 		if (isReadOnlyToolAction(tool)) {
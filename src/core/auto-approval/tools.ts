@@ -12,6 +12,11 @@ export function isReadOnlyToolAction(tool: ClineSayTool): boolean {
 		"listFilesRecursive",
 		"searchFiles",
 		"codebaseSearch",
+		"findDefinition",
+		"findReferences",
+		"navigateSymbol",
+		"readProcessOutput",
+		"waitForProcessOutput",
 		"runSlashCommand",
 	].includes(tool.tool)
 }
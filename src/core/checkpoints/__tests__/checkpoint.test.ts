@@ -1,7 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach, Mock } from "vitest"
 import { Task } from "../../task/Task"
 import { ClineProvider } from "../../webview/ClineProvider"
-import { checkpointSave, checkpointRestore, checkpointDiff, getCheckpointService } from "../index"
+import {
+	checkpointSave,
+	checkpointRestore,
+	checkpointDiff,
+	checkpointTimelineDiff,
+	checkpointRestoreFiles,
+	getCheckpointService,
+} from "../index"
 import { MessageManager } from "../../message-manager"
 import * as vscode from "vscode"
 
@@ -108,6 +115,7 @@ describe("Checkpoint functionality", () => {
 			saveCheckpoint: vi.fn().mockResolvedValue({ commit: "test-commit-hash" }),
 			restoreCheckpoint: vi.fn().mockResolvedValue(undefined),
 			getDiff: vi.fn().mockResolvedValue([]),
+			restoreFiles: vi.fn().mockResolvedValue(undefined),
 			on: vi.fn(),
 			initShadowGit: vi.fn().mockResolvedValue(undefined),
 		}
@@ -442,6 +450,49 @@ describe("Checkpoint functionality", () => {
 		})
 	})
 
+	describe("checkpointTimelineDiff", () => {
+		it("should diff any two checkpoints", async () => {
+			const changes = [
+				{
+					paths: { relative: "test.ts", absolute: "/test/workspace/test.ts" },
+					content: { before: "old", after: "new" },
+				},
+			]
+			mockCheckpointService.getDiff.mockResolvedValue(changes)
+
+			const result = await checkpointTimelineDiff(mockTask, { from: "commit1", to: "commit3" })
+
+			expect(result).toBe(changes)
+			expect(mockCheckpointService.getDiff).toHaveBeenCalledWith({ from: "commit1", to: "commit3" })
+		})
+
+		it("should return undefined when checkpoints are disabled", async () => {
+			mockTask.enableCheckpoints = false
+
+			expect(await checkpointTimelineDiff(mockTask, { from: "commit1" })).toBeUndefined()
+			expect(mockCheckpointService.getDiff).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("checkpointRestoreFiles", () => {
+		it("should restore selected files without rewinding the task", async () => {
+			const files = [{ path: "test.ts", hunks: [0] }]
+
+			expect(await checkpointRestoreFiles(mockTask, { commitHash: "commit1", files })).toBe(true)
+
+			expect(mockCheckpointService.restoreFiles).toHaveBeenCalledWith("commit1", files)
+			expect(mockCheckpointService.restoreCheckpoint).not.toHaveBeenCalled()
+		})
+
+		it("should propagate restore errors", async () => {
+			mockCheckpointService.restoreFiles.mockRejectedValue(new Error("Restore failed"))
+
+			await expect(
+				checkpointRestoreFiles(mockTask, { commitHash: "commit1", files: [{ path: "test.ts" }] }),
+			).rejects.toThrow("Restore failed")
+		})
+	})
+
 	describe("getCheckpointService", () => {
 		it("should return existing service if available", async () => {
 			const service = await getCheckpointService(mockTask)
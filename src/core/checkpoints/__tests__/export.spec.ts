@@ -0,0 +1,117 @@
+// npx vitest run core/checkpoints/__tests__/export.spec.ts
+
+import type { ClineMessage, HistoryItem } from "@roo-code/types"
+
+import { readTaskMessages } from "../../task-persistence"
+import { RepoPerTaskCheckpointService } from "../../../services/checkpoints"
+import { fileExistsAtPath } from "../../../utils/fs"
+import {
+	exportTaskCheckpoints,
+	getCheckpointCommitMessage,
+	getTaskCheckpoints,
+	getWorkspaceCheckpointTasks,
+} from "../export"
+
+vi.mock("vscode", () => ({ window: {}, commands: {}, Uri: {} }))
+
+vi.mock("../../task-persistence", () => ({ readTaskMessages: vi.fn() }))
+
+vi.mock("../../../services/checkpoints", () => ({
+	RepoPerTaskCheckpointService: {
+		create: vi.fn(({ taskId }) => ({ checkpointsDir: `/storage/tasks/${taskId}/checkpoints` })),
+		exportToBranch: vi.fn(),
+	},
+}))
+
+vi.mock("../../../integrations/editor/DiffViewProvider", () => ({ DIFF_VIEW_URI_SCHEME: "cline-diff" }))
+
+vi.mock("../../../utils/fs", () => ({ fileExistsAtPath: vi.fn() }))
+
+vi.mock("../../../i18n", () => ({
+	t: (key: string, options?: Record<string, unknown>) => (options?.index ? `Checkpoint ${options.index}` : key),
+}))
+
+const historyItem = (id: string, ts: number, workspace = "/workspace"): HistoryItem => ({
+	id,
+	number: 1,
+	ts,
+	task: "Add a login page\n\nUse the existing form components.",
+	tokensIn: 0,
+	tokensOut: 0,
+	totalCost: 0,
+	workspace,
+})
+
+const messages: ClineMessage[] = [
+	{ ts: 1, type: "say", say: "text", text: "Add a login page" },
+	{ ts: 2, type: "say", say: "checkpoint_saved", text: "aaa", checkpoint: { from: "base", to: "aaa" } },
+	{ ts: 3, type: "say", say: "checkpoint_saved", text: "bbb", checkpoint: { from: "aaa", to: "bbb", label: "Form" } },
+]
+
+describe("checkpoint export", () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("reads the checkpoint chain of a task", () => {
+		expect(getTaskCheckpoints(messages)).toEqual([
+			{ commitHash: "aaa", from: "base", ts: 2, label: undefined },
+			{ commitHash: "bbb", from: "aaa", ts: 3, label: "Form" },
+		])
+	})
+
+	it("lists the tasks of the workspace that have checkpoints, newest first", async () => {
+		vi.mocked(fileExistsAtPath).mockImplementation(async (path) => !path.includes("no-repo"))
+		vi.mocked(readTaskMessages).mockImplementation(async ({ taskId }) => (taskId === "empty" ? [] : messages))
+
+		const tasks = await getWorkspaceCheckpointTasks({
+			taskHistory: [
+				historyItem("older", 1),
+				historyItem("other-workspace", 2, "/other"),
+				historyItem("no-repo", 3),
+				historyItem("empty", 4),
+				historyItem("newer", 5),
+			],
+			workspaceDir: "/workspace",
+			globalStorageDir: "/storage",
+		})
+
+		expect(tasks.map(({ historyItem }) => historyItem.id)).toEqual(["newer", "older"])
+		expect(tasks[0].checkpoints).toHaveLength(2)
+	})
+
+	it("uses the checkpoint label or the task prompt as the commit subject", () => {
+		const item = historyItem("task-1", 1)
+		const [unlabeled, labeled] = getTaskCheckpoints(messages)
+
+		expect(getCheckpointCommitMessage(item, unlabeled, 0)).toBe(
+			"Checkpoint 1: Add a login page\n\n" +
+				"Add a login page\n\nUse the existing form components.\n\n" +
+				"Task-Id: task-1\nCheckpoint: aaa",
+		)
+		expect(getCheckpointCommitMessage(item, labeled, 1).split("\n")[0]).toBe("Form")
+	})
+
+	it("exports the chain starting at the base of the first checkpoint", async () => {
+		const item = historyItem("task-1", 1)
+
+		await exportTaskCheckpoints({
+			historyItem: item,
+			checkpoints: getTaskCheckpoints(messages),
+			workspaceDir: "/workspace",
+			globalStorageDir: "/storage",
+			branchName: "costrict/task-1",
+		})
+
+		expect(RepoPerTaskCheckpointService.exportToBranch).toHaveBeenCalledWith({
+			checkpointsDir: "/storage/tasks/task-1/checkpoints",
+			workspaceDir: "/workspace",
+			branchName: "costrict/task-1",
+			baseHash: "base",
+			checkpoints: [
+				{ commitHash: "aaa", message: expect.stringContaining("Checkpoint 1") },
+				{ commitHash: "bbb", message: expect.stringMatching(/^Form\n/) },
+			],
+		})
+	})
+})
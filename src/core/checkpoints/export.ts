@@ -0,0 +1,281 @@
+import * as path from "path"
+import * as vscode from "vscode"
+
+import type { ClineMessage, HistoryItem } from "@roo-code/types"
+
+import type { ClineProvider } from "../webview/ClineProvider"
+import { readTaskMessages } from "../task-persistence"
+import { RepoPerTaskCheckpointService } from "../../services/checkpoints"
+import { fileExistsAtPath } from "../../utils/fs"
+import { arePathsEqual } from "../../utils/path"
+import { t } from "../../i18n"
+
+export type TaskCheckpoint = {
+	commitHash: string
+	from: string
+	ts: number
+	label?: string
+}
+
+export type WorkspaceCheckpointTask = {
+	historyItem: HistoryItem
+	checkpoints: TaskCheckpoint[]
+}
+
+/**
+ * Returns the checkpoint chain of a task in the order the checkpoints were saved.
+ */
+export function getTaskCheckpoints(messages: ClineMessage[]): TaskCheckpoint[] {
+	return messages.flatMap(({ say, text, ts, checkpoint }) =>
+		say === "checkpoint_saved" && text && typeof checkpoint?.from === "string"
+			? [
+					{
+						commitHash: text,
+						from: checkpoint.from,
+						ts,
+						label: typeof checkpoint.label === "string" ? checkpoint.label : undefined,
+					},
+				]
+			: [],
+	)
+}
+
+/**
+ * Lists the tasks of a workspace that still have checkpoints, newest first.
+ */
+export async function getWorkspaceCheckpointTasks({
+	taskHistory,
+	workspaceDir,
+	globalStorageDir,
+}: {
+	taskHistory: HistoryItem[]
+	workspaceDir: string
+	globalStorageDir: string
+}): Promise<WorkspaceCheckpointTask[]> {
+	const tasks: WorkspaceCheckpointTask[] = []
+
+	for (const historyItem of taskHistory) {
+		if (!arePathsEqual(historyItem.workspace, workspaceDir)) {
+			continue
+		}
+
+		const { checkpointsDir } = createService(historyItem.id, workspaceDir, globalStorageDir)
+
+		if (!(await fileExistsAtPath(path.join(checkpointsDir, ".git")))) {
+			continue
+		}
+
+		const messages = await readTaskMessages({ taskId: historyItem.id, globalStoragePath: globalStorageDir })
+		const checkpoints = getTaskCheckpoints(messages)
+
+		if (checkpoints.length > 0) {
+			tasks.push({ historyItem, checkpoints })
+		}
+	}
+
+	return tasks.sort((a, b) => b.historyItem.ts - a.historyItem.ts)
+}
+
+/**
+ * Builds the commit message of an exported checkpoint from its label and the task prompt.
+ */
+export function getCheckpointCommitMessage(historyItem: HistoryItem, checkpoint: TaskCheckpoint, index: number) {
+	const prompt = historyItem.task.trim()
+	const title =
+		checkpoint.label || `${t("common:checkpoints.untitled", { index: index + 1 })}: ${prompt.split("\n")[0]}`
+	const subject = title.length > 72 ? `${title.slice(0, 71)}…` : title
+
+	return [subject, prompt, `Task-Id: ${historyItem.id}\nCheckpoint: ${checkpoint.commitHash}`].join("\n\n")
+}
+
+/**
+ * Exports the checkpoints of a task as commits on a new branch of the workspace repository.
+ *
+ * @returns The hashes of the exported commits
+ */
+export async function exportTaskCheckpoints({
+	historyItem,
+	checkpoints,
+	workspaceDir,
+	globalStorageDir,
+	branchName,
+}: WorkspaceCheckpointTask & { workspaceDir: string; globalStorageDir: string; branchName: string }) {
+	const { checkpointsDir } = createService(historyItem.id, workspaceDir, globalStorageDir)
+
+	return RepoPerTaskCheckpointService.exportToBranch({
+		checkpointsDir,
+		workspaceDir,
+		branchName,
+		baseHash: checkpoints[0].from,
+		checkpoints: checkpoints.map((checkpoint, index) => ({
+			commitHash: checkpoint.commitHash,
+			message: getCheckpointCommitMessage(historyItem, checkpoint, index),
+		})),
+	})
+}
+
+function createService(taskId: string, workspaceDir: string, globalStorageDir: string) {
+	return RepoPerTaskCheckpointService.create({ taskId, workspaceDir, shadowDir: globalStorageDir, log: () => {} })
+}
+
+function getProviderContext(provider: ClineProvider) {
+	return {
+		taskHistory: provider.getValue("taskHistory") ?? [],
+		workspaceDir: provider.cwd,
+		globalStorageDir: provider.contextProxy.globalStorageUri.fsPath,
+	}
+}
+
+/**
+ * Asks for a branch name and exports the checkpoints of a task, or of the current task
+ * when no task is given, to it.
+ */
+export async function handleExportTaskCheckpoints(provider: ClineProvider, taskId?: string, upTo?: string) {
+	try {
+		const { taskHistory, workspaceDir, globalStorageDir } = getProviderContext(provider)
+		const tasks = await getWorkspaceCheckpointTasks({ taskHistory, workspaceDir, globalStorageDir })
+		const id = taskId ?? provider.getCurrentTask()?.taskId
+		const canPick = !taskId && tasks.length > 0
+		const task =
+			tasks.find(({ historyItem }) => historyItem.id === id) ?? (canPick ? await pickTask(tasks) : undefined)
+
+		if (!task) {
+			if (!canPick) {
+				vscode.window.showInformationMessage(t("common:checkpoints.none"))
+			}
+			return
+		}
+
+		const end = upTo ? task.checkpoints.findIndex(({ commitHash }) => commitHash === upTo) : -1
+		const checkpoints = end === -1 ? task.checkpoints : task.checkpoints.slice(0, end + 1)
+
+		const branchName = await vscode.window.showInputBox({
+			prompt: t("common:checkpoints.branch_prompt"),
+			value: `costrict/task-${task.historyItem.id.slice(0, 8)}`,
+		})
+
+		if (!branchName) {
+			return
+		}
+
+		const commits = await exportTaskCheckpoints({
+			historyItem: task.historyItem,
+			checkpoints,
+			workspaceDir,
+			globalStorageDir,
+			branchName,
+		})
+
+		vscode.window.showInformationMessage(
+			t("common:checkpoints.exported", { count: commits.length, branch: branchName }),
+		)
+	} catch (error) {
+		provider.log(`[handleExportTaskCheckpoints] ${error instanceof Error ? error.message : String(error)}`)
+		vscode.window.showErrorMessage(
+			t("common:checkpoints.export_failed", { error: error instanceof Error ? error.message : String(error) }),
+		)
+	}
+}
+
+/**
+ * Lets the user browse the checkpoints of every task in the workspace, view the changes of a
+ * checkpoint, export a task to a branch or reopen the task.
+ */
+export async function handleBrowseCheckpoints(provider: ClineProvider) {
+	try {
+		const { taskHistory, workspaceDir, globalStorageDir } = getProviderContext(provider)
+		const tasks = await getWorkspaceCheckpointTasks({ taskHistory, workspaceDir, globalStorageDir })
+
+		if (tasks.length === 0) {
+			vscode.window.showInformationMessage(t("common:checkpoints.none"))
+			return
+		}
+
+		const task = await pickTask(tasks)
+
+		if (!task) {
+			return
+		}
+
+		const { historyItem, checkpoints } = task
+		const exportItem: vscode.QuickPickItem & { index?: number } = {
+			label: `$(git-branch) ${t("common:checkpoints.export_all")}`,
+		}
+
+		const selected = await vscode.window.showQuickPick(
+			[
+				exportItem,
+				...checkpoints.map((checkpoint, index) => ({
+					label: `$(git-commit) ${checkpoint.label || t("common:checkpoints.untitled", { index: index + 1 })}`,
+					description: new Date(checkpoint.ts).toLocaleString(),
+					detail: checkpoint.commitHash.slice(0, 8),
+					index,
+				})),
+			],
+			{ placeHolder: t("common:checkpoints.select_checkpoint") },
+		)
+
+		if (!selected) {
+			return
+		} else if (selected.index === undefined) {
+			return handleExportTaskCheckpoints(provider, historyItem.id)
+		}
+
+		const checkpoint = checkpoints[selected.index]
+		const actions = {
+			changes: t("common:checkpoints.view_changes"),
+			export: t("common:checkpoints.export_up_to"),
+			open: t("common:checkpoints.open_task"),
+		}
+
+		const action = await vscode.window.showQuickPick(Object.values(actions), { placeHolder: selected.label })
+
+		if (action === actions.changes) {
+			const service = createService(historyItem.id, workspaceDir, globalStorageDir)
+			await service.initShadowGit()
+			const changes = await service.getDiff({ from: checkpoint.from, to: checkpoint.commitHash })
+
+			if (changes.length === 0) {
+				vscode.window.showInformationMessage(t("common:errors.checkpoint_no_changes"))
+				return
+			}
+
+			const { DIFF_VIEW_URI_SCHEME } = await import("../../integrations/editor/DiffViewProvider")
+
+			await vscode.commands.executeCommand(
+				"vscode.changes",
+				selected.label.replace("$(git-commit) ", ""),
+				changes.map((change) => [
+					vscode.Uri.file(change.paths.absolute),
+					vscode.Uri.parse(`${DIFF_VIEW_URI_SCHEME}:${change.paths.relative}`).with({
+						query: Buffer.from(change.content.before ?? "").toString("base64"),
+					}),
+					vscode.Uri.parse(`${DIFF_VIEW_URI_SCHEME}:${change.paths.relative}`).with({
+						query: Buffer.from(change.content.after ?? "").toString("base64"),
+					}),
+				]),
+			)
+		} else if (action === actions.export) {
+			await handleExportTaskCheckpoints(provider, historyItem.id, checkpoint.commitHash)
+		} else if (action === actions.open) {
+			await provider.showTaskWithId(historyItem.id)
+		}
+	} catch (error) {
+		provider.log(`[handleBrowseCheckpoints] ${error instanceof Error ? error.message : String(error)}`)
+		vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error))
+	}
+}
+
+async function pickTask(tasks: WorkspaceCheckpointTask[]) {
+	const selected = await vscode.window.showQuickPick(
+		tasks.map((task) => ({
+			label: task.historyItem.task.split("\n")[0],
+			description: t("common:checkpoints.count", { count: task.checkpoints.length }),
+			detail: new Date(task.historyItem.ts).toLocaleString(),
+			task,
+		})),
+		{ placeHolder: t("common:checkpoints.select_task"), matchOnDetail: true },
+	)
+
+	return selected?.task
+}
@@ -14,7 +14,12 @@ import { getApiMetrics } from "../../shared/getApiMetrics"
 
 import { DIFF_VIEW_URI_SCHEME } from "../../integrations/editor/DiffViewProvider"
 
-import { CheckpointServiceOptions, RepoPerTaskCheckpointService } from "../../services/checkpoints"
+import {
+	CheckpointDiff,
+	CheckpointFileRestore,
+	CheckpointServiceOptions,
+	RepoPerTaskCheckpointService,
+} from "../../services/checkpoints"
 import { CospecMetadataManager } from "../costrict/workflow/CospecMetadataManager"
 import * as path from "path"
 import * as fs from "fs/promises"
@@ -423,6 +428,53 @@ export async function checkpointDiff(task: Task, { ts, previousCommitHash, commi
 	}
 }
 
+export type CheckpointTimelineDiffOptions = {
+	from: string
+	to?: string // Defaults to the current workspace
+}
+
+/**
+ * Computes the changes between two checkpoints, or a checkpoint and the current workspace,
+ * for the checkpoint timeline. Returns `undefined` when checkpoints are not available.
+ */
+export async function checkpointTimelineDiff(
+	task: Task,
+	{ from, to }: CheckpointTimelineDiffOptions,
+): Promise<CheckpointDiff[] | undefined> {
+	const service = await getCheckpointService(task)
+
+	if (!service) {
+		return undefined
+	}
+
+	TelemetryService.instance.captureCheckpointDiffed(task.taskId)
+	return service.getDiff({ from, to })
+}
+
+export type CheckpointRestoreFilesOptions = {
+	commitHash: string
+	files: CheckpointFileRestore[]
+}
+
+/**
+ * Restores selected files or hunks from a checkpoint. Unlike `checkpointRestore` the task
+ * keeps its messages and later checkpoints. Returns `false` when checkpoints are not available.
+ */
+export async function checkpointRestoreFiles(
+	task: Task,
+	{ commitHash, files }: CheckpointRestoreFilesOptions,
+): Promise<boolean> {
+	const service = await getCheckpointService(task)
+
+	if (!service) {
+		return false
+	}
+
+	await service.restoreFiles(commitHash, files)
+	TelemetryService.instance.captureCheckpointRestored(task.taskId)
+	return true
+}
+
 export async function updateCospecMetadata(task: Task, editFilePath?: string) {
 	try {
 		const workspaceDir = task.cwd || getWorkspacePath()
@@ -13,6 +13,7 @@ import { getWorkspacePath } from "../../utils/path"
 import { getGlobalRooDirectory } from "../../services/roo-config"
 import { logger } from "../../utils/logging"
 import { GlobalFileNames } from "../../shared/globalFileNames"
+import { getModeInheritanceError } from "../../shared/modes"
 import { ensureSettingsDirectoryExists } from "../../utils/globalContext"
 import { t } from "../../i18n"
 
@@ -393,6 +394,14 @@ export class CustomModesManager {
 				.map((mode) => ({ ...mode, source: "global" as const })),
 		]
 
+		// Modes whose inheritance cannot be resolved keep their own configuration, see resolveModeConfig.
+		for (const mode of mergedModes) {
+			const inheritanceError = getModeInheritanceError(mode, mergedModes)
+			if (inheritanceError) {
+				logger.error("Invalid mode inheritance", { slug: mode.slug, error: inheritanceError })
+			}
+		}
+
 		await this.context.globalState.update("customModes", mergedModes)
 
 		this.cachedModes = mergedModes
@@ -415,6 +424,15 @@ export class CustomModesManager {
 				throw new Error(errorMessage)
 			}
 
+			if (config.extends) {
+				const otherModes = (await this.getCustomModes()).filter((mode) => mode.slug !== slug)
+				const inheritanceError = getModeInheritanceError(config, [...otherModes, config])
+				if (inheritanceError) {
+					logger.error("Mode inheritance validation failed", { slug, error: inheritanceError })
+					throw new Error(inheritanceError)
+				}
+			}
+
 			const isProjectMode = config.source === "project"
 			let targetPath: string
 
@@ -445,6 +463,13 @@ export class CustomModesManager {
 					source: isProjectMode ? ("project" as const) : ("global" as const),
 				}
 
+				// Leave out what the mode inherits, so that it follows the changes of the mode it extends.
+				if (config.extends) {
+					const inherited = modeWithSource as Partial<ModeConfig>
+					if (!inherited.roleDefinition) delete inherited.roleDefinition
+					if (!inherited.groups?.length) delete inherited.groups
+				}
+
 				await this.updateModesInFile(targetPath, (modes) => {
 					const updatedModes = modes.filter((m) => m.slug !== slug)
 					updatedModes.push(modeWithSource)
@@ -13,11 +13,13 @@ import {
 	getModelId,
 	type ProviderName,
 	isProviderName,
+	isCompositeProvider,
 } from "@roo-code/types"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { Mode, modes } from "../../shared/modes"
 import { buildApiHandler } from "../../api"
+import { setRouterProfileResolver } from "../../api/providers/router"
 
 // Type-safe model migrations mapping
 type ModelMigrations = {
@@ -79,9 +81,18 @@ export class ProviderSettingsManager {
 
 	private readonly context: ExtensionContext
 
+	// The profiles as last loaded or stored, for the router profiles that resolve their
+	// backend profiles while building an API handler synchronously.
+	private loadedApiConfigs: Record<string, ProviderSettingsWithId> = {}
+
 	constructor(context: ExtensionContext) {
 		this.context = context
 
+		setRouterProfileResolver((profileId) => {
+			const entry = Object.entries(this.loadedApiConfigs).find(([_, apiConfig]) => apiConfig.id === profileId)
+			return entry ? { name: entry[0], settings: entry[1] } : undefined
+		})
+
 		// TODO: We really shouldn't have async methods in the constructor.
 		this.initialize().catch(console.error)
 	}
@@ -405,6 +416,7 @@ export class ProviderSettingsManager {
 
 				// Filter out settings from other providers.
 				const filteredConfig = discriminatedProviderSettingsWithIdSchema.parse(config)
+				this.validateRouterProfiles({ ...filteredConfig, id }, providerProfiles)
 				providerProfiles.apiConfigs[name] = { ...filteredConfig, id }
 				await this.store(providerProfiles)
 				return id
@@ -653,12 +665,11 @@ export class ProviderSettingsManager {
 				{} as Record<string, ProviderSettingsWithId>,
 			)
 
-			return {
-				...providerProfiles,
-				apiConfigs: Object.fromEntries(
-					Object.entries(apiConfigs).filter(([_, apiConfig]) => apiConfig !== null),
-				),
-			}
+			this.loadedApiConfigs = Object.fromEntries(
+				Object.entries(apiConfigs).filter(([_, apiConfig]) => apiConfig !== null),
+			)
+
+			return { ...providerProfiles, apiConfigs: this.loadedApiConfigs }
 		} catch (error) {
 			if (error instanceof ZodError) {
 				TelemetryService.instance.captureSchemaValidationError({
@@ -697,9 +708,31 @@ export class ProviderSettingsManager {
 		return apiConfig
 	}
 
+	/**
+	 * Checks that a router profile only routes to existing profiles that are no routers themselves.
+	 */
+	private validateRouterProfiles(config: ProviderSettingsWithId, providerProfiles: ProviderProfiles) {
+		if (config.apiProvider !== "router") {
+			return
+		}
+
+		for (const { profileId } of config.routerProfiles ?? []) {
+			const member = Object.values(providerProfiles.apiConfigs).find((apiConfig) => apiConfig.id === profileId)
+
+			if (!member) {
+				throw new Error(`Router profile references unknown profile '${profileId}'`)
+			}
+
+			if (profileId === config.id || (member.apiProvider && isCompositeProvider(member.apiProvider))) {
+				throw new Error(`Router profile cannot route to itself or another router profile`)
+			}
+		}
+	}
+
 	private async store(providerProfiles: ProviderProfiles) {
 		try {
 			await this.context.secrets.store(this.secretsKey, JSON.stringify(providerProfiles, null, 2))
+			this.loadedApiConfigs = providerProfiles.apiConfigs
 		} catch (error) {
 			throw new Error(`Failed to write provider profiles to secrets: ${error}`)
 		}
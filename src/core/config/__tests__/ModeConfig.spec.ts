@@ -90,6 +90,12 @@ describe("CustomModeSchema", () => {
 			expect(() => validateCustomMode(emptyRoleMode)).toThrow("Role definition is required")
 		})
 
+		test("accepts modes that extend another mode without a role definition or groups", () => {
+			const result = modeConfigSchema.parse({ slug: "reviewer", name: "Reviewer", extends: "code" })
+
+			expect(result).toMatchObject({ slug: "reviewer", extends: "code", roleDefinition: "", groups: [] })
+		})
+
 		test("rejects invalid group configurations", () => {
 			const invalidGroupMode = {
 				slug: "123e4567-e89b-12d3-a456-426614174000",
@@ -576,6 +576,51 @@ describe("ProviderSettingsManager", () => {
 				"Failed to save config: Error: Failed to write provider profiles to secrets: Error: Storage failed",
 			)
 		})
+
+		describe("router profiles", () => {
+			beforeEach(() => {
+				mockSecrets.get.mockResolvedValue(
+					JSON.stringify({
+						currentApiConfigName: "default",
+						apiConfigs: {
+							default: { id: "default-id", apiProvider: "anthropic" },
+							router: { id: "router-id", apiProvider: "router" },
+						},
+					}),
+				)
+			})
+
+			it("should save a router profile that routes to existing profiles", async () => {
+				await providerSettingsManager.saveConfig("fallback", {
+					apiProvider: "router",
+					routerStrategy: "priority",
+					routerProfiles: [{ profileId: "default-id", priority: 0 }],
+				})
+
+				const storedConfig = JSON.parse(
+					mockSecrets.store.mock.calls[mockSecrets.store.mock.calls.length - 1][1],
+				)
+				expect(storedConfig.apiConfigs.fallback.routerProfiles).toEqual([
+					{ profileId: "default-id", priority: 0 },
+				])
+			})
+
+			it("should reject router profiles that route to unknown or router profiles", async () => {
+				await expect(
+					providerSettingsManager.saveConfig("fallback", {
+						apiProvider: "router",
+						routerProfiles: [{ profileId: "missing-id" }],
+					}),
+				).rejects.toThrow("Router profile references unknown profile 'missing-id'")
+
+				await expect(
+					providerSettingsManager.saveConfig("fallback", {
+						apiProvider: "router",
+						routerProfiles: [{ profileId: "router-id" }],
+					}),
+				).rejects.toThrow("Router profile cannot route to itself or another router profile")
+			})
+		})
 	})
 
 	describe("DeleteConfig", () => {
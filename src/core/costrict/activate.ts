@@ -10,7 +10,14 @@ import { flushModels } from "./../../api/providers/fetchers/modelCache"
 import type { ClineProvider } from "../webview/ClineProvider"
 import { registerAutoCompletionProvider, CompletionStatusBar } from "./auto-complete"
 
-import { CostrictCodeLensProvider, codeLensCallBackCommand, codeLensCallBackMoreCommand } from "./codelens"
+import {
+	CostrictCodeLensProvider,
+	QuickCommandsManager,
+	codeLensCallBackCommand,
+	codeLensCallBackMoreCommand,
+	codeLensCallBackQuickCommand,
+	runQuickCommandCommand,
+} from "./codelens"
 
 import {
 	configCompletion,
@@ -180,6 +187,16 @@ export async function activate(
 				codeLensCallBackMoreCommand.command,
 				codeLensCallBackMoreCommand.callback(context),
 			),
+			// Quick commands of the project file
+			vscode.commands.registerTextEditorCommand(
+				codeLensCallBackQuickCommand.command,
+				codeLensCallBackQuickCommand.callback(context),
+			),
+			vscode.commands.registerTextEditorCommand(
+				runQuickCommandCommand.command,
+				runQuickCommandCommand.callback(context),
+			),
+			QuickCommandsManager.getInstance(),
 		)
 	}
 
@@ -2,16 +2,19 @@ import * as vscode from "vscode"
 import { ClineProvider } from "../../webview/ClineProvider"
 import { InlineCompletionProvider } from "./inlineCompletionProvider"
 import { CompletionProvider } from "./core/completionProvider"
+import { NextEditProvider } from "./nextEdit/nextEditProvider"
 export class CompletionServiceManager {
 	private static instance: CompletionServiceManager | null = null
 	private readonly cline: ClineProvider
 	private readonly context: vscode.ExtensionContext
 
 	public readonly inlineCompletionProvider: InlineCompletionProvider
+	public readonly nextEditProvider: NextEditProvider
 	private constructor(context: vscode.ExtensionContext, provider: ClineProvider) {
 		this.cline = provider
 		this.context = context
 		this.inlineCompletionProvider = new InlineCompletionProvider(context, provider)
+		this.nextEditProvider = new NextEditProvider(this.inlineCompletionProvider.recentlyEditedTracker)
 		this.load()
 	}
 	public static initialize(context: vscode.ExtensionContext, provider: ClineProvider) {
@@ -39,5 +42,11 @@ export class CompletionServiceManager {
 				},
 			),
 		)
+		this.context.subscriptions.push(
+			// Next edit suggestions
+			this.nextEditProvider,
+			vscode.commands.registerCommand("zgsm-completion.acceptNextEdit", () => this.nextEditProvider.accept()),
+			vscode.commands.registerCommand("zgsm-completion.dismissNextEdit", () => this.nextEditProvider.dismiss()),
+		)
 	}
 }
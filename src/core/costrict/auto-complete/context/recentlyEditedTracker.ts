@@ -7,6 +7,10 @@ import * as vscode from "vscode"
 import { getSymbolsForSnippet } from "../utils"
 import { RecentlyEditedRange } from "../types"
 import { IDE } from "../types/ide"
+import { RecentRename, getRenamedIdentifier } from "../nextEdit/predictNextEdit"
+import { configCompletion } from "../../base/common/constant"
+
+const NEXT_EDIT_SUGGESTIONS_SETTING = `${configCompletion}.nextEditSuggestions`
 
 type VsCodeRecentlyEditedRange = {
 	uri: vscode.Uri
@@ -25,11 +29,23 @@ export class RecentlyEditedTracker {
 
 	private recentlyEditedDocuments: VsCodeRecentlyEditedDocument[] = []
 	private static maxRecentlyEditedDocuments = 10
+	private recentRenames: RecentRename[] = []
+	private static maxRecentRenames = 3
+	// The text of the open documents before their latest edit, to tell what the edits replaced.
+	// Only kept while next edit suggestions are enabled, as they are the only use of the renames.
+	private documentContents = new Map<string, string>()
+	private tracksRenames = false
 	private disposable: vscode.Disposable | undefined
 	private cleanupInterval: NodeJS.Timeout | undefined
 
 	constructor(private ide: IDE) {
-		this.disposable = vscode.workspace.onDidChangeTextDocument((event) => {
+		this.updateRenameTracking()
+
+		const changeListener = vscode.workspace.onDidChangeTextDocument((event) => {
+			if (this.tracksRenames) {
+				this.trackRename(event)
+			}
+
 			event.contentChanges.forEach((change) => {
 				const editedRange = {
 					uri: event.document.uri,
@@ -45,6 +61,23 @@ export class RecentlyEditedTracker {
 			this.insertDocument(event.document.uri)
 		})
 
+		this.disposable = vscode.Disposable.from(
+			changeListener,
+			vscode.workspace.onDidOpenTextDocument((document) => {
+				if (this.tracksRenames) {
+					this.rememberContents(document)
+				}
+			}),
+			vscode.workspace.onDidCloseTextDocument((document) =>
+				this.documentContents.delete(document.uri.toString()),
+			),
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				if (event.affectsConfiguration(NEXT_EDIT_SUGGESTIONS_SETTING)) {
+					this.updateRenameTracking()
+				}
+			}),
+		)
+
 		this.cleanupInterval = setInterval(() => {
 			this.removeOldEntries()
 		}, 1000 * 15)
@@ -108,10 +141,70 @@ export class RecentlyEditedTracker {
 		}
 	}
 
+	private updateRenameTracking(): void {
+		this.tracksRenames = vscode.workspace.getConfiguration().get<boolean>(NEXT_EDIT_SUGGESTIONS_SETTING, false)
+		this.documentContents.clear()
+		this.recentRenames = []
+
+		if (this.tracksRenames) {
+			vscode.workspace.textDocuments.forEach((document) => this.rememberContents(document))
+		}
+	}
+
+	private rememberContents(document: vscode.TextDocument): void {
+		if (document.uri.scheme === "file") {
+			this.documentContents.set(document.uri.toString(), document.getText())
+		}
+	}
+
+	private trackRename(event: vscode.TextDocumentChangeEvent): void {
+		const { document } = event
+		if (document.uri.scheme !== "file") {
+			return
+		}
+
+		const filepath = document.uri.toString()
+		const before = this.documentContents.get(filepath)
+		const after = document.getText()
+		this.documentContents.set(filepath, after)
+
+		// Edits with several cursors are not renames of a single identifier.
+		if (before === undefined || event.contentChanges.length !== 1) {
+			return
+		}
+
+		const change = event.contentChanges[0]
+		const renamed = getRenamedIdentifier(before, after, change.rangeOffset, change.rangeLength, change.text)
+		if (!renamed) {
+			return
+		}
+
+		// Typing in the identifier that the previous edits produced continues its rename.
+		const latest = this.recentRenames[0]
+		if (
+			latest &&
+			latest.filepath === filepath &&
+			latest.offset === renamed.offset &&
+			latest.newName === renamed.oldName
+		) {
+			latest.newName = renamed.newName
+			latest.timestamp = Date.now()
+			return
+		}
+
+		this.recentRenames = [{ filepath, ...renamed, timestamp: Date.now() }, ...this.recentRenames].slice(
+			0,
+			RecentlyEditedTracker.maxRecentRenames,
+		)
+	}
+
 	private removeOldEntries() {
 		this.recentlyEditedRanges = this.recentlyEditedRanges.filter(
 			(entry) => entry.timestamp > Date.now() - RecentlyEditedTracker.staleTime,
 		)
+		this.recentRenames = this.recentRenames.filter(
+			(entry) => entry.timestamp > Date.now() - RecentlyEditedTracker.staleTime,
+		)
 	}
 
 	private async _getContentsForRange(entry: Omit<VsCodeRecentlyEditedRange, "lines" | "symbols">): Promise<string> {
@@ -135,6 +228,13 @@ export class RecentlyEditedTracker {
 		})
 	}
 
+	/**
+	 * Gets the identifiers that the user renamed lately, most recent first.
+	 */
+	public getRecentRenames(): RecentRename[] {
+		return [...this.recentRenames]
+	}
+
 	public dispose(): void {
 		this.disposable?.dispose()
 		if (this.cleanupInterval) {
@@ -142,5 +242,7 @@ export class RecentlyEditedTracker {
 		}
 		this.recentlyEditedRanges = []
 		this.recentlyEditedDocuments = []
+		this.recentRenames = []
+		this.documentContents.clear()
 	}
 }
@@ -8,6 +8,7 @@ import { AutocompleteDebouncer } from "../utils/autocompleteDebouncer"
 import { AutocompleteLoggingService } from "../utils/autocompleteLoggingService"
 import { getWellKnownConfig } from "../../codebase-index/utils"
 import { TextAcceptanceAction } from "../utils/autocompleteLoggingService"
+import { FimClient, buildFimPrefix, getAutocompleteFimClient } from "../fim"
 
 export interface AutoCompleteInput {
 	completionId: string
@@ -226,6 +227,33 @@ export class CompletionProvider {
 	}
 
 	private async getFromLLM(input: AutoCompleteInput, token: AbortSignal) {
+		const fimClient = await getAutocompleteFimClient(this.provider)
+		return fimClient ? this.getFromFimClient(fimClient, input, token) : this.getFromCompletionService(input, token)
+	}
+
+	private async getFromFimClient(fimClient: FimClient, input: AutoCompleteInput, token: AbortSignal) {
+		const { prefix, suffix } = input.promptOptions
+		console.log(`[Completion Request ${input.completionId}]: ${fimClient.modelId}`)
+		const text = await fimClient.complete(
+			{
+				prefix: buildFimPrefix(input.promptOptions, input.languageId),
+				suffix,
+				temperature: settings.temperature,
+			},
+			token,
+		)
+		return {
+			suggestions: {
+				// The leading whitespace is part of the indentation, unlike with the completion service.
+				text: text.replace(/�/g, "").trimEnd(),
+				prefix,
+				suffix,
+				completionId: input.completionId,
+			},
+		}
+	}
+
+	private async getFromCompletionService(input: AutoCompleteInput, token: AbortSignal) {
 		const clientId = getClientId()
 		const headers = {
 			...COSTRICT_DEFAULT_HEADERS,
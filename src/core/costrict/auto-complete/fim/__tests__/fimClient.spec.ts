@@ -0,0 +1,114 @@
+// npx vitest run core/costrict/auto-complete/fim/__tests__/fimClient.spec.ts
+
+import { createFimClient } from "../fimClient"
+import { buildFimPrefix, getFimModelFamily, getFimTemplate } from "../templates"
+import { AutocompleteSnippetType } from "../../snippets/types"
+import { PromptOptions } from "../../types"
+
+const promptOptions: PromptOptions = {
+	prefix: "const sum = ",
+	suffix: "\nexport default sum",
+	project_path: "/project",
+	file_project_path: "src/sum.ts",
+	import_content: "",
+	imported_definitions: [],
+	similar_code_blocks: [],
+	recently_edited_ranges: [
+		{ filepath: "src/add.ts", content: "export const add = (a, b) => a + b", type: AutocompleteSnippetType.Code },
+	],
+	recently_visited_ranges: [],
+	clipboard_content: [{ content: "", copiedAt: "", type: AutocompleteSnippetType.Clipboard }],
+	recently_opened_files: [],
+}
+
+describe("FIM templates", () => {
+	it("finds the family of a model from its ID", () => {
+		expect(getFimModelFamily("qwen2.5-coder:7b")).toBe("qwen-coder")
+		expect(getFimModelFamily("deepseek-ai/deepseek-coder-6.7b-base")).toBe("deepseek-coder")
+		expect(getFimModelFamily("CodeLlama-13b")).toBe("codellama")
+		expect(getFimModelFamily("codestral-latest")).toBe("codestral")
+		expect(getFimModelFamily("starcoder2:3b")).toBe("starcoder")
+		expect(getFimModelFamily("my-model")).toBe("starcoder")
+	})
+
+	it("wraps the prefix and suffix in the tokens of the family", () => {
+		expect(getFimTemplate("qwen2.5-coder").compile("a", "b")).toBe("<|fim_prefix|>a<|fim_suffix|>b<|fim_middle|>")
+		expect(getFimTemplate("codestral-22b").compile("a", "b")).toBe("[SUFFIX]b[PREFIX]a")
+	})
+
+	it("puts the snippets as comments before the prefix", () => {
+		expect(buildFimPrefix(promptOptions, "typescript")).toBe(
+			[
+				"// Path: src/add.ts",
+				"// export const add = (a, b) => a + b",
+				"// Path: src/sum.ts",
+				"const sum = ",
+			].join("\n"),
+		)
+		expect(buildFimPrefix({ ...promptOptions, recently_edited_ranges: [] }, "python")).toBe(
+			"# Path: src/sum.ts\nconst sum = ",
+		)
+	})
+})
+
+describe("createFimClient", () => {
+	const fetchMock = vi.fn()
+
+	beforeEach(() => {
+		vi.stubGlobal("fetch", fetchMock)
+		fetchMock.mockReset()
+	})
+
+	afterEach(() => {
+		vi.unstubAllGlobals()
+	})
+
+	const request = { prefix: "const sum = ", suffix: "\n", temperature: 0.1 }
+
+	it("sends a raw prompt to Ollama", async () => {
+		fetchMock.mockResolvedValue({ ok: true, json: async () => ({ response: "add(1, 2)" }) })
+		const client = createFimClient({ apiProvider: "ollama", ollamaModelId: "qwen2.5-coder:1.5b" })
+
+		await expect(client!.complete(request, new AbortController().signal)).resolves.toBe("add(1, 2)")
+
+		const [url, init] = fetchMock.mock.calls[0]
+		expect(url).toBe("http://localhost:11434/api/generate")
+		expect(JSON.parse(init.body)).toMatchObject({
+			model: "qwen2.5-coder:1.5b",
+			prompt: "<|fim_prefix|>const sum = <|fim_suffix|>\n<|fim_middle|>",
+			raw: true,
+		})
+	})
+
+	it("sends the prefix and suffix to the Codestral FIM API", async () => {
+		fetchMock.mockResolvedValue({
+			ok: true,
+			json: async () => ({ choices: [{ message: { content: "add(1, 2)" } }] }),
+		})
+		const client = createFimClient({ apiProvider: "mistral", mistralApiKey: "key" })
+
+		await expect(client!.complete(request, new AbortController().signal)).resolves.toBe("add(1, 2)")
+
+		const [url, init] = fetchMock.mock.calls[0]
+		expect(url).toBe("https://codestral.mistral.ai/v1/fim/completions")
+		expect(init.headers.Authorization).toBe("Bearer key")
+		expect(JSON.parse(init.body)).toMatchObject({ model: "codestral-latest", prompt: "const sum = ", suffix: "\n" })
+	})
+
+	it("throws when the API fails", async () => {
+		fetchMock.mockResolvedValue({ ok: false, status: 500, statusText: "Internal Server Error" })
+		const client = createFimClient({ apiProvider: "openai", openAiBaseUrl: "http://host/v1/", openAiModelId: "m" })
+
+		await expect(client!.complete(request, new AbortController().signal)).rejects.toThrow(
+			"Failed to fetch completion from http://host/v1/completions: 500 Internal Server Error",
+		)
+	})
+
+	it("has no client for providers without a FIM API", () => {
+		expect(createFimClient({ apiProvider: "anthropic" })).toBeUndefined()
+		expect(createFimClient({ apiProvider: "mistral", mistralApiKey: "key", apiModelId: "mistral-large" })).toBe(
+			undefined,
+		)
+		expect(createFimClient({ apiProvider: "ollama" })).toBeUndefined()
+	})
+})
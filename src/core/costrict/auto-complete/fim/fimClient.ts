@@ -0,0 +1,171 @@
+import { type ProviderSettings, deepSeekDefaultModelId, mistralDefaultModelId } from "@roo-code/types"
+
+import { FimTemplate, getFimTemplate } from "./templates"
+
+// Local models answer slower than the CoStrict completion service.
+const FIM_REQUEST_TIMEOUT_MS = 5_000
+const FIM_MAX_TOKENS = 256
+
+export interface FimRequest {
+	prefix: string
+	suffix: string
+	temperature: number
+}
+
+interface FimEndpoint {
+	url: string
+	headers: Record<string, string>
+	body: (request: FimRequest) => Record<string, unknown>
+	parse: (response: any) => string | undefined
+}
+
+/**
+ * Requests fill-in-the-middle completions from the API of a provider profile.
+ */
+export class FimClient {
+	constructor(
+		readonly modelId: string,
+		private readonly endpoint: FimEndpoint,
+	) {}
+
+	async complete(request: FimRequest, signal: AbortSignal): Promise<string> {
+		const response = await fetch(this.endpoint.url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", ...this.endpoint.headers },
+			signal: AbortSignal.any([signal, AbortSignal.timeout(FIM_REQUEST_TIMEOUT_MS)]),
+			body: JSON.stringify(this.endpoint.body(request)),
+		})
+
+		if (!response.ok) {
+			throw new Error(
+				`Failed to fetch completion from ${this.endpoint.url}: ${response.status} ${response.statusText}`,
+			)
+		}
+
+		return this.endpoint.parse(await response.json()) ?? ""
+	}
+}
+
+function bearer(apiKey?: string): Record<string, string> {
+	return apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+}
+
+function trimSlash(url: string): string {
+	return url.replace(/\/+$/, "")
+}
+
+// The OpenAI `/completions` shape, which LM Studio and most local servers also serve.
+function openAiCompletionsEndpoint(
+	url: string,
+	modelId: string,
+	template: FimTemplate,
+	headers: Record<string, string>,
+): FimEndpoint {
+	return {
+		url,
+		headers,
+		body: ({ prefix, suffix, temperature }) => ({
+			model: modelId,
+			prompt: template.compile(prefix, suffix),
+			max_tokens: FIM_MAX_TOKENS,
+			temperature,
+			stop: template.stop,
+			stream: false,
+		}),
+		parse: (response) => response?.choices?.[0]?.text,
+	}
+}
+
+/**
+ * Creates the client for a provider profile, or undefined when its provider has no fill-in-the-middle API.
+ */
+export function createFimClient(settings: ProviderSettings): FimClient | undefined {
+	switch (settings.apiProvider) {
+		case "ollama": {
+			const modelId = settings.ollamaModelId
+			if (!modelId) {
+				return undefined
+			}
+			const template = getFimTemplate(modelId)
+			return new FimClient(modelId, {
+				url: `${trimSlash(settings.ollamaBaseUrl || "http://localhost:11434")}/api/generate`,
+				headers: bearer(settings.ollamaApiKey),
+				// Raw prompts skip the chat template of the model, which would wrap the special tokens.
+				body: ({ prefix, suffix, temperature }) => ({
+					model: modelId,
+					prompt: template.compile(prefix, suffix),
+					raw: true,
+					stream: false,
+					options: { temperature, num_predict: FIM_MAX_TOKENS, stop: template.stop },
+				}),
+				parse: (response) => response?.response,
+			})
+		}
+		case "lmstudio": {
+			const modelId = settings.lmStudioModelId
+			if (!modelId) {
+				return undefined
+			}
+			const baseUrl = trimSlash(settings.lmStudioBaseUrl || "http://localhost:1234")
+			return new FimClient(
+				modelId,
+				openAiCompletionsEndpoint(`${baseUrl}/v1/completions`, modelId, getFimTemplate(modelId), {}),
+			)
+		}
+		case "openai": {
+			const modelId = settings.openAiModelId
+			if (!modelId || !settings.openAiBaseUrl) {
+				return undefined
+			}
+			return new FimClient(
+				modelId,
+				openAiCompletionsEndpoint(
+					`${trimSlash(settings.openAiBaseUrl)}/completions`,
+					modelId,
+					getFimTemplate(modelId),
+					{ ...bearer(settings.openAiApiKey), ...settings.openAiHeaders },
+				),
+			)
+		}
+		case "mistral": {
+			const modelId = settings.apiModelId || mistralDefaultModelId
+			// Only the Codestral models fill in the middle.
+			if (!settings.mistralApiKey || !modelId.startsWith("codestral")) {
+				return undefined
+			}
+			return new FimClient(modelId, {
+				url: `${trimSlash(settings.mistralCodestralUrl || "https://codestral.mistral.ai")}/v1/fim/completions`,
+				headers: bearer(settings.mistralApiKey),
+				body: ({ prefix, suffix, temperature }) => ({
+					model: modelId,
+					prompt: prefix,
+					suffix,
+					max_tokens: FIM_MAX_TOKENS,
+					temperature,
+				}),
+				parse: (response) => response?.choices?.[0]?.message?.content,
+			})
+		}
+		case "deepseek": {
+			const modelId = settings.apiModelId || deepSeekDefaultModelId
+			if (!settings.deepSeekApiKey) {
+				return undefined
+			}
+			// DeepSeek serves the completions with a suffix under its beta API.
+			return new FimClient(modelId, {
+				url: `${trimSlash(settings.deepSeekBaseUrl || "https://api.deepseek.com")}/beta/completions`,
+				headers: bearer(settings.deepSeekApiKey),
+				body: ({ prefix, suffix, temperature }) => ({
+					model: modelId,
+					prompt: prefix,
+					suffix,
+					max_tokens: FIM_MAX_TOKENS,
+					temperature,
+				}),
+				parse: (response) => response?.choices?.[0]?.text,
+			})
+		}
+		default:
+			return undefined
+	}
+}
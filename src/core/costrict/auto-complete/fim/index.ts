@@ -0,0 +1,22 @@
+import * as vscode from "vscode"
+
+import { ClineProvider } from "../../../webview/ClineProvider"
+import { configCompletion } from "../../base/common/constant"
+import { FimClient, createFimClient } from "./fimClient"
+
+export { FimClient, createFimClient } from "./fimClient"
+export { buildFimPrefix, getFimModelFamily, getFimTemplate } from "./templates"
+
+/**
+ * Gets the client of the provider profile chosen for inline completion, or undefined when none is
+ * chosen or its provider cannot fill in the middle, in which case the CoStrict completion service is used.
+ */
+export async function getAutocompleteFimClient(provider: ClineProvider): Promise<FimClient | undefined> {
+	const name = vscode.workspace.getConfiguration(configCompletion).get<string>("apiConfiguration", "").trim()
+
+	if (!name || !(await provider.providerSettingsManager.hasConfig(name))) {
+		return undefined
+	}
+
+	return createFimClient(await provider.providerSettingsManager.getProfile({ name }))
+}
@@ -0,0 +1,112 @@
+import { AutocompleteSnippetType } from "../snippets/types"
+import { PromptOptions } from "../types"
+
+export type FimModelFamily = "codellama" | "deepseek-coder" | "qwen-coder" | "codegemma" | "codestral" | "starcoder"
+
+export interface FimTemplate {
+	/**
+	 * Builds the raw prompt for the providers that only take a single prompt
+	 */
+	compile(prefix: string, suffix: string): string
+	// Special tokens that end the middle part, or start another file
+	stop: string[]
+}
+
+export const fimTemplates: Record<FimModelFamily, FimTemplate> = {
+	codellama: {
+		compile: (prefix, suffix) => `<PRE> ${prefix} <SUF>${suffix} <MID>`,
+		stop: ["<PRE>", "<SUF>", "<MID>", "<EOT>"],
+	},
+	"deepseek-coder": {
+		compile: (prefix, suffix) => `<｜fim▁begin｜>${prefix}<｜fim▁hole｜>${suffix}<｜fim▁end｜>`,
+		stop: ["<｜fim▁begin｜>", "<｜fim▁hole｜>", "<｜fim▁end｜>", "<｜end▁of▁sentence｜>"],
+	},
+	"qwen-coder": {
+		compile: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+		stop: ["<|fim_prefix|>", "<|fim_suffix|>", "<|fim_middle|>", "<|file_sep|>", "<|endoftext|>", "<|im_end|>"],
+	},
+	codegemma: {
+		compile: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+		stop: ["<|fim_prefix|>", "<|fim_suffix|>", "<|fim_middle|>", "<|file_separator|>", "<end_of_turn>", "<eos>"],
+	},
+	codestral: {
+		compile: (prefix, suffix) => `[SUFFIX]${suffix}[PREFIX]${prefix}`,
+		stop: ["[PREFIX]", "[SUFFIX]"],
+	},
+	// Also used by StableCode, Granite and the models that name no family
+	starcoder: {
+		compile: (prefix, suffix) => `<fim_prefix>${prefix}<fim_suffix>${suffix}<fim_middle>`,
+		stop: ["<fim_prefix>", "<fim_suffix>", "<fim_middle>", "<file_sep>", "<|endoftext|>"],
+	},
+}
+
+const modelFamilyPatterns: [RegExp, FimModelFamily][] = [
+	[/code-?llama/, "codellama"],
+	[/deepseek/, "deepseek-coder"],
+	[/qwen/, "qwen-coder"],
+	[/codegemma/, "codegemma"],
+	[/codestral/, "codestral"],
+]
+
+/**
+ * Gets the family of a model from its ID, such as "qwen2.5-coder:7b" or "deepseek-ai/deepseek-coder-6.7b-base".
+ */
+export function getFimModelFamily(modelId: string): FimModelFamily {
+	const id = modelId.toLowerCase()
+	return modelFamilyPatterns.find(([pattern]) => pattern.test(id))?.[1] ?? "starcoder"
+}
+
+export function getFimTemplate(modelId: string): FimTemplate {
+	return fimTemplates[getFimModelFamily(modelId)]
+}
+
+// Keeps the context from crowding out the code around the cursor.
+const MAX_CONTEXT_CHARS = 4_000
+
+const LINE_COMMENTS: Record<string, string> = {
+	python: "#",
+	shellscript: "#",
+	shell: "#",
+	bash: "#",
+	ruby: "#",
+	perl: "#",
+	r: "#",
+	yaml: "#",
+	lua: "--",
+	sql: "--",
+	haskell: "--",
+	bat: "REM",
+	batch: "REM",
+}
+
+/**
+ * Builds the prefix of a fill-in-the-middle prompt: the path of the file and the snippets of the
+ * prompt options as comments, followed by the code before the cursor.
+ */
+export function buildFimPrefix(promptOptions: PromptOptions, languageId: string): string {
+	const comment = LINE_COMMENTS[languageId] ?? "//"
+	const snippets = [
+		...promptOptions.imported_definitions,
+		...promptOptions.similar_code_blocks,
+		...promptOptions.recently_edited_ranges,
+		...promptOptions.recently_visited_ranges,
+		...promptOptions.clipboard_content,
+		...promptOptions.recently_opened_files,
+	]
+	const context: string[] = []
+	let length = 0
+
+	for (const snippet of snippets) {
+		const header = snippet.type === AutocompleteSnippetType.Code ? `Path: ${snippet.filepath}` : "Clipboard:"
+		const lines = [header, ...snippet.content.split("\n")].map((line) => `${comment} ${line}`).join("\n")
+
+		if (!snippet.content.trim() || length + lines.length > MAX_CONTEXT_CHARS) {
+			continue
+		}
+
+		context.push(lines)
+		length += lines.length
+	}
+
+	return [...context, `${comment} Path: ${promptOptions.file_project_path}`, promptOptions.prefix].join("\n")
+}
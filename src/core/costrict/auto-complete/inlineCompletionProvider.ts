@@ -31,12 +31,14 @@ import { configCompletion } from "../base/common/constant"
 import { TelemetryService } from "@roo-code/telemetry"
 import { CodeCompletionError } from "../telemetry"
 import { TextAcceptanceAction } from "./utils/autocompleteLoggingService"
+import { getAutocompleteFimClient } from "./fim"
+import { CodeIndexManager } from "../../../services/code-index/manager"
 
 export class InlineCompletionProvider implements InlineCompletionItemProvider {
 	private completionProvider: CompletionProvider
 	private disposables: Disposable[] = []
 	private ide: IDE
-	private recentlyEditedTracker: RecentlyEditedTracker
+	public readonly recentlyEditedTracker: RecentlyEditedTracker
 	private recentlyVisitedRanges: RecentlyVisitedRangesService
 	private completionStatusBar: CompletionStatusBar
 
@@ -150,6 +152,8 @@ export class InlineCompletionProvider implements InlineCompletionItemProvider {
 		const recentlyEditedRanges = await this.recentlyEditedTracker.getRecentlyEditedRanges()
 		const lastCompletedCompletion = this.completionProvider.getLastCompletedCompletion()
 		const {
+			importedDefinitionSnippets,
+			similarCodeSnippets,
 			recentlyEditedRangeSnippets,
 			recentlyVisitedRangesSnippets,
 			clipboardSnippets,
@@ -158,7 +162,15 @@ export class InlineCompletionProvider implements InlineCompletionItemProvider {
 			recentlyEditedRanges,
 			recentlyVisitedRanges,
 			filepath,
+			fsPath: document.uri.fsPath,
+			workspacePath: projectPath,
+			content: document.getText(),
+			version: document.version,
+			prefix,
+			suffix,
+			importContent: importContent.join("\n"),
 			ide: this.ide,
+			codeIndexManager: CodeIndexManager.getInstance(this.context, projectPath),
 		})
 		return {
 			completionId,
@@ -169,6 +181,8 @@ export class InlineCompletionProvider implements InlineCompletionItemProvider {
 				project_path: projectPath,
 				file_project_path: relativePath,
 				import_content: importContent.join("\n"),
+				imported_definitions: importedDefinitionSnippets,
+				similar_code_blocks: similarCodeSnippets,
 				recently_edited_ranges: recentlyEditedRangeSnippets,
 				recently_visited_ranges: recentlyVisitedRangesSnippets,
 				clipboard_content: clipboardSnippets,
@@ -223,7 +237,7 @@ export class InlineCompletionProvider implements InlineCompletionItemProvider {
 
 	private async isProviderSupported(): Promise<boolean> {
 		const { apiConfiguration } = await this.provider.getState()
-		return apiConfiguration.apiProvider === "zgsm"
+		return apiConfiguration.apiProvider === "zgsm" || !!(await getAutocompleteFimClient(this.provider))
 	}
 
 	private _setupActiveTextEditorChangeListener(): void {
@@ -0,0 +1,75 @@
+// npx vitest run core/costrict/auto-complete/nextEdit/__tests__/predictNextEdit.spec.ts
+
+import { RecentRename, getRenamedIdentifier, predictNextEdit } from "../predictNextEdit"
+
+describe("getRenamedIdentifier", () => {
+	it("finds the identifier around a typed character", () => {
+		expect(getRenamedIdentifier("sum(count)", "sum(counts)", 9, 0, "s")).toEqual({
+			offset: 4,
+			oldName: "count",
+			newName: "counts",
+		})
+	})
+
+	it("finds the identifier that a selection replaced", () => {
+		expect(getRenamedIdentifier("f(count, 1)", "f(total, 1)", 2, 5, "total")).toEqual({
+			offset: 2,
+			oldName: "count",
+			newName: "total",
+		})
+	})
+
+	it("ignores edits of anything but identifier characters", () => {
+		expect(getRenamedIdentifier("f(a)", "f(a, b)", 3, 0, ", b")).toBeUndefined()
+		expect(getRenamedIdentifier("f(a, b)", "f(a)", 3, 3, "")).toBeUndefined()
+	})
+})
+
+describe("predictNextEdit", () => {
+	const rename: RecentRename = {
+		filepath: "file:///src/math.ts",
+		offset: 20,
+		oldName: "count",
+		newName: "total",
+		timestamp: 0,
+	}
+	const math = {
+		filepath: "file:///src/math.ts",
+		text: "function avg(values, total) {\n\treturn sum(values) / count\n}\nconst counter = count",
+	}
+	const app = { filepath: "file:///src/app.ts", text: "avg([1], count)" }
+
+	it("suggests the next use of the old name after the cursor", () => {
+		const cursor = { filepath: math.filepath, offset: 30 }
+
+		expect(predictNextEdit(rename, [app, math], cursor)).toEqual({
+			filepath: math.filepath,
+			offset: math.text.indexOf("count\n"),
+			oldText: "count",
+			newText: "total",
+		})
+		expect(predictNextEdit(rename, [app, math], { ...cursor, offset: 60 })?.offset).toBe(
+			math.text.lastIndexOf("count"),
+		)
+	})
+
+	it("wraps around the renamed document before going to the other documents", () => {
+		const cursor = { filepath: math.filepath, offset: math.text.length }
+
+		expect(predictNextEdit(rename, [app, math], cursor)?.offset).toBe(math.text.indexOf("count\n"))
+		expect(predictNextEdit(rename, [app, { ...math, text: "" }], cursor)).toEqual({
+			filepath: app.filepath,
+			offset: 9,
+			oldText: "count",
+			newText: "total",
+		})
+	})
+
+	it("suggests nothing for names typed from scratch or back to what they were", () => {
+		const cursor = { filepath: math.filepath, offset: 0 }
+
+		expect(predictNextEdit({ ...rename, oldName: "" }, [math], cursor)).toBeUndefined()
+		expect(predictNextEdit({ ...rename, newName: "count" }, [math], cursor)).toBeUndefined()
+		expect(predictNextEdit({ ...rename, newName: "" }, [math], cursor)).toBeUndefined()
+	})
+})
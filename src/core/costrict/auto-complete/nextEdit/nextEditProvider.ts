@@ -0,0 +1,219 @@
+import * as vscode from "vscode"
+import { v7 as uuidv7 } from "uuid"
+
+import { t } from "../../../../i18n"
+import { configCompletion } from "../../base/common/constant"
+import { LangSetting, LangSwitch } from "../../base/common/lang-util"
+import { RecentlyEditedTracker } from "../context/recentlyEditedTracker"
+import { AutocompleteOutcome } from "../types"
+import { AutocompleteDebouncer } from "../utils/autocompleteDebouncer"
+import { AutocompleteLoggingService } from "../utils/autocompleteLoggingService"
+import { NextEditSuggestion, predictNextEdit } from "./predictNextEdit"
+
+// Waits for the user to stop typing the new name before predicting where it goes next.
+const DEBOUNCE_DELAY_MS = 500
+// Lets the Tab and Escape key bindings apply only while a suggestion is shown.
+const NEXT_EDIT_CONTEXT_KEY = "zgsm.nextEditSuggestionVisible"
+
+interface DisplayedNextEdit extends NextEditSuggestion {
+	completionId: string
+	uri: vscode.Uri
+	range: vscode.Range
+}
+
+/**
+ * Suggests the next edit away from the cursor from the edits that the user just made, such as the
+ * call sites of a renamed parameter. The first Tab jumps to the suggestion, the next one applies it.
+ */
+export class NextEditProvider implements vscode.Disposable {
+	private suggestion: DisplayedNextEdit | undefined
+	private debouncer = new AutocompleteDebouncer()
+	private loggingService = new AutocompleteLoggingService()
+	private abortController: AbortController | undefined
+	private disposables: vscode.Disposable[] = []
+
+	private readonly removedDecoration = vscode.window.createTextEditorDecorationType({
+		backgroundColor: new vscode.ThemeColor("diffEditor.removedTextBackground"),
+		textDecoration: "line-through",
+	})
+	private readonly insertedDecoration = vscode.window.createTextEditorDecorationType({
+		after: {
+			backgroundColor: new vscode.ThemeColor("diffEditor.insertedTextBackground"),
+			margin: "0 0 0 2px",
+		},
+	})
+	private readonly jumpDecoration = vscode.window.createTextEditorDecorationType({
+		after: {
+			color: new vscode.ThemeColor("editorCodeLens.foreground"),
+			fontStyle: "italic",
+			margin: "0 0 0 2em",
+		},
+	})
+
+	constructor(private readonly recentlyEditedTracker: RecentlyEditedTracker) {
+		this.disposables.push(
+			this.removedDecoration,
+			this.insertedDecoration,
+			this.jumpDecoration,
+			vscode.workspace.onDidChangeTextDocument((event) => {
+				if (event.document.uri.scheme === "file" && event.contentChanges.length > 0) {
+					void this.schedule()
+				}
+			}),
+			vscode.window.onDidChangeTextEditorSelection(() => this.render()),
+			vscode.window.onDidChangeActiveTextEditor(() => this.render()),
+		)
+	}
+
+	/**
+	 * Jumps to the suggestion when the cursor is away from it, or applies it when the cursor is on it.
+	 */
+	public async accept(): Promise<void> {
+		const suggestion = this.suggestion
+		if (!suggestion) {
+			return
+		}
+
+		const editor = vscode.window.activeTextEditor
+		if (!editor || !this.isAtSuggestion(editor)) {
+			const selection = new vscode.Range(suggestion.range.start, suggestion.range.start)
+			const target = await vscode.window.showTextDocument(suggestion.uri, { selection })
+			target.revealRange(suggestion.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport)
+			return
+		}
+
+		this.clear()
+		this.loggingService.accept(suggestion.completionId)
+		// The edit is tracked like the user's own edits, so the next call site is suggested after it.
+		await editor.edit((editBuilder) => editBuilder.replace(suggestion.range, suggestion.newText))
+	}
+
+	public dismiss(): void {
+		this.abortController?.abort()
+		this.clear()
+	}
+
+	private isEnabled(document: vscode.TextDocument): boolean {
+		return (
+			vscode.workspace.getConfiguration(configCompletion).get<boolean>("nextEditSuggestions", false) &&
+			LangSetting.completionEnabled &&
+			LangSetting.getCompletionDisable(document.languageId) !== LangSwitch.Disabled
+		)
+	}
+
+	private async schedule(): Promise<void> {
+		this.clear()
+		this.abortController?.abort()
+		const abortController = new AbortController()
+		this.abortController = abortController
+
+		if (await this.debouncer.delayAndShouldDebounce(DEBOUNCE_DELAY_MS, abortController.signal)) {
+			return
+		}
+
+		const editor = vscode.window.activeTextEditor
+		const [rename] = this.recentlyEditedTracker.getRecentRenames()
+		if (!editor || !rename || !this.isEnabled(editor.document)) {
+			return
+		}
+
+		const startTime = Date.now()
+		const documents = vscode.workspace.textDocuments.filter((document) => document.uri.scheme === "file")
+		const suggestion = predictNextEdit(
+			rename,
+			documents.map((document) => ({ filepath: document.uri.toString(), text: document.getText() })),
+			{ filepath: editor.document.uri.toString(), offset: editor.document.offsetAt(editor.selection.active) },
+		)
+		const document = documents.find((document) => document.uri.toString() === suggestion?.filepath)
+		if (!suggestion || !document) {
+			return
+		}
+
+		const completionId = uuidv7()
+		this.suggestion = {
+			...suggestion,
+			completionId,
+			uri: document.uri,
+			range: new vscode.Range(
+				document.positionAt(suggestion.offset),
+				document.positionAt(suggestion.offset + suggestion.oldText.length),
+			),
+		}
+
+		const outcome: AutocompleteOutcome = {
+			time: Date.now() - startTime,
+			completion: suggestion.newText,
+			completionId,
+			cacheHit: false,
+			filepath: vscode.workspace.asRelativePath(document.uri),
+			numLines: 1,
+			language: document.languageId,
+		}
+		this.loggingService.markDisplayed(completionId, outcome)
+		void vscode.commands.executeCommand("setContext", NEXT_EDIT_CONTEXT_KEY, true)
+		this.render()
+	}
+
+	private isAtSuggestion(editor: vscode.TextEditor): boolean {
+		return (
+			!!this.suggestion &&
+			editor.document.uri.toString() === this.suggestion.uri.toString() &&
+			this.suggestion.range.contains(editor.selection.active)
+		)
+	}
+
+	private getJumpLabel(editor: vscode.TextEditor, suggestion: DisplayedNextEdit): string {
+		const line = suggestion.range.start.line + 1
+		return editor.document.uri.toString() === suggestion.uri.toString()
+			? t("common:completion.nextEdit.jumpToLine", { line })
+			: t("common:completion.nextEdit.jumpToFile", {
+					file: vscode.workspace.asRelativePath(suggestion.uri),
+					line,
+				})
+	}
+
+	private render(): void {
+		const suggestion = this.suggestion
+
+		for (const editor of vscode.window.visibleTextEditors) {
+			const isTarget = !!suggestion && editor.document.uri.toString() === suggestion.uri.toString()
+			editor.setDecorations(this.removedDecoration, isTarget ? [suggestion.range] : [])
+			editor.setDecorations(
+				this.insertedDecoration,
+				isTarget
+					? [{ range: suggestion.range, renderOptions: { after: { contentText: suggestion.newText } } }]
+					: [],
+			)
+
+			// The hint to jump follows the cursor until it reaches the suggestion.
+			const showJump = !!suggestion && editor === vscode.window.activeTextEditor && !this.isAtSuggestion(editor)
+			const cursorLine = editor.document.lineAt(editor.selection.active.line).range
+			editor.setDecorations(
+				this.jumpDecoration,
+				showJump
+					? [
+							{
+								range: new vscode.Range(cursorLine.end, cursorLine.end),
+								renderOptions: { after: { contentText: this.getJumpLabel(editor, suggestion) } },
+							},
+						]
+					: [],
+			)
+		}
+	}
+
+	private clear(): void {
+		if (!this.suggestion) {
+			return
+		}
+
+		this.suggestion = undefined
+		void vscode.commands.executeCommand("setContext", NEXT_EDIT_CONTEXT_KEY, false)
+		this.render()
+	}
+
+	public dispose(): void {
+		this.abortController?.abort()
+		vscode.Disposable.from(...this.disposables).dispose()
+	}
+}
@@ -0,0 +1,114 @@
+/**
+ * An identifier that the user renamed by editing it, character by character or all at once.
+ */
+export interface RecentRename {
+	filepath: string
+	// Offset of the start of the identifier in the document after the edit
+	offset: number
+	oldName: string
+	newName: string
+	timestamp: number
+}
+
+export interface NextEditDocument {
+	filepath: string
+	text: string
+}
+
+/**
+ * An edit that the user will likely make next, such as a call site of a renamed parameter.
+ */
+export interface NextEditSuggestion {
+	filepath: string
+	offset: number
+	oldText: string
+	newText: string
+}
+
+const IDENTIFIER = /^[\w$]+$/
+
+function isIdentifierChar(char: string | undefined): boolean {
+	return char !== undefined && /[\w$]/.test(char)
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Finds the identifier that an edit changed, as it was before and after the edit.
+ *
+ * @param before The text of the document before the edit
+ * @param after The text of the document after the edit
+ * @param offset The offset of the edited range in the text before the edit
+ * @param removedLength The length of the edited range
+ * @param insertedText The text that replaced the edited range
+ * @returns undefined when the edit removed or inserted anything but identifier characters
+ */
+export function getRenamedIdentifier(
+	before: string,
+	after: string,
+	offset: number,
+	removedLength: number,
+	insertedText: string,
+): { offset: number; oldName: string; newName: string } | undefined {
+	const removedText = before.slice(offset, offset + removedLength)
+
+	if ((removedText && !IDENTIFIER.test(removedText)) || (insertedText && !IDENTIFIER.test(insertedText))) {
+		return undefined
+	}
+
+	let start = offset
+	while (isIdentifierChar(before[start - 1])) {
+		start--
+	}
+
+	let end = offset + removedLength
+	while (isIdentifierChar(before[end])) {
+		end++
+	}
+
+	return {
+		offset: start,
+		oldName: before.slice(start, end),
+		newName: after.slice(start, end + insertedText.length - removedLength),
+	}
+}
+
+/**
+ * Predicts the next edit of a rename: the nearest place after the cursor where the old name is still
+ * used in the renamed document, then anywhere in it, then in the other documents.
+ *
+ * @param documents The open documents, the renamed one included
+ * @param cursor The filepath and offset of the cursor
+ */
+export function predictNextEdit(
+	rename: RecentRename,
+	documents: NextEditDocument[],
+	cursor: { filepath: string; offset: number },
+): NextEditSuggestion | undefined {
+	const { oldName, newName } = rename
+
+	// Names still being typed from scratch, or typed back to what they were, rename nothing.
+	if (oldName.length < 2 || !IDENTIFIER.test(newName) || oldName === newName) {
+		return undefined
+	}
+
+	const pattern = new RegExp(`(?<![\\w$])${escapeRegExp(oldName)}(?![\\w$])`, "g")
+	const renamedDocument = documents.find((document) => document.filepath === rename.filepath)
+	const otherDocuments = documents.filter((document) => document !== renamedDocument)
+
+	for (const document of renamedDocument ? [renamedDocument, ...otherDocuments] : otherDocuments) {
+		const offsets = Array.from(document.text.matchAll(pattern), (match) => match.index)
+
+		if (offsets.length === 0) {
+			continue
+		}
+
+		const from = document.filepath === cursor.filepath ? cursor.offset : 0
+		const offset = offsets.find((offset) => offset >= from) ?? offsets[0]
+		return { filepath: document.filepath, offset, oldText: oldName, newText: newName }
+	}
+
+	return undefined
+}
@@ -0,0 +1,88 @@
+// npx vitest run core/costrict/auto-complete/snippets/__tests__/rankSnippets.spec.ts
+
+import { SnippetPayload } from "../getAllSnippets"
+import { estimateTokens, getSnippetTokenBudget, rankAndTrimSnippets } from "../rankSnippets"
+import { AutocompleteCodeSnippet, AutocompleteSnippetType } from "../types"
+
+const code = (filepath: string, content: string): AutocompleteCodeSnippet => ({
+	filepath,
+	content,
+	type: AutocompleteSnippetType.Code,
+})
+
+const emptyPayload: SnippetPayload = {
+	importedDefinitionSnippets: [],
+	similarCodeSnippets: [],
+	recentlyEditedRangeSnippets: [],
+	recentlyVisitedRangesSnippets: [],
+	clipboardSnippets: [],
+	recentlyOpenedFileSnippets: [],
+}
+
+describe("rankAndTrimSnippets", () => {
+	const prefix = "import { formatPrice } from './format'\nconst label = formatPrice("
+	const definition = code("file:///src/format.ts", "export function formatPrice(amount: number, currency: string) {}")
+	const openedFile = code("file:///src/other.ts", "const unrelated = true\n".repeat(40))
+
+	it("keeps everything that fits in the budget", () => {
+		const payload = {
+			...emptyPayload,
+			importedDefinitionSnippets: [definition],
+			recentlyOpenedFileSnippets: [openedFile],
+		}
+
+		expect(rankAndTrimSnippets(payload, { prefix, suffix: "", tokenBudget: 1000 })).toEqual(payload)
+	})
+
+	it("gives the budget to the imported definitions before the opened files", () => {
+		const payload = {
+			...emptyPayload,
+			importedDefinitionSnippets: [definition],
+			recentlyOpenedFileSnippets: [openedFile],
+		}
+		const tokenBudget = estimateTokens(definition.content) + 20
+
+		const result = rankAndTrimSnippets(payload, { prefix, suffix: "", tokenBudget })
+
+		expect(result.importedDefinitionSnippets).toEqual([definition])
+		expect(result.recentlyOpenedFileSnippets).toHaveLength(1)
+		expect(estimateTokens(result.recentlyOpenedFileSnippets[0].content)).toBeLessThanOrEqual(20)
+	})
+
+	it("ranks the snippets that share symbols with the cursor higher within a kind", () => {
+		const similar = code("file:///src/cart.ts", "const total = formatPrice(sum, 'EUR')")
+		const unrelated = code("file:///src/log.ts", "logger.info(message)")
+		const payload = { ...emptyPayload, similarCodeSnippets: [unrelated, similar] }
+
+		const result = rankAndTrimSnippets(payload, {
+			prefix,
+			suffix: "",
+			tokenBudget: estimateTokens(similar.content),
+		})
+
+		expect(result.similarCodeSnippets).toEqual([similar])
+	})
+
+	it("leaves out empty snippets and repeated contents", () => {
+		const payload = {
+			...emptyPayload,
+			importedDefinitionSnippets: [definition],
+			similarCodeSnippets: [{ ...definition }, code("file:///src/empty.ts", "  \n")],
+		}
+
+		const result = rankAndTrimSnippets(payload, { prefix, suffix: "", tokenBudget: 1000 })
+
+		expect(result.importedDefinitionSnippets).toEqual([definition])
+		expect(result.similarCodeSnippets).toEqual([])
+	})
+})
+
+describe("getSnippetTokenBudget", () => {
+	it("gives the snippets what the code of the file leaves, within bounds", () => {
+		const promptOptions = (length: number) => ({ prefix: "x".repeat(length), suffix: "", import_content: "" })
+
+		expect(getSnippetTokenBudget(promptOptions(0))).toBe(2048)
+		expect(getSnippetTokenBudget(promptOptions(6500 * 4))).toBe(1692)
+		expect(getSnippetTokenBudget(promptOptions(100_000))).toBe(512)
+	})
+})
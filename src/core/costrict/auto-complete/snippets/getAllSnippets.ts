@@ -8,8 +8,16 @@ import { AutocompleteCodeSnippet, AutocompleteClipboardSnippet } from "./types"
 import { AutocompleteSnippetType } from "./types"
 import { openedFilesLruCache } from "../utils/openedFilesLruCache"
 import { RecentlyEditedRange } from "../types"
+import { CodeIndexManager } from "../../../../services/code-index/manager"
+import { getImportedDefinitionSnippets, getSimilarCodeSnippets, RepositorySnippetsInput } from "./getRepositorySnippets"
+import { getSnippetTokenBudget, rankAndTrimSnippets } from "./rankSnippets"
+
+// Parsing the imported files and querying the code index take longer than the other sources.
+const REPOSITORY_SNIPPETS_TIMEOUT = 300
 
 export interface SnippetPayload {
+	importedDefinitionSnippets: AutocompleteCodeSnippet[]
+	similarCodeSnippets: AutocompleteCodeSnippet[]
 	recentlyEditedRangeSnippets: AutocompleteCodeSnippet[]
 	recentlyVisitedRangesSnippets: AutocompleteCodeSnippet[]
 	clipboardSnippets: AutocompleteClipboardSnippet[]
@@ -93,27 +101,77 @@ const getSnippetsFromRecentlyEditedRanges = async (
 	})
 }
 
+const getRepositorySnippets = async (
+	getSnippets: (input: RepositorySnippetsInput) => Promise<AutocompleteCodeSnippet[]>,
+	input: RepositorySnippetsInput,
+): Promise<AutocompleteCodeSnippet[]> => {
+	try {
+		return await racePromise(getSnippets(input), REPOSITORY_SNIPPETS_TIMEOUT)
+	} catch (e) {
+		console.error("Error getting repository snippets:", e)
+		return []
+	}
+}
+
 export const getAllSnippets = async ({
 	recentlyEditedRanges,
 	recentlyVisitedRanges,
 	filepath,
+	fsPath,
+	workspacePath,
+	content,
+	version,
+	prefix,
+	suffix,
+	importContent,
 	ide,
+	codeIndexManager,
 }: {
 	recentlyEditedRanges: RecentlyEditedRange[]
 	recentlyVisitedRanges: AutocompleteCodeSnippet[]
 	filepath: string
+	fsPath: string
+	workspacePath: string
+	content: string
+	version: number
+	prefix: string
+	suffix: string
+	importContent: string
 	ide: IDE
+	codeIndexManager?: CodeIndexManager
 }): Promise<SnippetPayload> => {
-	const [recentlyEditedRangeSnippets, recentlyOpenedFileSnippets, clipboardSnippets] = await Promise.all([
+	const repositoryInput: RepositorySnippetsInput = {
+		fsPath,
+		workspacePath,
+		content,
+		version,
+		prefix,
+		ide,
+		codeIndexManager,
+	}
+	const [
+		importedDefinitionSnippets,
+		similarCodeSnippets,
+		recentlyEditedRangeSnippets,
+		recentlyOpenedFileSnippets,
+		clipboardSnippets,
+	] = await Promise.all([
+		getRepositorySnippets(getImportedDefinitionSnippets, repositoryInput),
+		getRepositorySnippets(getSimilarCodeSnippets, repositoryInput),
 		racePromise(getSnippetsFromRecentlyEditedRanges(recentlyEditedRanges)),
 		racePromise(getSnippetsFromRecentlyOpenedFiles(filepath, ide)),
 		getClipboardSnippets(ide),
 	])
 
-	return {
-		recentlyEditedRangeSnippets,
-		recentlyVisitedRangesSnippets: recentlyVisitedRanges,
-		recentlyOpenedFileSnippets,
-		clipboardSnippets,
-	}
+	return rankAndTrimSnippets(
+		{
+			importedDefinitionSnippets,
+			similarCodeSnippets,
+			recentlyEditedRangeSnippets,
+			recentlyVisitedRangesSnippets: recentlyVisitedRanges,
+			recentlyOpenedFileSnippets,
+			clipboardSnippets,
+		},
+		{ prefix, suffix, tokenBudget: getSnippetTokenBudget({ prefix, suffix, import_content: importContent }) },
+	)
 }
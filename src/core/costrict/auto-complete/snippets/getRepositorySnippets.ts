@@ -0,0 +1,239 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as vscode from "vscode"
+import { LRUCache } from "lru-cache"
+
+import { CodeIndexManager } from "../../../../services/code-index/manager"
+import { codeParser } from "../../../../services/code-index/processors"
+import { FileSymbols, SymbolDefinition, VectorStoreSearchResult } from "../../../../services/code-index/interfaces"
+import { fileExistsAtPath } from "../../../../utils/fs"
+import { IDE } from "../types/ide"
+import { AutocompleteCodeSnippet, AutocompleteSnippetType } from "./types"
+
+// Long definitions are cut to their first lines, which hold the signature the model needs.
+const MAX_DEFINITION_LINES = 20
+const MAX_SIMILAR_CODE_BLOCKS = 5
+// Complete lines before the cursor line that make up the query of the code index.
+const SIMILAR_CODE_QUERY_LINES = 10
+// Files whose content and symbols are kept between completions.
+const PARSED_FILES_CACHE_SIZE = 50
+// Searches kept between completions, so the index is searched once per cursor line. They expire
+// so that changes to the index show up.
+const SIMILAR_CODE_CACHE_SIZE = 20
+const SIMILAR_CODE_CACHE_TTL_MS = 60_000
+
+const MODULE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py", ".vue"]
+const DIRECTORY_MODULE_NAMES = ["index", "__init__"]
+
+export interface RepositorySnippetsInput {
+	// Absolute path of the file being completed
+	fsPath: string
+	// Root of the code index, which its file paths are relative to
+	workspacePath: string
+	content: string
+	// Version of the document being completed, which changes on every edit
+	version: number
+	prefix: string
+	ide: IDE
+	codeIndexManager?: CodeIndexManager
+}
+
+interface ParsedFile {
+	// Document version or modification time of the content
+	revision: string
+	content: string
+	lines: string[]
+	symbols?: Promise<FileSymbols>
+}
+
+const parsedFiles = new LRUCache<string, ParsedFile>({ max: PARSED_FILES_CACHE_SIZE })
+const similarCodeSearches = new LRUCache<string, Promise<VectorStoreSearchResult[]>>({
+	max: SIMILAR_CODE_CACHE_SIZE,
+	ttl: SIMILAR_CODE_CACHE_TTL_MS,
+})
+
+/**
+ * Gets a file at a revision, reusing the content and the symbols of the last request for the same revision.
+ */
+function getParsedFile(fsPath: string, revision: string, readContent: () => Promise<string>): Promise<ParsedFile> {
+	const cached = parsedFiles.get(fsPath)
+	if (cached?.revision === revision) {
+		return Promise.resolve(cached)
+	}
+
+	return readContent().then((content) => {
+		const file = { revision, content, lines: content.split("\n") }
+		parsedFiles.set(fsPath, file)
+		return file
+	})
+}
+
+async function getModuleFile(fsPath: string, ide: IDE): Promise<ParsedFile> {
+	const { mtimeMs } = await fs.stat(fsPath)
+	return getParsedFile(fsPath, `mtime:${mtimeMs}`, () => ide.readFile(vscode.Uri.file(fsPath).toString()))
+}
+
+function getFileSymbols(fsPath: string, file: ParsedFile): Promise<FileSymbols> {
+	file.symbols ??= codeParser.extractSymbols(fsPath, file.content)
+	return file.symbols
+}
+
+function isRelativeImport(source: string): boolean {
+	return source.startsWith("./") || source.startsWith("../") || /^\.+\w/.test(source)
+}
+
+/**
+ * Resolves a relative import to the file it imports, trying the usual extensions and index files.
+ */
+async function resolveRelativeImport(importerPath: string, source: string): Promise<string | undefined> {
+	// Python writes `from .utils.text import x` for `./utils/text`.
+	const pythonRelative = source.match(/^(\.+)([\w.]+)$/)
+	const modulePath = pythonRelative
+		? path.join(...Array(pythonRelative[1].length - 1).fill(".."), ...pythonRelative[2].split(".").filter(Boolean))
+		: source
+	const basePath = path.resolve(path.dirname(importerPath), modulePath)
+	const candidates = [
+		basePath,
+		...MODULE_EXTENSIONS.map((extension) => basePath + extension),
+		...DIRECTORY_MODULE_NAMES.flatMap((name) =>
+			MODULE_EXTENSIONS.map((extension) => path.join(basePath, name + extension)),
+		),
+	]
+
+	for (const candidate of candidates) {
+		if (path.extname(candidate) && (await fileExistsAtPath(candidate))) {
+			return candidate
+		}
+	}
+
+	return undefined
+}
+
+function toDefinitionSnippet(fsPath: string, lines: string[], definition: SymbolDefinition): AutocompleteCodeSnippet {
+	const endLine = Math.min(definition.endLine, definition.startLine + MAX_DEFINITION_LINES - 1)
+	return {
+		filepath: vscode.Uri.file(fsPath).toString(),
+		content: lines.slice(definition.startLine - 1, endLine).join("\n"),
+		type: AutocompleteSnippetType.Code,
+	}
+}
+
+/**
+ * Gets the definitions of the symbols that a file imports. Relative imports are resolved to their
+ * files and parsed with tree-sitter; the others are looked up in the symbol graph of the code index.
+ * Parses are reused until the document version or the modification time of the imported file changes.
+ */
+export async function getImportedDefinitionSnippets({
+	fsPath,
+	workspacePath,
+	content,
+	version,
+	ide,
+	codeIndexManager,
+}: RepositorySnippetsInput): Promise<AutocompleteCodeSnippet[]> {
+	const file = await getParsedFile(fsPath, `version:${version}`, async () => content)
+	const { imports, references } = await getFileSymbols(fsPath, file)
+	const importedNames = new Set(references.filter(({ kind }) => kind === "import").map(({ name }) => name))
+
+	if (importedNames.size === 0) {
+		return []
+	}
+
+	const snippets: AutocompleteCodeSnippet[] = []
+	const resolvedNames = new Set<string>()
+	const sources = new Set(imports.map(({ source }) => source))
+
+	for (const source of sources) {
+		if (!isRelativeImport(source)) {
+			continue
+		}
+
+		const modulePath = await resolveRelativeImport(fsPath, source)
+		if (!modulePath || modulePath === fsPath) {
+			continue
+		}
+
+		const moduleFile = await getModuleFile(modulePath, ide)
+		const { definitions } = await getFileSymbols(modulePath, moduleFile)
+
+		for (const definition of definitions) {
+			if (importedNames.has(definition.name) && !resolvedNames.has(definition.name)) {
+				resolvedNames.add(definition.name)
+				snippets.push(toDefinitionSnippet(modulePath, moduleFile.lines, definition))
+			}
+		}
+	}
+
+	if (!codeIndexManager?.isFeatureEnabled || !codeIndexManager.isInitialized) {
+		return snippets
+	}
+
+	// Imports of packages and path aliases name the module by its trailing segments, e.g. `@/utils/format`.
+	const moduleNames = new Set(
+		[...sources].filter((source) => !isRelativeImport(source)).map((source) => source.split(/[/.:\\]/).pop()),
+	)
+
+	for (const name of importedNames) {
+		if (resolvedNames.has(name)) {
+			continue
+		}
+
+		const definition = codeIndexManager.findSymbolDefinitions(name).find((definition) => {
+			const moduleName = path.basename(definition.filePath, path.extname(definition.filePath))
+			return (
+				moduleNames.has(moduleName) ||
+				(DIRECTORY_MODULE_NAMES.includes(moduleName) &&
+					moduleNames.has(path.basename(path.dirname(definition.filePath))))
+			)
+		})
+		if (!definition) {
+			continue
+		}
+
+		const definitionPath = path.resolve(workspacePath, definition.filePath)
+		const { lines } = await getModuleFile(definitionPath, ide)
+		snippets.push(toDefinitionSnippet(definitionPath, lines, definition))
+	}
+
+	return snippets
+}
+
+/**
+ * Gets the blocks of the local code index most similar to the code before the cursor, leaving out
+ * the blocks of the file being completed. The query is made of the complete lines before the cursor
+ * line, so typing on a line reuses the search of the first completion on it.
+ */
+export async function getSimilarCodeSnippets({
+	fsPath,
+	workspacePath,
+	prefix,
+	codeIndexManager,
+}: RepositorySnippetsInput): Promise<AutocompleteCodeSnippet[]> {
+	const query = prefix.split("\n").slice(0, -1).slice(-SIMILAR_CODE_QUERY_LINES).join("\n").trim()
+
+	if (!query || !codeIndexManager?.isFeatureEnabled || !codeIndexManager.isInitialized) {
+		return []
+	}
+
+	const searchKey = `${workspacePath}\0${query}`
+	let search = similarCodeSearches.get(searchKey)
+	if (!search) {
+		// Extra results make up for the blocks of the file being completed, which are left out.
+		search = codeIndexManager.findSimilarCode(query, MAX_SIMILAR_CODE_BLOCKS * 2)
+		similarCodeSearches.set(searchKey, search)
+		search.catch(() => similarCodeSearches.delete(searchKey))
+	}
+	const results = await search
+
+	return results
+		.flatMap(({ payload }) =>
+			payload?.codeChunk ? [{ ...payload, filePath: path.resolve(workspacePath, payload.filePath) }] : [],
+		)
+		.filter(({ filePath }) => filePath !== fsPath)
+		.slice(0, MAX_SIMILAR_CODE_BLOCKS)
+		.map(({ filePath, codeChunk }) => ({
+			filepath: vscode.Uri.file(filePath).toString(),
+			content: codeChunk,
+			type: AutocompleteSnippetType.Code,
+		}))
+}
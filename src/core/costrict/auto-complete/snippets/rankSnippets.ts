@@ -0,0 +1,130 @@
+import { PromptOptions } from "../types"
+import { getSymbolsForSnippet } from "../utils"
+import { SnippetPayload } from "./getAllSnippets"
+import { AutocompleteClipboardSnippet, AutocompleteCodeSnippet } from "./types"
+
+// Estimates tokens without a tokenizer, which would be too slow to run on every keystroke.
+const CHARS_PER_TOKEN = 4
+// Lines around the cursor that the snippets are compared with.
+const CURSOR_WINDOW_PREFIX_LINES = 20
+const CURSOR_WINDOW_SUFFIX_LINES = 5
+// Snippets that would be cut to fewer lines are left out.
+const MIN_TRIMMED_LINES = 3
+// Tokens of the whole prompt. The snippets get what the code of the file leaves, within bounds, so
+// that a short file gets more context and a long one still gets some.
+const PROMPT_TOKEN_BUDGET = 8192
+const MIN_SNIPPET_TOKEN_BUDGET = 512
+const MAX_SNIPPET_TOKEN_BUDGET = 2048
+
+/**
+ * How much each kind of snippet is worth before its similarity to the code around the cursor.
+ * Definitions of the imported symbols hold the signatures the completion most likely calls.
+ */
+const SNIPPET_WEIGHTS: Record<keyof SnippetPayload, number> = {
+	importedDefinitionSnippets: 0.5,
+	recentlyEditedRangeSnippets: 0.4,
+	similarCodeSnippets: 0.3,
+	recentlyVisitedRangesSnippets: 0.2,
+	clipboardSnippets: 0.1,
+	recentlyOpenedFileSnippets: 0,
+}
+
+function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+	if (a.size === 0 || b.size === 0) {
+		return 0
+	}
+
+	let intersection = 0
+	a.forEach((symbol) => b.has(symbol) && intersection++)
+	return intersection / (a.size + b.size - intersection)
+}
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Gets the tokens left for the snippets by the code of the prompt options.
+ */
+export function getSnippetTokenBudget({
+	prefix,
+	suffix,
+	import_content,
+}: Pick<PromptOptions, "prefix" | "suffix" | "import_content">): number {
+	const remainingTokens =
+		PROMPT_TOKEN_BUDGET - estimateTokens(prefix) - estimateTokens(suffix) - estimateTokens(import_content)
+	return Math.min(MAX_SNIPPET_TOKEN_BUDGET, Math.max(MIN_SNIPPET_TOKEN_BUDGET, remainingTokens))
+}
+
+/**
+ * Ranks the snippets by their kind and their similarity to the code around the cursor, then keeps
+ * the best ones that fit in the token budget, cutting the last one to the lines that still fit.
+ */
+export function rankAndTrimSnippets(
+	payload: SnippetPayload,
+	{ prefix, suffix, tokenBudget }: { prefix: string; suffix: string; tokenBudget: number },
+): SnippetPayload {
+	const cursorWindow = [
+		...prefix.split("\n").slice(-CURSOR_WINDOW_PREFIX_LINES),
+		...suffix.split("\n").slice(0, CURSOR_WINDOW_SUFFIX_LINES),
+	].join("\n")
+	const cursorSymbols = getSymbolsForSnippet(cursorWindow)
+
+	const ranked = (Object.keys(SNIPPET_WEIGHTS) as (keyof SnippetPayload)[])
+		.flatMap((kind) =>
+			(payload[kind] as (AutocompleteCodeSnippet | AutocompleteClipboardSnippet)[]).map((snippet, index) => ({
+				kind,
+				index,
+				snippet,
+				score: SNIPPET_WEIGHTS[kind] + jaccardSimilarity(getSymbolsForSnippet(snippet.content), cursorSymbols),
+			})),
+		)
+		.filter(({ snippet }) => snippet.content.trim() !== "")
+		.sort((a, b) => b.score - a.score)
+
+	const kept = new Map<string, AutocompleteCodeSnippet | AutocompleteClipboardSnippet>()
+	const seenContents = new Set<string>()
+	let remainingTokens = tokenBudget
+
+	for (const { kind, index, snippet } of ranked) {
+		if (seenContents.has(snippet.content)) {
+			continue
+		}
+
+		let content = snippet.content
+		if (estimateTokens(content) > remainingTokens) {
+			const lines = content.split("\n")
+			const keptLines: string[] = []
+			for (const line of lines) {
+				if (estimateTokens([...keptLines, line].join("\n")) > remainingTokens) {
+					break
+				}
+				keptLines.push(line)
+			}
+			if (keptLines.length < MIN_TRIMMED_LINES) {
+				continue
+			}
+			content = keptLines.join("\n")
+		}
+
+		seenContents.add(snippet.content)
+		kept.set(`${kind}:${index}`, { ...snippet, content })
+		remainingTokens -= estimateTokens(content)
+	}
+
+	// The kept snippets stay in the order of their kind, which is the order of recency.
+	const keep = <T>(kind: keyof SnippetPayload, snippets: T[]) =>
+		snippets.flatMap((_, index) => {
+			const snippet = kept.get(`${kind}:${index}`)
+			return snippet ? [snippet as T] : []
+		})
+
+	return {
+		importedDefinitionSnippets: keep("importedDefinitionSnippets", payload.importedDefinitionSnippets),
+		similarCodeSnippets: keep("similarCodeSnippets", payload.similarCodeSnippets),
+		recentlyEditedRangeSnippets: keep("recentlyEditedRangeSnippets", payload.recentlyEditedRangeSnippets),
+		recentlyVisitedRangesSnippets: keep("recentlyVisitedRangesSnippets", payload.recentlyVisitedRangesSnippets),
+		clipboardSnippets: keep("clipboardSnippets", payload.clipboardSnippets),
+		recentlyOpenedFileSnippets: keep("recentlyOpenedFileSnippets", payload.recentlyOpenedFileSnippets),
+	}
+}
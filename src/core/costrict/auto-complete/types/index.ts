@@ -7,6 +7,8 @@ export interface PromptOptions {
 	project_path: string
 	file_project_path: string
 	import_content: string
+	imported_definitions: AutocompleteCodeSnippet[]
+	similar_code_blocks: AutocompleteCodeSnippet[]
 	recently_edited_ranges: AutocompleteCodeSnippet[]
 	recently_visited_ranges: AutocompleteCodeSnippet[]
 	clipboard_content: AutocompleteClipboardSnippet[]
@@ -75,7 +75,23 @@ export const CODELENS_CONST = {
 	rightMenu: "rightMenu",
 	funcHead: "funcHead",
 	// Supported programming languages
-	allowableLanguages: ["typescript", "javascript", "python", "go", "c", "c++", "lua", "java", "php", "ruby"],
+	allowableLanguages: [
+		"typescript",
+		"javascript",
+		"python",
+		"go",
+		"c",
+		"c++",
+		"lua",
+		"java",
+		"php",
+		"ruby",
+		"rust",
+		"kotlin",
+		"c#",
+		"swift",
+		"scala",
+	],
 	// codeLensLanguages: ["c", "c++", "go", "python"],    // Supported programming languages for codeLens
 }
 
@@ -15,6 +15,8 @@ import { CodelensItem } from "../common/constant"
 export interface LangClass {
 	// Check if the quick function menu needs to be displayed
 	checkCodelensEnabled(): boolean
+	// Retrieve the symbols of a document, from a language server or the tree-sitter queries
+	getDocumentSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]>
 	// Retrieve the list of symbols that can display codelens based on the programming language (coarse filtering)
 	getShowableSymbols(docSymbols: vscode.DocumentSymbol[]): vscode.DocumentSymbol[]
 	// Check whether a symbol is allowed to display codelens
@@ -0,0 +1,116 @@
+// npx vitest run core/costrict/base/language/__tests__/treeSitter.spec.ts
+
+import * as path from "path"
+import { loadRequiredLanguageParsers } from "../../../../../services/tree-sitter/languageParser"
+import { loadLocalLanguageExtensions } from "../../common/lang-util"
+import { getDefinitionSymbols, isTreeSitterLanguage } from "../treeSitterSymbols"
+
+vi.mock("vscode", () => {
+	class Position {
+		constructor(
+			public line: number,
+			public character: number,
+		) {}
+		compareTo(other: Position) {
+			return this.line - other.line || this.character - other.character
+		}
+	}
+	class Range {
+		start: Position
+		end: Position
+		constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+			this.start = new Position(startLine, startCharacter)
+			this.end = new Position(endLine, endCharacter)
+		}
+	}
+	return {
+		Range,
+		SymbolKind: { Method: 5, Constructor: 8, Function: 11 },
+	}
+})
+
+const WASM_DIRECTORY = path.join(__dirname, "../../../../../node_modules/tree-sitter-wasms/out")
+
+async function getSymbols(fileName: string, content: string) {
+	const ext = path.extname(fileName).slice(1)
+	const { parser, query } = (await loadRequiredLanguageParsers([fileName], WASM_DIRECTORY))[ext]
+	const tree = parser.parse(content)!
+	try {
+		return getDefinitionSymbols(query.matches(tree.rootNode)).map(({ name, kind, range, selectionRange }) => ({
+			name,
+			kind,
+			range: [range.start.line, range.start.character, range.end.line, range.end.character],
+			selection: [selectionRange.start.line, selectionRange.start.character],
+		}))
+	} finally {
+		tree.delete()
+	}
+}
+
+describe("getDefinitionSymbols", () => {
+	it("finds the functions and methods of Rust with their exact bodies", async () => {
+		const content = [
+			"struct Point { x: i32 }",
+			"",
+			"impl Point {",
+			"    fn new(x: i32) -> Self {",
+			"        Point { x }",
+			"    }",
+			"}",
+			"",
+			"pub fn distance(a: &Point, b: &Point) -> i32 {",
+			"    (a.x - b.x).abs()",
+			"}",
+		].join("\n")
+
+		expect(await getSymbols("point.rs", content)).toEqual([
+			{ name: "new", kind: 11, range: [3, 4, 5, 5], selection: [3, 7] },
+			{ name: "distance", kind: 11, range: [8, 0, 10, 1], selection: [8, 7] },
+		])
+	})
+
+	it("finds the constructors and methods of Java but not its classes or fields", async () => {
+		const content = [
+			"public class Counter {",
+			"    private int count;",
+			"",
+			"    public Counter() {",
+			"        count = 0;",
+			"    }",
+			"",
+			"    @Override",
+			"    public String toString() {",
+			'        return "" + count;',
+			"    }",
+			"}",
+		].join("\n")
+
+		expect(await getSymbols("Counter.java", content)).toEqual([
+			{ name: "Counter", kind: 8, range: [3, 4, 5, 5], selection: [3, 11] },
+			{ name: "toString", kind: 5, range: [7, 4, 10, 5], selection: [8, 18] },
+		])
+	})
+
+	it("finds the definitions that Go captures whole", async () => {
+		const content = ["package main", "", "func main() {", "\tprintln(1)", "}"].join("\n")
+
+		expect(await getSymbols("main.go", content)).toEqual([
+			{ name: "main", kind: 11, range: [2, 0, 4, 1], selection: [2, 5] },
+		])
+	})
+})
+
+describe("isTreeSitterLanguage", () => {
+	it("matches the languages of the extension map whose files have a tree-sitter parser", () => {
+		loadLocalLanguageExtensions()
+
+		expect(["rust", "kotlin", "c#", "scala", "css"].filter(isTreeSitterLanguage)).toEqual([
+			"rust",
+			"kotlin",
+			"c#",
+			"scala",
+			"css",
+		])
+		expect(["markdown", "sql", "perl", "unknown"].some(isTreeSitterLanguage)).toBe(false)
+	})
+})
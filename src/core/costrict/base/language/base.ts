@@ -9,6 +9,7 @@
 import * as vscode from "vscode"
 import { LangClass } from "./LangClass"
 import { CodelensItem } from "../common/constant"
+import { getTreeSitterSymbols } from "./treeSitterSymbols"
 
 /**
  * Programming language name
@@ -21,6 +22,15 @@ export class LangName {
 	public static PYTHON = "python"
 	public static TS = "typescript"
 	public static JS = "javascript"
+	public static RUST = "rust"
+	public static JAVA = "java"
+	public static KOTLIN = "kotlin"
+	public static CSHARP = "c#"
+	public static PHP = "php"
+	public static RUBY = "ruby"
+	public static SWIFT = "swift"
+	public static SCALA = "scala"
+	public static LUA = "lua"
 }
 
 /**
@@ -37,6 +47,19 @@ export class BaseLangClass implements LangClass {
 	public checkCodelensEnabled(): boolean {
 		return true
 	}
+	// Get the symbols of a document, from the tree-sitter queries when no language server answers
+	public async getDocumentSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+		const docSymbols = await this.getLanguageServerSymbols(document)
+		return docSymbols.length > 0 ? docSymbols : getTreeSitterSymbols(document)
+	}
+	// Get the symbols of a document from its language server
+	protected async getLanguageServerSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+		const docSymbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+			"vscode.executeDocumentSymbolProvider",
+			document.uri,
+		)
+		return docSymbols ?? []
+	}
 	// Check if a symbol should be displayed in the codelens
 	public isShowableSymbol(docSymbol: vscode.DocumentSymbol): boolean {
 		return this.showableKinds.includes(docSymbol.kind)
@@ -13,3 +13,4 @@ export { GoLangClass } from "./go"
 export { PythonLangClass } from "./python"
 export { TypescriptClass } from "./typescript"
 export { JavascriptClass } from "./javascript"
+export { TreeSitterLangClass } from "./treeSitter"
@@ -0,0 +1,28 @@
+/**
+ * Copyright (c) 2024 - Sangfor LTD.
+ *
+ * All rights reserved. Code licensed under the MIT license
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ */
+import * as vscode from "vscode"
+import { BaseLangClass } from "../base"
+import { getTreeSitterSymbols } from "../treeSitterSymbols"
+
+/**
+ * Language class that finds the functions of a document with the tree-sitter queries, so languages
+ * get codelens without a language server. The language server is still asked when the queries of
+ * the language find no functions, e.g. for markup and style sheets.
+ */
+export class TreeSitterLangClass extends BaseLangClass {
+	constructor(langName: string) {
+		super(langName)
+		this.showableKinds = [vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Constructor]
+	}
+
+	override async getDocumentSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+		const symbols = await getTreeSitterSymbols(document)
+		return symbols.length > 0 ? symbols : this.getLanguageServerSymbols(document)
+	}
+}
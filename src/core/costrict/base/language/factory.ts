@@ -14,10 +14,13 @@ import { PythonLangClass } from "./classes/python"
 import { LangClass } from "./LangClass"
 import { TypescriptClass } from "./classes/typescript"
 import { JavascriptClass } from "./classes/javascript"
+import { TreeSitterLangClass } from "./classes/treeSitter"
+import { isTreeSitterLanguage } from "./treeSitterSymbols"
 
 /**
  * Retrieve the language class based on the language name
- * Languages not specified will be handled using the BaseLangClass for general processing
+ * Languages without a class of their own get their symbols from the tree-sitter queries when there
+ * are queries for them, and are otherwise handled using the BaseLangClass for general processing
  */
 export function getLanguageClass(language: string): LangClass {
 	switch (language) {
@@ -34,6 +37,6 @@ export function getLanguageClass(language: string): LangClass {
 		case LangName.JS:
 			return new JavascriptClass()
 		default:
-			return new BaseLangClass(language)
+			return isTreeSitterLanguage(language) ? new TreeSitterLangClass(language) : new BaseLangClass(language)
 	}
 }
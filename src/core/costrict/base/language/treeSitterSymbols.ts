@@ -0,0 +1,177 @@
+/**
+ * Copyright (c) 2024 - Sangfor LTD.
+ *
+ * All rights reserved. Code licensed under the MIT license
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ */
+import * as path from "path"
+import * as vscode from "vscode"
+import type { Node, QueryMatch } from "web-tree-sitter"
+import { extensions as parsedExtensions } from "../../../../services/tree-sitter"
+import { LanguageParser, loadRequiredLanguageParsers } from "../../../../services/tree-sitter/languageParser"
+import { languageExtensions } from "../common/lang-util"
+
+// Markdown files are parsed without tree-sitter
+const TREE_SITTER_EXTENSIONS = new Set(
+	parsedExtensions.filter((ext) => ext !== ".md" && ext !== ".markdown").map((ext) => ext.slice(1)),
+)
+
+/**
+ * Checks whether the files of a language, as named in the language-extension map, have a tree-sitter parser
+ */
+export function isTreeSitterLanguage(language: string): boolean {
+	const fileExtensions =
+		languageExtensions?.find((item) => item.language.toLowerCase() === language)?.file_extensions ?? []
+	return fileExtensions.some((ext) => TREE_SITTER_EXTENSIONS.has(ext))
+}
+
+/**
+ * Definition kinds of the query captures that have a function body, e.g. `@definition.method`
+ */
+const FUNCTION_KINDS = new Set([
+	"function",
+	"async_function",
+	"extension_function",
+	"suspend_function",
+	"arrow_function",
+	"method",
+	"abstract_method",
+	"final_method",
+	"static_method",
+	"singleton_method",
+	"endless_method",
+	"constructor",
+	"secondary_constructor",
+	"initializer",
+	"convenience_initializer",
+	"deinitializer",
+	"getter",
+	"setter",
+	"accessor",
+])
+
+const CONSTRUCTOR_KINDS = new Set([
+	"constructor",
+	"secondary_constructor",
+	"initializer",
+	"convenience_initializer",
+	"deinitializer",
+])
+
+export interface DefinitionSymbol {
+	name: string
+	kind: vscode.SymbolKind
+	// The whole definition, from its modifiers to the end of its body
+	range: vscode.Range
+	// The name of the definition
+	selectionRange: vscode.Range
+}
+
+function toRange(node: Node): vscode.Range {
+	return new vscode.Range(
+		node.startPosition.row,
+		node.startPosition.column,
+		node.endPosition.row,
+		node.endPosition.column,
+	)
+}
+
+function toSymbolKind(kind: string): vscode.SymbolKind {
+	if (CONSTRUCTOR_KINDS.has(kind)) {
+		return vscode.SymbolKind.Constructor
+	}
+	return kind.includes("method") ? vscode.SymbolKind.Method : vscode.SymbolKind.Function
+}
+
+/**
+ * Gets the function-like definitions from the matches of a language query. Most queries capture the
+ * definition as `@definition.<kind>` and its name as `@name.definition.<kind>`; some, such as Go,
+ * capture only the whole definition as `@name.definition.<kind>`.
+ */
+export function getDefinitionSymbols(matches: QueryMatch[]): DefinitionSymbol[] {
+	const symbols: DefinitionSymbol[] = []
+	const seenDefinitions = new Set<number>()
+
+	for (const match of matches) {
+		let nameNode: Node | undefined
+		let definitionNode: Node | undefined
+		let kind: string | undefined
+
+		for (const capture of match.captures) {
+			if (capture.name.startsWith("definition.")) {
+				definitionNode = capture.node
+				kind = capture.name.slice("definition.".length)
+			} else if (capture.name.startsWith("name.definition.")) {
+				nameNode = capture.node
+				kind ??= capture.name.slice("name.definition.".length)
+			}
+		}
+
+		definitionNode ??= nameNode
+		if (!definitionNode || !kind || !FUNCTION_KINDS.has(kind) || seenDefinitions.has(definitionNode.startIndex)) {
+			continue
+		}
+		if (!nameNode || nameNode.startIndex === definitionNode.startIndex) {
+			nameNode = definitionNode.childForFieldName("name") ?? undefined
+		}
+		if (!nameNode) {
+			continue
+		}
+
+		seenDefinitions.add(definitionNode.startIndex)
+		symbols.push({
+			name: nameNode.text,
+			kind: toSymbolKind(kind),
+			range: toRange(definitionNode),
+			selectionRange: toRange(nameNode),
+		})
+	}
+
+	return symbols.sort((a, b) => a.range.start.compareTo(b.range.start))
+}
+
+// Loaded once per file extension, as loading a grammar reads and compiles its WASM file
+const languageParsers = new Map<string, Promise<LanguageParser[string] | undefined>>()
+
+function loadLanguageParser(filePath: string): Promise<LanguageParser[string] | undefined> {
+	const ext = path.extname(filePath).toLowerCase().slice(1)
+	let languageParser = languageParsers.get(ext)
+
+	if (!languageParser) {
+		languageParser = loadRequiredLanguageParsers([filePath])
+			.then((parsers) => parsers[ext])
+			.catch((error) => {
+				console.error(`Failed to load the tree-sitter parser for .${ext}:`, error)
+				return undefined
+			})
+		languageParsers.set(ext, languageParser)
+	}
+
+	return languageParser
+}
+
+/**
+ * Finds the function-like definitions of a document with the tree-sitter queries of its file extension
+ */
+export async function getTreeSitterSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+	const filePath = document.uri.fsPath
+	if (!TREE_SITTER_EXTENSIONS.has(path.extname(filePath).toLowerCase().slice(1))) {
+		return []
+	}
+
+	const languageParser = await loadLanguageParser(filePath)
+	const tree = languageParser?.parser.parse(document.getText())
+	if (!languageParser || !tree) {
+		return []
+	}
+
+	try {
+		return getDefinitionSymbols(languageParser.query.matches(tree.rootNode)).map(
+			({ name, kind, range, selectionRange }) => new vscode.DocumentSymbol(name, "", kind, range, selectionRange),
+		)
+	} finally {
+		tree.delete()
+	}
+}
@@ -13,6 +13,12 @@ import { throttle } from "../base/common/util"
 import { getLanguageByFilePath } from "../base/common/lang-util"
 import { ClineProvider } from "../../webview/ClineProvider"
 import { getCommand } from "../../../utils/commands"
+import { toRelativePath } from "../../../utils/path"
+import { getModeBySlug } from "../../../shared/modes"
+import { getCommand as getSlashCommand } from "../../../services/command/commands"
+import { t } from "../../../i18n"
+import { QUICK_COMMANDS_FILE, QuickCommand, renderQuickCommandPrompt } from "./quickCommands"
+import { QuickCommandsManager } from "./QuickCommandsManager"
 
 /**
  * Throttled function for commonCodeLensFunc
@@ -74,6 +80,120 @@ async function commonCodeLensFunc(editor: any, ...args: any) {
 	await ClineProvider.handleCodeAction(params.command, params.actionType, data)
 }
 
+/**
+ * Runs a quick command of the project file: renders its prompt template for the symbol and starts a
+ * task in its mode, or with its slash command
+ */
+async function runQuickCommand(
+	editor: vscode.TextEditor,
+	quickCommand: QuickCommand,
+	symbolName: string,
+	body: string,
+) {
+	const provider = await ClineProvider.getInstance()
+	if (!provider) {
+		return
+	}
+
+	const { mode, customModes } = await provider.getState()
+	if (quickCommand.mode && !getModeBySlug(quickCommand.mode, customModes)) {
+		vscode.window.showErrorMessage(
+			t("common:quickCommands.modeNotFound", { title: quickCommand.title, mode: quickCommand.mode }),
+		)
+		return
+	}
+	if (quickCommand.slashCommand && !(await getSlashCommand(provider.cwd, quickCommand.slashCommand))) {
+		vscode.window.showErrorMessage(
+			t("common:quickCommands.slashCommandNotFound", {
+				title: quickCommand.title,
+				command: quickCommand.slashCommand,
+			}),
+		)
+		return
+	}
+
+	const prompt = renderQuickCommandPrompt(quickCommand, {
+		symbolName,
+		body,
+		file: toRelativePath(editor.document.uri.fsPath, provider.cwd),
+		language: editor.document.languageId,
+		mode,
+	})
+
+	if (quickCommand.mode && quickCommand.mode !== mode) {
+		await provider.handleModeSwitch(quickCommand.mode)
+	}
+	await provider.createTask(prompt)
+}
+
+/**
+ * Gets the code of a symbol the way the built-in quick commands send it
+ */
+function getSymbolBody(editor: vscode.TextEditor, documentSymbol: vscode.DocumentSymbol): string {
+	const langClass = getLanguageClass(getLanguageByFilePath(editor.document.uri.fsPath))
+	const range = { startLine: documentSymbol.range.start.line, endLine: documentSymbol.range.end.line }
+	return langClass.codelensGetExtraArgs(editor.document, range, {}).code
+}
+
+/**
+ * Action for handling a quick command of the project file in codelens
+ * @param args: [edit, documentSymbol, quickCommand]
+ */
+async function quickCommandCodeLensFunc(editor: vscode.TextEditor, ...args: any) {
+	const documentSymbol: vscode.DocumentSymbol = args[1]
+	const quickCommand: QuickCommand = args[2]
+
+	await runQuickCommand(editor, quickCommand, documentSymbol.name, getSymbolBody(editor, documentSymbol))
+}
+
+const throttleQuickCommandCodeLensFunc = throttle(quickCommandCodeLensFunc, 2000)
+
+/**
+ * Action for running a quick command of the project file from the command palette, on the symbol
+ * around the cursor or else on the selection
+ */
+async function runQuickCommandFunc(editor: vscode.TextEditor) {
+	const quickCommands = QuickCommandsManager.getInstance().getCommands()
+	if (quickCommands.length === 0) {
+		vscode.window.showInformationMessage(t("common:quickCommands.noCommands", { file: QUICK_COMMANDS_FILE }))
+		return
+	}
+
+	const selection = await vscode.window.showQuickPick(
+		quickCommands.map((quickCommand) => ({
+			label: quickCommand.title,
+			detail: quickCommand.tooltip,
+			quickCommand,
+		})),
+		{ placeHolder: t("common:quickCommands.pickPlaceholder") },
+	)
+	if (!selection) {
+		return
+	}
+
+	const langClass = getLanguageClass(getLanguageByFilePath(editor.document.uri.fsPath))
+	const docSymbols = await langClass.getDocumentSymbols(editor.document)
+	const cursor = editor.selection.active
+	// The innermost symbol around the cursor, such as a method rather than its class
+	const documentSymbol = langClass
+		.getShowableSymbols(docSymbols)
+		.filter((symbol) => symbol.range.contains(cursor))
+		.sort((a, b) => a.range.end.line - a.range.start.line - (b.range.end.line - b.range.start.line))[0]
+
+	if (documentSymbol) {
+		await runQuickCommand(
+			editor,
+			selection.quickCommand,
+			documentSymbol.name,
+			getSymbolBody(editor, documentSymbol),
+		)
+	} else if (!editor.selection.isEmpty) {
+		await runQuickCommand(editor, selection.quickCommand, "", editor.document.getText(editor.selection))
+	} else {
+		vscode.window.showWarningMessage(t("common:quickCommands.noSymbol"))
+	}
+}
+
 /**
  * Action for handling the 'More' button in codelens
  */
@@ -87,12 +207,18 @@ async function moreCodeLensFunc(editor: any, ...args: any) {
 		}
 		options.push({ label: codelensItem.actionName, data: codelensItem })
 	}
+	for (const quickCommand of QuickCommandsManager.getInstance().getCommands()) {
+		options.push({ label: quickCommand.title, detail: quickCommand.tooltip, quickCommand })
+	}
 	const selection = await vscode.window.showQuickPick(options, {
 		placeHolder: "Select a quick command",
 	})
 
 	// Handle user selection
-	if (selection) {
+	if (selection?.quickCommand) {
+		args[2] = selection.quickCommand
+		throttleQuickCommandCodeLensFunc(editor, ...args)
+	} else if (selection) {
 		args[2] = selection.data
 		throttleCommonCodeLensFunc(editor, ...args)
 	}
@@ -113,3 +239,19 @@ export const codeLensCallBackMoreCommand = {
 	command: getCommand("codelens_more_button"),
 	callback: (event: any) => moreCodeLensFunc,
 }
+
+/**
+ * Callback function for the quick commands of the project file in codelens
+ */
+export const codeLensCallBackQuickCommand = {
+	command: getCommand("codelens_quick_command"),
+	callback: (event: any) => throttleQuickCommandCodeLensFunc,
+}
+
+/**
+ * Callback function for running a quick command of the project file from the command palette
+ */
+export const runQuickCommandCommand = {
+	command: getCommand("runQuickCommand"),
+	callback: (event: any) => runQuickCommandFunc,
+}
@@ -11,11 +11,16 @@ import { getLanguageClass } from "../base/language/factory"
 import { CODELENS_FUNC } from "../base/common/constant"
 import { Logger } from "../base/common/log-util"
 import { LangSetting, LangSwitch, getLanguageByFilePath } from "../base/common/lang-util"
+import { getCommand } from "../../../utils/commands"
+import { QuickCommandsManager } from "./QuickCommandsManager"
 
 /**
  * Service provider for codelens (header menu group for symbol definitions)
  */
 export class CostrictCodeLensProvider implements vscode.CodeLensProvider {
+	// Shows the quick commands of the project file as soon as it changes
+	public readonly onDidChangeCodeLenses = QuickCommandsManager.getInstance().onDidChange
+
 	async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken) {
 		const editor = vscode.window.activeTextEditor
 		if (!editor) {
@@ -50,18 +55,14 @@ export class CostrictCodeLensProvider implements vscode.CodeLensProvider {
 				{} as Record<string, (typeof CODELENS_FUNC)[keyof typeof CODELENS_FUNC]>,
 			)
 
-		if (Object.keys(configCodelensDicts).length === 0) {
+		const quickCommands = QuickCommandsManager.getInstance().getCommands()
+
+		if (Object.keys(configCodelensDicts).length === 0 && quickCommands.length === 0) {
 			Logger.log("No quick commands are configured")
 			return results
 		}
 
-		const docSymbols: any = await (async function (editor) {
-			const docSymbols = await vscode.commands.executeCommand(
-				"vscode.executeDocumentSymbolProvider",
-				editor.document.uri,
-			)
-			return docSymbols
-		})(editor)
+		const docSymbols = await langClass.getDocumentSymbols(editor.document)
 		if (!docSymbols || 0 === docSymbols.length) {
 			Logger.log("No DocumentSymbol was parsed, no codelens")
 			return []
@@ -82,6 +83,17 @@ export class CostrictCodeLensProvider implements vscode.CodeLensProvider {
 					}),
 				)
 			}
+			for (const quickCommand of quickCommands) {
+				const range = new vscode.Range(documentSymbol.range.start.line, 0, documentSymbol.range.start.line, 0)
+				results.push(
+					new vscode.CodeLens(range, {
+						title: quickCommand.title,
+						tooltip: quickCommand.tooltip ?? quickCommand.title,
+						command: getCommand("codelens_quick_command"),
+						arguments: [documentSymbol, quickCommand],
+					}),
+				)
+			}
 		}
 		return results
 	}
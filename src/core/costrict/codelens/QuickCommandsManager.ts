@@ -0,0 +1,90 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as vscode from "vscode"
+
+import { t } from "../../../i18n"
+import { fileExistsAtPath } from "../../../utils/fs"
+import { getWorkspacePath } from "../../../utils/path"
+import { Logger } from "../base/common/log-util"
+import { QUICK_COMMANDS_FILE, QuickCommand, parseQuickCommands } from "./quickCommands"
+
+/**
+ * Loads the quick commands of the project file and reloads them whenever the file changes.
+ */
+export class QuickCommandsManager implements vscode.Disposable {
+	private static instance: QuickCommandsManager | null = null
+
+	private commands: QuickCommand[] = []
+	private disposables: vscode.Disposable[] = []
+	private readonly onDidChangeEmitter = new vscode.EventEmitter<void>()
+	public readonly onDidChange = this.onDidChangeEmitter.event
+
+	private constructor() {
+		this.disposables.push(this.onDidChangeEmitter)
+		this.watch()
+		void this.load()
+	}
+
+	static getInstance(): QuickCommandsManager {
+		if (QuickCommandsManager.instance === null) {
+			QuickCommandsManager.instance = new QuickCommandsManager()
+		}
+		return QuickCommandsManager.instance
+	}
+
+	public getCommands(): QuickCommand[] {
+		return this.commands
+	}
+
+	private watch(): void {
+		const workspacePath = getWorkspacePath()
+		if (!workspacePath) {
+			return
+		}
+
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(workspacePath, QUICK_COMMANDS_FILE),
+		)
+		this.disposables.push(
+			watcher,
+			watcher.onDidCreate(() => this.load()),
+			watcher.onDidChange(() => this.load()),
+			watcher.onDidDelete(() => this.load()),
+		)
+	}
+
+	private async load(): Promise<void> {
+		const workspacePath = getWorkspacePath()
+		const filePath = path.join(workspacePath, QUICK_COMMANDS_FILE)
+
+		try {
+			if (!workspacePath || !(await fileExistsAtPath(filePath))) {
+				this.setCommands([])
+				return
+			}
+
+			const { commands, errors } = parseQuickCommands(await fs.readFile(filePath, "utf-8"))
+			this.setCommands(commands)
+
+			if (errors.length > 0) {
+				Logger.error(`[QuickCommands] Invalid ${QUICK_COMMANDS_FILE}:\n${errors.join("\n")}`)
+				vscode.window.showErrorMessage(
+					t("common:quickCommands.invalidFile", { file: QUICK_COMMANDS_FILE, errors: errors.join("; ") }),
+				)
+			}
+		} catch (error) {
+			Logger.error(`[QuickCommands] Failed to load ${QUICK_COMMANDS_FILE}:`, error)
+			this.setCommands([])
+		}
+	}
+
+	private setCommands(commands: QuickCommand[]): void {
+		this.commands = commands
+		this.onDidChangeEmitter.fire()
+	}
+
+	public dispose(): void {
+		vscode.Disposable.from(...this.disposables).dispose()
+		QuickCommandsManager.instance = null
+	}
+}
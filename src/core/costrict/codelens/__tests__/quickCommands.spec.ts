@@ -0,0 +1,71 @@
+// npx vitest run core/costrict/codelens/__tests__/quickCommands.spec.ts
+
+import { parseQuickCommands, renderQuickCommandPrompt, validateQuickCommandTemplate } from "../quickCommands"
+
+const variables = {
+	symbolName: "sum",
+	body: "function sum(a, b) {\n\treturn a + b\n}",
+	file: "src/math.ts",
+	language: "typescript",
+	mode: "code",
+}
+
+describe("validateQuickCommandTemplate", () => {
+	it("accepts the known variables", () => {
+		expect(validateQuickCommandTemplate("Explain ${symbolName} of ${file} in ${mode}:\n${body}")).toEqual([])
+	})
+
+	it("reports unknown variables and unclosed placeholders", () => {
+		expect(validateQuickCommandTemplate("${symbol}")).toEqual([
+			"Unknown variable ${symbol}, expected one of symbolName, body, file, language, mode",
+		])
+		expect(validateQuickCommandTemplate("Review ${body")).toEqual(["Unclosed placeholder at offset 7"])
+	})
+})
+
+describe("parseQuickCommands", () => {
+	it("keeps the valid commands and reports the others", () => {
+		const content = JSON.stringify({
+			quickCommands: [
+				{ id: "doc", title: "Document", prompt: "Document ${symbolName}", mode: "code" },
+				{ id: "broken", title: "Broken", prompt: "${name}" },
+				{ id: "doc", title: "Again", prompt: "Document" },
+			],
+		})
+
+		const { commands, errors } = parseQuickCommands(content)
+
+		expect(commands.map(({ id }) => id)).toEqual(["doc"])
+		expect(errors).toEqual([
+			"broken: Unknown variable ${name}, expected one of symbolName, body, file, language, mode",
+			"doc: Duplicate id",
+		])
+	})
+
+	it("reports invalid JSON and invalid fields", () => {
+		expect(parseQuickCommands("{").errors[0]).toMatch(/^Invalid JSON/)
+		expect(
+			parseQuickCommands(
+				JSON.stringify({
+					quickCommands: [{ id: "a", title: "A", prompt: "p", mode: "code", slashCommand: "x" }],
+				}),
+			).errors,
+		).toEqual(["quickCommands.0: Set either mode or slashCommand, not both"])
+	})
+})
+
+describe("renderQuickCommandPrompt", () => {
+	it("replaces the variables", () => {
+		const command = { id: "a", title: "A", prompt: "Test ${symbolName} (${language}) in ${file}:\n${body}" }
+
+		expect(renderQuickCommandPrompt(command, variables)).toBe(
+			"Test sum (typescript) in src/math.ts:\nfunction sum(a, b) {\n\treturn a + b\n}",
+		)
+	})
+
+	it("sends the prompt to the slash command", () => {
+		const command = { id: "a", title: "A", prompt: "${symbolName} from ${mode}", slashCommand: "review" }
+
+		expect(renderQuickCommandPrompt(command, variables)).toBe("/review sum from code")
+	})
+})
@@ -11,3 +11,4 @@
 export * from "./types"
 export { CostrictCodeLensProvider } from "./CodeLensProvider"
 export * from "./CodeLensCallbacks"
+export { QuickCommandsManager } from "./QuickCommandsManager"
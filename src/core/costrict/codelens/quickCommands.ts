@@ -0,0 +1,104 @@
+import { z } from "zod"
+
+/**
+ * Project file where a team defines its own function-level quick commands, relative to the workspace.
+ */
+export const QUICK_COMMANDS_FILE = ".roo/quick-commands.json"
+
+/**
+ * Variables that a prompt template can use as `${name}`.
+ */
+export const QUICK_COMMAND_VARIABLES = ["symbolName", "body", "file", "language", "mode"] as const
+
+export type QuickCommandVariable = (typeof QUICK_COMMAND_VARIABLES)[number]
+
+export type QuickCommandVariables = Record<QuickCommandVariable, string>
+
+const quickCommandSchema = z
+	.object({
+		id: z.string().regex(/^[\w-]+$/, "Use only letters, digits, underscores and hyphens"),
+		title: z.string().min(1),
+		tooltip: z.string().optional(),
+		prompt: z.string().min(1),
+		// Slug of the mode that the task runs in
+		mode: z.string().optional(),
+		// Name of the slash command that the prompt is sent to
+		slashCommand: z.string().optional(),
+	})
+	.refine((command) => !(command.mode && command.slashCommand), {
+		message: "Set either mode or slashCommand, not both",
+	})
+
+export const quickCommandsFileSchema = z.object({
+	quickCommands: z.array(quickCommandSchema),
+})
+
+export type QuickCommand = z.infer<typeof quickCommandSchema>
+
+/**
+ * Finds the errors of a prompt template: placeholders that are never closed and unknown variables.
+ */
+export function validateQuickCommandTemplate(template: string): string[] {
+	const errors: string[] = []
+
+	for (const match of template.matchAll(/\$\{([^}]*)(\}?)/g)) {
+		const [, name, closing] = match
+		if (!closing) {
+			errors.push(`Unclosed placeholder at offset ${match.index}`)
+		} else if (!QUICK_COMMAND_VARIABLES.includes(name.trim() as QuickCommandVariable)) {
+			errors.push(`Unknown variable \${${name}}, expected one of ${QUICK_COMMAND_VARIABLES.join(", ")}`)
+		}
+	}
+
+	return errors
+}
+
+/**
+ * Parses the content of the quick commands file. Commands with an invalid template are left out and
+ * reported in the errors, so one broken command does not hide the others.
+ */
+export function parseQuickCommands(content: string): { commands: QuickCommand[]; errors: string[] } {
+	let json: unknown
+	try {
+		json = JSON.parse(content)
+	} catch (error) {
+		return { commands: [], errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+	}
+
+	const result = quickCommandsFileSchema.safeParse(json)
+	if (!result.success) {
+		return {
+			commands: [],
+			errors: result.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+		}
+	}
+
+	const commands: QuickCommand[] = []
+	const errors: string[] = []
+	const ids = new Set<string>()
+
+	for (const command of result.data.quickCommands) {
+		const templateErrors = validateQuickCommandTemplate(command.prompt)
+		if (ids.has(command.id)) {
+			errors.push(`${command.id}: Duplicate id`)
+		} else if (templateErrors.length > 0) {
+			errors.push(...templateErrors.map((error) => `${command.id}: ${error}`))
+		} else {
+			ids.add(command.id)
+			commands.push(command)
+		}
+	}
+
+	return { commands, errors }
+}
+
+/**
+ * Replaces the variables of a prompt template that passed validation.
+ */
+export function renderQuickCommandPrompt(command: QuickCommand, variables: QuickCommandVariables): string {
+	const prompt = command.prompt.replace(
+		/\$\{([^}]*)\}/g,
+		(_, name: string) => variables[name.trim() as QuickCommandVariable],
+	)
+	return command.slashCommand ? `/${command.slashCommand} ${prompt}` : prompt
+}
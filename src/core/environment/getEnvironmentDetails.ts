@@ -17,8 +17,10 @@ import { getApiMetrics } from "../../shared/getApiMetrics"
 import { listFiles } from "../../services/glob/list-files"
 import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
 import { Terminal } from "../../integrations/terminal/Terminal"
+import { BackgroundProcessRegistry } from "../../integrations/terminal/BackgroundProcessRegistry"
 import { arePathsEqual } from "../../utils/path"
 import { formatResponse } from "../prompts/responses"
+import { describeBackgroundProcess } from "../tools/helpers/backgroundProcesses"
 import { getGitStatus } from "../../utils/git"
 
 import { Task } from "../task/Task"
@@ -199,6 +201,18 @@ export async function getEnvironmentDetails(cline: Task, includeFileDetails: boo
 			}
 		}
 	}
+
+	// The output of background processes is only read on demand, with read_process_output.
+	const backgroundProcesses = BackgroundProcessRegistry.list(cline.taskId)
+
+	if (backgroundProcesses.length > 0) {
+		terminalDetails += "\n\n# Background Processes"
+
+		for (const backgroundProcess of backgroundProcesses) {
+			terminalDetails += `\n- ${describeBackgroundProcess(backgroundProcess)}`
+		}
+	}
+
 	// Add recently modified files section.
 	const recentlyModifiedFiles = cline.fileContextTracker.getAndClearRecentlyModifiedFiles()
 
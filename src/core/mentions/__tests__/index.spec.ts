@@ -1,9 +1,15 @@
 // npx vitest core/mentions/__tests__/index.spec.ts
 
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
 import * as vscode from "vscode"
 
 import { parseMentions } from "../index"
+import { getSymbolDefinitions } from "../symbol-definition"
 import { UrlContentFetcher } from "../../../services/browser/UrlContentFetcher"
+import { clearTestRuns, recordTestRun } from "../../../integrations/terminal/test-runs"
+import { getBranchDiff } from "../../../utils/git"
 
 // Mock vscode
 vi.mock("vscode", async (importOriginal) => ({
@@ -23,6 +29,15 @@ vi.mock("../../../i18n", () => ({
 	t: vi.fn((key: string) => key),
 }))
 
+vi.mock("../symbol-definition", () => ({
+	getSymbolDefinitions: vi.fn(),
+}))
+
+vi.mock("../../../utils/git", async (importOriginal) => ({
+	...(await importOriginal()),
+	getBranchDiff: vi.fn(),
+}))
+
 describe("parseMentions - URL error handling", () => {
 	let mockUrlContentFetcher: UrlContentFetcher
 	let consoleErrorSpy: any
@@ -163,3 +178,73 @@ describe("parseMentions - URL error handling", () => {
 		expect(result.text).toContain("Error fetching content: timeout")
 	})
 })
+
+describe("parseMentions - symbol, diff, tree and tests mentions", () => {
+	const urlContentFetcher = {} as UrlContentFetcher
+	let cwd: string
+
+	beforeEach(async () => {
+		vi.clearAllMocks()
+		clearTestRuns()
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "mentions-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	it("should attach the definition of a symbol", async () => {
+		vi.mocked(getSymbolDefinitions).mockResolvedValue("src/task.ts:10-12 (method)\n10 | say() {}")
+
+		const result = await parseMentions("Explain @symbol:Task.say", cwd, urlContentFetcher)
+
+		expect(getSymbolDefinitions).toHaveBeenCalledWith("Task.say", cwd, undefined)
+		expect(result.text).toContain("Explain Symbol 'Task.say' (see below for definition)")
+		expect(result.text).toContain('<symbol_definition name="Task.say">\nsrc/task.ts:10-12 (method)')
+	})
+
+	it("should attach the diff of a revision range within the read budget", async () => {
+		const diff = Array.from({ length: 100 }, (_, i) => `+line ${i}`).join("\n")
+		vi.mocked(getBranchDiff).mockResolvedValue(diff)
+
+		const result = await parseMentions(
+			"Review @diff:main..HEAD",
+			cwd,
+			urlContentFetcher,
+			undefined,
+			undefined,
+			false,
+			true,
+			50,
+			10,
+		)
+
+		expect(getBranchDiff).toHaveBeenCalledWith("main..HEAD", cwd)
+		expect(result.text).toContain("Review Git diff 'main..HEAD' (see below for changes)")
+		expect(result.text).toContain('<git_diff range="main..HEAD">')
+		expect(result.text).toContain("lines omitted")
+		expect(result.text).not.toContain("+line 50")
+	})
+
+	it("should attach a depth-limited folder tree", async () => {
+		await fs.mkdir(path.join(cwd, "src/a/b/c/d"), { recursive: true })
+		await fs.writeFile(path.join(cwd, "src/index.ts"), "")
+		await fs.writeFile(path.join(cwd, "src/a/b/c/d/deep.ts"), "")
+
+		const result = await parseMentions("Look at @tree:/src", cwd, urlContentFetcher)
+
+		expect(result.text).toContain("Look at 'src' (see below for folder tree)")
+		expect(result.text).toContain(
+			'<folder_tree path="src">\nsrc/\n├── a/\n│   └── b/\n│       └── c/\n└── index.ts\n(Depth limited to 3 levels)\n</folder_tree>',
+		)
+	})
+
+	it("should attach the output of the last failing test run", async () => {
+		recordTestRun(cwd, { command: "npm test", cwd, exitCode: 1, output: "FAIL src/foo.spec.ts" })
+
+		const result = await parseMentions("Fix @tests", cwd, urlContentFetcher)
+
+		expect(result.text).toContain("Fix Last Test Run (see below for test results)")
+		expect(result.text).toMatch(/<test_results>\nCommand: npm test[\s\S]*FAIL src\/foo\.spec\.ts\n<\/test_results>/)
+	})
+})
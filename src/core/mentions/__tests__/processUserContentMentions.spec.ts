@@ -58,6 +58,7 @@ describe("processUserContentMentions", () => {
 				50, // maxDiagnosticMessages
 				100,
 				undefined,
+				undefined,
 			)
 		})
 
@@ -88,6 +89,7 @@ describe("processUserContentMentions", () => {
 				50, // maxDiagnosticMessages
 				undefined,
 				undefined,
+				undefined,
 			)
 		})
 
@@ -119,6 +121,7 @@ describe("processUserContentMentions", () => {
 				50, // maxDiagnosticMessages
 				-1,
 				undefined,
+				undefined,
 			)
 		})
 	})
@@ -330,6 +333,7 @@ describe("processUserContentMentions", () => {
 				50, // maxDiagnosticMessages
 				undefined,
 				undefined,
+				undefined,
 			)
 		})
 
@@ -360,6 +364,7 @@ describe("processUserContentMentions", () => {
 				50, // maxDiagnosticMessages
 				undefined,
 				undefined,
+				undefined,
 			)
 		})
 	})
@@ -0,0 +1,74 @@
+// npx vitest run core/mentions/__tests__/symbol-definition.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { getSymbolDefinitions } from "../symbol-definition"
+import { executeRipgrep } from "../../../services/search/file-search"
+import { codeParser } from "../../../services/code-index/processors/parser"
+
+vi.mock("../../../services/search/file-search", () => ({
+	executeRipgrep: vi.fn(),
+}))
+
+vi.mock("../../../services/code-index/processors/parser", () => ({
+	codeParser: { extractSymbols: vi.fn() },
+}))
+
+const source = ["export class Task {", "\tsay() {", "\t\treturn 1", "\t}", "}", "", "export function say() {}"].join(
+	"\n",
+)
+
+describe("getSymbolDefinitions", () => {
+	let cwd: string
+
+	beforeEach(async () => {
+		vi.clearAllMocks()
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "symbols-"))
+		await fs.writeFile(path.join(cwd, "task.ts"), source)
+
+		vi.mocked(executeRipgrep).mockResolvedValue([
+			{ path: "task.ts", type: "file" },
+			{ path: "README.md", type: "file" },
+		])
+		vi.mocked(codeParser.extractSymbols).mockImplementation(async (filePath) => ({
+			definitions: [
+				{ name: "Task", kind: "class", filePath, startLine: 1, endLine: 5 },
+				{ name: "say", kind: "method", filePath, startLine: 2, endLine: 4 },
+				{ name: "say", kind: "function", filePath, startLine: 7, endLine: 7 },
+			],
+			references: [],
+			imports: [],
+		}))
+	})
+
+	afterEach(async () => {
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	it("returns the numbered source of every definition of the name", async () => {
+		const result = await getSymbolDefinitions("say", cwd)
+
+		expect(executeRipgrep).toHaveBeenCalledWith(
+			expect.objectContaining({ args: expect.arrayContaining(["-e", "say", cwd]), workspacePath: cwd }),
+		)
+		expect(codeParser.extractSymbols).toHaveBeenCalledTimes(1)
+		expect(result).toBe(
+			"task.ts:2-4 (method)\n2 | \tsay() {\n3 | \t\treturn 1\n4 | \t}\n\ntask.ts:7-7 (function)\n7 | export function say() {}",
+		)
+	})
+
+	it("only returns definitions nested in the qualifier", async () => {
+		const result = await getSymbolDefinitions("Task.say", cwd)
+
+		expect(result).toContain("task.ts:2-4 (method)")
+		expect(result).not.toContain("(function)")
+	})
+
+	it("skips files excluded by .rooignore", async () => {
+		const rooIgnoreController = { validateAccess: vi.fn(() => false) } as any
+
+		expect(await getSymbolDefinitions("say", cwd, rooIgnoreController)).toBe("No definition found for symbol 'say'")
+	})
+})
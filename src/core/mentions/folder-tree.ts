@@ -0,0 +1,81 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import type { RooIgnoreController } from "../ignore/RooIgnoreController"
+
+const FOLDER_TREE_MAX_DEPTH = 3
+const FOLDER_TREE_MAX_ENTRIES = 500
+const SKIPPED_DIRECTORIES = new Set([".git", "node_modules", "out", "dist", "__pycache__", ".venv", "target"])
+
+/**
+ * Renders the outline of a folder for the `@tree:/path` mention, down to `maxDepth` levels and
+ * without file contents. Folders are listed before files, ignored entries are left out and
+ * dependency and build folders are not expanded.
+ */
+export async function getFolderTree(
+	mentionPath: string,
+	cwd: string,
+	rooIgnoreController?: RooIgnoreController,
+	maxDepth: number = FOLDER_TREE_MAX_DEPTH,
+): Promise<string> {
+	const absPath = path.resolve(cwd, mentionPath)
+	const stats = await fs.stat(absPath).catch(() => undefined)
+
+	if (!stats?.isDirectory()) {
+		throw new Error(`Failed to access folder "${mentionPath}"`)
+	}
+
+	let entryCount = 0
+	let truncated = false
+
+	const renderFolder = async (folderPath: string, prefix: string, depth: number): Promise<string> => {
+		const entries = (await fs.readdir(folderPath, { withFileTypes: true }))
+			.filter(
+				(entry) =>
+					!rooIgnoreController || rooIgnoreController.validateAccess(path.join(folderPath, entry.name)),
+			)
+			.sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name))
+
+		let output = ""
+
+		for (let index = 0; index < entries.length; index++) {
+			if (entryCount >= FOLDER_TREE_MAX_ENTRIES) {
+				truncated = true
+				break
+			}
+
+			const entry = entries[index]
+			const isLast = index === entries.length - 1
+			entryCount++
+
+			if (!entry.isDirectory()) {
+				output += `${prefix}${isLast ? "└── " : "├── "}${entry.name}\n`
+				continue
+			}
+
+			output += `${prefix}${isLast ? "└── " : "├── "}${entry.name}/\n`
+
+			if (depth < maxDepth && !SKIPPED_DIRECTORIES.has(entry.name)) {
+				output += await renderFolder(
+					path.join(folderPath, entry.name),
+					`${prefix}${isLast ? "    " : "│   "}`,
+					depth + 1,
+				)
+			}
+		}
+
+		return output
+	}
+
+	const tree = await renderFolder(absPath, "", 1)
+	const root = `${path.relative(cwd, absPath).toPosix() || "."}/`
+
+	return [
+		root,
+		tree.trimEnd(),
+		truncated ? `(Showing the first ${FOLDER_TREE_MAX_ENTRIES} entries)` : "",
+		`(Depth limited to ${maxDepth} levels)`,
+	]
+		.filter(Boolean)
+		.join("\n")
+}
@@ -6,11 +6,12 @@ import { isBinaryFileWithEncodingDetection } from "../../utils/encoding"
 
 import { mentionRegexGlobal, commandRegexGlobal, unescapeSpaces } from "../../shared/context-mentions"
 
-import { getCommitInfo, getWorkingState } from "../../utils/git"
+import { getBranchDiff, getCommitInfo, getWorkingState } from "../../utils/git"
 
 import { openFile } from "../../integrations/misc/open-file"
-import { extractTextFromFile } from "../../integrations/misc/extract-text"
+import { extractTextFromFile, truncateOutput } from "../../integrations/misc/extract-text"
 import { diagnosticsToProblemsString } from "../../integrations/diagnostics"
+import { getLastTestRunOutput } from "../../integrations/terminal/test-runs"
 
 import { UrlContentFetcher } from "../../services/browser/UrlContentFetcher"
 
@@ -18,6 +19,11 @@ import { FileContextTracker } from "../context-tracking/FileContextTracker"
 
 import { RooIgnoreController } from "../ignore/RooIgnoreController"
 import { getCommand, type Command } from "../../services/command/commands"
+import type { McpHub, McpPromptCommand } from "../../services/mcp/McpHub"
+import { getMcpPromptContent } from "../../services/mcp/prompts"
+
+import { getSymbolDefinitions } from "./symbol-definition"
+import { getFolderTree } from "./folder-tree"
 
 import { t } from "../../i18n"
 import { Task } from "../task/Task"
@@ -67,6 +73,11 @@ export async function openMention(cwd: string, mention?: string): Promise<void>
 		vscode.commands.executeCommand("workbench.actions.view.problems")
 	} else if (mention === "terminal") {
 		vscode.commands.executeCommand("workbench.action.terminal.focus")
+	} else if (mention.startsWith("tree:/")) {
+		const absPath = path.resolve(cwd, unescapeSpaces(mention.slice("tree:/".length)))
+		vscode.commands.executeCommand("revealInExplorer", vscode.Uri.file(absPath))
+	} else if (mention.startsWith("symbol:")) {
+		vscode.commands.executeCommand("workbench.action.showAllSymbols", mention.slice("symbol:".length))
 	} else if (mention.startsWith("http")) {
 		vscode.env.openExternal(vscode.Uri.parse(mention))
 	}
@@ -88,9 +99,11 @@ export async function parseMentions(
 	maxDiagnosticMessages: number = 50,
 	maxReadFileLine?: number,
 	maxReadCharacterLimit?: number,
+	mcpHub?: McpHub,
 ): Promise<ParseMentionsResult> {
 	const mentions: Set<string> = new Set()
 	const validCommands: Map<string, Command> = new Map()
+	const mcpPromptCommands: Map<string, { command: McpPromptCommand; argumentText: string }> = new Map()
 	let commandMode: string | undefined // Track mode from the first slash command that has one
 
 	// First pass: check which command mentions exist and cache the results
@@ -120,10 +133,25 @@ export async function parseMentions(
 		}
 	}
 
+	// Commands that are not defined in files may be MCP prompts, which take the rest of the line as arguments
+	const promptCommands = mcpHub?.getPromptCommands() ?? []
+	for (const match of commandMatches) {
+		const [command, commandName] = match
+		const promptCommand = promptCommands.find(({ name }) => name === commandName)
+
+		if (promptCommand && !validCommands.has(commandName) && !mcpPromptCommands.has(commandName)) {
+			const argumentText = text
+				.slice(match.index + command.length)
+				.split("\n")[0]
+				.replace(/<\/\w+>\s*$/, "")
+			mcpPromptCommands.set(commandName, { command: promptCommand, argumentText })
+		}
+	}
+
 	// Only replace text for commands that actually exist
 	let parsedText = text
 	for (const [match, commandName] of commandMatches) {
-		if (validCommands.has(commandName)) {
+		if (validCommands.has(commandName) || mcpPromptCommands.has(commandName)) {
 			parsedText = parsedText.replace(match, `Command '${commandName}' (see below for command content)`)
 		}
 	}
@@ -146,10 +174,26 @@ export async function parseMentions(
 			return `Git commit '${mention}' (see below for commit info)`
 		} else if (mention === "terminal") {
 			return `Terminal Output (see below for output)`
+		} else if (mention === "tests") {
+			return `Last Test Run (see below for test results)`
+		} else if (mention.startsWith("symbol:")) {
+			return `Symbol '${mention.slice("symbol:".length)}' (see below for definition)`
+		} else if (mention.startsWith("diff:")) {
+			return `Git diff '${mention.slice("diff:".length)}' (see below for changes)`
+		} else if (mention.startsWith("tree:/")) {
+			return `'${mention.slice("tree:/".length) || "."}' (see below for folder tree)`
 		}
 		return match
 	})
 
+	// Generated context gets the same budget as a mentioned file
+	const applyReadBudget = (content: string) =>
+		truncateOutput(
+			content,
+			maxReadFileLine !== undefined && maxReadFileLine > 0 ? maxReadFileLine : undefined,
+			maxReadCharacterLimit,
+		)
+
 	const urlMention = Array.from(mentions).find((mention) => mention.startsWith("http"))
 	let launchBrowserError: Error | undefined
 	if (urlMention) {
@@ -245,6 +289,32 @@ export async function parseMentions(
 			} catch (error) {
 				parsedText += `\n\n<terminal_output>\nError fetching terminal output: ${error.message}\n</terminal_output>`
 			}
+		} else if (mention === "tests") {
+			parsedText += `\n\n<test_results>\n${applyReadBudget(getLastTestRunOutput(cwd))}\n</test_results>`
+		} else if (mention.startsWith("symbol:")) {
+			const symbol = mention.slice("symbol:".length)
+			try {
+				const definitions = await getSymbolDefinitions(symbol, cwd, rooIgnoreController)
+				parsedText += `\n\n<symbol_definition name="${symbol}">\n${applyReadBudget(definitions)}\n</symbol_definition>`
+			} catch (error) {
+				parsedText += `\n\n<symbol_definition name="${symbol}">\nError resolving symbol: ${error.message}\n</symbol_definition>`
+			}
+		} else if (mention.startsWith("diff:")) {
+			const range = mention.slice("diff:".length)
+			try {
+				const diff = await getBranchDiff(range, cwd)
+				parsedText += `\n\n<git_diff range="${range}">\n${applyReadBudget(diff)}\n</git_diff>`
+			} catch (error) {
+				parsedText += `\n\n<git_diff range="${range}">\nError fetching diff: ${error.message}\n</git_diff>`
+			}
+		} else if (mention.startsWith("tree:/")) {
+			const treePath = mention.slice("tree:/".length)
+			try {
+				const tree = await getFolderTree(unescapeSpaces(treePath), cwd, rooIgnoreController)
+				parsedText += `\n\n<folder_tree path="${treePath || "."}">\n${applyReadBudget(tree)}\n</folder_tree>`
+			} catch (error) {
+				parsedText += `\n\n<folder_tree path="${treePath || "."}">\nError fetching folder tree: ${error.message}\n</folder_tree>`
+			}
 		}
 	}
 
@@ -262,6 +332,15 @@ export async function parseMentions(
 		}
 	}
 
+	for (const [commandName, { command, argumentText }] of mcpPromptCommands) {
+		try {
+			const commandOutput = await getMcpPromptContent(mcpHub!, command, argumentText)
+			parsedText += `\n\n<command name="${commandName}">\n${commandOutput}\n</command>`
+		} catch (error) {
+			parsedText += `\n\n<command name="${commandName}">\nError loading command '${commandName}': ${error.message}\n</command>`
+		}
+	}
+
 	if (urlMention) {
 		try {
 			await urlContentFetcher.closeBrowser()
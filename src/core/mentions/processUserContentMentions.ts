@@ -3,6 +3,7 @@ import { parseMentions, ParseMentionsResult } from "./index"
 import { UrlContentFetcher } from "../../services/browser/UrlContentFetcher"
 import { FileContextTracker } from "../context-tracking/FileContextTracker"
 import { Task } from "../task/Task"
+import type { McpHub } from "../../services/mcp/McpHub"
 
 export interface ProcessUserContentMentionsResult {
 	content: Anthropic.Messages.ContentBlockParam[]
@@ -24,6 +25,7 @@ export async function processUserContentMentions({
 	maxDiagnosticMessages = 50,
 	maxReadFileLine,
 	maxReadCharacterLimit,
+	mcpHub,
 }: {
 	userContent: Anthropic.Messages.ContentBlockParam[]
 	cwd: string
@@ -36,6 +38,7 @@ export async function processUserContentMentions({
 	maxDiagnosticMessages?: number
 	maxReadFileLine?: number
 	maxReadCharacterLimit?: number
+	mcpHub?: McpHub
 }): Promise<ProcessUserContentMentionsResult> {
 	// Track the first mode found from slash commands
 	let commandMode: string | undefined
@@ -71,6 +74,7 @@ export async function processUserContentMentions({
 						maxDiagnosticMessages,
 						maxReadFileLine,
 						maxReadCharacterLimit,
+						mcpHub,
 					)
 					// Capture the first mode found
 					if (!commandMode && result.mode) {
@@ -97,6 +101,7 @@ export async function processUserContentMentions({
 							maxDiagnosticMessages,
 							maxReadFileLine,
 							maxReadCharacterLimit,
+							mcpHub,
 						)
 						// Capture the first mode found
 						if (!commandMode && result.mode) {
@@ -124,6 +129,7 @@ export async function processUserContentMentions({
 									maxDiagnosticMessages,
 									maxReadFileLine,
 									maxReadCharacterLimit,
+									mcpHub,
 								)
 								// Capture the first mode found
 								if (!commandMode && result.mode) {
@@ -0,0 +1,97 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import { addLineNumbers } from "../../integrations/misc/extract-text"
+import { executeRipgrep } from "../../services/search/file-search"
+import { codeParser } from "../../services/code-index/processors/parser"
+import { scannerExtensions } from "../../services/code-index/shared/supported-extensions"
+import type { SymbolDefinition } from "../../services/code-index/interfaces"
+
+import type { RooIgnoreController } from "../ignore/RooIgnoreController"
+
+const MAX_CANDIDATE_FILES = 50
+const MAX_DEFINITIONS = 5
+
+/**
+ * Finds the definitions of a symbol for the `@symbol:Name` mention. Files containing the name are
+ * found with ripgrep and parsed with tree-sitter. A qualified name like `Class.method` only
+ * matches definitions nested in a definition of the qualifier.
+ * @returns The numbered source of each definition, or a note when none was found
+ */
+export async function getSymbolDefinitions(
+	symbol: string,
+	cwd: string,
+	rooIgnoreController?: RooIgnoreController,
+): Promise<string> {
+	const [name, qualifier] = symbol.split(".").reverse()
+	const candidates = await executeRipgrep({
+		args: [
+			"--files-with-matches",
+			"--word-regexp",
+			"--fixed-strings",
+			"--follow",
+			"-g",
+			"!**/node_modules/**",
+			"-g",
+			"!**/.git/**",
+			"-g",
+			"!**/out/**",
+			"-g",
+			"!**/dist/**",
+			"-e",
+			name,
+			cwd,
+		],
+		workspacePath: cwd,
+		limit: MAX_CANDIDATE_FILES,
+	})
+
+	const sections: string[] = []
+
+	for (const { path: relPath, type } of candidates) {
+		if (
+			type !== "file" ||
+			!scannerExtensions.includes(path.extname(relPath).toLowerCase()) ||
+			(rooIgnoreController && !rooIgnoreController.validateAccess(relPath))
+		) {
+			continue
+		}
+
+		const absPath = path.resolve(cwd, relPath)
+		const content = await fs.readFile(absPath, "utf8").catch(() => undefined)
+		if (content === undefined) {
+			continue
+		}
+
+		const { definitions } = await codeParser.extractSymbols(absPath, content)
+		const lines = content.split("\n")
+
+		for (const definition of definitions) {
+			if (definition.name !== name || (qualifier && !isNestedIn(definition, definitions, qualifier))) {
+				continue
+			}
+
+			const source = lines.slice(definition.startLine - 1, definition.endLine).join("\n")
+			sections.push(
+				`${relPath.toPosix()}:${definition.startLine}-${definition.endLine} (${definition.kind})\n` +
+					addLineNumbers(source, definition.startLine).trimEnd(),
+			)
+
+			if (sections.length >= MAX_DEFINITIONS) {
+				return sections.join("\n\n")
+			}
+		}
+	}
+
+	return sections.length > 0 ? sections.join("\n\n") : `No definition found for symbol '${symbol}'`
+}
+
+function isNestedIn(definition: SymbolDefinition, definitions: SymbolDefinition[], qualifier: string): boolean {
+	return definitions.some(
+		(container) =>
+			container !== definition &&
+			container.name === qualifier &&
+			container.startLine <= definition.startLine &&
+			container.endLine >= definition.endLine,
+	)
+}
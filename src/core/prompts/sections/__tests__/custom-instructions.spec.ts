@@ -1091,6 +1091,62 @@ describe("addCustomInstructions", () => {
 		expect(readFileMock).toHaveBeenCalledWith(expectedAbsRule2Path, "utf-8")
 	})
 
+	it("should load the rules of inherited modes before the rules of the mode", async () => {
+		const normalize = (p: PathLike) => p.toString().replace(/\\/g, "/")
+		const rulesDirs = ["/fake/path/.roo/rules-parent-mode", "/fake/path/.roo/rules-test-mode"]
+		const [statImplementation, readdirImplementation, readFileImplementation] = [
+			statMock.getMockImplementation(),
+			readdirMock.getMockImplementation(),
+			readFileMock.getMockImplementation(),
+		]
+
+		statMock.mockImplementation((p) => {
+			const normalizedPath = normalize(p)
+			return Promise.resolve({
+				isDirectory: vi.fn().mockReturnValue(rulesDirs.includes(normalizedPath)),
+				isFile: vi.fn().mockReturnValue(normalizedPath.endsWith("rule.txt")),
+			}) as any
+		})
+		readdirMock.mockImplementation((p) => {
+			const normalizedPath = normalize(p)
+			return Promise.resolve(
+				rulesDirs.includes(normalizedPath)
+					? [
+							{
+								name: "rule.txt",
+								isFile: () => true,
+								isSymbolicLink: () => false,
+								parentPath: normalizedPath,
+							},
+						]
+					: [],
+			) as any
+		})
+		readFileMock.mockImplementation((filePath: PathLike) => {
+			const normalizedPath = normalize(filePath)
+			if (normalizedPath === "/fake/path/.roo/rules-parent-mode/rule.txt") {
+				return Promise.resolve("parent mode rule")
+			}
+			if (normalizedPath === "/fake/path/.roo/rules-test-mode/rule.txt") {
+				return Promise.resolve("child mode rule")
+			}
+			return Promise.reject({ code: "ENOENT" })
+		})
+
+		const result = await addCustomInstructions("", "", "/fake/path", "test-mode", {
+			inheritedModes: ["parent-mode"],
+		}).finally(() => {
+			// The following tests rely on the implementations of the previous ones.
+			statMock.mockImplementation(statImplementation!)
+			readdirMock.mockImplementation(readdirImplementation!)
+			readFileMock.mockImplementation(readFileImplementation!)
+		})
+
+		expect(result).toContain("parent mode rule")
+		expect(result).toContain("child mode rule")
+		expect(result.indexOf("parent mode rule")).toBeLessThan(result.indexOf("child mode rule"))
+	})
+
 	it("should fall back to .roorules-test-mode when .roo/rules-test-mode/ does not exist", async () => {
 		// Simulate .roo/rules-test-mode directory does not exist
 		statMock.mockRejectedValueOnce({ code: "ENOENT" })
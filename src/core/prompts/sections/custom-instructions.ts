@@ -355,6 +355,8 @@ export async function addCustomInstructions(
 		rooIgnoreInstructions?: string
 		shell?: string
 		settings?: SystemPromptSettings
+		// The modes that the mode extends, whose rules are loaded before its own.
+		inheritedModes?: string[]
 	} = {},
 ): Promise<string> {
 	const sections = []
@@ -401,14 +403,19 @@ export async function addCustomInstructions(
 			? await getAllRooDirectoriesForCwd(cwd)
 			: getRooDirectoriesForCwd(cwd)
 
-		// Check for .roo/rules-${mode}/ directories in order (global, project-local, and optionally subfolders)
-		for (const rooDir of rooDirectories) {
-			const modeRulesDir = path.join(rooDir, `rules-${mode}`)
-			if (await directoryExists(modeRulesDir)) {
-				const files = await readTextFilesFromDirectory(modeRulesDir)
-				if (files.length > 0) {
-					const content = formatDirectoryContent(files, cwd)
-					modeRules.push(content)
+		const ruleModes = [...(options.inheritedModes ?? []), mode]
+
+		// Check for .roo/rules-${mode}/ directories in order (global, project-local, and optionally subfolders),
+		// after the ones of the modes that the mode extends
+		for (const ruleMode of ruleModes) {
+			for (const rooDir of rooDirectories) {
+				const modeRulesDir = path.join(rooDir, `rules-${ruleMode}`)
+				if (await directoryExists(modeRulesDir)) {
+					const files = await readTextFilesFromDirectory(modeRulesDir)
+					if (files.length > 0) {
+						const content = formatDirectoryContent(files, cwd)
+						modeRules.push(content)
+					}
 				}
 			}
 		}
@@ -416,7 +423,7 @@ export async function addCustomInstructions(
 		// If we found mode-specific rules in .roo/rules-${mode}/ directories, use them
 		if (modeRules.length > 0) {
 			modeRuleContent = "\n" + modeRules.join("\n\n")
-			usedRuleFile = `rules-${mode} directories`
+			usedRuleFile = `${ruleModes.map((ruleMode) => `rules-${ruleMode}`).join(", ")} directories`
 		} else {
 			// Fall back to existing behavior for legacy files
 			const rooModeRuleFile = `.roorules-${mode}`
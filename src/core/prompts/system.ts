@@ -11,7 +11,15 @@ import {
 } from "@roo-code/types"
 import { customToolRegistry, formatXml } from "@roo-code/core"
 
-import { Mode, modes, defaultModeSlug, getModeBySlug, getGroupName, getModeSelection } from "../../shared/modes"
+import {
+	Mode,
+	modes,
+	defaultModeSlug,
+	getModeBySlug,
+	getGroupName,
+	getModeSelection,
+	getInheritedModeSlugs,
+} from "../../shared/modes"
 import { DiffStrategy } from "../../shared/tools"
 import { formatLanguage } from "../../shared/language"
 import { isEmpty } from "../../utils/object"
@@ -192,6 +200,7 @@ ${await addCustomInstructions(baseInstructions, globalCustomInstructions || "",
 	rooIgnoreInstructions,
 	settings,
 	shell,
+	inheritedModes: getInheritedModeSlugs(mode, customModeConfigs),
 })}`
 
 	return basePrompt
@@ -259,6 +268,7 @@ export const SYSTEM_PROMPT = async (
 				rooIgnoreInstructions,
 				settings,
 				shell,
+				inheritedModes: getInheritedModeSlugs(mode, customModes),
 			},
 		)
 
@@ -417,6 +417,42 @@ describe("filterNativeToolsForMode", () => {
 		const toolNames = filtered.map((t) => ("function" in t ? t.function.name : ""))
 		expect(toolNames).not.toContain("run_slash_command")
 	})
+	it("should exclude the language server tools when language servers do not run", () => {
+		const codeMode: ModeConfig = {
+			slug: "code",
+			name: "Code",
+			roleDefinition: "Test",
+			groups: ["read", "edit", "browser", "command", "mcp"] as const,
+		}
+
+		const mockLanguageServerTools: OpenAI.Chat.ChatCompletionTool[] = ["navigate_symbol", "rename_symbol"].map(
+			(name) => ({
+				type: "function",
+				function: {
+					name,
+					description: name,
+					parameters: {},
+				},
+			}),
+		)
+
+		const toolsWithLanguageServer = [...mockNativeTools, ...mockLanguageServerTools]
+		const getToolNames = (settings: Record<string, any>) =>
+			filterNativeToolsForMode(
+				toolsWithLanguageServer,
+				"code",
+				[codeMode],
+				{},
+				undefined,
+				settings,
+				undefined,
+			).map((t) => ("function" in t ? t.function.name : ""))
+
+		expect(getToolNames({})).toEqual(expect.arrayContaining(["navigate_symbol", "rename_symbol"]))
+		expect(getToolNames({ languageServerToolsEnabled: false })).toEqual(
+			mockNativeTools.map((t) => ("function" in t ? t.function.name : "")),
+		)
+	})
 })
 
 describe("filterMcpToolsForMode", () => {
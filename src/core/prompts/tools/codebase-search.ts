@@ -8,12 +8,14 @@ Description: Find files most relevant to the search query using semantic search.
 
 Parameters:
 - query: (required) The search query. Reuse the user's exact wording/question format unless there's a clear reason not to.
-- path: (optional) Limit search to specific subdirectory (relative to the current workspace directory ${args.cwd}). Leave empty for entire workspace.
+- path: (optional) Limit search to specific subdirectory (relative to the current workspace directory ${args.cwd}). Leave empty for entire workspace. In multi-root workspaces all workspace folders are searched and each result names its folder; start the path with a folder name to search only that folder.
+- mode: (optional) Ranking strategy. "semantic" (default) ranks by meaning, "keyword" ranks by exact term matches, "hybrid" fuses both. Use "hybrid" or "keyword" when the query contains exact identifiers, error codes or other literal strings. Each result reports what it was matched by.
 
 Usage:
 <codebase_search>
 <query>Your natural language query here</query>
 <path>Optional subdirectory path</path>
+<mode>Optional: semantic, keyword or hybrid</mode>
 </codebase_search>
 
 Example: Searching for user authentication code
@@ -27,5 +29,11 @@ Example: Searching entire workspace
 <query>database connection pooling</query>
 <path></path>
 </codebase_search>
+
+Example: Searching for an exact identifier
+<codebase_search>
+<query>getCheckpointService</query>
+<mode>hybrid</mode>
+</codebase_search>
 `
 }
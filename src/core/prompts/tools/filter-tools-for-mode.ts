@@ -269,12 +269,14 @@ export function filterNativeToolsForMode(
 	)
 	allowedToolNames = customizedTools
 
-	// Conditionally exclude codebase_search if feature is disabled or not configured
+	// Conditionally exclude code index tools if feature is disabled or not configured
 	if (
 		!codeIndexManager ||
 		!(codeIndexManager.isFeatureEnabled && codeIndexManager.isFeatureConfigured && codeIndexManager.isInitialized)
 	) {
 		allowedToolNames.delete("codebase_search")
+		allowedToolNames.delete("find_definition")
+		allowedToolNames.delete("find_references")
 	}
 
 	// Conditionally exclude update_todo_list if disabled in settings
@@ -282,6 +284,12 @@ export function filterNativeToolsForMode(
 		allowedToolNames.delete("update_todo_list")
 	}
 
+	// Conditionally exclude the language server tools where no language servers run
+	if (settings?.languageServerToolsEnabled === false) {
+		allowedToolNames.delete("navigate_symbol")
+		allowedToolNames.delete("rename_symbol")
+	}
+
 	// Conditionally exclude generate_image if experiment is not enabled
 	if (!experiments?.imageGeneration) {
 		allowedToolNames.delete("generate_image")
@@ -0,0 +1,22 @@
+import { ToolArgs } from "./types"
+
+export function getFindDefinitionDescription(args: ToolArgs): string {
+	return `## find_definition
+Description: Find where a symbol (class, function, method, interface, type, etc.) is defined, using the symbol graph of the code index. Matches the exact symbol name rather than text, so it returns declarations only and not every mention. Use it to jump to the implementation of an identifier you have seen in the code.
+
+Parameters:
+- symbol: (required) The exact name of the symbol, without qualifiers (e.g. "CacheManager", not "services.CacheManager").
+- path: (optional) Limit results to a specific subdirectory (relative to the current workspace directory ${args.cwd}). Leave empty for entire workspace.
+
+Usage:
+<find_definition>
+<symbol>Symbol name here</symbol>
+<path>Optional subdirectory path</path>
+</find_definition>
+
+Example: Finding where a class is defined
+<find_definition>
+<symbol>CacheManager</symbol>
+</find_definition>
+`
+}
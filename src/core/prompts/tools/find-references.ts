@@ -0,0 +1,28 @@
+import { ToolArgs } from "./types"
+
+export function getFindReferencesDescription(args: ToolArgs): string {
+	return `## find_references
+Description: Find who uses a symbol, using the symbol graph of the code index: call sites (with the calling function), type references and imports of the symbol. When the symbol is a file path, lists the files that import that module instead. Use it before changing a function, type or module to trace the impact of the edit instead of grepping for its name.
+
+Parameters:
+- symbol: (required) The exact name of the symbol (e.g. "parseFile"), or a file path relative to the current workspace directory ${args.cwd} to find the files importing it.
+- path: (optional) Limit results to a specific subdirectory (relative to the current workspace directory ${args.cwd}). Leave empty for entire workspace.
+
+Usage:
+<find_references>
+<symbol>Symbol name or file path here</symbol>
+<path>Optional subdirectory path</path>
+</find_references>
+
+Example: Finding callers of a function
+<find_references>
+<symbol>parseFile</symbol>
+<path>src/services</path>
+</find_references>
+
+Example: Finding files that import a module
+<find_references>
+<symbol>src/services/code-index/cache-manager.ts</symbol>
+</find_references>
+`
+}
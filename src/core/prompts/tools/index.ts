@@ -24,6 +24,15 @@ import { getAccessMcpResourceDescription } from "./access-mcp-resource"
 import { getSwitchModeDescription } from "./switch-mode"
 import { getNewTaskDescription } from "./new-task"
 import { getCodebaseSearchDescription } from "./codebase-search"
+import { getFindDefinitionDescription } from "./find-definition"
+import { getFindReferencesDescription } from "./find-references"
+import { getNavigateSymbolDescription } from "./navigate-symbol"
+import { getRenameSymbolDescription } from "./rename-symbol"
+import { getStartProcessDescription } from "./start-process"
+import { getReadProcessOutputDescription } from "./read-process-output"
+import { getWaitForOutputDescription } from "./wait-for-output"
+import { getStopProcessDescription } from "./stop-process"
+import { getRunTestsDescription } from "./run-tests"
 import { getUpdateTodoListDescription } from "./update-todo-list"
 import { getRunSlashCommandDescription } from "./run-slash-command"
 import { getGenerateImageDescription } from "./generate-image"
@@ -31,6 +40,11 @@ import { getGenerateImageDescription } from "./generate-image"
 // Map of tool names to their description functions
 const toolDescriptionMap: Record<string, (args: ToolArgs) => string | undefined> = {
 	execute_command: (args) => getExecuteCommandDescription(args),
+	start_process: (args) => getStartProcessDescription(args),
+	read_process_output: () => getReadProcessOutputDescription(),
+	wait_for_output: () => getWaitForOutputDescription(),
+	stop_process: () => getStopProcessDescription(),
+	run_tests: (args) => getRunTestsDescription(args),
 	read_file: (args) => getReadFileDescription(args),
 	fetch_instructions: (args) => getFetchInstructionsDescription(args.settings?.enableMcpServerCreation),
 	write_to_file: (args) => getWriteToFileDescription(args),
@@ -43,6 +57,10 @@ const toolDescriptionMap: Record<string, (args: ToolArgs) => string | undefined>
 	use_mcp_tool: (args) => getUseMcpToolDescription(args),
 	access_mcp_resource: (args) => getAccessMcpResourceDescription(args),
 	codebase_search: (args) => getCodebaseSearchDescription(args),
+	find_definition: (args) => getFindDefinitionDescription(args),
+	find_references: (args) => getFindReferencesDescription(args),
+	navigate_symbol: (args) => getNavigateSymbolDescription(args),
+	rename_symbol: (args) => getRenameSymbolDescription(args),
 	switch_mode: () => getSwitchModeDescription(),
 	new_task: (args) => getNewTaskDescription(args),
 	apply_diff: (args) =>
@@ -110,12 +128,14 @@ export function getToolDescriptionsForMode(
 	// Add always available tools
 	ALWAYS_AVAILABLE_TOOLS.forEach((tool) => tools.add(tool))
 
-	// Conditionally exclude codebase_search if feature is disabled or not configured
+	// Conditionally exclude code index tools if feature is disabled or not configured
 	if (
 		!codeIndexManager ||
 		!(codeIndexManager.isFeatureEnabled && codeIndexManager.isFeatureConfigured && codeIndexManager.isInitialized)
 	) {
 		tools.delete("codebase_search")
+		tools.delete("find_definition")
+		tools.delete("find_references")
 	}
 
 	// Conditionally exclude update_todo_list if disabled in settings
@@ -123,6 +143,12 @@ export function getToolDescriptionsForMode(
 		tools.delete("update_todo_list")
 	}
 
+	// Conditionally exclude the language server tools where no language servers run
+	if (settings?.languageServerToolsEnabled === false) {
+		tools.delete("navigate_symbol")
+		tools.delete("rename_symbol")
+	}
+
 	// Conditionally exclude generate_image if experiment is not enabled
 	if (!experiments?.imageGeneration) {
 		tools.delete("generate_image")
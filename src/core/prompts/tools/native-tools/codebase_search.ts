@@ -6,18 +6,21 @@ const CODEBASE_SEARCH_DESCRIPTION = `Find files most relevant to the search quer
 
 Parameters:
 - query: (required) The search query. Reuse the user's exact wording/question format unless there's a clear reason not to.
-- path: (optional) Limit search to specific subdirectory (relative to the current workspace directory). Leave empty for entire workspace.
+- path: (optional) Limit search to specific subdirectory (relative to the current workspace directory). Leave empty for entire workspace. In multi-root workspaces all workspace folders are searched and each result names its folder; start the path with a folder name to search only that folder.
+- mode: (optional) Ranking strategy. "semantic" (default) ranks by meaning, "keyword" ranks by exact term matches, "hybrid" fuses both. Use "hybrid" or "keyword" when the query contains exact identifiers, error codes or other literal strings. Each result reports what it was matched by.
 
 Example: Searching for user authentication code
-{ "query": "User login and password hashing", "path": "src/auth" }
+{ "query": "User login and password hashing", "path": "src/auth", "mode": null }
 
-Example: Searching entire workspace
-{ "query": "database connection pooling", "path": null }`
+Example: Searching entire workspace for an exact identifier
+{ "query": "getCheckpointService", "path": null, "mode": "hybrid" }`
 
 const QUERY_PARAMETER_DESCRIPTION = `Meaning-based search query describing the information you need`
 
 const PATH_PARAMETER_DESCRIPTION = `Optional subdirectory (relative to the workspace) to limit the search scope`
 
+const MODE_PARAMETER_DESCRIPTION = `Optional ranking strategy: semantic (default), keyword, or hybrid`
+
 export default {
 	type: "function",
 	function: {
@@ -35,8 +38,13 @@ export default {
 					type: ["string", "null"],
 					description: PATH_PARAMETER_DESCRIPTION,
 				},
+				mode: {
+					type: ["string", "null"],
+					enum: ["semantic", "keyword", "hybrid", null],
+					description: MODE_PARAMETER_DESCRIPTION,
+				},
 			},
-			required: ["query", "path"],
+			required: ["query", "path", "mode"],
 			additionalProperties: false,
 		},
 	},
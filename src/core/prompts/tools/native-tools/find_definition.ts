@@ -0,0 +1,38 @@
+import type OpenAI from "openai"
+
+const FIND_DEFINITION_DESCRIPTION = `Find where a symbol (class, function, method, interface, type, etc.) is defined, using the symbol graph of the code index. Matches the exact symbol name rather than text, so it returns declarations only and not every mention. Use it to jump to the implementation of an identifier you have seen in the code.
+
+Parameters:
+- symbol: (required) The exact name of the symbol, without qualifiers (e.g. "CacheManager", not "services.CacheManager").
+- path: (optional) Limit results to a specific subdirectory (relative to the workspace). Leave empty for entire workspace.
+
+Example: Finding where a class is defined
+{ "symbol": "CacheManager", "path": null }`
+
+const SYMBOL_PARAMETER_DESCRIPTION = `Exact name of the symbol to look up`
+
+const PATH_PARAMETER_DESCRIPTION = `Optional subdirectory (relative to the workspace) to limit the results to`
+
+export default {
+	type: "function",
+	function: {
+		name: "find_definition",
+		description: FIND_DEFINITION_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				symbol: {
+					type: "string",
+					description: SYMBOL_PARAMETER_DESCRIPTION,
+				},
+				path: {
+					type: ["string", "null"],
+					description: PATH_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["symbol", "path"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
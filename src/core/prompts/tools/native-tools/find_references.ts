@@ -0,0 +1,41 @@
+import type OpenAI from "openai"
+
+const FIND_REFERENCES_DESCRIPTION = `Find who uses a symbol, using the symbol graph of the code index: call sites (with the calling function), type references and imports of the symbol. When the symbol is a file path, lists the files that import that module instead. Use it before changing a function, type or module to trace the impact of the edit instead of grepping for its name.
+
+Parameters:
+- symbol: (required) The exact name of the symbol (e.g. "parseFile"), or a file path relative to the workspace to find the files importing it.
+- path: (optional) Limit results to a specific subdirectory (relative to the workspace). Leave empty for entire workspace.
+
+Example: Finding callers of a function
+{ "symbol": "parseFile", "path": "src/services" }
+
+Example: Finding files that import a module
+{ "symbol": "src/services/code-index/cache-manager.ts", "path": null }`
+
+const SYMBOL_PARAMETER_DESCRIPTION = `Exact name of the symbol, or a workspace-relative file path to find its importers`
+
+const PATH_PARAMETER_DESCRIPTION = `Optional subdirectory (relative to the workspace) to limit the results to`
+
+export default {
+	type: "function",
+	function: {
+		name: "find_references",
+		description: FIND_REFERENCES_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				symbol: {
+					type: "string",
+					description: SYMBOL_PARAMETER_DESCRIPTION,
+				},
+				path: {
+					type: ["string", "null"],
+					description: PATH_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["symbol", "path"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
@@ -9,17 +9,26 @@ import browserAction from "./browser_action"
 import codebaseSearch from "./codebase_search"
 import executeCommand from "./execute_command"
 import fetchInstructions from "./fetch_instructions"
+import findDefinition from "./find_definition"
+import findReferences from "./find_references"
 import generateImage from "./generate_image"
 import listFiles from "./list_files"
+import navigateSymbol from "./navigate_symbol"
 import newTask from "./new_task"
+import readProcessOutput from "./read_process_output"
 import { createReadFileTool, type ReadFileToolOptions } from "./read_file"
+import renameSymbol from "./rename_symbol"
 import runSlashCommand from "./run_slash_command"
+import runTests from "./run_tests"
 import searchAndReplace from "./search_and_replace"
 import searchReplace from "./search_replace"
 import edit_file from "./edit_file"
 import searchFiles from "./search_files"
+import startProcess from "./start_process"
+import stopProcess from "./stop_process"
 import switchMode from "./switch_mode"
 import updateTodoList from "./update_todo_list"
+import waitForOutput from "./wait_for_output"
 import writeToFile from "./write_to_file"
 
 export { getMcpServerTools } from "./mcp_server"
@@ -64,17 +73,26 @@ export function getNativeTools(options: NativeToolsOptions = {}): OpenAI.Chat.Ch
 		codebaseSearch,
 		executeCommand,
 		fetchInstructions,
+		findDefinition,
+		findReferences,
 		generateImage,
 		listFiles,
+		navigateSymbol,
 		newTask,
 		createReadFileTool(readFileOptions),
+		readProcessOutput,
+		renameSymbol,
 		runSlashCommand,
+		runTests,
 		searchAndReplace,
 		searchReplace,
 		edit_file,
 		searchFiles,
+		startProcess,
+		stopProcess,
 		switchMode,
 		updateTodoList,
+		waitForOutput,
 		writeToFile,
 	] satisfies OpenAI.Chat.ChatCompletionTool[]
 }
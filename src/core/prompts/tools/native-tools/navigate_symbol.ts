@@ -0,0 +1,53 @@
+import type OpenAI from "openai"
+
+const NAVIGATE_SYMBOL_DESCRIPTION = `Ask the language servers of the editor about a symbol written in a file. Unlike searching by name, the language server resolves imports, overloads and scopes, so the results only contain the symbol itself. Definitions and references fall back to the code index when no language server answers.
+
+Parameters:
+- path: (required) The file where the symbol is written (relative to the workspace)
+- line: (required) The line number (starting at 1) where the symbol is written
+- symbol: (required) The name of the symbol as it is written on that line
+- action: (required) definition, references, hover (type and documentation), incoming_calls (the functions calling it) or outgoing_calls (the functions it calls)
+
+Example: Finding the callers of a method
+{ "path": "src/services/parser.ts", "line": 42, "symbol": "parseFile", "action": "incoming_calls" }`
+
+const PATH_PARAMETER_DESCRIPTION = `File where the symbol is written, relative to the workspace`
+
+const LINE_PARAMETER_DESCRIPTION = `Line number (starting at 1) where the symbol is written`
+
+const SYMBOL_PARAMETER_DESCRIPTION = `Name of the symbol as it is written on that line`
+
+const ACTION_PARAMETER_DESCRIPTION = `What to ask the language server about the symbol`
+
+export default {
+	type: "function",
+	function: {
+		name: "navigate_symbol",
+		description: NAVIGATE_SYMBOL_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: PATH_PARAMETER_DESCRIPTION,
+				},
+				line: {
+					type: "integer",
+					description: LINE_PARAMETER_DESCRIPTION,
+				},
+				symbol: {
+					type: "string",
+					description: SYMBOL_PARAMETER_DESCRIPTION,
+				},
+				action: {
+					type: "string",
+					enum: ["definition", "references", "hover", "incoming_calls", "outgoing_calls"],
+					description: ACTION_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["path", "line", "symbol", "action"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
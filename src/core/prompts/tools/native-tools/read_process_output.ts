@@ -0,0 +1,31 @@
+import type OpenAI from "openai"
+
+const READ_PROCESS_OUTPUT_DESCRIPTION = `Read the output that a background process started with start_process printed since it was last read, along with whether it is still running.
+
+Parameters:
+- process_id: (required) The ID of the process, as returned by start_process.
+
+Example: Reading the output of process 1
+{ "process_id": 1 }`
+
+const PROCESS_ID_PARAMETER_DESCRIPTION = `ID of the background process, as returned by start_process`
+
+export default {
+	type: "function",
+	function: {
+		name: "read_process_output",
+		description: READ_PROCESS_OUTPUT_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				process_id: {
+					type: "integer",
+					description: PROCESS_ID_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["process_id"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
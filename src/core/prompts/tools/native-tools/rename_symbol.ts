@@ -0,0 +1,52 @@
+import type OpenAI from "openai"
+
+const RENAME_SYMBOL_DESCRIPTION = `Rename a symbol across the workspace with the rename support of the language server. Only the symbol and its real references change, including in other files, so prefer it to editing every occurrence by hand. The user approves the changes of all files at once. When no language server can rename the symbol, use the file editing tools instead.
+
+Parameters:
+- path: (required) The file where the symbol is written (relative to the workspace)
+- line: (required) The line number (starting at 1) where the symbol is written
+- symbol: (required) The current name of the symbol as it is written on that line
+- new_name: (required) The new name of the symbol
+
+Example: Renaming a function
+{ "path": "src/services/parser.ts", "line": 42, "symbol": "parseFile", "new_name": "parseSourceFile" }`
+
+const PATH_PARAMETER_DESCRIPTION = `File where the symbol is written, relative to the workspace`
+
+const LINE_PARAMETER_DESCRIPTION = `Line number (starting at 1) where the symbol is written`
+
+const SYMBOL_PARAMETER_DESCRIPTION = `Current name of the symbol as it is written on that line`
+
+const NEW_NAME_PARAMETER_DESCRIPTION = `New name of the symbol`
+
+export default {
+	type: "function",
+	function: {
+		name: "rename_symbol",
+		description: RENAME_SYMBOL_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: PATH_PARAMETER_DESCRIPTION,
+				},
+				line: {
+					type: "integer",
+					description: LINE_PARAMETER_DESCRIPTION,
+				},
+				symbol: {
+					type: "string",
+					description: SYMBOL_PARAMETER_DESCRIPTION,
+				},
+				new_name: {
+					type: "string",
+					description: NEW_NAME_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["path", "line", "symbol", "new_name"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
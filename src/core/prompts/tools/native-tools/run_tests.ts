@@ -0,0 +1,53 @@
+import type OpenAI from "openai"
+
+const RUN_TESTS_DESCRIPTION = `Run the tests of the project and get a structured list of the passed, failed and skipped tests, with the file, line and message of each failure. The test framework (vitest, jest, pytest, go, cargo) is detected from the project unless it is given. Prefer this tool over execute_command to run tests, and run only the tests that matter with path and pattern. Report the counts it returns as they are instead of estimating them.
+
+Parameters:
+- framework: (optional) The test framework: vitest, jest, pytest, go or cargo. Detected from the project by default.
+- path: (optional) The test file or directory to run, relative to the working directory. Runs all the tests by default. Ignored by cargo.
+- pattern: (optional) Only run the tests whose name matches this pattern.
+- cwd: (optional) The working directory of the project to test
+
+Example: Running the tests of one file
+{ "framework": null, "path": "src/utils/__tests__/math.spec.ts", "pattern": null, "cwd": null }`
+
+const FRAMEWORK_PARAMETER_DESCRIPTION = `Optional test framework, detected from the project when null`
+
+const PATH_PARAMETER_DESCRIPTION = `Optional test file or directory to run, relative to the working directory`
+
+const PATTERN_PARAMETER_DESCRIPTION = `Optional pattern of the names of the tests to run`
+
+const CWD_PARAMETER_DESCRIPTION = `Optional working directory of the project to test, relative or absolute`
+
+export default {
+	type: "function",
+	function: {
+		name: "run_tests",
+		description: RUN_TESTS_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				framework: {
+					type: ["string", "null"],
+					enum: ["vitest", "jest", "pytest", "go", "cargo", null],
+					description: FRAMEWORK_PARAMETER_DESCRIPTION,
+				},
+				path: {
+					type: ["string", "null"],
+					description: PATH_PARAMETER_DESCRIPTION,
+				},
+				pattern: {
+					type: ["string", "null"],
+					description: PATTERN_PARAMETER_DESCRIPTION,
+				},
+				cwd: {
+					type: ["string", "null"],
+					description: CWD_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["framework", "path", "pattern", "cwd"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
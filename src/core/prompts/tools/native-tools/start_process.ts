@@ -0,0 +1,38 @@
+import type OpenAI from "openai"
+
+const START_PROCESS_DESCRIPTION = `Start a long-running command in the background, like a dev server, a file watcher or a database, and return right away with its process ID. Unlike execute_command, the task goes on while the process runs. Use wait_for_output to wait until the process is ready, read_process_output to read what it printed, and stop_process to stop it when you no longer need it. All the background processes of the task are stopped when the task ends. Use execute_command for commands that finish on their own.
+
+Parameters:
+- command: (required) The command to start. This should be valid for the current operating system.
+- cwd: (optional) The working directory to start the command in
+
+Example: Starting a dev server
+{ "command": "npm run dev", "cwd": null }`
+
+const COMMAND_PARAMETER_DESCRIPTION = `Shell command to start in the background`
+
+const CWD_PARAMETER_DESCRIPTION = `Optional working directory for the command, relative or absolute`
+
+export default {
+	type: "function",
+	function: {
+		name: "start_process",
+		description: START_PROCESS_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				command: {
+					type: "string",
+					description: COMMAND_PARAMETER_DESCRIPTION,
+				},
+				cwd: {
+					type: ["string", "null"],
+					description: CWD_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["command", "cwd"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
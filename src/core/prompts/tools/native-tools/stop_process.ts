@@ -0,0 +1,31 @@
+import type OpenAI from "openai"
+
+const STOP_PROCESS_DESCRIPTION = `Stop a background process started with start_process, along with the processes that it started.
+
+Parameters:
+- process_id: (required) The ID of the process, as returned by start_process.
+
+Example: Stopping process 1
+{ "process_id": 1 }`
+
+const PROCESS_ID_PARAMETER_DESCRIPTION = `ID of the background process, as returned by start_process`
+
+export default {
+	type: "function",
+	function: {
+		name: "stop_process",
+		description: STOP_PROCESS_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				process_id: {
+					type: "integer",
+					description: PROCESS_ID_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["process_id"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
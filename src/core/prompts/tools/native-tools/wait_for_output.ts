@@ -0,0 +1,45 @@
+import type OpenAI from "openai"
+
+const WAIT_FOR_OUTPUT_DESCRIPTION = `Wait until the output of a background process started with start_process matches a regular expression, for example until a dev server reports that it is ready. Only output that has not been read yet is searched. Returns when the pattern matches, when the process ends, or when the timeout expires, with the output up to the match.
+
+Parameters:
+- process_id: (required) The ID of the process, as returned by start_process.
+- pattern: (required) The regular expression to wait for (JavaScript syntax).
+- timeout: (optional) The maximum number of seconds to wait (default: 60, maximum: 600).
+
+Example: Waiting for a dev server to listen on a port
+{ "process_id": 1, "pattern": "(ready|listening) on .*:\\\\d+", "timeout": 120 }`
+
+const PROCESS_ID_PARAMETER_DESCRIPTION = `ID of the background process, as returned by start_process`
+
+const PATTERN_PARAMETER_DESCRIPTION = `Regular expression to wait for in the output`
+
+const TIMEOUT_PARAMETER_DESCRIPTION = `Optional maximum number of seconds to wait, 60 by default`
+
+export default {
+	type: "function",
+	function: {
+		name: "wait_for_output",
+		description: WAIT_FOR_OUTPUT_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				process_id: {
+					type: "integer",
+					description: PROCESS_ID_PARAMETER_DESCRIPTION,
+				},
+				pattern: {
+					type: "string",
+					description: PATTERN_PARAMETER_DESCRIPTION,
+				},
+				timeout: {
+					type: ["integer", "null"],
+					description: TIMEOUT_PARAMETER_DESCRIPTION,
+				},
+			},
+			required: ["process_id", "pattern", "timeout"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
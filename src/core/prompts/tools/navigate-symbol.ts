@@ -0,0 +1,34 @@
+import { ToolArgs } from "./types"
+
+export function getNavigateSymbolDescription(args: ToolArgs): string {
+	return `## navigate_symbol
+Description: Ask the language servers of the editor about a symbol written in a file. Unlike searching by name, the language server resolves imports, overloads and scopes, so the results only contain the symbol itself. Definitions and references fall back to the code index when no language server answers.
+
+Parameters:
+- path: (required) The file where the symbol is written (relative to the current workspace directory ${args.cwd})
+- line: (required) The line number (starting at 1) where the symbol is written
+- symbol: (required) The name of the symbol as it is written on that line
+- action: (required) One of:
+  - definition: where the symbol is defined
+  - references: every place that uses the symbol
+  - hover: the type and documentation of the symbol
+  - incoming_calls: the functions that call the function or method
+  - outgoing_calls: the functions that the function or method calls
+
+Usage:
+<navigate_symbol>
+<path>File path here</path>
+<line>Line number here</line>
+<symbol>Symbol name here</symbol>
+<action>definition</action>
+</navigate_symbol>
+
+Example: Finding the callers of a method
+<navigate_symbol>
+<path>src/services/parser.ts</path>
+<line>42</line>
+<symbol>parseFile</symbol>
+<action>incoming_calls</action>
+</navigate_symbol>
+`
+}
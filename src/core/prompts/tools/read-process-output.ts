@@ -0,0 +1,15 @@
+export function getReadProcessOutputDescription(): string {
+	return `## read_process_output
+Description: Read the output that a background process started with start_process printed since it was last read, along with whether it is still running.
+Parameters:
+- process_id: (required) The ID of the process, as returned by start_process.
+Usage:
+<read_process_output>
+<process_id>Process ID here</process_id>
+</read_process_output>
+
+Example: Reading the output of process 1
+<read_process_output>
+<process_id>1</process_id>
+</read_process_output>`
+}
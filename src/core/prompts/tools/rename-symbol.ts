@@ -0,0 +1,29 @@
+import { ToolArgs } from "./types"
+
+export function getRenameSymbolDescription(args: ToolArgs): string {
+	return `## rename_symbol
+Description: Rename a symbol across the workspace with the rename support of the language server. Only the symbol and its real references change, including in other files, so prefer it to editing every occurrence by hand. The user approves the changes of all files at once. When no language server can rename the symbol, use the file editing tools instead.
+
+Parameters:
+- path: (required) The file where the symbol is written (relative to the current workspace directory ${args.cwd})
+- line: (required) The line number (starting at 1) where the symbol is written
+- symbol: (required) The current name of the symbol as it is written on that line
+- new_name: (required) The new name of the symbol
+
+Usage:
+<rename_symbol>
+<path>File path here</path>
+<line>Line number here</line>
+<symbol>Current name here</symbol>
+<new_name>New name here</new_name>
+</rename_symbol>
+
+Example: Renaming a function
+<rename_symbol>
+<path>src/services/parser.ts</path>
+<line>42</line>
+<symbol>parseFile</symbol>
+<new_name>parseSourceFile</new_name>
+</rename_symbol>
+`
+}
@@ -0,0 +1,23 @@
+import { ToolArgs } from "./types"
+
+export function getRunTestsDescription(args: ToolArgs): string {
+	return `## run_tests
+Description: Run the tests of the project and get a structured list of the passed, failed and skipped tests, with the file, line and message of each failure. The test framework (vitest, jest, pytest, go, cargo) is detected from the project unless it is given. Prefer this tool over execute_command to run tests, and run only the tests that matter with path and pattern. Report the counts it returns as they are instead of estimating them.
+Parameters:
+- framework: (optional) The test framework: vitest, jest, pytest, go or cargo. Detected from the project by default.
+- path: (optional) The test file or directory to run, relative to the working directory. Runs all the tests by default. Ignored by cargo.
+- pattern: (optional) Only run the tests whose name matches this pattern.
+- cwd: (optional) The working directory of the project to test (default: ${args.cwd})
+Usage:
+<run_tests>
+<framework>Test framework (optional)</framework>
+<path>Test file or directory (optional)</path>
+<pattern>Test name pattern (optional)</pattern>
+<cwd>Working directory path (optional)</cwd>
+</run_tests>
+
+Example: Running the tests of one file
+<run_tests>
+<path>src/utils/__tests__/math.spec.ts</path>
+</run_tests>`
+}
@@ -0,0 +1,19 @@
+import { ToolArgs } from "./types"
+
+export function getStartProcessDescription(args: ToolArgs): string {
+	return `## start_process
+Description: Start a long-running command in the background, like a dev server, a file watcher or a database, and return right away with its process ID. Unlike execute_command, the task goes on while the process runs. Use wait_for_output to wait until the process is ready, read_process_output to read what it printed, and stop_process to stop it when you no longer need it. All the background processes of the task are stopped when the task ends. Use execute_command for commands that finish on their own.
+Parameters:
+- command: (required) The command to start. This should be valid for the current operating system.
+- cwd: (optional) The working directory to start the command in (default: ${args.cwd})
+Usage:
+<start_process>
+<command>Your command here</command>
+<cwd>Working directory path (optional)</cwd>
+</start_process>
+
+Example: Starting a dev server
+<start_process>
+<command>npm run dev</command>
+</start_process>`
+}
@@ -0,0 +1,15 @@
+export function getStopProcessDescription(): string {
+	return `## stop_process
+Description: Stop a background process started with start_process, along with the processes that it started.
+Parameters:
+- process_id: (required) The ID of the process, as returned by start_process.
+Usage:
+<stop_process>
+<process_id>Process ID here</process_id>
+</stop_process>
+
+Example: Stopping process 1
+<stop_process>
+<process_id>1</process_id>
+</stop_process>`
+}
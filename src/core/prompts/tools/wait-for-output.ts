@@ -0,0 +1,21 @@
+export function getWaitForOutputDescription(): string {
+	return `## wait_for_output
+Description: Wait until the output of a background process started with start_process matches a regular expression, for example until a dev server reports that it is ready. Only output that has not been read yet is searched. Returns when the pattern matches, when the process ends, or when the timeout expires, with the output up to the match.
+Parameters:
+- process_id: (required) The ID of the process, as returned by start_process.
+- pattern: (required) The regular expression to wait for (JavaScript syntax).
+- timeout: (optional) The maximum number of seconds to wait (default: 60, maximum: 600).
+Usage:
+<wait_for_output>
+<process_id>Process ID here</process_id>
+<pattern>Regular expression here</pattern>
+<timeout>Seconds (optional)</timeout>
+</wait_for_output>
+
+Example: Waiting for a dev server to listen on a port
+<wait_for_output>
+<process_id>1</process_id>
+<pattern>(ready|listening) on .*:\\d+</pattern>
+<timeout>120</timeout>
+</wait_for_output>`
+}
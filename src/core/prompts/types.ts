@@ -7,6 +7,8 @@ export interface SystemPromptSettings {
 	maxConcurrentFileReads: number
 	todoListEnabled: boolean
 	browserToolEnabled?: boolean
+	/** When false, no language servers run, e.g. in the CLI, so the tools that need them are left out */
+	languageServerToolsEnabled?: boolean
 	useAgentRules: boolean
 	/** When true, recursively discover and load .roo/rules from subdirectories */
 	enableSubfolderRules?: boolean
@@ -0,0 +1,150 @@
+// npx vitest run core/task-persistence/__tests__/taskSearchIndex.spec.ts
+
+import * as os from "os"
+import * as path from "path"
+import * as fs from "fs/promises"
+
+import type { ClineMessage } from "@roo-code/types"
+
+import {
+	flushTaskSearchIndex,
+	removeTasksFromSearchIndex,
+	resetTaskSearchIndexes,
+	scheduleTaskSearchIndexUpdate,
+	searchTaskHistory,
+	tokenize,
+} from "../taskSearchIndex"
+
+const say = (text: string): ClineMessage => ({ ts: 1, type: "say", say: "text", text })
+const tool = (tool: Record<string, unknown>): ClineMessage => ({
+	ts: 1,
+	type: "ask",
+	ask: "tool",
+	text: JSON.stringify(tool),
+})
+
+describe("taskSearchIndex", () => {
+	let globalStoragePath: string
+
+	const writeTask = async (taskId: string, messages: ClineMessage[], apiMessages: unknown[] = []) => {
+		const taskDir = path.join(globalStoragePath, "tasks", taskId)
+		await fs.mkdir(taskDir, { recursive: true })
+		await fs.writeFile(path.join(taskDir, "ui_messages.json"), JSON.stringify(messages))
+		await fs.writeFile(path.join(taskDir, "api_conversation_history.json"), JSON.stringify(apiMessages))
+	}
+
+	const search = (query: string, taskIds: string[], fileFilter?: string) =>
+		searchTaskHistory({ query, fileFilter, taskIds, globalStoragePath })
+
+	const readLog = async () =>
+		(await fs.readFile(path.join(globalStoragePath, "task_search_index.jsonl"), "utf8"))
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line))
+
+	beforeEach(async () => {
+		resetTaskSearchIndexes()
+		globalStoragePath = await fs.mkdtemp(path.join(os.tmpdir(), "task-search-"))
+
+		await writeTask("task-1", [
+			say("Fix the login form"),
+			say("The validation of the password field rejects valid passwords."),
+			tool({ tool: "editedExistingFile", path: "src/components/LoginForm.tsx" }),
+		])
+		await writeTask(
+			"task-2",
+			[say("Add dark mode"), tool({ tool: "readFile", path: "src/theme.ts" })],
+			[
+				{
+					role: "assistant",
+					content: [{ type: "text", text: "The theme tokens live in a password-less store." }],
+				},
+			],
+		)
+	})
+
+	afterEach(async () => {
+		resetTaskSearchIndexes()
+		await fs.rm(globalStoragePath, { recursive: true, force: true })
+	})
+
+	it("splits camelCase words and CJK text into terms", () => {
+		expect(tokenize("useTaskSearch v2")).toEqual(["usetasksearch", "use", "task", "search", "v2"])
+		expect(tokenize("修复登录")).toEqual(["修复", "复登", "登录"])
+	})
+
+	it("finds tasks by text anywhere in their transcripts, with a snippet", async () => {
+		const results = await search("validation", ["task-1", "task-2"])
+
+		expect(results).toHaveLength(1)
+		expect(results[0].taskId).toBe("task-1")
+		expect(results[0].snippet).toBe("The validation of the password field rejects valid passwords.")
+	})
+
+	it("indexes the API conversation history and ranks by relevance", async () => {
+		const results = await search("passw", ["task-1", "task-2"])
+
+		expect(results.map((result) => result.taskId)).toEqual(["task-1", "task-2"])
+	})
+
+	it("requires every query term to match", async () => {
+		expect(await search("password theme", ["task-1", "task-2"])).toEqual([
+			expect.objectContaining({ taskId: "task-2" }),
+		])
+	})
+
+	it("filters by the files that a task touched", async () => {
+		expect(await search("", ["task-1", "task-2"], "loginform")).toEqual([
+			{ taskId: "task-1", score: 0, snippet: undefined },
+		])
+		expect(await search("password", ["task-1", "task-2"], "theme.ts")).toEqual([
+			expect.objectContaining({ taskId: "task-2" }),
+		])
+	})
+
+	it("persists the index and updates it when tasks save their messages", async () => {
+		await search("login", ["task-1", "task-2"])
+
+		const messages = [say("Fix the login form"), say("Switched to OAuth tokens instead.")]
+		await writeTask("task-1", messages)
+		scheduleTaskSearchIndexUpdate({ taskId: "task-1", messages, globalStoragePath })
+		await flushTaskSearchIndex(globalStoragePath)
+
+		// Only the updated task is appended to the log.
+		const log = await readLog()
+		expect(log.map((entry) => entry.taskId)).toEqual([undefined, "task-1", "task-2", "task-1"])
+		expect(log[3].terms.oauth).toBe(1)
+		expect(log[3].terms.validation).toBeUndefined()
+
+		resetTaskSearchIndexes()
+		expect((await search("oauth", ["task-1", "task-2"]))[0].taskId).toBe("task-1")
+		expect(await search("validation", ["task-1", "task-2"])).toEqual([])
+	})
+
+	it("drops deleted tasks from the index", async () => {
+		await search("login", ["task-1", "task-2"])
+		await removeTasksFromSearchIndex({ taskIds: ["task-1"], globalStoragePath })
+
+		expect((await readLog()).at(-1)).toEqual({ taskId: "task-1", removed: true })
+
+		resetTaskSearchIndexes()
+		expect(await search("login", ["task-2"])).toEqual([])
+		expect(await search("dark", ["task-2"])).toEqual([expect.objectContaining({ taskId: "task-2" })])
+	})
+	it("rewrites the log with the latest entries once most of them are outdated", async () => {
+		await search("login", ["task-1", "task-2"])
+
+		for (let i = 0; i < 100; i++) {
+			const messages = [say(`Fix the login form, attempt ${i}`)]
+			scheduleTaskSearchIndexUpdate({ taskId: "task-1", messages, globalStoragePath })
+			await flushTaskSearchIndex(globalStoragePath)
+		}
+
+		const log = await readLog()
+		expect(log.length).toBeLessThan(100)
+		expect(log[0]).toEqual({ version: 2 })
+
+		resetTaskSearchIndexes()
+		expect(await search("attempt", ["task-1", "task-2"])).toHaveLength(1)
+	})
+})
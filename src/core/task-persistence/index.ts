@@ -1,3 +1,4 @@
 export { type ApiMessage, readApiMessages, saveApiMessages } from "./apiMessages"
 export { readTaskMessages, saveTaskMessages } from "./taskMessages"
 export { taskMetadata } from "./taskMetadata"
+export { removeTasksFromSearchIndex, searchTaskHistory } from "./taskSearchIndex"
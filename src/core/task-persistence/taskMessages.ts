@@ -9,6 +9,8 @@ import { fileExistsAtPath } from "../../utils/fs"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import { getTaskDirectoryPath } from "../../utils/storage"
 
+import { scheduleTaskSearchIndexUpdate } from "./taskSearchIndex"
+
 export type ReadTaskMessagesOptions = {
 	taskId: string
 	globalStoragePath: string
@@ -39,4 +41,5 @@ export async function saveTaskMessages({ messages, taskId, globalStoragePath }:
 	const taskDir = await getTaskDirectoryPath(globalStoragePath, taskId)
 	const filePath = path.join(taskDir, GlobalFileNames.uiMessages)
 	await safeWriteJson(filePath, messages)
+	scheduleTaskSearchIndexUpdate({ messages, taskId, globalStoragePath })
 }
@@ -0,0 +1,534 @@
+import * as path from "path"
+import * as fs from "fs/promises"
+
+import type { ClineMessage, ClineSayTool, TaskSearchResult } from "@roo-code/types"
+
+import { fileExistsAtPath } from "../../utils/fs"
+
+import { GlobalFileNames } from "../../shared/globalFileNames"
+import { getStorageBasePath } from "../../utils/storage"
+
+import type { ApiMessage } from "./apiMessages"
+
+const INDEX_VERSION = 2
+
+// Tasks save their messages after every update, so the index is only rebuilt once they settle.
+const UPDATE_DELAY_MS = 2000
+
+const MAX_TERM_LENGTH = 64
+const SNIPPET_RADIUS = 60
+const DEFAULT_RESULT_LIMIT = 100
+
+// The log is rewritten with one entry per task once most of its entries are outdated.
+const MIN_COMPACTION_LENGTH = 100
+
+// The index is persisted as a log with a line for every indexing of a task, so that an update only
+// appends the tasks that changed. Loading the index replays the log.
+type TaskSearchIndexEntry =
+	| { taskId: string; terms: Record<string, number>; files: string[] }
+	| { taskId: string; removed: true }
+
+type TaskSearchIndexData = {
+	// Maps every term to the tasks that contain it and how often.
+	postings: Map<string, Map<string, number>>
+	// The terms of every indexed task, to remove it without scanning every term, and the files it read or edited.
+	tasks: Map<string, { terms: string[]; files: string[] }>
+	// The number of entries in the log, or undefined when there is no valid log to append to.
+	logLength: number | undefined
+}
+
+type TaskDocument = {
+	terms: Map<string, number>
+	files: string[]
+}
+
+const INDEXED_SAYS = new Set<string>([
+	"text",
+	"reasoning",
+	"completion_result",
+	"user_feedback",
+	"command_output",
+	"error",
+	"subtask_result",
+	"mcp_server_response",
+])
+
+const INDEXED_ASKS = new Set<string>(["followup", "command", "completion_result", "tool"])
+
+const FILE_TOOLS = new Set<ClineSayTool["tool"]>(["readFile", "editedExistingFile", "appliedDiff", "newFileCreated"])
+
+const CJK_REGEX = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+)/u
+const WORD_REGEX = /[\p{L}\p{N}]+/gu
+const ENVIRONMENT_DETAILS_REGEX = /<environment_details>[\s\S]*?<\/environment_details>/g
+
+const indexes = new Map<string, Promise<TaskSearchIndexData>>()
+const pendingUpdates = new Map<string, Map<string, ClineMessage[]>>()
+const updateTimers = new Map<string, ReturnType<typeof setTimeout>>()
+const queues = new Map<string, Promise<void>>()
+
+/**
+ * Splits text into lowercase search terms. Words are also split at camelCase boundaries, and
+ * scripts without spaces between words (Chinese, Japanese, Korean) are split into bigrams.
+ */
+export function tokenize(text: string): string[] {
+	const terms: string[] = []
+
+	text.split(CJK_REGEX).forEach((part, i) => {
+		// The capturing group puts the CJK runs at the odd indexes.
+		if (i % 2 === 1) {
+			const chars = Array.from(part)
+
+			if (chars.length === 1) {
+				terms.push(part)
+			}
+
+			for (let j = 0; j < chars.length - 1; j++) {
+				terms.push(chars[j] + chars[j + 1])
+			}
+
+			return
+		}
+
+		for (const [word] of part.matchAll(WORD_REGEX)) {
+			const subwords = word.split(/(?<=\p{Ll})(?=\p{Lu})|(?<=\p{L})(?=\p{N})|(?<=\p{N})(?=\p{L})/u)
+
+			for (const term of subwords.length > 1 ? [word, ...subwords] : [word]) {
+				if (term.length >= 2 && term.length <= MAX_TERM_LENGTH) {
+					terms.push(term.toLowerCase())
+				}
+			}
+		}
+	})
+
+	return terms
+}
+
+function parseTool(message: ClineMessage): ClineSayTool | undefined {
+	try {
+		return JSON.parse(message.text ?? "")
+	} catch {
+		return undefined
+	}
+}
+
+function getToolFiles(tool: ClineSayTool): string[] {
+	if (!FILE_TOOLS.has(tool.tool)) {
+		return []
+	}
+
+	return [
+		tool.path,
+		...(tool.batchFiles ?? []).map((file) => file.path),
+		...(tool.batchDiffs ?? []).map((diff) => diff.path),
+	].filter((file): file is string => !!file)
+}
+
+/**
+ * The searchable text of a message. Tool messages only contribute their paths and queries, since
+ * their content is file content rather than conversation.
+ */
+function getMessageText(message: ClineMessage): string {
+	if (message.type === "ask" ? !INDEXED_ASKS.has(message.ask!) : !INDEXED_SAYS.has(message.say!)) {
+		return ""
+	}
+
+	if (message.ask === "tool") {
+		const tool = parseTool(message)
+		return tool ? [...getToolFiles(tool), tool.query, tool.regex, tool.reason].filter(Boolean).join(" ") : ""
+	}
+
+	return message.text ?? ""
+}
+
+function getApiMessageText(message: ApiMessage): string {
+	const blocks = typeof message.content === "string" ? [{ type: "text", text: message.content }] : message.content
+
+	return (blocks ?? [])
+		.map((block) => (block.type === "text" ? block.text.replace(ENVIRONMENT_DETAILS_REGEX, "") : ""))
+		.join("\n")
+}
+
+function extractTaskDocument(messages: ClineMessage[], apiMessages: ApiMessage[]): TaskDocument {
+	const terms = new Map<string, number>()
+	const files = new Set<string>()
+
+	const addText = (text: string) => {
+		for (const term of tokenize(text)) {
+			terms.set(term, (terms.get(term) ?? 0) + 1)
+		}
+	}
+
+	for (const message of messages) {
+		addText(getMessageText(message))
+
+		if (message.ask === "tool") {
+			const tool = parseTool(message)
+			const toolFiles = tool ? getToolFiles(tool) : []
+			toolFiles.forEach((file) => files.add(file.replace(/\\/g, "/")))
+		}
+	}
+
+	apiMessages.forEach((message) => addText(getApiMessageText(message)))
+
+	return { terms, files: Array.from(files) }
+}
+
+async function getIndexPath(globalStoragePath: string): Promise<string> {
+	return path.join(await getStorageBasePath(globalStoragePath), GlobalFileNames.taskSearchIndex)
+}
+
+function loadIndex(globalStoragePath: string): Promise<TaskSearchIndexData> {
+	let index = indexes.get(globalStoragePath)
+
+	if (!index) {
+		index = (async () => {
+			const data: TaskSearchIndexData = { postings: new Map(), tasks: new Map(), logLength: undefined }
+
+			try {
+				const [header, ...lines] = (await fs.readFile(await getIndexPath(globalStoragePath), "utf8")).split(
+					"\n",
+				)
+
+				if (JSON.parse(header)?.version === INDEX_VERSION) {
+					data.logLength = 0
+
+					for (const line of lines.filter(Boolean)) {
+						try {
+							applyEntry(data, JSON.parse(line))
+							data.logLength++
+						} catch {
+							// A line that was cut short by a crash is skipped.
+						}
+					}
+				}
+			} catch {
+				// A missing or corrupt index is rebuilt from the task transcripts.
+			}
+
+			return data
+		})()
+
+		indexes.set(globalStoragePath, index)
+	}
+
+	return index
+}
+
+function getEntry(index: TaskSearchIndexData, taskId: string): TaskSearchIndexEntry {
+	const task = index.tasks.get(taskId)
+
+	if (!task) {
+		return { taskId, removed: true }
+	}
+
+	const terms = Object.fromEntries(task.terms.map((term) => [term, index.postings.get(term)!.get(taskId)!]))
+	return { taskId, terms, files: task.files }
+}
+
+function applyEntry(index: TaskSearchIndexData, entry: TaskSearchIndexEntry) {
+	removeTask(index, entry.taskId)
+
+	if (!("removed" in entry)) {
+		addTask(index, entry.taskId, { terms: new Map(Object.entries(entry.terms)), files: entry.files })
+	}
+}
+
+/**
+ * Appends the entries of the changed tasks to the log, or rewrites the log when it has none yet or
+ * when most of its entries are outdated.
+ */
+async function saveIndex(globalStoragePath: string, index: TaskSearchIndexData, taskIds: string[]) {
+	const indexPath = await getIndexPath(globalStoragePath)
+	const toLine = (data: object) => `${JSON.stringify(data)}\n`
+
+	if (
+		index.logLength !== undefined &&
+		index.logLength + taskIds.length <= Math.max(MIN_COMPACTION_LENGTH, index.tasks.size * 2)
+	) {
+		await fs.appendFile(indexPath, taskIds.map((taskId) => toLine(getEntry(index, taskId))).join(""))
+		index.logLength += taskIds.length
+		return
+	}
+
+	const entries = Array.from(index.tasks.keys(), (taskId) => toLine(getEntry(index, taskId)))
+	const tempPath = `${indexPath}.tmp`
+
+	await fs.mkdir(path.dirname(indexPath), { recursive: true })
+	await fs.writeFile(tempPath, toLine({ version: INDEX_VERSION }) + entries.join(""))
+	await fs.rename(tempPath, indexPath)
+	index.logLength = entries.length
+}
+
+function removeTask(index: TaskSearchIndexData, taskId: string): boolean {
+	const task = index.tasks.get(taskId)
+
+	if (!task) {
+		return false
+	}
+
+	for (const term of task.terms) {
+		const postings = index.postings.get(term)
+		postings?.delete(taskId)
+
+		if (postings?.size === 0) {
+			index.postings.delete(term)
+		}
+	}
+
+	index.tasks.delete(taskId)
+	return true
+}
+
+function addTask(index: TaskSearchIndexData, taskId: string, document: TaskDocument) {
+	for (const [term, count] of document.terms) {
+		let postings = index.postings.get(term)
+
+		if (!postings) {
+			postings = new Map()
+			index.postings.set(term, postings)
+		}
+
+		postings.set(taskId, count)
+	}
+
+	index.tasks.set(taskId, { terms: Array.from(document.terms.keys()), files: document.files })
+}
+
+// Unlike getTaskDirectoryPath, this does not create the directory of a task that was deleted meanwhile.
+async function getTaskFilePath(globalStoragePath: string, taskId: string, fileName: string): Promise<string> {
+	return path.join(await getStorageBasePath(globalStoragePath), "tasks", taskId, fileName)
+}
+
+async function readApiHistory(globalStoragePath: string, taskId: string): Promise<ApiMessage[]> {
+	const filePath = await getTaskFilePath(globalStoragePath, taskId, GlobalFileNames.apiConversationHistory)
+
+	try {
+		return (await fileExistsAtPath(filePath)) ? JSON.parse(await fs.readFile(filePath, "utf8")) : []
+	} catch {
+		return []
+	}
+}
+
+async function readUiMessages(globalStoragePath: string, taskId: string): Promise<ClineMessage[]> {
+	const filePath = await getTaskFilePath(globalStoragePath, taskId, GlobalFileNames.uiMessages)
+
+	try {
+		return (await fileExistsAtPath(filePath)) ? JSON.parse(await fs.readFile(filePath, "utf8")) : []
+	} catch {
+		return []
+	}
+}
+
+/**
+ * Runs the updates of an index one after another, so they never overwrite each other. An update
+ * returns the tasks that it changed.
+ */
+function enqueue(globalStoragePath: string, update: (index: TaskSearchIndexData) => Promise<string[]>) {
+	const queued = (queues.get(globalStoragePath) ?? Promise.resolve()).then(async () => {
+		try {
+			const index = await loadIndex(globalStoragePath)
+			const changedTaskIds = await update(index)
+
+			if (changedTaskIds.length > 0) {
+				await saveIndex(globalStoragePath, index, changedTaskIds)
+			}
+		} catch (error) {
+			console.error(
+				`[TaskSearchIndex] failed to update the search index: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+	})
+
+	queues.set(globalStoragePath, queued)
+	return queued
+}
+
+/**
+ * Indexes the latest messages of a task once it stops saving them for a moment.
+ */
+export function scheduleTaskSearchIndexUpdate({
+	taskId,
+	messages,
+	globalStoragePath,
+}: {
+	taskId: string
+	messages: ClineMessage[]
+	globalStoragePath: string
+}) {
+	const pending = pendingUpdates.get(globalStoragePath) ?? new Map<string, ClineMessage[]>()
+	pending.set(taskId, messages)
+	pendingUpdates.set(globalStoragePath, pending)
+
+	clearTimeout(updateTimers.get(globalStoragePath))
+	updateTimers.set(
+		globalStoragePath,
+		setTimeout(() => void flushTaskSearchIndex(globalStoragePath), UPDATE_DELAY_MS),
+	)
+}
+
+/**
+ * Indexes the scheduled updates right away and waits until the index is written.
+ */
+export function flushTaskSearchIndex(globalStoragePath: string): Promise<void> {
+	clearTimeout(updateTimers.get(globalStoragePath))
+	updateTimers.delete(globalStoragePath)
+
+	const pending = pendingUpdates.get(globalStoragePath)
+	pendingUpdates.delete(globalStoragePath)
+
+	if (!pending?.size) {
+		return queues.get(globalStoragePath) ?? Promise.resolve()
+	}
+
+	return enqueue(globalStoragePath, async (index) => {
+		for (const [taskId, messages] of pending) {
+			const document = extractTaskDocument(messages, await readApiHistory(globalStoragePath, taskId))
+			removeTask(index, taskId)
+			addTask(index, taskId, document)
+		}
+
+		return Array.from(pending.keys())
+	})
+}
+
+export async function removeTasksFromSearchIndex({
+	taskIds,
+	globalStoragePath,
+}: {
+	taskIds: string[]
+	globalStoragePath: string
+}) {
+	taskIds.forEach((taskId) => pendingUpdates.get(globalStoragePath)?.delete(taskId))
+
+	await enqueue(globalStoragePath, async (index) => taskIds.filter((taskId) => removeTask(index, taskId)))
+}
+
+/**
+ * Indexes the tasks from before the index existed and drops the tasks that no longer exist.
+ */
+function syncTasks(globalStoragePath: string, taskIds: string[]) {
+	return enqueue(globalStoragePath, async (index) => {
+		const known = new Set(taskIds)
+		const removed = Array.from(index.tasks.keys()).filter((taskId) => !known.has(taskId))
+		const missing = taskIds.filter((taskId) => !index.tasks.has(taskId))
+
+		removed.forEach((taskId) => removeTask(index, taskId))
+
+		for (const taskId of missing) {
+			const messages = await readUiMessages(globalStoragePath, taskId)
+			addTask(index, taskId, extractTaskDocument(messages, await readApiHistory(globalStoragePath, taskId)))
+		}
+
+		return [...removed, ...missing]
+	})
+}
+
+function findSnippet(messages: ClineMessage[], queryTerms: string[]): string | undefined {
+	// The first message is the task prompt, which the history already shows.
+	for (const message of messages.slice(1)) {
+		const text = getMessageText(message).replace(/\s+/g, " ")
+		const lowerText = text.toLowerCase()
+		const matches = queryTerms.map((term) => lowerText.indexOf(term)).filter((position) => position >= 0)
+
+		if (matches.length > 0) {
+			const position = Math.min(...matches)
+			const start = Math.max(0, position - SNIPPET_RADIUS)
+			const end = Math.min(text.length, position + SNIPPET_RADIUS * 2)
+
+			return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Searches the transcripts of the given tasks. Every query term has to occur in a task, as a
+ * prefix of one of its terms, and the tasks are ranked by TF-IDF. The file filter matches the
+ * tasks that read or edited a file whose path contains it.
+ */
+export async function searchTaskHistory({
+	query,
+	fileFilter,
+	taskIds,
+	globalStoragePath,
+	limit = DEFAULT_RESULT_LIMIT,
+}: {
+	query: string
+	fileFilter?: string
+	taskIds: string[]
+	globalStoragePath: string
+	limit?: number
+}): Promise<TaskSearchResult[]> {
+	await flushTaskSearchIndex(globalStoragePath)
+	await syncTasks(globalStoragePath, taskIds)
+
+	const index = await loadIndex(globalStoragePath)
+	const queryTerms = Array.from(new Set(tokenize(query)))
+	const file = fileFilter?.trim().replace(/\\/g, "/").toLowerCase()
+
+	if (queryTerms.length === 0 && !file) {
+		return []
+	}
+
+	const taskCount = index.tasks.size
+	let scores = new Map<string, number>(
+		taskIds.filter((taskId) => index.tasks.has(taskId)).map((taskId) => [taskId, 0]),
+	)
+
+	for (const queryTerm of queryTerms) {
+		const termScores = new Map<string, number>()
+
+		for (const [term, postings] of index.postings) {
+			if (!term.startsWith(queryTerm)) {
+				continue
+			}
+
+			const idf = Math.log(1 + taskCount / postings.size)
+
+			for (const [taskId, count] of postings) {
+				termScores.set(taskId, (termScores.get(taskId) ?? 0) + Math.log(1 + count) * idf)
+			}
+		}
+
+		scores = new Map(
+			Array.from(scores)
+				.filter(([taskId]) => termScores.has(taskId))
+				.map(([taskId, score]) => [taskId, score + termScores.get(taskId)!]),
+		)
+	}
+
+	if (file) {
+		scores = new Map(
+			Array.from(scores).filter(([taskId]) =>
+				index.tasks.get(taskId)!.files.some((filePath) => filePath.toLowerCase().includes(file)),
+			),
+		)
+	}
+
+	const ranked = Array.from(scores)
+		.sort(([, a], [, b]) => b - a)
+		.slice(0, limit)
+
+	return Promise.all(
+		ranked.map(async ([taskId, score]) => ({
+			taskId,
+			score,
+			snippet:
+				queryTerms.length > 0
+					? findSnippet(await readUiMessages(globalStoragePath, taskId), queryTerms)
+					: undefined,
+		})),
+	)
+}
+
+/**
+ * Forgets the loaded indexes, so they are read from disk again. Only meant for tests.
+ */
+export function resetTaskSearchIndexes() {
+	updateTimers.forEach((timer) => clearTimeout(timer))
+	updateTimers.clear()
+	pendingUpdates.clear()
+	indexes.clear()
+	queues.clear()
+}
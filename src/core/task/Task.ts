@@ -61,7 +61,7 @@ import { customToolRegistry } from "@roo-code/core"
 import { resolveToolProtocol, detectToolProtocolFromHistory } from "../../utils/resolveToolProtocol"
 
 // api
-import { ApiHandler, ApiHandlerCreateMessageMetadata, buildApiHandler } from "../../api"
+import { ApiHandler, ApiHandlerCreateMessageMetadata, ApiHandlerResponseMetadata, buildApiHandler } from "../../api"
 import { ApiStream, GroundingSource } from "../../api/transform/stream"
 import { maybeRemoveImageBlocks } from "../../api/transform/image-cleaning"
 
@@ -86,6 +86,7 @@ import { RepoPerTaskCheckpointService } from "../../services/checkpoints"
 
 // integrations
 import { DiffViewProvider } from "../../integrations/editor/DiffViewProvider"
+import { IntroducedProblemsTracker } from "../../integrations/diagnostics/IntroducedProblemsTracker"
 import { findToolName } from "../../integrations/misc/export-markdown"
 import { RooTerminalProcess } from "../../integrations/terminal/types"
 import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
@@ -94,6 +95,7 @@ import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
 import { calculateApiCostAnthropic, calculateApiCostOpenAI } from "../../shared/cost"
 import { getWorkspacePath } from "../../utils/path"
 import { sanitizeToolUseId } from "../../utils/tool-id"
+import { isCliPatform } from "../../utils/platform"
 
 // prompts
 import { formatResponse } from "../prompts/responses"
@@ -127,10 +129,14 @@ import { checkContextWindowExceededError } from "../context/context-management/c
 import {
 	type CheckpointDiffOptions,
 	type CheckpointRestoreOptions,
+	type CheckpointTimelineDiffOptions,
+	type CheckpointRestoreFilesOptions,
 	getCheckpointService,
 	checkpointSave,
 	checkpointRestore,
 	checkpointDiff,
+	checkpointTimelineDiff,
+	checkpointRestoreFiles,
 } from "../checkpoints"
 import { processUserContentMentions } from "../mentions/processUserContentMentions"
 import { getMessagesSinceLastSummary, summarizeConversation, getEffectiveApiHistory } from "../condense"
@@ -182,6 +188,8 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	readonly parentTaskId?: string
 	childTaskId?: string
 	pendingNewTaskToolCallId?: string
+	// Set when the task is closed to wait for a subtask, so that its background processes keep running
+	suspendedForDelegation = false
 
 	readonly instanceId: string
 	readonly metadata: TaskMetadata
@@ -351,6 +359,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	rooIgnoreController?: RooIgnoreController
 	rooProtectedController?: RooProtectedController
 	fileContextTracker: FileContextTracker
+	introducedProblems = new IntroducedProblemsTracker()
 	urlContentFetcher: UrlContentFetcher
 	terminalProcess?: RooTerminalProcess
 	currentProcessPid?: number // Persisted PID for reliable process cancellation
@@ -981,13 +990,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	private async addToApiConversationHistory(message: Anthropic.MessageParam, reasoning?: string) {
 		// Capture the encrypted_content / thought signatures from the provider (e.g., OpenAI Responses API, Google GenAI) if present.
 		// We only persist data reported by the current response body.
-		const handler = this.api as ApiHandler & {
-			getResponseId?: () => string | undefined
-			getEncryptedContent?: () => { encrypted_content: string; id?: string } | undefined
-			getThoughtSignature?: () => string | undefined
-			getSummary?: () => any[] | undefined
-			getReasoningDetails?: () => any[] | undefined
-		}
+		const handler = this.api as ApiHandler & ApiHandlerResponseMetadata
 
 		if (message.role === "assistant") {
 			const responseId = handler.getResponseId?.()
@@ -2378,7 +2381,9 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			this.currentProcessPid = undefined
 
 			// Release any terminals associated with this task.
-			TerminalRegistry.releaseTerminalsForTask(this.taskId)
+			TerminalRegistry.releaseTerminalsForTask(this.taskId, {
+				keepBackgroundProcesses: this.suspendedForDelegation,
+			})
 		} catch (error) {
 			console.error("Error releasing terminals:", error)
 		}
@@ -2694,6 +2699,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				maxDiagnosticMessages,
 				maxReadFileLine,
 				maxReadCharacterLimit,
+				mcpHub: this.providerRef.deref()?.getMcpHub(),
 			})
 
 			// Switch mode if specified in a slash command's frontmatter
@@ -3134,6 +3140,20 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 								}
 								break
 							}
+							case "router": {
+								// Record which backend of the router profile serves this request.
+								if (lastApiReqIndex >= 0 && this.clineMessages[lastApiReqIndex]) {
+									const existingData = JSON.parse(this.clineMessages[lastApiReqIndex].text || "{}")
+									this.clineMessages[lastApiReqIndex].text = JSON.stringify({
+										...existingData,
+										routerProfileName: chunk.profileName,
+										routerModelId: chunk.modelId,
+										routerFailovers: chunk.failovers.length > 0 ? chunk.failovers : undefined,
+									} satisfies ClineApiReqInfo)
+									await this.updateClineMessage(this.clineMessages[lastApiReqIndex])
+								}
+								break
+							}
 							case "text": {
 								assistantMessage += chunk.text
 								if (this._taskToolProtocolChange) {
@@ -4023,6 +4043,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 					maxConcurrentFileReads: maxConcurrentFileReads ?? 5,
 					todoListEnabled: apiConfiguration?.todoListEnabled ?? true,
 					browserToolEnabled: browserToolEnabled ?? true,
+					languageServerToolsEnabled: !isCliPatform(),
 					useAgentRules:
 						vscode.workspace.getConfiguration(Package.name).get<boolean>("useAgentRules") ?? true,
 					enableSubfolderRules: enableSubfolderRules ?? false,
@@ -5115,6 +5136,14 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		return checkpointDiff(this, options)
 	}
 
+	public async checkpointTimelineDiff(options: CheckpointTimelineDiffOptions) {
+		return checkpointTimelineDiff(this, options)
+	}
+
+	public async checkpointRestoreFiles(options: CheckpointRestoreFilesOptions) {
+		return checkpointRestoreFiles(this, options)
+	}
+
 	// Metrics
 
 	public combineMessages(messages: ClineMessage[]) {
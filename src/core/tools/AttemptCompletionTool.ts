@@ -1,6 +1,11 @@
 import * as vscode from "vscode"
 
-import { RooCodeEventName, type HistoryItem } from "@roo-code/types"
+import {
+	DEFAULT_DIAGNOSTICS_GATE_MAX_ATTEMPTS,
+	RooCodeEventName,
+	type HistoryItem,
+	type IntroducedProblemsReport,
+} from "@roo-code/types"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { Task } from "../task/Task"
@@ -10,6 +15,7 @@ import type { ToolUse } from "../../shared/tools"
 import { t } from "../../i18n"
 
 import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { formatIntroducedProblems, getDiagnosticsGate, getIntroducedProblems } from "./helpers/diagnosticsGate"
 
 interface AttemptCompletionParams {
 	result: string
@@ -75,6 +81,34 @@ export class AttemptCompletionTool extends BaseTool<"attempt_completion"> {
 			return
 		}
 
+		const diagnosticsGate = await getDiagnosticsGate(task)
+
+		if (diagnosticsGate) {
+			const problems = await getIntroducedProblems(task, diagnosticsGate)
+			const maxAttempts = diagnosticsGate.maxAttempts ?? DEFAULT_DIAGNOSTICS_GATE_MAX_ATTEMPTS
+			const blocked = problems.length > 0 && task.introducedProblems.blockedAttempts < maxAttempts
+
+			if (problems.length > 0) {
+				await task.say(
+					"introduced_problems",
+					JSON.stringify({ problems, blocked } satisfies IntroducedProblemsReport),
+				)
+			}
+
+			if (blocked) {
+				task.introducedProblems.blockedAttempts++
+				task.recordToolError("attempt_completion")
+
+				pushToolResult(
+					formatResponse.toolError(
+						`Cannot complete the task while the workspace has problems that were not there before the task edited it. Fix these problems, then attempt completion again:\n${formatIntroducedProblems(problems)}`,
+					),
+				)
+
+				return
+			}
+		}
+
 		try {
 			if (!result) {
 				task.consecutiveMistakeCount++
@@ -1,6 +1,8 @@
 import * as vscode from "vscode"
 import path from "path"
 
+import { type CodebaseSearchMode, isCodebaseSearchMode } from "@roo-code/types"
+
 import { Task } from "../task/Task"
 import { CodeIndexManager } from "../../services/code-index/manager"
 import { getWorkspacePath } from "../../utils/path"
@@ -13,6 +15,7 @@ import { BaseTool, ToolCallbacks } from "./BaseTool"
 interface CodebaseSearchParams {
 	query: string
 	path?: string
+	mode?: CodebaseSearchMode
 }
 
 export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
@@ -29,12 +32,14 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 		return {
 			query: query || "",
 			path: directoryPrefix,
+			mode: params.mode && isCodebaseSearchMode(params.mode) ? params.mode : undefined,
 		}
 	}
 
 	async execute(params: CodebaseSearchParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
 		const { askApproval, handleError, pushToolResult, toolProtocol } = callbacks
 		const { query, path: directoryPrefix } = params
+		const mode = params.mode && isCodebaseSearchMode(params.mode) ? params.mode : "semantic"
 
 		const workspacePath = task.cwd && task.cwd.trim() !== "" ? task.cwd : getWorkspacePath()
 
@@ -54,6 +59,7 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 			tool: "codebaseSearch",
 			query: query,
 			path: directoryPrefix,
+			mode,
 			isOutsideWorkspace: false,
 		}
 
@@ -84,7 +90,11 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 				throw new Error("Code Indexing is not configured (Missing OpenAI Key or Qdrant URL).")
 			}
 
-			const searchResults: VectorStoreSearchResult[] = await manager.searchIndex(query, directoryPrefix)
+			// Multi-root workspaces search the indexes of all workspace folders at once
+			const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+			const searchResults: VectorStoreSearchResult[] = isMultiRoot
+				? await CodeIndexManager.searchAllWorkspaces(query, directoryPrefix, mode)
+				: await manager.searchIndex(query, directoryPrefix, mode)
 
 			if (!searchResults || searchResults.length === 0) {
 				pushToolResult(`No relevant code snippets found for the query: "${query}"`)
@@ -93,15 +103,20 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 
 			const jsonResult = {
 				query,
+				mode,
 				results: [],
 			} as {
 				query: string
+				mode: CodebaseSearchMode
 				results: Array<{
 					filePath: string
 					score: number
 					startLine: number
 					endLine: number
 					codeChunk: string
+					matchReason?: string
+					workspaceFolder?: string
+					workspaceRoot?: string
 				}>
 			}
 
@@ -117,6 +132,9 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 					startLine: result.payload.startLine,
 					endLine: result.payload.endLine,
 					codeChunk: result.payload.codeChunk.trim(),
+					matchReason: this.describeMatch(result),
+					workspaceFolder: result.workspaceFolder?.name,
+					workspaceRoot: result.workspaceFolder?.path,
 				})
 			})
 
@@ -124,12 +142,16 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 			await task.say("codebase_search_result", JSON.stringify(payload))
 
 			const output = `Query: ${query}
+Mode: ${mode}
 Results:
 
 ${jsonResult.results
 	.map(
-		(result) => `File path: ${result.filePath}
+		(
+			result,
+		) => `${result.workspaceFolder ? `Workspace folder: ${result.workspaceFolder}\n` : ""}File path: ${result.filePath}
 Score: ${result.score}
+Matched by: ${result.matchReason ?? "semantic"}
 Lines: ${result.startLine}-${result.endLine}
 Code Chunk: ${result.codeChunk}
 `,
@@ -142,6 +164,25 @@ Code Chunk: ${result.codeChunk}
 		}
 	}
 
+	/**
+	 * Summarizes which ranking produced a result, e.g. "semantic (0.812), keyword [checkpoint, service]".
+	 */
+	private describeMatch(result: VectorStoreSearchResult): string | undefined {
+		if (!result.match) {
+			return undefined
+		}
+
+		const { sources, semanticScore, matchedTerms } = result.match
+		return sources
+			.map((source) => {
+				if (source === "semantic") {
+					return semanticScore !== undefined ? `semantic (${semanticScore.toFixed(3)})` : "semantic"
+				}
+				return matchedTerms?.length ? `keyword [${matchedTerms.join(", ")}]` : "keyword"
+			})
+			.join(", ")
+	}
+
 	override async handlePartial(task: Task, block: ToolUse<"codebase_search">): Promise<void> {
 		const query: string | undefined = block.params.query
 		const directoryPrefix: string | undefined = block.params.path
@@ -150,6 +191,7 @@ Code Chunk: ${result.codeChunk}
 			tool: "codebaseSearch",
 			query: query,
 			path: directoryPrefix,
+			mode: block.params.mode,
 			isOutsideWorkspace: false,
 		}
 
@@ -15,9 +15,16 @@ import { unescapeHtmlEntities } from "../../utils/text-normalization"
 import { ExitCodeDetails, RooTerminalCallbacks, RooTerminalProcess } from "../../integrations/terminal/types"
 import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
 import { Terminal } from "../../integrations/terminal/Terminal"
+import { recordTestRun } from "../../integrations/terminal/test-runs"
+import {
+	type WorkspaceSandbox,
+	describeSandbox,
+	getSandboxUnavailableReason,
+} from "../../integrations/terminal/sandbox"
 import { Package } from "../../shared/package"
 import { t } from "../../i18n"
 import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { getCommandSandbox } from "./helpers/commandSandbox"
 import { isJetbrainsPlatform } from "../../utils/platform"
 
 class ShellIntegrationError extends Error {}
@@ -102,6 +109,7 @@ export class ExecuteCommandTool extends BaseTool<"execute_command"> {
 				terminalOutputLineLimit,
 				terminalOutputCharacterLimit,
 				commandExecutionTimeout,
+				sandbox: await getCommandSandbox(task),
 			}
 
 			try {
@@ -161,6 +169,8 @@ export type ExecuteCommandOptions = {
 	terminalOutputLineLimit?: number
 	terminalOutputCharacterLimit?: number
 	commandExecutionTimeout?: number
+	// Runs the command in a container or a bubblewrap jail instead of on the host.
+	sandbox?: WorkspaceSandbox
 }
 
 export async function executeCommandInTerminal(
@@ -173,6 +183,7 @@ export async function executeCommandInTerminal(
 		terminalOutputLineLimit = 500,
 		terminalOutputCharacterLimit = DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT,
 		commandExecutionTimeout = 0,
+		sandbox,
 	}: ExecuteCommandOptions,
 ): Promise<[boolean, ToolResponse]> {
 	// Convert milliseconds back to seconds for display purposes.
@@ -193,6 +204,12 @@ export async function executeCommandInTerminal(
 		return [false, `Working directory '${workingDir}' does not exist.`]
 	}
 
+	const sandboxUnavailableReason = sandbox && getSandboxUnavailableReason(sandbox)
+
+	if (sandboxUnavailableReason) {
+		return [false, `The command was not executed: ${sandboxUnavailableReason}`]
+	}
+
 	let message: { text?: string; images?: string[] } | undefined
 	let runInBackground = false
 	let completed = false
@@ -201,7 +218,7 @@ export async function executeCommandInTerminal(
 	let shellIntegrationError: string | undefined
 	let hasAskedForCommandOutput = false
 
-	const terminalProvider = terminalShellIntegrationDisabled ? "execa" : "vscode"
+	const terminalProvider = sandbox ? "sandbox" : terminalShellIntegrationDisabled ? "execa" : "vscode"
 	const provider = await task.providerRef.deref()
 
 	let accumulatedOutput = ""
@@ -271,7 +288,7 @@ export async function executeCommandInTerminal(
 		}
 	}
 
-	const terminal = await TerminalRegistry.getOrCreateTerminal(workingDir, task.taskId, terminalProvider)
+	const terminal = await TerminalRegistry.getOrCreateTerminal(workingDir, task.taskId, terminalProvider, sandbox)
 
 	if (terminal instanceof Terminal) {
 		terminal.terminal.show(true)
@@ -386,8 +403,14 @@ export async function executeCommandInTerminal(
 			exitStatus = `Exit code: <undefined, notify user>`
 		}
 
+		recordTestRun(task.cwd, { command, cwd: workingDir, exitCode: exitDetails?.exitCode, output: result })
+
 		let workingDirInfo = ` within working directory '${terminal.getCurrentWorkingDirectory().toPosix()}'`
 
+		if (sandbox) {
+			workingDirInfo += ` in ${describeSandbox(sandbox)}`
+		}
+
 		return [false, `Command executed in terminal ${workingDirInfo}. ${exitStatus}\nOutput:\n${result}`]
 	} else {
 		return [
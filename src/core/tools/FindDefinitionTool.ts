@@ -0,0 +1,86 @@
+import path from "path"
+
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+import type { ToolUse } from "../../shared/tools"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { formatSymbolGraphResults, getSymbolGraphManager } from "./helpers/symbolGraph"
+
+interface FindDefinitionParams {
+	symbol: string
+	path?: string
+}
+
+export class FindDefinitionTool extends BaseTool<"find_definition"> {
+	readonly name = "find_definition" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): FindDefinitionParams {
+		return {
+			symbol: params.symbol?.trim() || "",
+			path: params.path ? path.normalize(params.path) : undefined,
+		}
+	}
+
+	async execute(params: FindDefinitionParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult } = callbacks
+		const symbol = params.symbol?.trim()
+		const directoryPrefix = params.path || undefined
+
+		if (!symbol) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("find_definition")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("find_definition", "symbol"))
+			return
+		}
+
+		task.consecutiveMistakeCount = 0
+
+		try {
+			const definitions = getSymbolGraphManager(task).findSymbolDefinitions(symbol, directoryPrefix)
+
+			const result =
+				definitions.length === 0
+					? `No definitions found for "${symbol}"${directoryPrefix ? ` in ${directoryPrefix}` : ""}.`
+					: formatSymbolGraphResults(
+							`Definitions of "${symbol}"`,
+							definitions.map(
+								(definition) =>
+									`${definition.filePath}:${definition.startLine}-${definition.endLine} (${definition.kind})`,
+							),
+						)
+
+			const completeMessage = JSON.stringify({
+				tool: "findDefinition",
+				symbol,
+				path: directoryPrefix,
+				content: result,
+			} satisfies ClineSayTool)
+			const didApprove = await askApproval("tool", completeMessage)
+
+			if (!didApprove) {
+				pushToolResult(formatResponse.toolDenied())
+				return
+			}
+
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("finding definitions", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"find_definition">): Promise<void> {
+		const partialMessage = JSON.stringify({
+			tool: "findDefinition",
+			symbol: this.removeClosingTag("symbol", block.params.symbol, block.partial),
+			path: this.removeClosingTag("path", block.params.path, block.partial),
+			content: "",
+		} satisfies ClineSayTool)
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+}
+
+export const findDefinitionTool = new FindDefinitionTool()
@@ -0,0 +1,116 @@
+import path from "path"
+
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+import { CodeIndexManager } from "../../services/code-index/manager"
+import { fileExistsAtPath } from "../../utils/fs"
+import type { ToolUse } from "../../shared/tools"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { formatSymbolGraphResults, getSymbolGraphManager } from "./helpers/symbolGraph"
+
+interface FindReferencesParams {
+	symbol: string
+	path?: string
+}
+
+export class FindReferencesTool extends BaseTool<"find_references"> {
+	readonly name = "find_references" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): FindReferencesParams {
+		return {
+			symbol: params.symbol?.trim() || "",
+			path: params.path ? path.normalize(params.path) : undefined,
+		}
+	}
+
+	async execute(params: FindReferencesParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult } = callbacks
+		const symbol = params.symbol?.trim()
+		const directoryPrefix = params.path || undefined
+
+		if (!symbol) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("find_references")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("find_references", "symbol"))
+			return
+		}
+
+		task.consecutiveMistakeCount = 0
+
+		try {
+			const manager = getSymbolGraphManager(task)
+			const result = (await this.isModulePath(task, symbol))
+				? this.findImporters(manager, path.resolve(task.cwd, symbol), symbol)
+				: this.findReferences(manager, symbol, directoryPrefix)
+
+			const completeMessage = JSON.stringify({
+				tool: "findReferences",
+				symbol,
+				path: directoryPrefix,
+				content: result,
+			} satisfies ClineSayTool)
+			const didApprove = await askApproval("tool", completeMessage)
+
+			if (!didApprove) {
+				pushToolResult(formatResponse.toolDenied())
+				return
+			}
+
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("finding references", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"find_references">): Promise<void> {
+		const partialMessage = JSON.stringify({
+			tool: "findReferences",
+			symbol: this.removeClosingTag("symbol", block.params.symbol, block.partial),
+			path: this.removeClosingTag("path", block.params.path, block.partial),
+			content: "",
+		} satisfies ClineSayTool)
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+
+	/**
+	 * A symbol containing a path separator, or naming an existing file, asks for the importers of that module.
+	 */
+	private async isModulePath(task: Task, symbol: string): Promise<boolean> {
+		return /[\\/]/.test(symbol) || (await fileExistsAtPath(path.resolve(task.cwd, symbol)))
+	}
+
+	private findReferences(manager: CodeIndexManager, symbol: string, directoryPrefix?: string): string {
+		const references = manager.findSymbolReferences(symbol, directoryPrefix)
+		if (references.length === 0) {
+			return `No references found for "${symbol}"${directoryPrefix ? ` in ${directoryPrefix}` : ""}.`
+		}
+
+		return formatSymbolGraphResults(
+			`References to "${symbol}"`,
+			references.map((reference) => {
+				const description = reference.kind === "call" ? "call" : `${reference.kind} reference`
+				return `${reference.filePath}:${reference.line} ${description}${reference.container ? ` in ${reference.container}` : ""}`
+			}),
+		)
+	}
+
+	private findImporters(manager: CodeIndexManager, absolutePath: string, modulePath: string): string {
+		const importers = manager.findModuleImporters(absolutePath)
+		if (importers.length === 0) {
+			return `No files import ${modulePath}.`
+		}
+
+		return formatSymbolGraphResults(
+			`Files importing ${modulePath}`,
+			importers.map(
+				(moduleImport) => `${moduleImport.filePath}:${moduleImport.line} imports "${moduleImport.source}"`,
+			),
+		)
+	}
+}
+
+export const findReferencesTool = new FindReferencesTool()
@@ -0,0 +1,231 @@
+import path from "path"
+import * as vscode from "vscode"
+
+import { type ClineSayTool, type SymbolNavigation, isSymbolNavigation, symbolNavigations } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+import { getCalls, getDefinitions, getHover, getReferences } from "../../integrations/editor/languageFeatures"
+import { MAX_SYMBOL_GRAPH_RESULTS } from "../../services/code-index/constants"
+import { fileExistsAtPath } from "../../utils/fs"
+import type { ToolUse } from "../../shared/tools"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { formatSymbolGraphResults, getSymbolGraphManager } from "./helpers/symbolGraph"
+import { formatSymbolLocations, locateSymbol, parseLineNumber, symbolNotFoundError } from "./helpers/languageServer"
+
+interface NavigateSymbolParams {
+	path: string
+	line: number
+	symbol: string
+	action: SymbolNavigation
+}
+
+/**
+ * Asks the language servers of VS Code about a symbol: where it is defined, where it is used, its
+ * hover, and its incoming and outgoing calls. Definitions and references fall back to the symbol
+ * graph of the code index when no language server answers.
+ */
+export class NavigateSymbolTool extends BaseTool<"navigate_symbol"> {
+	readonly name = "navigate_symbol" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): NavigateSymbolParams {
+		return {
+			path: params.path || "",
+			line: parseLineNumber(params.line) ?? 0,
+			symbol: params.symbol?.trim() || "",
+			action: (params.action?.trim() || "") as SymbolNavigation,
+		}
+	}
+
+	async execute(params: NavigateSymbolParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult, toolProtocol } = callbacks
+		const relPath = params.path ? path.normalize(params.path) : ""
+		const line = parseLineNumber(params.line) ?? 0
+		const symbol = params.symbol?.trim()
+
+		for (const [name, value] of [
+			["path", relPath],
+			["line", line],
+			["symbol", symbol],
+			["action", params.action],
+		] as const) {
+			if (!value) {
+				task.consecutiveMistakeCount++
+				task.recordToolError("navigate_symbol")
+				task.didToolFailInCurrentTurn = true
+				pushToolResult(await task.sayAndCreateMissingParamError("navigate_symbol", name))
+				return
+			}
+		}
+
+		if (!isSymbolNavigation(params.action)) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("navigate_symbol")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(
+				formatResponse.toolError(
+					`Unknown action "${params.action}". Use one of: ${symbolNavigations.join(", ")}.`,
+					toolProtocol,
+				),
+			)
+			return
+		}
+
+		const action = params.action
+
+		if (task.rooIgnoreController && !task.rooIgnoreController.validateAccess(relPath)) {
+			await task.say("rooignore_error", relPath)
+			pushToolResult(formatResponse.rooIgnoreError(relPath, toolProtocol))
+			return
+		}
+
+		if (!(await fileExistsAtPath(path.resolve(task.cwd, relPath)))) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("navigate_symbol")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(formatResponse.toolError(`File not found: ${relPath}`, toolProtocol))
+			return
+		}
+
+		try {
+			const target = await locateSymbol(task, relPath, line, symbol)
+
+			if (!target) {
+				task.consecutiveMistakeCount++
+				task.recordToolError("navigate_symbol")
+				task.didToolFailInCurrentTurn = true
+				pushToolResult(formatResponse.toolError(symbolNotFoundError(relPath, line, symbol), toolProtocol))
+				return
+			}
+
+			task.consecutiveMistakeCount = 0
+
+			const result = await this.navigate(task, action, symbol, target.uri, target.position)
+
+			const completeMessage = JSON.stringify({
+				tool: "navigateSymbol",
+				symbol,
+				path: relPath,
+				lineNumber: line,
+				navigation: action,
+				content: result,
+			} satisfies ClineSayTool)
+			const didApprove = await askApproval("tool", completeMessage)
+
+			if (!didApprove) {
+				pushToolResult(formatResponse.toolDenied())
+				return
+			}
+
+			task.recordToolUsage("navigate_symbol")
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("navigating to the symbol", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"navigate_symbol">): Promise<void> {
+		const partialMessage = JSON.stringify({
+			tool: "navigateSymbol",
+			symbol: this.removeClosingTag("symbol", block.params.symbol, block.partial),
+			path: this.removeClosingTag("path", block.params.path, block.partial),
+			navigation: this.removeClosingTag("action", block.params.action, block.partial),
+			content: "",
+		} satisfies ClineSayTool)
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+
+	private async navigate(
+		task: Task,
+		action: SymbolNavigation,
+		symbol: string,
+		uri: vscode.Uri,
+		position: vscode.Position,
+	): Promise<string> {
+		switch (action) {
+			case "definition": {
+				const lines = await formatSymbolLocations(task, await getDefinitions(uri, position))
+				return lines.length > 0
+					? formatSymbolGraphResults(`Definitions of "${symbol}"`, lines)
+					: this.searchSymbolGraph(task, "definition", symbol)
+			}
+			case "references": {
+				const lines = await formatSymbolLocations(task, await getReferences(uri, position))
+				return lines.length > 0
+					? formatSymbolGraphResults(`References to "${symbol}"`, lines)
+					: this.searchSymbolGraph(task, "references", symbol)
+			}
+			case "hover": {
+				const hovers = await getHover(uri, position)
+				return hovers.length > 0
+					? `Hover of "${symbol}":\n\n${hovers.join("\n\n---\n\n")}`
+					: `No language server has hover information for "${symbol}".`
+			}
+			case "incoming_calls":
+			case "outgoing_calls": {
+				const direction = action === "incoming_calls" ? "incoming" : "outgoing"
+				const calls = await getCalls(uri, position, direction)
+
+				if (calls.length === 0) {
+					return direction === "incoming"
+						? `No calls to "${symbol}" found. The language server may not support call hierarchies, or the symbol is not a function or method.`
+						: `No calls from "${symbol}" found. The language server may not support call hierarchies, or the symbol is not a function or method.`
+				}
+
+				const lines: string[] = []
+
+				for (const call of calls.slice(0, MAX_SYMBOL_GRAPH_RESULTS)) {
+					const [location] = await formatSymbolLocations(task, [call.location])
+
+					if (location) {
+						lines.push(`${call.name}${call.detail ? ` (${call.detail})` : ""}: ${location}`)
+					}
+				}
+
+				return formatSymbolGraphResults(
+					direction === "incoming" ? `Calls to "${symbol}"` : `Calls from "${symbol}"`,
+					lines,
+				)
+			}
+		}
+	}
+
+	/**
+	 * Searches the symbol graph of the code index when no language server knows the symbol.
+	 */
+	private searchSymbolGraph(task: Task, action: "definition" | "references", symbol: string): string {
+		const notFound =
+			action === "definition"
+				? `No language server found the definition of "${symbol}".`
+				: `No language server found references to "${symbol}".`
+
+		let manager
+		try {
+			manager = getSymbolGraphManager(task)
+		} catch {
+			return notFound
+		}
+
+		const lines =
+			action === "definition"
+				? manager
+						.findSymbolDefinitions(symbol)
+						.map(
+							(definition) =>
+								`${definition.filePath}:${definition.startLine}-${definition.endLine} ${definition.kind}`,
+						)
+				: manager
+						.findSymbolReferences(symbol)
+						.map(
+							(reference) =>
+								`${reference.filePath}:${reference.line} ${reference.kind}${reference.container ? ` in ${reference.container}` : ""}`,
+						)
+
+		return lines.length > 0
+			? formatSymbolGraphResults(`${notFound} The code index has these matches by name`, lines)
+			: notFound
+	}
+}
+
+export const navigateSymbolTool = new NavigateSymbolTool()
@@ -0,0 +1,91 @@
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+import type { ToolUse } from "../../shared/tools"
+import { BackgroundProcessRegistry } from "../../integrations/terminal/BackgroundProcessRegistry"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import {
+	describeBackgroundProcess,
+	formatBackgroundProcessOutput,
+	getTaskBackgroundProcess,
+	parseProcessId,
+	unknownProcessError,
+} from "./helpers/backgroundProcesses"
+
+interface ReadProcessOutputParams {
+	process_id: number
+}
+
+export class ReadProcessOutputTool extends BaseTool<"read_process_output"> {
+	readonly name = "read_process_output" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): ReadProcessOutputParams {
+		return {
+			process_id: parseProcessId(params.process_id) ?? 0,
+		}
+	}
+
+	async execute(params: ReadProcessOutputParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult } = callbacks
+		const processId = parseProcessId(params.process_id)
+
+		if (!processId) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("read_process_output")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("read_process_output", "process_id"))
+			return
+		}
+
+		const info = getTaskBackgroundProcess(task, processId)
+
+		if (!info) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("read_process_output")
+			pushToolResult(formatResponse.toolError(unknownProcessError(task, processId)))
+			return
+		}
+
+		task.consecutiveMistakeCount = 0
+
+		try {
+			const didApprove = await askApproval(
+				"tool",
+				JSON.stringify({
+					tool: "readProcessOutput",
+					processId,
+					command: info.command,
+				} satisfies ClineSayTool),
+			)
+
+			if (!didApprove) {
+				return
+			}
+
+			const result = BackgroundProcessRegistry.readOutput(processId)
+
+			if (!result) {
+				pushToolResult(formatResponse.toolError(unknownProcessError(task, processId)))
+				return
+			}
+
+			pushToolResult(
+				`${describeBackgroundProcess(result.info)}\nOutput since the last read:\n${await formatBackgroundProcessOutput(task, result.output, result.truncated)}`,
+			)
+		} catch (error) {
+			await handleError("reading the output of a background process", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"read_process_output">): Promise<void> {
+		const partialMessage = JSON.stringify({
+			tool: "readProcessOutput",
+			processId: parseProcessId(block.params.process_id),
+		} satisfies ClineSayTool)
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+}
+
+export const readProcessOutputTool = new ReadProcessOutputTool()
@@ -0,0 +1,326 @@
+import path from "path"
+import delay from "delay"
+import * as vscode from "vscode"
+
+import { type ClineSayTool, DEFAULT_WRITE_DELAY_MS } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
+import { type RenameFileChange, getRenameChanges } from "../../integrations/editor/languageFeatures"
+import { diagnosticsToProblemsString, getNewDiagnostics } from "../../integrations/diagnostics"
+import { getReadablePath } from "../../utils/path"
+import { isPathOutsideWorkspace } from "../../utils/pathUtils"
+import { fileExistsAtPath } from "../../utils/fs"
+import { EXPERIMENT_IDS, experiments } from "../../shared/experiments"
+import { defaultModeSlug } from "../../shared/modes"
+import { sanitizeUnifiedDiff, computeDiffStats } from "../diff/stats"
+import type { ToolUse } from "../../shared/tools"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { validateToolUse } from "./validateToolUse"
+import { locateSymbol, parseLineNumber, symbolNotFoundError } from "./helpers/languageServer"
+
+interface RenameSymbolParams {
+	path: string
+	line: number
+	symbol: string
+	new_name: string
+}
+
+/**
+ * Renames a symbol across the workspace with the rename provider of the language server, so that
+ * only the symbol and its real references change. The changes go through the same approval as
+ * file edits.
+ */
+export class RenameSymbolTool extends BaseTool<"rename_symbol"> {
+	readonly name = "rename_symbol" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): RenameSymbolParams {
+		return {
+			path: params.path || "",
+			line: parseLineNumber(params.line) ?? 0,
+			symbol: params.symbol?.trim() || "",
+			new_name: params.new_name?.trim() || "",
+		}
+	}
+
+	async execute(params: RenameSymbolParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult, toolProtocol } = callbacks
+		const relPath = params.path ? path.normalize(params.path) : ""
+		const line = parseLineNumber(params.line) ?? 0
+		const symbol = params.symbol?.trim()
+		const newName = params.new_name?.trim()
+
+		for (const [name, value] of [
+			["path", relPath],
+			["line", line],
+			["symbol", symbol],
+			["new_name", newName],
+		] as const) {
+			if (!value) {
+				task.consecutiveMistakeCount++
+				task.recordToolError("rename_symbol")
+				task.didToolFailInCurrentTurn = true
+				pushToolResult(await task.sayAndCreateMissingParamError("rename_symbol", name))
+				return
+			}
+		}
+
+		const fail = (message: string) => {
+			task.consecutiveMistakeCount++
+			task.recordToolError("rename_symbol")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(formatResponse.toolError(message, toolProtocol))
+		}
+
+		if (newName === symbol) {
+			fail("The 'symbol' and 'new_name' parameters must be different.")
+			return
+		}
+
+		if (task.rooIgnoreController && !task.rooIgnoreController.validateAccess(relPath)) {
+			await task.say("rooignore_error", relPath)
+			pushToolResult(formatResponse.rooIgnoreError(relPath, toolProtocol))
+			return
+		}
+
+		if (!(await fileExistsAtPath(path.resolve(task.cwd, relPath)))) {
+			fail(`File not found: ${relPath}`)
+			return
+		}
+
+		try {
+			const target = await locateSymbol(task, relPath, line, symbol)
+
+			if (!target) {
+				fail(symbolNotFoundError(relPath, line, symbol))
+				return
+			}
+
+			let changes: RenameFileChange[]
+			try {
+				changes = await getRenameChanges(target.uri, target.position, newName)
+			} catch (error) {
+				fail(`The language server cannot rename "${symbol}": ${error instanceof Error ? error.message : error}`)
+				return
+			}
+
+			changes = changes.filter((change) => change.newContent !== change.originalContent)
+
+			if (changes.length === 0) {
+				fail(
+					`No language server can rename "${symbol}" in ${relPath}. Use the file editing tools to rename it instead.`,
+				)
+				return
+			}
+
+			const relPaths = changes.map((change) => path.relative(task.cwd, change.uri.fsPath))
+			const blockedPath = relPaths.find(
+				(changedPath) => task.rooIgnoreController && !task.rooIgnoreController.validateAccess(changedPath),
+			)
+
+			if (blockedPath) {
+				await task.say("rooignore_error", blockedPath)
+				pushToolResult(formatResponse.rooIgnoreError(blockedPath, toolProtocol))
+				return
+			}
+
+			// The rename can reach files that the mode is not allowed to edit, not just the file of the symbol.
+			const state = await task.providerRef.deref()?.getState()
+			try {
+				for (const changedPath of relPaths) {
+					validateToolUse(
+						"rename_symbol",
+						state?.mode ?? defaultModeSlug,
+						state?.customModes ?? [],
+						undefined,
+						{ path: changedPath, line: String(line) },
+						state?.experiments,
+						undefined,
+						{ cwd: task.cwd },
+					)
+				}
+			} catch (error) {
+				fail(error instanceof Error ? error.message : String(error))
+				return
+			}
+
+			task.consecutiveMistakeCount = 0
+
+			const isWriteProtected = relPaths.some(
+				(changedPath) => task.rooProtectedController?.isWriteProtected(changedPath) || false,
+			)
+
+			if (changes.length === 1) {
+				await this.renameInFile(task, callbacks, relPaths[0], changes[0], isWriteProtected)
+			} else {
+				await this.renameInFiles(task, callbacks, relPaths, changes, isWriteProtected, symbol, newName)
+			}
+		} catch (error) {
+			await handleError("renaming the symbol", error as Error)
+			await task.diffViewProvider.reset()
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"rename_symbol">): Promise<void> {
+		const relPath: string | undefined = block.params.path
+
+		if (!relPath) {
+			return
+		}
+
+		const partialMessage = JSON.stringify({
+			tool: "appliedDiff",
+			path: getReadablePath(task.cwd, this.removeClosingTag("path", relPath, block.partial)),
+			diff: "",
+			isOutsideWorkspace: isPathOutsideWorkspace(path.resolve(task.cwd, relPath)),
+		} satisfies ClineSayTool)
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+
+	/**
+	 * Renames in a single file with the diff view, like the file editing tools.
+	 */
+	private async renameInFile(
+		task: Task,
+		{ askApproval, pushToolResult }: ToolCallbacks,
+		relPath: string,
+		change: RenameFileChange,
+		isWriteProtected: boolean,
+	): Promise<void> {
+		const state = await task.providerRef.deref()?.getState()
+		const diagnosticsEnabled = state?.diagnosticsEnabled ?? true
+		const writeDelayMs = state?.writeDelayMs ?? DEFAULT_WRITE_DELAY_MS
+		const isPreventFocusDisruptionEnabled = experiments.isEnabled(
+			state?.experiments ?? {},
+			EXPERIMENT_IDS.PREVENT_FOCUS_DISRUPTION,
+		)
+
+		task.diffViewProvider.editType = "modify"
+		task.diffViewProvider.originalContent = change.originalContent
+
+		const diff = sanitizeUnifiedDiff(
+			formatResponse.createPrettyPatch(relPath, change.originalContent, change.newContent),
+		)
+		const completeMessage = JSON.stringify({
+			tool: "appliedDiff",
+			path: getReadablePath(task.cwd, relPath),
+			diff,
+			content: diff,
+			isOutsideWorkspace: isPathOutsideWorkspace(change.uri.fsPath),
+			isProtected: isWriteProtected,
+			diffStats: computeDiffStats(diff) || undefined,
+		} satisfies ClineSayTool)
+
+		if (!isPreventFocusDisruptionEnabled) {
+			await task.diffViewProvider.open(relPath)
+			await task.diffViewProvider.update(change.newContent, true)
+			task.diffViewProvider.scrollToFirstDiff()
+		}
+
+		const didApprove = await askApproval("tool", completeMessage, undefined, isWriteProtected)
+
+		if (!didApprove) {
+			if (!isPreventFocusDisruptionEnabled) {
+				await task.diffViewProvider.revertChanges()
+			}
+			pushToolResult("Changes were rejected by the user.")
+			await task.diffViewProvider.reset()
+			return
+		}
+
+		if (isPreventFocusDisruptionEnabled) {
+			await task.diffViewProvider.saveDirectly(
+				relPath,
+				change.newContent,
+				false,
+				diagnosticsEnabled,
+				writeDelayMs,
+			)
+		} else {
+			await task.diffViewProvider.saveChanges(diagnosticsEnabled, writeDelayMs)
+		}
+
+		await task.fileContextTracker.trackFileContext(relPath, "roo_edited" as RecordSource)
+		task.didEditFile = true
+
+		pushToolResult(await task.diffViewProvider.pushToolWriteResult(task, task.cwd, false))
+
+		task.recordToolUsage("rename_symbol")
+		await task.diffViewProvider.reset()
+		task.processQueuedMessages()
+	}
+
+	/**
+	 * Renames across files with a single batch approval, then writes every file without opening it.
+	 */
+	private async renameInFiles(
+		task: Task,
+		{ askApproval, pushToolResult }: ToolCallbacks,
+		relPaths: string[],
+		changes: RenameFileChange[],
+		isWriteProtected: boolean,
+		symbol: string,
+		newName: string,
+	): Promise<void> {
+		const batchDiffs = changes.map((change, index) => {
+			const readablePath = getReadablePath(task.cwd, relPaths[index])
+			const diff = sanitizeUnifiedDiff(
+				formatResponse.createPrettyPatch(relPaths[index], change.originalContent, change.newContent),
+			)
+			const diffStats = computeDiffStats(diff) || undefined
+			const changeCount = diffStats?.added ?? 1
+			const changeText = changeCount === 1 ? "1 change" : `${changeCount} changes`
+
+			return { path: readablePath, changeCount, key: `${readablePath} (${changeText})`, content: diff, diffStats }
+		})
+
+		const completeMessage = JSON.stringify({
+			tool: "appliedDiff",
+			batchDiffs,
+			isProtected: isWriteProtected,
+		} satisfies ClineSayTool)
+		const didApprove = await askApproval("tool", completeMessage, undefined, isWriteProtected)
+
+		if (!didApprove) {
+			pushToolResult("Changes were rejected by the user.")
+			return
+		}
+
+		const state = await task.providerRef.deref()?.getState()
+		const diagnosticsEnabled = state?.diagnosticsEnabled ?? true
+		const preDiagnostics = vscode.languages.getDiagnostics()
+
+		for (const [index, change] of changes.entries()) {
+			await task.diffViewProvider.saveDirectly(relPaths[index], change.newContent, false, false)
+			await task.fileContextTracker.trackFileContext(relPaths[index], "roo_edited" as RecordSource)
+		}
+
+		task.didEditFile = true
+
+		let problems = ""
+
+		if (diagnosticsEnabled) {
+			await delay(Math.max(0, state?.writeDelayMs ?? DEFAULT_WRITE_DELAY_MS))
+			problems = await diagnosticsToProblemsString(
+				getNewDiagnostics(preDiagnostics, vscode.languages.getDiagnostics()),
+				[vscode.DiagnosticSeverity.Error],
+				task.cwd,
+				state?.includeDiagnosticMessages ?? true,
+				state?.maxDiagnosticMessages ?? 50,
+			)
+		}
+
+		pushToolResult(
+			`Renamed "${symbol}" to "${newName}" in ${changes.length} files:\n${relPaths.map((relPath) => `- ${relPath}`).join("\n")}` +
+				(problems ? `\n\nNew problems detected after saving the files:\n${problems}` : ""),
+		)
+
+		task.recordToolUsage("rename_symbol")
+		await task.diffViewProvider.reset()
+		task.processQueuedMessages()
+	}
+}
+
+export const renameSymbolTool = new RenameSymbolTool()
@@ -0,0 +1,195 @@
+import fs from "fs/promises"
+import * as path from "path"
+import * as vscode from "vscode"
+
+import {
+	type ClineSayTool,
+	DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT,
+	isTestFramework,
+	testFrameworks,
+} from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+import type { ToolUse } from "../../shared/tools"
+import { Package } from "../../shared/package"
+import { getModeBySlug } from "../../shared/modes"
+import { Terminal } from "../../integrations/terminal/Terminal"
+import { getSandboxUnavailableReason } from "../../integrations/terminal/sandbox"
+import { recordTestRun } from "../../integrations/terminal/test-runs"
+import { buildTestCommand, detectTestFramework } from "../../services/test-runner/frameworks"
+import { formatTestRunResults, runTests } from "../../services/test-runner/runTests"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { getCommandSandbox } from "./helpers/commandSandbox"
+import { validateModePermissions } from "./validateToolUse"
+
+// Test suites can take a while, so they get more time than commands when no timeout is configured.
+const DEFAULT_TEST_TIMEOUT_MS = 10 * 60_000
+
+interface RunTestsParams {
+	framework?: string
+	path?: string
+	pattern?: string
+	cwd?: string
+}
+
+export class RunTestsTool extends BaseTool<"run_tests"> {
+	readonly name = "run_tests" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): RunTestsParams {
+		return {
+			framework: params.framework,
+			path: params.path,
+			pattern: params.pattern,
+			cwd: params.cwd,
+		}
+	}
+
+	async execute(params: RunTestsParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult } = callbacks
+		const { path: testPath, pattern, cwd: customCwd } = params
+
+		try {
+			const workingDir = customCwd ? path.resolve(task.cwd, customCwd) : task.cwd
+
+			try {
+				await fs.access(workingDir)
+			} catch {
+				task.recordToolError("run_tests")
+				pushToolResult(formatResponse.toolError(`Working directory '${workingDir}' does not exist.`))
+				return
+			}
+
+			if (params.framework && !isTestFramework(params.framework)) {
+				task.consecutiveMistakeCount++
+				task.recordToolError("run_tests")
+				pushToolResult(
+					formatResponse.toolError(
+						`Unknown test framework '${params.framework}'. The supported frameworks are: ${testFrameworks.join(", ")}.`,
+					),
+				)
+				return
+			}
+
+			const framework = isTestFramework(params.framework)
+				? params.framework
+				: await detectTestFramework(workingDir, testPath)
+
+			if (!framework) {
+				task.consecutiveMistakeCount++
+				task.recordToolError("run_tests")
+				pushToolResult(
+					formatResponse.toolError(
+						`No test framework was detected in '${workingDir}'. Pass the framework parameter (${testFrameworks.join(", ")}), or use execute_command for other test runners.`,
+					),
+				)
+				return
+			}
+
+			const command = buildTestCommand(framework, { path: testPath, pattern })
+			const state = await (await task.providerRef.deref())?.getState()
+			const mode = getModeBySlug(await task.getTaskMode(), state?.customModes)
+
+			if (mode?.permissions) {
+				try {
+					validateModePermissions("run_tests", mode.name, mode.permissions, { command })
+				} catch (error) {
+					task.recordToolError("run_tests")
+					pushToolResult(formatResponse.toolError((error as Error).message))
+					return
+				}
+			}
+
+			task.consecutiveMistakeCount = 0
+
+			const sandbox = await getCommandSandbox(task)
+			const sandboxUnavailableReason = sandbox && getSandboxUnavailableReason(sandbox)
+
+			if (sandboxUnavailableReason) {
+				pushToolResult(formatResponse.toolError(`The tests were not run: ${sandboxUnavailableReason}`))
+				return
+			}
+
+			const didApprove = await askApproval(
+				"tool",
+				JSON.stringify({
+					tool: "runTests",
+					framework,
+					command,
+					path: customCwd,
+				} satisfies ClineSayTool),
+			)
+
+			if (!didApprove) {
+				return
+			}
+
+			const commandExecutionTimeoutSeconds = vscode.workspace
+				.getConfiguration(Package.name)
+				.get<number>("commandExecutionTimeout", 0)
+
+			const { results, output, parsed, timedOut } = await runTests({
+				framework,
+				cwd: workingDir,
+				path: testPath,
+				pattern,
+				sandbox,
+				timeoutMs:
+					commandExecutionTimeoutSeconds > 0
+						? commandExecutionTimeoutSeconds * 1000
+						: DEFAULT_TEST_TIMEOUT_MS,
+				isCancelled: () => task.abort,
+			})
+
+			if (parsed) {
+				const summary = formatTestRunResults(results)
+
+				recordTestRun(task.cwd, {
+					command: results.command,
+					cwd: workingDir,
+					exitCode: results.exitCode,
+					output: summary,
+				})
+				await task.say("test_results", JSON.stringify(results))
+				pushToolResult(timedOut ? `The tests timed out, these are the results so far.\n${summary}` : summary)
+				return
+			}
+
+			// The tests did not report results, like when they do not compile, so the output explains why.
+			const {
+				terminalOutputLineLimit = 500,
+				terminalOutputCharacterLimit = DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT,
+			} = state ?? {}
+			const compressedOutput = Terminal.compressTerminalOutput(
+				output,
+				terminalOutputLineLimit,
+				terminalOutputCharacterLimit,
+			)
+
+			recordTestRun(task.cwd, {
+				command: results.command,
+				cwd: workingDir,
+				exitCode: results.exitCode,
+				output: compressedOutput,
+			})
+
+			pushToolResult(
+				`${timedOut ? "The tests timed out" : `The tests exited with code ${results.exitCode ?? "unknown"}`} without reporting any result: \`${results.command}\`\nOutput:\n${compressedOutput || "(no output)"}`,
+			)
+		} catch (error) {
+			await handleError("running tests", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"run_tests">): Promise<void> {
+		const partialMessage = JSON.stringify({
+			tool: "runTests",
+			framework: this.removeClosingTag("framework", block.params.framework, block.partial),
+			path: this.removeClosingTag("cwd", block.params.cwd, block.partial),
+		} satisfies ClineSayTool)
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+}
+
+export const runTestsTool = new RunTestsTool()
@@ -0,0 +1,130 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import pWaitFor from "p-wait-for"
+
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+import type { ToolUse } from "../../shared/tools"
+import { unescapeHtmlEntities } from "../../utils/text-normalization"
+import { BackgroundProcessRegistry } from "../../integrations/terminal/BackgroundProcessRegistry"
+import { describeSandbox, getSandboxUnavailableReason } from "../../integrations/terminal/sandbox"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import { formatBackgroundProcessOutput } from "./helpers/backgroundProcesses"
+import { getCommandSandbox } from "./helpers/commandSandbox"
+
+// Processes that fail right away, like with a typo in the command, are reported as failed.
+const STARTUP_CHECK_MS = 2_000
+
+interface StartProcessParams {
+	command: string
+	cwd?: string
+}
+
+export class StartProcessTool extends BaseTool<"start_process"> {
+	readonly name = "start_process" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): StartProcessParams {
+		return {
+			command: params.command || "",
+			cwd: params.cwd,
+		}
+	}
+
+	async execute(params: StartProcessParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult, toolProtocol } = callbacks
+		const { command, cwd: customCwd } = params
+
+		if (!command) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("start_process")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("start_process", "command"))
+			return
+		}
+
+		const ignoredFileAttemptedToAccess = task.rooIgnoreController?.validateCommand(command)
+
+		if (ignoredFileAttemptedToAccess) {
+			await task.say("rooignore_error", ignoredFileAttemptedToAccess)
+			pushToolResult(formatResponse.rooIgnoreError(ignoredFileAttemptedToAccess, toolProtocol))
+			return
+		}
+
+		task.consecutiveMistakeCount = 0
+
+		try {
+			const unescapedCommand = unescapeHtmlEntities(command)
+			const workingDir = customCwd ? path.resolve(task.cwd, customCwd) : task.cwd
+
+			try {
+				await fs.access(workingDir)
+			} catch {
+				pushToolResult(formatResponse.toolError(`Working directory '${workingDir}' does not exist.`))
+				return
+			}
+
+			const sandbox = await getCommandSandbox(task)
+			const sandboxUnavailableReason = sandbox && getSandboxUnavailableReason(sandbox)
+
+			if (sandboxUnavailableReason) {
+				pushToolResult(formatResponse.toolError(`The process was not started: ${sandboxUnavailableReason}`))
+				return
+			}
+
+			const didApprove = await askApproval(
+				"tool",
+				JSON.stringify({
+					tool: "startProcess",
+					command: unescapedCommand,
+					path: customCwd,
+				} satisfies ClineSayTool),
+			)
+
+			if (!didApprove) {
+				return
+			}
+
+			const { id } = BackgroundProcessRegistry.start(task.taskId, unescapedCommand, workingDir, sandbox)
+
+			await pWaitFor(() => BackgroundProcessRegistry.get(id)?.status !== "running", {
+				interval: 100,
+				timeout: STARTUP_CHECK_MS,
+			}).catch(() => {})
+
+			const info = BackgroundProcessRegistry.get(id)
+
+			if (info && info.status !== "running") {
+				const { output, truncated } = BackgroundProcessRegistry.readOutput(id) ?? {
+					output: "",
+					truncated: false,
+				}
+				pushToolResult(
+					`Process ${id} exited with code ${info.exitCode ?? "unknown"} right after it started.\nOutput:\n${await formatBackgroundProcessOutput(task, output, truncated)}`,
+				)
+				return
+			}
+
+			pushToolResult(
+				`Started process ${id}${info?.pid ? ` (pid ${info.pid})` : ""} in the background${sandbox ? ` in ${describeSandbox(sandbox)}` : ""}: \`${unescapedCommand}\`\n` +
+					`Use wait_for_output to wait until it is ready, read_process_output to read its output, and stop_process to stop it when you no longer need it. It is stopped when the task ends.`,
+			)
+		} catch (error) {
+			await handleError("starting a background process", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"start_process">): Promise<void> {
+		const partialMessage = JSON.stringify({
+			tool: "startProcess",
+			command: this.removeClosingTag("command", block.params.command, block.partial),
+			path: this.removeClosingTag("cwd", block.params.cwd, block.partial),
+		} satisfies ClineSayTool)
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+}
+
+export const startProcessTool = new StartProcessTool()
@@ -0,0 +1,87 @@
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+import type { ToolUse } from "../../shared/tools"
+import { BackgroundProcessRegistry } from "../../integrations/terminal/BackgroundProcessRegistry"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import {
+	describeBackgroundProcess,
+	getTaskBackgroundProcess,
+	parseProcessId,
+	unknownProcessError,
+} from "./helpers/backgroundProcesses"
+
+interface StopProcessParams {
+	process_id: number
+}
+
+export class StopProcessTool extends BaseTool<"stop_process"> {
+	readonly name = "stop_process" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): StopProcessParams {
+		return {
+			process_id: parseProcessId(params.process_id) ?? 0,
+		}
+	}
+
+	async execute(params: StopProcessParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult } = callbacks
+		const processId = parseProcessId(params.process_id)
+
+		if (!processId) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("stop_process")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(await task.sayAndCreateMissingParamError("stop_process", "process_id"))
+			return
+		}
+
+		const info = getTaskBackgroundProcess(task, processId)
+
+		if (!info) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("stop_process")
+			pushToolResult(formatResponse.toolError(unknownProcessError(task, processId)))
+			return
+		}
+
+		task.consecutiveMistakeCount = 0
+
+		try {
+			if (info.status !== "running") {
+				pushToolResult(`${describeBackgroundProcess(info)} is not running anymore.`)
+				return
+			}
+
+			const didApprove = await askApproval(
+				"tool",
+				JSON.stringify({
+					tool: "stopProcess",
+					processId,
+					command: info.command,
+				} satisfies ClineSayTool),
+			)
+
+			if (!didApprove) {
+				return
+			}
+
+			await BackgroundProcessRegistry.stop(processId)
+			pushToolResult(`Stopped process ${processId}: \`${info.command}\``)
+		} catch (error) {
+			await handleError("stopping a background process", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"stop_process">): Promise<void> {
+		const partialMessage = JSON.stringify({
+			tool: "stopProcess",
+			processId: parseProcessId(block.params.process_id),
+		} satisfies ClineSayTool)
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+}
+
+export const stopProcessTool = new StopProcessTool()
@@ -0,0 +1,134 @@
+import { type ClineSayTool } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { formatResponse } from "../prompts/responses"
+import type { ToolUse } from "../../shared/tools"
+import { BackgroundProcessRegistry } from "../../integrations/terminal/BackgroundProcessRegistry"
+
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import {
+	formatBackgroundProcessOutput,
+	getTaskBackgroundProcess,
+	parseProcessId,
+	unknownProcessError,
+} from "./helpers/backgroundProcesses"
+
+const DEFAULT_TIMEOUT_SECONDS = 60
+const MAX_TIMEOUT_SECONDS = 600
+
+interface WaitForOutputParams {
+	process_id: number
+	pattern: string
+	timeout?: number
+}
+
+export class WaitForOutputTool extends BaseTool<"wait_for_output"> {
+	readonly name = "wait_for_output" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): WaitForOutputParams {
+		return {
+			process_id: parseProcessId(params.process_id) ?? 0,
+			pattern: params.pattern || "",
+			timeout: params.timeout ? Number(params.timeout) : undefined,
+		}
+	}
+
+	async execute(params: WaitForOutputParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { askApproval, handleError, pushToolResult } = callbacks
+		const processId = parseProcessId(params.process_id)
+		const { pattern } = params
+
+		if (!processId || !pattern) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("wait_for_output")
+			task.didToolFailInCurrentTurn = true
+			pushToolResult(
+				await task.sayAndCreateMissingParamError("wait_for_output", !processId ? "process_id" : "pattern"),
+			)
+			return
+		}
+
+		let regex: RegExp
+
+		try {
+			regex = new RegExp(pattern)
+		} catch (error) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("wait_for_output")
+			pushToolResult(formatResponse.toolError(`Invalid pattern: ${(error as Error).message}`))
+			return
+		}
+
+		const info = getTaskBackgroundProcess(task, processId)
+
+		if (!info) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("wait_for_output")
+			pushToolResult(formatResponse.toolError(unknownProcessError(task, processId)))
+			return
+		}
+
+		task.consecutiveMistakeCount = 0
+
+		try {
+			const didApprove = await askApproval(
+				"tool",
+				JSON.stringify({
+					tool: "waitForProcessOutput",
+					processId,
+					pattern,
+					command: info.command,
+				} satisfies ClineSayTool),
+			)
+
+			if (!didApprove) {
+				return
+			}
+
+			const timeoutSeconds = Math.min(
+				params.timeout && params.timeout > 0 ? params.timeout : DEFAULT_TIMEOUT_SECONDS,
+				MAX_TIMEOUT_SECONDS,
+			)
+			const result = await BackgroundProcessRegistry.waitForOutput(
+				processId,
+				regex,
+				timeoutSeconds * 1000,
+				() => task.abort,
+			)
+
+			if (!result) {
+				pushToolResult(formatResponse.toolError(unknownProcessError(task, processId)))
+				return
+			}
+
+			const output = await formatBackgroundProcessOutput(task, result.output, result.truncated)
+			let summary: string
+
+			if (result.matched) {
+				summary = `The output of process ${processId} matched /${pattern}/.`
+			} else if (result.info.status !== "running") {
+				summary =
+					result.info.status === "exited"
+						? `Process ${processId} exited with code ${result.info.exitCode ?? "unknown"} before its output matched /${pattern}/.`
+						: `Process ${processId} was stopped before its output matched /${pattern}/.`
+			} else {
+				summary = `The output of process ${processId} did not match /${pattern}/ within ${timeoutSeconds} seconds. The process is still running.`
+			}
+
+			pushToolResult(`${summary}\nOutput since the last read:\n${output}`)
+		} catch (error) {
+			await handleError("waiting for the output of a background process", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"wait_for_output">): Promise<void> {
+		const partialMessage = JSON.stringify({
+			tool: "waitForProcessOutput",
+			processId: parseProcessId(block.params.process_id),
+			pattern: this.removeClosingTag("pattern", block.params.pattern, block.partial),
+		} satisfies ClineSayTool)
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+}
+
+export const waitForOutputTool = new WaitForOutputTool()
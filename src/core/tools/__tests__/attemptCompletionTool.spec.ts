@@ -80,7 +80,14 @@ vi.mock("../../../shared/package", () => ({
 	},
 }))
 
+vi.mock("../helpers/diagnosticsGate", () => ({
+	getDiagnosticsGate: vi.fn().mockResolvedValue(undefined),
+	getIntroducedProblems: vi.fn().mockResolvedValue([]),
+	formatIntroducedProblems: vi.fn(() => "- src/app.ts:9:5 [ts error] Type 'string' is not assignable."),
+}))
+
 import { attemptCompletionTool, AttemptCompletionCallbacks } from "../AttemptCompletionTool"
+import { getDiagnosticsGate, getIntroducedProblems } from "../helpers/diagnosticsGate"
 import { Task } from "../../task/Task"
 import * as vscode from "vscode"
 
@@ -528,4 +535,89 @@ describe("attemptCompletionTool", () => {
 			})
 		})
 	})
+
+	describe("diagnostics gate", () => {
+		const block: AttemptCompletionToolUse = {
+			type: "tool_use",
+			name: "attempt_completion",
+			params: { result: "Task completed successfully" },
+			partial: false,
+		}
+		const problem = {
+			file: "src/app.ts",
+			line: 9,
+			column: 5,
+			severity: "error" as const,
+			source: "ts",
+			message: "Type 'string' is not assignable.",
+		}
+
+		const complete = () => {
+			const callbacks: AttemptCompletionCallbacks = {
+				askApproval: mockAskApproval,
+				handleError: mockHandleError,
+				pushToolResult: mockPushToolResult,
+				removeClosingTag: mockRemoveClosingTag,
+				askFinishSubTaskApproval: mockAskFinishSubTaskApproval,
+				toolDescription: mockToolDescription,
+				toolProtocol: "xml",
+			}
+			return attemptCompletionTool.handle(mockTask as Task, block, callbacks)
+		}
+
+		beforeEach(() => {
+			mockTask.say = vi.fn()
+			mockTask.introducedProblems = { blockedAttempts: 0 } as Task["introducedProblems"]
+			vi.mocked(getDiagnosticsGate).mockResolvedValue({ enabled: true, maxAttempts: 2 })
+		})
+
+		afterEach(() => {
+			vi.mocked(getDiagnosticsGate).mockResolvedValue(undefined)
+			vi.mocked(getIntroducedProblems).mockResolvedValue([])
+		})
+
+		it("blocks completion while the task has introduced problems", async () => {
+			vi.mocked(getIntroducedProblems).mockResolvedValue([problem])
+
+			await complete()
+
+			expect(mockTask.say).toHaveBeenCalledWith(
+				"introduced_problems",
+				JSON.stringify({ problems: [problem], blocked: true }),
+			)
+			expect(mockPushToolResult).toHaveBeenCalledWith(expect.stringContaining("src/app.ts:9:5"))
+			expect(mockTask.introducedProblems!.blockedAttempts).toBe(1)
+			expect(mockTask.say).not.toHaveBeenCalledWith("completion_result", expect.anything(), undefined, false)
+		})
+
+		it("lets the task complete once it runs out of attempts", async () => {
+			vi.mocked(getIntroducedProblems).mockResolvedValue([problem])
+			mockTask.introducedProblems!.blockedAttempts = 2
+
+			await complete()
+
+			expect(mockTask.say).toHaveBeenCalledWith(
+				"introduced_problems",
+				JSON.stringify({ problems: [problem], blocked: false }),
+			)
+			expect(mockTask.say).toHaveBeenCalledWith(
+				"completion_result",
+				"Task completed successfully",
+				undefined,
+				false,
+			)
+		})
+
+		it("lets the task complete without introduced problems", async () => {
+			await complete()
+
+			expect(mockTask.say).not.toHaveBeenCalledWith("introduced_problems", expect.anything())
+			expect(mockTask.say).toHaveBeenCalledWith(
+				"completion_result",
+				"Task completed successfully",
+				undefined,
+				false,
+			)
+		})
+	})
 })
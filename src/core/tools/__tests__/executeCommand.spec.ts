@@ -213,7 +213,12 @@ describe("executeCommand", () => {
 
 			// Verify
 			expect(rejected).toBe(false)
-			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(customCwd, mockTask.taskId, "vscode")
+			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(
+				customCwd,
+				mockTask.taskId,
+				"vscode",
+				undefined,
+			)
 			expect(result).toContain(`within working directory '${customCwd}'`)
 		})
 
@@ -243,7 +248,12 @@ describe("executeCommand", () => {
 
 			// Verify
 			expect(rejected).toBe(false)
-			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(resolvedCwd, mockTask.taskId, "vscode")
+			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(
+				resolvedCwd,
+				mockTask.taskId,
+				"vscode",
+				undefined,
+			)
 			expect(result).toContain(`within working directory '${resolvedCwd.toPosix()}'`)
 		})
 
@@ -292,7 +302,12 @@ describe("executeCommand", () => {
 			await executeCommandInTerminal(mockTask, options)
 
 			// Verify
-			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(mockTask.cwd, mockTask.taskId, "vscode")
+			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(
+				mockTask.cwd,
+				mockTask.taskId,
+				"vscode",
+				undefined,
+			)
 		})
 
 		it("should use execa provider when shell integration is disabled", async () => {
@@ -315,8 +330,47 @@ describe("executeCommand", () => {
 			await executeCommandInTerminal(mockTask, options)
 
 			// Verify
-			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(mockTask.cwd, mockTask.taskId, "execa")
+			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(
+				mockTask.cwd,
+				mockTask.taskId,
+				"execa",
+				undefined,
+			)
 		})
+
+		// Commands cannot run in a sandbox on Windows.
+		it.skipIf(process.platform === "win32")(
+			"should use the sandbox provider when the command runs in a sandbox",
+			async () => {
+				mockTerminal.runCommand.mockImplementation((command: string, callbacks: RooTerminalCallbacks) => {
+					setTimeout(() => {
+						callbacks.onCompleted("Command output", mockProcess)
+						callbacks.onShellExecutionComplete({ exitCode: 0 }, mockProcess)
+					}, 0)
+					return mockProcess
+				})
+
+				const sandbox = { backend: "podman" as const, workspacePath: mockTask.cwd }
+				const options: ExecuteCommandOptions = {
+					executionId: "test-123",
+					command: "echo test",
+					terminalShellIntegrationDisabled: false,
+					terminalOutputLineLimit: 500,
+					sandbox,
+				}
+
+				const [rejected, result] = await executeCommandInTerminal(mockTask, options)
+
+				expect(rejected).toBe(false)
+				expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(
+					mockTask.cwd,
+					mockTask.taskId,
+					"sandbox",
+					sandbox,
+				)
+				expect(result).toContain("in the podman sandbox without network access")
+			},
+		)
 	})
 
 	describe("Command Execution States", () => {
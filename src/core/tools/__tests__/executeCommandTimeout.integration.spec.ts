@@ -283,6 +283,7 @@ describe("Command Execution Timeout Integration", () => {
 			mockTask = {
 				cwd: "/test/directory",
 				terminalProcess: undefined,
+				getTaskMode: vitest.fn().mockResolvedValue("code"),
 				providerRef: {
 					deref: vitest.fn().mockResolvedValue({
 						postMessageToWebview: vitest.fn(),
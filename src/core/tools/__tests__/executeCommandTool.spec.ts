@@ -129,6 +129,7 @@ describe("executeCommandTool", () => {
 			},
 			recordToolUsage: vitest.fn().mockReturnValue({} as ToolUsage),
 			recordToolError: vitest.fn(),
+			getTaskMode: vitest.fn().mockResolvedValue("code"),
 			providerRef: {
 				deref: vitest.fn().mockResolvedValue({
 					getState: vitest.fn().mockResolvedValue({
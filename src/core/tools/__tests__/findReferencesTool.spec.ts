@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { findReferencesTool } from "../FindReferencesTool"
+import { Task } from "../../task/Task"
+import { CodeIndexManager } from "../../../services/code-index/manager"
+import { fileExistsAtPath } from "../../../utils/fs"
+import type { ToolUse } from "../../../shared/tools"
+
+vi.mock("../../../services/code-index/manager", () => ({
+	CodeIndexManager: {
+		getInstance: vi.fn(),
+	},
+}))
+
+vi.mock("../../../utils/fs", () => ({
+	fileExistsAtPath: vi.fn(),
+}))
+
+describe("findReferencesTool", () => {
+	let mockTask: any
+	let mockCallbacks: any
+	let mockManager: any
+
+	const block = (params: ToolUse<"find_references">["params"]): ToolUse<"find_references"> => ({
+		type: "tool_use" as const,
+		name: "find_references" as const,
+		params,
+		partial: false,
+	})
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+
+		mockManager = {
+			isFeatureEnabled: true,
+			isFeatureConfigured: true,
+			findSymbolReferences: vi.fn().mockReturnValue([]),
+			findModuleImporters: vi.fn().mockReturnValue([]),
+		}
+		vi.mocked(CodeIndexManager.getInstance).mockReturnValue(mockManager)
+		vi.mocked(fileExistsAtPath).mockResolvedValue(false)
+
+		mockTask = {
+			consecutiveMistakeCount: 0,
+			recordToolError: vi.fn(),
+			sayAndCreateMissingParamError: vi.fn().mockResolvedValue("Missing parameter error"),
+			ask: vi.fn().mockResolvedValue({}),
+			cwd: "/test/project",
+			providerRef: {
+				deref: vi.fn().mockReturnValue({ context: {} }),
+			},
+		}
+
+		mockCallbacks = {
+			askApproval: vi.fn().mockResolvedValue(true),
+			handleError: vi.fn(),
+			pushToolResult: vi.fn(),
+			removeClosingTag: vi.fn((tag, text) => text || ""),
+		}
+	})
+
+	it("should handle missing symbol parameter", async () => {
+		await findReferencesTool.handle(mockTask as Task, block({}), mockCallbacks)
+
+		expect(mockTask.consecutiveMistakeCount).toBe(1)
+		expect(mockTask.sayAndCreateMissingParamError).toHaveBeenCalledWith("find_references", "symbol")
+		expect(mockCallbacks.pushToolResult).toHaveBeenCalledWith("Missing parameter error")
+	})
+
+	it("should list call sites and type references with their containers", async () => {
+		mockManager.findSymbolReferences.mockReturnValue([
+			{ name: "parseFile", kind: "call", filePath: "src/scanner.ts", line: 42, container: "scanDirectory" },
+			{ name: "parseFile", kind: "import", filePath: "src/watcher.ts", line: 3 },
+		])
+
+		await findReferencesTool.handle(mockTask as Task, block({ symbol: "parseFile", path: "src" }), mockCallbacks)
+
+		expect(mockManager.findSymbolReferences).toHaveBeenCalledWith("parseFile", "src")
+		expect(mockCallbacks.askApproval).toHaveBeenCalledWith(
+			"tool",
+			expect.stringContaining('"tool":"findReferences","symbol":"parseFile","path":"src"'),
+		)
+		expect(mockCallbacks.pushToolResult).toHaveBeenCalledWith(
+			'References to "parseFile":\n\nsrc/scanner.ts:42 call in scanDirectory\nsrc/watcher.ts:3 import reference',
+		)
+	})
+
+	it("should list importers when the symbol is a file path", async () => {
+		mockManager.findModuleImporters.mockReturnValue([
+			{ source: "./cache-manager", filePath: "src/manager.ts", line: 5 },
+		])
+
+		await findReferencesTool.handle(mockTask as Task, block({ symbol: "src/cache-manager.ts" }), mockCallbacks)
+
+		expect(mockManager.findSymbolReferences).not.toHaveBeenCalled()
+		expect(mockManager.findModuleImporters).toHaveBeenCalledWith(expect.stringContaining("cache-manager.ts"))
+		expect(mockCallbacks.pushToolResult).toHaveBeenCalledWith(
+			'Files importing src/cache-manager.ts:\n\nsrc/manager.ts:5 imports "./cache-manager"',
+		)
+	})
+
+	it("should report an error when code indexing is disabled", async () => {
+		mockManager.isFeatureEnabled = false
+
+		await findReferencesTool.handle(mockTask as Task, block({ symbol: "parseFile" }), mockCallbacks)
+
+		expect(mockCallbacks.handleError).toHaveBeenCalledWith(
+			"finding references",
+			new Error("Code Indexing is disabled in the settings."),
+		)
+		expect(mockCallbacks.askApproval).not.toHaveBeenCalled()
+	})
+})
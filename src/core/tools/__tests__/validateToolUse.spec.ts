@@ -1,6 +1,6 @@
 // npx vitest run src/core/tools/__tests__/validateToolUse.spec.ts
 
-import type { ModeConfig } from "@roo-code/types"
+import type { ModeConfig, ToolName } from "@roo-code/types"
 
 import { modes } from "../../../shared/modes"
 import { TOOL_GROUPS } from "../../../shared/tools"
@@ -201,4 +201,86 @@ describe("mode-validator", () => {
 			expect(() => validateToolUse("apply_diff", codeMode, [], undefined)).not.toThrow()
 		})
 	})
+
+	describe("mode permissions", () => {
+		const reviewMode = (permissions: ModeConfig["permissions"]): ModeConfig[] => [
+			{
+				slug: "review",
+				name: "Review",
+				roleDefinition: "You review code",
+				groups: ["read", "edit", "command", "mcp", "browser"],
+				permissions,
+			},
+		]
+		const context = { cwd: "/workspace" }
+
+		it("only allows the allowed commands and never the denied ones", () => {
+			const customModes = reviewMode({ commands: { allow: ["git log", "ls"], deny: ["ls -R"] } })
+			const run = (command: string) =>
+				validateToolUse("execute_command", "review", customModes, undefined, { command })
+
+			expect(() => run("git log --oneline && ls src")).not.toThrow()
+			expect(() => run("git push")).toThrow("can only run commands starting with: git log, ls. Got: git push")
+			expect(() => run("ls -R")).toThrow("cannot run the denied command: ls -R")
+		})
+
+		it("applies the command permissions to background processes", () => {
+			const customModes = reviewMode({ commands: { allow: ["npm run dev"] } })
+			const start = (command: string) =>
+				validateToolUse("start_process", "review", customModes, undefined, { command })
+
+			expect(() => start("npm run dev")).not.toThrow()
+			expect(() => start("python -m http.server")).toThrow("can only run commands starting with: npm run dev")
+		})
+
+		it("restricts MCP servers and tools", () => {
+			const customModes = reviewMode({ mcp: { allow: ["github/get_*", "docs"], deny: ["docs/delete_page"] } })
+			const useTool = (server_name: string, tool_name: string) =>
+				validateToolUse("use_mcp_tool", "review", customModes, undefined, { server_name, tool_name })
+
+			expect(() => useTool("github", "get_issue")).not.toThrow()
+			expect(() => useTool("docs", "search")).not.toThrow()
+			expect(() => useTool("github", "create_issue")).toThrow(
+				"can only use these MCP servers and tools: github/get_*, docs. Got: github/create_issue",
+			)
+			expect(() => useTool("docs", "delete_page")).toThrow("cannot use the denied MCP server or tool")
+			expect(() =>
+				validateToolUse("access_mcp_resource", "review", customModes, undefined, { server_name: "github" }),
+			).toThrow("Got: github")
+		})
+
+		it("restricts reads and writes to path globs", () => {
+			const customModes = reviewMode({ paths: { read: ["src/**", "*.md"], write: ["docs/"] } })
+			const use = (tool: ToolName, params: Record<string, unknown>, nativeArgs?: Record<string, unknown>) =>
+				validateToolUse(tool, "review", customModes, undefined, params, undefined, ["apply_patch"], {
+					...context,
+					nativeArgs,
+				})
+
+			expect(() => use("read_file", { path: "src/a/b.ts" })).not.toThrow()
+			expect(() => use("read_file", { path: "/workspace/README.md" })).not.toThrow()
+			expect(() => use("list_files", { path: "src" })).not.toThrow()
+			expect(() => use("read_file", {}, { files: [{ path: "src/a.ts" }, { path: "secrets/.env" }] })).toThrow(
+				"can only read files matching: src/**, *.md. Got: secrets/.env",
+			)
+			expect(() => use("read_file", { path: "../other/a.ts" })).toThrow("Got: ../other/a.ts")
+			expect(() => use("codebase_search", { query: "auth" })).toThrow("Got: .")
+			expect(() => use("write_to_file", { path: "docs/guide/intro.md", content: "" })).not.toThrow()
+			expect(() => use("write_to_file", { path: "src/a.ts", content: "" })).toThrow(
+				"can only write files matching: docs/. Got: src/a.ts",
+			)
+			expect(() =>
+				use("apply_patch", { patch: "*** Begin Patch\n*** Delete File: src/a.ts\n*** End Patch" }),
+			).toThrow("Got: src/a.ts")
+		})
+
+		it("blocks tools that access the network", () => {
+			expect(() =>
+				validateToolUse("browser_action", "review", reviewMode({ network: false }), undefined, {
+					action: "launch",
+				}),
+			).toThrow("cannot access the network.")
+			expect(() => validateToolUse("browser_action", "review", reviewMode({}), undefined, {})).not.toThrow()
+		})
+	})
 })
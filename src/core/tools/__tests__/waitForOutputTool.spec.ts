@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { waitForOutputTool } from "../WaitForOutputTool"
+import { Task } from "../../task/Task"
+import { BackgroundProcessRegistry } from "../../../integrations/terminal/BackgroundProcessRegistry"
+import type { ToolUse } from "../../../shared/tools"
+
+vi.mock("../../../integrations/terminal/BackgroundProcessRegistry", () => ({
+	BackgroundProcessRegistry: {
+		get: vi.fn(),
+		list: vi.fn().mockReturnValue([]),
+		waitForOutput: vi.fn(),
+	},
+}))
+
+describe("waitForOutputTool", () => {
+	let mockTask: any
+	let mockCallbacks: any
+
+	const info = {
+		id: 1,
+		taskId: "task-1",
+		command: "npm run dev",
+		cwd: "/test/project",
+		status: "running" as const,
+		startedAt: 1,
+		outputTail: "",
+	}
+
+	const block = (params: ToolUse<"wait_for_output">["params"]): ToolUse<"wait_for_output"> => ({
+		type: "tool_use" as const,
+		name: "wait_for_output" as const,
+		params,
+		partial: false,
+	})
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(BackgroundProcessRegistry.get).mockReturnValue(info)
+
+		mockTask = {
+			taskId: "task-1",
+			consecutiveMistakeCount: 0,
+			recordToolError: vi.fn(),
+			sayAndCreateMissingParamError: vi.fn().mockResolvedValue("Missing parameter error"),
+			ask: vi.fn().mockResolvedValue({}),
+			cwd: "/test/project",
+			providerRef: {
+				deref: vi.fn().mockReturnValue({ getState: vi.fn().mockResolvedValue({}) }),
+			},
+		}
+
+		mockCallbacks = {
+			askApproval: vi.fn().mockResolvedValue(true),
+			handleError: vi.fn(),
+			pushToolResult: vi.fn(),
+			removeClosingTag: vi.fn((tag, text) => text || ""),
+		}
+	})
+
+	it("should handle a missing pattern", async () => {
+		await waitForOutputTool.handle(mockTask as Task, block({ process_id: "1" }), mockCallbacks)
+
+		expect(mockTask.sayAndCreateMissingParamError).toHaveBeenCalledWith("wait_for_output", "pattern")
+		expect(BackgroundProcessRegistry.waitForOutput).not.toHaveBeenCalled()
+	})
+
+	it("should not wait for the processes of other tasks", async () => {
+		vi.mocked(BackgroundProcessRegistry.get).mockReturnValue({ ...info, taskId: "task-2" })
+
+		await waitForOutputTool.handle(mockTask as Task, block({ process_id: "1", pattern: "ready" }), mockCallbacks)
+
+		expect(mockCallbacks.pushToolResult).toHaveBeenCalledWith(expect.stringContaining("Process 1 does not exist"))
+		expect(BackgroundProcessRegistry.waitForOutput).not.toHaveBeenCalled()
+	})
+
+	it("should wait for the pattern with the given timeout and return the output", async () => {
+		vi.mocked(BackgroundProcessRegistry.waitForOutput).mockResolvedValue({
+			info,
+			output: "compiling\nready in 300ms",
+			truncated: false,
+			matched: true,
+			timedOut: false,
+		})
+
+		await waitForOutputTool.handle(
+			mockTask as Task,
+			block({ process_id: "1", pattern: "ready in \\d+ms", timeout: "30" }),
+			mockCallbacks,
+		)
+
+		expect(mockCallbacks.askApproval).toHaveBeenCalledWith(
+			"tool",
+			expect.stringContaining('"tool":"waitForProcessOutput","processId":1'),
+		)
+		expect(BackgroundProcessRegistry.waitForOutput).toHaveBeenCalledWith(
+			1,
+			/ready in \d+ms/,
+			30_000,
+			expect.any(Function),
+		)
+		expect(mockCallbacks.pushToolResult).toHaveBeenCalledWith(
+			"The output of process 1 matched /ready in \\d+ms/.\nOutput since the last read:\ncompiling\nready in 300ms",
+		)
+	})
+
+	it("should report processes that exit before the pattern appears", async () => {
+		vi.mocked(BackgroundProcessRegistry.waitForOutput).mockResolvedValue({
+			info: { ...info, status: "exited", exitCode: 1 },
+			output: "Error: port 3000 is in use\n",
+			truncated: false,
+			matched: false,
+			timedOut: false,
+		})
+
+		await waitForOutputTool.handle(mockTask as Task, block({ process_id: "1", pattern: "ready" }), mockCallbacks)
+
+		expect(BackgroundProcessRegistry.waitForOutput).toHaveBeenCalledWith(1, /ready/, 60_000, expect.any(Function))
+		expect(mockCallbacks.pushToolResult).toHaveBeenCalledWith(
+			expect.stringContaining("Process 1 exited with code 1 before its output matched /ready/."),
+		)
+	})
+})
@@ -0,0 +1,50 @@
+import { type BackgroundProcessInfo, DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT } from "@roo-code/types"
+
+import { BackgroundProcessRegistry } from "../../../integrations/terminal/BackgroundProcessRegistry"
+import { Terminal } from "../../../integrations/terminal/Terminal"
+import { Task } from "../../task/Task"
+
+/**
+ * Parses the `process_id` parameter, which is a string with the XML protocol and a number with
+ * the native one.
+ */
+export function parseProcessId(value: unknown): number | undefined {
+	const id = typeof value === "number" ? value : parseInt(String(value ?? ""), 10)
+	return Number.isInteger(id) && id > 0 ? id : undefined
+}
+
+/**
+ * Returns a background process of the task. Tasks cannot see the processes of other tasks.
+ */
+export function getTaskBackgroundProcess(task: Task, processId: number): BackgroundProcessInfo | undefined {
+	const info = BackgroundProcessRegistry.get(processId)
+	return info?.taskId === task.taskId ? info : undefined
+}
+
+export function unknownProcessError(task: Task, processId: number): string {
+	const processes = BackgroundProcessRegistry.list(task.taskId)
+	const known = processes.length > 0 ? processes.map(describeBackgroundProcess).join("\n") : "(none)"
+
+	return `Process ${processId} does not exist. The background processes of this task are:\n${known}`
+}
+
+export function describeBackgroundProcess(info: BackgroundProcessInfo): string {
+	const status = info.status === "exited" ? `exited with code ${info.exitCode ?? "unknown"}` : info.status
+	return `Process ${info.id} (${status}): \`${info.command}\``
+}
+
+/**
+ * Compresses the output of a background process with the terminal output limits of the settings.
+ */
+export async function formatBackgroundProcessOutput(task: Task, output: string, truncated: boolean): Promise<string> {
+	if (!output.trim()) {
+		return "(no new output)"
+	}
+
+	const state = await task.providerRef.deref()?.getState()
+	const { terminalOutputLineLimit = 500, terminalOutputCharacterLimit = DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT } =
+		state ?? {}
+	const compressed = Terminal.compressTerminalOutput(output, terminalOutputLineLimit, terminalOutputCharacterLimit)
+
+	return truncated ? `(older output was dropped)\n${compressed}` : compressed
+}
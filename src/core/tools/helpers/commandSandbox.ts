@@ -0,0 +1,21 @@
+import type { WorkspaceSandbox } from "../../../integrations/terminal/sandbox"
+import { getModeBySlug } from "../../../shared/modes"
+import { Task } from "../../task/Task"
+
+/**
+ * Gets the sandbox that the commands of a task run in: the sandbox of its mode if the mode has one,
+ * or else the sandbox of its API configuration profile. Returns undefined when the commands run on
+ * the host.
+ */
+export async function getCommandSandbox(task: Task): Promise<WorkspaceSandbox | undefined> {
+	const provider = await task.providerRef.deref()
+	const state = await provider?.getState()
+	const mode = getModeBySlug(await task.getTaskMode(), state?.customModes)
+	const sandbox = mode?.commandSandbox ?? task.apiConfiguration?.commandSandbox
+
+	if (!sandbox || sandbox.backend === "none") {
+		return undefined
+	}
+
+	return { ...sandbox, workspacePath: task.cwd }
+}
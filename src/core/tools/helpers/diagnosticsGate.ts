@@ -0,0 +1,40 @@
+import type { DiagnosticsGate, IntroducedProblem, ModeConfig } from "@roo-code/types"
+
+import { waitForDiagnosticsToSettle } from "../../../integrations/diagnostics/IntroducedProblemsTracker"
+import { getModeBySlug } from "../../../shared/modes"
+import { Task } from "../../task/Task"
+
+/**
+ * Gets the diagnostics gate of the mode of a task, or undefined when the mode has none enabled or the
+ * state of the provider cannot be read.
+ */
+export async function getDiagnosticsGate(task: Task): Promise<DiagnosticsGate | undefined> {
+	let customModes: ModeConfig[] | undefined
+
+	try {
+		customModes = (await task.providerRef.deref()?.getState())?.customModes
+	} catch {
+		return undefined
+	}
+
+	const gate = getModeBySlug(await task.getTaskMode(), customModes)?.diagnosticsGate
+	return gate?.enabled ? gate : undefined
+}
+
+/**
+ * Waits for the diagnostics of the files that a task edited to settle, then gets the problems that
+ * the task introduced in the workspace and that the gate does not ignore.
+ */
+export async function getIntroducedProblems(task: Task, gate: DiagnosticsGate): Promise<IntroducedProblem[]> {
+	await waitForDiagnosticsToSettle(task.introducedProblems.trackedFiles)
+	return task.introducedProblems.getIntroducedProblems(task.cwd, gate)
+}
+
+export function formatIntroducedProblems(problems: IntroducedProblem[]): string {
+	return problems
+		.map(
+			({ file, line, column, severity, source, message }) =>
+				`- ${file}:${line}:${column} [${source ? `${source} ` : ""}${severity}] ${message}`,
+		)
+		.join("\n")
+}
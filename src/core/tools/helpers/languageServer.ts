@@ -0,0 +1,69 @@
+import path from "path"
+import * as vscode from "vscode"
+
+import { type SymbolLocation, findSymbolPosition } from "../../../integrations/editor/languageFeatures"
+import { getReadablePath } from "../../../utils/path"
+import { MAX_SYMBOL_GRAPH_RESULTS } from "../../../services/code-index/constants"
+import { Task } from "../../task/Task"
+
+/**
+ * Parses the `line` parameter, which is a string with the XML protocol and a number with the
+ * native one.
+ */
+export function parseLineNumber(value: unknown): number | undefined {
+	const line = typeof value === "number" ? value : parseInt(String(value ?? ""), 10)
+	return Number.isInteger(line) && line > 0 ? line : undefined
+}
+
+/**
+ * Opens a file of the task and finds where a symbol is written on, or right around, a line.
+ *
+ * @returns The position to ask the language server about, or undefined when the symbol is not there
+ */
+export async function locateSymbol(
+	task: Task,
+	relPath: string,
+	line: number,
+	symbol: string,
+): Promise<{ uri: vscode.Uri; position: vscode.Position } | undefined> {
+	const uri = vscode.Uri.file(path.resolve(task.cwd, relPath))
+	const document = await vscode.workspace.openTextDocument(uri)
+	const position = findSymbolPosition(document, line, symbol)
+	return position ? { uri, position } : undefined
+}
+
+export function symbolNotFoundError(relPath: string, line: number, symbol: string): string {
+	return `"${symbol}" is not written on line ${line} of ${relPath}, or within two lines of it. Read the file to find the line of the symbol and try again.`
+}
+
+/**
+ * Formats language server locations as one `path:line:column` line each, followed by the code on
+ * that line. Locations in files that .rooignore blocks are left out.
+ */
+export async function formatSymbolLocations(task: Task, locations: SymbolLocation[]): Promise<string[]> {
+	const documents = new Map<string, vscode.TextDocument | undefined>()
+	const lines: string[] = []
+
+	for (const { uri, range } of locations.slice(0, MAX_SYMBOL_GRAPH_RESULTS)) {
+		const relPath = path.relative(task.cwd, uri.fsPath)
+
+		if (task.rooIgnoreController && !task.rooIgnoreController.validateAccess(relPath)) {
+			continue
+		}
+
+		if (!documents.has(uri.fsPath)) {
+			try {
+				documents.set(uri.fsPath, await vscode.workspace.openTextDocument(uri))
+			} catch {
+				documents.set(uri.fsPath, undefined)
+			}
+		}
+
+		const document = documents.get(uri.fsPath)
+		const code = document && range.start.line < document.lineCount ? document.lineAt(range.start.line).text : ""
+		const location = `${getReadablePath(task.cwd, relPath)}:${range.start.line + 1}:${range.start.character + 1}`
+		lines.push(code.trim() ? `${location}  ${code.trim()}` : location)
+	}
+
+	return lines
+}
@@ -0,0 +1,39 @@
+import { CodeIndexManager } from "../../../services/code-index/manager"
+import { MAX_SYMBOL_GRAPH_RESULTS } from "../../../services/code-index/constants"
+import { Task } from "../../task/Task"
+
+/**
+ * Returns the code index manager backing the symbol graph tools, or throws when the index is unavailable.
+ */
+export function getSymbolGraphManager(task: Task): CodeIndexManager {
+	const context = task.providerRef.deref()?.context
+	if (!context) {
+		throw new Error("Extension context is not available.")
+	}
+
+	const manager = CodeIndexManager.getInstance(context)
+
+	if (!manager) {
+		throw new Error("CodeIndexManager is not available.")
+	}
+
+	if (!manager.isFeatureEnabled) {
+		throw new Error("Code Indexing is disabled in the settings.")
+	}
+	if (!manager.isFeatureConfigured) {
+		throw new Error("Code Indexing is not configured (Missing OpenAI Key or Qdrant URL).")
+	}
+
+	return manager
+}
+
+/**
+ * Formats symbol graph results as one line per location, noting when the result count was capped.
+ */
+export function formatSymbolGraphResults(title: string, lines: string[]): string {
+	const note =
+		lines.length >= MAX_SYMBOL_GRAPH_RESULTS
+			? `\n\n(Showing the first ${MAX_SYMBOL_GRAPH_RESULTS} results. Use the path parameter to narrow the search.)`
+			: ""
+	return `${title}:\n\n${lines.join("\n")}${note}`
+}
@@ -1,10 +1,24 @@
-import type { ToolName, ModeConfig, ExperimentId, GroupOptions, GroupEntry } from "@roo-code/types"
+import * as path from "path"
+
+import type { ToolName, ModeConfig, ModePermissions, ExperimentId, GroupOptions, GroupEntry } from "@roo-code/types"
 import { toolNames as validToolNames } from "@roo-code/types"
 import { customToolRegistry } from "@roo-code/core"
 
-import { type Mode, FileRestrictionError, getModeBySlug, getGroupName } from "../../shared/modes"
+import { type Mode, FileRestrictionError, ModePermissionError, getModeBySlug, getGroupName } from "../../shared/modes"
 import { EXPERIMENT_IDS } from "../../shared/experiments"
 import { TOOL_GROUPS, ALWAYS_AVAILABLE_TOOLS } from "../../shared/tools"
+import { getCommandDecision } from "../auto-approval/commands"
+import { parsePatch } from "./apply-patch/parser"
+
+/**
+ * The context that the permissions of a mode are checked in.
+ */
+export interface ToolPermissionContext {
+	// The workspace directory that relative paths resolve against.
+	cwd: string
+	// The typed arguments of native tool calls, e.g. the files of read_file.
+	nativeArgs?: Record<string, any>
+}
 
 /**
  * Checks if a tool name is a valid, known tool.
@@ -37,6 +51,7 @@ export function validateToolUse(
 	toolParams?: Record<string, unknown>,
 	experiments?: Record<string, boolean>,
 	includedTools?: string[],
+	permissionContext?: ToolPermissionContext,
 ): void {
 	// First, check if the tool name is actually a valid/known tool
 	// This catches completely invalid tool names like "edit_file" that don't exist
@@ -60,6 +75,221 @@ export function validateToolUse(
 	) {
 		throw new Error(`Tool "${toolName}" is not allowed in ${mode} mode.`)
 	}
+
+	const modeConfig = getModeBySlug(mode, customModes)
+
+	if (modeConfig?.permissions) {
+		validateModePermissions(toolName, modeConfig.name, modeConfig.permissions, toolParams, permissionContext)
+	}
+}
+
+const READ_PATH_TOOLS: string[] = [
+	"read_file",
+	"list_files",
+	"search_files",
+	"codebase_search",
+	"find_definition",
+	"find_references",
+	"navigate_symbol",
+]
+
+const WRITE_PATH_TOOLS: string[] = [
+	"write_to_file",
+	"apply_diff",
+	"search_and_replace",
+	"search_replace",
+	"edit_file",
+	"apply_patch",
+	"rename_symbol",
+]
+
+const NETWORK_TOOLS: string[] = ["browser_action"]
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Converts a path glob to a regular expression. "*" and "?" do not match "/", "**" matches any
+ * number of directories, and a directory also matches everything inside it.
+ */
+function globToRegExp(glob: string): RegExp {
+	const pattern =
+		glob
+			.replace(/\\/g, "/")
+			.replace(/^\.\//, "")
+			.replace(/(\/\*\*)?\/?$/, "") || "**"
+	let source = ""
+
+	for (let i = 0; i < pattern.length; i++) {
+		if (pattern.startsWith("**/", i)) {
+			source += "(?:.*/)?"
+			i += 2
+		} else if (pattern.startsWith("**", i)) {
+			source += ".*"
+			i += 1
+		} else if (pattern[i] === "*") {
+			source += "[^/]*"
+		} else if (pattern[i] === "?") {
+			source += "[^/]"
+		} else {
+			source += escapeRegExp(pattern[i])
+		}
+	}
+
+	return new RegExp(`^${source}(?:/.*)?$`)
+}
+
+function matchesWildcard(text: string, pattern: string): boolean {
+	return new RegExp(`^${pattern.split("*").map(escapeRegExp).join(".*")}$`).test(text)
+}
+
+/**
+ * Whether an MCP permission matches a server, or one of its tools. A resource of a server only
+ * matches the permissions for the whole server.
+ */
+function matchesMcpPermission(permission: string, serverName: string, toolName?: string): boolean {
+	const [serverPattern, toolPattern = "*"] = permission.split(/\/(.*)/s)
+
+	if (!matchesWildcard(serverName, serverPattern)) {
+		return false
+	}
+
+	return toolName === undefined ? toolPattern === "*" : matchesWildcard(toolName, toolPattern)
+}
+
+function getToolPaths(tool: string, toolParams?: Record<string, any>, nativeArgs?: Record<string, any>): string[] {
+	const paths: string[] = []
+
+	for (const key of ["path", "file_path"]) {
+		if (typeof toolParams?.[key] === "string" && toolParams[key].trim()) {
+			paths.push(toolParams[key].trim())
+		}
+	}
+
+	if (typeof toolParams?.args === "string") {
+		for (const match of toolParams.args.matchAll(/<path>([^<]+)<\/path>/g)) {
+			paths.push(match[1].trim())
+		}
+	}
+
+	if (Array.isArray(nativeArgs?.files)) {
+		for (const file of nativeArgs.files) {
+			if (typeof file?.path === "string") {
+				paths.push(file.path)
+			}
+		}
+	}
+
+	if (tool === "apply_patch" && typeof toolParams?.patch === "string") {
+		try {
+			for (const hunk of parsePatch(toolParams.patch).hunks) {
+				paths.push(hunk.path)
+
+				if (hunk.type === "UpdateFile" && hunk.movePath) {
+					paths.push(hunk.movePath)
+				}
+			}
+		} catch {
+			// The tool reports invalid patches itself.
+		}
+	}
+
+	return paths
+}
+
+function toWorkspacePath(filePath: string, cwd?: string): string {
+	if (!cwd) {
+		return filePath.replace(/\\/g, "/")
+	}
+
+	const relativePath = path.relative(cwd, path.resolve(cwd, filePath))
+
+	// Paths outside of the workspace are matched as absolute paths.
+	if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+		return path.resolve(cwd, filePath).replace(/\\/g, "/")
+	}
+
+	return relativePath.replace(/\\/g, "/") || "."
+}
+
+/**
+ * Checks the command, MCP, path and network permissions of a mode for a tool call.
+ */
+export function validateModePermissions(
+	tool: string,
+	modeName: string,
+	permissions: ModePermissions,
+	toolParams?: Record<string, any>,
+	context?: ToolPermissionContext,
+): void {
+	const { commands, mcp, paths, network } = permissions
+
+	if (network === false && NETWORK_TOOLS.includes(tool)) {
+		throw new ModePermissionError(modeName, tool, "cannot access the network.")
+	}
+
+	// run_tests has no command parameter, it checks the command it builds itself.
+	if (
+		(tool === "execute_command" || tool === "start_process" || tool === "run_tests") &&
+		typeof toolParams?.command === "string"
+	) {
+		const command = toolParams.command
+		const allow = commands?.allow ?? []
+		const deny = commands?.deny ?? []
+
+		if (deny.length > 0 && getCommandDecision(command, allow, deny) === "auto_deny") {
+			throw new ModePermissionError(modeName, tool, `cannot run the denied command: ${command}`)
+		}
+
+		if (allow.length > 0 && getCommandDecision(command, allow, deny) !== "auto_approve") {
+			throw new ModePermissionError(
+				modeName,
+				tool,
+				`can only run commands starting with: ${allow.join(", ")}. Got: ${command}`,
+			)
+		}
+	}
+
+	if ((tool === "use_mcp_tool" || tool === "access_mcp_resource") && typeof toolParams?.server_name === "string") {
+		const serverName = toolParams.server_name
+		const toolName = tool === "use_mcp_tool" ? (toolParams.tool_name ?? "") : undefined
+		const target = toolName === undefined ? serverName : `${serverName}/${toolName}`
+		const allow = mcp?.allow ?? []
+
+		if ((mcp?.deny ?? []).some((permission) => matchesMcpPermission(permission, serverName, toolName))) {
+			throw new ModePermissionError(modeName, tool, `cannot use the denied MCP server or tool: ${target}`)
+		}
+
+		if (allow.length > 0 && !allow.some((permission) => matchesMcpPermission(permission, serverName, toolName))) {
+			throw new ModePermissionError(
+				modeName,
+				tool,
+				`can only use these MCP servers and tools: ${allow.join(", ")}. Got: ${target}`,
+			)
+		}
+	}
+
+	const globs = READ_PATH_TOOLS.includes(tool) ? paths?.read : WRITE_PATH_TOOLS.includes(tool) ? paths?.write : []
+
+	if (globs?.length) {
+		const access = READ_PATH_TOOLS.includes(tool) ? "read" : "write"
+		const toolPaths = getToolPaths(tool, toolParams, context?.nativeArgs)
+		const regexes = globs.map(globToRegExp)
+
+		// Tools without a path, like a codebase search, work on the whole workspace.
+		for (const toolPath of toolPaths.length > 0 ? toolPaths : ["."]) {
+			const workspacePath = toWorkspacePath(toolPath, context?.cwd)
+
+			if (!regexes.some((regex) => regex.test(workspacePath))) {
+				throw new ModePermissionError(
+					modeName,
+					tool,
+					`can only ${access} files matching: ${globs.join(", ")}. Got: ${toolPath}`,
+				)
+			}
+		}
+	}
 }
 
 const EDIT_OPERATION_PARAMS = ["diff", "content", "operations", "search", "replace", "args", "line"] as const
@@ -68,6 +68,7 @@ import { EMBEDDING_MODEL_PROFILES } from "../../shared/embeddingModels"
 import { ProfileValidator } from "../../shared/ProfileValidator"
 
 import { Terminal } from "../../integrations/terminal/Terminal"
+import { BackgroundProcessRegistry } from "../../integrations/terminal/BackgroundProcessRegistry"
 import { downloadTask } from "../../integrations/misc/export-markdown"
 import { getTheme } from "../../integrations/theme/getTheme"
 import WorkspaceTracker from "../../integrations/workspace/WorkspaceTracker"
@@ -104,7 +105,7 @@ import { webviewMessageHandler } from "./webviewMessageHandler"
 // import type { ClineMessage } from "@roo-code/types"
 // import { readApiMessages, saveApiMessages, saveTaskMessages } from "../task-persistence"
 import type { ClineMessage, TodoItem } from "@roo-code/types"
-import { readApiMessages, saveApiMessages, saveTaskMessages } from "../task-persistence"
+import { readApiMessages, removeTasksFromSearchIndex, saveApiMessages, saveTaskMessages } from "../task-persistence"
 import { readTaskMessages } from "../task-persistence/taskMessages"
 import { getNonce } from "./getNonce"
 import { getUri } from "./getUri"
@@ -169,6 +170,8 @@ export class ClineProvider
 	private recentTasksCache?: string[]
 	private pendingOperations: Map<string, PendingEditOperation> = new Map()
 	private static readonly PENDING_OPERATION_TIMEOUT_MS = 30000 // 30 seconds
+	private backgroundProcessesUpdateTimeout?: NodeJS.Timeout
+	private static readonly BACKGROUND_PROCESSES_UPDATE_INTERVAL_MS = 500
 
 	// private cloudOrganizationsCache: CloudOrganizationMembership[] | null = null
 	// private cloudOrganizationsCacheTimestamp: number | null = null
@@ -210,6 +213,20 @@ export class ClineProvider
 			await this.postStateToWebview()
 		})
 
+		// Background processes print output all the time, so the webview is updated at most twice a second.
+		const removeBackgroundProcessListener = BackgroundProcessRegistry.onDidChange(() => {
+			this.backgroundProcessesUpdateTimeout ??= setTimeout(() => {
+				this.backgroundProcessesUpdateTimeout = undefined
+				this.postBackgroundProcessesToWebview().catch(() => {})
+			}, ClineProvider.BACKGROUND_PROCESSES_UPDATE_INTERVAL_MS)
+		})
+		this.disposables.push({
+			dispose: () => {
+				removeBackgroundProcessListener()
+				clearTimeout(this.backgroundProcessesUpdateTimeout)
+			},
+		})
+
 		// Initialize MCP Hub through the singleton manager
 		McpServerManager.getInstance(this.context, this)
 			.then((hub) => {
@@ -530,7 +547,13 @@ export class ClineProvider
 
 	// Removes and destroys the top Cline instance (the current finished task),
 	// activating the previous one (resuming the parent task).
-	async removeClineFromStack() {
+	// A task that is suspended for delegation keeps its background processes running. A subtask
+	// that is removed without resuming its parent abandons the delegation, so the processes of the
+	// parents that wait for it are stopped.
+	async removeClineFromStack({
+		suspendForDelegation = false,
+		resumingParent = false,
+	}: { suspendForDelegation?: boolean; resumingParent?: boolean } = {}) {
 		if (this.clineStack.length === 0) {
 			return
 		}
@@ -540,6 +563,11 @@ export class ClineProvider
 
 		if (task) {
 			task.emit(RooCodeEventName.TaskUnfocused)
+			task.suspendedForDelegation = suspendForDelegation
+
+			if (!suspendForDelegation && !resumingParent) {
+				this.stopWaitingParentProcesses(task)
+			}
 
 			try {
 				// Abort the running task and set isAbandoned to true so
@@ -566,6 +594,20 @@ export class ClineProvider
 		}
 	}
 
+	private stopWaitingParentProcesses(task: Task) {
+		const history = this.getGlobalState("taskHistory") ?? []
+		// The parents that are still open were not suspended, and keep running their processes.
+		const skippedTaskIds = new Set(this.clineStack.map((openTask) => openTask.taskId))
+		let parentTaskId = task.parentTaskId
+
+		while (parentTaskId && !skippedTaskIds.has(parentTaskId)) {
+			const parentId: string = parentTaskId
+			skippedTaskIds.add(parentId)
+			void BackgroundProcessRegistry.stopProcessesForTask(parentId)
+			parentTaskId = history.find((item) => item.id === parentId)?.parentTaskId
+		}
+	}
+
 	getTaskStackSize(): number {
 		return this.clineStack.length
 	}
@@ -1240,6 +1282,13 @@ export class ClineProvider
 		await this.view?.webview.postMessage(message)
 	}
 
+	public async postBackgroundProcessesToWebview() {
+		await this.postMessageToWebview({
+			type: "backgroundProcesses",
+			backgroundProcesses: BackgroundProcessRegistry.list(),
+		})
+	}
+
 	private async getHMRHtmlContent(webview: vscode.Webview): Promise<string> {
 		let localPort = "5173"
 
@@ -1979,6 +2028,10 @@ export class ClineProvider
 		const updatedTaskHistory = taskHistory.filter((task) => task.id !== id)
 		await this.updateGlobalState("taskHistory", updatedTaskHistory)
 		this.recentTasksCache = undefined
+		await removeTasksFromSearchIndex({
+			taskIds: [id],
+			globalStoragePath: this.contextProxy.globalStorageUri.fsPath,
+		})
 		await this.postStateToWebview()
 	}
 
@@ -2366,6 +2419,7 @@ export class ClineProvider
 			codebaseIndexConfig: {
 				codebaseIndexEnabled: codebaseIndexConfig?.codebaseIndexEnabled ?? defaultCodebaseIndexEnabled,
 				codebaseIndexQdrantUrl: codebaseIndexConfig?.codebaseIndexQdrantUrl ?? "http://localhost:6333",
+				codebaseIndexVectorStoreProvider: codebaseIndexConfig?.codebaseIndexVectorStoreProvider ?? "qdrant",
 				codebaseIndexEmbedderProvider: codebaseIndexConfig?.codebaseIndexEmbedderProvider ?? "openai",
 				codebaseIndexEmbedderBaseUrl: codebaseIndexConfig?.codebaseIndexEmbedderBaseUrl ?? "",
 				codebaseIndexEmbedderModelId: codebaseIndexConfig?.codebaseIndexEmbedderModelId ?? "",
@@ -2629,6 +2683,8 @@ export class ClineProvider
 					stateValues.codebaseIndexConfig?.codebaseIndexEnabled ?? defaultCodebaseIndexEnabled,
 				codebaseIndexQdrantUrl:
 					stateValues.codebaseIndexConfig?.codebaseIndexQdrantUrl ?? "http://localhost:6333",
+				codebaseIndexVectorStoreProvider:
+					stateValues.codebaseIndexConfig?.codebaseIndexVectorStoreProvider ?? "qdrant",
 				codebaseIndexEmbedderProvider:
 					stateValues.codebaseIndexConfig?.codebaseIndexEmbedderProvider ?? "openai",
 				codebaseIndexEmbedderBaseUrl: stateValues.codebaseIndexConfig?.codebaseIndexEmbedderBaseUrl ?? "",
@@ -3439,7 +3495,7 @@ export class ClineProvider
 		//    This ensures we never have >1 tasks open at any time during delegation.
 		//    Await abort completion to ensure clean disposal and prevent unhandled rejections.
 		try {
-			await this.removeClineFromStack()
+			await this.removeClineFromStack({ suspendForDelegation: true })
 		} catch (error) {
 			this.log(
 				`[delegateParentAndOpenChild] Error during parent disposal (non-fatal): ${
@@ -3664,7 +3720,7 @@ export class ClineProvider
 		// 6) Close child instance if still open (single-open-task invariant)
 		const current = this.getCurrentTask()
 		if (current?.taskId === childTaskId) {
-			await this.removeClineFromStack()
+			await this.removeClineFromStack({ resumingParent: true })
 		}
 
 		// 7) Reopen the parent from history as the sole active task (restores saved mode)
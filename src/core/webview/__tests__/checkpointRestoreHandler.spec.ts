@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from "vitest"
-import { handleCheckpointRestoreOperation } from "../checkpointRestoreHandler"
+import {
+	handleCheckpointLabel,
+	handleCheckpointRestoreFiles,
+	handleCheckpointRestoreOperation,
+	handleCheckpointTimelineDiff,
+} from "../checkpointRestoreHandler"
 import { saveTaskMessages } from "../../task-persistence"
 import pWaitFor from "p-wait-for"
 import * as vscode from "vscode"
@@ -13,6 +18,7 @@ vi.mock("vscode", async (importOriginal) => ({
 	...(await importOriginal()),
 	window: {
 		showErrorMessage: vi.fn(),
+		showInformationMessage: vi.fn(),
 	},
 }))
 
@@ -240,4 +246,101 @@ describe("checkpointRestoreHandler", () => {
 			)
 		})
 	})
+
+	describe("checkpoint timeline", () => {
+		beforeEach(() => {
+			mockCline.clineMessages.push({
+				ts: 5,
+				type: "say",
+				say: "checkpoint_saved",
+				text: "def456",
+				checkpoint: { from: "abc123", to: "def456" },
+			})
+			mockCline.checkpointTimelineDiff = vi.fn().mockResolvedValue([
+				{
+					paths: { relative: "src/app.ts", absolute: "/ws/src/app.ts" },
+					content: { before: "a\nb\n", after: "a\nc\n" },
+				},
+				{
+					paths: { relative: "new.ts", absolute: "/ws/new.ts" },
+					content: { before: "", after: "x\n" },
+				},
+			])
+			mockCline.checkpointRestoreFiles = vi.fn().mockResolvedValue(true)
+		})
+
+		it("should send the diff between two checkpoints split into hunks", async () => {
+			await handleCheckpointTimelineDiff(mockProvider, { from: "abc123", to: "def456" })
+
+			expect(mockCline.checkpointTimelineDiff).toHaveBeenCalledWith({ from: "abc123", to: "def456" })
+			expect(mockProvider.postMessageToWebview).toHaveBeenCalledWith({
+				type: "checkpointTimelineDiff",
+				payload: {
+					from: "abc123",
+					to: "def456",
+					files: [
+						{
+							path: "src/app.ts",
+							status: "modified",
+							hunks: [{ oldStart: 1, oldLines: 2, newStart: 1, newLines: 2, lines: [" a", "-b", "+c"] }],
+						},
+						{ path: "new.ts", status: "added", hunks: [expect.objectContaining({ lines: ["+x"] })] },
+					],
+				},
+			})
+		})
+
+		it("should report an error when checkpoints are unavailable", async () => {
+			mockCline.checkpointTimelineDiff.mockResolvedValue(undefined)
+
+			await handleCheckpointTimelineDiff(mockProvider, { from: "abc123" })
+
+			expect(mockProvider.postMessageToWebview).toHaveBeenCalledWith({
+				type: "checkpointTimelineDiff",
+				payload: { from: "abc123", to: undefined, files: [], error: expect.any(String) },
+			})
+		})
+
+		it("should save and clear checkpoint labels", async () => {
+			const message = mockCline.clineMessages[4]
+
+			await handleCheckpointLabel(mockProvider, { commitHash: "def456", label: "  Before refactor " })
+
+			expect(message.checkpoint).toEqual({ from: "abc123", to: "def456", label: "Before refactor" })
+			expect(saveTaskMessages).toHaveBeenCalledWith({
+				messages: mockCline.clineMessages,
+				taskId: "test-task-123",
+				globalStoragePath: "/test/storage",
+			})
+			expect(mockProvider.postMessageToWebview).toHaveBeenCalledWith({
+				type: "messageUpdated",
+				clineMessage: message,
+			})
+
+			await handleCheckpointLabel(mockProvider, { commitHash: "def456", label: "" })
+			expect(message.checkpoint).toEqual({ from: "abc123", to: "def456" })
+		})
+
+		it("should restore selected files without restoring the task", async () => {
+			const files = [{ path: "src/app.ts", hunks: [0] }, { path: "new.ts" }]
+
+			await handleCheckpointRestoreFiles(mockProvider, { commitHash: "abc123", files })
+
+			expect(mockCline.checkpointRestoreFiles).toHaveBeenCalledWith({ commitHash: "abc123", files })
+			expect(vscode.window.showInformationMessage).toHaveBeenCalled()
+			expect(mockCline.checkpointRestore).not.toHaveBeenCalled()
+			expect(mockCline.abortTask).not.toHaveBeenCalled()
+			// The timeline is refreshed against the current workspace
+			expect(mockCline.checkpointTimelineDiff).toHaveBeenCalledWith({ from: "abc123", to: undefined })
+		})
+
+		it("should show an error when restoring files fails", async () => {
+			mockCline.checkpointRestoreFiles.mockRejectedValue(new Error("disk full"))
+
+			await handleCheckpointRestoreFiles(mockProvider, { commitHash: "abc123", files: [{ path: "new.ts" }] })
+
+			expect(vscode.window.showErrorMessage).toHaveBeenCalledTimes(1)
+			expect(vscode.window.showInformationMessage).not.toHaveBeenCalled()
+		})
+	})
 })
@@ -1,6 +1,14 @@
+import type {
+	CheckpointLabelPayload,
+	CheckpointRestoreFilesPayload,
+	CheckpointTimelineDiff,
+	CheckpointTimelineDiffPayload,
+} from "@roo-code/types"
+
 import { Task } from "../task/Task"
 import { ClineProvider } from "./ClineProvider"
 import { saveTaskMessages } from "../task-persistence"
+import { getDiffHunks } from "../../services/checkpoints/hunks"
 import * as vscode from "vscode"
 import pWaitFor from "p-wait-for"
 import { t } from "../../i18n"
@@ -102,3 +110,92 @@ export async function waitForClineInitialization(provider: ClineProvider, timeou
 		return false
 	}
 }
+
+/**
+ * Sends the diff between a checkpoint and a later checkpoint, or the current workspace,
+ * to the checkpoint timeline as a list of files with their hunks.
+ */
+export async function handleCheckpointTimelineDiff(
+	provider: ClineProvider,
+	{ from, to }: CheckpointTimelineDiffPayload,
+): Promise<void> {
+	const response: CheckpointTimelineDiff = { from, to, files: [] }
+
+	try {
+		const changes = await provider.getCurrentTask()?.checkpointTimelineDiff({ from, to })
+
+		if (!changes) {
+			throw new Error(t("common:errors.checkpoint_unavailable"))
+		}
+
+		response.files = changes.map(({ paths, content }) => ({
+			path: paths.relative,
+			status: !content.before ? "added" : !content.after ? "deleted" : "modified",
+			hunks: getDiffHunks(content.before, content.after),
+		}))
+	} catch (error) {
+		console.error("Error computing checkpoint timeline diff:", error)
+		response.error = error instanceof Error ? error.message : String(error)
+	}
+
+	await provider.postMessageToWebview({ type: "checkpointTimelineDiff", payload: response })
+}
+
+/**
+ * Sets or clears the label of a checkpoint, which is kept with the `checkpoint_saved` message.
+ */
+export async function handleCheckpointLabel(
+	provider: ClineProvider,
+	{ commitHash, label }: CheckpointLabelPayload,
+): Promise<void> {
+	const currentCline = provider.getCurrentTask()
+	const message = currentCline?.clineMessages.find((msg) => msg.say === "checkpoint_saved" && msg.text === commitHash)
+
+	if (!currentCline || !message) {
+		return
+	}
+
+	const checkpoint = { ...message.checkpoint }
+	delete checkpoint.label
+	if (label.trim()) {
+		checkpoint.label = label.trim()
+	}
+	message.checkpoint = checkpoint
+
+	await saveTaskMessages({
+		messages: currentCline.clineMessages,
+		taskId: currentCline.taskId,
+		globalStoragePath: provider.contextProxy.globalStorageUri.fsPath,
+	})
+	await provider.postMessageToWebview({ type: "messageUpdated", clineMessage: message })
+}
+
+/**
+ * Restores selected files or hunks from a checkpoint into the workspace. Unlike a full restore,
+ * the task keeps running and later checkpoints and messages are kept.
+ */
+export async function handleCheckpointRestoreFiles(
+	provider: ClineProvider,
+	{ commitHash, files }: CheckpointRestoreFilesPayload,
+): Promise<void> {
+	try {
+		const restored = await provider.getCurrentTask()?.checkpointRestoreFiles({ commitHash, files })
+
+		if (!restored) {
+			vscode.window.showErrorMessage(t("common:errors.checkpoint_unavailable"))
+			return
+		}
+
+		vscode.window.showInformationMessage(t("common:info.checkpoint_files_restored", { count: files.length }))
+	} catch (error) {
+		console.error("Error restoring files from checkpoint:", error)
+		vscode.window.showErrorMessage(
+			t("common:errors.checkpoint_restore_files_failed", {
+				error: error instanceof Error ? error.message : String(error),
+			}),
+		)
+	}
+
+	// Refresh the timeline so restored files and hunks drop out of the diff
+	await handleCheckpointTimelineDiff(provider, { from: commitHash })
+}
@@ -16,23 +16,33 @@ import {
 	type ModelRecord,
 	type WebviewMessage,
 	type EditQueuedMessagePayload,
+	type Command,
+	type WorkspaceSymbolSearchResult,
 	TelemetryEventName,
 	ModelInfo,
 	RooCodeSettings,
 	ExperimentId,
 	checkoutDiffPayloadSchema,
 	checkoutRestorePayloadSchema,
+	checkpointTimelineDiffPayloadSchema,
+	checkpointLabelPayloadSchema,
+	checkpointRestoreFilesPayloadSchema,
 } from "@roo-code/types"
 import { customToolRegistry } from "@roo-code/core"
 import { CloudService } from "@roo-code/cloud"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { type ApiMessage } from "../task-persistence/apiMessages"
-import { saveTaskMessages } from "../task-persistence"
+import { saveTaskMessages, searchTaskHistory } from "../task-persistence"
 
 import { ClineProvider } from "./ClineProvider"
 import { BrowserSessionPanelManager } from "./BrowserSessionPanelManager"
-import { handleCheckpointRestoreOperation } from "./checkpointRestoreHandler"
+import {
+	handleCheckpointLabel,
+	handleCheckpointRestoreFiles,
+	handleCheckpointRestoreOperation,
+	handleCheckpointTimelineDiff,
+} from "./checkpointRestoreHandler"
 import { generateErrorDiagnostics } from "./diagnosticsHandler"
 import { changeLanguage, t } from "../../i18n"
 import { Package } from "../../shared/package"
@@ -42,15 +52,17 @@ import { MessageEnhancer } from "./messageEnhancer"
 import { checkExistKey } from "../../shared/checkExistApiConfig"
 import { experimentDefault } from "../../shared/experiments"
 import { Terminal } from "../../integrations/terminal/Terminal"
+import { BackgroundProcessRegistry } from "../../integrations/terminal/BackgroundProcessRegistry"
 import { openFile } from "../../integrations/misc/open-file"
 import { openImage, saveImage } from "../../integrations/misc/image-handler"
 import { selectImages } from "../../integrations/misc/process-images"
 import { getTheme } from "../../integrations/theme/getTheme"
 import { discoverChromeHostUrl, tryChromeHostUrl } from "../../services/browser/browserDiscovery"
 import { searchWorkspaceFiles } from "../../services/search/file-search"
+import { searchWorkspaceSymbols } from "../../services/search/symbol-search"
 import { fileExistsAtPath } from "../../utils/fs"
 import { playTts, setTtsEnabled, setTtsSpeed, stopTts } from "../../utils/tts"
-import { searchCommits } from "../../utils/git"
+import { searchBranches, searchCommits } from "../../utils/git"
 import { exportSettings, importSettingsWithFeedback } from "../config/importExport"
 import { getOpenAiModels } from "../../api/providers/openai"
 import { getVsCodeLmModels } from "../../api/providers/vscode-lm"
@@ -874,6 +886,38 @@ export const webviewMessageHandler = async (
 			}
 			break
 		}
+		case "requestBackgroundProcesses":
+			await provider.postBackgroundProcessesToWebview()
+			break
+		case "stopBackgroundProcess":
+			if (message.processId !== undefined) {
+				await BackgroundProcessRegistry.stop(message.processId)
+			}
+			break
+		case "searchTaskHistory": {
+			try {
+				const results = await searchTaskHistory({
+					query: message.query ?? "",
+					fileFilter: message.fileFilter,
+					taskIds: (getGlobalState("taskHistory") ?? []).map((item) => item.id),
+					globalStoragePath: provider.contextProxy.globalStorageUri.fsPath,
+				})
+
+				await provider.postMessageToWebview({
+					type: "taskHistorySearchResults",
+					requestId: message.requestId,
+					taskSearchResults: results,
+				})
+			} catch (error) {
+				await provider.postMessageToWebview({
+					type: "taskHistorySearchResults",
+					requestId: message.requestId,
+					taskSearchResults: [],
+					error: error instanceof Error ? error.message : String(error),
+				})
+			}
+			break
+		}
 		case "exportTaskWithId":
 			provider.exportTaskWithId(message.text!)
 			break
@@ -1292,6 +1336,36 @@ export const webviewMessageHandler = async (
 
 			break
 		}
+		case "checkpointTimelineDiff": {
+			const result = checkpointTimelineDiffPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				await handleCheckpointTimelineDiff(provider, result.data)
+			}
+
+			break
+		}
+		case "checkpointLabel": {
+			const result = checkpointLabelPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				await handleCheckpointLabel(provider, result.data)
+			}
+
+			break
+		}
+		case "checkpointRestoreFiles": {
+			const result = checkpointRestoreFilesPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				await handleCheckpointRestoreFiles(provider, result.data)
+			}
+
+			break
+		}
+		case "exportTaskCheckpoints":
+			await vscode.commands.executeCommand(getCommand("exportTaskCheckpoints"), provider.getCurrentTask()?.taskId)
+			break
 		case "cancelTask":
 			await provider.cancelTask()
 			break
@@ -1487,6 +1561,26 @@ export const webviewMessageHandler = async (
 			}
 			break
 		}
+		case "authorizeMcpServer": {
+			try {
+				await provider.getMcpHub()?.authorizeServer(message.serverName!, message.source as "global" | "project")
+			} catch (error) {
+				provider.log(
+					`Failed to authorize MCP server ${message.serverName}: ${JSON.stringify(error, Object.getOwnPropertyNames(error), 2)}`,
+				)
+			}
+			break
+		}
+		case "signOutMcpServer": {
+			try {
+				await provider.getMcpHub()?.signOutServer(message.serverName!, message.source as "global" | "project")
+			} catch (error) {
+				provider.log(
+					`Failed to sign out of MCP server ${message.serverName}: ${JSON.stringify(error, Object.getOwnPropertyNames(error), 2)}`,
+				)
+			}
+			break
+		}
 		case "toggleToolAlwaysAllow": {
 			try {
 				await provider
@@ -1875,6 +1969,35 @@ export const webviewMessageHandler = async (
 			}
 			break
 		}
+		case "searchBranches": {
+			const cwd = getCurrentCwd()
+			if (cwd) {
+				await provider.postMessageToWebview({
+					type: "branchSearchResults",
+					branches: await searchBranches(message.query || "", cwd),
+				})
+			}
+			break
+		}
+		case "searchSymbols": {
+			const workspacePath = getCurrentCwd()
+			let symbols: WorkspaceSymbolSearchResult[] = []
+
+			if (workspacePath) {
+				try {
+					symbols = await searchWorkspaceSymbols(message.query || "", workspacePath)
+				} catch (error) {
+					provider.log(`Error searching symbols: ${error instanceof Error ? error.message : String(error)}`)
+				}
+			}
+
+			await provider.postMessageToWebview({
+				type: "symbolSearchResults",
+				symbols,
+				requestId: message.requestId,
+			})
+			break
+		}
 		case "searchFiles": {
 			const workspacePath = getCurrentCwd()
 
@@ -2711,6 +2834,7 @@ export const webviewMessageHandler = async (
 					...currentConfig,
 					codebaseIndexEnabled: settings.codebaseIndexEnabled,
 					codebaseIndexQdrantUrl: settings.codebaseIndexQdrantUrl,
+					codebaseIndexVectorStoreProvider: settings.codebaseIndexVectorStoreProvider,
 					codebaseIndexEmbedderProvider: settings.codebaseIndexEmbedderProvider,
 					codebaseIndexEmbedderBaseUrl: settings.codebaseIndexEmbedderBaseUrl,
 					codebaseIndexEmbedderModelId: settings.codebaseIndexEmbedderModelId,
@@ -2990,6 +3114,74 @@ export const webviewMessageHandler = async (
 			}
 			break
 		}
+		case "migrateCodeIndexVectorStore": {
+			const target = message.text === "local" ? "local" : "qdrant"
+			try {
+				const manager = provider.getCurrentWorkspaceCodeIndexManager()
+				if (!manager) {
+					throw new Error(t("embeddings:orchestrator.indexingRequiresWorkspace"))
+				}
+				const copied = await manager.migrateVectorStore(target)
+				provider.log(`Migrated ${copied} code index points to the ${target} vector store`)
+
+				// Switch to the migrated backend; the copied completion marker lets it resume incrementally
+				const currentConfig = getGlobalState("codebaseIndexConfig") || {}
+				await updateGlobalState("codebaseIndexConfig", {
+					...currentConfig,
+					codebaseIndexVectorStoreProvider: target,
+				})
+				await provider.postStateToWebview()
+				await manager.handleSettingsChange()
+				manager.startIndexing()
+
+				provider.postMessageToWebview({
+					type: "codeIndexVectorStoreOperationResult",
+					values: { operation: "migrate", provider: target, success: true, count: copied },
+				})
+			} catch (error) {
+				provider.log(
+					`Error migrating code index vector store: ${error instanceof Error ? error.message : String(error)}`,
+				)
+				provider.postMessageToWebview({
+					type: "codeIndexVectorStoreOperationResult",
+					values: {
+						operation: "migrate",
+						provider: target,
+						success: false,
+						error: error instanceof Error ? error.message : String(error),
+					},
+				})
+			}
+			break
+		}
+		case "clearCodeIndexVectorStore": {
+			const target = message.text === "local" ? "local" : "qdrant"
+			try {
+				const manager = provider.getCurrentWorkspaceCodeIndexManager()
+				if (!manager) {
+					throw new Error(t("embeddings:orchestrator.indexingRequiresWorkspace"))
+				}
+				await manager.clearVectorStoreData(target)
+				provider.postMessageToWebview({
+					type: "codeIndexVectorStoreOperationResult",
+					values: { operation: "clear", provider: target, success: true },
+				})
+			} catch (error) {
+				provider.log(
+					`Error clearing code index vector store: ${error instanceof Error ? error.message : String(error)}`,
+				)
+				provider.postMessageToWebview({
+					type: "codeIndexVectorStoreOperationResult",
+					values: {
+						operation: "clear",
+						provider: target,
+						success: false,
+						error: error instanceof Error ? error.message : String(error),
+					},
+				})
+			}
+			break
+		}
 		case "zgsmPollCodebaseIndexStatus": {
 			try {
 				const { apiConfiguration } = await provider.getState()
@@ -3197,7 +3389,7 @@ export const webviewMessageHandler = async (
 				const { getCommands } = await import("../../services/command/commands")
 				const commands = await getCommands(getCurrentCwd())
 
-				const commandList = commands.map((command) => ({
+				const commandList: Command[] = commands.map((command) => ({
 					name: command.name,
 					source: command.source,
 					filePath: command.filePath,
@@ -3205,6 +3397,18 @@ export const webviewMessageHandler = async (
 					argumentHint: command.argumentHint,
 				}))
 
+				// MCP prompts can be invoked as slash commands, their arguments follow the command name.
+				for (const { name, prompt } of provider.getMcpHub()?.getPromptCommands() ?? []) {
+					commandList.push({
+						name,
+						source: "mcp",
+						description: prompt.description ?? prompt.title,
+						argumentHint: prompt.arguments
+							?.map((argument) => (argument.required ? `<${argument.name}>` : `[${argument.name}]`))
+							.join(" "),
+					})
+				}
+
 				await provider.postMessageToWebview({ type: "commands", commands: commandList })
 			} catch (error) {
 				provider.log(`Error fetching commands: ${JSON.stringify(error, Object.getOwnPropertyNames(error), 2)}`)
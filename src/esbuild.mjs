@@ -2,6 +2,7 @@ import * as esbuild from "esbuild"
 import * as fs from "fs"
 import * as path from "path"
 import { fileURLToPath } from "url"
+import { createRequire } from "module"
 import process from "node:process"
 import * as console from "node:console"
 
@@ -10,6 +11,7 @@ import { networkInterfacesCompatible } from "../scripts/network-interfaces-compa
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
+const require = createRequire(import.meta.url)
 
 async function main() {
 	const name = "extension"
@@ -114,13 +116,51 @@ async function main() {
 		external: ["vscode", "esbuild", "global-agent"],
 	}
 
+	// The local embedder loads onnxruntime's native binding relative to the worker bundle
+	// (dist/workers -> dist/bin/napi-v3/<platform>/<arch>). The VSIX is not platform-specific,
+	// so ship the binaries of every platform and architecture.
+	const onnxRuntimeDir = path.dirname(
+		createRequire(require.resolve("@huggingface/transformers")).resolve("onnxruntime-node/package.json"),
+	)
+	const onnxRuntimeBinPath = path.join("bin", "napi-v3")
+
+	/**
+	 * @type {import('esbuild').Plugin[]}
+	 */
+	const workerPlugins = [
+		{
+			name: "copyOnnxRuntime",
+			setup(build) {
+				build.onEnd(() =>
+					copyPaths(
+						[[path.relative(srcDir, path.join(onnxRuntimeDir, onnxRuntimeBinPath)), onnxRuntimeBinPath]],
+						srcDir,
+						distDir,
+					),
+				)
+			},
+		},
+		{
+			name: "stubSharp",
+			setup(build) {
+				// transformers.js only uses sharp for image inputs, which the local embedder never sends.
+				build.onResolve({ filter: /^sharp$/ }, () => ({ path: "sharp", namespace: "stub-sharp" }))
+				build.onLoad({ filter: /.*/, namespace: "stub-sharp" }, () => ({
+					contents: 'module.exports = () => { throw new Error("Image inputs are not supported") }',
+				}))
+			},
+		},
+	]
+
 	/**
 	 * @type {import('esbuild').BuildOptions}
 	 */
 	const workerConfig = {
 		...buildOptions,
-		entryPoints: ["workers/countTokens.ts"],
+		plugins: workerPlugins,
+		entryPoints: ["workers/countTokens.ts", "workers/localEmbeddings.ts"],
 		outdir: "dist/workers",
+		external: ["*.node"],
 	}
 
 	const [extensionCtx, workerCtx] = await Promise.all([
@@ -31,7 +31,7 @@ import { TerminalRegistry } from "./integrations/terminal/TerminalRegistry"
 import { claudeCodeOAuthManager } from "./integrations/claude-code/oauth"
 import { openAiCodexOAuthManager } from "./integrations/openai-codex/oauth"
 import { McpServerManager } from "./services/mcp/McpServerManager"
-// import { CodeIndexManager } from "./services/code-index/manager"
+import { CodeIndexManager } from "./services/code-index/manager"
 import { MdmService } from "./services/mdm/MdmService"
 import { migrateSettings } from "./utils/migrateSettings"
 import { autoImportSettings } from "./utils/autoImportSettings"
@@ -417,6 +417,7 @@ export async function activate(context: vscode.ExtensionContext) {
 // This method is called when your extension is deactivated.
 export async function deactivate() {
 	await ZgsmCore.deactivate()
+	await CodeIndexManager.disposeAll()
 	outputChannel.appendLine(`${Package.name} extension deactivated`)
 
 	// if (cloudService && CloudService.hasInstance()) {
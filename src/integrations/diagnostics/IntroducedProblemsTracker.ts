@@ -0,0 +1,158 @@
+import * as path from "path"
+import * as vscode from "vscode"
+
+import { type DiagnosticSeverityName, type IntroducedProblem, diagnosticSeverities } from "@roo-code/types"
+
+import { arePathsEqual } from "../../utils/path"
+
+// Language servers report in bursts, so the problems have settled once they stop changing for a while.
+const DIAGNOSTICS_QUIET_MS = 1_000
+const DIAGNOSTICS_SETTLE_TIMEOUT_MS = 10_000
+
+export interface IntroducedProblemsFilter {
+	// The least severe problems to report, "error" if not set.
+	severity?: DiagnosticSeverityName
+	// The sources of the problems to leave out, compared without case.
+	ignoredSources?: string[]
+}
+
+function getCode(diagnostic: vscode.Diagnostic): string {
+	const code = typeof diagnostic.code === "object" ? diagnostic.code.value : diagnostic.code
+	return String(code ?? "")
+}
+
+// Problems move when lines are added above them, so they are compared without their range.
+function isSameProblem(a: vscode.Diagnostic, b: vscode.Diagnostic): boolean {
+	return a.severity === b.severity && a.source === b.source && a.message === b.message && getCode(a) === getCode(b)
+}
+
+/**
+ * Remembers the problems of the workspace before a task first edited a file, to tell the problems
+ * that the task introduced, in the edited files or in the files that use them, from the problems
+ * that were already there.
+ */
+export class IntroducedProblemsTracker {
+	private baselines: Map<string, vscode.Diagnostic[]> | undefined
+	private files = new Set<string>()
+
+	// How many times the problems kept the task from completing.
+	blockedAttempts = 0
+
+	/**
+	 * Starts tracking a file that is about to be edited. The problems of the workspace are recorded
+	 * before the first edit of the task. Language servers often report nothing for the files that are
+	 * not open, so a file without problems in that record is opened and its problems recorded once they
+	 * settle. The files that have problems in it keep them, since their problems may have changed
+	 * through the edits of other files since.
+	 */
+	async trackFile(uri: vscode.Uri): Promise<void> {
+		if (this.files.has(uri.fsPath)) {
+			return
+		}
+
+		this.files.add(uri.fsPath)
+		this.baselines ??= new Map(
+			vscode.languages.getDiagnostics().map(([fileUri, diagnostics]) => [fileUri.fsPath, [...diagnostics]]),
+		)
+
+		if (this.baselines.has(uri.fsPath)) {
+			return
+		}
+
+		try {
+			await vscode.workspace.openTextDocument(uri)
+		} catch {
+			// A file that does not exist yet has no problems.
+			return
+		}
+
+		await waitForDiagnosticsToSettle([uri])
+		this.baselines.set(uri.fsPath, [...vscode.languages.getDiagnostics(uri)])
+	}
+
+	get trackedFiles(): vscode.Uri[] {
+		return Array.from(this.files, (fsPath) => vscode.Uri.file(fsPath))
+	}
+
+	/**
+	 * Gets the problems that the files of the workspace have now and did not have before the task
+	 * first edited a file.
+	 */
+	getIntroducedProblems(cwd: string, filter: IntroducedProblemsFilter = {}): IntroducedProblem[] {
+		if (!this.baselines) {
+			return []
+		}
+
+		const maxSeverity = diagnosticSeverities.indexOf(filter.severity ?? "error")
+		const ignoredSources = new Set(filter.ignoredSources?.map((source) => source.toLowerCase()))
+		const problems: IntroducedProblem[] = []
+
+		for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+			const file = path.relative(cwd, uri.fsPath)
+
+			if (uri.scheme !== "file" || file.startsWith("..") || path.isAbsolute(file)) {
+				continue
+			}
+
+			const remainingBaseline = [...(this.baselines.get(uri.fsPath) ?? [])]
+
+			for (const diagnostic of diagnostics) {
+				if (diagnostic.severity > maxSeverity || ignoredSources.has(diagnostic.source?.toLowerCase() ?? "")) {
+					continue
+				}
+
+				// Each problem of the baseline only excuses one problem, so that duplicates still count.
+				const index = remainingBaseline.findIndex((existing) => isSameProblem(existing, diagnostic))
+
+				if (index !== -1) {
+					remainingBaseline.splice(index, 1)
+					continue
+				}
+
+				problems.push({
+					file: file.toPosix(),
+					line: diagnostic.range.start.line + 1,
+					column: diagnostic.range.start.character + 1,
+					severity: diagnosticSeverities[diagnostic.severity],
+					source: diagnostic.source,
+					message: diagnostic.message,
+				})
+			}
+		}
+
+		return problems
+	}
+}
+
+/**
+ * Waits until the diagnostics of some files stop changing, or until a timeout.
+ */
+export function waitForDiagnosticsToSettle(
+	uris: vscode.Uri[],
+	quietMs = DIAGNOSTICS_QUIET_MS,
+	timeoutMs = DIAGNOSTICS_SETTLE_TIMEOUT_MS,
+): Promise<void> {
+	if (uris.length === 0) {
+		return Promise.resolve()
+	}
+
+	const fsPaths = uris.map((uri) => uri.fsPath)
+
+	return new Promise((resolve) => {
+		const finish = () => {
+			clearTimeout(quietTimer)
+			clearTimeout(timeoutTimer)
+			subscription.dispose()
+			resolve()
+		}
+
+		let quietTimer = setTimeout(finish, quietMs)
+		const timeoutTimer = setTimeout(finish, timeoutMs)
+		const subscription = vscode.languages.onDidChangeDiagnostics((event) => {
+			if (event.uris.some((uri) => fsPaths.some((fsPath) => arePathsEqual(uri.fsPath, fsPath)))) {
+				clearTimeout(quietTimer)
+				quietTimer = setTimeout(finish, quietMs)
+			}
+		})
+	})
+}
@@ -0,0 +1,199 @@
+// npx vitest run integrations/diagnostics/__tests__/IntroducedProblemsTracker.spec.ts
+
+import * as vscode from "vscode"
+
+import { IntroducedProblemsTracker, waitForDiagnosticsToSettle } from "../IntroducedProblemsTracker"
+
+const { diagnosticListeners } = vi.hoisted(() => ({
+	diagnosticListeners: [] as ((event: { uris: { fsPath: string }[] }) => void)[],
+}))
+
+vi.mock("vscode", () => ({
+	Uri: { file: (fsPath: string) => ({ fsPath, scheme: "file" }) },
+	workspace: { openTextDocument: vi.fn() },
+	languages: {
+		getDiagnostics: vi.fn(),
+		onDidChangeDiagnostics: vi.fn((listener) => {
+			diagnosticListeners.push(listener)
+			return { dispose: vi.fn() }
+		}),
+	},
+}))
+
+const diagnostic = (line: number, message: string, severity = 0, source = "ts") =>
+	({
+		range: { start: { line, character: 4 } },
+		message,
+		severity,
+		source,
+	}) as vscode.Diagnostic
+
+const uri = vscode.Uri.file("/project/src/app.ts")
+
+describe("IntroducedProblemsTracker", () => {
+	const caller = vscode.Uri.file("/project/src/main.ts")
+	const outside = vscode.Uri.file("/other/lib.ts")
+
+	// Tracks a file without waiting for its diagnostics to settle.
+	const trackFile = async (tracker: IntroducedProblemsTracker, fileUri: vscode.Uri) => {
+		vi.useFakeTimers()
+		const tracking = tracker.trackFile(fileUri)
+		await vi.runAllTimersAsync()
+		await tracking
+		vi.useRealTimers()
+	}
+
+	beforeEach(() => {
+		vi.mocked(vscode.workspace.openTextDocument).mockResolvedValue({} as vscode.TextDocument)
+	})
+
+	it("reports the problems of the workspace that were not there before the first edit", async () => {
+		const tracker = new IntroducedProblemsTracker()
+		const existing = diagnostic(3, "Cannot find name 'foo'.")
+
+		vi.mocked(vscode.languages.getDiagnostics).mockImplementation(((fileUri?: vscode.Uri) =>
+			fileUri ? [existing] : [[caller, [diagnostic(1, "Unused.", 1)]]]) as any)
+		await trackFile(tracker, uri)
+
+		// Problems after the first edit are not part of the baseline.
+		vi.mocked(vscode.languages.getDiagnostics).mockImplementation(((fileUri?: vscode.Uri) =>
+			fileUri ? [existing, diagnostic(8, "Type 'string' is not assignable.")] : []) as any)
+		await trackFile(tracker, uri)
+
+		vi.mocked(vscode.languages.getDiagnostics).mockReturnValue([
+			[
+				uri,
+				[
+					// The existing problem moved down when lines were added above it.
+					diagnostic(5, "Cannot find name 'foo'."),
+					diagnostic(8, "Type 'string' is not assignable."),
+				],
+			],
+			// The callers of a changed signature break in other files.
+			[caller, [diagnostic(1, "Unused.", 1), diagnostic(12, "Expected 2 arguments, but got 1.")]],
+			[outside, [diagnostic(1, "Cannot find module.")]],
+		] as any)
+
+		expect(tracker.trackedFiles).toEqual([uri])
+		expect(tracker.getIntroducedProblems("/project")).toEqual([
+			{
+				file: "src/app.ts",
+				line: 9,
+				column: 5,
+				severity: "error",
+				source: "ts",
+				message: "Type 'string' is not assignable.",
+			},
+			{
+				file: "src/main.ts",
+				line: 13,
+				column: 5,
+				severity: "error",
+				source: "ts",
+				message: "Expected 2 arguments, but got 1.",
+			},
+		])
+	})
+
+	it("keeps the recorded problems of a file that breaks through the edits of another file", async () => {
+		const tracker = new IntroducedProblemsTracker()
+		const existing = diagnostic(1, "Unused.", 1)
+
+		vi.mocked(vscode.languages.getDiagnostics).mockImplementation(((fileUri?: vscode.Uri) =>
+			fileUri ? [] : [[caller, [existing]]]) as any)
+		await trackFile(tracker, uri)
+
+		// Editing app.ts broke main.ts, which the task then edits as well.
+		const broken = diagnostic(12, "Expected 2 arguments, but got 1.")
+		vi.mocked(vscode.languages.getDiagnostics).mockImplementation(((fileUri?: vscode.Uri) =>
+			fileUri ? [existing, broken] : [[caller, [existing, broken]]]) as any)
+		await trackFile(tracker, caller)
+
+		expect(tracker.getIntroducedProblems("/project").map(({ message }) => message)).toEqual([
+			"Expected 2 arguments, but got 1.",
+		])
+	})
+
+	it("has no baseline for the files that do not exist yet", async () => {
+		const tracker = new IntroducedProblemsTracker()
+		vi.mocked(vscode.workspace.openTextDocument).mockRejectedValue(new Error("File not found"))
+		vi.mocked(vscode.languages.getDiagnostics).mockReturnValue([])
+
+		await tracker.trackFile(uri)
+
+		vi.mocked(vscode.languages.getDiagnostics).mockReturnValue([
+			[uri, [diagnostic(0, "Missing semicolon.")]],
+		] as any)
+		expect(tracker.getIntroducedProblems("/project").map(({ message }) => message)).toEqual(["Missing semicolon."])
+	})
+
+	it("reports nothing before the task edits a file", () => {
+		vi.mocked(vscode.languages.getDiagnostics).mockReturnValue([
+			[uri, [diagnostic(0, "Missing semicolon.")]],
+		] as any)
+
+		expect(new IntroducedProblemsTracker().getIntroducedProblems("/project")).toEqual([])
+	})
+
+	it("leaves out the problems below the severity or from ignored sources", async () => {
+		const tracker = new IntroducedProblemsTracker()
+		vi.mocked(vscode.languages.getDiagnostics).mockReturnValue([])
+		await trackFile(tracker, uri)
+
+		vi.mocked(vscode.languages.getDiagnostics).mockReturnValue([
+			[
+				uri,
+				[
+					diagnostic(1, "Unexpected any.", 1, "eslint"),
+					diagnostic(2, "Unknown word.", 2, "cSpell"),
+					diagnostic(3, "'x' is declared but never read.", 1, "ts"),
+				],
+			],
+		] as any)
+
+		expect(tracker.getIntroducedProblems("/project")).toEqual([])
+		expect(
+			tracker
+				.getIntroducedProblems("/project", { severity: "information", ignoredSources: ["ESLint"] })
+				.map(({ message }) => message),
+		).toEqual(["Unknown word.", "'x' is declared but never read."])
+	})
+})
+
+describe("waitForDiagnosticsToSettle", () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+		diagnosticListeners.length = 0
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it("waits until the diagnostics of the files stop changing", async () => {
+		let settled = false
+		const promise = waitForDiagnosticsToSettle([uri], 1_000, 10_000).then(() => (settled = true))
+
+		await vi.advanceTimersByTimeAsync(800)
+		diagnosticListeners[0]({ uris: [uri] })
+		await vi.advanceTimersByTimeAsync(800)
+		diagnosticListeners[0]({ uris: [{ fsPath: "/project/src/other.ts" }] })
+		await vi.advanceTimersByTimeAsync(100)
+		expect(settled).toBe(false)
+
+		await vi.advanceTimersByTimeAsync(200)
+		await promise
+		expect(settled).toBe(true)
+	})
+
+	it("gives up waiting after the timeout", async () => {
+		const promise = waitForDiagnosticsToSettle([uri], 1_000, 3_000)
+
+		for (let elapsed = 0; elapsed < 3_000; elapsed += 500) {
+			diagnosticListeners[0]({ uris: [uri] })
+			await vi.advanceTimersByTimeAsync(500)
+		}
+
+		await expect(promise).resolves.toBeUndefined()
+	})
+})
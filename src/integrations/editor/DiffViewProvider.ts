@@ -13,7 +13,9 @@ import { readFileWithEncodingDetection, writeFileWithEncodingPreservation } from
 import { arePathsEqual, getReadablePath } from "../../utils/path"
 import { formatResponse } from "../../core/prompts/responses"
 import { diagnosticsToProblemsString, getNewDiagnostics } from "../diagnostics"
+import { waitForDiagnosticsToSettle } from "../diagnostics/IntroducedProblemsTracker"
 import { Task } from "../../core/task/Task"
+import { getDiagnosticsGate } from "../../core/tools/helpers/diagnosticsGate"
 import { resolveToolProtocol } from "../../utils/resolveToolProtocol"
 
 import { DecorationController } from "./DecorationController"
@@ -67,6 +69,7 @@ export class DiffViewProvider {
 
 		// Get diagnostics before editing the file, we'll compare to diagnostics
 		// after editing to see if cline needs to fix anything.
+		await this.trackIntroducedProblems(absolutePath)
 		this.preDiagnostics = vscode.languages.getDiagnostics()
 
 		if (fileExists) {
@@ -261,6 +264,8 @@ export class DiffViewProvider {
 				console.warn(`Failed to apply write delay: ${error}`)
 			}
 
+			await this.waitForDiagnosticsGate(absolutePath)
+
 			const postDiagnostics = vscode.languages.getDiagnostics()
 
 			// Get diagnostic settings from state
@@ -698,6 +703,30 @@ export class DiffViewProvider {
 		this.preDiagnostics = []
 	}
 
+	/**
+	 * Records the problems before the task edits a file, when the mode of the task blocks completion
+	 * on the problems that it introduces.
+	 */
+	private async trackIntroducedProblems(absolutePath: string): Promise<void> {
+		const task = this.taskRef.deref()
+
+		if (task && (await getDiagnosticsGate(task))) {
+			await task.introducedProblems.trackFile(vscode.Uri.file(absolutePath))
+		}
+	}
+
+	/**
+	 * When the mode of the task gates completion on the problems it introduces, waits for the
+	 * language servers to finish checking the saved file so that the reported problems are final.
+	 */
+	private async waitForDiagnosticsGate(absolutePath: string): Promise<void> {
+		const task = this.taskRef.deref()
+
+		if (task && (await getDiagnosticsGate(task))) {
+			await waitForDiagnosticsToSettle([vscode.Uri.file(absolutePath)])
+		}
+	}
+
 	/**
 	 * Directly save content to a file without showing diff view
 	 * Used when preventFocusDisruption experiment is enabled
@@ -721,6 +750,7 @@ export class DiffViewProvider {
 		const absolutePath = path.resolve(this.cwd, relPath)
 
 		// Get diagnostics before editing the file
+		await this.trackIntroducedProblems(absolutePath)
 		this.preDiagnostics = vscode.languages.getDiagnostics()
 
 		// Write the content directly to the file with encoding preservation
@@ -768,6 +798,8 @@ export class DiffViewProvider {
 				console.warn(`Failed to apply write delay: ${error}`)
 			}
 
+			await this.waitForDiagnosticsGate(absolutePath)
+
 			const postDiagnostics = vscode.languages.getDiagnostics()
 
 			// Get diagnostic settings from state
@@ -142,6 +142,8 @@ describe("DiffViewProvider", () => {
 					}),
 				}),
 			},
+			getTaskMode: vi.fn().mockResolvedValue("code"),
+			introducedProblems: { trackFile: vi.fn().mockResolvedValue(undefined) },
 		}
 
 		diffViewProvider = new DiffViewProvider(mockCwd, mockTask)
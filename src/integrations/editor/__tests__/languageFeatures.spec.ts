@@ -0,0 +1,156 @@
+// npx vitest run integrations/editor/__tests__/languageFeatures.spec.ts
+
+import * as vscode from "vscode"
+
+import { findSymbolPosition, getCalls, getDefinitions, getHover, getRenameChanges } from "../languageFeatures"
+
+vi.mock("vscode", () => {
+	class Position {
+		constructor(
+			public line: number,
+			public character: number,
+		) {}
+	}
+	class Range {
+		constructor(
+			public start: Position,
+			public end: Position,
+		) {}
+	}
+
+	return {
+		Position,
+		Range,
+		commands: { executeCommand: vi.fn() },
+		workspace: { openTextDocument: vi.fn() },
+	}
+})
+
+function createDocument(text: string) {
+	const lines = text.split("\n")
+	const offsetAt = ({ line, character }: vscode.Position) =>
+		lines.slice(0, line).reduce((offset, lineText) => offset + lineText.length + 1, 0) + character
+
+	return {
+		lineCount: lines.length,
+		lineAt: (line: number) => ({ text: lines[line] }),
+		getText: () => text,
+		offsetAt,
+	} as unknown as vscode.TextDocument
+}
+
+const range = (line: number, start: number, end: number) =>
+	new vscode.Range(new vscode.Position(line, start), new vscode.Position(line, end))
+
+const uri = { fsPath: "/project/src/math.ts" } as vscode.Uri
+
+describe("findSymbolPosition", () => {
+	const document = createDocument(
+		["import { add } from './add'", "", "const total = add(1, 2)", "adder(total)"].join("\n"),
+	)
+
+	it("finds the symbol as a whole word on the line", () => {
+		expect(findSymbolPosition(document, 3, "add")).toEqual(new vscode.Position(2, 14))
+		expect(findSymbolPosition(document, 4, "adder")).toEqual(new vscode.Position(3, 0))
+	})
+
+	it("looks around the line when the model is off by a line or two", () => {
+		expect(findSymbolPosition(document, 2, "total")).toEqual(new vscode.Position(2, 6))
+		expect(findSymbolPosition(document, 4, "import")).toBeUndefined()
+	})
+})
+
+describe("language server queries", () => {
+	const executeCommand = vi.mocked(vscode.commands.executeCommand)
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("normalizes locations and location links", async () => {
+		executeCommand.mockResolvedValue([
+			{ uri, range: range(1, 0, 3) },
+			{ targetUri: uri, targetRange: range(4, 0, 20), targetSelectionRange: range(4, 9, 12) },
+		])
+
+		expect(await getDefinitions(uri, new vscode.Position(0, 0))).toEqual([
+			{ uri, range: range(1, 0, 3) },
+			{ uri, range: range(4, 9, 12) },
+		])
+
+		executeCommand.mockResolvedValue(undefined)
+		expect(await getDefinitions(uri, new vscode.Position(0, 0))).toEqual([])
+	})
+
+	it("fences the code blocks of hovers", async () => {
+		executeCommand.mockResolvedValue([
+			{
+				contents: [
+					{ language: "typescript", value: "function add(a: number): number" },
+					{ value: "Adds." },
+					"",
+				],
+			},
+		])
+
+		expect(await getHover(uri, new vscode.Position(0, 0))).toEqual([
+			"```typescript\nfunction add(a: number): number\n```",
+			"Adds.",
+		])
+	})
+
+	it("points incoming calls to the call site and outgoing calls to the callee", async () => {
+		const item = { name: "add", uri }
+		const caller = { name: "total", kind: 11, uri, selectionRange: range(7, 9, 14) }
+		const callee = { name: "round", kind: 11, detail: "Math", uri, selectionRange: range(20, 9, 14) }
+
+		executeCommand.mockImplementation(async (command: string) => {
+			switch (command) {
+				case "vscode.prepareCallHierarchy":
+					return [item]
+				case "vscode.provideIncomingCalls":
+					return [{ from: caller, fromRanges: [range(8, 2, 5)] }]
+				case "vscode.provideOutgoingCalls":
+					return [{ to: callee, fromRanges: [range(2, 2, 7)] }]
+				default:
+					return undefined
+			}
+		})
+
+		expect(await getCalls(uri, new vscode.Position(0, 0), "incoming")).toEqual([
+			{ name: "total", kind: 11, detail: undefined, location: { uri, range: range(8, 2, 5) } },
+		])
+		expect(await getCalls(uri, new vscode.Position(0, 0), "outgoing")).toEqual([
+			{ name: "round", kind: 11, detail: "Math", location: { uri, range: range(20, 9, 14) } },
+		])
+	})
+
+	it("applies the edits of a rename to the content of each file", async () => {
+		const text = "const add = 1\nadd + add"
+		const edits = [range(1, 6, 9), range(0, 6, 9), range(1, 0, 3)].map((editRange) => ({
+			range: editRange,
+			newText: "sum",
+		}))
+
+		executeCommand.mockResolvedValue({ entries: () => [[uri, edits]] })
+		vi.mocked(vscode.workspace.openTextDocument).mockResolvedValue(createDocument(text))
+
+		expect(await getRenameChanges(uri, new vscode.Position(0, 6), "sum")).toEqual([
+			{ uri, originalContent: text, newContent: "const sum = 1\nsum + sum" },
+		])
+
+		executeCommand.mockResolvedValue(undefined)
+		expect(await getRenameChanges(uri, new vscode.Position(0, 6), "sum")).toEqual([])
+	})
+
+	it("rejects a rename that also renames files", async () => {
+		executeCommand.mockResolvedValue({
+			entries: () => [],
+			_allEntries: () => [{ _type: 2 }, { _type: 1, from: uri, to: { fsPath: "/project/src/Sum.ts" } }],
+		})
+
+		await expect(getRenameChanges(uri, new vscode.Position(0, 6), "Sum")).rejects.toThrow(
+			"the rename also creates, renames or deletes files",
+		)
+	})
+})
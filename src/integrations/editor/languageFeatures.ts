@@ -0,0 +1,224 @@
+import * as vscode from "vscode"
+
+/**
+ * A place in a document that a language server pointed to.
+ */
+export interface SymbolLocation {
+	uri: vscode.Uri
+	range: vscode.Range
+}
+
+/**
+ * A function or method that calls, or is called by, the symbol of a call hierarchy.
+ */
+export interface SymbolCall {
+	name: string
+	kind: vscode.SymbolKind
+	detail?: string
+	// Where the call is: in the caller for incoming calls, the callee itself for outgoing calls.
+	location: SymbolLocation
+}
+
+/**
+ * The new content of a file changed by a rename.
+ */
+export interface RenameFileChange {
+	uri: vscode.Uri
+	originalContent: string
+	newContent: string
+}
+
+// Models often point one or two lines off, so the symbol is also looked for around the line.
+const MAX_LINE_DISTANCE = 2
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Finds a symbol on a line of a document, or on the lines right around it.
+ *
+ * @param line The line of the symbol, starting at 1
+ * @param symbol The name of the symbol as it is written in the code
+ * @returns The position of the start of the symbol, or undefined when it is not there
+ */
+export function findSymbolPosition(
+	document: vscode.TextDocument,
+	line: number,
+	symbol: string,
+): vscode.Position | undefined {
+	const pattern = new RegExp(`(?<![\\w$])${escapeRegExp(symbol)}(?![\\w$])`)
+
+	for (let distance = 0; distance <= MAX_LINE_DISTANCE; distance++) {
+		for (const lineIndex of new Set([line - 1 - distance, line - 1 + distance])) {
+			if (lineIndex < 0 || lineIndex >= document.lineCount) {
+				continue
+			}
+
+			const match = pattern.exec(document.lineAt(lineIndex).text)
+
+			if (match) {
+				return new vscode.Position(lineIndex, match.index)
+			}
+		}
+	}
+
+	return undefined
+}
+
+function toSymbolLocation(location: vscode.Location | vscode.LocationLink): SymbolLocation {
+	return "targetUri" in location
+		? { uri: location.targetUri, range: location.targetSelectionRange ?? location.targetRange }
+		: { uri: location.uri, range: location.range }
+}
+
+export async function getDefinitions(uri: vscode.Uri, position: vscode.Position): Promise<SymbolLocation[]> {
+	const locations = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[] | undefined>(
+		"vscode.executeDefinitionProvider",
+		uri,
+		position,
+	)
+	return (locations ?? []).map(toSymbolLocation)
+}
+
+export async function getReferences(uri: vscode.Uri, position: vscode.Position): Promise<SymbolLocation[]> {
+	const locations = await vscode.commands.executeCommand<vscode.Location[] | undefined>(
+		"vscode.executeReferenceProvider",
+		uri,
+		position,
+	)
+	return (locations ?? []).map(toSymbolLocation)
+}
+
+/**
+ * Gets the hover of a symbol as markdown, like its type and documentation.
+ */
+export async function getHover(uri: vscode.Uri, position: vscode.Position): Promise<string[]> {
+	const hovers = await vscode.commands.executeCommand<vscode.Hover[] | undefined>(
+		"vscode.executeHoverProvider",
+		uri,
+		position,
+	)
+
+	return (hovers ?? [])
+		.flatMap((hover) => hover.contents)
+		.map((content) => {
+			if (typeof content === "string") {
+				return content
+			}
+
+			// MarkedString code blocks have a language, MarkdownStrings do not.
+			return "language" in content ? `\`\`\`${content.language}\n${content.value}\n\`\`\`` : content.value
+		})
+		.filter((content) => content.trim().length > 0)
+}
+
+/**
+ * Gets the calls to, or the calls from, the function or method at a position.
+ */
+export async function getCalls(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	direction: "incoming" | "outgoing",
+): Promise<SymbolCall[]> {
+	const items = await vscode.commands.executeCommand<vscode.CallHierarchyItem[] | undefined>(
+		"vscode.prepareCallHierarchy",
+		uri,
+		position,
+	)
+	const calls: SymbolCall[] = []
+
+	for (const item of items ?? []) {
+		if (direction === "incoming") {
+			const incomingCalls = await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[] | undefined>(
+				"vscode.provideIncomingCalls",
+				item,
+			)
+
+			for (const { from, fromRanges } of incomingCalls ?? []) {
+				calls.push({
+					name: from.name,
+					kind: from.kind,
+					detail: from.detail,
+					location: { uri: from.uri, range: fromRanges[0] ?? from.selectionRange },
+				})
+			}
+		} else {
+			const outgoingCalls = await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[] | undefined>(
+				"vscode.provideOutgoingCalls",
+				item,
+			)
+
+			for (const { to } of outgoingCalls ?? []) {
+				calls.push({
+					name: to.name,
+					kind: to.kind,
+					detail: to.detail,
+					location: { uri: to.uri, range: to.selectionRange },
+				})
+			}
+		}
+	}
+
+	return calls
+}
+
+// The file operations of a WorkspaceEdit are left out of its public entries, so they are only
+// visible through the entries of the editor's implementation, where they have the type 1.
+type WorkspaceEditWithAllEntries = vscode.WorkspaceEdit & { _allEntries?: () => { _type: number }[] }
+
+function hasFileOperations(edit: vscode.WorkspaceEdit): boolean {
+	return (edit as WorkspaceEditWithAllEntries)._allEntries?.().some((entry) => entry._type === 1) ?? false
+}
+
+/**
+ * Asks the language server how to rename a symbol, without changing any file.
+ *
+ * @returns The files that the rename changes, with their new content. The list is empty when the
+ * language server has no rename for the position.
+ * @throws When the language server refuses the rename, like for a keyword, or when the rename also
+ * creates, renames or deletes files, which cannot be applied as content changes.
+ */
+export async function getRenameChanges(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	newName: string,
+): Promise<RenameFileChange[]> {
+	const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit | undefined>(
+		"vscode.executeDocumentRenameProvider",
+		uri,
+		position,
+		newName,
+	)
+	if (edit && hasFileOperations(edit)) {
+		throw new Error("the rename also creates, renames or deletes files, which only the editor can apply")
+	}
+
+	const changes: RenameFileChange[] = []
+
+	for (const [fileUri, textEdits] of edit?.entries() ?? []) {
+		if (textEdits.length === 0) {
+			continue
+		}
+
+		const document = await vscode.workspace.openTextDocument(fileUri)
+		const originalContent = document.getText()
+		let newContent = originalContent
+
+		// Edits are applied from the end of the file so that their offsets stay valid.
+		const sortedEdits = [...textEdits].sort(
+			(a, b) => document.offsetAt(b.range.start) - document.offsetAt(a.range.start),
+		)
+
+		for (const textEdit of sortedEdits) {
+			newContent =
+				newContent.slice(0, document.offsetAt(textEdit.range.start)) +
+				textEdit.newText +
+				newContent.slice(document.offsetAt(textEdit.range.end))
+		}
+
+		changes.push({ uri: fileUri, originalContent, newContent })
+	}
+
+	return changes
+}
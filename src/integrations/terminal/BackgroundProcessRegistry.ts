@@ -0,0 +1,328 @@
+import EventEmitter from "events"
+
+import type { BackgroundProcessInfo } from "@roo-code/types"
+
+import type { RooTerminalProcessResultPromise } from "./types"
+import { ExecaTerminal } from "./ExecaTerminal"
+import { SandboxTerminal } from "./SandboxTerminal"
+import type { WorkspaceSandbox } from "./sandbox"
+
+// Older output is dropped so that a chatty dev server cannot fill the memory.
+const MAX_OUTPUT_LENGTH = 500_000
+const OUTPUT_TAIL_LENGTH = 2_000
+const POLL_INTERVAL_MS = 250
+const STOP_TIMEOUT_MS = 5_000
+
+interface BackgroundProcess {
+	info: BackgroundProcessInfo
+	process: RooTerminalProcessResultPromise
+	output: string
+	// The length of the output that was dropped, and the position up to which the output was read.
+	droppedLength: number
+	readPosition: number
+	// The length of the output that was taken from the process since it last trimmed its buffer.
+	retrievedLength: number
+	completion: Promise<void>
+}
+
+export interface BackgroundProcessOutput {
+	info: BackgroundProcessInfo
+	output: string
+	// Whether some of the output was dropped before it could be read.
+	truncated: boolean
+}
+
+export interface WaitForOutputResult extends BackgroundProcessOutput {
+	matched: boolean
+	timedOut: boolean
+}
+
+/**
+ * Keeps track of the long-running processes that tasks start with `start_process`, like dev
+ * servers and watchers. Unlike `execute_command`, the processes are not attached to a terminal, so
+ * that the task can go on while they run, read their output later, and stop them when it is done.
+ * All the processes of a task are stopped when the task ends, but not while it waits for a subtask.
+ */
+export class BackgroundProcessRegistry {
+	private static processes = new Map<number, BackgroundProcess>()
+	private static nextId = 1
+	private static emitter = new EventEmitter()
+	private static pollTimer?: NodeJS.Timeout
+
+	public static start(
+		taskId: string,
+		command: string,
+		cwd: string,
+		sandbox?: WorkspaceSandbox,
+	): BackgroundProcessInfo {
+		const id = this.nextId++
+		const terminal = sandbox ? new SandboxTerminal(id, cwd, sandbox) : new ExecaTerminal(id, cwd)
+		terminal.taskId = taskId
+
+		const info: BackgroundProcessInfo = {
+			id,
+			taskId,
+			command,
+			cwd,
+			status: "running",
+			startedAt: Date.now(),
+			outputTail: "",
+		}
+
+		let resolveCompletion: () => void
+		const completion = new Promise<void>((resolve) => (resolveCompletion = resolve))
+
+		let exitCode: number | undefined
+
+		const process = terminal.runCommand(command, {
+			onLine: () => {},
+			onCompleted: (output) => {
+				const entry = this.processes.get(id)
+
+				// The last line may not end with a newline, so it is never returned as unretrieved output.
+				if (entry && output && output.length > entry.retrievedLength) {
+					this.appendOutput(entry, output.slice(entry.retrievedLength))
+					entry.process.getUnretrievedOutput()
+				}
+
+				// The process only counts as exited once all of its output is collected.
+				if (info.status === "running") {
+					info.status = "exited"
+					info.exitCode = exitCode
+				}
+
+				info.endedAt = Date.now()
+				this.notify()
+				resolveCompletion()
+			},
+			onShellExecutionStarted: (pid) => {
+				info.pid = pid
+				this.notify()
+			},
+			onShellExecutionComplete: (details) => {
+				exitCode = details.exitCode
+			},
+		})
+
+		process.catch((error) => {
+			console.error(
+				`[BackgroundProcessRegistry] process ${id} failed: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		})
+
+		// The output is collected by polling rather than from the throttled line events.
+		process.continue()
+
+		this.processes.set(id, {
+			info,
+			process,
+			output: "",
+			droppedLength: 0,
+			readPosition: 0,
+			retrievedLength: 0,
+			completion,
+		})
+		this.startPolling()
+		this.notify()
+
+		return { ...info }
+	}
+
+	public static get(id: number): BackgroundProcessInfo | undefined {
+		const entry = this.processes.get(id)
+		return entry ? { ...entry.info } : undefined
+	}
+
+	/**
+	 * Lists the processes, oldest first.
+	 *
+	 * @param taskId Only lists the processes of this task
+	 */
+	public static list(taskId?: string): BackgroundProcessInfo[] {
+		return Array.from(this.processes.values())
+			.filter((entry) => !taskId || entry.info.taskId === taskId)
+			.map((entry) => ({ ...entry.info }))
+	}
+
+	/**
+	 * Returns the output of a process that has not been read yet, and marks it as read.
+	 */
+	public static readOutput(id: number): BackgroundProcessOutput | undefined {
+		const entry = this.processes.get(id)
+
+		if (!entry) {
+			return undefined
+		}
+
+		this.collectOutput(entry)
+		return this.consumeOutput(entry, entry.droppedLength + entry.output.length)
+	}
+
+	/**
+	 * Waits until the unread output of a process matches a pattern, the process ends, or the
+	 * timeout expires. The output up to the end of the match is marked as read, so that waiting
+	 * again for the same pattern waits for its next occurrence.
+	 */
+	public static async waitForOutput(
+		id: number,
+		pattern: RegExp,
+		timeoutMs: number,
+		isCancelled: () => boolean = () => false,
+	): Promise<WaitForOutputResult | undefined> {
+		const deadline = Date.now() + timeoutMs
+
+		while (true) {
+			const entry = this.processes.get(id)
+
+			if (!entry) {
+				return undefined
+			}
+
+			this.collectOutput(entry)
+
+			const start = Math.max(entry.readPosition - entry.droppedLength, 0)
+			const match = pattern.exec(entry.output.slice(start))
+
+			if (match) {
+				const end = entry.droppedLength + start + match.index + match[0].length
+				return { ...this.consumeOutput(entry, end), matched: true, timedOut: false }
+			}
+
+			const isRunning = entry.info.status === "running"
+
+			if (!isRunning || Date.now() >= deadline || isCancelled()) {
+				return {
+					...this.consumeOutput(entry, entry.droppedLength + entry.output.length),
+					matched: false,
+					timedOut: isRunning && Date.now() >= deadline,
+				}
+			}
+
+			await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+		}
+	}
+
+	/**
+	 * Stops a process and its children, and waits for it to end.
+	 */
+	public static async stop(id: number): Promise<BackgroundProcessInfo | undefined> {
+		const entry = this.processes.get(id)
+
+		if (!entry) {
+			return undefined
+		}
+
+		if (entry.info.status === "running") {
+			entry.info.status = "stopped"
+			entry.process.abort()
+
+			let timeoutId: NodeJS.Timeout | undefined
+			await Promise.race([
+				entry.completion,
+				new Promise<void>((resolve) => (timeoutId = setTimeout(resolve, STOP_TIMEOUT_MS))),
+			])
+			clearTimeout(timeoutId)
+
+			entry.info.endedAt ??= Date.now()
+			this.notify()
+		}
+
+		return { ...entry.info }
+	}
+
+	/**
+	 * Stops the processes of a task and forgets them. Called when the task ends or its subtask is abandoned.
+	 */
+	public static async stopProcessesForTask(taskId: string): Promise<void> {
+		const ids = this.list(taskId).map((info) => info.id)
+
+		await Promise.all(ids.map((id) => this.stop(id)))
+		ids.forEach((id) => this.processes.delete(id))
+		this.notify()
+	}
+
+	/**
+	 * Registers a listener that is called whenever a process starts, prints output or ends.
+	 *
+	 * @returns A function that removes the listener
+	 */
+	public static onDidChange(listener: () => void): () => void {
+		this.emitter.on("change", listener)
+		return () => this.emitter.off("change", listener)
+	}
+
+	public static async stopAll(): Promise<void> {
+		await Promise.all(Array.from(this.processes.keys()).map((id) => this.stop(id)))
+	}
+
+	/**
+	 * Forgets all the processes without stopping them, for tests.
+	 */
+	public static reset(): void {
+		this.processes.clear()
+		this.emitter.removeAllListeners()
+		clearInterval(this.pollTimer)
+		this.pollTimer = undefined
+	}
+
+	private static collectOutput(entry: BackgroundProcess) {
+		const output = entry.process.getUnretrievedOutput()
+
+		if (output) {
+			this.appendOutput(entry, output)
+			entry.retrievedLength += output.length
+
+			if (!entry.process.hasUnretrievedOutput()) {
+				entry.process.trimRetrievedOutput()
+				entry.retrievedLength = 0
+			}
+		}
+
+		return output.length > 0
+	}
+
+	private static appendOutput(entry: BackgroundProcess, output: string) {
+		entry.output += output
+
+		if (entry.output.length > MAX_OUTPUT_LENGTH) {
+			const excess = entry.output.length - MAX_OUTPUT_LENGTH
+			entry.output = entry.output.slice(excess)
+			entry.droppedLength += excess
+		}
+
+		entry.info.outputTail = entry.output.slice(-OUTPUT_TAIL_LENGTH)
+	}
+
+	private static consumeOutput(entry: BackgroundProcess, end: number): BackgroundProcessOutput {
+		const truncated = entry.readPosition < entry.droppedLength
+		const start = Math.max(entry.readPosition, entry.droppedLength)
+		const output = entry.output.slice(start - entry.droppedLength, end - entry.droppedLength)
+
+		entry.readPosition = Math.max(end, entry.readPosition)
+		return { info: { ...entry.info }, output, truncated }
+	}
+
+	private static startPolling() {
+		if (this.pollTimer) {
+			return
+		}
+
+		this.pollTimer = setInterval(() => {
+			const running = Array.from(this.processes.values()).filter((entry) => entry.info.status === "running")
+
+			if (running.length === 0) {
+				clearInterval(this.pollTimer)
+				this.pollTimer = undefined
+				return
+			}
+
+			if (running.map((entry) => this.collectOutput(entry)).some(Boolean)) {
+				this.notify()
+			}
+		}, POLL_INTERVAL_MS * 4)
+	}
+
+	private static notify() {
+		this.emitter.emit("change")
+	}
+}
@@ -1,11 +1,11 @@
-import type { RooTerminalCallbacks, RooTerminalProcessResultPromise } from "./types"
+import type { RooTerminalCallbacks, RooTerminalProcessResultPromise, RooTerminalProvider } from "./types"
 import { BaseTerminal } from "./BaseTerminal"
 import { ExecaTerminalProcess } from "./ExecaTerminalProcess"
 import { mergePromise } from "./mergePromise"
 
 export class ExecaTerminal extends BaseTerminal {
-	constructor(id: number, cwd: string) {
-		super("execa", id, cwd)
+	constructor(id: number, cwd: string, provider: Extract<RooTerminalProvider, "execa" | "sandbox"> = "execa") {
+		super(provider, id, cwd)
 	}
 
 	/**
@@ -18,7 +18,7 @@ export class ExecaTerminal extends BaseTerminal {
 	public override runCommand(command: string, callbacks: RooTerminalCallbacks): RooTerminalProcessResultPromise {
 		this.busy = true
 
-		const process = new ExecaTerminalProcess(this)
+		const process = this.createProcess()
 		process.command = command
 		this.process = process
 		process.on("line", (line) => {
@@ -36,4 +36,8 @@ export class ExecaTerminal extends BaseTerminal {
 
 		return mergePromise(process, promise)
 	}
+
+	protected createProcess(): ExecaTerminalProcess {
+		return new ExecaTerminalProcess(this)
+	}
 }
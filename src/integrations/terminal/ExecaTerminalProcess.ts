@@ -56,7 +56,7 @@ export class ExecaTerminalProcess extends BaseTerminalProcess {
 					LANGUAGE: "en_US.UTF-8",
 					PYTHONIOENCODING: "utf-8",
 				},
-			})`${command}`
+			})`${this.getShellCommand(command)}`
 
 			this.pid = this.subprocess.pid
 
@@ -184,6 +184,13 @@ export class ExecaTerminalProcess extends BaseTerminalProcess {
 		this.subprocess = undefined
 	}
 
+	/**
+	 * Gets the command line that the shell runs for a command.
+	 */
+	protected getShellCommand(command: string): string {
+		return command
+	}
+
 	public override continue() {
 		this.isListening = false
 		this.removeAllListeners("line")
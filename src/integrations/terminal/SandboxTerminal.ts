@@ -0,0 +1,30 @@
+import { isDeepStrictEqual } from "util"
+
+import type { WorkspaceSandbox } from "./sandbox"
+import { ExecaTerminal } from "./ExecaTerminal"
+import { ExecaTerminalProcess } from "./ExecaTerminalProcess"
+import { SandboxTerminalProcess } from "./SandboxTerminalProcess"
+
+/**
+ * Runs commands like the execa terminal, but in a container or a bubblewrap jail.
+ */
+export class SandboxTerminal extends ExecaTerminal {
+	constructor(
+		id: number,
+		cwd: string,
+		public readonly sandbox: WorkspaceSandbox,
+	) {
+		super(id, cwd, "sandbox")
+	}
+
+	/**
+	 * Checks whether this terminal runs its commands in the given sandbox.
+	 */
+	public hasSandbox(sandbox: WorkspaceSandbox | undefined): boolean {
+		return isDeepStrictEqual(this.sandbox, sandbox)
+	}
+
+	protected override createProcess(): ExecaTerminalProcess {
+		return new SandboxTerminalProcess(this, this.sandbox)
+	}
+}
@@ -0,0 +1,40 @@
+import { execa } from "execa"
+
+import type { RooTerminal } from "./types"
+import { ExecaTerminalProcess } from "./ExecaTerminalProcess"
+import { type WorkspaceSandbox, buildSandboxCommand } from "./sandbox"
+
+export class SandboxTerminalProcess extends ExecaTerminalProcess {
+	private readonly containerName: string
+
+	constructor(
+		terminal: RooTerminal,
+		private readonly sandbox: WorkspaceSandbox,
+	) {
+		super(terminal)
+
+		this.containerName = `costrict-sandbox-${terminal.id}-${Date.now()}`
+	}
+
+	protected override getShellCommand(command: string): string {
+		return buildSandboxCommand(
+			command,
+			this.terminal.getCurrentWorkingDirectory(),
+			this.sandbox,
+			this.containerName,
+		)
+	}
+
+	public override abort() {
+		super.abort()
+
+		// Killing the client of a container runtime does not stop the container itself.
+		if (this.sandbox.backend === "docker" || this.sandbox.backend === "podman") {
+			execa(this.sandbox.backend, ["kill", this.containerName], { reject: false }).catch((error) => {
+				console.warn(
+					`[SandboxTerminalProcess#abort] Failed to kill container ${this.containerName}: ${error instanceof Error ? error.message : String(error)}`,
+				)
+			})
+		}
+	}
+}
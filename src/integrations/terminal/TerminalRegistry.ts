@@ -6,6 +6,9 @@ import { RooTerminal, RooTerminalProvider } from "./types"
 import { TerminalProcess } from "./TerminalProcess"
 import { Terminal } from "./Terminal"
 import { ExecaTerminal } from "./ExecaTerminal"
+import { SandboxTerminal } from "./SandboxTerminal"
+import type { WorkspaceSandbox } from "./sandbox"
+import { BackgroundProcessRegistry } from "./BackgroundProcessRegistry"
 import { ShellIntegrationManager } from "./ShellIntegrationManager"
 import delay from "delay"
 import { isJetbrainsPlatform } from "../../utils/platform"
@@ -143,11 +146,17 @@ export class TerminalRegistry {
 		}
 	}
 
-	public static createTerminal(cwd: string, provider: RooTerminalProvider): RooTerminal {
+	public static createTerminal(cwd: string, provider: RooTerminalProvider, sandbox?: WorkspaceSandbox): RooTerminal {
 		let newTerminal
 
 		if (provider === "vscode") {
 			newTerminal = new Terminal(this.nextTerminalId++, undefined, cwd)
+		} else if (provider === "sandbox") {
+			if (!sandbox) {
+				throw new Error("A sandbox is required to create a sandbox terminal")
+			}
+
+			newTerminal = new SandboxTerminal(this.nextTerminalId++, cwd, sandbox)
 		} else {
 			newTerminal = new ExecaTerminal(this.nextTerminalId++, cwd)
 		}
@@ -163,12 +172,15 @@ export class TerminalRegistry {
 	 *
 	 * @param cwd The working directory path
 	 * @param taskId Optional task ID to associate with the terminal
+	 * @param provider The kind of terminal
+	 * @param sandbox The sandbox that the commands of a "sandbox" terminal run in
 	 * @returns A Terminal instance
 	 */
 	public static async getOrCreateTerminal(
 		cwd: string,
 		taskId?: string,
 		provider: RooTerminalProvider = "vscode",
+		sandbox?: WorkspaceSandbox,
 	): Promise<RooTerminal> {
 		const terminals = this.getAllTerminals()
 		let terminal: RooTerminal | undefined
@@ -177,7 +189,7 @@ export class TerminalRegistry {
 		// matching directory.
 		if (taskId) {
 			terminal = terminals.find((t) => {
-				if (t.busy || t.taskId !== taskId || t.provider !== provider) {
+				if (t.busy || t.taskId !== taskId || !this.isTerminalOf(t, provider, sandbox)) {
 					return false
 				}
 
@@ -194,7 +206,7 @@ export class TerminalRegistry {
 		// Second priority: Find any available terminal with matching directory.
 		if (!terminal) {
 			terminal = terminals.find((t) => {
-				if (t.busy || t.provider !== provider) {
+				if (t.busy || !this.isTerminalOf(t, provider, sandbox)) {
 					return false
 				}
 
@@ -210,7 +222,7 @@ export class TerminalRegistry {
 
 		// If no suitable terminal found, create a new one.
 		if (!terminal) {
-			terminal = this.createTerminal(cwd, provider)
+			terminal = this.createTerminal(cwd, provider, sandbox)
 		}
 
 		terminal.taskId = taskId
@@ -297,21 +309,44 @@ export class TerminalRegistry {
 	public static cleanup() {
 		// Clean up all temporary directories.
 		ShellIntegrationManager.clear()
+		void BackgroundProcessRegistry.stopAll()
 		this.disposables.forEach((disposable) => disposable.dispose())
 		this.disposables = []
 	}
 
 	/**
-	 * Releases all terminals associated with a task.
+	 * Releases all terminals associated with a task, and stops the background processes that it
+	 * started.
 	 *
 	 * @param taskId The task ID
+	 * @param options.keepBackgroundProcesses Keeps the background processes running, for a task
+	 * that waits for a subtask and is resumed later
 	 */
-	public static releaseTerminalsForTask(taskId: string): void {
+	public static releaseTerminalsForTask(taskId: string, { keepBackgroundProcesses = false } = {}): void {
 		this.terminals.forEach((terminal) => {
 			if (terminal.taskId === taskId) {
 				terminal.taskId = undefined
 			}
 		})
+
+		if (!keepBackgroundProcesses) {
+			void BackgroundProcessRegistry.stopProcessesForTask(taskId)
+		}
+	}
+
+	/**
+	 * Checks whether a terminal is of the given kind, and runs its commands in the given sandbox.
+	 */
+	private static isTerminalOf(
+		terminal: RooTerminal,
+		provider: RooTerminalProvider,
+		sandbox: WorkspaceSandbox | undefined,
+	): boolean {
+		if (terminal.provider !== provider) {
+			return false
+		}
+
+		return !(terminal instanceof SandboxTerminal) || terminal.hasSandbox(sandbox)
 	}
 
 	private static getAllTerminals(): RooTerminal[] {
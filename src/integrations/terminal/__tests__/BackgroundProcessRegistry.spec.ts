@@ -0,0 +1,79 @@
+// npx vitest run integrations/terminal/__tests__/BackgroundProcessRegistry.spec.ts
+
+import * as os from "os"
+
+import { BackgroundProcessRegistry } from "../BackgroundProcessRegistry"
+
+// The processes are Node scripts so that the commands run the same in the shells of every platform.
+const node = (script: string) => `node -e "${script}"`
+const SLEEP = "setTimeout(() => {}, 30000)"
+
+describe("BackgroundProcessRegistry", () => {
+	const cwd = os.tmpdir()
+
+	afterEach(async () => {
+		await BackgroundProcessRegistry.stopAll()
+		BackgroundProcessRegistry.reset()
+	})
+
+	it("waits for a pattern in the output of a running process", async () => {
+		const info = BackgroundProcessRegistry.start(
+			"task-1",
+			node(`console.log('starting'); setTimeout(() => console.log('ready on 3000'), 300); ${SLEEP}`),
+			cwd,
+		)
+
+		expect(info.status).toBe("running")
+		expect(BackgroundProcessRegistry.list("task-1")).toHaveLength(1)
+		expect(BackgroundProcessRegistry.list("task-2")).toHaveLength(0)
+
+		const result = await BackgroundProcessRegistry.waitForOutput(info.id, /ready on \d+/, 10_000)
+
+		expect(result?.matched).toBe(true)
+		expect(result?.output).toContain("starting\n")
+		expect(result?.output).toMatch(/ready on 3000$/)
+		expect(result?.info.status).toBe("running")
+
+		// The output up to the match was read.
+		expect(BackgroundProcessRegistry.readOutput(info.id)?.output).not.toContain("ready")
+	})
+
+	it("times out when the pattern does not appear", async () => {
+		const info = BackgroundProcessRegistry.start("task-1", node(`console.log('waiting'); ${SLEEP}`), cwd)
+
+		const result = await BackgroundProcessRegistry.waitForOutput(info.id, /never/, 500)
+
+		expect(result).toMatchObject({ matched: false, timedOut: true, output: expect.stringContaining("waiting\n") })
+	})
+
+	it("reports the exit code and the output of processes that end", async () => {
+		const info = BackgroundProcessRegistry.start(
+			"task-1",
+			node("console.log('one'); process.stdout.write('two'); process.exitCode = 3"),
+			cwd,
+		)
+
+		const result = await BackgroundProcessRegistry.waitForOutput(info.id, /never/, 10_000)
+
+		expect(result).toMatchObject({ matched: false, timedOut: false })
+		expect(result?.output.match(/one\ntwo/g)).toHaveLength(1)
+		expect(result?.info).toMatchObject({ status: "exited", exitCode: 3 })
+		expect(result?.info.outputTail).toBe(result?.output)
+	})
+
+	it("stops the processes of a task when it ends", async () => {
+		const listener = vi.fn()
+		BackgroundProcessRegistry.onDidChange(listener)
+
+		const info = BackgroundProcessRegistry.start("task-1", node(SLEEP), cwd)
+		const other = BackgroundProcessRegistry.start("task-2", node(SLEEP), cwd)
+
+		await BackgroundProcessRegistry.stopProcessesForTask("task-1")
+
+		expect(BackgroundProcessRegistry.get(info.id)).toBeUndefined()
+		expect(BackgroundProcessRegistry.get(other.id)?.status).toBe("running")
+		expect(listener).toHaveBeenCalled()
+
+		expect(await BackgroundProcessRegistry.stop(other.id)).toMatchObject({ status: "stopped" })
+	})
+})
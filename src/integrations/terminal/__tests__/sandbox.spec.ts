@@ -0,0 +1,62 @@
+// npx vitest run integrations/terminal/__tests__/sandbox.spec.ts
+
+import { execSync } from "child_process"
+
+import { buildSandboxCommand, getSandboxUnavailableReason, quoteShellArgument, type WorkspaceSandbox } from "../sandbox"
+
+describe("sandbox", () => {
+	const workspacePath = "/home/user/project"
+
+	it.skipIf(process.platform === "win32")("quotes shell arguments", () => {
+		const value = `echo "it's $HOME" && ls`
+		expect(execSync(`printf %s ${quoteShellArgument(value)}`, { encoding: "utf8", shell: "/bin/sh" })).toBe(value)
+	})
+
+	it("runs commands in a podman container without network access", () => {
+		const sandbox: WorkspaceSandbox = { backend: "podman", workspacePath, memoryLimitMb: 2048, pidsLimit: 256 }
+
+		expect(buildSandboxCommand("npm test", `${workspacePath}/packages/app`, sandbox, "sandbox-1")).toBe(
+			[
+				"'podman' 'run' '--rm' '--init' '--name' 'sandbox-1' '--userns=keep-id'",
+				"'--volume' '/home/user/project:/home/user/project' '--workdir' '/home/user/project/packages/app'",
+				"'--network' 'none' '--memory' '2048m' '--pids-limit' '256' 'node:lts' 'sh' '-c' 'npm test'",
+			].join(" "),
+		)
+	})
+
+	it("runs commands in a container image with network access", () => {
+		const sandbox: WorkspaceSandbox = { backend: "docker", workspacePath, image: "python:3.12", network: true }
+		const command = buildSandboxCommand("pip install -r requirements.txt", workspacePath, sandbox, "sandbox-2")
+
+		expect(command).toMatch(/^'docker' 'run' '--rm' '--init' '--name' 'sandbox-2'/)
+		expect(command).not.toContain("'--network'")
+		expect(command).toMatch(/'python:3\.12' 'sh' '-c' 'pip install -r requirements\.txt'$/)
+	})
+
+	it("runs commands in a bubblewrap jail without the home directory, with a systemd scope for the limits", () => {
+		const sandbox: WorkspaceSandbox = { backend: "bubblewrap", workspacePath, cpuLimit: 1.5 }
+
+		expect(buildSandboxCommand("make", workspacePath, sandbox, "sandbox-3", "/home/user")).toBe(
+			[
+				"'systemd-run' '--user' '--scope' '--quiet' '-p' 'CPUQuota=150%'",
+				"'bwrap' '--die-with-parent' '--new-session' '--unshare-all'",
+				"'--ro-bind' '/' '/' '--dev' '/dev' '--proc' '/proc' '--tmpfs' '/tmp' '--tmpfs' '/home/user'",
+				"'--bind' '/home/user/project' '/home/user/project' '--chdir' '/home/user/project' '--' 'sh' '-c' 'make'",
+			].join(" "),
+		)
+	})
+
+	it("shares the network with bubblewrap when allowed", () => {
+		const sandbox: WorkspaceSandbox = { backend: "bubblewrap", workspacePath, network: true }
+		const command = buildSandboxCommand("make", workspacePath, sandbox, "sandbox-4")
+
+		expect(command).toMatch(/^'bwrap' '--die-with-parent' '--new-session' '--unshare-all' '--share-net'/)
+	})
+
+	it("reports the platforms that cannot run sandboxed commands", () => {
+		expect(getSandboxUnavailableReason({ backend: "docker" }, "win32")).toBeDefined()
+		expect(getSandboxUnavailableReason({ backend: "bubblewrap" }, "darwin")).toBeDefined()
+		expect(getSandboxUnavailableReason({ backend: "podman" }, "darwin")).toBeUndefined()
+		expect(getSandboxUnavailableReason({ backend: "bubblewrap" }, "linux")).toBeUndefined()
+	})
+})
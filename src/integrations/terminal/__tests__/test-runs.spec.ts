@@ -0,0 +1,66 @@
+// npx vitest run integrations/terminal/__tests__/test-runs.spec.ts
+
+import { clearTestRuns, getLastTestRun, getLastTestRunOutput, isTestCommand, recordTestRun } from "../test-runs"
+
+describe("test-runs", () => {
+	beforeEach(() => {
+		clearTestRuns()
+	})
+
+	it.each([
+		"npm test",
+		"pnpm run test:unit",
+		"npx vitest run src/foo.spec.ts",
+		"python -m pytest tests/",
+		"go test ./...",
+		"cargo test --all",
+		"./gradlew test",
+	])("recognizes %s as a test command", (command) => {
+		expect(isTestCommand(command)).toBe(true)
+	})
+
+	it.each(["npm run build", "git status", "ls tests", "cat jest.config.js"])(
+		"does not recognize %s as a test command",
+		(command) => {
+			expect(isTestCommand(command)).toBe(false)
+		},
+	)
+
+	it("only records test commands, per workspace", () => {
+		recordTestRun("/project", { command: "npm run build", cwd: "/project", exitCode: 1, output: "build failed" })
+		expect(getLastTestRun("/project")).toBeUndefined()
+
+		recordTestRun("/project", { command: "npm test", cwd: "/project", exitCode: 1, output: "1 failed" })
+		expect(getLastTestRun("/project")?.output).toBe("1 failed")
+		expect(getLastTestRun("/other")).toBeUndefined()
+	})
+
+	it("includes the output of a failed run", () => {
+		recordTestRun("/project", {
+			command: "npm test",
+			cwd: "/project/src",
+			exitCode: 1,
+			output: "FAIL foo.spec.ts\n",
+		})
+
+		const output = getLastTestRunOutput("/project")
+
+		expect(output).toContain("Command: npm test")
+		expect(output).toContain("Working directory: /project/src")
+		expect(output).toContain("Exit code: 1")
+		expect(output).toMatch(/Output:\nFAIL foo.spec.ts$/)
+	})
+
+	it("only reports that a successful run passed", () => {
+		recordTestRun("/project", { command: "npm test", cwd: "/project", exitCode: 0, output: "42 passed" })
+
+		const output = getLastTestRunOutput("/project")
+
+		expect(output).toContain("The last test run passed.")
+		expect(output).not.toContain("42 passed")
+	})
+
+	it("explains when no test run was recorded", () => {
+		expect(getLastTestRunOutput("/project")).toContain("No test run has been recorded yet")
+	})
+})
@@ -0,0 +1,153 @@
+import * as os from "os"
+
+import { type CommandSandbox, DEFAULT_COMMAND_SANDBOX_IMAGE } from "@roo-code/types"
+
+/**
+ * A command sandbox together with the workspace that it mounts read-write.
+ */
+export interface WorkspaceSandbox extends CommandSandbox {
+	workspacePath: string
+}
+
+/**
+ * Quotes an argument for a POSIX shell.
+ */
+export function quoteShellArgument(value: string): string {
+	return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Gets why commands cannot run in a sandbox on this platform, if they cannot.
+ */
+export function getSandboxUnavailableReason(
+	sandbox: CommandSandbox,
+	platform: NodeJS.Platform = process.platform,
+): string | undefined {
+	if (platform === "win32") {
+		return "Sandboxed commands are not supported on Windows."
+	}
+
+	if (sandbox.backend === "bubblewrap" && platform !== "linux") {
+		return "The bubblewrap sandbox is only available on Linux."
+	}
+
+	return undefined
+}
+
+/**
+ * Describes a sandbox for the results of the tools, like "the podman sandbox without network access".
+ */
+export function describeSandbox(sandbox: CommandSandbox): string {
+	return `the ${sandbox.backend} sandbox ${sandbox.network ? "with" : "without"} network access`
+}
+
+/**
+ * Builds the shell command that runs a command in a sandbox, with the workspace mounted at the same
+ * path so that the paths in the output match the ones on the host.
+ *
+ * @param command The command to run
+ * @param cwd The working directory of the command, inside the workspace
+ * @param sandbox The sandbox to run the command in
+ * @param containerName The name of the container, so that it can be killed when aborted
+ * @param homePath The home directory of the user, which bubblewrap hides behind an empty directory
+ */
+export function buildSandboxCommand(
+	command: string,
+	cwd: string,
+	sandbox: WorkspaceSandbox,
+	containerName: string,
+	homePath = os.homedir(),
+): string {
+	const { workspacePath, network, memoryLimitMb, cpuLimit, pidsLimit } = sandbox
+	let args: string[]
+
+	switch (sandbox.backend) {
+		case "docker":
+		case "podman": {
+			args = [sandbox.backend, "run", "--rm", "--init", "--name", containerName]
+
+			// Rootless podman maps the user of the host to the same user in the container, docker runs
+			// as that user so that the files written to the workspace keep their owner.
+			if (sandbox.backend === "podman") {
+				args.push("--userns=keep-id")
+			} else if (process.getuid && process.getgid) {
+				args.push("--user", `${process.getuid()}:${process.getgid()}`, "--env", "HOME=/tmp")
+			}
+
+			args.push("--volume", `${workspacePath}:${workspacePath}`, "--workdir", cwd)
+
+			if (!network) {
+				args.push("--network", "none")
+			}
+
+			if (memoryLimitMb) {
+				args.push("--memory", `${memoryLimitMb}m`)
+			}
+
+			if (cpuLimit) {
+				args.push("--cpus", `${cpuLimit}`)
+			}
+
+			if (pidsLimit) {
+				args.push("--pids-limit", `${pidsLimit}`)
+			}
+
+			args.push(sandbox.image || DEFAULT_COMMAND_SANDBOX_IMAGE)
+			break
+		}
+		case "bubblewrap": {
+			args = []
+
+			// bubblewrap has no resource limits of its own, so they are applied with a systemd scope.
+			if (memoryLimitMb || cpuLimit || pidsLimit) {
+				args.push("systemd-run", "--user", "--scope", "--quiet")
+
+				if (memoryLimitMb) {
+					args.push("-p", `MemoryMax=${memoryLimitMb}M`)
+				}
+
+				if (cpuLimit) {
+					args.push("-p", `CPUQuota=${Math.round(cpuLimit * 100)}%`)
+				}
+
+				if (pidsLimit) {
+					args.push("-p", `TasksMax=${pidsLimit}`)
+				}
+			}
+
+			args.push("bwrap", "--die-with-parent", "--new-session", "--unshare-all")
+
+			if (network) {
+				args.push("--share-net")
+			}
+
+			// The system is readable so that the tools of the host work, but the home directory, with
+			// its keys and credentials, is replaced by an empty one. The workspace is mounted after
+			// it, so a workspace inside the home directory is still there.
+			args.push(
+				"--ro-bind",
+				"/",
+				"/",
+				"--dev",
+				"/dev",
+				"--proc",
+				"/proc",
+				"--tmpfs",
+				"/tmp",
+				"--tmpfs",
+				homePath,
+				"--bind",
+				workspacePath,
+				workspacePath,
+				"--chdir",
+				cwd,
+				"--",
+			)
+			break
+		}
+		default:
+			return command
+	}
+
+	return [...args, "sh", "-c", command].map(quoteShellArgument).join(" ")
+}
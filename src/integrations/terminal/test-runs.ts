@@ -0,0 +1,71 @@
+/**
+ * The outcome of a test command run through `execute_command` or `run_tests`
+ */
+export interface TestRun {
+	command: string
+	cwd: string
+	exitCode?: number
+	output: string
+	timestamp: number
+}
+
+// Runner names only count as whole words of the command line, so "cat jest.config.js" is no test run.
+const TEST_COMMAND_PATTERNS = [
+	/(?:^|[\s;&|/])(?:vitest|jest|mocha|ava|karma|pytest|tox|nosetests|rspec|phpunit|ctest)(?=$|[\s;&|])/,
+	/\b(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?test(?::[\w:-]+)?(?=$|[\s;&|])/,
+	/\bpython[\d.]*\s+-m\s+(?:pytest|unittest)\b/,
+	/\b(?:go|cargo|dotnet|deno|swift|mix|zig|rake)\s+test\b|\bcargo\s+nextest\b/,
+	/\bplaywright\s+test\b|\bcypress\s+run\b/,
+	/(?:^|[\s;&|/])(?:mvn|mvnw|gradle|gradlew)\b.*\btest\b/,
+]
+
+const lastTestRuns = new Map<string, TestRun>()
+
+/**
+ * Checks whether a command runs a test suite, based on the common test runners.
+ */
+export function isTestCommand(command: string): boolean {
+	return TEST_COMMAND_PATTERNS.some((pattern) => pattern.test(command))
+}
+
+/**
+ * Remembers a finished command as the last test run of a workspace when it runs tests.
+ * @param workspacePath The workspace the command was run for
+ */
+export function recordTestRun(workspacePath: string, run: Omit<TestRun, "timestamp">): void {
+	if (isTestCommand(run.command)) {
+		lastTestRuns.set(workspacePath, { ...run, timestamp: Date.now() })
+	}
+}
+
+export function getLastTestRun(workspacePath: string): TestRun | undefined {
+	return lastTestRuns.get(workspacePath)
+}
+
+export function clearTestRuns(): void {
+	lastTestRuns.clear()
+}
+
+/**
+ * Describes the last test run of a workspace for the `@tests` mention. The output is only
+ * included when the run failed.
+ */
+export function getLastTestRunOutput(workspacePath: string): string {
+	const run = getLastTestRun(workspacePath)
+
+	if (!run) {
+		return "No test run has been recorded yet. Run the tests with run_tests or execute_command first."
+	}
+
+	const header = [
+		`Command: ${run.command}`,
+		`Working directory: ${run.cwd.toPosix()}`,
+		`Finished: ${new Date(run.timestamp).toISOString()}`,
+	].join("\n")
+
+	if (run.exitCode === 0) {
+		return `${header}\n\nThe last test run passed.`
+	}
+
+	return `${header}\nExit code: ${run.exitCode ?? "unknown"}\n\nOutput:\n${run.output.trim()}`
+}
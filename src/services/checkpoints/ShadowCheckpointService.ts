@@ -12,8 +12,9 @@ import { fileExistsAtPath } from "../../utils/fs"
 import { executeRipgrep } from "../../services/search/file-search"
 import { t } from "../../i18n"
 
-import { CheckpointDiff, CheckpointResult, CheckpointEventMap } from "./types"
+import { CheckpointDiff, CheckpointFileRestore, CheckpointResult, CheckpointEventMap } from "./types"
 import { getExcludePatterns } from "./excludes"
+import { revertDiffHunks } from "./hunks"
 
 /**
  * Creates a SimpleGit instance with sanitized environment variables to prevent
@@ -363,6 +364,57 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Restores selected files, or selected hunks of files, from a checkpoint without
+	 * touching the rest of the workspace or the list of checkpoints.
+	 * Hunk indexes refer to the diff from the checkpoint to the current workspace.
+	 */
+	public async restoreFiles(commitHash: string, files: CheckpointFileRestore[]) {
+		try {
+			this.log(`[${this.constructor.name}#restoreFiles] restoring ${files.length} files from ${commitHash}`)
+
+			if (!this.git) {
+				throw new Error("Shadow git repo not initialized")
+			}
+
+			const start = Date.now()
+			const cwdPath = (await this.getShadowGitConfigWorktree(this.git)) || this.workspaceDir
+
+			for (const file of files) {
+				const absPath = path.resolve(cwdPath, file.path)
+				const relPath = path.relative(cwdPath, absPath)
+
+				if (!relPath || relPath.startsWith("..") || path.isAbsolute(relPath)) {
+					throw new Error(`Cannot restore a file outside of the workspace: ${file.path}`)
+				}
+
+				const gitPath = relPath.split(path.sep).join("/")
+				const before = await this.git.show([`${commitHash}:${gitPath}`]).catch(() => undefined)
+
+				if (file.hunks) {
+					const after = await fs.readFile(absPath, "utf8").catch(() => "")
+					await fs.mkdir(path.dirname(absPath), { recursive: true })
+					await fs.writeFile(absPath, revertDiffHunks(before ?? "", after, file.hunks))
+				} else if (before === undefined) {
+					// The file did not exist at the checkpoint.
+					await fs.rm(absPath, { force: true })
+				} else {
+					await this.git.raw(["checkout", commitHash, "--", gitPath])
+				}
+			}
+
+			const duration = Date.now() - start
+			this.log(
+				`[${this.constructor.name}#restoreFiles] restored ${files.length} files from ${commitHash} in ${duration}ms`,
+			)
+		} catch (e) {
+			const error = e instanceof Error ? e : new Error(String(e))
+			this.log(`[${this.constructor.name}#restoreFiles] failed to restore files: ${error.message}`)
+			this.emit("error", { type: "error", error })
+			throw error
+		}
+	}
+
 	public async getDiff({ from, to }: { from?: string; to?: string }): Promise<CheckpointDiff[]> {
 		if (!this.git) {
 			throw new Error("Shadow git repo not initialized")
@@ -506,4 +558,105 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 			return true
 		}
 	}
+
+	/**
+	 * Export
+	 */
+
+	/**
+	 * Replays a chain of checkpoints as commits on a new branch of the git repository that
+	 * contains the workspace. The branch starts at the repository HEAD and each commit sets
+	 * the files changed by its checkpoint to their checkpointed content. The working tree and
+	 * the index of the repository are left untouched.
+	 *
+	 * @returns The hashes of the exported commits, checkpoints without changes are skipped
+	 */
+	public static async exportToBranch({
+		checkpointsDir,
+		workspaceDir,
+		branchName,
+		baseHash,
+		checkpoints,
+	}: {
+		checkpointsDir: string
+		workspaceDir: string
+		branchName: string
+		baseHash: string // The commit the first checkpoint is compared with
+		checkpoints: { commitHash: string; message: string }[]
+	}): Promise<string[]> {
+		const shadowGit = createSanitizedGit(checkpointsDir)
+		const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "checkpoint-export-"))
+		// Build the commits in a temporary index so the user's staged changes are preserved.
+		const git = createSanitizedGit(workspaceDir).env("GIT_INDEX_FILE", path.join(tempDir, "index"))
+
+		try {
+			if (!(await git.checkIsRepo())) {
+				throw new Error(`${workspaceDir} is not inside a git repository`)
+			}
+
+			await git.raw(["check-ref-format", "--branch", branchName]).catch(() => {
+				throw new Error(`Invalid branch name: ${branchName}`)
+			})
+
+			if ((await git.branchLocal()).all.includes(branchName)) {
+				throw new Error(`Branch ${branchName} already exists`)
+			}
+
+			// Checkpoint paths are relative to the workspace, which may be a subdirectory of the repository.
+			const prefix = (await git.revparse(["--show-prefix"])).trim()
+			let parent = (await git.revparse(["HEAD"])).trim()
+			let parentTree = (await git.revparse([`${parent}^{tree}`])).trim()
+			let from = baseHash
+			const commits: string[] = []
+
+			await git.raw(["read-tree", parent])
+
+			for (const { commitHash, message } of checkpoints) {
+				const changes = await shadowGit.raw([
+					"diff",
+					"--raw",
+					"-z",
+					"--no-renames",
+					"--no-abbrev",
+					from,
+					commitHash,
+				])
+				const fields = changes.split("\0")
+				from = commitHash
+
+				for (let i = 0; i + 1 < fields.length; i += 2) {
+					// :<src mode> <dst mode> <src hash> <dst hash> <status>
+					const [, mode, , hash, status] = fields[i].slice(1).split(" ")
+					const repoPath = path.posix.join(prefix, fields[i + 1])
+
+					if (status === "D") {
+						await git.raw(["update-index", "--force-remove", "--", repoPath])
+					} else if (mode !== "160000") {
+						const blobPath = path.join(tempDir, "blob")
+						await fs.writeFile(blobPath, await shadowGit.binaryCatFile(["blob", hash]))
+						const blob = (await git.raw(["hash-object", "-w", "--no-filters", "--", blobPath])).trim()
+						await git.raw(["update-index", "--add", "--cacheinfo", `${mode},${blob},${repoPath}`])
+					}
+				}
+
+				const tree = (await git.raw(["write-tree"])).trim()
+
+				if (tree !== parentTree) {
+					parent = (await git.raw(["commit-tree", tree, "-p", parent, "-m", message])).trim()
+					parentTree = tree
+					commits.push(parent)
+				}
+			}
+
+			if (commits.length === 0) {
+				throw new Error("The checkpoints contain no changes to export")
+			}
+
+			await git.raw(["update-ref", `refs/heads/${branchName}`, parent])
+			console.log(`[${this.name}#exportToBranch] exported ${commits.length} commits to ${branchName}`)
+			return commits
+		} finally {
+			await fs.rm(tempDir, { recursive: true, force: true })
+		}
+	}
 }
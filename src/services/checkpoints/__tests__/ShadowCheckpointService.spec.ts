@@ -157,6 +157,103 @@ describe.each([[RepoPerTaskCheckpointService, "RepoPerTaskCheckpointService"]])(
 			})
 		})
 
+		describe(`${klass.name}#restoreFiles`, () => {
+			it("restores only the selected files", async () => {
+				const otherFile = path.join(service.workspaceDir, "other.txt")
+				await fs.writeFile(otherFile, "Other content")
+				const commit = await service.saveCheckpoint("Add other file")
+				expect(commit?.commit).toBeTruthy()
+
+				await fs.writeFile(testFile, "Goodbye, world!")
+				await fs.writeFile(otherFile, "Changed content")
+				const newFile = path.join(service.workspaceDir, "new.txt")
+				await fs.writeFile(newFile, "New file content")
+
+				await service.restoreFiles(commit!.commit, [{ path: "test.txt" }, { path: "new.txt" }])
+
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hello, world!")
+				expect(await fs.readFile(otherFile, "utf-8")).toBe("Changed content")
+				expect(await fileExistsAtPath(newFile)).toBe(false)
+				expect(service.getCheckpoints()).toEqual([commit!.commit])
+			})
+
+			it("restores only the selected hunks of a file", async () => {
+				const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`)
+				await fs.writeFile(testFile, lines.join("\n"))
+				const commit = await service.saveCheckpoint("Add lines")
+				expect(commit?.commit).toBeTruthy()
+
+				const changed = lines.map((line, i) => (i === 1 || i === 18 ? `${line} changed` : line))
+				await fs.writeFile(testFile, changed.join("\n"))
+
+				await service.restoreFiles(commit!.commit, [{ path: "test.txt", hunks: [1] }])
+
+				const restored = lines.map((line, i) => (i === 1 ? `${line} changed` : line))
+				expect(await fs.readFile(testFile, "utf-8")).toBe(restored.join("\n"))
+			})
+
+			it("rejects files outside of the workspace", async () => {
+				await expect(service.restoreFiles(service.baseHash!, [{ path: "../outside.txt" }])).rejects.toThrow(
+					"Cannot restore a file outside of the workspace",
+				)
+			})
+		})
+
+		describe(`${klass.name}#exportToBranch`, () => {
+			const exportToBranch = (branchName: string, checkpoints: { commitHash: string; message: string }[]) =>
+				klass.exportToBranch({
+					checkpointsDir: service.checkpointsDir,
+					workspaceDir: service.workspaceDir,
+					branchName,
+					baseHash: service.baseHash!,
+					checkpoints,
+				})
+
+			it("replays the checkpoints as commits without touching the working tree", async () => {
+				const head = await workspaceGit.revparse(["HEAD"])
+				await fs.writeFile(testFile, "Ahoy, world!")
+				const commit1 = await service.saveCheckpoint("First")
+				const emptyCommit = await service.saveCheckpoint("Empty", { allowEmpty: true })
+				await fs.rm(testFile)
+				await fs.writeFile(path.join(service.workspaceDir, "new.txt"), "New file")
+				const commit2 = await service.saveCheckpoint("Second")
+
+				const commits = await exportToBranch("costrict/test-task", [
+					{ commitHash: commit1!.commit, message: "Say ahoy" },
+					{ commitHash: emptyCommit!.commit, message: "Nothing" },
+					{ commitHash: commit2!.commit, message: "Replace file" },
+				])
+
+				expect(commits).toHaveLength(2)
+				const log = await workspaceGit.log(["costrict/test-task"])
+				expect(log.all.map(({ message }) => message)).toEqual(["Replace file", "Say ahoy", "Initial commit"])
+				expect(await workspaceGit.show([`${commits[0]}:test.txt`])).toBe("Ahoy, world!")
+				expect(await workspaceGit.raw(["ls-tree", "--name-only", commits[1]])).toBe("new.txt\n")
+
+				expect(await workspaceGit.revparse(["HEAD"])).toBe(head)
+				expect((await workspaceGit.status()).staged).toEqual([])
+				expect(await fileExistsAtPath(testFile)).toBe(false)
+			})
+
+			it("rejects an existing branch", async () => {
+				await fs.writeFile(testFile, "Ahoy, world!")
+				const commit = await service.saveCheckpoint("First")
+				await workspaceGit.branch(["existing"])
+
+				await expect(
+					exportToBranch("existing", [{ commitHash: commit!.commit, message: "Ahoy" }]),
+				).rejects.toThrow("Branch existing already exists")
+			})
+
+			it("rejects checkpoints without changes", async () => {
+				const commit = await service.saveCheckpoint("Empty", { allowEmpty: true })
+
+				await expect(
+					exportToBranch("empty", [{ commitHash: commit!.commit, message: "Empty" }]),
+				).rejects.toThrow("The checkpoints contain no changes to export")
+			})
+		})
+
 		describe(`${klass.name}#saveCheckpoint`, () => {
 			it("creates a checkpoint if there are pending changes", async () => {
 				await fs.writeFile(testFile, "Ahoy, world!")
@@ -0,0 +1,38 @@
+// npx vitest run src/services/checkpoints/__tests__/hunks.spec.ts
+
+import { getDiffHunks, revertDiffHunks } from "../hunks"
+
+describe("checkpoint diff hunks", () => {
+	const before = Array.from({ length: 30 }, (_, i) => `line ${i}`).join("\n")
+	const after = before.replace("line 2\n", "line two\n").replace("line 25", "line twenty-five") + "\nextra"
+
+	it("splits distant changes into separate hunks", () => {
+		const hunks = getDiffHunks(before, after)
+
+		expect(hunks).toHaveLength(2)
+		expect(hunks[0]).toMatchObject({ oldStart: 1, newStart: 1 })
+		expect(hunks[0].lines).toEqual(expect.arrayContaining(["-line 2", "+line two"]))
+		expect(hunks[1].lines).toEqual(expect.arrayContaining(["-line 25", "+line twenty-five", "+extra"]))
+	})
+
+	it("reverts only the selected hunks", () => {
+		expect(revertDiffHunks(before, after, [0])).toBe(after.replace("line two", "line 2"))
+		expect(revertDiffHunks(before, after, [1])).toBe(before.replace("line 2\n", "line two\n"))
+		expect(revertDiffHunks(before, after, [1, 0, 1])).toBe(before)
+		expect(revertDiffHunks(before, after, [])).toBe(after)
+	})
+
+	it("restores the newline at the end of the file", () => {
+		expect(revertDiffHunks("a\nb\n", "a\nc", [0])).toBe("a\nb\n")
+		expect(revertDiffHunks("a\nb", "a\nb\n", [0])).toBe("a\nb")
+	})
+
+	it("handles added and deleted files", () => {
+		expect(revertDiffHunks("", "a\nb\n", [0])).toBe("")
+		expect(revertDiffHunks("a\nb", "", [0])).toBe("a\nb")
+	})
+
+	it("rejects unknown hunks", () => {
+		expect(() => revertDiffHunks(before, after, [2])).toThrow("Hunk index out of range")
+	})
+})
@@ -0,0 +1,49 @@
+import { structuredPatch } from "diff"
+
+import type { CheckpointDiffHunk } from "@roo-code/types"
+
+/**
+ * Splits the change between two versions of a file into hunks with three lines of context.
+ */
+export function getDiffHunks(before: string, after: string): CheckpointDiffHunk[] {
+	return structuredPatch("before", "after", before, after, undefined, undefined, { context: 3 }).hunks.map(
+		({ oldStart, oldLines, newStart, newLines, lines }) => ({ oldStart, oldLines, newStart, newLines, lines }),
+	)
+}
+
+/**
+ * Undoes the selected hunks of the change from `before` to `after` while keeping the other hunks.
+ *
+ * @param before - The file content the hunks are reverted to
+ * @param after - The current file content
+ * @param hunkIndexes - Indexes into `getDiffHunks(before, after)`
+ * @returns The content of `after` with the selected hunks reverted
+ */
+export function revertDiffHunks(before: string, after: string, hunkIndexes: number[]): string {
+	const hunks = getDiffHunks(before, after)
+	const selected = [...new Set(hunkIndexes)].sort((a, b) => a - b)
+
+	if (selected.some((index) => index >= hunks.length)) {
+		throw new Error(`Hunk index out of range, the file has ${hunks.length} hunks`)
+	}
+
+	// Both sides of a hunk are copied from the original contents, line terminators included,
+	// so reverting the last hunk also restores a missing or added newline at the end of the file.
+	const beforeLines = splitLines(before)
+	const afterLines = splitLines(after)
+	const result: string[] = []
+	let afterIndex = 0
+
+	for (const { oldStart, oldLines, newStart, newLines } of selected.map((index) => hunks[index])) {
+		result.push(...afterLines.slice(afterIndex, newStart - 1))
+		result.push(...beforeLines.slice(oldStart - 1, oldStart - 1 + oldLines))
+		afterIndex = newStart - 1 + newLines
+	}
+
+	result.push(...afterLines.slice(afterIndex))
+	return result.join("")
+}
+
+function splitLines(content: string): string[] {
+	return content.match(/[^\n]*\n|[^\n]+$/g) ?? []
+}
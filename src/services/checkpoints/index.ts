@@ -1,3 +1,3 @@
-export type { CheckpointServiceOptions } from "./types"
+export type { CheckpointDiff, CheckpointFileRestore, CheckpointServiceOptions } from "./types"
 
 export { RepoPerTaskCheckpointService } from "./RepoPerTaskCheckpointService"
@@ -13,6 +13,11 @@ export type CheckpointDiff = {
 	}
 }
 
+export type CheckpointFileRestore = {
+	path: string // Relative to the workspace
+	hunks?: number[] // Indexes of the diff hunks to restore, the whole file is restored when omitted
+}
+
 export interface CheckpointServiceOptions {
 	taskId: string
 	workspaceDir: string
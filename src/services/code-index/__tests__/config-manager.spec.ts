@@ -105,6 +105,7 @@ describe("CodeIndexConfigManager", () => {
 				openAiOptions: { openAiNativeApiKey: "" },
 				ollamaOptions: { ollamaBaseUrl: "" },
 				bedrockOptions: { region: "us-east-1", profile: undefined },
+				vectorStoreProvider: "qdrant",
 				qdrantUrl: "http://localhost:6333",
 				qdrantApiKey: "",
 				searchMinScore: 0.4,
@@ -1130,6 +1131,35 @@ describe("CodeIndexConfigManager", () => {
 	})
 
 	describe("isConfigured", () => {
+		it("should not require a Qdrant URL when the local vector store is selected", async () => {
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexQdrantUrl: "",
+				codebaseIndexVectorStoreProvider: "local",
+				codebaseIndexEmbedderProvider: "openai",
+			})
+			setupSecretMocks({
+				codeIndexOpenAiKey: "test-key",
+			})
+
+			await configManager.loadConfiguration()
+			expect(configManager.isFeatureConfigured).toBe(true)
+			expect(configManager.currentVectorStoreProvider).toBe("local")
+		})
+
+		it("should not require credentials when the local embedder is selected", async () => {
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexQdrantUrl: "",
+				codebaseIndexVectorStoreProvider: "local",
+				codebaseIndexEmbedderProvider: "local",
+			})
+
+			await configManager.loadConfiguration()
+			expect(configManager.isFeatureConfigured).toBe(true)
+			expect(configManager.getConfig().embedderProvider).toBe("local")
+		})
+
 		it("should validate OpenAI configuration correctly", async () => {
 			mockContextProxy.getGlobalState.mockReturnValue({
 				codebaseIndexEnabled: true,
@@ -1389,6 +1419,29 @@ describe("CodeIndexConfigManager", () => {
 	})
 
 	describe("doesConfigChangeRequireRestart", () => {
+		it("should return true when switching the vector store backend", async () => {
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexEmbedderProvider: "openai",
+				codebaseIndexQdrantUrl: "http://localhost:6333",
+			})
+			mockContextProxy.getSecret.mockImplementation((key: string) => {
+				if (key === "codeIndexOpenAiKey") return "test-key"
+				return undefined
+			})
+			configManager = new CodeIndexConfigManager(mockContextProxy)
+
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexEmbedderProvider: "openai",
+				codebaseIndexQdrantUrl: "http://localhost:6333",
+				codebaseIndexVectorStoreProvider: "local",
+			})
+
+			const { requiresRestart } = await configManager.loadConfiguration()
+			expect(requiresRestart).toBe(true)
+		})
+
 		it("should return true when enabling the feature", async () => {
 			// Initial state: disabled
 			mockContextProxy.getGlobalState.mockReturnValue({
@@ -61,7 +61,7 @@ vi.mock("ignore", () => ({
 
 vi.mock("../state-manager", () => ({
 	CodeIndexStateManager: vi.fn().mockImplementation(() => ({
-		onProgressUpdate: vi.fn(),
+		onProgressUpdate: vi.fn().mockReturnValue({ dispose: vi.fn() }),
 		getCurrentStatus: vi.fn(),
 		dispose: vi.fn(),
 		setSystemState: vi.fn(),
@@ -78,6 +78,7 @@ vi.mock("@roo-code/telemetry", () => ({
 }))
 
 vi.mock("../service-factory")
+vi.mock("../symbol-graph")
 const MockedCodeIndexServiceFactory = CodeIndexServiceFactory as MockedClass<typeof CodeIndexServiceFactory>
 
 describe("CodeIndexManager - handleSettingsChange regression", () => {
@@ -91,9 +92,9 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 	const testGlobalStoragePath = path.join(path.sep, "test", "global-storage")
 	const testLogPath = path.join(path.sep, "test", "log")
 
-	beforeEach(() => {
+	beforeEach(async () => {
 		// Clear all instances before each test
-		CodeIndexManager.disposeAll()
+		await CodeIndexManager.disposeAll()
 
 		mockContext = {
 			subscriptions: [],
@@ -118,8 +119,8 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 		manager = CodeIndexManager.getInstance(mockContext)!
 	})
 
-	afterEach(() => {
-		CodeIndexManager.disposeAll()
+	afterEach(async () => {
+		await CodeIndexManager.disposeAll()
 	})
 
 	describe("handleSettingsChange", () => {
@@ -175,7 +176,7 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 				}),
 				createServices: vi.fn().mockReturnValue({
 					embedder: { embedderInfo: { name: "openai" } },
-					vectorStore: {},
+					vectorStore: { onDidChangePoints: vi.fn().mockReturnValue(vi.fn()) },
 					scanner: {},
 					fileWatcher: {
 						onDidStartBatchProcessing: vi.fn(),
@@ -222,8 +223,8 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			;(manager as any)._cacheManager = mockCacheManager
 
 			// Simulate an initialized manager by setting the required properties
-			;(manager as any)._orchestrator = { stopWatcher: vi.fn() }
-			;(manager as any)._searchService = {}
+			;(manager as any)._orchestrator = { stopWatcher: vi.fn(), dispose: vi.fn() }
+			;(manager as any)._searchService = { dispose: vi.fn() }
 
 			// Verify manager is considered initialized
 			expect(manager.isInitialized).toBe(true)
@@ -249,7 +250,7 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 				}),
 				createServices: vi.fn().mockReturnValue({
 					embedder: { embedderInfo: { name: "openai" } },
-					vectorStore: {},
+					vectorStore: { onDidChangePoints: vi.fn().mockReturnValue(vi.fn()) },
 					scanner: {},
 					fileWatcher: {
 						onDidStartBatchProcessing: vi.fn(),
@@ -295,7 +296,7 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 		beforeEach(() => {
 			// Mock service factory objects
 			mockEmbedder = { embedderInfo: { name: "openai" } }
-			mockVectorStore = {}
+			mockVectorStore = { onDidChangePoints: vi.fn().mockReturnValue(vi.fn()) }
 			mockScanner = {}
 			mockFileWatcher = {
 				onDidStartBatchProcessing: vi.fn(),
@@ -456,8 +457,8 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			})
 
 			// Mock orchestrator and search service to simulate initialized state
-			;(manager as any)._orchestrator = { stopWatcher: vi.fn(), state: "Error" }
-			;(manager as any)._searchService = {}
+			;(manager as any)._orchestrator = { stopWatcher: vi.fn(), dispose: vi.fn(), state: "Error" }
+			;(manager as any)._searchService = { dispose: vi.fn() }
 			;(manager as any)._serviceFactory = {}
 		})
 
@@ -475,10 +476,14 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			expect((manager as any)._serviceFactory).toBeDefined()
 			expect((manager as any)._orchestrator).toBeDefined()
 			expect((manager as any)._searchService).toBeDefined()
+			const orchestrator = (manager as any)._orchestrator
 
 			// Act
 			await manager.recoverFromError()
 
+			// Assert - the pending changes of the vector store are written first
+			expect(orchestrator.dispose).toHaveBeenCalled()
+
 			// Assert - all service instances should be undefined
 			expect((manager as any)._configManager).toBeUndefined()
 			expect((manager as any)._serviceFactory).toBeUndefined()
@@ -502,7 +507,7 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			const mockServiceFactoryInstance = {
 				createServices: vi.fn().mockReturnValue({
 					embedder: { embedderInfo: { name: "openai" } },
-					vectorStore: {},
+					vectorStore: { onDidChangePoints: vi.fn().mockReturnValue(vi.fn()) },
 					scanner: {},
 					fileWatcher: {
 						onDidStartBatchProcessing: vi.fn(),
@@ -583,8 +588,8 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			// Setup manager with service instances
 			;(manager as any)._configManager = mockConfigManager
 			;(manager as any)._serviceFactory = {}
-			;(manager as any)._orchestrator = { stopWatcher: vi.fn() }
-			;(manager as any)._searchService = {}
+			;(manager as any)._orchestrator = { stopWatcher: vi.fn(), dispose: vi.fn() }
+			;(manager as any)._searchService = { dispose: vi.fn() }
 
 			// Spy on console.error
 			const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {})
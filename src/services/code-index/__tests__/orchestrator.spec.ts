@@ -158,3 +158,114 @@ describe("CodeIndexOrchestrator - error path cleanup gating", () => {
 		expect(lastCall[0]).toBe("Error")
 	})
 })
+
+describe("CodeIndexOrchestrator - index snapshot seeding", () => {
+	const workspacePath = "/test/workspace"
+
+	let stateManager: any
+	let cacheManager: any
+	let vectorStore: any
+	let scanner: any
+	let fileWatcher: any
+	let seed: any
+
+	const createOrchestrator = () =>
+		new CodeIndexOrchestrator(
+			{ isFeatureConfigured: true } as any,
+			stateManager,
+			workspacePath,
+			cacheManager,
+			vectorStore,
+			scanner,
+			fileWatcher,
+			seed,
+		)
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+
+		let currentState = "Standby"
+		stateManager = {
+			get state() {
+				return currentState
+			},
+			setSystemState: vi.fn().mockImplementation((state: string) => {
+				currentState = state
+			}),
+			reportFileQueueProgress: vi.fn(),
+			reportBlockIndexingProgress: vi.fn(),
+		}
+		cacheManager = {
+			clearCacheFile: vi.fn().mockResolvedValue(undefined),
+			updateHash: vi.fn(),
+		}
+		// A new collection reports indexed data once it has been seeded
+		let seeded = false
+		vectorStore = {
+			initialize: vi.fn().mockResolvedValue(true),
+			hasIndexedData: vi.fn().mockImplementation(async () => seeded),
+			upsertPoints: vi.fn().mockResolvedValue(undefined),
+			markIndexingIncomplete: vi.fn().mockResolvedValue(undefined),
+			markIndexingComplete: vi.fn().mockImplementation(async () => {
+				seeded = true
+			}),
+			clearCollection: vi.fn().mockResolvedValue(undefined),
+		}
+		scanner = {
+			scanDirectory: vi.fn().mockResolvedValue({ stats: { processed: 1, skipped: 0 }, totalBlockCount: 0 }),
+		}
+		fileWatcher = {
+			initialize: vi.fn().mockResolvedValue(undefined),
+			onDidStartBatchProcessing: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+			onBatchProgressUpdate: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+			onDidFinishBatchProcessing: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+			dispose: vi.fn(),
+		}
+		seed = {
+			vectorStore: {
+				collectionExists: vi.fn().mockResolvedValue(true),
+				hasIndexedData: vi.fn().mockResolvedValue(true),
+				scrollPoints: vi.fn(async function* () {
+					yield [{ id: "1", vector: [0.1], payload: { filePath: "src/a.ts" } }]
+				}),
+			},
+			cacheManager: {
+				getAllHashes: vi.fn().mockReturnValue({ "src/a.ts": "hash-a" }),
+			},
+		}
+	})
+
+	it("should copy the seed snapshot into a new collection and scan incrementally", async () => {
+		await createOrchestrator().startIndexing()
+
+		expect(vectorStore.upsertPoints).toHaveBeenCalledWith([
+			{ id: "1", vector: [0.1], payload: { filePath: "src/a.ts" } },
+		])
+		expect(cacheManager.updateHash).toHaveBeenCalledWith("src/a.ts", "hash-a")
+		expect(scanner.scanDirectory).toHaveBeenCalledTimes(1)
+		expect(stateManager.setSystemState).toHaveBeenCalledWith("Indexing", "Checking for new or modified files...")
+		expect(stateManager.state).toBe("Indexed")
+	})
+
+	it("should index from scratch when the seed snapshot has no complete index", async () => {
+		seed.vectorStore.hasIndexedData.mockResolvedValue(false)
+
+		await createOrchestrator().startIndexing()
+
+		expect(vectorStore.upsertPoints).not.toHaveBeenCalled()
+		expect(cacheManager.updateHash).not.toHaveBeenCalled()
+		expect(stateManager.setSystemState).toHaveBeenCalledWith(
+			"Indexing",
+			"Services ready. Starting workspace scan...",
+		)
+	})
+
+	it("should ignore the seed when the snapshot collection already exists", async () => {
+		vectorStore.initialize.mockResolvedValue(false)
+
+		await createOrchestrator().startIndexing()
+
+		expect(seed.vectorStore.collectionExists).not.toHaveBeenCalled()
+		expect(cacheManager.clearCacheFile).not.toHaveBeenCalled()
+	})
+})
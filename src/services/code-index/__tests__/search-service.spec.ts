@@ -0,0 +1,200 @@
+import { CodeIndexSearchService } from "../search-service"
+import { PointStruct, VectorStoreChange, VectorStoreSearchResult } from "../interfaces"
+
+vi.mock("@roo-code/telemetry", () => ({
+	TelemetryService: {
+		instance: {
+			captureEvent: vi.fn(),
+		},
+	},
+}))
+
+const makePoint = (id: string, filePath: string, codeChunk: string): PointStruct => ({
+	id,
+	vector: [0, 0, 0],
+	payload: { filePath, codeChunk, startLine: 1, endLine: 5 },
+})
+
+describe("CodeIndexSearchService", () => {
+	const points = [
+		makePoint("exact", "src/checkpoints/index.ts", "export function getCheckpointService(task) {}"),
+		makePoint("vague", "src/checkpoints/restore.ts", "async function restoreSnapshot(task) {}"),
+		makePoint("other", "src/utils/path.ts", "export function toPosix(p) { return p }"),
+	]
+
+	let changeListener: ((change: VectorStoreChange) => void) | undefined
+	let mockStateManager: any
+	let mockConfigManager: any
+	let mockEmbedder: any
+	let mockVectorStore: any
+	let service: CodeIndexSearchService
+
+	const semanticResults: VectorStoreSearchResult[] = [
+		{ id: "vague", score: 0.82, payload: points[1].payload as any },
+		{ id: "exact", score: 0.61, payload: points[0].payload as any },
+	]
+
+	beforeEach(() => {
+		changeListener = undefined
+		mockStateManager = {
+			getCurrentStatus: vi.fn().mockReturnValue({ systemStatus: "Indexed" }),
+			setSystemState: vi.fn(),
+		}
+		mockConfigManager = {
+			isFeatureEnabled: true,
+			isFeatureConfigured: true,
+			currentSearchMinScore: 0.4,
+			currentSearchMaxResults: 2,
+		}
+		mockEmbedder = {
+			createEmbeddings: vi.fn().mockResolvedValue({ embeddings: [[1, 0, 0]] }),
+		}
+		mockVectorStore = {
+			search: vi.fn().mockResolvedValue(semanticResults),
+			scrollPayloads: vi.fn(async function* () {
+				yield points.map(({ id, payload }) => ({ id, payload }))
+			}),
+			onDidChangePoints: vi.fn((listener: (change: VectorStoreChange) => void) => {
+				changeListener = listener
+				return vi.fn()
+			}),
+		}
+
+		service = new CodeIndexSearchService(mockConfigManager, mockStateManager, mockEmbedder, mockVectorStore)
+	})
+
+	it("should default to semantic search and mark results as semantic matches", async () => {
+		const results = await service.searchIndex("checkpoint service")
+
+		expect(mockVectorStore.search).toHaveBeenCalledWith([1, 0, 0], undefined, 0.4, 2)
+		expect(mockVectorStore.scrollPayloads).not.toHaveBeenCalled()
+		expect(results.map((r) => r.match)).toEqual([
+			{ sources: ["semantic"], semanticScore: 0.82 },
+			{ sources: ["semantic"], semanticScore: 0.61 },
+		])
+	})
+
+	it("should run keyword search without embedding the query", async () => {
+		const results = await service.searchIndex("getCheckpointService", undefined, "keyword")
+
+		expect(mockEmbedder.createEmbeddings).not.toHaveBeenCalled()
+		expect(results.map((r) => r.id)).toEqual(["exact"])
+		expect(results[0].match).toMatchObject({
+			sources: ["keyword"],
+			matchedTerms: expect.arrayContaining(["getcheckpointservice"]),
+		})
+	})
+
+	it("should fuse semantic and keyword rankings in hybrid mode", async () => {
+		const results = await service.searchIndex("getCheckpointService", undefined, "hybrid")
+
+		expect(mockVectorStore.search).toHaveBeenCalledWith([1, 0, 0], undefined, 0.4, 4)
+		expect(results.map((r) => r.id)).toEqual(["exact", "vague"])
+		expect(results[0].match).toMatchObject({
+			sources: ["semantic", "keyword"],
+			semanticScore: 0.61,
+			matchedTerms: expect.arrayContaining(["getcheckpointservice"]),
+		})
+		expect(results[1].match?.sources).toEqual(["semantic"])
+		expect(results[0].score).toBeGreaterThan(results[1].score)
+		expect(results[0].score).toBeLessThanOrEqual(1)
+	})
+
+	it("should build the keyword index once and keep it up to date with the vector store changes", async () => {
+		const searchKeyword = async (query: string) =>
+			(await service.searchIndex(query, undefined, "keyword")).map((result) => result.id)
+
+		expect(await searchKeyword("toPosix")).toEqual(["other"])
+
+		changeListener?.({ type: "delete", filePaths: ["src/utils/path.ts"] })
+		changeListener?.({
+			type: "upsert",
+			points: [makePoint("moved", "src/paths.ts", "export function toPosix(p) { return p }")],
+		})
+		expect(await searchKeyword("toPosix")).toEqual(["moved"])
+
+		changeListener?.({ type: "clear" })
+		expect(await searchKeyword("toPosix")).toEqual([])
+		expect(mockVectorStore.scrollPayloads).toHaveBeenCalledTimes(1)
+	})
+
+	it("should find similar code with a cached query embedding and without changing the state on failure", async () => {
+		await service.findSimilarCode("const total = sum(items)", 5)
+		await service.findSimilarCode("const total = sum(items)", 5)
+
+		expect(mockEmbedder.createEmbeddings).toHaveBeenCalledTimes(1)
+		expect(mockVectorStore.search).toHaveBeenCalledWith([1, 0, 0], undefined, 0.4, 5)
+
+		mockVectorStore.search.mockRejectedValueOnce(new Error("store unavailable"))
+		await expect(service.findSimilarCode("other code", 5)).rejects.toThrow("store unavailable")
+		expect(mockStateManager.setSystemState).not.toHaveBeenCalled()
+	})
+
+	it("should not search for similar code while the index is not ready", async () => {
+		mockStateManager.getCurrentStatus.mockReturnValue({ systemStatus: "Error" })
+
+		await expect(service.findSimilarCode("const total = sum(items)", 5)).resolves.toEqual([])
+		expect(mockEmbedder.createEmbeddings).not.toHaveBeenCalled()
+	})
+
+	it("should set the error state when keyword search fails", async () => {
+		mockVectorStore.scrollPayloads = vi.fn(async function* () {
+			yield* []
+			throw new Error("scroll failed")
+		})
+
+		await expect(service.searchIndex("toPosix", undefined, "keyword")).rejects.toThrow("scroll failed")
+		expect(mockStateManager.setSystemState).toHaveBeenCalledWith("Error", "Search failed: scroll failed")
+	})
+})
+
+describe("CodeIndexSearchService.searchWorkspaces", () => {
+	const result = (id: string, score: number): VectorStoreSearchResult => ({
+		id,
+		score,
+		payload: { filePath: `src/${id}.ts`, codeChunk: id, startLine: 1, endLine: 2 },
+	})
+	const target = (name: string, results: VectorStoreSearchResult[] | Error) => ({
+		name,
+		workspacePath: `/repos/${name}`,
+		searchService: {
+			searchIndex: vi.fn().mockImplementation(async () => {
+				if (results instanceof Error) throw results
+				return results
+			}),
+		} as any,
+	})
+
+	it("should merge results of all folders by score and attribute them to their folder", async () => {
+		const api = target("api", [result("a1", 0.9), result("a2", 0.5)])
+		const web = target("web", [result("w1", 0.7)])
+
+		const results = await CodeIndexSearchService.searchWorkspaces([api, web], "query", 2, undefined, "hybrid")
+
+		expect(api.searchService.searchIndex).toHaveBeenCalledWith("query", undefined, "hybrid")
+		expect(results.map((r) => [r.id, r.workspaceFolder?.name])).toEqual([
+			["a1", "api"],
+			["w1", "web"],
+		])
+		expect(results[1].workspaceFolder).toEqual({ name: "web", path: "/repos/web" })
+	})
+
+	it("should only search the folder named by the directory prefix", async () => {
+		const api = target("api", [result("a1", 0.9)])
+		const web = target("web", [result("w1", 0.7)])
+
+		const results = await CodeIndexSearchService.searchWorkspaces([api, web], "query", 5, "web/src/components")
+
+		expect(api.searchService.searchIndex).not.toHaveBeenCalled()
+		expect(web.searchService.searchIndex).toHaveBeenCalledWith("query", "src/components", "semantic")
+		expect(results.map((r) => r.id)).toEqual(["w1"])
+	})
+
+	it("should skip folders whose search fails and throw when every search fails", async () => {
+		const api = target("api", new Error("api down"))
+		const web = target("web", [result("w1", 0.7)])
+
+		await expect(CodeIndexSearchService.searchWorkspaces([api, web], "query", 5)).resolves.toHaveLength(1)
+		await expect(CodeIndexSearchService.searchWorkspaces([api], "query", 5)).rejects.toThrow("api down")
+	})
+})
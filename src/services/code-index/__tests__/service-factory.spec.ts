@@ -1,17 +1,22 @@
 import type { MockedClass, MockedFunction } from "vitest"
+import * as path from "path"
 import { CodeIndexServiceFactory } from "../service-factory"
 import { OpenAiEmbedder } from "../embedders/openai"
 import { CodeIndexOllamaEmbedder } from "../embedders/ollama"
 import { OpenAICompatibleEmbedder } from "../embedders/openai-compatible"
 import { GeminiEmbedder } from "../embedders/gemini"
+import { LocalEmbedder } from "../embedders/local"
 import { QdrantVectorStore } from "../vector-store/qdrant-client"
+import { LocalVectorStore } from "../vector-store/local-vector-store"
 
 // Mock the embedders and vector store
 vitest.mock("../embedders/openai")
 vitest.mock("../embedders/ollama")
 vitest.mock("../embedders/openai-compatible")
 vitest.mock("../embedders/gemini")
+vitest.mock("../embedders/local")
 vitest.mock("../vector-store/qdrant-client")
+vitest.mock("../vector-store/local-vector-store")
 
 // Mock the embedding models module
 vitest.mock("../../../shared/embeddingModels", () => ({
@@ -32,7 +37,9 @@ const MockedOpenAiEmbedder = OpenAiEmbedder as MockedClass<typeof OpenAiEmbedder
 const MockedCodeIndexOllamaEmbedder = CodeIndexOllamaEmbedder as MockedClass<typeof CodeIndexOllamaEmbedder>
 const MockedOpenAICompatibleEmbedder = OpenAICompatibleEmbedder as MockedClass<typeof OpenAICompatibleEmbedder>
 const MockedGeminiEmbedder = GeminiEmbedder as MockedClass<typeof GeminiEmbedder>
+const MockedLocalEmbedder = LocalEmbedder as MockedClass<typeof LocalEmbedder>
 const MockedQdrantVectorStore = QdrantVectorStore as MockedClass<typeof QdrantVectorStore>
+const MockedLocalVectorStore = LocalVectorStore as MockedClass<typeof LocalVectorStore>
 
 // Import the mocked functions
 import { getDefaultModelId, getModelDimension } from "../../../shared/embeddingModels"
@@ -326,6 +333,41 @@ describe("CodeIndexServiceFactory", () => {
 			expect(() => factory.createEmbedder()).toThrow("serviceFactory.geminiConfigMissing")
 		})
 
+		it("should create local embedder with the models directory under global storage", () => {
+			// Arrange
+			const testConfig = {
+				embedderProvider: "local",
+				modelId: "Xenova/bge-small-en-v1.5",
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+			factory = new CodeIndexServiceFactory(
+				mockConfigManager,
+				"/test/workspace",
+				mockCacheManager,
+				"/test/global-storage",
+			)
+
+			// Act
+			factory.createEmbedder()
+
+			// Assert
+			expect(MockedLocalEmbedder).toHaveBeenCalledWith(
+				path.join("/test/global-storage", "code-index-models"),
+				"Xenova/bge-small-en-v1.5",
+			)
+		})
+
+		it("should throw error when global storage is unavailable for local embedder", () => {
+			// Arrange
+			const testConfig = {
+				embedderProvider: "local",
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+
+			// Act & Assert
+			expect(() => factory.createEmbedder()).toThrow("serviceFactory.localEmbedderStorageMissing")
+		})
+
 		it("should throw error for invalid embedder provider", () => {
 			// Arrange
 			const testConfig = {
@@ -367,6 +409,7 @@ describe("CodeIndexServiceFactory", () => {
 				"http://localhost:6333",
 				3072,
 				"test-key",
+				"/test/workspace",
 			)
 		})
 
@@ -392,6 +435,7 @@ describe("CodeIndexServiceFactory", () => {
 				"http://localhost:6333",
 				768,
 				"test-key",
+				"/test/workspace",
 			)
 		})
 
@@ -417,6 +461,7 @@ describe("CodeIndexServiceFactory", () => {
 				"http://localhost:6333",
 				3072,
 				"test-key",
+				"/test/workspace",
 			)
 		})
 
@@ -449,6 +494,7 @@ describe("CodeIndexServiceFactory", () => {
 				"http://localhost:6333",
 				modelDimension, // Should use model's built-in dimension, not manual
 				"test-key",
+				"/test/workspace",
 			)
 		})
 
@@ -480,6 +526,7 @@ describe("CodeIndexServiceFactory", () => {
 				"http://localhost:6333",
 				manualDimension, // Should use manual dimension as fallback
 				"test-key",
+				"/test/workspace",
 			)
 		})
 
@@ -509,6 +556,7 @@ describe("CodeIndexServiceFactory", () => {
 				"http://localhost:6333",
 				768,
 				"test-key",
+				"/test/workspace",
 			)
 		})
 
@@ -578,6 +626,7 @@ describe("CodeIndexServiceFactory", () => {
 				"http://localhost:6333",
 				3072,
 				"test-key",
+				"/test/workspace",
 			)
 		})
 
@@ -603,6 +652,7 @@ describe("CodeIndexServiceFactory", () => {
 				"http://localhost:6333",
 				3072,
 				"test-key",
+				"/test/workspace",
 			)
 		})
 
@@ -627,6 +677,7 @@ describe("CodeIndexServiceFactory", () => {
 				"http://localhost:6333",
 				1536,
 				"test-key",
+				"/test/workspace",
 			)
 		})
 
@@ -659,6 +710,118 @@ describe("CodeIndexServiceFactory", () => {
 			// Act & Assert
 			expect(() => factory.createVectorStore()).toThrow("serviceFactory.qdrantUrlMissing")
 		})
+
+		it("should create a local vector store in global storage when the local backend is selected", () => {
+			// Arrange
+			const testConfig = {
+				embedderProvider: "openai",
+				modelId: "text-embedding-3-small",
+				vectorStoreProvider: "local",
+				qdrantUrl: undefined,
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+			mockGetModelDimension.mockReturnValue(1536)
+			factory = new CodeIndexServiceFactory(
+				mockConfigManager,
+				"/test/workspace",
+				mockCacheManager,
+				"/test/global-storage",
+			)
+
+			// Act
+			factory.createVectorStore()
+
+			// Assert
+			expect(MockedLocalVectorStore).toHaveBeenCalledWith(
+				"/test/workspace",
+				"/test/global-storage",
+				1536,
+				"/test/workspace",
+			)
+			expect(MockedQdrantVectorStore).not.toHaveBeenCalled()
+		})
+
+		it("should honor an explicit backend override over the configured one", () => {
+			// Arrange
+			const testConfig = {
+				embedderProvider: "openai",
+				modelId: "text-embedding-3-small",
+				vectorStoreProvider: "qdrant",
+				qdrantUrl: "http://localhost:6333",
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+			mockGetModelDimension.mockReturnValue(1536)
+			factory = new CodeIndexServiceFactory(
+				mockConfigManager,
+				"/test/workspace",
+				mockCacheManager,
+				"/test/global-storage",
+			)
+
+			// Act
+			factory.createVectorStore("local")
+
+			// Assert
+			expect(MockedLocalVectorStore).toHaveBeenCalledWith(
+				"/test/workspace",
+				"/test/global-storage",
+				1536,
+				"/test/workspace",
+			)
+			expect(MockedQdrantVectorStore).not.toHaveBeenCalled()
+		})
+
+		it("should key the vector store by the index snapshot", () => {
+			// Arrange
+			const testConfig = {
+				embedderProvider: "openai",
+				modelId: "text-embedding-3-small",
+				vectorStoreProvider: "qdrant",
+				qdrantUrl: "http://localhost:6333",
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+			mockGetModelDimension.mockReturnValue(1536)
+			factory = new CodeIndexServiceFactory(
+				mockConfigManager,
+				"/test/workspace",
+				mockCacheManager,
+				"/test/global-storage",
+				"/test/workspace@feature",
+			)
+
+			// Act
+			factory.createVectorStore()
+			factory.createVectorStore("local", "/test/workspace@main")
+
+			// Assert
+			expect(MockedQdrantVectorStore).toHaveBeenCalledWith(
+				"/test/workspace",
+				"http://localhost:6333",
+				1536,
+				undefined,
+				"/test/workspace@feature",
+			)
+			expect(MockedLocalVectorStore).toHaveBeenCalledWith(
+				"/test/workspace",
+				"/test/global-storage",
+				1536,
+				"/test/workspace@main",
+			)
+		})
+
+		it("should throw error when the local backend has no storage location", () => {
+			// Arrange
+			const testConfig = {
+				embedderProvider: "openai",
+				modelId: "text-embedding-3-small",
+				vectorStoreProvider: "local",
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+			mockGetModelDimension.mockReturnValue(1536)
+
+			// Act & Assert
+			expect(() => factory.createVectorStore()).toThrow("serviceFactory.localVectorStoreStorageMissing")
+		})
 	})
 
 	describe("validateEmbedder", () => {
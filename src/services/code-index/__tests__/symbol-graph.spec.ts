@@ -0,0 +1,149 @@
+import type { Mock } from "vitest"
+import * as vscode from "vscode"
+import { SymbolGraph } from "../symbol-graph"
+import { FileSymbols } from "../interfaces"
+
+vitest.mock("../../../utils/safeWriteJson", () => ({
+	safeWriteJson: vitest.fn().mockResolvedValue(undefined),
+}))
+
+import { safeWriteJson } from "../../../utils/safeWriteJson"
+
+vitest.mock("vscode", () => ({
+	Uri: {
+		joinPath: vitest.fn(),
+	},
+	workspace: {
+		fs: {
+			readFile: vitest.fn(),
+		},
+	},
+}))
+
+// Mock debounce to execute immediately
+vitest.mock("lodash.debounce", () => ({ default: vitest.fn((fn) => fn) }))
+
+vitest.mock("@roo-code/telemetry", () => ({
+	TelemetryService: {
+		instance: {
+			captureEvent: vitest.fn(),
+		},
+	},
+}))
+
+const workspacePath = "/mock/workspace"
+
+const symbolsOf = (filePath: string, symbols: Partial<FileSymbols>): FileSymbols => ({
+	definitions: (symbols.definitions ?? []).map((definition) => ({ ...definition, filePath })),
+	references: (symbols.references ?? []).map((reference) => ({ ...reference, filePath })),
+	imports: (symbols.imports ?? []).map((moduleImport) => ({ ...moduleImport, filePath })),
+})
+
+describe("SymbolGraph", () => {
+	let graph: SymbolGraph
+
+	beforeEach(async () => {
+		vitest.clearAllMocks()
+		;(vscode.Uri.joinPath as Mock).mockReturnValue({ fsPath: "/mock/storage/symbol-graph.json" })
+		;(vscode.workspace.fs.readFile as Mock).mockRejectedValue(new Error("File not found"))
+
+		graph = new SymbolGraph(
+			{ globalStorageUri: { fsPath: "/mock/storage" } } as vscode.ExtensionContext,
+			workspacePath,
+		)
+		await graph.initialize()
+
+		graph.setFile(
+			`${workspacePath}/src/cache-manager.ts`,
+			"hash-cache",
+			symbolsOf("", {
+				definitions: [{ name: "CacheManager", kind: "class", filePath: "", startLine: 3, endLine: 40 }],
+			}),
+		)
+		graph.setFile(
+			`${workspacePath}/src/processors/scanner.ts`,
+			"hash-scanner",
+			symbolsOf("", {
+				references: [
+					{ name: "CacheManager", kind: "import", filePath: "", line: 1 },
+					{ name: "CacheManager", kind: "type", filePath: "", line: 12, container: "DirectoryScanner" },
+				],
+				imports: [{ source: "../cache-manager", filePath: "", line: 1 }],
+			}),
+		)
+		graph.setFile(
+			`${workspacePath}/lib/manager.ts`,
+			"hash-manager",
+			symbolsOf("", {
+				references: [{ name: "CacheManager", kind: "call", filePath: "", line: 20, container: "initialize" }],
+				imports: [
+					{ source: "../src/cache-manager.js", filePath: "", line: 2 },
+					{ source: "lodash.debounce", filePath: "", line: 3 },
+				],
+			}),
+		)
+	})
+
+	it("should find definitions and references with workspace-relative paths", () => {
+		expect(graph.findDefinitions("CacheManager")).toEqual([
+			{ name: "CacheManager", kind: "class", filePath: "src/cache-manager.ts", startLine: 3, endLine: 40 },
+		])
+		expect(graph.findReferences("CacheManager").map((r) => `${r.filePath}:${r.line}:${r.kind}`)).toEqual([
+			"lib/manager.ts:20:call",
+			"src/processors/scanner.ts:1:import",
+			"src/processors/scanner.ts:12:type",
+		])
+	})
+
+	it("should limit results to a directory", () => {
+		expect(graph.findReferences("CacheManager", "./src").map((r) => r.filePath)).toEqual([
+			"src/processors/scanner.ts",
+			"src/processors/scanner.ts",
+		])
+		expect(graph.findDefinitions("CacheManager", "lib")).toEqual([])
+	})
+
+	it("should resolve relative imports to the importing files", () => {
+		expect(graph.findImporters("src/cache-manager.ts").map((i) => `${i.filePath}:${i.source}`)).toEqual([
+			"lib/manager.ts:../src/cache-manager.js",
+			"src/processors/scanner.ts:../cache-manager",
+		])
+		expect(graph.findImporters(`${workspacePath}/lib/manager.ts`)).toEqual([])
+	})
+
+	it("should track file versions and drop removed files", () => {
+		expect(graph.hasFile(`${workspacePath}/src/cache-manager.ts`, "hash-cache")).toBe(true)
+		expect(graph.hasFile(`${workspacePath}/src/cache-manager.ts`, "stale")).toBe(false)
+
+		graph.deleteFile(`${workspacePath}/src/cache-manager.ts`)
+		expect(graph.findDefinitions("CacheManager")).toEqual([])
+
+		graph.retainFiles(new Set([`${workspacePath}/lib/manager.ts`]))
+		expect(graph.findReferences("CacheManager").map((r) => r.filePath)).toEqual(["lib/manager.ts"])
+		expect(safeWriteJson).toHaveBeenLastCalledWith("/mock/storage/symbol-graph.json", {
+			"lib/manager.ts": expect.objectContaining({ hash: "hash-manager" }),
+		})
+	})
+
+	it("should load a persisted graph and clear it", async () => {
+		;(vscode.workspace.fs.readFile as Mock).mockResolvedValue(
+			Buffer.from(
+				JSON.stringify({
+					"a.ts": {
+						hash: "h",
+						definitions: [{ name: "a", kind: "function", filePath: "a.ts", startLine: 1, endLine: 2 }],
+						references: [],
+						imports: [],
+					},
+				}),
+			),
+		)
+		await graph.initialize()
+		expect(graph.findDefinitions("a")).toHaveLength(1)
+		expect(graph.findDefinitions("CacheManager")).toEqual([])
+
+		await graph.clear()
+		expect(graph.findDefinitions("a")).toEqual([])
+		expect(safeWriteJson).toHaveBeenLastCalledWith("/mock/storage/symbol-graph.json", {})
+	})
+})
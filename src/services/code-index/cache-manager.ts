@@ -18,14 +18,16 @@ export class CacheManager implements ICacheManager {
 	 * Creates a new cache manager
 	 * @param context VS Code extension context
 	 * @param workspacePath Path to the workspace
+	 * @param snapshotKey Key of the index snapshot the cache belongs to, defaults to the workspace path
 	 */
 	constructor(
 		private context: vscode.ExtensionContext,
 		private workspacePath: string,
+		snapshotKey: string = workspacePath,
 	) {
 		this.cachePath = vscode.Uri.joinPath(
 			context.globalStorageUri,
-			`costrict-index-cache-${createHash("sha256").update(workspacePath).digest("hex")}.json`,
+			`costrict-index-cache-${createHash("sha256").update(snapshotKey).digest("hex")}.json`,
 		)
 		this._debouncedSaveCache = debounce(async () => {
 			await this._performSave()
@@ -1,6 +1,6 @@
 import { ApiHandlerOptions } from "../../shared/api"
 import { ContextProxy } from "../../core/config/ContextProxy"
-import { EmbedderProvider } from "./interfaces/manager"
+import { EmbedderProvider, VectorStoreProvider } from "./interfaces/manager"
 import { CodeIndexConfig, PreviousConfigSnapshot } from "./interfaces/config"
 import { DEFAULT_SEARCH_MIN_SCORE, DEFAULT_MAX_SEARCH_RESULTS, defaultCodebaseIndexEnabled } from "./constants"
 import { getDefaultModelId, getModelDimension, getModelScoreThreshold } from "../../shared/embeddingModels"
@@ -22,6 +22,7 @@ export class CodeIndexConfigManager {
 	private vercelAiGatewayOptions?: { apiKey: string }
 	private bedrockOptions?: { region: string; profile?: string }
 	private openRouterOptions?: { apiKey: string; specificProvider?: string }
+	private vectorStoreProvider: VectorStoreProvider = "qdrant"
 	private qdrantUrl?: string = "http://localhost:6333"
 	private qdrantApiKey?: string
 	private searchMinScore?: number
@@ -60,6 +61,7 @@ export class CodeIndexConfigManager {
 		const {
 			codebaseIndexEnabled,
 			codebaseIndexQdrantUrl,
+			codebaseIndexVectorStoreProvider,
 			codebaseIndexEmbedderProvider,
 			codebaseIndexEmbedderBaseUrl,
 			codebaseIndexEmbedderModelId,
@@ -82,6 +84,7 @@ export class CodeIndexConfigManager {
 
 		// Update instance variables with configuration
 		this.codebaseIndexEnabled = codebaseIndexEnabled ?? false
+		this.vectorStoreProvider = codebaseIndexVectorStoreProvider === "local" ? "local" : "qdrant"
 		this.qdrantUrl = codebaseIndexQdrantUrl
 		this.qdrantApiKey = qdrantApiKey ?? ""
 		this.searchMinScore = codebaseIndexSearchMinScore
@@ -120,6 +123,8 @@ export class CodeIndexConfigManager {
 			this.embedderProvider = "bedrock"
 		} else if (codebaseIndexEmbedderProvider === "openrouter") {
 			this.embedderProvider = "openrouter"
+		} else if (codebaseIndexEmbedderProvider === "local") {
+			this.embedderProvider = "local"
 		} else {
 			this.embedderProvider = "openai"
 		}
@@ -168,6 +173,7 @@ export class CodeIndexConfigManager {
 			vercelAiGatewayOptions?: { apiKey: string }
 			bedrockOptions?: { region: string; profile?: string }
 			openRouterOptions?: { apiKey: string }
+			vectorStoreProvider: VectorStoreProvider
 			qdrantUrl?: string
 			qdrantApiKey?: string
 			searchMinScore?: number
@@ -192,6 +198,7 @@ export class CodeIndexConfigManager {
 			bedrockProfile: this.bedrockOptions?.profile ?? "",
 			openRouterApiKey: this.openRouterOptions?.apiKey ?? "",
 			openRouterSpecificProvider: this.openRouterOptions?.specificProvider ?? "",
+			vectorStoreProvider: this.vectorStoreProvider,
 			qdrantUrl: this.qdrantUrl ?? "",
 			qdrantApiKey: this.qdrantApiKey ?? "",
 		}
@@ -219,6 +226,7 @@ export class CodeIndexConfigManager {
 				vercelAiGatewayOptions: this.vercelAiGatewayOptions,
 				bedrockOptions: this.bedrockOptions,
 				openRouterOptions: this.openRouterOptions,
+				vectorStoreProvider: this.vectorStoreProvider,
 				qdrantUrl: this.qdrantUrl,
 				qdrantApiKey: this.qdrantApiKey,
 				searchMinScore: this.currentSearchMinScore,
@@ -227,51 +235,62 @@ export class CodeIndexConfigManager {
 		}
 	}
 
+	/**
+	 * Checks if the selected vector store backend has what it needs.
+	 * The local store is persisted in global storage and needs no connection settings.
+	 */
+	private isVectorStoreConfigured(): boolean {
+		return this.vectorStoreProvider === "local" || !!this.qdrantUrl
+	}
+
 	/**
 	 * Checks if the service is properly configured based on the embedder type.
 	 */
 	public isConfigured(): boolean {
 		if (this.embedderProvider === "openai") {
 			const openAiKey = this.openAiOptions?.openAiNativeApiKey
-			const qdrantUrl = this.qdrantUrl
-			return !!(openAiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			return !!(openAiKey && vectorStoreConfigured)
 		} else if (this.embedderProvider === "ollama") {
 			// Ollama model ID has a default, so only base URL is strictly required for config
 			const ollamaBaseUrl = this.ollamaOptions?.ollamaBaseUrl
-			const qdrantUrl = this.qdrantUrl
-			return !!(ollamaBaseUrl && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			return !!(ollamaBaseUrl && vectorStoreConfigured)
 		} else if (this.embedderProvider === "openai-compatible") {
 			const baseUrl = this.openAiCompatibleOptions?.baseUrl
 			const apiKey = this.openAiCompatibleOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(baseUrl && apiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(baseUrl && apiKey && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "gemini") {
 			const apiKey = this.geminiOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(apiKey && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "mistral") {
 			const apiKey = this.mistralOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(apiKey && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "vercel-ai-gateway") {
 			const apiKey = this.vercelAiGatewayOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(apiKey && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "bedrock") {
 			// Only region is required for Bedrock (profile is optional)
 			const region = this.bedrockOptions?.region
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(region && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(region && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "openrouter") {
 			const apiKey = this.openRouterOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(apiKey && vectorStoreConfigured)
 			return isConfigured
+		} else if (this.embedderProvider === "local") {
+			// The local embedder runs in the extension and needs no credentials
+			return this.isVectorStoreConfigured()
 		}
 		// } else if (this.embedderProvider === "roo") {
 		// 	// Roo Code Cloud uses CloudService session token, so we need to check authentication
@@ -294,6 +313,7 @@ export class CodeIndexConfigManager {
 	 * - Provider changes (openai -> ollama, etc.)
 	 * - Authentication changes (API keys, base URLs)
 	 * - Vector dimension changes (model changes that affect embedding size)
+	 * - Vector store backend changes (Qdrant <-> local)
 	 * - Qdrant connection changes (URL, API key)
 	 * - Feature enable/disable transitions
 	 *
@@ -321,6 +341,7 @@ export class CodeIndexConfigManager {
 		const prevBedrockProfile = prev?.bedrockProfile ?? ""
 		const prevOpenRouterApiKey = prev?.openRouterApiKey ?? ""
 		const prevOpenRouterSpecificProvider = prev?.openRouterSpecificProvider ?? ""
+		const prevVectorStoreProvider = prev?.vectorStoreProvider ?? "qdrant"
 		const prevQdrantUrl = prev?.qdrantUrl ?? ""
 		const prevQdrantApiKey = prev?.qdrantApiKey ?? ""
 
@@ -411,7 +432,14 @@ export class CodeIndexConfigManager {
 			return true
 		}
 
-		if (prevQdrantUrl !== currentQdrantUrl || prevQdrantApiKey !== currentQdrantApiKey) {
+		if (prevVectorStoreProvider !== this.vectorStoreProvider) {
+			return true
+		}
+
+		if (
+			this.vectorStoreProvider === "qdrant" &&
+			(prevQdrantUrl !== currentQdrantUrl || prevQdrantApiKey !== currentQdrantApiKey)
+		) {
 			return true
 		}
 
@@ -466,6 +494,7 @@ export class CodeIndexConfigManager {
 			vercelAiGatewayOptions: this.vercelAiGatewayOptions,
 			bedrockOptions: this.bedrockOptions,
 			openRouterOptions: this.openRouterOptions,
+			vectorStoreProvider: this.vectorStoreProvider,
 			qdrantUrl: this.qdrantUrl,
 			qdrantApiKey: this.qdrantApiKey,
 			searchMinScore: this.currentSearchMinScore,
@@ -494,6 +523,13 @@ export class CodeIndexConfigManager {
 		return this.embedderProvider
 	}
 
+	/**
+	 * Gets the current vector store backend
+	 */
+	public get currentVectorStoreProvider(): VectorStoreProvider {
+		return this.vectorStoreProvider
+	}
+
 	/**
 	 * Gets the current Qdrant configuration
 	 */
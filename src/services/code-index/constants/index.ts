@@ -9,11 +9,28 @@ export const MAX_CHARS_TOLERANCE_FACTOR = 1.15 // 15% tolerance for max chars
 /**Search */
 export const DEFAULT_SEARCH_MIN_SCORE = CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_MIN_SCORE
 export const DEFAULT_MAX_SEARCH_RESULTS = CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_RESULTS
+export const HYBRID_SEARCH_RRF_K = 60 // Reciprocal rank fusion damping constant
+export const HYBRID_SEARCH_CANDIDATE_MULTIPLIER = 2 // Candidates fetched per ranking before fusion
+export const LEXICAL_INDEX_SCROLL_BATCH_SIZE = 512
+export const SIMILAR_CODE_QUERY_CACHE_SIZE = 64 // Embeddings of the code that inline completion searches with
+
+/**Symbol Graph */
+export const MAX_SYMBOL_GRAPH_RESULTS = 100 // Maximum definitions, references or importers returned per query
+
+/**Index Snapshots */
+export const INDEX_SNAPSHOTS_STATE_KEY = "codeIndexActiveSnapshots" // Global state map of workspace path to active snapshot key
+export const INDEX_SNAPSHOT_HISTORY_STATE_KEY = "codeIndexRecentSnapshots" // Global state map of workspace path to snapshot keys, most recently used first
+export const MAX_INDEX_SNAPSHOTS_PER_WORKSPACE = 5 // Older snapshots are deleted, as each holds a copy of the index
+export const GIT_HEAD_CHANGE_DEBOUNCE_MS = 1000 // Wait for git to finish updating HEAD before switching snapshots
 
 /**File Watcher */
 export const QDRANT_CODE_BLOCK_NAMESPACE = "f47ac10b-58cc-4372-a567-0e02b2c3d479"
 export const MAX_FILE_SIZE_BYTES = 1 * 1024 * 1024 // 1MB
 
+/**Local Vector Store */
+export const LOCAL_VECTOR_STORE_DIR_NAME = "code-index-vectors" // Subdirectory of global storage
+export const VECTOR_STORE_MIGRATION_BATCH_SIZE = 256
+
 /**Directory Scanner */
 export const MAX_LIST_FILES_LIMIT_CODE_INDEX = 50_000
 export const BATCH_SEGMENT_THRESHOLD = 60 // Number of code segments to batch for embeddings/upserts
@@ -27,6 +44,10 @@ export const MAX_BATCH_TOKENS = 100000
 export const MAX_ITEM_TOKENS = 8191
 export const BATCH_PROCESSING_CONCURRENCY = 10
 
+/**Local Embedder */
+export const LOCAL_EMBEDDING_MODELS_DIR_NAME = "code-index-models" // Subdirectory of global storage
+export const LOCAL_EMBEDDER_BATCH_SIZE = 16 // Texts per worker call; smaller batches make cancellation more responsive
+
 /**Gemini Embedder */
 export const GEMINI_MAX_ITEM_TOKENS = 2048
 
@@ -0,0 +1,156 @@
+import workerpool from "workerpool"
+
+import { LocalEmbedder } from "../local"
+import { LOCAL_EMBEDDER_BATCH_SIZE } from "../../constants"
+
+vitest.mock("workerpool", () => ({
+	default: {
+		pool: vitest.fn(),
+	},
+}))
+
+vitest.mock("@roo-code/telemetry", () => ({
+	TelemetryService: {
+		instance: {
+			captureEvent: vitest.fn(),
+		},
+	},
+}))
+
+vitest.mock("../../../../i18n", () => ({
+	t: (key: string, params?: Record<string, any>) => {
+		if (key === "embeddings:local.embeddingFailed" && params?.errorMessage) {
+			return `Local embedding failed: ${params.errorMessage}`
+		}
+		return key
+	},
+}))
+
+/**
+ * Creates a cancellable promise resembling the ones returned by workerpool's exec.
+ */
+const createTask = (executor: (resolve: (value: unknown) => void, reject: (error: Error) => void) => void) => {
+	let rejectTask: (error: Error) => void = () => {}
+	const task = new Promise((resolve, reject) => {
+		rejectTask = reject
+		executor(resolve, reject)
+	}) as Promise<unknown> & { cancel: () => void }
+	task.cancel = vitest.fn(() => {
+		const error = new Error("promise cancelled")
+		error.name = "CancellationError"
+		rejectTask(error)
+	})
+	return task
+}
+
+describe("LocalEmbedder", () => {
+	const modelsDir = "/global-storage/code-index-models"
+	let mockExec: ReturnType<typeof vitest.fn>
+	let mockTerminate: ReturnType<typeof vitest.fn>
+
+	const embedTexts = (texts: string[]) => texts.map((_, index) => [index, 0.5])
+
+	beforeEach(() => {
+		vitest.clearAllMocks()
+		mockExec = vitest.fn((_method: string, [request]: [{ texts: string[] }]) =>
+			createTask((resolve) => resolve({ success: true, embeddings: embedTexts(request.texts) })),
+		)
+		mockTerminate = vitest.fn().mockResolvedValue(undefined)
+		vitest.mocked(workerpool.pool).mockReturnValue({ exec: mockExec, terminate: mockTerminate } as any)
+	})
+
+	it("should use the default model and report its embedder name", async () => {
+		const embedder = new LocalEmbedder(modelsDir)
+
+		await embedder.createEmbeddings(["hello"])
+
+		expect(mockExec).toHaveBeenCalledWith("embed", [
+			{ modelId: "Xenova/all-MiniLM-L6-v2", modelsDir, texts: ["hello"] },
+		])
+		expect(embedder.embedderInfo).toEqual({ name: "local" })
+	})
+
+	it("should run a single worker thread and embed texts in batches", async () => {
+		const embedder = new LocalEmbedder(modelsDir, "Xenova/bge-small-en-v1.5")
+		const texts = Array.from({ length: LOCAL_EMBEDDER_BATCH_SIZE + 2 }, (_, i) => `text ${i}`)
+
+		const result = await embedder.createEmbeddings(texts)
+
+		expect(workerpool.pool).toHaveBeenCalledTimes(1)
+		expect(workerpool.pool).toHaveBeenCalledWith(expect.stringContaining("workers/localEmbeddings.js"), {
+			maxWorkers: 1,
+			workerType: "thread",
+		})
+		expect(mockExec).toHaveBeenCalledTimes(2)
+		expect(mockExec.mock.calls[1][1][0].texts).toEqual(texts.slice(LOCAL_EMBEDDER_BATCH_SIZE))
+		expect(result.embeddings).toHaveLength(texts.length)
+	})
+
+	it("should surface worker errors", async () => {
+		mockExec.mockReturnValueOnce(createTask((resolve) => resolve({ success: false, error: "model missing" })))
+		const embedder = new LocalEmbedder(modelsDir)
+
+		await expect(embedder.createEmbeddings(["hello"])).rejects.toThrow("Local embedding failed: model missing")
+	})
+
+	it("should cancel in-flight batches and skip the remaining ones", async () => {
+		mockExec.mockReturnValueOnce(createTask(() => {}))
+		const embedder = new LocalEmbedder(modelsDir)
+		const texts = Array.from({ length: LOCAL_EMBEDDER_BATCH_SIZE * 2 }, (_, i) => `text ${i}`)
+
+		const pending = embedder.createEmbeddings(texts)
+		embedder.cancel()
+
+		await expect(pending).rejects.toThrow("embeddings:local.cancelled")
+		expect(mockExec).toHaveBeenCalledTimes(1)
+
+		// New requests work again after a cancellation
+		await expect(embedder.createEmbeddings(["hello"])).resolves.toEqual({ embeddings: [[0, 0.5]] })
+	})
+
+	it("should terminate the worker on dispose", async () => {
+		const embedder = new LocalEmbedder(modelsDir)
+		await embedder.createEmbeddings(["hello"])
+
+		await embedder.dispose()
+
+		expect(mockTerminate).toHaveBeenCalledWith(true)
+	})
+
+	describe("downloadModel", () => {
+		it("should be the only request allowed to download the model", async () => {
+			const embedder = new LocalEmbedder(modelsDir)
+
+			await embedder.downloadModel()
+			await embedder.createEmbeddings(["hello"])
+
+			expect(mockExec.mock.calls.map(([, [request]]) => request.allowDownload)).toEqual([true, undefined])
+		})
+
+		it("should report download failures", async () => {
+			mockExec.mockReturnValueOnce(createTask((resolve) => resolve({ success: false, error: "fetch failed" })))
+			const embedder = new LocalEmbedder(modelsDir)
+
+			await expect(embedder.downloadModel()).rejects.toThrow("embeddings:local.downloadFailed")
+		})
+	})
+
+	describe("validateConfiguration", () => {
+		it("should load the model by embedding a test string", async () => {
+			const embedder = new LocalEmbedder(modelsDir)
+
+			await expect(embedder.validateConfiguration()).resolves.toEqual({ valid: true })
+			expect(mockExec).toHaveBeenCalledWith("embed", [expect.objectContaining({ texts: ["test"] })])
+		})
+
+		it("should report model load failures", async () => {
+			mockExec.mockReturnValueOnce(createTask((resolve) => resolve({ success: false, error: "fetch failed" })))
+			const embedder = new LocalEmbedder(modelsDir)
+
+			await expect(embedder.validateConfiguration()).resolves.toEqual({
+				valid: false,
+				error: "embeddings:local.modelLoadFailed",
+			})
+		})
+	})
+})
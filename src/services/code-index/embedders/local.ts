@@ -0,0 +1,193 @@
+import workerpool from "workerpool"
+
+import { IEmbedder, EmbeddingResponse, EmbedderInfo } from "../interfaces/embedder"
+import { getDefaultModelId, getModelQueryPrefix } from "../../../shared/embeddingModels"
+import { type LocalEmbeddingsRequest, localEmbeddingsResultSchema } from "../../../workers/types"
+import { LOCAL_EMBEDDER_BATCH_SIZE } from "../constants"
+import { t } from "../../../i18n"
+import { TelemetryEventName } from "@roo-code/types"
+import { TelemetryService } from "@roo-code/telemetry"
+
+type EmbeddingTask = ReturnType<workerpool.Pool["exec"]>
+
+/**
+ * Embedder that runs a small sentence-embedding model on the CPU in a worker thread,
+ * so indexing works without any network-backed embedding service.
+ *
+ * Model files are only read from the models directory. They are downloaded into it by
+ * {@link downloadModel}, or copied there ahead of time on air-gapped machines.
+ *
+ * Supported models:
+ * - Xenova/all-MiniLM-L6-v2 (dimension: 384)
+ * - Xenova/bge-small-en-v1.5 (dimension: 384)
+ * - jinaai/jina-embeddings-v2-base-code (dimension: 768)
+ */
+export class LocalEmbedder implements IEmbedder {
+	private readonly modelId: string
+	private pool: workerpool.Pool | undefined
+	private readonly pendingTasks = new Set<EmbeddingTask>()
+	private cancellationCount = 0
+
+	/**
+	 * Creates a new local embedder
+	 * @param modelsDir Directory holding the model files
+	 * @param modelId The model ID to use (defaults to Xenova/all-MiniLM-L6-v2)
+	 */
+	constructor(
+		private readonly modelsDir: string,
+		modelId?: string,
+	) {
+		this.modelId = modelId || getDefaultModelId("local")
+	}
+
+	/**
+	 * Creates embeddings for the given texts. Texts are embedded in small batches so that
+	 * a cancellation takes effect between batches as well as during one.
+	 * @param texts Array of text strings to embed
+	 * @param model Optional model identifier (uses constructor model if not provided)
+	 * @returns Promise resolving to embedding response
+	 */
+	async createEmbeddings(texts: string[], model?: string): Promise<EmbeddingResponse> {
+		const modelToUse = model || this.modelId
+		const cancellationCount = this.cancellationCount
+
+		// Apply model-specific query prefix if required
+		const queryPrefix = getModelQueryPrefix("local", modelToUse)
+		const processedTexts = queryPrefix
+			? texts.map((text) => (text.startsWith(queryPrefix) ? text : `${queryPrefix}${text}`))
+			: texts
+
+		try {
+			const embeddings: number[][] = []
+
+			for (let i = 0; i < processedTexts.length; i += LOCAL_EMBEDDER_BATCH_SIZE) {
+				if (this.cancellationCount !== cancellationCount) {
+					throw new Error(t("embeddings:local.cancelled"))
+				}
+				const batch = processedTexts.slice(i, i + LOCAL_EMBEDDER_BATCH_SIZE)
+				embeddings.push(...(await this.embedBatch(batch, modelToUse)))
+			}
+
+			return { embeddings }
+		} catch (error) {
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: error instanceof Error ? error.message : String(error),
+				stack: error instanceof Error ? error.stack : undefined,
+				location: "LocalEmbedder:createEmbeddings",
+			})
+			throw error
+		}
+	}
+
+	/**
+	 * Validates the configuration by loading the model and embedding a test string
+	 * @returns Promise resolving to validation result with success status and optional error message
+	 */
+	async validateConfiguration(): Promise<{ valid: boolean; error?: string }> {
+		try {
+			const embeddings = await this.embedBatch(["test"], this.modelId)
+
+			if (embeddings.length !== 1 || embeddings[0].length === 0) {
+				return { valid: false, error: "embeddings:validation.invalidResponse" }
+			}
+
+			return { valid: true }
+		} catch (error) {
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: error instanceof Error ? error.message : String(error),
+				stack: error instanceof Error ? error.stack : undefined,
+				location: "LocalEmbedder:validateConfiguration",
+			})
+
+			return {
+				valid: false,
+				error: t("embeddings:local.modelLoadFailed", {
+					modelId: this.modelId,
+					modelsDir: this.modelsDir,
+					errorMessage: error instanceof Error ? error.message : String(error),
+				}),
+			}
+		}
+	}
+
+	/**
+	 * Downloads the files of the model into the models directory, unless they are already there.
+	 * Embedding never downloads anything, so this is the only step that needs network access.
+	 */
+	async downloadModel(): Promise<void> {
+		try {
+			await this.embedBatch(["test"], this.modelId, true)
+		} catch (error) {
+			throw new Error(
+				t("embeddings:local.downloadFailed", {
+					modelId: this.modelId,
+					modelsDir: this.modelsDir,
+					errorMessage: error instanceof Error ? error.message : String(error),
+				}),
+			)
+		}
+	}
+
+	/**
+	 * Cancels all in-flight and queued embedding batches. Cancelling terminates the
+	 * worker thread, so the model is loaded again on the next request.
+	 */
+	cancel(): void {
+		this.cancellationCount++
+		this.pendingTasks.forEach((task) => task.cancel())
+		this.pendingTasks.clear()
+	}
+
+	/**
+	 * Cancels pending work and shuts down the worker thread
+	 */
+	async dispose(): Promise<void> {
+		this.cancel()
+		const pool = this.pool
+		this.pool = undefined
+		await pool?.terminate(true)
+	}
+
+	/**
+	 * Returns information about this embedder
+	 */
+	get embedderInfo(): EmbedderInfo {
+		return {
+			name: "local",
+		}
+	}
+
+	private async embedBatch(texts: string[], modelId: string, allowDownload = false): Promise<number[][]> {
+		// Lazily create the worker pool. A single worker keeps one copy of the model in memory.
+		if (!this.pool) {
+			this.pool = workerpool.pool(__dirname + "/workers/localEmbeddings.js", {
+				maxWorkers: 1,
+				workerType: "thread",
+			})
+		}
+
+		const request: LocalEmbeddingsRequest = { modelId, modelsDir: this.modelsDir, texts }
+		if (allowDownload) {
+			request.allowDownload = true
+		}
+		const task = this.pool.exec("embed", [request])
+		this.pendingTasks.add(task)
+
+		try {
+			const result = localEmbeddingsResultSchema.parse(await task)
+
+			if (!result.success) {
+				throw new Error(t("embeddings:local.embeddingFailed", { errorMessage: result.error }))
+			}
+
+			return result.embeddings
+		} catch (error) {
+			if (error instanceof Error && error.name === "CancellationError") {
+				throw new Error(t("embeddings:local.cancelled"))
+			}
+			throw error
+		} finally {
+			this.pendingTasks.delete(task)
+		}
+	}
+}
@@ -1,5 +1,5 @@
 import { ApiHandlerOptions } from "../../../shared/api" // Adjust path if needed
-import { EmbedderProvider } from "./manager"
+import { EmbedderProvider, VectorStoreProvider } from "./manager"
 
 /**
  * Configuration state for the code indexing feature
@@ -17,6 +17,7 @@ export interface CodeIndexConfig {
 	vercelAiGatewayOptions?: { apiKey: string }
 	bedrockOptions?: { region: string; profile?: string }
 	openRouterOptions?: { apiKey: string; specificProvider?: string }
+	vectorStoreProvider: VectorStoreProvider
 	qdrantUrl?: string
 	qdrantApiKey?: string
 	searchMinScore?: number
@@ -43,6 +44,7 @@ export type PreviousConfigSnapshot = {
 	bedrockProfile?: string
 	openRouterApiKey?: string
 	openRouterSpecificProvider?: string
+	vectorStoreProvider?: VectorStoreProvider
 	qdrantUrl?: string
 	qdrantApiKey?: string
 }
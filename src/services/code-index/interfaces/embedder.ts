@@ -17,6 +17,11 @@ export interface IEmbedder {
 	 */
 	validateConfiguration(): Promise<{ valid: boolean; error?: string }>
 
+	/**
+	 * Cancels pending requests and releases resources held by the embedder, if any.
+	 */
+	dispose?(): Promise<void>
+
 	get embedderInfo(): EmbedderInfo
 }
 
@@ -37,6 +42,7 @@ export type AvailableEmbedders =
 	| "vercel-ai-gateway"
 	| "bedrock"
 	| "openrouter"
+	| "local"
 
 export interface EmbedderInfo {
 	name: AvailableEmbedders
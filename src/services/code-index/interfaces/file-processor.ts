@@ -1,5 +1,6 @@
 import * as vscode from "vscode"
 import { PointStruct } from "./vector-store"
+import { FileSymbols } from "./symbol-graph"
 
 /**
  * Interface for code file parser
@@ -20,6 +21,14 @@ export interface ICodeParser {
 			fileHash?: string
 		},
 	): Promise<CodeBlock[]>
+
+	/**
+	 * Extracts definitions, references and imports of a code file for the symbol graph
+	 * @param filePath Path to the file
+	 * @param content File content
+	 * @returns Promise resolving to the file's symbols
+	 */
+	extractSymbols(filePath: string, content: string): Promise<FileSymbols>
 }
 
 /**
@@ -66,7 +66,7 @@ export interface ICodeIndexManager {
 	/**
 	 * Disposes of resources used by the manager
 	 */
-	dispose(): void
+	dispose(): Promise<void>
 }
 
 export type IndexingState = "Standby" | "Indexing" | "Indexed" | "Error"
@@ -79,6 +79,8 @@ export type EmbedderProvider =
 	| "vercel-ai-gateway"
 	| "bedrock"
 	| "openrouter"
+	| "local"
+export type VectorStoreProvider = "qdrant" | "local"
 
 export interface IndexProgressUpdate {
 	systemStatus: IndexingState
@@ -0,0 +1,109 @@
+/**
+ * A named declaration captured by the tree-sitter definition queries
+ */
+export interface SymbolDefinition {
+	name: string
+	/** Definition kind taken from the query capture, e.g. "function", "class", "method" */
+	kind: string
+	filePath: string
+	startLine: number
+	endLine: number
+}
+
+/**
+ * How a symbol is used at a reference site
+ */
+export type SymbolReferenceKind = "call" | "type" | "import"
+
+/**
+ * A use of a symbol name outside of its own declaration
+ */
+export interface SymbolReference {
+	name: string
+	kind: SymbolReferenceKind
+	filePath: string
+	line: number
+	/** Name of the innermost definition containing the reference (the caller for call edges) */
+	container?: string
+}
+
+/**
+ * An import of another module, e.g. `import { x } from "./y"` or `use crate::y`
+ */
+export interface ModuleImport {
+	/** The module specifier as written in the source */
+	source: string
+	filePath: string
+	line: number
+}
+
+/**
+ * Symbols extracted from a single file
+ */
+export interface FileSymbols {
+	definitions: SymbolDefinition[]
+	references: SymbolReference[]
+	imports: ModuleImport[]
+}
+
+/**
+ * Interface for the symbol graph stored alongside the vector index
+ */
+export interface ISymbolGraph {
+	/**
+	 * Loads the persisted symbol graph
+	 */
+	initialize(): Promise<void>
+
+	/**
+	 * Checks whether symbols for the given version of a file are already stored
+	 * @param filePath Absolute path of the file
+	 * @param fileHash Hash of the file content
+	 */
+	hasFile(filePath: string, fileHash: string): boolean
+
+	/**
+	 * Replaces the stored symbols of a file
+	 * @param filePath Absolute path of the file
+	 * @param fileHash Hash of the file content the symbols were extracted from
+	 * @param symbols Extracted symbols
+	 */
+	setFile(filePath: string, fileHash: string, symbols: FileSymbols): void
+
+	/**
+	 * Removes the stored symbols of a file
+	 * @param filePath Absolute path of the file
+	 */
+	deleteFile(filePath: string): void
+
+	/**
+	 * Removes every file that is not in the given set
+	 * @param filePaths Absolute paths of the files to keep
+	 */
+	retainFiles(filePaths: Set<string>): void
+
+	/**
+	 * Removes all stored symbols
+	 */
+	clear(): Promise<void>
+
+	/**
+	 * Finds where a symbol is defined
+	 * @param name Symbol name
+	 * @param directoryPrefix Optional workspace-relative directory to limit results to
+	 */
+	findDefinitions(name: string, directoryPrefix?: string): SymbolDefinition[]
+
+	/**
+	 * Finds calls, type references and imports of a symbol
+	 * @param name Symbol name
+	 * @param directoryPrefix Optional workspace-relative directory to limit results to
+	 */
+	findReferences(name: string, directoryPrefix?: string): SymbolReference[]
+
+	/**
+	 * Finds the imports that resolve to a module file
+	 * @param filePath Workspace-relative or absolute path of the imported file
+	 */
+	findImporters(filePath: string): ModuleImport[]
+}
@@ -7,6 +7,15 @@ export type PointStruct = {
 	payload: Record<string, any>
 }
 
+/**
+ * Change made to the points of a collection through a vector store instance.
+ * File paths are relative to the workspace.
+ */
+export type VectorStoreChange =
+	| { type: "upsert"; points: PointStruct[] }
+	| { type: "delete"; filePaths: string[] }
+	| { type: "clear" }
+
 export interface IVectorStore {
 	/**
 	 * Initializes the vector store
@@ -80,12 +89,51 @@ export interface IVectorStore {
 	 * Should be called at the start of indexing to indicate work in progress
 	 */
 	markIndexingIncomplete(): Promise<void>
+
+	/**
+	 * Iterates over all stored points in batches, excluding indexing metadata.
+	 * Used to migrate an existing index between vector store backends.
+	 * @param batchSize Optional number of points to yield per batch
+	 */
+	scrollPoints(batchSize?: number): AsyncGenerator<PointStruct[]>
+
+	/**
+	 * Iterates over all stored points in batches like {@link scrollPoints}, without reading their vectors.
+	 * @param batchSize Optional number of points to yield per batch
+	 */
+	scrollPayloads(batchSize?: number): AsyncGenerator<Omit<PointStruct, "vector">[]>
+
+	/**
+	 * Registers a listener for the changes made to the points through this instance, so that
+	 * indexes derived from the points can be kept up to date without reading them all again.
+	 * @param listener Called after each successful change
+	 * @returns Function that removes the listener
+	 */
+	onDidChangePoints(listener: (change: VectorStoreChange) => void): () => void
+
+	/**
+	 * Writes the changes that are not persisted yet, if the store defers its writes.
+	 */
+	dispose?(): Promise<void>
 }
 
 export interface VectorStoreSearchResult {
 	id: string | number
 	score: number
 	payload?: Payload | null
+	/** Explains why the result matched. Only set by the search service. */
+	match?: SearchMatchDetails
+	/** Workspace folder the result belongs to. Only set by searches across workspace folders. */
+	workspaceFolder?: { name: string; path: string }
+}
+
+export type SearchMatchSource = "semantic" | "keyword"
+
+export interface SearchMatchDetails {
+	sources: SearchMatchSource[]
+	semanticScore?: number
+	keywordScore?: number
+	matchedTerms?: string[]
 }
 
 export interface Payload {
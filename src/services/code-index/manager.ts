@@ -1,20 +1,41 @@
 import * as vscode from "vscode"
 import { ContextProxy } from "../../core/config/ContextProxy"
-import { VectorStoreSearchResult } from "./interfaces"
-import { IndexingState } from "./interfaces/manager"
+import {
+	IEmbedder,
+	IVectorStore,
+	ModuleImport,
+	SymbolDefinition,
+	SymbolReference,
+	VectorStoreSearchResult,
+} from "./interfaces"
+import { IndexingState, VectorStoreProvider } from "./interfaces/manager"
 import { CodeIndexConfigManager } from "./config-manager"
 import { CodeIndexStateManager } from "./state-manager"
 import { CodeIndexServiceFactory } from "./service-factory"
-import { CodeIndexSearchService } from "./search-service"
-import { CodeIndexOrchestrator } from "./orchestrator"
+import { CodeIndexSearchService, WorkspaceSearchTarget } from "./search-service"
+import { CodeIndexOrchestrator, IndexSnapshotSeed } from "./orchestrator"
 import { CacheManager } from "./cache-manager"
+import { SymbolGraph } from "./symbol-graph"
+import { getIndexSnapshotKey, recordIndexSnapshotUse } from "./shared/index-snapshot"
+import {
+	GIT_HEAD_CHANGE_DEBOUNCE_MS,
+	INDEX_SNAPSHOT_HISTORY_STATE_KEY,
+	INDEX_SNAPSHOTS_STATE_KEY,
+	LOCAL_EMBEDDING_MODELS_DIR_NAME,
+	MAX_INDEX_SNAPSHOTS_PER_WORKSPACE,
+	VECTOR_STORE_MIGRATION_BATCH_SIZE,
+} from "./constants"
+import { LocalEmbedder } from "./embedders/local"
+import { getDefaultModelId } from "../../shared/embeddingModels"
 import { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
+import { getGitHeadPath, getGitHeadRef } from "../../utils/git"
 import fs from "fs/promises"
 import ignore from "ignore"
 import path from "path"
+import debounce from "lodash.debounce"
 import { t } from "../../i18n"
 import { TelemetryService } from "@roo-code/telemetry"
-import { TelemetryEventName } from "@roo-code/types"
+import { CodebaseSearchMode, TelemetryEventName } from "@roo-code/types"
 
 export class CodeIndexManager {
 	// --- Singleton Implementation ---
@@ -27,6 +48,13 @@ export class CodeIndexManager {
 	private _orchestrator: CodeIndexOrchestrator | undefined
 	private _searchService: CodeIndexSearchService | undefined
 	private _cacheManager: CacheManager | undefined
+	private _symbolGraph: SymbolGraph | undefined
+	private _snapshotKey: string | undefined
+	private _seedSnapshotKey: string | undefined
+	private _evictedSnapshotKeys: string[] = []
+	private _gitHeadWatcher: vscode.Disposable | undefined
+	private _vectorStore: IVectorStore | undefined
+	private _embedder: IEmbedder | undefined
 
 	// Flag to prevent race conditions during error recovery
 	private _isRecoveringFromError = false
@@ -56,11 +84,10 @@ export class CodeIndexManager {
 		return CodeIndexManager.instances.get(workspacePath)!
 	}
 
-	public static disposeAll(): void {
-		for (const instance of CodeIndexManager.instances.values()) {
-			instance.dispose()
-		}
+	public static async disposeAll(): Promise<void> {
+		const instances = [...CodeIndexManager.instances.values()]
 		CodeIndexManager.instances.clear()
+		await Promise.all(instances.map((instance) => instance.dispose()))
 	}
 
 	private readonly workspacePath: string
@@ -138,11 +165,9 @@ export class CodeIndexManager {
 			return { requiresRestart }
 		}
 
-		// 4. CacheManager Initialization
-		if (!this._cacheManager) {
-			this._cacheManager = new CacheManager(this.context, this.workspacePath)
-			await this._cacheManager.initialize()
-		}
+		// 4. CacheManager Initialization for the index snapshot of the checked out branch
+		await this._initializeSnapshot()
+		await this._watchGitHead()
 
 		// 4. Determine if Core Services Need Recreation
 		const needsServiceRecreation = !this._serviceFactory || requiresRestart
@@ -233,10 +258,14 @@ export class CodeIndexManager {
 		} finally {
 			// Force re-initialization by clearing service instances
 			// This ensures a clean slate even if state update failed
+			await this._orchestrator?.dispose()
 			this._configManager = undefined
 			this._serviceFactory = undefined
 			this._orchestrator = undefined
+			this._searchService?.dispose()
 			this._searchService = undefined
+			this._vectorStore = undefined
+			this.disposeEmbedder()
 
 			// Reset the flag after recovery is complete
 			this._isRecoveringFromError = false
@@ -246,16 +275,30 @@ export class CodeIndexManager {
 	/**
 	 * Cleans up the manager instance.
 	 */
-	public dispose(): void {
+	public async dispose(): Promise<void> {
 		if (this._orchestrator) {
 			this.stopWatcher()
 		}
+		this._gitHeadWatcher?.dispose()
+		this._gitHeadWatcher = undefined
+		this._searchService?.dispose()
+		this.disposeEmbedder()
 		this._stateManager.dispose()
+		await this._orchestrator?.dispose()
+	}
+
+	/**
+	 * Cancels pending embedding work and releases the current embedder.
+	 */
+	private disposeEmbedder(): void {
+		const embedder = this._embedder
+		this._embedder = undefined
+		embedder?.dispose?.().catch((error) => console.error("[CodeIndexManager] Failed to dispose embedder:", error))
 	}
 
 	/**
-	 * Clears all index data by stopping the watcher, clearing the Qdrant collection,
-	 * and deleting the cache file.
+	 * Clears all index data of the current snapshot by stopping the watcher, clearing the Qdrant collection,
+	 * and deleting the cache and symbol graph files.
 	 */
 	public async clearIndexData(): Promise<void> {
 		if (!this.isFeatureEnabled) {
@@ -264,6 +307,101 @@ export class CodeIndexManager {
 		this.assertInitialized()
 		await this._orchestrator!.clearIndexData()
 		await this._cacheManager!.clearCacheFile()
+		await this._symbolGraph?.clear()
+	}
+
+	/**
+	 * Copies the current index into another vector store backend so that switching
+	 * backends does not require re-embedding the workspace. The caller is responsible
+	 * for persisting the new backend selection afterwards.
+	 * @param target The backend to copy the index into
+	 * @returns Number of points copied
+	 */
+	public async migrateVectorStore(target: VectorStoreProvider): Promise<number> {
+		if (!this.isFeatureEnabled) {
+			return 0
+		}
+		this.assertInitialized()
+
+		const source = this._configManager!.currentVectorStoreProvider
+		if (source === target) {
+			throw new Error(t("embeddings:vectorStore.migrationSameProvider", { provider: target }))
+		}
+		if (this.state !== "Indexed") {
+			throw new Error(t("embeddings:vectorStore.migrationRequiresIndexed"))
+		}
+
+		// Keep the source stable while copying; file changes are picked up by the next incremental scan
+		this._orchestrator!.stopWatcher()
+
+		try {
+			const targetStore = this._serviceFactory!.createVectorStore(target)
+			await targetStore.initialize()
+			await targetStore.clearCollection()
+			await targetStore.markIndexingIncomplete()
+
+			let copied = 0
+			for await (const batch of this._vectorStore!.scrollPoints(VECTOR_STORE_MIGRATION_BATCH_SIZE)) {
+				await targetStore.upsertPoints(batch)
+				copied += batch.length
+			}
+
+			await targetStore.markIndexingComplete()
+			return copied
+		} catch (error) {
+			console.error("[CodeIndexManager] Failed to migrate vector store:", error)
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: error instanceof Error ? error.message : String(error),
+				stack: error instanceof Error ? error.stack : undefined,
+				location: "migrateVectorStore",
+			})
+			// Resume watching the unchanged source index
+			this._orchestrator?.startIndexing()
+			throw error
+		}
+	}
+
+	/**
+	 * Deletes the index data held by a backend that is not currently in use,
+	 * e.g. the old Qdrant collection after migrating to the local store.
+	 * @param provider The inactive backend to clear
+	 */
+	public async clearVectorStoreData(provider: VectorStoreProvider): Promise<void> {
+		if (!this.isFeatureEnabled) {
+			return
+		}
+		this.assertInitialized()
+
+		if (provider === this._configManager!.currentVectorStoreProvider) {
+			throw new Error(t("embeddings:vectorStore.clearActiveProvider", { provider }))
+		}
+
+		await this._serviceFactory!.createVectorStore(provider).deleteCollection()
+	}
+
+	/**
+	 * Downloads the files of the local embedding model into the models directory, so that the
+	 * local embedder can index offline. Uses the configured model when the local embedder is
+	 * selected, and the default local model otherwise.
+	 * @returns The ID of the downloaded model
+	 */
+	public async downloadLocalEmbeddingModel(): Promise<string> {
+		const globalStoragePath = this.context.globalStorageUri?.fsPath
+		if (!globalStoragePath) {
+			throw new Error(t("embeddings:serviceFactory.localEmbedderStorageMissing"))
+		}
+
+		const modelId =
+			(this._configManager?.currentEmbedderProvider === "local" && this._configManager.currentModelId) ||
+			getDefaultModelId("local")
+		const embedder = new LocalEmbedder(path.join(globalStoragePath, LOCAL_EMBEDDING_MODELS_DIR_NAME), modelId)
+
+		try {
+			await embedder.downloadModel()
+		} finally {
+			await embedder.dispose()
+		}
+		return modelId
 	}
 
 	// --- Private Helpers ---
@@ -276,12 +414,236 @@ export class CodeIndexManager {
 		}
 	}
 
-	public async searchIndex(query: string, directoryPrefix?: string): Promise<VectorStoreSearchResult[]> {
+	public async searchIndex(
+		query: string,
+		directoryPrefix?: string,
+		mode?: CodebaseSearchMode,
+	): Promise<VectorStoreSearchResult[]> {
+		if (!this.isFeatureEnabled) {
+			return []
+		}
+		this.assertInitialized()
+		return this._searchService!.searchIndex(query, directoryPrefix, mode)
+	}
+
+	/**
+	 * Finds the segments most similar to a piece of code without changing the state of the index
+	 * when the search fails.
+	 * @param code The code to find similar segments for
+	 * @param maxResults Maximum number of results
+	 */
+	public async findSimilarCode(code: string, maxResults: number): Promise<VectorStoreSearchResult[]> {
+		if (!this.isFeatureEnabled || !this.isInitialized) {
+			return []
+		}
+		return this._searchService!.findSimilarCode(code, maxResults)
+	}
+
+	/**
+	 * Searches the indexes of all workspace folders of a multi-root workspace that have been initialized,
+	 * attributing each result to its workspace folder.
+	 * @param query The search query
+	 * @param directoryPrefix Optional directory to limit results to, optionally starting with a folder name
+	 * @param mode Ranking strategy
+	 */
+	public static async searchAllWorkspaces(
+		query: string,
+		directoryPrefix?: string,
+		mode?: CodebaseSearchMode,
+	): Promise<VectorStoreSearchResult[]> {
+		const targets: WorkspaceSearchTarget[] = []
+		let maxResults: number | undefined
+
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			const manager = CodeIndexManager.instances.get(folder.uri.fsPath)
+			if (manager?.isFeatureEnabled && manager.isInitialized) {
+				targets.push({
+					name: folder.name,
+					workspacePath: folder.uri.fsPath,
+					searchService: manager._searchService!,
+				})
+				maxResults ??= manager._configManager!.currentSearchMaxResults
+			}
+		}
+
+		if (targets.length === 0 || maxResults === undefined) {
+			return []
+		}
+		return CodeIndexSearchService.searchWorkspaces(targets, query, maxResults, directoryPrefix, mode)
+	}
+
+	/**
+	 * Finds where a symbol is defined using the symbol graph built during indexing.
+	 * @param name Symbol name
+	 * @param directoryPrefix Optional directory to limit results to
+	 */
+	public findSymbolDefinitions(name: string, directoryPrefix?: string): SymbolDefinition[] {
 		if (!this.isFeatureEnabled) {
 			return []
 		}
 		this.assertInitialized()
-		return this._searchService!.searchIndex(query, directoryPrefix)
+		return this._symbolGraph?.findDefinitions(name, directoryPrefix) ?? []
+	}
+
+	/**
+	 * Finds calls, type references and imports of a symbol using the symbol graph built during indexing.
+	 * @param name Symbol name
+	 * @param directoryPrefix Optional directory to limit results to
+	 */
+	public findSymbolReferences(name: string, directoryPrefix?: string): SymbolReference[] {
+		if (!this.isFeatureEnabled) {
+			return []
+		}
+		this.assertInitialized()
+		return this._symbolGraph?.findReferences(name, directoryPrefix) ?? []
+	}
+
+	/**
+	 * Finds the files that import a module.
+	 * @param filePath Path of the module file, absolute or relative to the workspace
+	 */
+	public findModuleImporters(filePath: string): ModuleImport[] {
+		if (!this.isFeatureEnabled) {
+			return []
+		}
+		this.assertInitialized()
+		return this._symbolGraph?.findImporters(filePath) ?? []
+	}
+
+	/**
+	 * Returns the key of the index snapshot for the checked out git branch, or undefined when HEAD is detached.
+	 */
+	private async _getGitHeadSnapshotKey(): Promise<string | undefined> {
+		const head = await getGitHeadRef(this.workspacePath)
+		if (head && "commit" in head) {
+			return undefined
+		}
+		return getIndexSnapshotKey(this.workspacePath, head?.branch)
+	}
+
+	/**
+	 * Loads the hash cache and symbol graph of the index snapshot for the checked out git branch,
+	 * and remembers the previously active snapshot of the workspace to seed a new snapshot from.
+	 * A detached HEAD, e.g. during a rebase or bisect, keeps using the previously active snapshot.
+	 */
+	private async _initializeSnapshot(): Promise<void> {
+		if (this._cacheManager) {
+			return
+		}
+
+		const activeSnapshots = this.context.globalState.get<Record<string, string>>(INDEX_SNAPSHOTS_STATE_KEY) ?? {}
+		// Workspaces indexed before snapshots were kept per branch are seeded from their unkeyed index
+		const previousSnapshotKey = activeSnapshots[this.workspacePath] ?? this.workspacePath
+		const snapshotKey = (await this._getGitHeadSnapshotKey()) ?? previousSnapshotKey
+		this._seedSnapshotKey = previousSnapshotKey !== snapshotKey ? previousSnapshotKey : undefined
+		this._snapshotKey = snapshotKey
+		await this.context.globalState.update(INDEX_SNAPSHOTS_STATE_KEY, {
+			...activeSnapshots,
+			[this.workspacePath]: snapshotKey,
+		})
+
+		const recentSnapshots =
+			this.context.globalState.get<Record<string, string[]>>(INDEX_SNAPSHOT_HISTORY_STATE_KEY) ?? {}
+		const { recentSnapshotKeys, evictedSnapshotKeys } = recordIndexSnapshotUse(
+			recentSnapshots[this.workspacePath] ?? [],
+			snapshotKey,
+			MAX_INDEX_SNAPSHOTS_PER_WORKSPACE,
+		)
+		this._evictedSnapshotKeys.push(...evictedSnapshotKeys)
+		await this.context.globalState.update(INDEX_SNAPSHOT_HISTORY_STATE_KEY, {
+			...recentSnapshots,
+			[this.workspacePath]: recentSnapshotKeys,
+		})
+
+		this._cacheManager = new CacheManager(this.context, this.workspacePath, snapshotKey)
+		await this._cacheManager.initialize()
+		this._symbolGraph = new SymbolGraph(this.context, this.workspacePath, snapshotKey)
+		await this._symbolGraph.initialize()
+	}
+
+	/**
+	 * Deletes the index data of the snapshots that are no longer among the most recently used ones.
+	 */
+	private async _deleteEvictedSnapshots(): Promise<void> {
+		for (const snapshotKey of this._evictedSnapshotKeys.splice(0)) {
+			try {
+				await this._serviceFactory!.createVectorStore(undefined, snapshotKey).deleteCollection()
+				await new CacheManager(this.context, this.workspacePath, snapshotKey).clearCacheFile()
+				await new SymbolGraph(this.context, this.workspacePath, snapshotKey).clear()
+			} catch (error) {
+				console.error(`[CodeIndexManager] Failed to delete index snapshot ${snapshotKey}:`, error)
+			}
+		}
+	}
+
+	/**
+	 * Opens the index of the previously active snapshot, which the orchestrator copies
+	 * when the current snapshot has no collection yet.
+	 */
+	private async _createSnapshotSeed(): Promise<IndexSnapshotSeed | undefined> {
+		if (!this._seedSnapshotKey || !this._serviceFactory) {
+			return undefined
+		}
+
+		const cacheManager = new CacheManager(this.context, this.workspacePath, this._seedSnapshotKey)
+		await cacheManager.initialize()
+		return {
+			cacheManager,
+			vectorStore: this._serviceFactory.createVectorStore(undefined, this._seedSnapshotKey),
+		}
+	}
+
+	/**
+	 * Watches the git HEAD of the workspace to switch index snapshots when another branch is checked out.
+	 */
+	private async _watchGitHead(): Promise<void> {
+		if (this._gitHeadWatcher) {
+			return
+		}
+
+		const headPath = await getGitHeadPath(this.workspacePath)
+		if (!headPath) {
+			return
+		}
+
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(vscode.Uri.file(path.dirname(headPath)), path.basename(headPath)),
+		)
+		const onHeadChange = debounce(() => void this._handleGitHeadChange(), GIT_HEAD_CHANGE_DEBOUNCE_MS)
+		watcher.onDidChange(onHeadChange)
+		watcher.onDidCreate(onHeadChange)
+		this._gitHeadWatcher = vscode.Disposable.from(watcher, { dispose: () => onHeadChange.cancel() })
+	}
+
+	/**
+	 * Switches to the index snapshot of the newly checked out branch. The branch is re-indexed incrementally,
+	 * against its own cache if it was indexed before and otherwise against a copy of the previous snapshot.
+	 */
+	private async _handleGitHeadChange(): Promise<void> {
+		if (!this.isFeatureEnabled || !this.isInitialized) {
+			return
+		}
+
+		const snapshotKey = await this._getGitHeadSnapshotKey()
+		if (!snapshotKey || snapshotKey === this._snapshotKey) {
+			return
+		}
+
+		try {
+			this.stopWatcher()
+			this._cacheManager = undefined
+			this._symbolGraph = undefined
+			await this._initializeSnapshot()
+			await this._recreateServices()
+			this._orchestrator?.startIndexing()
+		} catch (error) {
+			console.error("[CodeIndexManager] Failed to switch index snapshot:", error)
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: error instanceof Error ? error.message : String(error),
+				stack: error instanceof Error ? error.stack : undefined,
+				location: "_handleGitHeadChange",
+			})
+		}
 	}
 
 	/**
@@ -293,16 +655,24 @@ export class CodeIndexManager {
 		if (this._orchestrator) {
 			this.stopWatcher()
 		}
+		// Persist the pending changes before a new vector store loads the collection
+		await this._orchestrator?.dispose()
 		// Clear existing services to ensure clean state
 		this._orchestrator = undefined
+		this._searchService?.dispose()
 		this._searchService = undefined
+		this._vectorStore = undefined
+		this.disposeEmbedder()
 
 		// (Re)Initialize service factory
 		this._serviceFactory = new CodeIndexServiceFactory(
 			this._configManager!,
 			this.workspacePath,
 			this._cacheManager!,
+			this.context.globalStorageUri?.fsPath,
+			this._snapshotKey,
 		)
+		void this._deleteEvictedSnapshots()
 
 		const ignoreInstance = ignore()
 		const workspacePath = this.workspacePath
@@ -338,7 +708,9 @@ export class CodeIndexManager {
 			this._cacheManager!,
 			ignoreInstance,
 			rooIgnoreController,
+			this._symbolGraph,
 		)
+		this._embedder = embedder
 
 		// Validate embedder configuration before proceeding
 		const validationResult = await this._serviceFactory.validateEmbedder(embedder)
@@ -348,6 +720,8 @@ export class CodeIndexManager {
 			throw new Error(errorMessage)
 		}
 
+		this._vectorStore = vectorStore
+
 		// (Re)Initialize orchestrator
 		this._orchestrator = new CodeIndexOrchestrator(
 			this._configManager!,
@@ -357,6 +731,7 @@ export class CodeIndexManager {
 			vectorStore,
 			scanner,
 			fileWatcher,
+			await this._createSnapshotSeed(),
 		)
 
 		// (Re)Initialize search service
@@ -398,10 +773,7 @@ export class CodeIndexManager {
 			if (requiresRestart && isFeatureEnabled && isFeatureConfigured) {
 				try {
 					// Ensure cacheManager is initialized before recreating services
-					if (!this._cacheManager) {
-						this._cacheManager = new CacheManager(this.context, this.workspacePath)
-						await this._cacheManager.initialize()
-					}
+					await this._initializeSnapshot()
 
 					// Recreate services with new configuration
 					await this._recreateServices()
@@ -5,10 +5,21 @@ import { CodeIndexStateManager, IndexingState } from "./state-manager"
 import { IFileWatcher, IVectorStore, BatchProcessingSummary } from "./interfaces"
 import { DirectoryScanner } from "./processors"
 import { CacheManager } from "./cache-manager"
+import { ICacheManager } from "./interfaces/cache"
+import { VECTOR_STORE_MIGRATION_BATCH_SIZE } from "./constants"
 import { TelemetryService } from "@roo-code/telemetry"
 import { TelemetryEventName } from "@roo-code/types"
 import { t } from "../../i18n"
 
+/**
+ * Index of another snapshot of the same workspace, e.g. of the previously checked out branch,
+ * used to seed a newly created snapshot instead of embedding the whole workspace again.
+ */
+export interface IndexSnapshotSeed {
+	vectorStore: IVectorStore
+	cacheManager: ICacheManager
+}
+
 /**
  * Manages the code indexing workflow, coordinating between different services and managers.
  */
@@ -24,6 +35,7 @@ export class CodeIndexOrchestrator {
 		private readonly vectorStore: IVectorStore,
 		private readonly scanner: DirectoryScanner,
 		private readonly fileWatcher: IFileWatcher,
+		private readonly snapshotSeed?: IndexSnapshotSeed,
 	) {}
 
 	/**
@@ -91,6 +103,40 @@ export class CodeIndexOrchestrator {
 	 * Updates the status of a file in the state manager.
 	 */
 
+	/**
+	 * Copies the points and file hashes of the seed snapshot into the newly created collection.
+	 * @returns Whether the seed snapshot had a complete index to copy
+	 */
+	private async _seedFromSnapshot(seed: IndexSnapshotSeed): Promise<boolean> {
+		try {
+			if (!(await seed.vectorStore.collectionExists()) || !(await seed.vectorStore.hasIndexedData())) {
+				return false
+			}
+
+			this.stateManager.setSystemState("Indexing", "Reusing the index of the previous branch...")
+
+			for await (const batch of seed.vectorStore.scrollPoints(VECTOR_STORE_MIGRATION_BATCH_SIZE)) {
+				await this.vectorStore.upsertPoints(batch)
+			}
+			for (const [filePath, hash] of Object.entries(seed.cacheManager.getAllHashes())) {
+				this.cacheManager.updateHash(filePath, hash)
+			}
+
+			await this.vectorStore.markIndexingComplete()
+			return true
+		} catch (error) {
+			console.error("[CodeIndexOrchestrator] Failed to seed index snapshot, indexing from scratch:", error)
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: error instanceof Error ? error.message : String(error),
+				stack: error instanceof Error ? error.stack : undefined,
+				location: "_seedFromSnapshot",
+			})
+			await this.vectorStore.clearCollection()
+			await this.cacheManager.clearCacheFile()
+			return false
+		}
+	}
+
 	/**
 	 * Initiates the indexing process (initial scan and starts watcher).
 	 */
@@ -128,13 +174,19 @@ export class CodeIndexOrchestrator {
 		let indexingStarted = false
 
 		try {
-			const collectionCreated = await this.vectorStore.initialize()
+			let collectionCreated = await this.vectorStore.initialize()
 
 			// Successfully connected to Qdrant
 			indexingStarted = true
 
 			if (collectionCreated) {
 				await this.cacheManager.clearCacheFile()
+
+				// A new snapshot (e.g. a branch indexed for the first time) starts from a copy of the
+				// seed snapshot; the incremental scan below then only re-embeds files whose hash differs
+				if (this.snapshotSeed && (await this._seedFromSnapshot(this.snapshotSeed))) {
+					collectionCreated = false
+				}
 			}
 
 			// Check if the collection already has indexed data
@@ -328,6 +380,13 @@ export class CodeIndexOrchestrator {
 		}
 	}
 
+	/**
+	 * Writes the changes of the vector store that are not persisted yet, before the orchestrator is dropped.
+	 */
+	public async dispose(): Promise<void> {
+		await this.vectorStore.dispose?.()
+	}
+
 	/**
 	 * Stops the file watcher and cleans up resources.
 	 */
@@ -2,6 +2,7 @@
 
 import { DirectoryScanner } from "../scanner"
 import { stat } from "fs/promises"
+import { createHash } from "crypto"
 
 // Mock TelemetryService
 vi.mock("../../../../../packages/telemetry/src/TelemetryService", () => ({
@@ -174,6 +175,7 @@ describe("DirectoryScanner", () => {
 		}
 		mockCodeParser = {
 			parseFile: vi.fn().mockResolvedValue([]),
+			extractSymbols: vi.fn().mockResolvedValue({ definitions: [], references: [], imports: [] }),
 		}
 		mockCacheManager = {
 			getHash: vi.fn().mockReturnValue(undefined),
@@ -477,5 +479,51 @@ describe("DirectoryScanner", () => {
 			expect(points[1].payload.segmentHash).toBe("unique-segment-hash-2")
 			expect(points[2].payload.segmentHash).toBe("unique-segment-hash-3")
 		})
+
+		it("should keep the symbol graph in sync with scanned files", async () => {
+			const mockSymbolGraph = {
+				hasFile: vi.fn().mockReturnValue(false),
+				setFile: vi.fn(),
+				retainFiles: vi.fn(),
+			}
+			const scannerWithGraph = new DirectoryScanner(
+				mockEmbedder,
+				mockVectorStore,
+				mockCodeParser,
+				mockCacheManager,
+				mockIgnoreInstance,
+				undefined,
+				mockSymbolGraph as any,
+			)
+			const symbols = {
+				definitions: [{ name: "test", kind: "function", filePath: "test/file1.js", startLine: 1, endLine: 5 }],
+				references: [],
+				imports: [],
+			}
+			mockCodeParser.extractSymbols.mockResolvedValue(symbols)
+
+			// file1.js is unchanged in the index cache but missing from the symbol graph
+			const contentHash = createHash("sha256").update("test content").digest("hex")
+			mockCacheManager.getHash.mockImplementation((filePath: string) =>
+				filePath.endsWith("file1.js") ? contentHash : undefined,
+			)
+
+			await scannerWithGraph.scanDirectory("/test")
+
+			expect(mockCodeParser.parseFile).toHaveBeenCalledTimes(1)
+			expect(mockCodeParser.extractSymbols).toHaveBeenCalledTimes(2)
+			expect(mockSymbolGraph.setFile).toHaveBeenCalledWith(
+				expect.stringContaining("file1.js"),
+				contentHash,
+				symbols,
+			)
+			expect(mockSymbolGraph.setFile).toHaveBeenCalledWith(
+				expect.stringContaining("file2.js"),
+				contentHash,
+				symbols,
+			)
+			expect(mockSymbolGraph.retainFiles).toHaveBeenCalledTimes(1)
+			expect(mockSymbolGraph.retainFiles.mock.calls[0][0].size).toBe(2)
+		})
 	})
 })
@@ -0,0 +1,105 @@
+// npx vitest services/code-index/processors/__tests__/symbol-extractor.spec.ts
+
+import * as path from "path"
+import { Parser, Language, Query } from "web-tree-sitter"
+
+import { extractFileSymbols } from "../symbol-extractor"
+import { typescriptQuery, pythonQuery } from "../../../tree-sitter/queries"
+
+const wasmDir = path.join(path.dirname(require.resolve("tree-sitter-wasms/package.json")), "out")
+
+async function extract(languageName: string, queryString: string, filePath: string, content: string) {
+	const language = await Language.load(path.join(wasmDir, `tree-sitter-${languageName}.wasm`))
+	const parser = new Parser()
+	parser.setLanguage(language)
+	const tree = parser.parse(content)!
+	return extractFileSymbols(filePath, tree.rootNode, new Query(language, queryString).matches(tree.rootNode))
+}
+
+describe("extractFileSymbols", () => {
+	beforeAll(async () => {
+		await Parser.init()
+	})
+
+	it("should extract definitions, call edges, type references and imports from TypeScript", async () => {
+		const content = `import { readFile } from "fs/promises"
+import { CacheManager } from "./cache-manager"
+export { codeParser } from "./processors"
+
+export class Scanner {
+	async scan(cache: CacheManager) {
+		const text = await readFile("a.ts")
+		return this.parseText(text)
+	}
+
+	parseText(text: string) {
+		return text.split("\\n")
+	}
+}
+
+export function createScanner(): Scanner {
+	const loader = require("./loader")
+	return new Scanner()
+}
+`
+		const symbols = await extract("typescript", typescriptQuery, "src/scanner.ts", content)
+
+		expect(
+			symbols.definitions.map(({ name, kind, startLine, endLine }) => ({ name, kind, startLine, endLine })),
+		).toEqual(
+			expect.arrayContaining([
+				{ name: "Scanner", kind: "class", startLine: 5, endLine: 14 },
+				{ name: "scan", kind: "method", startLine: 6, endLine: 9 },
+				{ name: "parseText", kind: "method", startLine: 11, endLine: 13 },
+				{ name: "createScanner", kind: "function", startLine: 16, endLine: 19 },
+			]),
+		)
+
+		expect(symbols.references).toEqual(
+			expect.arrayContaining([
+				{ name: "readFile", kind: "call", filePath: "src/scanner.ts", line: 7, container: "scan" },
+				{ name: "parseText", kind: "call", filePath: "src/scanner.ts", line: 8, container: "scan" },
+				{ name: "Scanner", kind: "call", filePath: "src/scanner.ts", line: 18, container: "createScanner" },
+				{ name: "CacheManager", kind: "type", filePath: "src/scanner.ts", line: 6, container: "scan" },
+				{ name: "CacheManager", kind: "import", filePath: "src/scanner.ts", line: 2, container: undefined },
+			]),
+		)
+		// Declarations are not references to themselves
+		expect(symbols.references).not.toContainEqual(expect.objectContaining({ name: "parseText", line: 11 }))
+
+		expect(symbols.imports.map(({ source, line }) => ({ source, line }))).toEqual([
+			{ source: "./loader", line: 17 },
+			{ source: "fs/promises", line: 1 },
+			{ source: "./cache-manager", line: 2 },
+			{ source: "./processors", line: 3 },
+		])
+	})
+
+	it("should extract imports and calls from Python", async () => {
+		const content = `import os
+from .models import User
+
+class Repository:
+    def load(self, user_id):
+        return self.fetch(user_id)
+
+def main():
+    repo = Repository()
+    os.path.join("a", "b")
+`
+		const symbols = await extract("python", pythonQuery, "app/repository.py", content)
+
+		expect(symbols.definitions.map((definition) => definition.name)).toEqual(
+			expect.arrayContaining(["Repository", "load", "main"]),
+		)
+		expect(symbols.imports.map((moduleImport) => moduleImport.source)).toEqual(["os", ".models"])
+		expect(symbols.references).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({ name: "fetch", kind: "call", container: "load" }),
+				expect.objectContaining({ name: "Repository", kind: "call", container: "main" }),
+				expect.objectContaining({ name: "join", kind: "call", container: "main" }),
+				expect.objectContaining({ name: "User", kind: "import", line: 2 }),
+			]),
+		)
+	})
+})
@@ -18,6 +18,7 @@ import {
 	IVectorStore,
 	PointStruct,
 	BatchProcessingSummary,
+	ISymbolGraph,
 } from "../interfaces"
 import { codeParser } from "./parser"
 import { CacheManager } from "../cache-manager"
@@ -71,6 +72,7 @@ export class FileWatcher implements IFileWatcher {
 	 * @param embedder Optional embedder
 	 * @param vectorStore Optional vector store
 	 * @param cacheManager Cache manager
+	 * @param symbolGraph Optional symbol graph kept in sync with changed files
 	 */
 	constructor(
 		private workspacePath: string,
@@ -81,6 +83,7 @@ export class FileWatcher implements IFileWatcher {
 		ignoreInstance?: Ignore,
 		ignoreController?: RooIgnoreController,
 		batchSegmentThreshold?: number,
+		private readonly symbolGraph?: ISymbolGraph,
 	) {
 		this.ignoreController = ignoreController || new RooIgnoreController(workspacePath)
 		if (ignoreInstance) {
@@ -213,6 +216,7 @@ export class FileWatcher implements IFileWatcher {
 
 				for (const path of pathsToExplicitlyDelete) {
 					this.cacheManager.deleteHash(path)
+					this.symbolGraph?.deleteFile(path)
 					batchResults.push({ path, status: "success" })
 					processedCountInBatch++
 					this._onBatchProgressUpdate.fire({
@@ -558,6 +562,9 @@ export class FileWatcher implements IFileWatcher {
 
 			// Parse file
 			const blocks = await codeParser.parseFile(filePath, { content, fileHash: newHash })
+			if (this.symbolGraph) {
+				this.symbolGraph.setFile(filePath, newHash, await codeParser.extractSymbols(filePath, content))
+			}
 
 			// Prepare points for batch processing
 			let pointsToUpsert: PointStruct[] = []
@@ -9,7 +9,7 @@ import { generateNormalizedAbsolutePath, generateRelativeFilePath } from "../sha
 import { getWorkspacePathForContext } from "../../../utils/path"
 import { scannerExtensions } from "../shared/supported-extensions"
 import * as vscode from "vscode"
-import { CodeBlock, ICodeParser, IEmbedder, IVectorStore, IDirectoryScanner } from "../interfaces"
+import { CodeBlock, ICodeParser, IEmbedder, IVectorStore, IDirectoryScanner, ISymbolGraph } from "../interfaces"
 import { createHash } from "crypto"
 import { v5 as uuidv5 } from "uuid"
 import pLimit from "p-limit"
@@ -43,6 +43,7 @@ export class DirectoryScanner implements IDirectoryScanner {
 		private readonly cacheManager: CacheManager,
 		private readonly ignoreInstance: Ignore,
 		batchSegmentThreshold?: number,
+		private readonly symbolGraph?: ISymbolGraph,
 	) {
 		// Get the configurable batch size from VSCode settings, fallback to default
 		// If not provided in constructor, try to get from VSCode settings
@@ -150,13 +151,15 @@ export class DirectoryScanner implements IDirectoryScanner {
 					const cachedFileHash = this.cacheManager.getHash(filePath)
 					const isNewFile = !cachedFileHash
 					if (cachedFileHash === currentFileHash) {
-						// File is unchanged
+						// File is unchanged, but the symbol graph may predate it
+						await this.updateSymbols(filePath, content, currentFileHash)
 						skippedCount++
 						return
 					}
 
 					// File is new or changed - parse it using the injected parser function
 					const blocks = await this.codeParser.parseFile(filePath, { content, fileHash: currentFileHash })
+					await this.updateSymbols(filePath, content, currentFileHash)
 					const fileBlockCount = blocks.length
 					onFileParsed?.(fileBlockCount)
 					processedCount++
@@ -340,6 +343,9 @@ export class DirectoryScanner implements IDirectoryScanner {
 			}
 		}
 
+		// Drop symbols of files that were deleted or are no longer indexed
+		this.symbolGraph?.retainFiles(processedFiles)
+
 		return {
 			stats: {
 				processed: processedCount,
@@ -349,6 +355,28 @@ export class DirectoryScanner implements IDirectoryScanner {
 		}
 	}
 
+	/**
+	 * Stores the symbols of a file in the symbol graph unless this version of the file is already there.
+	 * Failures are reported but do not fail indexing of the file.
+	 */
+	private async updateSymbols(filePath: string, content: string, fileHash: string): Promise<void> {
+		if (!this.symbolGraph || this.symbolGraph.hasFile(filePath, fileHash)) {
+			return
+		}
+
+		try {
+			const symbols = await this.codeParser.extractSymbols(filePath, content)
+			this.symbolGraph.setFile(filePath, fileHash, symbols)
+		} catch (error) {
+			console.error(`[DirectoryScanner] Failed to extract symbols from ${filePath}:`, error)
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: sanitizeErrorMessage(error instanceof Error ? error.message : String(error)),
+				stack: error instanceof Error ? sanitizeErrorMessage(error.stack || "") : undefined,
+				location: "scanDirectory:extractSymbols",
+			})
+		}
+	}
+
 	private async processBatch(
 		batchBlocks: CodeBlock[],
 		batchTexts: string[],
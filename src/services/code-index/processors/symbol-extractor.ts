@@ -0,0 +1,247 @@
+import { Node, QueryMatch } from "web-tree-sitter"
+import { FileSymbols, ModuleImport, SymbolDefinition, SymbolReference, SymbolReferenceKind } from "../interfaces"
+
+/** Call-like node types across the supported tree-sitter grammars */
+const CALL_NODE_TYPES = [
+	"call_expression",
+	"call",
+	"method_invocation",
+	"invocation_expression",
+	"function_call_expression",
+	"member_call_expression",
+	"scoped_call_expression",
+	"function_call",
+	"new_expression",
+	"object_creation_expression",
+	"macro_invocation",
+]
+
+/** Import-like node types across the supported tree-sitter grammars */
+const IMPORT_NODE_TYPES = [
+	"import_statement",
+	"import_from_statement",
+	"export_statement",
+	"import_declaration",
+	"import_spec",
+	"import_header",
+	"use_declaration",
+	"using_directive",
+	"namespace_use_declaration",
+	"preproc_include",
+]
+
+/** Calls that import a module, e.g. `require("./x")` or `import("./x")` */
+const IMPORT_CALL_NAMES = new Set(["require", "require_relative", "import"])
+
+/** Definition kinds that describe imports or non-declarations rather than symbols */
+const IGNORED_DEFINITION_KINDS = new Set(["import", "use", "use_declaration", "using", "comment", "test"])
+
+const IDENTIFIER_PATTERN = /^[\p{L}_$][\p{L}\p{N}_$]*[!?]?$/u
+
+/**
+ * Extracts the definitions, references and imports of a parsed file.
+ *
+ * Definitions come from the `name`/`definition.<kind>` captures of the existing language
+ * queries. Calls, type references and imports are found by node type, which is shared
+ * by most grammars, so no additional queries are needed per language.
+ * @param filePath Path stored with each symbol
+ * @param rootNode Root node of the parsed file
+ * @param matches Matches of the language's definition query
+ */
+export function extractFileSymbols(filePath: string, rootNode: Node, matches: QueryMatch[]): FileSymbols {
+	const { definitions, nameIndexes } = extractDefinitions(filePath, matches)
+
+	const references: SymbolReference[] = []
+	const imports: ModuleImport[] = []
+	const seenReferences = new Set<string>()
+	const seenImports = new Set<string>()
+
+	const addReference = (node: Node, kind: SymbolReferenceKind) => {
+		const name = node.text
+		const line = node.startPosition.row + 1
+		const key = `${kind}:${name}:${line}`
+		if (nameIndexes.has(node.startIndex) || seenReferences.has(key) || !IDENTIFIER_PATTERN.test(name)) {
+			return
+		}
+		seenReferences.add(key)
+		references.push({ name, kind, filePath, line, container: findContainer(definitions, line, name) })
+	}
+
+	const addImport = (source: string, line: number) => {
+		const key = `${source}:${line}`
+		if (!source || seenImports.has(key)) {
+			return
+		}
+		seenImports.add(key)
+		imports.push({ source, filePath, line })
+	}
+
+	for (const node of rootNode.descendantsOfType(CALL_NODE_TYPES)) {
+		if (!node) continue
+		const callee = getCallee(node)
+		const nameNode = callee && getRightmostIdentifier(callee)
+		if (!nameNode) continue
+
+		if (IMPORT_CALL_NAMES.has(nameNode.text)) {
+			const argument = node.childForFieldName("arguments")?.namedChildren.find((child) => child !== null)
+			if (argument && /string/.test(argument.type)) {
+				addImport(stripQuotes(argument.text), node.startPosition.row + 1)
+			}
+			continue
+		}
+
+		addReference(nameNode, "call")
+	}
+
+	for (const node of rootNode.descendantsOfType("type_identifier")) {
+		if (node && !isInsideImport(node)) {
+			addReference(node, "type")
+		}
+	}
+
+	for (const node of rootNode.descendantsOfType(IMPORT_NODE_TYPES)) {
+		if (!node) continue
+		const sourceNode = getImportSourceNode(node)
+		if (!sourceNode) continue
+
+		addImport(stripQuotes(sourceNode.text), node.startPosition.row + 1)
+
+		// Imported bindings count as references of the imported symbols
+		const identifiers = node.descendantsOfType(["identifier", "type_identifier"]).filter(Boolean) as Node[]
+		const bindings = identifiers.filter((identifier) => !isWithin(identifier, sourceNode))
+		if (bindings.length > 0) {
+			bindings.forEach((binding) => addReference(binding, "import"))
+		} else if (identifiers.length > 0) {
+			// e.g. `import java.util.List` or `use crate::parser::Parser` import their last segment
+			addReference(identifiers[identifiers.length - 1], "import")
+		}
+	}
+
+	return { definitions, references, imports }
+}
+
+/**
+ * Collects definitions along with the positions of their name nodes, so that a
+ * declaration is not also reported as a reference to itself.
+ */
+function extractDefinitions(
+	filePath: string,
+	matches: QueryMatch[],
+): { definitions: SymbolDefinition[]; nameIndexes: Set<number> } {
+	const definitions: SymbolDefinition[] = []
+	const nameIndexes = new Set<number>()
+
+	for (const match of matches) {
+		let nameNode: Node | undefined
+		let definitionNode: Node | undefined
+		let kind: string | undefined
+
+		for (const capture of match.captures) {
+			if (capture.name === "name" || capture.name.startsWith("name.definition")) {
+				nameNode = capture.node
+			} else if (capture.name.startsWith("definition.")) {
+				definitionNode = capture.node
+				kind = capture.name.slice("definition.".length)
+			}
+		}
+
+		if (!nameNode || !definitionNode || !kind || IGNORED_DEFINITION_KINDS.has(kind)) continue
+		if (nameIndexes.has(nameNode.startIndex) || !IDENTIFIER_PATTERN.test(nameNode.text)) continue
+
+		nameIndexes.add(nameNode.startIndex)
+		definitions.push({
+			name: nameNode.text,
+			kind,
+			filePath,
+			startLine: definitionNode.startPosition.row + 1,
+			endLine: definitionNode.endPosition.row + 1,
+		})
+	}
+
+	return { definitions, nameIndexes }
+}
+
+/**
+ * Returns the name of the innermost definition spanning the line, ignoring the referenced symbol itself.
+ */
+function findContainer(definitions: SymbolDefinition[], line: number, name: string): string | undefined {
+	let container: SymbolDefinition | undefined
+	for (const definition of definitions) {
+		if (definition.startLine > line || definition.endLine < line || definition.name === name) continue
+		if (!container || definition.endLine - definition.startLine < container.endLine - container.startLine) {
+			container = definition
+		}
+	}
+	return container?.name
+}
+
+function getCallee(node: Node): Node | null {
+	return (
+		node.childForFieldName("function") ??
+		node.childForFieldName("method") ??
+		node.childForFieldName("constructor") ??
+		node.childForFieldName("macro") ??
+		node.childForFieldName("name") ??
+		node.childForFieldName("type") ??
+		node.namedChild(0)
+	)
+}
+
+/**
+ * Resolves the called name of a callee, e.g. `save` for `this.store.save`.
+ */
+function getRightmostIdentifier(node: Node, depth = 0): Node | null {
+	if (/identifier$|^name$|^constant$|^import$/.test(node.type)) {
+		return node
+	}
+	if (depth > 4) {
+		return null
+	}
+	const property =
+		node.childForFieldName("property") ??
+		node.childForFieldName("field") ??
+		node.childForFieldName("attribute") ??
+		node.childForFieldName("name")
+	if (property) {
+		return getRightmostIdentifier(property, depth + 1)
+	}
+	for (let i = node.namedChildCount - 1; i >= 0; i--) {
+		const child = node.namedChild(i)
+		if (!child || /arguments|parameters/.test(child.type)) continue
+		return getRightmostIdentifier(child, depth + 1)
+	}
+	return null
+}
+
+function getImportSourceNode(node: Node): Node | null {
+	if (node.type === "export_statement") {
+		// Only re-exports such as `export { x } from "./y"` import another module
+		return node.childForFieldName("source")
+	}
+	return (
+		node.childForFieldName("source") ??
+		node.childForFieldName("module_name") ??
+		node.childForFieldName("path") ??
+		node.childForFieldName("argument") ??
+		(node.type === "import_declaration" && node.descendantsOfType("import_spec").length > 0
+			? null
+			: (node.namedChildren.find((child) => child !== null && child.type !== "comment") ?? null))
+	)
+}
+
+function isInsideImport(node: Node): boolean {
+	for (let parent = node.parent; parent; parent = parent.parent) {
+		if (IMPORT_NODE_TYPES.includes(parent.type) && getImportSourceNode(parent)) {
+			return true
+		}
+	}
+	return false
+}
+
+function isWithin(node: Node, ancestor: Node): boolean {
+	return node.startIndex >= ancestor.startIndex && node.endIndex <= ancestor.endIndex
+}
+
+function stripQuotes(text: string): string {
+	return text.replace(/^["'`<]|["'`>]$/g, "")
+}
@@ -1,32 +1,66 @@
 import * as path from "path"
+import * as vscode from "vscode"
+import { LRUCache } from "lru-cache"
 import { VectorStoreSearchResult } from "./interfaces"
 import { IEmbedder } from "./interfaces/embedder"
-import { IVectorStore } from "./interfaces/vector-store"
+import { IVectorStore, VectorStoreChange } from "./interfaces/vector-store"
 import { CodeIndexConfigManager } from "./config-manager"
 import { CodeIndexStateManager } from "./state-manager"
+import { LexicalIndex } from "./shared/lexical-index"
+import {
+	HYBRID_SEARCH_CANDIDATE_MULTIPLIER,
+	HYBRID_SEARCH_RRF_K,
+	LEXICAL_INDEX_SCROLL_BATCH_SIZE,
+	SIMILAR_CODE_QUERY_CACHE_SIZE,
+} from "./constants"
 import { TelemetryService } from "@roo-code/telemetry"
-import { TelemetryEventName } from "@roo-code/types"
+import { CodebaseSearchMode, TelemetryEventName } from "@roo-code/types"
+
+/**
+ * Index of one workspace folder taking part in a search across the folders of a multi-root workspace.
+ */
+export interface WorkspaceSearchTarget {
+	name: string
+	workspacePath: string
+	searchService: CodeIndexSearchService
+}
 
 /**
  * Service responsible for searching the code index.
  */
 export class CodeIndexSearchService {
+	private lexicalIndex: LexicalIndex | undefined
+	private lexicalIndexBuild: Promise<LexicalIndex> | undefined
+	// Changes made to the vector store while the keyword index is being built
+	private readonly pendingChanges: VectorStoreChange[] = []
+	private readonly similarCodeEmbeddings = new LRUCache<string, Promise<number[]>>({
+		max: SIMILAR_CODE_QUERY_CACHE_SIZE,
+	})
+	private readonly disposables: vscode.Disposable[] = []
+
 	constructor(
 		private readonly configManager: CodeIndexConfigManager,
 		private readonly stateManager: CodeIndexStateManager,
 		private readonly embedder: IEmbedder,
 		private readonly vectorStore: IVectorStore,
-	) {}
+	) {
+		// The keyword index is built on the first keyword search and then follows the changes of the vector store
+		this.disposables.push({ dispose: this.vectorStore.onDidChangePoints((change) => this.applyChange(change)) })
+	}
 
 	/**
 	 * Searches the code index for relevant content.
 	 * @param query The search query
-	 * @param limit Maximum number of results to return
 	 * @param directoryPrefix Optional directory path to filter results by
+	 * @param mode Ranking strategy: pure vector similarity, BM25 keyword matching, or both fused
 	 * @returns Array of search results
 	 * @throws Error if the service is not properly configured or ready
 	 */
-	public async searchIndex(query: string, directoryPrefix?: string): Promise<VectorStoreSearchResult[]> {
+	public async searchIndex(
+		query: string,
+		directoryPrefix?: string,
+		mode: CodebaseSearchMode = "semantic",
+	): Promise<VectorStoreSearchResult[]> {
 		if (!this.configManager.isFeatureEnabled || !this.configManager.isFeatureConfigured) {
 			throw new Error("Code index feature is disabled or not configured.")
 		}
@@ -41,22 +75,20 @@ export class CodeIndexSearchService {
 		}
 
 		try {
-			// Generate embedding for query
-			const embeddingResponse = await this.embedder.createEmbeddings([query])
-			const vector = embeddingResponse?.embeddings[0]
-			if (!vector) {
-				throw new Error("Failed to generate embedding for query.")
-			}
-
 			// Handle directory prefix
 			let normalizedPrefix: string | undefined = undefined
 			if (directoryPrefix) {
 				normalizedPrefix = path.normalize(directoryPrefix)
 			}
 
-			// Perform search
-			const results = await this.vectorStore.search(vector, normalizedPrefix, minScore, maxResults)
-			return results
+			switch (mode) {
+				case "keyword":
+					return await this.keywordSearch(query, normalizedPrefix, maxResults)
+				case "hybrid":
+					return await this.hybridSearch(query, normalizedPrefix, minScore, maxResults)
+				default:
+					return await this.semanticSearch(query, normalizedPrefix, minScore, maxResults)
+			}
 		} catch (error) {
 			console.error("[CodeIndexSearchService] Error during search:", error)
 			this.stateManager.setSystemState("Error", `Search failed: ${(error as Error).message}`)
@@ -71,4 +103,237 @@ export class CodeIndexSearchService {
 			throw error // Re-throw the error after setting state
 		}
 	}
+
+	/**
+	 * Finds the segments most similar to a piece of code. Meant for callers that search far more often
+	 * than a user does, such as inline completion: the embeddings of recent queries are reused, and a
+	 * failed search is left to the caller instead of putting the index into the error state.
+	 * @param code The code to find similar segments for
+	 * @param maxResults Maximum number of results
+	 * @returns Array of search results, empty while the index cannot be searched
+	 */
+	public async findSimilarCode(code: string, maxResults: number): Promise<VectorStoreSearchResult[]> {
+		const currentState = this.stateManager.getCurrentStatus().systemStatus
+		if (
+			!this.configManager.isFeatureEnabled ||
+			!this.configManager.isFeatureConfigured ||
+			(currentState !== "Indexed" && currentState !== "Indexing")
+		) {
+			return []
+		}
+
+		let embedding = this.similarCodeEmbeddings.get(code)
+		if (!embedding) {
+			embedding = this.embedder.createEmbeddings([code]).then((response) => {
+				const vector = response?.embeddings[0]
+				if (!vector) {
+					throw new Error("Failed to generate embedding for query.")
+				}
+				return vector
+			})
+			this.similarCodeEmbeddings.set(code, embedding)
+			embedding.catch(() => this.similarCodeEmbeddings.delete(code))
+		}
+
+		return this.vectorStore.search(await embedding, undefined, this.configManager.currentSearchMinScore, maxResults)
+	}
+
+	/**
+	 * Searches the indexes of several workspace folders and merges their results by score, attributing
+	 * each result to its folder. A directory prefix starting with a folder name only searches that folder.
+	 * Folders whose index cannot be searched are skipped as long as another folder could be searched.
+	 * @param targets Indexes of the workspace folders to search
+	 * @param query The search query
+	 * @param maxResults Maximum number of merged results
+	 * @param directoryPrefix Optional directory path to filter results by
+	 * @param mode Ranking strategy used in every folder
+	 * @returns Merged search results
+	 */
+	public static async searchWorkspaces(
+		targets: WorkspaceSearchTarget[],
+		query: string,
+		maxResults: number,
+		directoryPrefix?: string,
+		mode: CodebaseSearchMode = "semantic",
+	): Promise<VectorStoreSearchResult[]> {
+		const prefixSegments = directoryPrefix
+			? path
+					.normalize(directoryPrefix)
+					.split(/[\\/]/)
+					.filter((segment) => segment && segment !== ".")
+			: []
+		const scopedTarget = targets.find((target) => target.name === prefixSegments[0])
+		const searches = scopedTarget
+			? [{ target: scopedTarget, prefix: prefixSegments.slice(1).join("/") || undefined }]
+			: targets.map((target) => ({ target, prefix: directoryPrefix }))
+
+		const settled = await Promise.allSettled(
+			searches.map(async ({ target, prefix }): Promise<VectorStoreSearchResult[]> => {
+				const results = await target.searchService.searchIndex(query, prefix, mode)
+				return results.map((result) => ({
+					...result,
+					workspaceFolder: { name: target.name, path: target.workspacePath },
+				}))
+			}),
+		)
+
+		const fulfilled = settled.filter(
+			(outcome): outcome is PromiseFulfilledResult<VectorStoreSearchResult[]> => outcome.status === "fulfilled",
+		)
+		if (fulfilled.length === 0 && settled.length > 0) {
+			throw (settled[0] as PromiseRejectedResult).reason
+		}
+
+		// Scores of every folder come from the same embedder and ranking, so they are merged as is
+		return fulfilled
+			.flatMap((outcome) => outcome.value)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, maxResults)
+	}
+
+	/**
+	 * Releases the vector store subscription.
+	 */
+	public dispose(): void {
+		this.disposables.forEach((disposable) => disposable.dispose())
+		this.disposables.length = 0
+		this.lexicalIndex = undefined
+		this.similarCodeEmbeddings.clear()
+	}
+
+	private async semanticSearch(
+		query: string,
+		directoryPrefix: string | undefined,
+		minScore: number,
+		maxResults: number,
+	): Promise<VectorStoreSearchResult[]> {
+		// Generate embedding for query
+		const embeddingResponse = await this.embedder.createEmbeddings([query])
+		const vector = embeddingResponse?.embeddings[0]
+		if (!vector) {
+			throw new Error("Failed to generate embedding for query.")
+		}
+
+		// Perform search
+		const results = await this.vectorStore.search(vector, directoryPrefix, minScore, maxResults)
+		return results.map((result) => ({
+			...result,
+			match: { sources: ["semantic"], semanticScore: result.score },
+		}))
+	}
+
+	private async keywordSearch(
+		query: string,
+		directoryPrefix: string | undefined,
+		maxResults: number,
+	): Promise<VectorStoreSearchResult[]> {
+		const lexicalIndex = await this.getLexicalIndex()
+		return lexicalIndex.search(query, directoryPrefix, maxResults).map((result) => ({
+			id: result.id,
+			score: result.score,
+			payload: result.payload,
+			match: { sources: ["keyword"], keywordScore: result.score, matchedTerms: result.matchedTerms },
+		}))
+	}
+
+	/**
+	 * Runs semantic and keyword search over the same segments and merges both rankings
+	 * with reciprocal rank fusion. The fused score is scaled so that a segment ranked
+	 * first by both searches scores 1.
+	 */
+	private async hybridSearch(
+		query: string,
+		directoryPrefix: string | undefined,
+		minScore: number,
+		maxResults: number,
+	): Promise<VectorStoreSearchResult[]> {
+		const candidateCount = maxResults * HYBRID_SEARCH_CANDIDATE_MULTIPLIER
+		const [semanticResults, keywordResults] = await Promise.all([
+			this.semanticSearch(query, directoryPrefix, minScore, candidateCount),
+			this.keywordSearch(query, directoryPrefix, candidateCount),
+		])
+
+		const maxFusedScore = 2 / (HYBRID_SEARCH_RRF_K + 1)
+		const fused = new Map<string, VectorStoreSearchResult>()
+
+		const addRanking = (results: VectorStoreSearchResult[]) => {
+			results.forEach((result, rank) => {
+				const contribution = 1 / (HYBRID_SEARCH_RRF_K + rank + 1) / maxFusedScore
+				const key = String(result.id)
+				const existing = fused.get(key)
+
+				if (!existing) {
+					fused.set(key, { ...result, score: contribution })
+					return
+				}
+
+				existing.score += contribution
+				existing.match = {
+					...existing.match,
+					...result.match,
+					sources: [...(existing.match?.sources ?? []), ...(result.match?.sources ?? [])],
+				}
+			})
+		}
+
+		addRanking(semanticResults)
+		addRanking(keywordResults)
+
+		return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, maxResults)
+	}
+
+	/**
+	 * Returns the keyword index, building it from the payloads of the vector store on first use.
+	 */
+	private async getLexicalIndex(): Promise<LexicalIndex> {
+		if (this.lexicalIndex) {
+			return this.lexicalIndex
+		}
+
+		if (!this.lexicalIndexBuild) {
+			this.lexicalIndexBuild = this.buildLexicalIndex()
+				.then((lexicalIndex) => {
+					// Changes made during the scroll may or may not be in it; applying them again is harmless
+					this.pendingChanges.forEach((change) => applyLexicalChange(lexicalIndex, change))
+					this.lexicalIndex = lexicalIndex
+					return lexicalIndex
+				})
+				.finally(() => {
+					this.lexicalIndexBuild = undefined
+					this.pendingChanges.length = 0
+				})
+		}
+
+		return this.lexicalIndexBuild
+	}
+
+	private async buildLexicalIndex(): Promise<LexicalIndex> {
+		const lexicalIndex = new LexicalIndex()
+		for await (const points of this.vectorStore.scrollPayloads(LEXICAL_INDEX_SCROLL_BATCH_SIZE)) {
+			lexicalIndex.addPoints(points)
+		}
+		return lexicalIndex
+	}
+
+	private applyChange(change: VectorStoreChange): void {
+		if (this.lexicalIndex) {
+			applyLexicalChange(this.lexicalIndex, change)
+		} else if (this.lexicalIndexBuild) {
+			this.pendingChanges.push(change)
+		}
+	}
+}
+
+function applyLexicalChange(lexicalIndex: LexicalIndex, change: VectorStoreChange): void {
+	switch (change.type) {
+		case "upsert":
+			lexicalIndex.addPoints(change.points)
+			break
+		case "delete":
+			lexicalIndex.removeFilePaths(change.filePaths)
+			break
+		case "clear":
+			lexicalIndex.clear()
+			break
+	}
 }
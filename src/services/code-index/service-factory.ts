@@ -1,4 +1,5 @@
 import * as vscode from "vscode"
+import * as path from "path"
 import { Ignore } from "ignore"
 
 import type { EmbedderProvider } from "@roo-code/types"
@@ -20,12 +21,14 @@ import { MistralEmbedder } from "./embedders/mistral"
 import { VercelAiGatewayEmbedder } from "./embedders/vercel-ai-gateway"
 import { BedrockEmbedder } from "./embedders/bedrock"
 import { OpenRouterEmbedder } from "./embedders/openrouter"
+import { LocalEmbedder } from "./embedders/local"
 import { QdrantVectorStore } from "./vector-store/qdrant-client"
+import { LocalVectorStore } from "./vector-store/local-vector-store"
 import { codeParser, DirectoryScanner, FileWatcher } from "./processors"
-import { ICodeParser, IEmbedder, IFileWatcher, IVectorStore } from "./interfaces"
+import { ICodeParser, IEmbedder, IFileWatcher, ISymbolGraph, IVectorStore, VectorStoreProvider } from "./interfaces"
 import { CodeIndexConfigManager } from "./config-manager"
 import { CacheManager } from "./cache-manager"
-import { BATCH_SEGMENT_THRESHOLD } from "./constants"
+import { BATCH_SEGMENT_THRESHOLD, LOCAL_EMBEDDING_MODELS_DIR_NAME } from "./constants"
 
 /**
  * Factory class responsible for creating and configuring code indexing service dependencies.
@@ -35,6 +38,8 @@ export class CodeIndexServiceFactory {
 		private readonly configManager: CodeIndexConfigManager,
 		private readonly workspacePath: string,
 		private readonly cacheManager: CacheManager,
+		private readonly globalStoragePath?: string,
+		private readonly snapshotKey: string = workspacePath,
 	) {}
 
 	/**
@@ -103,6 +108,11 @@ export class CodeIndexServiceFactory {
 				undefined, // maxItemTokens
 				config.openRouterOptions.specificProvider,
 			)
+		} else if (provider === "local") {
+			if (!this.globalStoragePath) {
+				throw new Error(t("embeddings:serviceFactory.localEmbedderStorageMissing"))
+			}
+			return new LocalEmbedder(path.join(this.globalStoragePath, LOCAL_EMBEDDING_MODELS_DIR_NAME), config.modelId)
 		}
 
 		throw new Error(
@@ -136,8 +146,13 @@ export class CodeIndexServiceFactory {
 
 	/**
 	 * Creates a vector store instance using the current configuration.
+	 * @param vectorStoreProvider Optional backend override, used when migrating between backends
+	 * @param snapshotKey Optional index snapshot override, used when seeding a snapshot from another one
 	 */
-	public createVectorStore(): IVectorStore {
+	public createVectorStore(
+		vectorStoreProvider?: VectorStoreProvider,
+		snapshotKey: string = this.snapshotKey,
+	): IVectorStore {
 		const config = this.configManager.getConfig()
 
 		const provider = config.embedderProvider as EmbedderProvider
@@ -165,12 +180,18 @@ export class CodeIndexServiceFactory {
 			}
 		}
 
+		if ((vectorStoreProvider ?? config.vectorStoreProvider) === "local") {
+			if (!this.globalStoragePath) {
+				throw new Error(t("embeddings:serviceFactory.localVectorStoreStorageMissing"))
+			}
+			return new LocalVectorStore(this.workspacePath, this.globalStoragePath, vectorSize, snapshotKey)
+		}
+
 		if (!config.qdrantUrl) {
 			throw new Error(t("embeddings:serviceFactory.qdrantUrlMissing"))
 		}
 
-		// Assuming constructor is updated: new QdrantVectorStore(workspacePath, url, vectorSize, apiKey?)
-		return new QdrantVectorStore(this.workspacePath, config.qdrantUrl, vectorSize, config.qdrantApiKey)
+		return new QdrantVectorStore(this.workspacePath, config.qdrantUrl, vectorSize, config.qdrantApiKey, snapshotKey)
 	}
 
 	/**
@@ -181,6 +202,7 @@ export class CodeIndexServiceFactory {
 		vectorStore: IVectorStore,
 		parser: ICodeParser,
 		ignoreInstance: Ignore,
+		symbolGraph?: ISymbolGraph,
 	): DirectoryScanner {
 		// Get the configurable batch size from VSCode settings
 		let batchSize: number
@@ -192,7 +214,15 @@ export class CodeIndexServiceFactory {
 			// In test environment, vscode.workspace might not be available
 			batchSize = BATCH_SEGMENT_THRESHOLD
 		}
-		return new DirectoryScanner(embedder, vectorStore, parser, this.cacheManager, ignoreInstance, batchSize)
+		return new DirectoryScanner(
+			embedder,
+			vectorStore,
+			parser,
+			this.cacheManager,
+			ignoreInstance,
+			batchSize,
+			symbolGraph,
+		)
 	}
 
 	/**
@@ -205,6 +235,7 @@ export class CodeIndexServiceFactory {
 		cacheManager: CacheManager,
 		ignoreInstance: Ignore,
 		rooIgnoreController?: RooIgnoreController,
+		symbolGraph?: ISymbolGraph,
 	): IFileWatcher {
 		// Get the configurable batch size from VSCode settings
 		let batchSize: number
@@ -225,6 +256,7 @@ export class CodeIndexServiceFactory {
 			ignoreInstance,
 			rooIgnoreController,
 			batchSize,
+			symbolGraph,
 		)
 	}
 
@@ -237,6 +269,7 @@ export class CodeIndexServiceFactory {
 		cacheManager: CacheManager,
 		ignoreInstance: Ignore,
 		rooIgnoreController?: RooIgnoreController,
+		symbolGraph?: ISymbolGraph,
 	): {
 		embedder: IEmbedder
 		vectorStore: IVectorStore
@@ -251,7 +284,7 @@ export class CodeIndexServiceFactory {
 		const embedder = this.createEmbedder()
 		const vectorStore = this.createVectorStore()
 		const parser = codeParser
-		const scanner = this.createDirectoryScanner(embedder, vectorStore, parser, ignoreInstance)
+		const scanner = this.createDirectoryScanner(embedder, vectorStore, parser, ignoreInstance, symbolGraph)
 		const fileWatcher = this.createFileWatcher(
 			context,
 			embedder,
@@ -259,6 +292,7 @@ export class CodeIndexServiceFactory {
 			cacheManager,
 			ignoreInstance,
 			rooIgnoreController,
+			symbolGraph,
 		)
 
 		return {
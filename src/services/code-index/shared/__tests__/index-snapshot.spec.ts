@@ -0,0 +1,24 @@
+import { getIndexSnapshotKey, recordIndexSnapshotUse } from "../index-snapshot"
+
+describe("getIndexSnapshotKey", () => {
+	it("should key snapshots by branch and keep the plain workspace path outside of git", () => {
+		expect(getIndexSnapshotKey("/workspace", "feature/login")).toBe("/workspace@feature/login")
+		expect(getIndexSnapshotKey("/workspace")).toBe("/workspace")
+	})
+})
+
+describe("recordIndexSnapshotUse", () => {
+	it("should move the snapshot to the front of the recently used ones", () => {
+		expect(recordIndexSnapshotUse(["/w@main", "/w@dev"], "/w@dev", 3)).toEqual({
+			recentSnapshotKeys: ["/w@dev", "/w@main"],
+			evictedSnapshotKeys: [],
+		})
+	})
+
+	it("should evict the least recently used snapshots beyond the limit", () => {
+		expect(recordIndexSnapshotUse(["/w@main", "/w@dev", "/w@old"], "/w@new", 2)).toEqual({
+			recentSnapshotKeys: ["/w@new", "/w@main"],
+			evictedSnapshotKeys: ["/w@dev", "/w@old"],
+		})
+	})
+})
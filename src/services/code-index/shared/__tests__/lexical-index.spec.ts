@@ -0,0 +1,80 @@
+import { LexicalIndex, tokenizeCode } from "../lexical-index"
+import { PointStruct } from "../../interfaces"
+
+const makePoint = (id: string, filePath: string, codeChunk: string): PointStruct => ({
+	id,
+	vector: [],
+	payload: { filePath, codeChunk, startLine: 1, endLine: 5 },
+})
+
+describe("tokenizeCode", () => {
+	it("should keep whole identifiers and add their camelCase and snake_case parts", () => {
+		expect(tokenizeCode("getCheckpointService()")).toEqual(["getcheckpointservice", "get", "checkpoint", "service"])
+		expect(tokenizeCode("ERR_NO_WORKSPACE")).toEqual(["err_no_workspace", "err", "no", "workspace"])
+		expect(tokenizeCode("parseHTTPResponse")).toEqual(["parsehttpresponse", "parse", "http", "response"])
+	})
+
+	it("should ignore punctuation and keep numbers", () => {
+		expect(tokenizeCode("x = foo(42);")).toEqual(["x", "foo", "42"])
+	})
+})
+
+describe("LexicalIndex", () => {
+	let index: LexicalIndex
+
+	beforeEach(() => {
+		index = new LexicalIndex()
+		index.addPoints([
+			makePoint(
+				"exact",
+				"src/checkpoints/index.ts",
+				"export function getCheckpointService(task) { return service }",
+			),
+			makePoint("related", "src/checkpoints/types.ts", "interface CheckpointEvent { service: string }"),
+			makePoint("unrelated", "src/utils/path.ts", "export function toPosix(p) { return p }"),
+			{ id: "metadata", vector: [], payload: { type: "metadata" } },
+		])
+	})
+
+	it("should skip points without a code payload", () => {
+		expect(index.size).toBe(3)
+	})
+
+	it("should rank exact identifier matches first and report matched terms", () => {
+		const results = index.search("getCheckpointService", undefined, 10)
+
+		expect(results.map((r) => r.id)).toEqual(["exact", "related"])
+		expect(results[0].matchedTerms).toContain("getcheckpointservice")
+		expect(results[1].matchedTerms).not.toContain("getcheckpointservice")
+		expect(results[0].score).toBeGreaterThan(results[1].score)
+	})
+
+	it("should filter by directory prefix and limit results", () => {
+		expect(index.search("service checkpoint", "src/checkpoints/types.ts", 10).map((r) => r.id)).toEqual(["related"])
+		expect(index.search("service", "./src/utils", 10)).toEqual([])
+		expect(index.search("service", ".", 1)).toHaveLength(1)
+	})
+
+	it("should return nothing for queries without known terms", () => {
+		expect(index.search("database pooling", undefined, 10)).toEqual([])
+		expect(index.search("!!!", undefined, 10)).toEqual([])
+	})
+	it("should replace the points with the same id", () => {
+		index.addPoints([makePoint("unrelated", "src/utils/path.ts", "export function toWindows(p) { return p }")])
+
+		expect(index.size).toBe(3)
+		expect(index.search("posix", undefined, 10)).toEqual([])
+		expect(index.search("toWindows", undefined, 10).map((r) => r.id)).toEqual(["unrelated"])
+	})
+
+	it("should remove the points of deleted files and clear all points", () => {
+		index.removeFilePaths(["src\\checkpoints\\index.ts"])
+
+		expect(index.size).toBe(2)
+		expect(index.search("getCheckpointService", undefined, 10).map((r) => r.id)).toEqual(["related"])
+
+		index.clear()
+		expect(index.size).toBe(0)
+		expect(index.search("service", undefined, 10)).toEqual([])
+	})
+})
@@ -0,0 +1,27 @@
+/**
+ * Returns the key identifying the index snapshot of a workspace for a git branch.
+ * Vector store collections, hash caches and symbol graphs are named after a hash of this key.
+ * Workspaces outside of git keep the plain workspace path, which is also the key of indexes
+ * created before snapshots were kept per branch.
+ * @param workspacePath Path to the workspace
+ * @param branch Checked out branch
+ */
+export function getIndexSnapshotKey(workspacePath: string, branch?: string): string {
+	return branch ? `${workspacePath}@${branch}` : workspacePath
+}
+
+/**
+ * Moves a snapshot to the front of the most recently used snapshots of a workspace, and returns
+ * the snapshots beyond the limit, whose data should be deleted.
+ * @param recentSnapshotKeys Snapshot keys of the workspace, most recently used first
+ * @param snapshotKey Key of the snapshot being used
+ * @param limit Maximum number of snapshots kept per workspace
+ */
+export function recordIndexSnapshotUse(
+	recentSnapshotKeys: string[],
+	snapshotKey: string,
+	limit: number,
+): { recentSnapshotKeys: string[]; evictedSnapshotKeys: string[] } {
+	const keys = [snapshotKey, ...recentSnapshotKeys.filter((key) => key !== snapshotKey)]
+	return { recentSnapshotKeys: keys.slice(0, limit), evictedSnapshotKeys: keys.slice(limit) }
+}
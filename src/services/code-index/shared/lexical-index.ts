@@ -0,0 +1,249 @@
+import * as path from "path"
+import { Payload, PointStruct } from "../interfaces"
+
+/**
+ * BM25 term frequency saturation parameter
+ */
+const BM25_K1 = 1.2
+
+/**
+ * BM25 document length normalization parameter
+ */
+const BM25_B = 0.75
+
+const IDENTIFIER_REGEX = /[A-Za-z_$][A-Za-z0-9_$]*|\d+/g
+
+export interface LexicalSearchResult {
+	id: string
+	score: number
+	payload: Payload
+	matchedTerms: string[]
+}
+
+interface LexicalDocument {
+	id: string
+	payload: Payload
+	pathSegments: string[]
+	length: number
+	termFrequencies: Map<string, number>
+}
+
+/**
+ * Splits code or a query into lowercase search terms. Every identifier is kept whole so that
+ * exact names like `getCheckpointService` or `ERR_NO_WORKSPACE` match strongly, and is also
+ * split on camelCase and snake_case boundaries so that partial names still match.
+ */
+export function tokenizeCode(text: string): string[] {
+	const terms: string[] = []
+
+	for (const identifier of text.match(IDENTIFIER_REGEX) ?? []) {
+		const whole = identifier.toLowerCase()
+		terms.push(whole)
+
+		const parts = identifier
+			.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+			.replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+			.split(/[\s_$]+/)
+			.map((part) => part.toLowerCase())
+			.filter((part) => part.length > 1)
+
+		if (parts.length > 1) {
+			terms.push(...parts.filter((part) => part !== whole))
+		}
+	}
+
+	return terms
+}
+
+/**
+ * Splits a directory prefix into normalized path segments. "." and "./" mean the whole workspace.
+ */
+export function toPrefixSegments(directoryPrefix?: string): string[] {
+	if (!directoryPrefix) {
+		return []
+	}
+	const normalizedPrefix = path.posix.normalize(directoryPrefix.replace(/\\/g, "/"))
+	if (normalizedPrefix === "." || normalizedPrefix === "./") {
+		return []
+	}
+	return normalizedPrefix.split("/").filter(Boolean)
+}
+
+function toPathKey(filePath: string): string {
+	return path.normalize(filePath).split(/[\\/]/).filter(Boolean).join("/")
+}
+
+/**
+ * In-memory BM25 keyword index over the segments stored in the vector store.
+ * It is built from the same points the semantic search runs on, so keyword and
+ * vector hits always refer to identical chunks and can be fused by point id.
+ * Points can be added, replaced and removed by file as the vector store changes.
+ */
+export class LexicalIndex {
+	private readonly documents = new Map<string, LexicalDocument>()
+	// Ids of the documents containing each term
+	private readonly postings = new Map<string, Set<string>>()
+	// Ids of the documents of each file, by normalized relative path
+	private readonly fileDocuments = new Map<string, Set<string>>()
+	private totalLength = 0
+
+	/**
+	 * Number of indexed segments
+	 */
+	get size(): number {
+		return this.documents.size
+	}
+
+	/**
+	 * Adds points to the index, replacing the points with the same id. Points without a valid payload are skipped.
+	 * @param points Points read from the vector store
+	 */
+	addPoints(points: Omit<PointStruct, "vector">[]): void {
+		for (const point of points) {
+			const payload = point.payload
+			if (!payload || typeof payload.filePath !== "string" || typeof payload.codeChunk !== "string") {
+				continue
+			}
+
+			const id = String(point.id)
+			this.removeDocument(id)
+
+			const terms = tokenizeCode(`${payload.filePath}\n${payload.codeChunk}`)
+			const termFrequencies = new Map<string, number>()
+			for (const term of terms) {
+				termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1)
+			}
+
+			const pathSegments = path.normalize(payload.filePath).split(/[\\/]/).filter(Boolean)
+			this.documents.set(id, {
+				id,
+				payload: payload as Payload,
+				pathSegments,
+				length: terms.length,
+				termFrequencies,
+			})
+			this.totalLength += terms.length
+
+			for (const term of termFrequencies.keys()) {
+				let termPostings = this.postings.get(term)
+				if (!termPostings) {
+					termPostings = new Set()
+					this.postings.set(term, termPostings)
+				}
+				termPostings.add(id)
+			}
+
+			const pathKey = pathSegments.join("/")
+			let documentIds = this.fileDocuments.get(pathKey)
+			if (!documentIds) {
+				documentIds = new Set()
+				this.fileDocuments.set(pathKey, documentIds)
+			}
+			documentIds.add(id)
+		}
+	}
+
+	/**
+	 * Removes the points of files from the index.
+	 * @param filePaths Paths of the files relative to the workspace
+	 */
+	removeFilePaths(filePaths: string[]): void {
+		for (const filePath of filePaths) {
+			for (const id of [...(this.fileDocuments.get(toPathKey(filePath)) ?? [])]) {
+				this.removeDocument(id)
+			}
+		}
+	}
+
+	/**
+	 * Removes all points from the index.
+	 */
+	clear(): void {
+		this.documents.clear()
+		this.postings.clear()
+		this.fileDocuments.clear()
+		this.totalLength = 0
+	}
+
+	/**
+	 * Ranks indexed segments against the query terms using BM25.
+	 * @param query The search query
+	 * @param directoryPrefix Optional directory prefix to filter results
+	 * @param maxResults Maximum number of results to return
+	 * @returns Results sorted by descending BM25 score
+	 */
+	search(query: string, directoryPrefix: string | undefined, maxResults: number): LexicalSearchResult[] {
+		const documentCount = this.documents.size
+		const queryTerms = [...new Set(tokenizeCode(query))]
+		if (documentCount === 0 || queryTerms.length === 0) {
+			return []
+		}
+
+		const prefixSegments = toPrefixSegments(directoryPrefix)
+		const averageLength = this.totalLength / documentCount
+		const scores = new Map<LexicalDocument, { score: number; matchedTerms: string[] }>()
+
+		for (const term of queryTerms) {
+			const termPostings = this.postings.get(term)
+			if (!termPostings) {
+				continue
+			}
+
+			const idf = Math.log(1 + (documentCount - termPostings.size + 0.5) / (termPostings.size + 0.5))
+
+			for (const id of termPostings) {
+				const document = this.documents.get(id)!
+				if (!prefixSegments.every((segment, index) => document.pathSegments[index] === segment)) {
+					continue
+				}
+
+				const termFrequency = document.termFrequencies.get(term)!
+				const lengthNorm = 1 - BM25_B + BM25_B * (document.length / averageLength)
+				const termScore = (idf * termFrequency * (BM25_K1 + 1)) / (termFrequency + BM25_K1 * lengthNorm)
+
+				const entry = scores.get(document)
+				if (entry) {
+					entry.score += termScore
+					entry.matchedTerms.push(term)
+				} else {
+					scores.set(document, { score: termScore, matchedTerms: [term] })
+				}
+			}
+		}
+
+		return [...scores.entries()]
+			.sort((a, b) => b[1].score - a[1].score)
+			.slice(0, maxResults)
+			.map(([document, { score, matchedTerms }]) => ({
+				id: document.id,
+				score,
+				payload: document.payload,
+				matchedTerms,
+			}))
+	}
+
+	private removeDocument(id: string): void {
+		const document = this.documents.get(id)
+		if (!document) {
+			return
+		}
+
+		this.documents.delete(id)
+		this.totalLength -= document.length
+
+		for (const term of document.termFrequencies.keys()) {
+			const termPostings = this.postings.get(term)
+			termPostings?.delete(id)
+			if (termPostings?.size === 0) {
+				this.postings.delete(term)
+			}
+		}
+
+		const pathKey = document.pathSegments.join("/")
+		const documentIds = this.fileDocuments.get(pathKey)
+		documentIds?.delete(id)
+		if (documentIds?.size === 0) {
+			this.fileDocuments.delete(pathKey)
+		}
+	}
+}
@@ -0,0 +1,272 @@
+import * as vscode from "vscode"
+import * as path from "path"
+import { createHash } from "crypto"
+import debounce from "lodash.debounce"
+import { safeWriteJson } from "../../utils/safeWriteJson"
+import { TelemetryService } from "@roo-code/telemetry"
+import { TelemetryEventName } from "@roo-code/types"
+import { FileSymbols, ISymbolGraph, ModuleImport, SymbolDefinition, SymbolReference } from "./interfaces"
+import { generateNormalizedAbsolutePath, generateRelativeFilePath } from "./shared/get-relative-path"
+import { toPrefixSegments } from "./shared/lexical-index"
+import { MAX_SYMBOL_GRAPH_RESULTS } from "./constants"
+
+/** File names that stand for their directory when imported, e.g. `./utils` for `./utils/index.ts` */
+const DIRECTORY_MODULE_NAMES = new Set(["index", "__init__", "mod"])
+
+interface StoredFile extends FileSymbols {
+	hash: string
+}
+
+/**
+ * Symbol graph of the workspace (definitions, references, call edges and imports),
+ * persisted next to the code index cache and kept up to date by the scanner and file watcher.
+ */
+export class SymbolGraph implements ISymbolGraph {
+	private graphPath: vscode.Uri
+	private files: Record<string, StoredFile> = {}
+	private definitionsByName: Map<string, SymbolDefinition[]> | undefined
+	private referencesByName: Map<string, SymbolReference[]> | undefined
+	private _debouncedSave: () => void
+
+	/**
+	 * Creates a new symbol graph
+	 * @param context VS Code extension context
+	 * @param workspacePath Path to the workspace
+	 * @param snapshotKey Key of the index snapshot the graph belongs to, defaults to the workspace path
+	 */
+	constructor(
+		private context: vscode.ExtensionContext,
+		private workspacePath: string,
+		snapshotKey: string = workspacePath,
+	) {
+		this.graphPath = vscode.Uri.joinPath(
+			context.globalStorageUri,
+			`costrict-symbol-graph-${createHash("sha256").update(snapshotKey).digest("hex")}.json`,
+		)
+		this._debouncedSave = debounce(async () => {
+			await this._performSave()
+		}, 1500)
+	}
+
+	/**
+	 * Loads the symbol graph file
+	 */
+	async initialize(): Promise<void> {
+		try {
+			const data = await vscode.workspace.fs.readFile(this.graphPath)
+			this.files = JSON.parse(data.toString())
+		} catch (error) {
+			// A missing file is expected before the first indexing run
+			this.files = {}
+		}
+		this.invalidate()
+	}
+
+	hasFile(filePath: string, fileHash: string): boolean {
+		return this.files[this.toRelativePath(filePath)]?.hash === fileHash
+	}
+
+	setFile(filePath: string, fileHash: string, symbols: FileSymbols): void {
+		const relativePath = this.toRelativePath(filePath)
+		const withPath = <T extends { filePath: string }>(items: T[]) =>
+			items.map((item) => ({ ...item, filePath: relativePath }))
+
+		this.files[relativePath] = {
+			hash: fileHash,
+			definitions: withPath(symbols.definitions),
+			references: withPath(symbols.references),
+			imports: withPath(symbols.imports),
+		}
+		this.invalidate()
+		this._debouncedSave()
+	}
+
+	deleteFile(filePath: string): void {
+		const relativePath = this.toRelativePath(filePath)
+		if (this.files[relativePath]) {
+			delete this.files[relativePath]
+			this.invalidate()
+			this._debouncedSave()
+		}
+	}
+
+	retainFiles(filePaths: Set<string>): void {
+		const keep = new Set([...filePaths].map((filePath) => this.toRelativePath(filePath)))
+		const removed = Object.keys(this.files).filter((relativePath) => !keep.has(relativePath))
+		if (removed.length > 0) {
+			removed.forEach((relativePath) => delete this.files[relativePath])
+			this.invalidate()
+			this._debouncedSave()
+		}
+	}
+
+	/**
+	 * Clears the symbol graph file by writing an empty graph to it
+	 */
+	async clear(): Promise<void> {
+		try {
+			await safeWriteJson(this.graphPath.fsPath, {})
+			this.files = {}
+			this.invalidate()
+		} catch (error) {
+			console.error("Failed to clear symbol graph:", error, this.graphPath)
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: error instanceof Error ? error.message : String(error),
+				stack: error instanceof Error ? error.stack : undefined,
+				location: "SymbolGraph:clear",
+			})
+		}
+	}
+
+	findDefinitions(name: string, directoryPrefix?: string): SymbolDefinition[] {
+		if (!this.definitionsByName) {
+			this.definitionsByName = this.groupByName((file) => file.definitions)
+		}
+		return this.limit(this.definitionsByName.get(name) ?? [], directoryPrefix)
+	}
+
+	findReferences(name: string, directoryPrefix?: string): SymbolReference[] {
+		if (!this.referencesByName) {
+			this.referencesByName = this.groupByName((file) => file.references)
+		}
+		return this.limit(this.referencesByName.get(name) ?? [], directoryPrefix)
+	}
+
+	findImporters(filePath: string): ModuleImport[] {
+		const targetPath = toPosixPath(this.toRelativePath(filePath))
+		const targetModules = getModuleNames(targetPath)
+		const importers: ModuleImport[] = []
+
+		for (const [relativePath, file] of Object.entries(this.files)) {
+			const importerPath = toPosixPath(relativePath)
+			if (importerPath === targetPath) continue
+
+			for (const moduleImport of file.imports) {
+				if (importResolvesTo(importerPath, moduleImport.source, targetModules)) {
+					importers.push(moduleImport)
+				}
+			}
+		}
+
+		return this.limit(importers)
+	}
+
+	/**
+	 * Saves the symbol graph to disk
+	 */
+	private async _performSave(): Promise<void> {
+		try {
+			await safeWriteJson(this.graphPath.fsPath, this.files)
+		} catch (error) {
+			console.error("Failed to save symbol graph:", error)
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: error instanceof Error ? error.message : String(error),
+				stack: error instanceof Error ? error.stack : undefined,
+				location: "SymbolGraph:_performSave",
+			})
+		}
+	}
+
+	private invalidate(): void {
+		this.definitionsByName = undefined
+		this.referencesByName = undefined
+	}
+
+	private groupByName<T extends { name: string }>(select: (file: StoredFile) => T[]): Map<string, T[]> {
+		const byName = new Map<string, T[]>()
+		for (const file of Object.values(this.files)) {
+			for (const item of select(file)) {
+				const items = byName.get(item.name)
+				if (items) {
+					items.push(item)
+				} else {
+					byName.set(item.name, [item])
+				}
+			}
+		}
+		return byName
+	}
+
+	/**
+	 * Filters results to a directory, orders them by location and caps their number.
+	 */
+	private limit<T extends { filePath: string }>(items: T[], directoryPrefix?: string): T[] {
+		const prefixSegments = toPrefixSegments(directoryPrefix)
+		const lineOf = (item: T) =>
+			"line" in item ? (item.line as number) : "startLine" in item ? (item.startLine as number) : 0
+
+		return items
+			.filter((item) => {
+				const segments = toPosixPath(item.filePath).split("/")
+				return prefixSegments.every((segment, index) => segments[index] === segment)
+			})
+			.sort((a, b) => a.filePath.localeCompare(b.filePath) || lineOf(a) - lineOf(b))
+			.slice(0, MAX_SYMBOL_GRAPH_RESULTS)
+	}
+
+	private toRelativePath(filePath: string): string {
+		return generateRelativeFilePath(
+			generateNormalizedAbsolutePath(filePath, this.workspacePath),
+			this.workspacePath,
+		)
+	}
+}
+
+function toPosixPath(filePath: string): string {
+	return filePath.replace(/\\/g, "/")
+}
+
+/**
+ * Returns the module names a file can be imported as: its path without extension and,
+ * for index-like files, the directory containing it.
+ */
+function getModuleNames(targetPath: string): Set<string> {
+	const withoutExtension = targetPath.slice(0, targetPath.length - path.posix.extname(targetPath).length)
+	const names = new Set([withoutExtension])
+	if (DIRECTORY_MODULE_NAMES.has(path.posix.basename(withoutExtension))) {
+		names.add(path.posix.dirname(withoutExtension))
+	}
+	return names
+}
+
+/**
+ * Checks whether an import specifier written in `importerPath` refers to one of the target module names.
+ * Relative specifiers (`./x`, `../x`, Python's `.x`) are resolved against the importer; other
+ * specifiers such as `com.example.Parser` or `crate::parser::Parser` match by their trailing path.
+ */
+function importResolvesTo(importerPath: string, source: string, targetModules: Set<string>): boolean {
+	const importerDir = path.posix.dirname(importerPath)
+	const stripExtension = (modulePath: string) =>
+		/\.(m?[jt]sx?|c[jt]s|py|h|hpp)$/.test(modulePath)
+			? modulePath.slice(0, modulePath.length - path.posix.extname(modulePath).length)
+			: modulePath
+
+	if (source.startsWith("./") || source.startsWith("../") || source === "." || source === "..") {
+		return targetModules.has(stripExtension(path.posix.normalize(path.posix.join(importerDir, source))))
+	}
+
+	const pythonRelative = source.match(/^(\.+)([\w.]*)$/)
+	if (pythonRelative) {
+		const parentDir = path.posix.join(importerDir, ...Array(pythonRelative[1].length - 1).fill(".."))
+		const modulePath = path.posix.normalize(path.posix.join(parentDir, ...pythonRelative[2].split(".")))
+		return targetModules.has(modulePath)
+	}
+
+	const segments = stripExtension(source)
+		.split(/::|[./\\]/)
+		.filter((segment) => segment && !["crate", "self", "super", "@"].includes(segment))
+	if (segments.length === 0) {
+		return false
+	}
+
+	// The last segment may name a symbol inside the module rather than the module itself
+	const candidates = [segments.join("/"), segments.slice(0, -1).join("/")].filter(Boolean)
+	for (const targetModule of targetModules) {
+		for (const candidate of candidates) {
+			if (targetModule === candidate || targetModule.endsWith(`/${candidate}`)) {
+				return true
+			}
+		}
+	}
+	return false
+}
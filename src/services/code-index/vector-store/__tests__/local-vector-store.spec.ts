@@ -0,0 +1,176 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { LocalVectorStore } from "../local-vector-store"
+import { PointStruct } from "../../interfaces"
+
+vitest.mock("../../../../i18n", () => ({
+	t: (key: string) => key,
+}))
+
+const makePoint = (id: string, vector: number[], filePath: string): PointStruct => ({
+	id,
+	vector,
+	payload: { filePath, codeChunk: `chunk ${id}`, startLine: 1, endLine: 2 },
+})
+
+describe("LocalVectorStore", () => {
+	const workspacePath = "/test/workspace"
+	let storagePath: string
+	let store: LocalVectorStore
+
+	beforeEach(async () => {
+		storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "local-vector-store-"))
+		store = new LocalVectorStore(workspacePath, storagePath, 3)
+	})
+
+	afterEach(async () => {
+		await fs.rm(storagePath, { recursive: true, force: true })
+	})
+
+	it("should create a new collection on first initialize and reuse it afterwards", async () => {
+		expect(await store.initialize()).toBe(true)
+		expect(await store.collectionExists()).toBe(true)
+
+		const reopened = new LocalVectorStore(workspacePath, storagePath, 3)
+		expect(await reopened.initialize()).toBe(false)
+	})
+
+	it("should recreate the collection when the vector size changes", async () => {
+		await store.initialize()
+		await store.upsertPoints([makePoint("a", [1, 0, 0], "src/a.ts")])
+		await store.markIndexingComplete()
+
+		const resized = new LocalVectorStore(workspacePath, storagePath, 4)
+		expect(await resized.initialize()).toBe(true)
+		expect(await resized.hasIndexedData()).toBe(false)
+	})
+
+	it("should report why a collection on disk is recreated", async () => {
+		const warn = vitest.spyOn(console, "warn").mockImplementation(() => {})
+		await store.initialize()
+		await store.upsertPoints([makePoint("a", [1, 0, 0], "src/a.ts")])
+		await store.dispose()
+		const [collectionDir] = await fs.readdir(path.join(storagePath, "code-index-vectors"))
+		await fs.truncate(path.join(storagePath, "code-index-vectors", collectionDir, "vectors.bin"), 4)
+
+		expect(await new LocalVectorStore(workspacePath, storagePath, 3).initialize()).toBe(true)
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("has 4 bytes of vectors, but expected 12."))
+		warn.mockRestore()
+	})
+
+	it("should write the pending debounced changes on dispose", async () => {
+		await store.initialize()
+		await store.upsertPoints([makePoint("a", [1, 0, 0], "src/a.ts")])
+		await store.dispose()
+
+		const reopened = new LocalVectorStore(workspacePath, storagePath, 3)
+		expect(await reopened.initialize()).toBe(false)
+		expect(await reopened.search([1, 0, 0], undefined, 0.9)).toHaveLength(1)
+	})
+
+	it("should rank results by cosine similarity and apply minScore and maxResults", async () => {
+		await store.initialize()
+		await store.upsertPoints([
+			makePoint("exact", [1, 0, 0], "src/a.ts"),
+			makePoint("close", [1, 1, 0], "src/b.ts"),
+			makePoint("orthogonal", [0, 0, 1], "src/c.ts"),
+		])
+
+		const results = await store.search([1, 0, 0], undefined, 0.5, 10)
+		expect(results.map((r) => r.id)).toEqual(["exact", "close"])
+		expect(results[0].score).toBeCloseTo(1)
+		expect(results[1].score).toBeCloseTo(Math.SQRT1_2)
+
+		const limited = await store.search([1, 0, 0], undefined, 0, 1)
+		expect(limited.map((r) => r.id)).toEqual(["exact"])
+	})
+
+	it("should filter results by directory prefix", async () => {
+		await store.initialize()
+		await store.upsertPoints([
+			makePoint("a", [1, 0, 0], "src/services/a.ts"),
+			makePoint("b", [1, 0, 0], "src/utils/b.ts"),
+			makePoint("c", [1, 0, 0], "srcfoo/c.ts"),
+		])
+
+		expect((await store.search([1, 0, 0], "src", 0)).map((r) => r.id).sort()).toEqual(["a", "b"])
+		expect((await store.search([1, 0, 0], "./src/services/", 0)).map((r) => r.id)).toEqual(["a"])
+		expect(await store.search([1, 0, 0], ".", 0)).toHaveLength(3)
+	})
+
+	it("should delete points by relative or absolute file path", async () => {
+		await store.initialize()
+		await store.upsertPoints([
+			makePoint("a1", [1, 0, 0], "src/a.ts"),
+			makePoint("a2", [0, 1, 0], "src/a.ts"),
+			makePoint("b", [1, 0, 0], "src/b.ts"),
+			makePoint("c", [1, 0, 0], "src/c.ts"),
+		])
+
+		await store.deletePointsByFilePath("src/a.ts")
+		await store.deletePointsByMultipleFilePaths([path.join(workspacePath, "src/b.ts")])
+
+		const results = await store.search([1, 1, 1], undefined, 0)
+		expect(results.map((r) => r.id)).toEqual(["c"])
+	})
+
+	it("should persist points and the completion marker across instances", async () => {
+		await store.initialize()
+		await store.markIndexingIncomplete()
+		await store.upsertPoints([makePoint("a", [0.5, 0.25, 0], "src/a.ts")])
+		await store.markIndexingComplete()
+
+		const reopened = new LocalVectorStore(workspacePath, storagePath, 3)
+		expect(await reopened.hasIndexedData()).toBe(true)
+
+		const results = await reopened.search([0.5, 0.25, 0], undefined, 0.9)
+		expect(results).toHaveLength(1)
+		expect(results[0].payload).toMatchObject({ filePath: "src/a.ts", codeChunk: "chunk a" })
+	})
+
+	it("should report no indexed data while indexing is marked incomplete", async () => {
+		await store.initialize()
+		await store.upsertPoints([makePoint("a", [1, 0, 0], "src/a.ts")])
+		await store.markIndexingIncomplete()
+
+		expect(await store.hasIndexedData()).toBe(false)
+	})
+
+	it("should clear points and delete the collection from disk", async () => {
+		await store.initialize()
+		await store.upsertPoints([makePoint("a", [1, 0, 0], "src/a.ts")])
+		await store.markIndexingComplete()
+
+		await store.clearCollection()
+		expect(await store.hasIndexedData()).toBe(false)
+		expect(await store.collectionExists()).toBe(true)
+
+		await store.deleteCollection()
+		expect(await store.collectionExists()).toBe(false)
+		expect(await new LocalVectorStore(workspacePath, storagePath, 3).collectionExists()).toBe(false)
+	})
+
+	it("should yield all points in batches when scrolling", async () => {
+		await store.initialize()
+		await store.upsertPoints([
+			makePoint("a", [1, 0, 0], "src/a.ts"),
+			makePoint("b", [0, 1, 0], "src/b.ts"),
+			makePoint("c", [0, 0, 1], "src/c.ts"),
+		])
+
+		const batches: PointStruct[][] = []
+		for await (const batch of store.scrollPoints(2)) {
+			batches.push(batch)
+		}
+
+		expect(batches.map((batch) => batch.length)).toEqual([2, 1])
+		expect(batches.flat().find((point) => point.id === "b")?.vector).toEqual([0, 1, 0])
+	})
+
+	it("should reject vectors with the wrong dimension", async () => {
+		await store.initialize()
+		await expect(store.upsertPoints([makePoint("a", [1, 0], "src/a.ts")])).rejects.toThrow("dimension")
+	})
+})
@@ -0,0 +1,520 @@
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import debounce from "lodash.debounce"
+import { IVectorStore, PointStruct, VectorStoreChange } from "../interfaces/vector-store"
+import { Payload, VectorStoreSearchResult } from "../interfaces"
+import { DEFAULT_MAX_SEARCH_RESULTS, DEFAULT_SEARCH_MIN_SCORE, LOCAL_VECTOR_STORE_DIR_NAME } from "../constants"
+import { safeWriteJson } from "../../../utils/safeWriteJson"
+import { t } from "../../../i18n"
+
+const INDEX_FILE_NAME = "index.json"
+const VECTORS_FILE_NAME = "vectors.bin"
+const LOCAL_STORE_FORMAT_VERSION = 1
+
+type IndexingMetadata = {
+	indexing_complete: boolean
+	completed_at?: number
+	started_at?: number
+}
+
+/**
+ * On-disk layout of the index file. Vectors are stored separately as raw Float32 values
+ * in the same order as `ids` to keep the JSON file small.
+ */
+type LocalIndexFile = {
+	version: number
+	vectorSize: number
+	metadata: IndexingMetadata | null
+	ids: string[]
+	payloads: Record<string, any>[]
+}
+
+type StoredPoint = {
+	vector: Float32Array
+	norm: number
+	payload: Record<string, any>
+}
+
+/**
+ * In-process implementation of the vector store interface.
+ * Keeps all points in memory, answers queries with an exact cosine similarity scan
+ * and persists the collection to the extension's global storage.
+ */
+export class LocalVectorStore implements IVectorStore {
+	private readonly vectorSize: number
+	private readonly workspacePath: string
+	private readonly collectionDir: string
+	private readonly indexFilePath: string
+	private readonly vectorsFilePath: string
+
+	private points = new Map<string, StoredPoint>()
+	private metadata: IndexingMetadata | null = null
+	private loaded = false
+	private exists = false
+	private saveChain: Promise<void> = Promise.resolve()
+	private readonly _debouncedSave: ReturnType<typeof debounce>
+	private readonly changeListeners = new Set<(change: VectorStoreChange) => void>()
+
+	/**
+	 * Creates a new local vector store
+	 * @param workspacePath Path to the workspace
+	 * @param storagePath Directory in which collections are persisted (usually the global storage path)
+	 * @param vectorSize Dimension of the stored vectors
+	 * @param snapshotKey Key of the index snapshot stored in the collection, defaults to the workspace path
+	 */
+	constructor(workspacePath: string, storagePath: string, vectorSize: number, snapshotKey: string = workspacePath) {
+		this.workspacePath = workspacePath
+		this.vectorSize = vectorSize
+
+		// Generate collection name from the snapshot key, matching the Qdrant naming scheme
+		const hash = createHash("sha256").update(snapshotKey).digest("hex")
+		this.collectionDir = path.join(storagePath, LOCAL_VECTOR_STORE_DIR_NAME, `ws-${hash.substring(0, 16)}`)
+		this.indexFilePath = path.join(this.collectionDir, INDEX_FILE_NAME)
+		this.vectorsFilePath = path.join(this.collectionDir, VECTORS_FILE_NAME)
+
+		this._debouncedSave = debounce(() => {
+			void this.flush().catch((error) => {
+				console.error("[LocalVectorStore] Failed to persist collection:", error)
+			})
+		}, 1500)
+	}
+
+	/**
+	 * Initializes the vector store
+	 * @returns Promise resolving to boolean indicating if a new collection was created
+	 */
+	async initialize(): Promise<boolean> {
+		try {
+			const loadedFromDisk = await this.load()
+
+			if (!loadedFromDisk) {
+				this.exists = true
+				await this.flush()
+				this.notifyChange({ type: "clear" })
+				return true
+			}
+
+			return false
+		} catch (error: any) {
+			const errorMessage = error?.message || error
+			console.error(
+				`[LocalVectorStore] Failed to initialize collection at "${this.collectionDir}":`,
+				errorMessage,
+			)
+			throw new Error(
+				t("embeddings:vectorStore.localStoreInitFailed", { storagePath: this.collectionDir, errorMessage }),
+			)
+		}
+	}
+
+	/**
+	 * Loads the persisted collection into memory.
+	 * @returns Whether a compatible collection was found on disk
+	 */
+	private async load(): Promise<boolean> {
+		if (this.loaded) {
+			return this.exists
+		}
+
+		this.loaded = true
+		this.points.clear()
+		this.metadata = null
+
+		let indexFile: LocalIndexFile
+		let vectorsBuffer: Buffer
+		try {
+			indexFile = JSON.parse(await fs.readFile(this.indexFilePath, "utf8"))
+			vectorsBuffer = await fs.readFile(this.vectorsFilePath)
+		} catch (error: any) {
+			if (error?.code !== "ENOENT") {
+				console.warn(`[LocalVectorStore] Could not read collection at "${this.collectionDir}":`, error)
+			}
+			this.exists = false
+			return false
+		}
+
+		const expectedBytes = indexFile.ids.length * this.vectorSize * Float32Array.BYTES_PER_ELEMENT
+		const mismatch =
+			indexFile.version !== LOCAL_STORE_FORMAT_VERSION
+				? `has format version ${indexFile.version}, but expected ${LOCAL_STORE_FORMAT_VERSION}`
+				: indexFile.vectorSize !== this.vectorSize
+					? `has vector size ${indexFile.vectorSize}, but expected ${this.vectorSize}`
+					: vectorsBuffer.byteLength !== expectedBytes
+						? `has ${vectorsBuffer.byteLength} bytes of vectors, but expected ${expectedBytes}`
+						: undefined
+		if (mismatch) {
+			console.warn(`[LocalVectorStore] Collection at ${this.collectionDir} ${mismatch}. Recreating collection.`)
+			this.exists = false
+			return false
+		}
+
+		// Copy into an aligned buffer, the file buffer may not start on a 4-byte boundary
+		const allVectors = new Float32Array(indexFile.ids.length * this.vectorSize)
+		new Uint8Array(allVectors.buffer).set(vectorsBuffer)
+
+		indexFile.ids.forEach((id, index) => {
+			const vector = allVectors.subarray(index * this.vectorSize, (index + 1) * this.vectorSize)
+			this.points.set(id, { vector, norm: this.computeNorm(vector), payload: indexFile.payloads[index] })
+		})
+
+		this.metadata = indexFile.metadata
+		this.exists = true
+		return true
+	}
+
+	/**
+	 * Writes the in-memory collection to disk. Writes are serialized so that
+	 * concurrent callers never interleave partial files.
+	 */
+	private flush(): Promise<void> {
+		this._debouncedSave.cancel()
+		this.saveChain = this.saveChain.catch(() => {}).then(() => this._performSave())
+		return this.saveChain
+	}
+
+	private async _performSave(): Promise<void> {
+		if (!this.exists) {
+			return
+		}
+
+		const ids: string[] = []
+		const payloads: Record<string, any>[] = []
+		const allVectors = new Float32Array(this.points.size * this.vectorSize)
+
+		let index = 0
+		for (const [id, point] of this.points) {
+			ids.push(id)
+			payloads.push(point.payload)
+			allVectors.set(point.vector, index * this.vectorSize)
+			index++
+		}
+
+		await fs.mkdir(this.collectionDir, { recursive: true })
+
+		// Write vectors to a temp file first, then swap it in
+		const tempVectorsPath = `${this.vectorsFilePath}.tmp`
+		await fs.writeFile(
+			tempVectorsPath,
+			Buffer.from(allVectors.buffer, allVectors.byteOffset, allVectors.byteLength),
+		)
+		await fs.rename(tempVectorsPath, this.vectorsFilePath)
+
+		const indexFile: LocalIndexFile = {
+			version: LOCAL_STORE_FORMAT_VERSION,
+			vectorSize: this.vectorSize,
+			metadata: this.metadata,
+			ids,
+			payloads,
+		}
+		await safeWriteJson(this.indexFilePath, indexFile)
+	}
+
+	private computeNorm(vector: ArrayLike<number>): number {
+		let sum = 0
+		for (let i = 0; i < vector.length; i++) {
+			sum += vector[i] * vector[i]
+		}
+		return Math.sqrt(sum)
+	}
+
+	/**
+	 * Splits a (relative or absolute) file path into normalized workspace-relative segments
+	 */
+	private toRelativeSegments(filePath: string): string[] {
+		const relativePath = path.isAbsolute(filePath) ? path.relative(this.workspacePath, filePath) : filePath
+		return path.normalize(relativePath).split(/[\\/]/).filter(Boolean)
+	}
+
+	/**
+	 * Upserts points into the vector store
+	 * @param points Array of points to upsert
+	 */
+	async upsertPoints(points: PointStruct[]): Promise<void> {
+		await this.load()
+		this.exists = true
+
+		for (const point of points) {
+			if (point.vector.length !== this.vectorSize) {
+				throw new Error(
+					`[LocalVectorStore] Vector for point ${point.id} has dimension ${point.vector.length}, expected ${this.vectorSize}`,
+				)
+			}
+			const vector = Float32Array.from(point.vector)
+			this.points.set(point.id, { vector, norm: this.computeNorm(vector), payload: point.payload })
+		}
+
+		this._debouncedSave()
+		this.notifyChange({ type: "upsert", points })
+	}
+
+	/**
+	 * Checks if a payload is valid
+	 * @param payload Payload to check
+	 * @returns Boolean indicating if the payload is valid
+	 */
+	private isPayloadValid(payload: Record<string, unknown> | null | undefined): payload is Payload {
+		if (!payload) {
+			return false
+		}
+		const validKeys = ["filePath", "codeChunk", "startLine", "endLine"]
+		return validKeys.every((key) => key in payload)
+	}
+
+	/**
+	 * Searches for similar vectors
+	 * @param queryVector Vector to search for
+	 * @param directoryPrefix Optional directory prefix to filter results
+	 * @param minScore Optional minimum score threshold
+	 * @param maxResults Optional maximum number of results to return
+	 * @returns Promise resolving to search results
+	 */
+	async search(
+		queryVector: number[],
+		directoryPrefix?: string,
+		minScore?: number,
+		maxResults?: number,
+	): Promise<VectorStoreSearchResult[]> {
+		await this.load()
+
+		let prefixSegments: string[] = []
+		if (directoryPrefix) {
+			const normalizedPrefix = path.posix.normalize(directoryPrefix.replace(/\\/g, "/"))
+			// "." and "./" mean the whole workspace
+			if (normalizedPrefix !== "." && normalizedPrefix !== "./") {
+				const cleanedPrefix = path.posix.normalize(
+					normalizedPrefix.startsWith("./") ? normalizedPrefix.slice(2) : normalizedPrefix,
+				)
+				prefixSegments = cleanedPrefix.split("/").filter(Boolean)
+			}
+		}
+
+		const threshold = minScore ?? DEFAULT_SEARCH_MIN_SCORE
+		const limit = maxResults ?? DEFAULT_MAX_SEARCH_RESULTS
+		const queryNorm = this.computeNorm(queryVector)
+		if (queryNorm === 0) {
+			return []
+		}
+
+		const results: VectorStoreSearchResult[] = []
+		for (const [id, point] of this.points) {
+			if (!this.isPayloadValid(point.payload) || point.norm === 0) {
+				continue
+			}
+
+			if (prefixSegments.length > 0) {
+				const segments = this.toRelativeSegments(point.payload.filePath)
+				if (!prefixSegments.every((segment, index) => segments[index] === segment)) {
+					continue
+				}
+			}
+
+			let dot = 0
+			for (let i = 0; i < this.vectorSize; i++) {
+				dot += point.vector[i] * queryVector[i]
+			}
+			const score = dot / (point.norm * queryNorm)
+
+			if (score >= threshold) {
+				results.push({ id, score, payload: point.payload as Payload })
+			}
+		}
+
+		return results.sort((a, b) => b.score - a.score).slice(0, limit)
+	}
+
+	/**
+	 * Deletes points by file path
+	 * @param filePath Path of the file to delete points for
+	 */
+	async deletePointsByFilePath(filePath: string): Promise<void> {
+		return this.deletePointsByMultipleFilePaths([filePath])
+	}
+
+	async deletePointsByMultipleFilePaths(filePaths: string[]): Promise<void> {
+		if (filePaths.length === 0) {
+			return
+		}
+
+		await this.load()
+		if (!this.exists) {
+			console.warn(`[LocalVectorStore] Skipping deletion - collection at "${this.collectionDir}" does not exist`)
+			return
+		}
+
+		const targets = new Set(filePaths.map((filePath) => this.toRelativeSegments(filePath).join("/")))
+
+		let deleted = false
+		for (const [id, point] of this.points) {
+			const storedPath = point.payload?.filePath
+			if (typeof storedPath === "string" && targets.has(this.toRelativeSegments(storedPath).join("/"))) {
+				this.points.delete(id)
+				deleted = true
+			}
+		}
+
+		if (deleted) {
+			this._debouncedSave()
+			this.notifyChange({ type: "delete", filePaths: [...targets] })
+		}
+	}
+
+	/**
+	 * Writes the changes that are still waiting for the debounced save.
+	 */
+	async dispose(): Promise<void> {
+		this._debouncedSave.flush()
+		await this.saveChain.catch(() => {})
+	}
+
+	/**
+	 * Deletes the entire collection.
+	 */
+	async deleteCollection(): Promise<void> {
+		try {
+			this._debouncedSave.cancel()
+			await this.saveChain.catch(() => {})
+			await fs.rm(this.collectionDir, { recursive: true, force: true })
+			this.points.clear()
+			this.metadata = null
+			this.exists = false
+			this.loaded = true
+			this.notifyChange({ type: "clear" })
+		} catch (error) {
+			console.error(`[LocalVectorStore] Failed to delete collection at ${this.collectionDir}:`, error)
+			throw error
+		}
+	}
+
+	/**
+	 * Clears all points from the collection
+	 */
+	async clearCollection(): Promise<void> {
+		try {
+			await this.load()
+			this.points.clear()
+			this.metadata = null
+			await this.flush()
+			this.notifyChange({ type: "clear" })
+		} catch (error) {
+			console.error("[LocalVectorStore] Failed to clear collection:", error)
+			throw error
+		}
+	}
+
+	/**
+	 * Checks if the collection exists
+	 * @returns Promise resolving to boolean indicating if the collection exists
+	 */
+	async collectionExists(): Promise<boolean> {
+		return this.load()
+	}
+
+	/**
+	 * Checks if the collection exists and has indexed points
+	 * @returns Promise resolving to boolean indicating if the collection exists and has points
+	 */
+	async hasIndexedData(): Promise<boolean> {
+		try {
+			if (!(await this.load()) || this.points.size === 0) {
+				return false
+			}
+
+			// Without a marker (e.g. an interrupted first write) assume complete if there are points
+			return this.metadata ? this.metadata.indexing_complete === true : true
+		} catch (error) {
+			console.warn("[LocalVectorStore] Failed to check if collection has data:", error)
+			return false
+		}
+	}
+
+	/**
+	 * Marks the indexing process as complete by storing metadata
+	 * Should be called after a successful full workspace scan or incremental scan
+	 */
+	async markIndexingComplete(): Promise<void> {
+		try {
+			await this.load()
+			this.exists = true
+			this.metadata = { indexing_complete: true, completed_at: Date.now() }
+			await this.flush()
+			console.log("[LocalVectorStore] Marked indexing as complete")
+		} catch (error) {
+			console.error("[LocalVectorStore] Failed to mark indexing as complete:", error)
+			throw error
+		}
+	}
+
+	/**
+	 * Marks the indexing process as incomplete by storing metadata
+	 * Should be called at the start of indexing to indicate work in progress
+	 */
+	async markIndexingIncomplete(): Promise<void> {
+		try {
+			await this.load()
+			this.exists = true
+			this.metadata = { indexing_complete: false, started_at: Date.now() }
+			await this.flush()
+			console.log("[LocalVectorStore] Marked indexing as incomplete (in progress)")
+		} catch (error) {
+			console.error("[LocalVectorStore] Failed to mark indexing as incomplete:", error)
+			throw error
+		}
+	}
+
+	/**
+	 * Iterates over all stored points in batches, excluding indexing metadata.
+	 * @param batchSize Optional number of points to yield per batch
+	 */
+	async *scrollPoints(batchSize: number = 256): AsyncGenerator<PointStruct[]> {
+		await this.load()
+
+		let batch: PointStruct[] = []
+		for (const [id, point] of this.points) {
+			batch.push({ id, vector: Array.from(point.vector), payload: point.payload })
+			if (batch.length >= batchSize) {
+				yield batch
+				batch = []
+			}
+		}
+
+		if (batch.length > 0) {
+			yield batch
+		}
+	}
+
+	/**
+	 * Iterates over all stored points in batches, without copying their vectors.
+	 * @param batchSize Optional number of points to yield per batch
+	 */
+	async *scrollPayloads(batchSize: number = 256): AsyncGenerator<Omit<PointStruct, "vector">[]> {
+		await this.load()
+
+		let batch: Omit<PointStruct, "vector">[] = []
+		for (const [id, point] of this.points) {
+			batch.push({ id, payload: point.payload })
+			if (batch.length >= batchSize) {
+				yield batch
+				batch = []
+			}
+		}
+
+		if (batch.length > 0) {
+			yield batch
+		}
+	}
+
+	/**
+	 * Registers a listener for the changes made to the points through this instance
+	 * @param listener Called after each successful change
+	 * @returns Function that removes the listener
+	 */
+	onDidChangePoints(listener: (change: VectorStoreChange) => void): () => void {
+		this.changeListeners.add(listener)
+		return () => this.changeListeners.delete(listener)
+	}
+
+	private notifyChange(change: VectorStoreChange): void {
+		this.changeListeners.forEach((listener) => listener(change))
+	}
+}
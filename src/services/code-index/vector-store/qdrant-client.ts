@@ -2,8 +2,8 @@ import { QdrantClient, Schemas } from "@qdrant/js-client-rest"
 import { createHash } from "crypto"
 import * as path from "path"
 import { v5 as uuidv5 } from "uuid"
-import { IVectorStore } from "../interfaces/vector-store"
-import { Payload, VectorStoreSearchResult } from "../interfaces"
+import { IVectorStore, VectorStoreChange } from "../interfaces/vector-store"
+import { Payload, PointStruct, VectorStoreSearchResult } from "../interfaces"
 import { DEFAULT_MAX_SEARCH_RESULTS, DEFAULT_SEARCH_MIN_SCORE, QDRANT_CODE_BLOCK_NAMESPACE } from "../constants"
 import { t } from "../../../i18n"
 import { Package } from "../../../shared/package"
@@ -19,13 +19,21 @@ export class QdrantVectorStore implements IVectorStore {
 	private readonly collectionName: string
 	private readonly qdrantUrl: string = "http://localhost:6333"
 	private readonly workspacePath: string
+	private readonly changeListeners = new Set<(change: VectorStoreChange) => void>()
 
 	/**
 	 * Creates a new Qdrant vector store
 	 * @param workspacePath Path to the workspace
 	 * @param url Optional URL to the Qdrant server
+	 * @param snapshotKey Key of the index snapshot stored in the collection, defaults to the workspace path
 	 */
-	constructor(workspacePath: string, url: string, vectorSize: number, apiKey?: string) {
+	constructor(
+		workspacePath: string,
+		url: string,
+		vectorSize: number,
+		apiKey?: string,
+		snapshotKey: string = workspacePath,
+	) {
 		// Parse the URL to determine the appropriate QdrantClient configuration
 		const parsedUrl = this.parseQdrantUrl(url)
 
@@ -78,8 +86,8 @@ export class QdrantVectorStore implements IVectorStore {
 			})
 		}
 
-		// Generate collection name from workspace path
-		const hash = createHash("sha256").update(workspacePath).digest("hex")
+		// Generate collection name from the snapshot key
+		const hash = createHash("sha256").update(snapshotKey).digest("hex")
 		this.vectorSize = vectorSize
 		this.collectionName = `ws-${hash.substring(0, 16)}`
 	}
@@ -195,6 +203,9 @@ export class QdrantVectorStore implements IVectorStore {
 
 			// Create payload indexes
 			await this._createPayloadIndexes()
+			if (created) {
+				this.notifyChange({ type: "clear" })
+			}
 			return created
 		} catch (error: any) {
 			const errorMessage = error?.message || error
@@ -369,6 +380,7 @@ export class QdrantVectorStore implements IVectorStore {
 				points: processedPoints,
 				wait: true,
 			})
+			this.notifyChange({ type: "upsert", points })
 		} catch (error) {
 			console.error("Failed to upsert points:", error)
 			throw error
@@ -522,6 +534,12 @@ export class QdrantVectorStore implements IVectorStore {
 				filter,
 				wait: true,
 			})
+			this.notifyChange({
+				type: "delete",
+				filePaths: filePaths.map((filePath) =>
+					path.normalize(path.isAbsolute(filePath) ? path.relative(workspaceRoot, filePath) : filePath),
+				),
+			})
 		} catch (error: any) {
 			// Extract more detailed error information
 			const errorMessage = error?.message || String(error)
@@ -548,6 +566,7 @@ export class QdrantVectorStore implements IVectorStore {
 			// Check if collection exists before attempting deletion to avoid errors
 			if (await this.collectionExists()) {
 				await this.client.deleteCollection(this.collectionName)
+				this.notifyChange({ type: "clear" })
 			}
 		} catch (error) {
 			console.error(`[QdrantVectorStore] Failed to delete collection ${this.collectionName}:`, error)
@@ -566,6 +585,7 @@ export class QdrantVectorStore implements IVectorStore {
 				},
 				wait: true,
 			})
+			this.notifyChange({ type: "clear" })
 		} catch (error) {
 			console.error("Failed to clear collection:", error)
 			throw error
@@ -682,4 +702,78 @@ export class QdrantVectorStore implements IVectorStore {
 			throw error
 		}
 	}
+
+	/**
+	 * Iterates over all stored points in batches, excluding indexing metadata.
+	 * @param batchSize Optional number of points to yield per batch
+	 */
+	async *scrollPoints(batchSize: number = 256): AsyncGenerator<PointStruct[]> {
+		for await (const points of this.scroll(batchSize, true)) {
+			yield points as PointStruct[]
+		}
+	}
+
+	/**
+	 * Iterates over all stored points in batches, excluding indexing metadata, without fetching their vectors.
+	 * @param batchSize Optional number of points to yield per batch
+	 */
+	async *scrollPayloads(batchSize: number = 256): AsyncGenerator<Omit<PointStruct, "vector">[]> {
+		yield* this.scroll(batchSize, false)
+	}
+
+	/**
+	 * Registers a listener for the changes made to the points through this instance
+	 * @param listener Called after each successful change
+	 * @returns Function that removes the listener
+	 */
+	onDidChangePoints(listener: (change: VectorStoreChange) => void): () => void {
+		this.changeListeners.add(listener)
+		return () => this.changeListeners.delete(listener)
+	}
+
+	private notifyChange(change: VectorStoreChange): void {
+		this.changeListeners.forEach((listener) => listener(change))
+	}
+
+	private async *scroll(
+		batchSize: number,
+		withVector: boolean,
+	): AsyncGenerator<(Omit<PointStruct, "vector"> & { vector?: number[] })[]> {
+		if (!(await this.collectionExists())) {
+			return
+		}
+
+		let offset: Schemas["ExtendedPointId"] | undefined = undefined
+
+		do {
+			const result: Schemas["ScrollResult"] = await this.client.scroll(this.collectionName, {
+				filter: { must_not: [{ key: "type", match: { value: "metadata" } }] },
+				limit: batchSize,
+				offset,
+				with_payload: true,
+				with_vector: withVector,
+			})
+
+			const points: (Omit<PointStruct, "vector"> & { vector?: number[] })[] = []
+			for (const point of result.points) {
+				if ((withVector && !Array.isArray(point.vector)) || !this.isPayloadValid(point.payload)) {
+					continue
+				}
+				// pathSegments are derived from filePath on upsert, so they are not carried over
+				const { pathSegments: _pathSegments, ...payload } = point.payload
+				points.push(
+					withVector
+						? { id: String(point.id), vector: point.vector as number[], payload }
+						: { id: String(point.id), payload },
+				)
+			}
+
+			if (points.length > 0) {
+				yield points
+			}
+
+			const nextOffset = result.next_page_offset
+			offset = typeof nextOffset === "string" || typeof nextOffset === "number" ? nextOffset : undefined
+		} while (offset !== undefined)
+	}
 }
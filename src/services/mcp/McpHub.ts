@@ -6,13 +6,23 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js"
 import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js"
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js"
 import ReconnectingEventSource from "reconnecting-eventsource"
 import {
 	CallToolResultSchema,
+	CreateMessageRequestSchema,
+	ErrorCode,
+	GetPromptResultSchema,
+	ListPromptsResultSchema,
 	ListResourcesResultSchema,
 	ListResourceTemplatesResultSchema,
+	ListRootsRequestSchema,
 	ListToolsResultSchema,
+	McpError,
+	PromptListChangedNotificationSchema,
 	ReadResourceResultSchema,
+	type CreateMessageRequest,
+	type GetPromptResult,
 } from "@modelcontextprotocol/sdk/types.js"
 import chokidar, { FSWatcher } from "chokidar"
 import delay from "delay"
@@ -20,6 +30,7 @@ import deepEqual from "fast-deep-equal"
 import { z } from "zod"
 
 import type {
+	McpPrompt,
 	McpResource,
 	McpResourceResponse,
 	McpResourceTemplate,
@@ -40,6 +51,9 @@ import { injectVariables } from "../../utils/config"
 import { NotificationService } from "./costrict/NotificationService"
 import { safeWriteJson } from "../../utils/safeWriteJson"
 import { sanitizeMcpName } from "../../utils/mcp-name"
+import { getMcpPromptCommandName } from "../../shared/context-mentions"
+import { createSamplingMessage } from "./sampling"
+import { McpOAuthClientProvider, authorizeMcpServer, type McpOAuthConfig } from "./oauth"
 
 // Discriminated union for connection states
 export type ConnectedMcpConnection = {
@@ -58,6 +72,14 @@ export type DisconnectedMcpConnection = {
 
 export type McpConnection = ConnectedMcpConnection | DisconnectedMcpConnection
 
+// An MCP prompt offered as a slash command in the chat input
+export type McpPromptCommand = {
+	name: string
+	serverName: string
+	source: "global" | "project"
+	prompt: McpPrompt
+}
+
 // Enum for disable reasons
 export enum DisableReason {
 	MCP_DISABLED = "mcpDisabled",
@@ -73,6 +95,13 @@ const BaseConfigSchema = z.object({
 	disabledTools: z.array(z.string()).default([]),
 })
 
+// OAuth settings of remote servers, needed for authorization servers without dynamic client registration
+const OAuthConfigSchema = z.object({
+	clientId: z.string().optional(),
+	clientSecret: z.string().optional(),
+	scope: z.string().optional(),
+})
+
 // Custom error messages for better user feedback
 const typeErrorMessage = "Server type must be 'stdio', 'sse', or 'streamable-http'"
 const stdioFieldsErrorMessage =
@@ -99,6 +128,7 @@ const createServerTypeSchema = () => {
 			// Ensure no SSE fields are present
 			url: z.undefined().optional(),
 			headers: z.undefined().optional(),
+			oauth: z.undefined().optional(),
 		})
 			.transform((data) => ({
 				...data,
@@ -110,6 +140,7 @@ const createServerTypeSchema = () => {
 			type: z.enum(["sse"]).optional(),
 			url: z.string().url("URL must be a valid URL format"),
 			headers: z.record(z.string()).optional(),
+			oauth: OAuthConfigSchema.optional(),
 			// Ensure no stdio fields are present
 			command: z.undefined().optional(),
 			args: z.undefined().optional(),
@@ -125,6 +156,7 @@ const createServerTypeSchema = () => {
 			type: z.enum(["streamable-http"]).optional(),
 			url: z.string().url("URL must be a valid URL format"),
 			headers: z.record(z.string()).optional(),
+			oauth: OAuthConfigSchema.optional(),
 			// Ensure no stdio fields are present
 			command: z.undefined().optional(),
 			args: z.undefined().optional(),
@@ -282,6 +314,7 @@ export class McpHub {
 			vscode.workspace.onDidChangeWorkspaceFolders(async () => {
 				await this.updateProjectMcpServers()
 				await this.watchProjectMcpFile()
+				await this.notifyRootsChanged()
 			}),
 		)
 	}
@@ -682,10 +715,18 @@ export class McpHub {
 					version: this.providerRef.deref()?.context.extension?.packageJSON?.version ?? "1.0.0",
 				},
 				{
-					capabilities: {},
+					capabilities: {
+						sampling: {},
+						roots: { listChanged: true },
+					},
 				},
 			)
 
+			client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots: this.getWorkspaceRoots() }))
+			client.setRequestHandler(CreateMessageRequestSchema, async (request) =>
+				this.handleSamplingRequest(name, request.params),
+			)
+
 			let transport: StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport
 
 			// Inject variables to the config (environment, magic variables,...)
@@ -694,6 +735,9 @@ export class McpHub {
 				workspaceFolder: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? "",
 			})) as typeof config
 
+			// Remote servers use stored OAuth tokens and refresh them when they expire
+			const authProvider = configInjected.type === "stdio" ? undefined : this.createOAuthProvider(configInjected)
+
 			if (configInjected.type === "stdio") {
 				// On Windows, wrap commands with cmd.exe to handle non-exe executables like npx.ps1
 				// This is necessary for node version managers (fnm, nvm-windows, volta) that implement
@@ -772,6 +816,7 @@ export class McpHub {
 			} else if (configInjected.type === "streamable-http") {
 				// Streamable HTTP connection
 				transport = new StreamableHTTPClientTransport(new URL(configInjected.url), {
+					authProvider,
 					requestInit: {
 						headers: configInjected.headers,
 					},
@@ -817,6 +862,7 @@ export class McpHub {
 				global.EventSource = ReconnectingEventSource
 				transport = new SSEClientTransport(new URL(configInjected.url), {
 					...sseOptions,
+					authProvider,
 					eventSourceInit: reconnectingEventSourceOptions,
 				})
 
@@ -869,9 +915,14 @@ export class McpHub {
 			await client.connect(transport)
 			connection.server.status = "connected"
 			connection.server.error = ""
+			connection.server.oauth = (await authProvider?.tokens()) ? "authorized" : undefined
 			connection.server.instructions = client.getInstructions()
 
 			this.costrictNotificationService.connect(name, connection.client)
+			client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+				connection.server.prompts = await this.fetchPromptsList(name, source)
+				await this.notifyWebviewOfServerChanges()
+			})
 
 			// Initial fetch of tools and resources
 			await this.fetchAvailableServerCapabilities(name, source)
@@ -881,6 +932,10 @@ export class McpHub {
 			if (connection) {
 				connection.server.status = "disconnected"
 				this.appendErrorMessage(connection, error instanceof Error ? error.message : `${error}`)
+
+				if (error instanceof UnauthorizedError) {
+					connection.server.oauth = "required"
+				}
 			}
 			throw error
 		}
@@ -951,7 +1006,7 @@ export class McpHub {
 			return
 		}
 
-		const { tools, resources } = connection.client.getServerCapabilities() ?? {}
+		const { tools, resources, prompts } = connection.client.getServerCapabilities() ?? {}
 
 		if (tools) {
 			connection.server.tools = await this.fetchToolsList(serverName, source)
@@ -960,6 +1015,9 @@ export class McpHub {
 			connection.server.resources = await this.fetchResourcesList(serverName, source)
 			connection.server.resourceTemplates = await this.fetchResourceTemplatesList(serverName, source)
 		}
+		if (prompts) {
+			connection.server.prompts = await this.fetchPromptsList(serverName, source)
+		}
 	}
 
 	/**
@@ -1086,6 +1144,58 @@ export class McpHub {
 		}
 	}
 
+	private async fetchPromptsList(serverName: string, source?: "global" | "project"): Promise<McpPrompt[]> {
+		try {
+			const connection = this.findConnection(serverName, source)
+			if (!connection || connection.type !== "connected") {
+				return []
+			}
+
+			// Only proceed if the server defined the prompts capability.
+			if (!connection.client.getServerCapabilities()?.prompts) {
+				return []
+			}
+
+			const response = await connection.client.request({ method: "prompts/list" }, ListPromptsResultSchema)
+			return (response?.prompts || []).map(({ name, title, description, arguments: args }) => ({
+				name,
+				title,
+				description,
+				arguments: args,
+			}))
+		} catch (error) {
+			console.error(`Failed to fetch prompts for ${serverName}:`, error)
+			return []
+		}
+	}
+
+	/**
+	 * Lists the prompts of all connected servers as slash commands. When a project and a global
+	 * server offer a command with the same name, the project server wins.
+	 */
+	public getPromptCommands(): McpPromptCommand[] {
+		const commands = new Map<string, McpPromptCommand>()
+		const connections = [...this.connections].sort(
+			(a, b) => Number(b.server.source === "project") - Number(a.server.source === "project"),
+		)
+
+		for (const { server } of connections) {
+			if (server.status !== "connected" || server.disabled) {
+				continue
+			}
+
+			for (const prompt of server.prompts ?? []) {
+				const name = getMcpPromptCommandName(server.name, prompt.name)
+
+				if (!commands.has(name)) {
+					commands.set(name, { name, serverName: server.name, source: server.source ?? "global", prompt })
+				}
+			}
+		}
+
+		return [...commands.values()]
+	}
+
 	async deleteConnection(name: string, source?: "global" | "project"): Promise<void> {
 		// Clean up file watchers for this server
 		this.removeFileWatchersForServer(name)
@@ -1308,6 +1418,87 @@ export class McpHub {
 		this.isConnecting = false
 	}
 
+	/**
+	 * Creates the OAuth client of a remote server. Servers with a static `Authorization`
+	 * header don't use OAuth.
+	 */
+	private createOAuthProvider(
+		config: { url: string; headers?: Record<string, string>; oauth?: McpOAuthConfig },
+		onRedirect?: (authorizationUrl: URL) => Promise<void>,
+	): McpOAuthClientProvider | undefined {
+		const secrets = this.providerRef.deref()?.context.secrets
+		const hasAuthorizationHeader = Object.keys(config.headers ?? {}).some(
+			(header) => header.toLowerCase() === "authorization",
+		)
+
+		if (!secrets || hasAuthorizationHeader) {
+			return undefined
+		}
+
+		return new McpOAuthClientProvider(secrets, config.url, config.oauth, onRedirect)
+	}
+
+	/**
+	 * Runs the OAuth authorization of a remote server in the browser and reconnects the server
+	 * with the new tokens.
+	 */
+	async authorizeServer(serverName: string, source?: "global" | "project"): Promise<void> {
+		const connection = this.findConnection(serverName, source)
+
+		if (!connection) {
+			throw new Error(`Server ${serverName}${source ? ` with source ${source}` : ""} not found`)
+		}
+
+		const config = JSON.parse(connection.server.config)
+		const authProvider = config.url
+			? this.createOAuthProvider(config, async (authorizationUrl) => {
+					await vscode.env.openExternal(vscode.Uri.parse(authorizationUrl.toString()))
+				})
+			: undefined
+
+		if (!authProvider) {
+			vscode.window.showErrorMessage(t("mcp:errors.oauth_not_supported", { serverName }))
+			return
+		}
+
+		connection.server.oauth = "authorizing"
+		await this.notifyWebviewOfServerChanges()
+
+		try {
+			await authorizeMcpServer(authProvider, config.url)
+			vscode.window.showInformationMessage(t("mcp:info.server_authorized", { serverName }))
+		} catch (error) {
+			connection.server.oauth = "required"
+			this.appendErrorMessage(connection, error instanceof Error ? error.message : `${error}`)
+			vscode.window.showErrorMessage(
+				t("mcp:errors.oauth_failed", {
+					serverName,
+					error: error instanceof Error ? error.message : `${error}`,
+				}),
+			)
+			await this.notifyWebviewOfServerChanges()
+			return
+		}
+
+		await this.restartConnection(serverName, connection.server.source)
+	}
+
+	/**
+	 * Deletes the stored OAuth tokens and client registration of a remote server.
+	 */
+	async signOutServer(serverName: string, source?: "global" | "project"): Promise<void> {
+		const connection = this.findConnection(serverName, source)
+		const config = connection ? JSON.parse(connection.server.config) : undefined
+		const authProvider = config?.url ? this.createOAuthProvider(config) : undefined
+
+		if (!connection || !authProvider) {
+			return
+		}
+
+		await authProvider.invalidateCredentials("all")
+		await this.restartConnection(serverName, connection.server.source)
+	}
+
 	public async refreshAllConnections(): Promise<void> {
 		if (this.isConnecting) {
 			return
@@ -1743,6 +1934,64 @@ export class McpHub {
 		)
 	}
 
+	async getPrompt(
+		serverName: string,
+		promptName: string,
+		promptArguments?: Record<string, string>,
+		source?: "global" | "project",
+	): Promise<GetPromptResult> {
+		const connection = this.findConnection(serverName, source)
+		if (!connection || connection.type !== "connected") {
+			throw new Error(`No connection found for server: ${serverName}${source ? ` with source ${source}` : ""}`)
+		}
+		if (connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+		return await connection.client.request(
+			{
+				method: "prompts/get",
+				params: {
+					name: promptName,
+					arguments: promptArguments,
+				},
+			},
+			GetPromptResultSchema,
+		)
+	}
+
+	/**
+	 * Answers a `sampling/createMessage` request of a server with the model of the current task.
+	 */
+	private async handleSamplingRequest(serverName: string, params: CreateMessageRequest["params"]) {
+		const task = this.providerRef.deref()?.getCurrentTask()
+
+		if (!task) {
+			throw new McpError(ErrorCode.InvalidRequest, "There is no active task to handle the sampling request")
+		}
+
+		return createSamplingMessage(task, serverName, params)
+	}
+
+	/**
+	 * The workspace folders, exposed to servers as roots.
+	 */
+	private getWorkspaceRoots() {
+		return (vscode.workspace.workspaceFolders ?? []).map((folder) => ({
+			uri: folder.uri.toString(),
+			name: folder.name,
+		}))
+	}
+
+	private async notifyRootsChanged(): Promise<void> {
+		for (const connection of this.connections) {
+			if (connection.type === "connected" && connection.server.status === "connected") {
+				await connection.client.sendRootsListChanged().catch((error) => {
+					console.error(`Failed to notify ${connection.server.name} of changed roots:`, error)
+				})
+			}
+		}
+	}
+
 	async callTool(
 		serverName: string,
 		toolName: string,
@@ -220,6 +220,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}
 
 			Client.mockImplementation(() => mockClient)
@@ -389,6 +391,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}
 
 			Client.mockImplementation(() => mockClient)
@@ -463,6 +467,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}
 
 			Client.mockImplementation(() => mockClient)
@@ -674,6 +680,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}
 
 			Client.mockImplementation(() => mockClient)
@@ -747,6 +755,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}
 
 			Client.mockImplementation(() => mockClient)
@@ -1292,6 +1302,97 @@ describe("McpHub", () => {
 		})
 	})
 
+	describe("prompts", () => {
+		const promptConnection = (
+			name: string,
+			source: "global" | "project",
+			prompts: { name: string }[],
+			request = vi.fn(),
+		): ConnectedMcpConnection => ({
+			type: "connected",
+			server: { name, config: "{}", status: "connected", source, prompts },
+			client: { request } as any,
+			transport: {} as any,
+		})
+
+		it("should list prompts as slash commands with project servers taking priority", () => {
+			mcpHub.connections = [
+				promptConnection("github", "global", [{ name: "review pr" }, { name: "summarize" }]),
+				promptConnection("github", "project", [{ name: "review pr" }]),
+				{
+					...promptConnection("disabled", "global", [{ name: "hidden" }]),
+					server: { name: "disabled", config: "{}", status: "connected", disabled: true, prompts: [] },
+				},
+			]
+
+			expect(mcpHub.getPromptCommands()).toEqual([
+				{
+					name: "mcp.github.review_pr",
+					serverName: "github",
+					source: "project",
+					prompt: { name: "review pr" },
+				},
+				{ name: "mcp.github.summarize", serverName: "github", source: "global", prompt: { name: "summarize" } },
+			])
+		})
+
+		it("should get a prompt with its arguments", async () => {
+			const request = vi.fn().mockResolvedValue({ messages: [] })
+			mcpHub.connections = [promptConnection("github", "global", [{ name: "review" }], request)]
+
+			await mcpHub.getPrompt("github", "review", { pr: "42" })
+
+			expect(request).toHaveBeenCalledWith(
+				{ method: "prompts/get", params: { name: "review", arguments: { pr: "42" } } },
+				expect.any(Object),
+			)
+		})
+
+		it("should throw error if server not found", async () => {
+			await expect(mcpHub.getPrompt("non-existent-server", "review")).rejects.toThrow(
+				"No connection found for server: non-existent-server",
+			)
+		})
+	})
+
+	describe("OAuth", () => {
+		it("should not authorize servers that don't use OAuth", async () => {
+			const vscode = await import("vscode")
+			mcpHub.connections = [
+				{
+					type: "connected",
+					server: {
+						name: "local",
+						config: JSON.stringify({ type: "stdio", command: "node" }),
+						status: "connected",
+					},
+					client: {} as any,
+					transport: {} as any,
+				},
+				{
+					type: "connected",
+					server: {
+						name: "static-token",
+						config: JSON.stringify({
+							type: "streamable-http",
+							url: "https://example.com/mcp",
+							headers: { authorization: "Bearer token" },
+						}),
+						status: "connected",
+					},
+					client: {} as any,
+					transport: {} as any,
+				},
+			]
+
+			await mcpHub.authorizeServer("local")
+			await mcpHub.authorizeServer("static-token")
+
+			expect(vscode.window.showErrorMessage).toHaveBeenCalledTimes(2)
+			expect(mcpHub.connections.every(({ server }) => server.oauth === undefined)).toBe(true)
+		})
+	})
+
 	describe("callTool", () => {
 		it("should execute tool successfully", async () => {
 			// Mock the connection with a minimal client implementation
@@ -1639,6 +1740,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}
 
 			Client.mockImplementation(() => mockClient)
@@ -1760,6 +1863,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}))
 
 			// Mock provider with mcpEnabled: true
@@ -1948,6 +2053,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}))
 
 			// Create a new McpHub instance
@@ -2011,6 +2118,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}))
 
 			// Create a new McpHub instance
@@ -2074,6 +2183,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}))
 
 			// Create a new McpHub instance
@@ -2144,6 +2255,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}))
 
 			// Create a new McpHub instance
@@ -2218,6 +2331,8 @@ describe("McpHub", () => {
 				getInstructions: vi.fn().mockReturnValue("test instructions"),
 				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
 				getServerCapabilities: vi.fn().mockResolvedValue({ tools: {} }),
+				setRequestHandler: vi.fn(),
+				setNotificationHandler: vi.fn(),
 			}))
 
 			// Create a new McpHub instance
@@ -0,0 +1,194 @@
+// npx vitest run services/mcp/__tests__/oauth.spec.ts
+
+import * as crypto from "crypto"
+import * as http from "http"
+import type { AddressInfo } from "net"
+import type * as vscode from "vscode"
+import { auth } from "@modelcontextprotocol/sdk/client/auth.js"
+
+import { allowNetConnect } from "../../../vitest.setup"
+import { McpOAuthClientProvider, authorizeMcpServer } from "../oauth"
+
+/**
+ * A stand-in authorization server with metadata discovery, dynamic client registration,
+ * an authorization endpoint that approves right away and a PKCE-checking token endpoint.
+ */
+function createAuthorizationServer() {
+	const challenges = new Map<string, string>()
+	let issued = 0
+
+	const server = http.createServer(async (req, res) => {
+		const url = new URL(req.url!, `http://${req.headers.host}`)
+		const body = await new Promise<string>((resolve) => {
+			let data = ""
+			req.on("data", (chunk) => (data += chunk))
+			req.on("end", () => resolve(data))
+		})
+		const json = (status: number, payload: object) => {
+			res.writeHead(status, { "Content-Type": "application/json" })
+			res.end(JSON.stringify(payload))
+		}
+
+		if (url.pathname === "/.well-known/oauth-authorization-server") {
+			const issuer = `http://${req.headers.host}`
+			return json(200, {
+				issuer,
+				authorization_endpoint: `${issuer}/authorize`,
+				token_endpoint: `${issuer}/token`,
+				registration_endpoint: `${issuer}/register`,
+				response_types_supported: ["code"],
+				code_challenge_methods_supported: ["S256"],
+			})
+		} else if (url.pathname === "/register") {
+			return json(201, { ...JSON.parse(body), client_id: "registered-client" })
+		} else if (url.pathname === "/authorize") {
+			const code = `code-${challenges.size + 1}`
+			challenges.set(code, url.searchParams.get("code_challenge")!)
+			const redirect = new URL(url.searchParams.get("redirect_uri")!)
+			redirect.searchParams.set("code", code)
+			redirect.searchParams.set("state", url.searchParams.get("state")!)
+			res.writeHead(302, { Location: redirect.toString() })
+			return res.end()
+		} else if (url.pathname === "/token") {
+			const params = new URLSearchParams(body)
+			const verifier = params.get("code_verifier") ?? ""
+			const challenge = crypto.createHash("sha256").update(verifier).digest("base64url")
+
+			if (
+				params.get("grant_type") === "authorization_code" &&
+				challenges.get(params.get("code")!) !== challenge
+			) {
+				return json(400, { error: "invalid_grant" })
+			}
+
+			issued++
+			return json(200, {
+				access_token: `access-${issued}`,
+				refresh_token: `refresh-${issued}`,
+				token_type: "Bearer",
+				expires_in: 3600,
+			})
+		}
+
+		json(404, { error: "not_found" })
+	})
+
+	return server
+}
+
+function createSecretStorage() {
+	const values = new Map<string, string>()
+
+	return {
+		values,
+		get: async (key: string) => values.get(key),
+		store: async (key: string, value: string) => void values.set(key, value),
+		delete: async (key: string) => void values.delete(key),
+	} as unknown as vscode.SecretStorage & { values: Map<string, string> }
+}
+
+// Follows the authorization redirect the way a browser would.
+const approveInBrowser = async (authorizationUrl: URL) => {
+	const response = await fetch(authorizationUrl, { redirect: "manual" })
+	await fetch(response.headers.get("location")!)
+}
+
+describe("McpOAuthClientProvider", () => {
+	let server: http.Server
+	let serverUrl: string
+
+	beforeAll(async () => {
+		allowNetConnect("127.0.0.1")
+		server = createAuthorizationServer()
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+		serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`
+	})
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve))
+	})
+
+	it("registers a client and runs the authorization code flow with PKCE", async () => {
+		const secrets = createSecretStorage()
+		const onRedirect = vi.fn(approveInBrowser)
+		const provider = new McpOAuthClientProvider(secrets, serverUrl, {}, onRedirect)
+
+		await authorizeMcpServer(provider, serverUrl)
+
+		expect(onRedirect).toHaveBeenCalledTimes(1)
+		expect(await provider.tokens()).toMatchObject({ access_token: "access-1", refresh_token: "refresh-1" })
+
+		const stored = JSON.parse(secrets.values.get(`mcp-oauth:${serverUrl}`)!)
+		expect(stored.clientInformation.client_id).toBe("registered-client")
+		expect(stored.clientInformation.redirect_uris).toEqual([`http://127.0.0.1:${stored.redirectPort}/callback`])
+		expect(stored.codeVerifier).toBeUndefined()
+	})
+
+	it("refreshes stored tokens without opening the browser", async () => {
+		const secrets = createSecretStorage()
+		const authorized = new McpOAuthClientProvider(secrets, serverUrl, {}, approveInBrowser)
+		await authorizeMcpServer(authorized, serverUrl)
+		const { access_token } = (await authorized.tokens())!
+
+		const onRedirect = vi.fn()
+		const provider = new McpOAuthClientProvider(secrets, serverUrl, {}, onRedirect)
+		await authorizeMcpServer(provider, serverUrl)
+
+		expect(onRedirect).not.toHaveBeenCalled()
+		expect((await provider.tokens())?.access_token).not.toBe(access_token)
+	})
+
+	it("uses a configured client instead of registering one", async () => {
+		const provider = new McpOAuthClientProvider(createSecretStorage(), serverUrl, {
+			clientId: "configured-client",
+			clientSecret: "secret",
+		})
+
+		expect(await provider.clientInformation()).toEqual({ client_id: "configured-client", client_secret: "secret" })
+		expect(provider.clientMetadata.token_endpoint_auth_method).toBe("client_secret_post")
+	})
+
+	it("rejects a redirect with a different state", async () => {
+		const provider = new McpOAuthClientProvider(createSecretStorage(), serverUrl)
+		provider.state()
+		const callback = await provider.listenForAuthorizationCode()
+
+		await fetch(`${provider.redirectUrl}?code=code&state=forged`)
+
+		await expect(callback.code).rejects.toThrow("The authorization response is invalid")
+	})
+
+	it("forgets everything but the redirect port when the credentials are invalidated", async () => {
+		const secrets = createSecretStorage()
+		const provider = new McpOAuthClientProvider(secrets, serverUrl)
+		await provider.saveTokens({ access_token: "token", token_type: "Bearer" })
+		const { redirectPort } = JSON.parse(secrets.values.get(`mcp-oauth:${serverUrl}`)!)
+
+		await provider.invalidateCredentials("all")
+
+		expect(JSON.parse(secrets.values.get(`mcp-oauth:${serverUrl}`)!)).toEqual({ redirectPort })
+		expect(await provider.tokens()).toBeUndefined()
+	})
+
+	it("registers again on the port of the running authorization after the credentials are invalidated", async () => {
+		const secrets = createSecretStorage()
+		const provider = new McpOAuthClientProvider(secrets, serverUrl, {}, approveInBrowser)
+		await authorizeMcpServer(provider, serverUrl)
+		const { redirectPort } = JSON.parse(secrets.values.get(`mcp-oauth:${serverUrl}`)!)
+
+		// The SDK invalidates all credentials and starts over after an InvalidClientError.
+		const callback = await provider.listenForAuthorizationCode()
+		try {
+			await provider.invalidateCredentials("all")
+			expect(await auth(provider, { serverUrl })).toBe("REDIRECT")
+			await auth(provider, { serverUrl, authorizationCode: await callback.code })
+		} finally {
+			callback.close()
+		}
+
+		const stored = JSON.parse(secrets.values.get(`mcp-oauth:${serverUrl}`)!)
+		expect(stored.redirectPort).toBe(redirectPort)
+		expect(stored.clientInformation.redirect_uris).toEqual([`http://127.0.0.1:${redirectPort}/callback`])
+		expect(stored.tokens.access_token).toBeDefined()
+	})
+})
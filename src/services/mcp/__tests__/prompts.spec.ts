@@ -0,0 +1,59 @@
+// npx vitest run services/mcp/__tests__/prompts.spec.ts
+
+import type { McpPrompt } from "@roo-code/types"
+
+import { formatMcpPromptMessages, parseMcpPromptArguments } from "../prompts"
+
+const prompt: McpPrompt = {
+	name: "review",
+	arguments: [
+		{ name: "pr", required: true },
+		{ name: "focus", description: "What to focus on" },
+	],
+}
+
+describe("parseMcpPromptArguments", () => {
+	it("fills the arguments in order and gives the rest of the text to the last one", () => {
+		expect(parseMcpPromptArguments(prompt, "42 error handling and tests")).toEqual({
+			pr: "42",
+			focus: "error handling and tests",
+		})
+	})
+
+	it("sets arguments by name", () => {
+		expect(parseMcpPromptArguments(prompt, "focus=naming 42")).toEqual({ pr: "42", focus: "naming" })
+	})
+
+	it("keeps unknown name=value words as positional text", () => {
+		expect(parseMcpPromptArguments(prompt, "42 a=b")).toEqual({ pr: "42", focus: "a=b" })
+	})
+
+	it("throws when a required argument is missing", () => {
+		expect(() => parseMcpPromptArguments(prompt, "  ")).toThrow(
+			"Missing required arguments for prompt 'review': pr",
+		)
+	})
+})
+
+describe("formatMcpPromptMessages", () => {
+	it("renders the description and the messages with their roles", () => {
+		expect(
+			formatMcpPromptMessages({
+				description: "Review a pull request",
+				messages: [
+					{ role: "user", content: { type: "text", text: "Review PR 42" } },
+					{
+						role: "user",
+						content: { type: "resource", resource: { uri: "file:///a.ts", text: "const a = 1" } },
+					},
+					{ role: "assistant", content: { type: "image", data: "", mimeType: "image/png" } },
+				],
+			}),
+		).toBe(
+			"Description: Review a pull request\n\n" +
+				"user: Review PR 42\n\n" +
+				'user: <resource uri="file:///a.ts">\nconst a = 1\n</resource>\n\n' +
+				"assistant: [image content omitted]",
+		)
+	})
+})
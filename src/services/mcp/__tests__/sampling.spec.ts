@@ -0,0 +1,129 @@
+// npx vitest run services/mcp/__tests__/sampling.spec.ts
+
+import * as vscode from "vscode"
+
+import type { Task } from "../../../core/task/Task"
+import { buildApiHandler } from "../../../api"
+import { createSamplingMessage } from "../sampling"
+
+vi.mock("vscode", () => ({
+	window: { showInformationMessage: vi.fn() },
+}))
+
+vi.mock("../../../api", () => ({
+	buildApiHandler: vi.fn(),
+}))
+
+vi.mock("../../../i18n", () => ({
+	t: (key: string) => key,
+}))
+
+vi.mock("../../../utils/tiktoken", () => ({
+	tiktoken: async ([block]: { text: string }[]) => block.text.split(" ").filter(Boolean).length,
+}))
+
+const createApi = (chunks: { type: string; [key: string]: unknown }[]) => {
+	const stream = {
+		returned: false,
+		async *[Symbol.asyncIterator]() {
+			try {
+				yield* chunks
+			} finally {
+				stream.returned = true
+			}
+		},
+	}
+
+	return {
+		stream,
+		getModel: () => ({ id: "model", info: { contextWindow: 1000, supportsPromptCache: false } }),
+		createMessage: vi.fn(() => stream[Symbol.asyncIterator]()),
+		countTokens: vi.fn().mockResolvedValue(12),
+	}
+}
+
+const createTask = (api: ReturnType<typeof createApi>) =>
+	({
+		taskId: "task",
+		abort: false,
+		api,
+		apiConfiguration: { apiProvider: "anthropic", apiModelId: "model", modelTemperature: 0.5 },
+		say: vi.fn(),
+	}) as unknown as Task
+
+const messages = [{ role: "user" as const, content: { type: "text" as const, text: "Write a haiku" } }]
+
+describe("createSamplingMessage", () => {
+	beforeEach(() => {
+		vi.mocked(vscode.window.showInformationMessage).mockResolvedValue("mcp:sampling.allow" as any)
+	})
+
+	it("answers with the API handler of the task and records the usage", async () => {
+		const api = createApi([
+			{ type: "text", text: "Hello " },
+			{ type: "text", text: "world" },
+			{ type: "usage", inputTokens: 10, outputTokens: 2, totalCost: 0.01 },
+		])
+		const task = createTask(api)
+
+		expect(await createSamplingMessage(task, "server", { messages, maxTokens: 0 })).toEqual({
+			role: "assistant",
+			model: "model",
+			stopReason: "endTurn",
+			content: { type: "text", text: "Hello world" },
+		})
+		expect(buildApiHandler).not.toHaveBeenCalled()
+		expect(JSON.parse(vi.mocked(task.say).mock.calls[0][1]!)).toMatchObject({ tokensOut: 2, cost: 0.01 })
+	})
+
+	it("passes the temperature and the token limit to the provider", async () => {
+		const api = createApi([{ type: "text", text: "Hi" }])
+		vi.mocked(buildApiHandler).mockReturnValue(api as any)
+
+		await createSamplingMessage(createTask(createApi([])), "server", { messages, maxTokens: 50, temperature: 0 })
+
+		expect(buildApiHandler).toHaveBeenCalledWith({
+			apiProvider: "anthropic",
+			apiModelId: "model",
+			modelTemperature: 0,
+			modelMaxTokens: 50,
+			includeMaxTokens: true,
+		})
+		expect(api.createMessage).toHaveBeenCalled()
+	})
+
+	it("stops the stream at the token limit and estimates the usage", async () => {
+		const api = createApi([
+			{ type: "text", text: "one two " },
+			{ type: "text", text: "three four " },
+			{ type: "text", text: "five six" },
+			{ type: "usage", inputTokens: 10, outputTokens: 6 },
+		])
+		vi.mocked(buildApiHandler).mockReturnValue(api as any)
+		const task = createTask(api)
+
+		const result = await createSamplingMessage(task, "server", { messages, maxTokens: 3 })
+
+		expect(result).toMatchObject({ stopReason: "maxTokens", content: { text: "one two three four " } })
+		expect(api.stream.returned).toBe(true)
+		expect(JSON.parse(vi.mocked(task.say).mock.calls[0][1]!)).toMatchObject({ tokensIn: 12, tokensOut: 4 })
+	})
+
+	it("stops the stream at the first stop sequence", async () => {
+		const api = createApi([
+			{ type: "text", text: "line one\nEN" },
+			{ type: "text", text: "D line two" },
+			{ type: "text", text: "line three" },
+		])
+		const task = createTask(api)
+
+		const result = await createSamplingMessage(task, "server", {
+			messages,
+			maxTokens: 0,
+			stopSequences: ["two", "END"],
+		})
+
+		expect(result).toMatchObject({ stopReason: "stopSequence", content: { text: "line one\n" } })
+		expect(api.stream.returned).toBe(true)
+	})
+})
@@ -0,0 +1,278 @@
+import * as crypto from "crypto"
+import * as http from "http"
+import * as net from "net"
+import type * as vscode from "vscode"
+import { auth, type OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js"
+import type {
+	OAuthClientInformationMixed,
+	OAuthClientMetadata,
+	OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js"
+
+const MCP_OAUTH_SECRET_PREFIX = "mcp-oauth:"
+const CALLBACK_PATH = "/callback"
+const CALLBACK_TIMEOUT_MS = 5 * 60 * 1000
+
+/**
+ * The optional `oauth` settings of a remote MCP server. Servers without a `clientId` are
+ * registered dynamically.
+ */
+export type McpOAuthConfig = {
+	clientId?: string
+	clientSecret?: string
+	scope?: string
+}
+
+type McpOAuthData = {
+	redirectPort?: number
+	clientInformation?: OAuthClientInformationMixed
+	tokens?: OAuthTokens
+	codeVerifier?: string
+}
+
+/**
+ * Keeps the OAuth client registration, the PKCE verifier and the tokens of a remote MCP server
+ * in the secret storage, keyed by the server URL. The MCP SDK uses it for discovery, dynamic
+ * client registration, the authorization code flow and token refresh.
+ *
+ * Without `onRedirect` the provider only uses and refreshes stored tokens, so connecting to a
+ * server never opens a browser; a server that needs a new authorization fails with an
+ * `UnauthorizedError` instead.
+ */
+export class McpOAuthClientProvider implements OAuthClientProvider {
+	private data?: McpOAuthData
+	private loading?: Promise<McpOAuthData>
+	private pendingState?: string
+
+	constructor(
+		private readonly secrets: vscode.SecretStorage,
+		private readonly serverUrl: string,
+		private readonly config: McpOAuthConfig = {},
+		private readonly onRedirect?: (authorizationUrl: URL) => void | Promise<void>,
+	) {}
+
+	get redirectUrl(): string {
+		return `http://127.0.0.1:${this.data?.redirectPort ?? 0}${CALLBACK_PATH}`
+	}
+
+	get clientMetadata(): OAuthClientMetadata {
+		return {
+			client_name: "CoStrict",
+			redirect_uris: [this.redirectUrl],
+			grant_types: ["authorization_code", "refresh_token"],
+			response_types: ["code"],
+			token_endpoint_auth_method: this.config.clientSecret ? "client_secret_post" : "none",
+			scope: this.config.scope,
+		}
+	}
+
+	state(): string {
+		this.pendingState = crypto.randomBytes(16).toString("hex")
+		return this.pendingState
+	}
+
+	async clientInformation(): Promise<OAuthClientInformationMixed | undefined> {
+		const data = await this.load()
+
+		if (this.config.clientId) {
+			return { client_id: this.config.clientId, client_secret: this.config.clientSecret }
+		}
+
+		return data.clientInformation
+	}
+
+	async saveClientInformation(clientInformation: OAuthClientInformationMixed): Promise<void> {
+		await this.update({ clientInformation })
+	}
+
+	async tokens(): Promise<OAuthTokens | undefined> {
+		return (await this.load()).tokens
+	}
+
+	async saveTokens(tokens: OAuthTokens): Promise<void> {
+		await this.update({ tokens, codeVerifier: undefined })
+	}
+
+	async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+		await this.onRedirect?.(authorizationUrl)
+	}
+
+	async saveCodeVerifier(codeVerifier: string): Promise<void> {
+		await this.update({ codeVerifier })
+	}
+
+	async codeVerifier(): Promise<string> {
+		const { codeVerifier } = await this.load()
+
+		if (!codeVerifier) {
+			throw new Error("No PKCE code verifier saved for the authorization")
+		}
+
+		return codeVerifier
+	}
+
+	async invalidateCredentials(scope: "all" | "client" | "tokens" | "verifier"): Promise<void> {
+		switch (scope) {
+			case "all": {
+				// The redirect port stays, the loopback server of a running authorization listens on it.
+				const { redirectPort } = await this.load()
+				this.data = { redirectPort }
+				await this.secrets.store(this.secretKey, JSON.stringify(this.data))
+				return
+			}
+			case "client":
+				return this.update({ clientInformation: undefined })
+			case "tokens":
+				return this.update({ tokens: undefined })
+			case "verifier":
+				return this.update({ codeVerifier: undefined })
+		}
+	}
+
+	/**
+	 * Starts the loopback server that receives the authorization redirect. The returned promise
+	 * resolves once the server listens, with the authorization code still pending.
+	 */
+	async listenForAuthorizationCode(): Promise<{ code: Promise<string>; close: () => void }> {
+		const { redirectPort } = await this.load()
+		const server = http.createServer()
+		let timeout: NodeJS.Timeout | undefined
+
+		const close = () => {
+			clearTimeout(timeout)
+			server.close()
+		}
+
+		const code = new Promise<string>((resolve, reject) => {
+			timeout = setTimeout(() => {
+				close()
+				reject(new Error("The authorization timed out"))
+			}, CALLBACK_TIMEOUT_MS)
+
+			server.on("request", (req, res) => {
+				const url = new URL(req.url || "", this.redirectUrl)
+
+				if (url.pathname !== CALLBACK_PATH) {
+					res.writeHead(404)
+					res.end("Not Found")
+					return
+				}
+
+				const error = url.searchParams.get("error")
+				const code = url.searchParams.get("code")
+
+				if (error || !code || url.searchParams.get("state") !== this.pendingState) {
+					const message = error
+						? `The authorization failed: ${url.searchParams.get("error_description") ?? error}`
+						: "The authorization response is invalid"
+					res.writeHead(400)
+					res.end(message)
+					close()
+					reject(new Error(message))
+					return
+				}
+
+				res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" })
+				res.end(`<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Authorization Successful</title>
+</head>
+<body style="font-family: system-ui; text-align: center; padding: 50px;">
+<h1>&#10003; Authorization Successful</h1>
+<p>You can close this window and return to VS Code.</p>
+<script>window.close();</script>
+</body>
+</html>`)
+				close()
+				resolve(code)
+			})
+		})
+
+		// Keep the rejection from being unhandled when the caller never awaits the code.
+		code.catch(() => {})
+
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", (error: NodeJS.ErrnoException) =>
+				reject(
+					error.code === "EADDRINUSE"
+						? new Error(
+								`Port ${redirectPort} is already in use. Close the application using it and try again.`,
+							)
+						: error,
+				),
+			)
+			server.listen(redirectPort, "127.0.0.1", resolve)
+		})
+
+		return { code, close }
+	}
+
+	private get secretKey() {
+		return `${MCP_OAUTH_SECRET_PREFIX}${this.serverUrl}`
+	}
+
+	/**
+	 * Reads the stored data once. A redirect port is picked on first use and kept with the
+	 * registration, since authorization servers compare the redirect URI with the registered one.
+	 */
+	private async load(): Promise<McpOAuthData> {
+		if (this.data) {
+			return this.data
+		}
+
+		this.loading ??= (async () => {
+			const stored = await this.secrets.get(this.secretKey)
+			let data: McpOAuthData = {}
+
+			try {
+				data = stored ? JSON.parse(stored) : {}
+			} catch {
+				// Start over when the stored data is corrupted.
+			}
+
+			if (!data.redirectPort) {
+				data.redirectPort = await findFreePort()
+				await this.secrets.store(this.secretKey, JSON.stringify(data))
+			}
+
+			this.data = data
+			return data
+		})()
+
+		return this.loading
+	}
+
+	private async update(changes: Partial<McpOAuthData>): Promise<void> {
+		this.data = { ...(await this.load()), ...changes }
+		await this.secrets.store(this.secretKey, JSON.stringify(this.data))
+	}
+}
+
+/**
+ * Runs the authorization code flow of a remote MCP server, or only refreshes the tokens when
+ * that is enough. The provider opens the authorization URL through its `onRedirect` callback.
+ */
+export async function authorizeMcpServer(provider: McpOAuthClientProvider, serverUrl: string): Promise<void> {
+	const callback = await provider.listenForAuthorizationCode()
+
+	try {
+		if ((await auth(provider, { serverUrl })) === "REDIRECT") {
+			await auth(provider, { serverUrl, authorizationCode: await callback.code })
+		}
+	} finally {
+		callback.close()
+	}
+}
+
+function findFreePort(): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const server = net.createServer()
+		server.once("error", reject)
+		server.listen(0, "127.0.0.1", () => {
+			const { port } = server.address() as net.AddressInfo
+			server.close(() => resolve(port))
+		})
+	})
+}
@@ -0,0 +1,78 @@
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js"
+
+import type { McpPrompt } from "@roo-code/types"
+
+import type { McpHub, McpPromptCommand } from "./McpHub"
+
+/**
+ * Maps the text after an MCP prompt command to the prompt arguments. `name=value` words set
+ * an argument by name, the other words fill the remaining arguments in order and the last
+ * argument takes the rest of the text.
+ *
+ * @throws When a required argument is missing
+ */
+export function parseMcpPromptArguments(prompt: McpPrompt, text: string): Record<string, string> {
+	const declared = prompt.arguments ?? []
+	const result: Record<string, string> = {}
+	const positional: string[] = []
+
+	for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+		const [, name, value] = word.match(/^([^=]+)=(.*)$/) ?? []
+
+		if (name && declared.some((argument) => argument.name === name)) {
+			result[name] = value
+		} else {
+			positional.push(word)
+		}
+	}
+
+	const remaining = declared.filter(({ name }) => !(name in result))
+
+	remaining.forEach(({ name }, index) => {
+		const value = index === remaining.length - 1 ? positional.slice(index).join(" ") : positional[index]
+
+		if (value) {
+			result[name] = value
+		}
+	})
+
+	const missing = declared.filter(({ name, required }) => required && !result[name]).map(({ name }) => name)
+
+	if (missing.length > 0) {
+		throw new Error(`Missing required arguments for prompt '${prompt.name}': ${missing.join(", ")}`)
+	}
+
+	return result
+}
+
+/**
+ * Renders the messages of a prompt as text for the chat, prefixed with the role of each message.
+ */
+export function formatMcpPromptMessages({ description, messages }: GetPromptResult): string {
+	const lines = messages.map(({ role, content }) => {
+		switch (content.type) {
+			case "text":
+				return `${role}: ${content.text}`
+			case "resource":
+				return "text" in content.resource
+					? `${role}: <resource uri="${content.resource.uri}">\n${content.resource.text}\n</resource>`
+					: `${role}: [binary resource ${content.resource.uri} omitted]`
+			case "resource_link":
+				return `${role}: [resource ${content.uri}]`
+			default:
+				return `${role}: [${content.type} content omitted]`
+		}
+	})
+
+	return [...(description ? [`Description: ${description}`] : []), ...lines].join("\n\n")
+}
+
+/**
+ * Fetches an MCP prompt for a slash command and renders it as the command content.
+ */
+export async function getMcpPromptContent(mcpHub: McpHub, command: McpPromptCommand, argumentText: string) {
+	const promptArguments = parseMcpPromptArguments(command.prompt, argumentText)
+	const result = await mcpHub.getPrompt(command.serverName, command.prompt.name, promptArguments, command.source)
+
+	return formatMcpPromptMessages({ ...result, description: result.description ?? command.prompt.description })
+}
@@ -0,0 +1,172 @@
+import * as vscode from "vscode"
+import { Anthropic } from "@anthropic-ai/sdk"
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js"
+import type { CreateMessageRequest, CreateMessageResult } from "@modelcontextprotocol/sdk/types.js"
+
+import { type McpSamplingInfo, getApiProtocol, getModelId } from "@roo-code/types"
+
+import type { Task } from "../../core/task/Task"
+import { tiktoken } from "../../utils/tiktoken"
+import { calculateApiCostAnthropic, calculateApiCostOpenAI } from "../../shared/cost"
+import { t } from "../../i18n"
+
+type SamplingParams = CreateMessageRequest["params"]
+type SamplingContent = Exclude<SamplingParams["messages"][number]["content"], unknown[]>
+
+const MAX_PREVIEW_LENGTH = 500
+
+/**
+ * Converts the messages of a sampling request to the format of `ApiHandler.createMessage`.
+ * Content the API handlers can't take, like audio, is replaced with a placeholder.
+ */
+export function toAnthropicMessages(messages: SamplingParams["messages"]): Anthropic.Messages.MessageParam[] {
+	return messages.map(({ role, content }) => ({
+		role,
+		content: (Array.isArray(content) ? content : [content]).map(
+			(block: SamplingContent): Anthropic.Messages.TextBlockParam | Anthropic.Messages.ImageBlockParam => {
+				if (block.type === "text") {
+					return { type: "text", text: block.text }
+				} else if (block.type === "image") {
+					return {
+						type: "image",
+						source: {
+							type: "base64",
+							media_type: block.mimeType as Anthropic.Messages.ImageBlockParam["source"]["media_type"],
+							data: block.data,
+						},
+					}
+				}
+
+				return { type: "text", text: `[${block.type} content omitted]` }
+			},
+		),
+	}))
+}
+
+/**
+ * Handles a `sampling/createMessage` request of an MCP server. The user has to approve the
+ * request, which is then answered by the API handler of the task and recorded as an
+ * `mcp_sampling` message so its cost is part of the task cost.
+ *
+ * The temperature and the token limit of the request are passed to the provider, but since not
+ * every provider sends the token limit, the response is also cut off when the estimated tokens
+ * reach it or when one of the stop sequences comes up.
+ */
+export async function createSamplingMessage(
+	task: Task,
+	serverName: string,
+	params: SamplingParams,
+): Promise<CreateMessageResult> {
+	const messages = toAnthropicMessages(params.messages)
+	const lastText = messages
+		.flatMap(({ content }) => (typeof content === "string" ? [] : content))
+		.filter((block): block is Anthropic.Messages.TextBlockParam => block.type === "text")
+		.at(-1)?.text
+
+	const allow = t("mcp:sampling.allow")
+	const answer = await vscode.window.showInformationMessage(
+		t("mcp:sampling.approve", { serverName }),
+		{
+			modal: true,
+			detail:
+				lastText && lastText.length > MAX_PREVIEW_LENGTH
+					? `${lastText.slice(0, MAX_PREVIEW_LENGTH)}…`
+					: lastText,
+		},
+		allow,
+	)
+
+	if (answer !== allow) {
+		throw new McpError(ErrorCode.InvalidRequest, "The user rejected the sampling request")
+	}
+
+	let api = task.api
+
+	if (params.temperature !== undefined || params.maxTokens) {
+		// Loaded lazily, the providers import much of the extension which McpHub does not need otherwise.
+		const { buildApiHandler } = await import("../../api")
+		api = buildApiHandler({
+			...task.apiConfiguration,
+			modelTemperature: params.temperature ?? task.apiConfiguration.modelTemperature,
+			...(params.maxTokens ? { modelMaxTokens: params.maxTokens, includeMaxTokens: true } : {}),
+		})
+	}
+
+	const { id: model, info } = api.getModel()
+	const stream = api.createMessage(params.systemPrompt ?? "", messages, { taskId: task.taskId })
+	const stopSequences = params.stopSequences?.filter(Boolean) ?? []
+
+	let text = ""
+	let stopReason: CreateMessageResult["stopReason"] = "endTurn"
+	let estimatedOutputTokens = 0
+	let inputTokens = 0
+	let outputTokens = 0
+	let cacheWriteTokens = 0
+	let cacheReadTokens = 0
+	let totalCost: number | undefined
+
+	for await (const chunk of stream) {
+		if (task.abort) {
+			throw new McpError(ErrorCode.InvalidRequest, "The task was aborted")
+		}
+
+		if (chunk.type === "text") {
+			text += chunk.text
+			estimatedOutputTokens += await tiktoken([{ type: "text", text: chunk.text }])
+
+			const stopIndex = Math.min(
+				...stopSequences.map((sequence) => text.indexOf(sequence)).filter((index) => index !== -1),
+			)
+
+			if (stopIndex !== Infinity) {
+				text = text.slice(0, stopIndex)
+				stopReason = "stopSequence"
+				break
+			}
+
+			if (params.maxTokens && estimatedOutputTokens >= params.maxTokens) {
+				stopReason = "maxTokens"
+				break
+			}
+		} else if (chunk.type === "usage") {
+			inputTokens += chunk.inputTokens
+			outputTokens += chunk.outputTokens
+			cacheWriteTokens += chunk.cacheWriteTokens ?? 0
+			cacheReadTokens += chunk.cacheReadTokens ?? 0
+			totalCost = chunk.totalCost ?? totalCost
+		}
+	}
+
+	// Providers report the usage at the end of the stream, which is skipped when it is cut off.
+	if (stopReason !== "endTurn" && !outputTokens) {
+		inputTokens = await api.countTokens([
+			{ type: "text", text: params.systemPrompt ?? "" },
+			...messages.flatMap(({ content }) => (typeof content === "string" ? [] : content)),
+		])
+		outputTokens = estimatedOutputTokens
+	}
+
+	const apiProtocol = getApiProtocol(task.apiConfiguration.apiProvider, getModelId(task.apiConfiguration))
+	const costResult = (apiProtocol === "anthropic" ? calculateApiCostAnthropic : calculateApiCostOpenAI)(
+		info,
+		inputTokens,
+		outputTokens,
+		cacheWriteTokens,
+		cacheReadTokens,
+	)
+
+	await task.say(
+		"mcp_sampling",
+		JSON.stringify({
+			serverName,
+			model,
+			tokensIn: costResult.totalInputTokens,
+			tokensOut: costResult.totalOutputTokens,
+			cacheWrites: cacheWriteTokens,
+			cacheReads: cacheReadTokens,
+			cost: totalCost ?? costResult.totalCost,
+		} satisfies McpSamplingInfo),
+	)
+
+	return { role: "assistant", model, stopReason, content: { type: "text", text } }
+}
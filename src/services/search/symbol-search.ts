@@ -0,0 +1,53 @@
+import * as vscode from "vscode"
+import * as path from "path"
+
+import type { WorkspaceSymbolSearchResult } from "@roo-code/types"
+
+/**
+ * Searches the symbols of the workspace with the language servers, for the `@symbol:` mention
+ * autocomplete. Symbols declared outside of the workspace, e.g. in dependencies, are skipped.
+ */
+export async function searchWorkspaceSymbols(
+	query: string,
+	workspacePath: string,
+	limit: number = 20,
+): Promise<WorkspaceSymbolSearchResult[]> {
+	if (!query.trim()) {
+		return []
+	}
+
+	const symbols =
+		(await vscode.commands.executeCommand<vscode.SymbolInformation[] | undefined>(
+			"vscode.executeWorkspaceSymbolProvider",
+			query,
+		)) ?? []
+	const results: WorkspaceSymbolSearchResult[] = []
+	const seen = new Set<string>()
+
+	for (const symbol of symbols) {
+		const relativePath = path.relative(workspacePath, symbol.location.uri.fsPath)
+
+		if (relativePath.startsWith("..") || path.isAbsolute(relativePath) || relativePath.includes("node_modules")) {
+			continue
+		}
+
+		const key = `${symbol.containerName}.${symbol.name}:${relativePath}`
+		if (seen.has(key)) {
+			continue
+		}
+		seen.add(key)
+
+		results.push({
+			name: symbol.name,
+			kind: vscode.SymbolKind[symbol.kind]?.toLowerCase() ?? "symbol",
+			containerName: symbol.containerName || undefined,
+			path: relativePath.toPosix(),
+		})
+
+		if (results.length >= limit) {
+			break
+		}
+	}
+
+	return results
+}
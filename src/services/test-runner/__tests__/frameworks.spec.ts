@@ -0,0 +1,112 @@
+// npx vitest run services/test-runner/__tests__/frameworks.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { buildTestCommand, detectTestFramework, getReportExtension } from "../frameworks"
+
+describe("detectTestFramework", () => {
+	let tempDir: string
+
+	const writeFile = (fileName: string, content = "") => fs.writeFile(path.join(tempDir, fileName), content)
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "roo-test-runner-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it("detects vitest and jest from their config files", async () => {
+		await writeFile("jest.config.js")
+		expect(await detectTestFramework(tempDir)).toBe("jest")
+
+		await writeFile("vitest.config.ts")
+		expect(await detectTestFramework(tempDir)).toBe("vitest")
+	})
+
+	it("detects vitest and jest from package.json", async () => {
+		await writeFile("package.json", JSON.stringify({ devDependencies: { jest: "^29.0.0" } }))
+		expect(await detectTestFramework(tempDir)).toBe("jest")
+
+		await writeFile("package.json", JSON.stringify({ scripts: { test: "vitest run" } }))
+		expect(await detectTestFramework(tempDir)).toBe("vitest")
+	})
+
+	it("detects cargo, go and pytest projects", async () => {
+		expect(await detectTestFramework(tempDir)).toBeUndefined()
+
+		await writeFile("pyproject.toml", "[tool.pytest.ini_options]\n")
+		expect(await detectTestFramework(tempDir)).toBe("pytest")
+
+		await writeFile("go.mod", "module example.com/app\n")
+		expect(await detectTestFramework(tempDir)).toBe("go")
+
+		await writeFile("Cargo.toml", "[package]\n")
+		expect(await detectTestFramework(tempDir)).toBe("cargo")
+	})
+
+	it("uses the language of the tests to run", async () => {
+		await writeFile("package.json", JSON.stringify({ devDependencies: { vitest: "^3.0.0" } }))
+
+		expect(await detectTestFramework(tempDir, "tests/test_api.py")).toBe("pytest")
+		expect(await detectTestFramework(tempDir, "api/server_test.go")).toBe("go")
+		expect(await detectTestFramework(tempDir, "src/math.test.ts")).toBe("vitest")
+	})
+})
+
+describe("buildTestCommand", () => {
+	it("writes the reports of vitest, jest and pytest to the report path", () => {
+		expect(
+			buildTestCommand("vitest", {
+				path: "src/math.test.ts",
+				pattern: "adds numbers",
+				reportPath: "/tmp/report.json",
+				platform: "linux",
+			}),
+		).toBe(
+			"npx vitest run --reporter=json --outputFile=/tmp/report.json --testNamePattern='adds numbers' src/math.test.ts",
+		)
+		expect(buildTestCommand("jest", { reportPath: "/tmp/report.json", platform: "linux" })).toBe(
+			"npx jest --json --outputFile=/tmp/report.json",
+		)
+		expect(
+			buildTestCommand("pytest", {
+				path: "tests",
+				pattern: "login",
+				reportPath: "/tmp/report.xml",
+				platform: "linux",
+			}),
+		).toBe("python3 -m pytest -o junit_family=xunit1 --junitxml=/tmp/report.xml -k login tests")
+	})
+
+	it("runs the go packages of a path", () => {
+		expect(buildTestCommand("go", { platform: "linux" })).toBe("go test -json ./...")
+		expect(buildTestCommand("go", { path: "api/server_test.go", pattern: "TestServe", platform: "linux" })).toBe(
+			"go test -json -run TestServe ./api",
+		)
+		expect(buildTestCommand("go", { path: "./internal/", platform: "linux" })).toBe("go test -json ./internal/...")
+	})
+
+	it("filters cargo tests by name", () => {
+		expect(buildTestCommand("cargo", { path: "src/lib.rs", pattern: "parser::", platform: "linux" })).toBe(
+			"cargo test --no-fail-fast parser::",
+		)
+	})
+
+	it("quotes arguments for the shell of the platform", () => {
+		expect(
+			buildTestCommand("jest", { pattern: 'it\'s "quoted"', reportPath: "C:\\Temp\\r.json", platform: "win32" }),
+		).toBe('npx jest --json --outputFile="C:\\Temp\\r.json" --testNamePattern="it\'s \\"quoted\\""')
+	})
+})
+
+describe("getReportExtension", () => {
+	it("only has report files for the frameworks that write one", () => {
+		expect(getReportExtension("vitest")).toBe("json")
+		expect(getReportExtension("pytest")).toBe("xml")
+		expect(getReportExtension("go")).toBeUndefined()
+	})
+})
@@ -0,0 +1,226 @@
+// npx vitest run services/test-runner/__tests__/parsers.spec.ts
+
+import { parseCargoTestOutput, parseGoTestOutput, parseJestReport, parseJUnitReport } from "../parsers"
+
+describe("parseJestReport", () => {
+	it("lists the tests of each file with the location of the failures", () => {
+		const report = JSON.stringify({
+			testResults: [
+				{
+					name: "/project/src/math.test.ts",
+					status: "failed",
+					assertionResults: [
+						{
+							ancestorTitles: ["math"],
+							title: "adds",
+							fullName: "math adds",
+							status: "passed",
+							duration: 3,
+						},
+						{
+							ancestorTitles: ["math"],
+							title: "divides",
+							fullName: "math divides",
+							status: "failed",
+							failureMessages: [
+								"\u001b[31mAssertionError: expected 2 to be 3\u001b[39m\n    at /project/src/math.test.ts:12:5",
+							],
+							location: { line: 10, column: 2 },
+						},
+						{ ancestorTitles: ["math"], title: "rounds", status: "skipped" },
+					],
+				},
+				{
+					name: "/project/src/broken.test.ts",
+					status: "failed",
+					message: "SyntaxError: Unexpected token",
+					assertionResults: [],
+				},
+			],
+		})
+
+		expect(parseJestReport(report, "/project")).toEqual([
+			{
+				name: "math adds",
+				status: "passed",
+				file: "src/math.test.ts",
+				line: undefined,
+				durationMs: 3,
+				message: undefined,
+			},
+			{
+				name: "math divides",
+				status: "failed",
+				file: "src/math.test.ts",
+				line: 12,
+				durationMs: undefined,
+				message: "AssertionError: expected 2 to be 3\n    at /project/src/math.test.ts:12:5",
+			},
+			{
+				name: "math > rounds",
+				status: "skipped",
+				file: "src/math.test.ts",
+				line: undefined,
+				durationMs: undefined,
+				message: undefined,
+			},
+			{
+				name: "src/broken.test.ts",
+				status: "failed",
+				file: "src/broken.test.ts",
+				message: "SyntaxError: Unexpected token",
+			},
+		])
+	})
+})
+
+describe("parseJUnitReport", () => {
+	it("parses the report of pytest", () => {
+		const report = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites>
+	<testsuite name="pytest" errors="0" failures="1" skipped="1" tests="3">
+		<testcase classname="tests.test_api" name="test_get" file="tests/test_api.py" line="3" time="0.010" />
+		<testcase classname="tests.test_api" name="test_post" file="tests/test_api.py" line="8" time="0.020">
+			<failure message="assert 404 == 201">def test_post():
+&gt;       assert response.status == 201
+E       assert 404 == 201
+
+tests/test_api.py:10: AssertionError</failure>
+		</testcase>
+		<testcase classname="tests.test_api" name="test_delete" file="tests/test_api.py" line="12" time="0.000">
+			<skipped type="pytest.skip" message="not implemented" />
+		</testcase>
+	</testsuite>
+</testsuites>`
+
+		const tests = parseJUnitReport(report, "/project")
+
+		expect(tests.map(({ name, status }) => [name, status])).toEqual([
+			["tests.test_api.test_get", "passed"],
+			["tests.test_api.test_post", "failed"],
+			["tests.test_api.test_delete", "skipped"],
+		])
+		expect(tests[0].durationMs).toBe(10)
+		expect(tests[1]).toMatchObject({ file: "tests/test_api.py", line: 10 })
+		expect(tests[1].message).toContain("assert 404 == 201")
+	})
+})
+
+describe("parseGoTestOutput", () => {
+	const event = (fields: Record<string, unknown>) => JSON.stringify({ Time: "2024-01-01T00:00:00Z", ...fields })
+
+	it("parses the events of go test -json", () => {
+		const output = [
+			event({ Action: "run", Package: "example.com/app", Test: "TestAdd" }),
+			event({ Action: "pass", Package: "example.com/app", Test: "TestAdd", Elapsed: 0.01 }),
+			event({ Action: "run", Package: "example.com/app", Test: "TestDivide" }),
+			event({
+				Action: "output",
+				Package: "example.com/app",
+				Test: "TestDivide",
+				Output: "=== RUN   TestDivide\n",
+			}),
+			event({
+				Action: "output",
+				Package: "example.com/app",
+				Test: "TestDivide",
+				Output: "    math_test.go:14: got 2, want 3\n",
+			}),
+			event({
+				Action: "output",
+				Package: "example.com/app",
+				Test: "TestDivide",
+				Output: "--- FAIL: TestDivide\n",
+			}),
+			event({ Action: "fail", Package: "example.com/app", Test: "TestDivide", Elapsed: 0 }),
+			event({ Action: "skip", Package: "example.com/app", Test: "TestRound" }),
+			event({ Action: "fail", Package: "example.com/app", Elapsed: 0.02 }),
+			"not a JSON line",
+		].join("\n")
+
+		expect(parseGoTestOutput(output)).toEqual([
+			{ name: "TestAdd", status: "passed", durationMs: 10 },
+			{
+				name: "TestDivide",
+				status: "failed",
+				durationMs: 0,
+				file: "math_test.go",
+				line: 14,
+				message: "math_test.go:14: got 2, want 3",
+			},
+			{ name: "TestRound", status: "skipped", durationMs: undefined },
+		])
+	})
+
+	it("reports the packages that do not build", () => {
+		const output = [
+			event({ Action: "output", Package: "example.com/app/api", Output: "# example.com/app/api\n" }),
+			event({
+				Action: "output",
+				Package: "example.com/app/api",
+				Output: "api/server.go:7:2: undefined: handler\n",
+			}),
+			event({ Action: "fail", Package: "example.com/app/api", Elapsed: 0 }),
+		].join("\n")
+
+		expect(parseGoTestOutput(output)).toEqual([
+			{
+				name: "example.com/app/api",
+				status: "failed",
+				file: "api/server.go",
+				line: 7,
+				message: "# example.com/app/api\napi/server.go:7:2: undefined: handler",
+			},
+		])
+	})
+})
+
+describe("parseCargoTestOutput", () => {
+	it("parses the test lines and the panics of the failures", () => {
+		const output = `
+running 3 tests
+test parser::tests::parses_numbers ... ok
+test parser::tests::parses_strings ... FAILED
+test parser::tests::parses_dates ... ignored
+
+failures:
+
+---- parser::tests::parses_strings stdout ----
+thread 'parser::tests::parses_strings' panicked at src/parser.rs:42:9:
+assertion \`left == right\` failed
+  left: "a"
+ right: "b"
+
+failures:
+    parser::tests::parses_strings
+
+test result: FAILED. 1 passed; 1 failed; 1 ignored; 0 measured; 0 filtered out
+`
+
+		const tests = parseCargoTestOutput(output)
+
+		expect(tests.map(({ name, status }) => [name, status])).toEqual([
+			["parser::tests::parses_numbers", "passed"],
+			["parser::tests::parses_strings", "failed"],
+			["parser::tests::parses_dates", "skipped"],
+		])
+		expect(tests[1]).toMatchObject({ file: "src/parser.rs", line: 42 })
+		expect(tests[1].message).toContain('left: "a"')
+		expect(tests[1].message).not.toContain("test result")
+	})
+
+	it("finds the location of panics before Rust 1.73", () => {
+		const output = `test tests::it_works ... FAILED
+
+failures:
+
+---- tests::it_works stdout ----
+thread 'tests::it_works' panicked at 'assertion failed: false', src/lib.rs:5:9
+
+failures:
+    tests::it_works
+`
+
+		expect(parseCargoTestOutput(output)[0]).toMatchObject({ file: "src/lib.rs", line: 5 })
+	})
+})
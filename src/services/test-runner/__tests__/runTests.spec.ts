@@ -0,0 +1,126 @@
+// npx vitest run services/test-runner/__tests__/runTests.spec.ts
+
+import type { TestRunResults } from "@roo-code/types"
+
+import { formatTestRunResults, runTests } from "../runTests"
+
+const { runCommand } = vi.hoisted(() => ({ runCommand: vi.fn() }))
+
+vi.mock("../../../integrations/terminal/ExecaTerminal", () => ({
+	ExecaTerminal: vi.fn().mockImplementation(() => ({ runCommand })),
+}))
+
+vi.mock("../../../integrations/terminal/SandboxTerminal", () => ({
+	SandboxTerminal: vi.fn(),
+}))
+
+const goOutput = [
+	{ Action: "pass", Package: "example.com/app", Test: "TestAdd", Elapsed: 0.01 },
+	{
+		Action: "output",
+		Package: "example.com/app",
+		Test: "TestDivide",
+		Output: "    math_test.go:14: got 2, want 3\n",
+	},
+	{ Action: "fail", Package: "example.com/app", Test: "TestDivide", Elapsed: 0 },
+	{ Action: "fail", Package: "example.com/app", Elapsed: 0.02 },
+]
+	.map((event) => JSON.stringify(event))
+	.join("\n")
+
+describe("runTests", () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("runs the command and parses its results", async () => {
+		runCommand.mockImplementation((_command, callbacks) => {
+			callbacks.onCompleted(goOutput)
+			callbacks.onShellExecutionComplete({ exitCode: 1 })
+			return Object.assign(Promise.resolve(), { abort: vi.fn() })
+		})
+
+		const { results, parsed, timedOut } = await runTests({ framework: "go", cwd: "/project", timeoutMs: 60_000 })
+
+		expect(runCommand).toHaveBeenCalledWith("go test -json ./...", expect.anything())
+		expect(parsed).toBe(true)
+		expect(timedOut).toBe(false)
+		expect(results).toMatchObject({ framework: "go", exitCode: 1, passed: 1, failed: 1, skipped: 0 })
+	})
+
+	it("is not parsed when the tests report nothing", async () => {
+		runCommand.mockImplementation((_command, callbacks) => {
+			callbacks.onCompleted("go: cannot find main module")
+			callbacks.onShellExecutionComplete({ exitCode: 1 })
+			return Object.assign(Promise.resolve(), { abort: vi.fn() })
+		})
+
+		const { results, output, parsed } = await runTests({ framework: "go", cwd: "/project", timeoutMs: 60_000 })
+
+		expect(parsed).toBe(false)
+		expect(output).toBe("go: cannot find main module")
+		expect(results.tests).toEqual([])
+	})
+
+	it("aborts the tests when the task is cancelled", async () => {
+		const abort = vi.fn()
+		let finish: () => void = () => {}
+
+		runCommand.mockImplementation(() =>
+			Object.assign(
+				new Promise<void>((resolve) => {
+					finish = resolve
+				}),
+				{ abort: abort.mockImplementation(() => finish()) },
+			),
+		)
+
+		const { timedOut } = await runTests({
+			framework: "cargo",
+			cwd: "/project",
+			timeoutMs: 60_000,
+			isCancelled: () => true,
+		})
+
+		expect(abort).toHaveBeenCalled()
+		expect(timedOut).toBe(false)
+	})
+})
+
+describe("formatTestRunResults", () => {
+	it("lists the counts, the pass rate and the failures", () => {
+		const results: TestRunResults = {
+			framework: "pytest",
+			command: "python3 -m pytest",
+			cwd: "/project",
+			exitCode: 1,
+			durationMs: 2500,
+			passed: 2,
+			failed: 1,
+			skipped: 1,
+			tests: [
+				{ name: "test_get", status: "passed" },
+				{ name: "test_put", status: "passed" },
+				{
+					name: "test_post",
+					status: "failed",
+					file: "tests/test_api.py",
+					line: 10,
+					message: "assert 404 == 201",
+				},
+				{ name: "test_delete", status: "skipped" },
+			],
+		}
+
+		expect(formatTestRunResults(results)).toBe(
+			[
+				"pytest: 2 passed, 1 failed, 1 skipped (4 tests, 2.5s)",
+				"Pass rate: 66.7% (2 of 3 tests that ran)",
+				"",
+				"Failures:",
+				"1. test_post (tests/test_api.py:10)",
+				"   assert 404 == 201",
+			].join("\n"),
+		)
+	})
+})
@@ -0,0 +1,226 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import type { TestFramework } from "@roo-code/types"
+
+import { fileExistsAtPath } from "../../utils/fs"
+import { quoteShellArgument } from "../../integrations/terminal/sandbox"
+
+const VITEST_CONFIGS = ["vitest.config.ts", "vitest.config.mts", "vitest.config.js", "vitest.config.mjs"]
+const JEST_CONFIGS = ["jest.config.ts", "jest.config.js", "jest.config.mjs", "jest.config.cjs", "jest.config.json"]
+const PYTEST_CONFIGS = ["pyproject.toml", "setup.cfg", "tox.ini"]
+
+async function readFileIfExists(filePath: string): Promise<string | undefined> {
+	try {
+		return await fs.readFile(filePath, "utf8")
+	} catch {
+		return undefined
+	}
+}
+
+async function anyFileExists(cwd: string, fileNames: string[]): Promise<boolean> {
+	const results = await Promise.all(fileNames.map((fileName) => fileExistsAtPath(path.join(cwd, fileName))))
+	return results.some(Boolean)
+}
+
+async function detectJavaScriptFramework(cwd: string): Promise<TestFramework | undefined> {
+	if (await anyFileExists(cwd, VITEST_CONFIGS)) {
+		return "vitest"
+	}
+
+	if (await anyFileExists(cwd, JEST_CONFIGS)) {
+		return "jest"
+	}
+
+	const packageJson = await readFileIfExists(path.join(cwd, "package.json"))
+
+	if (!packageJson) {
+		return undefined
+	}
+
+	try {
+		const { dependencies, devDependencies, scripts } = JSON.parse(packageJson)
+		const packages = { ...dependencies, ...devDependencies }
+		const testScript: string = scripts?.test ?? ""
+
+		if ("vitest" in packages || /\bvitest\b/.test(testScript)) {
+			return "vitest"
+		}
+
+		if ("jest" in packages || /\bjest\b/.test(testScript)) {
+			return "jest"
+		}
+	} catch {
+		// An invalid package.json has no test framework.
+	}
+
+	return undefined
+}
+
+async function detectPytest(cwd: string): Promise<boolean> {
+	if (await anyFileExists(cwd, ["pytest.ini", "conftest.py"])) {
+		return true
+	}
+
+	const configs = await Promise.all(PYTEST_CONFIGS.map((fileName) => readFileIfExists(path.join(cwd, fileName))))
+	return configs.some((config) => config?.includes("pytest"))
+}
+
+/**
+ * Detects the test framework of a project from its configuration files. The extension of the
+ * tests to run, if any, narrows it down to the frameworks of their language.
+ *
+ * @param cwd The directory of the project
+ * @param testPath The file or directory of the tests to run, relative to the project
+ */
+export async function detectTestFramework(cwd: string, testPath?: string): Promise<TestFramework | undefined> {
+	const extension = testPath ? path.extname(testPath) : ""
+
+	switch (extension) {
+		case ".py":
+			return "pytest"
+		case ".go":
+			return "go"
+		case ".rs":
+			return "cargo"
+		case "":
+			break
+		default:
+			return detectJavaScriptFramework(cwd)
+	}
+
+	return (
+		(await detectJavaScriptFramework(cwd)) ??
+		((await fileExistsAtPath(path.join(cwd, "Cargo.toml"))) ? "cargo" : undefined) ??
+		((await fileExistsAtPath(path.join(cwd, "go.mod"))) ? "go" : undefined) ??
+		((await detectPytest(cwd)) ? "pytest" : undefined)
+	)
+}
+
+/**
+ * Quotes an argument for the shell of the platform, unless it does not need quotes.
+ */
+function quoteArgument(value: string, platform: NodeJS.Platform): string {
+	if (/^[\w@%+=:,./-]+$/.test(value)) {
+		return value
+	}
+
+	return platform === "win32" ? `"${value.replace(/"/g, '\\"')}"` : quoteShellArgument(value)
+}
+
+/**
+ * Gets the packages of a go test run: the package of a test file, the packages in a directory, or
+ * all the packages of the module.
+ */
+function getGoPackages(testPath: string | undefined): string {
+	if (!testPath) {
+		return "./..."
+	}
+
+	const relativePath = testPath.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/$/, "")
+
+	if (relativePath.endsWith(".go")) {
+		const directory = path.posix.dirname(relativePath)
+		return directory === "." ? "." : `./${directory}`
+	}
+
+	return `./${relativePath}/...`
+}
+
+export interface TestCommandOptions {
+	// The file or directory of the tests to run, relative to the working directory.
+	path?: string
+	// Only runs the tests whose name matches.
+	pattern?: string
+	// Where vitest, jest and pytest write their report.
+	reportPath?: string
+	platform?: NodeJS.Platform
+}
+
+/**
+ * Builds the command that runs the tests of a framework with a reporter that can be parsed:
+ * - vitest and jest write a JSON report to the report path
+ * - pytest writes a JUnit XML report to the report path
+ * - go test prints JSON events
+ * - cargo test prints its usual output, which is the only one that is stable
+ * cargo test can only filter the tests by name, so the path is ignored.
+ */
+export function buildTestCommand(
+	framework: TestFramework,
+	{ path: testPath, pattern, reportPath = "", platform = process.platform }: TestCommandOptions,
+): string {
+	const quote = (value: string) => quoteArgument(value, platform)
+	const args: string[] = []
+
+	switch (framework) {
+		case "vitest":
+			args.push("npx", "vitest", "run", "--reporter=json", `--outputFile=${quote(reportPath)}`)
+
+			if (pattern) {
+				args.push(`--testNamePattern=${quote(pattern)}`)
+			}
+
+			if (testPath) {
+				args.push(quote(testPath))
+			}
+			break
+		case "jest":
+			args.push("npx", "jest", "--json", `--outputFile=${quote(reportPath)}`)
+
+			if (pattern) {
+				args.push(`--testNamePattern=${quote(pattern)}`)
+			}
+
+			if (testPath) {
+				args.push(quote(testPath))
+			}
+			break
+		case "pytest":
+			// xunit1 reports have the file of each test.
+			args.push(platform === "win32" ? "python" : "python3", "-m", "pytest", "-o", "junit_family=xunit1")
+			args.push(`--junitxml=${quote(reportPath)}`)
+
+			if (pattern) {
+				args.push("-k", quote(pattern))
+			}
+
+			if (testPath) {
+				args.push(quote(testPath))
+			}
+			break
+		case "go":
+			args.push("go", "test", "-json")
+
+			if (pattern) {
+				args.push("-run", quote(pattern))
+			}
+
+			args.push(getGoPackages(testPath))
+			break
+		case "cargo":
+			args.push("cargo", "test", "--no-fail-fast")
+
+			if (pattern) {
+				args.push(quote(pattern))
+			}
+			break
+	}
+
+	return args.join(" ")
+}
+
+/**
+ * Gets the extension of the report file of a framework, or undefined if the results are parsed from
+ * the output.
+ */
+export function getReportExtension(framework: TestFramework): string | undefined {
+	switch (framework) {
+		case "vitest":
+		case "jest":
+			return "json"
+		case "pytest":
+			return "xml"
+		default:
+			return undefined
+	}
+}
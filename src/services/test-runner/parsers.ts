@@ -0,0 +1,265 @@
+import * as path from "path"
+import stripAnsi from "strip-ansi"
+
+import type { TestCaseResult, TestCaseStatus } from "@roo-code/types"
+
+import { parseXml } from "../../utils/xml"
+
+// Long failure messages, like big diffs, are cut so that they do not flood the context.
+const MAX_MESSAGE_LENGTH = 2_000
+
+function toMessage(text: string): string | undefined {
+	const message = stripAnsi(text).trim()
+
+	if (!message) {
+		return undefined
+	}
+
+	return message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}\n[...]` : message
+}
+
+function toRelativePath(cwd: string, filePath: string): string {
+	return (path.isAbsolute(filePath) ? path.relative(cwd, filePath) : filePath).toPosix()
+}
+
+/**
+ * Finds the line of a file in a stack trace or a failure message, like "src/math.test.ts:12:5".
+ */
+function findLineInFile(text: string, filePath: string): number | undefined {
+	const escaped = filePath.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+	const match = stripAnsi(text).match(new RegExp(`${escaped}:(\\d+)`))
+	return match ? parseInt(match[1], 10) : undefined
+}
+
+interface JestAssertionResult {
+	ancestorTitles?: string[]
+	title: string
+	fullName?: string
+	status: string
+	duration?: number | null
+	failureMessages?: string[]
+	location?: { line: number; column: number } | null
+}
+
+interface JestTestFileResult {
+	name: string
+	status?: string
+	message?: string
+	assertionResults?: JestAssertionResult[]
+}
+
+/**
+ * Parses the JSON report of jest, which vitest writes in the same format.
+ */
+export function parseJestReport(report: string, cwd: string): TestCaseResult[] {
+	const { testResults = [] } = JSON.parse(report) as { testResults?: JestTestFileResult[] }
+	const tests: TestCaseResult[] = []
+
+	for (const fileResult of testResults) {
+		const file = toRelativePath(cwd, fileResult.name)
+		const assertions = fileResult.assertionResults ?? []
+
+		// A test file that fails to load, like with a syntax error, has no tests.
+		if (assertions.length === 0 && fileResult.status === "failed") {
+			tests.push({ name: file, status: "failed", file, message: toMessage(fileResult.message ?? "") })
+			continue
+		}
+
+		for (const assertion of assertions) {
+			const status: TestCaseStatus =
+				assertion.status === "passed" ? "passed" : assertion.status === "failed" ? "failed" : "skipped"
+			const failure = (assertion.failureMessages ?? []).join("\n")
+
+			tests.push({
+				name: assertion.fullName || [...(assertion.ancestorTitles ?? []), assertion.title].join(" > "),
+				status,
+				file,
+				line:
+					(status === "failed" ? findLineInFile(failure, fileResult.name) : undefined) ??
+					assertion.location?.line,
+				durationMs: assertion.duration ?? undefined,
+				message: status === "failed" ? toMessage(failure) : undefined,
+			})
+		}
+	}
+
+	return tests
+}
+
+const asArray = <T>(value: T | T[] | undefined): T[] =>
+	value === undefined ? [] : Array.isArray(value) ? value : [value]
+
+type JUnitElement = Record<string, any>
+
+function getFailureText(element: JUnitElement | string | undefined): string {
+	if (element === undefined) {
+		return ""
+	}
+
+	if (typeof element === "string") {
+		return element
+	}
+
+	return [element["@_message"], element["#text"]].filter(Boolean).join("\n")
+}
+
+/**
+ * Parses a JUnit XML report, like the one of pytest.
+ */
+export function parseJUnitReport(report: string, cwd: string): TestCaseResult[] {
+	const parsed = parseXml(report) as JUnitElement
+	const tests: TestCaseResult[] = []
+
+	const visit = (suite: JUnitElement) => {
+		asArray<JUnitElement>(suite.testsuite).forEach(visit)
+
+		for (const testCase of asArray<JUnitElement>(suite.testcase)) {
+			const failure = testCase.failure ?? testCase.error
+			const status: TestCaseStatus =
+				failure !== undefined ? "failed" : testCase.skipped !== undefined ? "skipped" : "passed"
+			const failureText = asArray(failure).map(getFailureText).join("\n")
+			const file = testCase["@_file"] ? toRelativePath(cwd, testCase["@_file"]) : undefined
+			const time = parseFloat(testCase["@_time"])
+
+			tests.push({
+				name: [testCase["@_classname"], testCase["@_name"]].filter(Boolean).join("."),
+				status,
+				file,
+				// The report only has the line where the test is defined, the failure has the line that failed.
+				line: status === "failed" && file ? findLineInFile(failureText, file) : undefined,
+				durationMs: isNaN(time) ? undefined : Math.round(time * 1000),
+				message: status === "failed" ? toMessage(failureText) : undefined,
+			})
+		}
+	}
+
+	visit(parsed.testsuites ?? parsed)
+	return tests
+}
+
+interface GoTestEvent {
+	Action: string
+	Package?: string
+	Test?: string
+	Elapsed?: number
+	Output?: string
+}
+
+/**
+ * Parses the JSON events that `go test -json` prints. Packages that fail to build are reported as
+ * failed tests named after the package.
+ */
+export function parseGoTestOutput(output: string): TestCaseResult[] {
+	const tests = new Map<string, TestCaseResult & { packageName: string; output: string }>()
+	const packageOutputs = new Map<string, string>()
+	const failedPackages = new Set<string>()
+
+	for (const line of output.split("\n")) {
+		let event: GoTestEvent
+
+		try {
+			event = JSON.parse(line)
+		} catch {
+			continue
+		}
+
+		if (!event?.Action) {
+			continue
+		}
+
+		const packageName = event.Package ?? ""
+
+		if (!event.Test) {
+			if (event.Action === "output") {
+				packageOutputs.set(packageName, (packageOutputs.get(packageName) ?? "") + (event.Output ?? ""))
+			} else if (event.Action === "fail") {
+				failedPackages.add(packageName)
+			}
+
+			continue
+		}
+
+		const key = `${packageName}/${event.Test}`
+		const test = tests.get(key) ?? { name: event.Test, status: "passed", packageName, output: "" }
+		tests.set(key, test)
+
+		if (event.Action === "output") {
+			test.output += event.Output ?? ""
+		} else if (event.Action === "pass" || event.Action === "fail" || event.Action === "skip") {
+			test.status = event.Action === "pass" ? "passed" : event.Action === "fail" ? "failed" : "skipped"
+			test.durationMs = event.Elapsed !== undefined ? Math.round(event.Elapsed * 1000) : undefined
+		}
+	}
+
+	const results: TestCaseResult[] = []
+
+	for (const { packageName, output: testOutput, ...test } of tests.values()) {
+		if (test.status === "failed") {
+			const location = testOutput.match(/^\s+([\w.-]+\.go):(\d+):/m)
+
+			test.file = location?.[1]
+			test.line = location ? parseInt(location[2], 10) : undefined
+			test.message = toMessage(
+				testOutput
+					.split("\n")
+					.filter((line) => !/^\s*(=== |--- )/.test(line))
+					.join("\n"),
+			)
+
+			failedPackages.delete(packageName)
+		}
+
+		results.push(test)
+	}
+
+	// The packages that failed without a failed test, like when they do not build.
+	for (const packageName of failedPackages) {
+		const packageOutput = packageOutputs.get(packageName) ?? ""
+		const location = packageOutput.match(/^(?:\.\/)?([\w./-]+\.go):(\d+):/m)
+
+		results.push({
+			name: packageName,
+			status: "failed",
+			file: location?.[1],
+			line: location ? parseInt(location[2], 10) : undefined,
+			message: toMessage(packageOutput),
+		})
+	}
+
+	return results
+}
+
+/**
+ * Parses the output of `cargo test`, whose JSON output is not stable yet.
+ */
+export function parseCargoTestOutput(output: string): TestCaseResult[] {
+	const text = stripAnsi(output)
+	const failures = new Map<string, string>()
+
+	// Failures are printed as "---- <name> stdout ----" sections, before the list of failed tests.
+	const sections = text.split(/^---- (.+?) stdout ----$/m)
+
+	for (let i = 1; i < sections.length; i += 2) {
+		failures.set(sections[i], sections[i + 1].split(/^\nfailures:$|^failures:$/m)[0])
+	}
+
+	const tests: TestCaseResult[] = []
+
+	for (const match of text.matchAll(/^test (.+?) \.\.\. (ok|FAILED|ignored)\b/gm)) {
+		const [, name, result] = match
+		const status: TestCaseStatus = result === "ok" ? "passed" : result === "FAILED" ? "failed" : "skipped"
+		const failure = failures.get(name) ?? ""
+		// "panicked at src/lib.rs:10:9:" since Rust 1.73, "panicked at 'message', src/lib.rs:10:9" before.
+		const location = failure.match(/panicked at (?:'.*?', )?([^\s:']+):(\d+):\d+/)
+
+		tests.push({
+			name,
+			status,
+			file: status === "failed" ? location?.[1] : undefined,
+			line: status === "failed" && location ? parseInt(location[2], 10) : undefined,
+			message: status === "failed" ? toMessage(failure) : undefined,
+		})
+	}
+
+	return tests
+}
@@ -0,0 +1,192 @@
+import fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { type TestCaseResult, type TestFramework, type TestRunResults, getTestPassRate } from "@roo-code/types"
+
+import { ExecaTerminal } from "../../integrations/terminal/ExecaTerminal"
+import { SandboxTerminal } from "../../integrations/terminal/SandboxTerminal"
+import type { WorkspaceSandbox } from "../../integrations/terminal/sandbox"
+
+import { buildTestCommand, getReportExtension } from "./frameworks"
+import { parseCargoTestOutput, parseGoTestOutput, parseJestReport, parseJUnitReport } from "./parsers"
+
+const POLL_INTERVAL_MS = 250
+// Failures beyond this are only counted, the model can run them again with a filter.
+const MAX_LISTED_FAILURES = 20
+
+let nextRunId = 1
+
+export interface RunTestsOptions {
+	framework: TestFramework
+	cwd: string
+	// The file or directory of the tests to run, relative to the working directory.
+	path?: string
+	// Only runs the tests whose name matches.
+	pattern?: string
+	sandbox?: WorkspaceSandbox
+	timeoutMs: number
+	isCancelled?: () => boolean
+}
+
+export interface TestRunOutcome {
+	results: TestRunResults
+	output: string
+	// Whether the results come from the report of the framework. They do not when the tests could
+	// not run, like when they do not compile.
+	parsed: boolean
+	timedOut: boolean
+}
+
+/**
+ * Gets where a framework writes its report. Sandboxed commands only share the workspace with the
+ * host, so their report is written there and removed afterwards.
+ */
+function getReportPath(runId: number, extension: string, sandbox?: WorkspaceSandbox): string {
+	const fileName = `.test-report-${process.pid}-${runId}.${extension}`
+	return path.join(sandbox ? sandbox.workspacePath : os.tmpdir(), fileName)
+}
+
+function parseResults(
+	framework: TestFramework,
+	cwd: string,
+	output: string,
+	report: string | undefined,
+): TestCaseResult[] | undefined {
+	try {
+		switch (framework) {
+			case "vitest":
+			case "jest":
+				return report ? parseJestReport(report, cwd) : undefined
+			case "pytest":
+				return report ? parseJUnitReport(report, cwd) : undefined
+			case "go":
+				return parseGoTestOutput(output)
+			case "cargo":
+				return parseCargoTestOutput(output)
+		}
+	} catch (error) {
+		console.warn(
+			`[runTests] Failed to parse the ${framework} results: ${error instanceof Error ? error.message : String(error)}`,
+		)
+		return undefined
+	}
+}
+
+/**
+ * Runs the tests of a framework, on the host or in a sandbox, and parses their results.
+ */
+export async function runTests({
+	framework,
+	cwd,
+	path: testPath,
+	pattern,
+	sandbox,
+	timeoutMs,
+	isCancelled,
+}: RunTestsOptions): Promise<TestRunOutcome> {
+	const runId = nextRunId++
+	const extension = getReportExtension(framework)
+	const reportPath = extension ? getReportPath(runId, extension, sandbox) : undefined
+	const command = buildTestCommand(framework, { path: testPath, pattern, reportPath })
+	const terminal = sandbox ? new SandboxTerminal(runId, cwd, sandbox) : new ExecaTerminal(runId, cwd)
+	const startedAt = Date.now()
+
+	let output = ""
+	let exitCode: number | undefined
+	let timedOut = false
+
+	const testProcess = terminal.runCommand(command, {
+		onLine: () => {},
+		onCompleted: (completedOutput) => {
+			output = completedOutput ?? ""
+		},
+		onShellExecutionStarted: () => {},
+		onShellExecutionComplete: (details) => {
+			exitCode = details.exitCode
+		},
+	})
+
+	const timer = setInterval(() => {
+		if (Date.now() - startedAt > timeoutMs) {
+			timedOut = true
+			testProcess.abort()
+		} else if (isCancelled?.()) {
+			testProcess.abort()
+		}
+	}, POLL_INTERVAL_MS)
+
+	try {
+		await testProcess
+	} catch (error) {
+		console.warn(`[runTests] ${error instanceof Error ? error.message : String(error)}`)
+	} finally {
+		clearInterval(timer)
+	}
+
+	let report: string | undefined
+
+	if (reportPath) {
+		report = await fs.readFile(reportPath, "utf8").catch(() => undefined)
+		await fs.rm(reportPath, { force: true }).catch(() => {})
+	}
+
+	const tests = parseResults(framework, cwd, output, report)
+	const count = (status: TestCaseResult["status"]) => (tests ?? []).filter((test) => test.status === status).length
+
+	return {
+		results: {
+			framework,
+			command,
+			cwd,
+			exitCode,
+			durationMs: Date.now() - startedAt,
+			passed: count("passed"),
+			failed: count("failed"),
+			skipped: count("skipped"),
+			tests: tests ?? [],
+		},
+		output,
+		parsed: tests !== undefined && tests.length > 0,
+		timedOut,
+	}
+}
+
+function formatLocation({ file, line }: TestCaseResult): string {
+	return file ? ` (${file}${line ? `:${line}` : ""})` : ""
+}
+
+/**
+ * Formats the results of a test run for the model: the counts, the pass rate, and the failures with
+ * their location and message.
+ */
+export function formatTestRunResults(results: TestRunResults): string {
+	const { framework, passed, failed, skipped, tests, durationMs } = results
+	const passRate = getTestPassRate(results)
+	const lines = [
+		`${framework}: ${passed} passed, ${failed} failed, ${skipped} skipped (${tests.length} tests, ${(durationMs / 1000).toFixed(1)}s)`,
+		passRate === undefined
+			? "Pass rate: no test ran"
+			: `Pass rate: ${passRate}% (${passed} of ${passed + failed} tests that ran)`,
+	]
+
+	const failures = tests.filter((test) => test.status === "failed")
+
+	if (failures.length > 0) {
+		lines.push("", "Failures:")
+
+		failures.slice(0, MAX_LISTED_FAILURES).forEach((test, index) => {
+			lines.push(`${index + 1}. ${test.name}${formatLocation(test)}`)
+
+			if (test.message) {
+				lines.push(...test.message.split("\n").map((line) => `   ${line}`))
+			}
+		})
+
+		if (failures.length > MAX_LISTED_FAILURES) {
+			lines.push(`... and ${failures.length - MAX_LISTED_FAILURES} more failures.`)
+		}
+	}
+
+	return lines.join("\n")
+}
@@ -92,6 +92,7 @@ export class ProfileValidator {
 				return profile.deepInfraModelId
 			case "human-relay":
 			case "fake-ai":
+			case "replay":
 			default:
 				return undefined
 		}
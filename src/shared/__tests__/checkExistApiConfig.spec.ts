@@ -39,6 +39,11 @@ describe("checkExistKey", () => {
 		expect(checkExistKey(config)).toBe(true)
 	})
 
+	it("should return true for router profiles that route to other profiles", () => {
+		expect(checkExistKey({ apiProvider: "router", routerProfiles: [{ profileId: "profile-id" }] })).toBe(true)
+		expect(checkExistKey({ apiProvider: "router", routerProfiles: [] })).toBe(false)
+	})
+
 	it("should return false when all key fields are undefined", () => {
 		const config: ProviderSettings = {
 			apiKey: undefined,
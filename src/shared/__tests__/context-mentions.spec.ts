@@ -24,6 +24,16 @@ describe("mentionRegex and mentionRegexGlobal", () => {
 		{ input: "@terminal", expected: ["@terminal"] },
 		{ input: "@a1b2c3d", expected: ["@a1b2c3d"] }, // Git commit hash (short)
 		{ input: "@a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0", expected: ["@a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0"] }, // Git commit hash (long)
+		{ input: "@tests", expected: ["@tests"] },
+		{ input: "@symbol:parseMentions", expected: ["@symbol:parseMentions"] },
+		{ input: "@symbol:Task.say.", expected: ["@symbol:Task.say"] }, // Trailing period
+		{ input: "@diff:main..HEAD", expected: ["@diff:main..HEAD"] },
+		{ input: "@diff:origin/main...feature/x, please", expected: ["@diff:origin/main...feature/x"] },
+		{ input: "@tree:/src/core", expected: ["@tree:/src/core"] },
+		{ input: "@tree:/", expected: ["@tree:/"] },
+		{ input: "@tree:/my\\ folder", expected: ["@tree:/my\\ folder"] },
+		{ input: "@testsuite", expected: null }, // Not the exact word "tests"
+		{ input: "@symbol:", expected: null }, // Missing symbol name
 
 		// Mentions after whitespace (valid)
 		{
@@ -9,7 +9,17 @@ vi.mock("../../core/prompts/sections/custom-instructions", () => ({
 	addCustomInstructions: vi.fn().mockResolvedValue("Combined instructions"),
 }))
 
-import { FileRestrictionError, getFullModeDetails, modes, getModeSelection } from "../modes"
+import {
+	FileRestrictionError,
+	getFullModeDetails,
+	modes,
+	getModeSelection,
+	getModeBySlug,
+	getModeDiff,
+	getModeInheritanceError,
+	getInheritedModeSlugs,
+	resolveModeConfig,
+} from "../modes"
 import { isToolAllowedForMode } from "../../core/tools/validateToolUse"
 import { addCustomInstructions } from "../../core/prompts/sections/custom-instructions"
 
@@ -474,7 +484,7 @@ describe("FileRestrictionError", () => {
 				"Global instructions",
 				"/test/path",
 				"debug",
-				{ language: "en" },
+				{ language: "en", inheritedModes: [] },
 			)
 		})
 
@@ -510,6 +520,69 @@ describe("FileRestrictionError", () => {
 	})
 })
 
+describe("mode inheritance", () => {
+	const codeMode = modes.find((mode) => mode.slug === "code")!
+	const orgCode: ModeConfig = {
+		slug: "code",
+		name: "Org Code",
+		extends: "code",
+		roleDefinition: "",
+		customInstructions: "Follow the org style guide.",
+		groups: [],
+	}
+	const reviewer: ModeConfig = {
+		slug: "reviewer",
+		name: "Reviewer",
+		extends: "code",
+		roleDefinition: "You review code.",
+		groups: ["read"],
+	}
+
+	it("inherits what the mode leaves out and appends the custom instructions", () => {
+		const resolved = resolveModeConfig(orgCode, [orgCode])
+
+		expect(resolved.name).toBe("Org Code")
+		expect(resolved.roleDefinition).toBe(codeMode.roleDefinition)
+		expect(resolved.groups).toEqual(codeMode.groups)
+		expect(resolved.customInstructions).toBe(
+			[codeMode.customInstructions, "Follow the org style guide."].filter(Boolean).join("\n\n"),
+		)
+	})
+
+	it("resolves chains of custom modes", () => {
+		const customModes = [orgCode, reviewer]
+		const resolved = getModeBySlug("reviewer", customModes)!
+
+		expect(resolved.roleDefinition).toBe("You review code.")
+		expect(resolved.groups).toEqual(["read"])
+		expect(resolved.customInstructions).toContain("Follow the org style guide.")
+		expect(getInheritedModeSlugs("reviewer", customModes)).toEqual(["code"])
+		expect(getModeSelection("reviewer", undefined, customModes).roleDefinition).toBe("You review code.")
+	})
+
+	it("reports unknown parents and circular inheritance", () => {
+		const a: ModeConfig = { ...reviewer, slug: "a", extends: "b" }
+		const b: ModeConfig = { ...reviewer, slug: "b", extends: "a" }
+
+		expect(getModeInheritanceError({ ...reviewer, extends: "missing" }, [])).toBe(
+			"Mode 'reviewer' extends the unknown mode 'missing'",
+		)
+		expect(getModeInheritanceError(a, [a, b])).toBe("Mode 'a' has circular inheritance: a → b → a")
+		expect(resolveModeConfig(a, [a, b])).toBe(a)
+	})
+
+	it("lists the fields that differ from the parent", () => {
+		const diff = getModeDiff(reviewer, [reviewer])
+
+		expect(diff.map(({ field }) => field).sort()).toEqual(["groups", "name", "roleDefinition"])
+		expect(diff.find(({ field }) => field === "groups")).toEqual({
+			field: "groups",
+			parent: codeMode.groups,
+			value: ["read"],
+		})
+	})
+})
+
 describe("getModeSelection", () => {
 	const builtInAskMode = modes.find((m) => m.slug === "ask")!
 	const customModesList: ModeConfig[] = [
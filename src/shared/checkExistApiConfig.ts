@@ -5,10 +5,12 @@ export function checkExistKey(config: ProviderSettings | undefined) {
 		return false
 	}
 
-	// Special case for human-relay, fake-ai, claude-code, qwen-code, and roo providers which don't need any configuration.
+	// Special case for human-relay, fake-ai, replay, claude-code, qwen-code, and roo providers which don't need any configuration.
 	if (
 		config.apiProvider &&
-		["gemini-cli", "human-relay", "fake-ai", "claude-code", "qwen-code", "roo"].includes(config.apiProvider)
+		["gemini-cli", "human-relay", "fake-ai", "replay", "claude-code", "qwen-code", "roo"].includes(
+			config.apiProvider,
+		)
 	) {
 		return true
 	}
@@ -25,6 +27,7 @@ export function checkExistKey(config: ProviderSettings | undefined) {
 		config.ollamaModelId,
 		config.lmStudioModelId,
 		config.vsCodeLmModelSelector,
+		config.routerProfiles?.length ? config.routerProfiles : undefined,
 	].some((value) => value !== undefined)
 
 	return hasSecretKey || hasOtherConfig
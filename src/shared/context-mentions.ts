@@ -38,6 +38,14 @@ Mention regex:
     - `terminal\b`:
       - **Exact Word ('terminal')**: Matches the exact word 'terminal'.
       - **Word Boundary (`\b`)**: Ensures that 'terminal' is matched as a whole word and not as part of another word (e.g., 'terminals').
+    - `tests\b`:
+      - **Exact Word ('tests')**: Matches the exact word 'tests', which refers to the output of the last test run.
+    - `symbol:[\w$]+(?:\.[\w$]+)*`:
+      - **Symbol Name (`symbol:Name`)**: Matches an identifier, optionally qualified with dots (e.g., 'symbol:Task.say').
+    - `diff:[\w./~^@{}-]+?`:
+      - **Revision Range (`diff:main..HEAD`)**: Matches a git revision or range made of characters valid in ref names.
+    - `tree:\/(?:[^\s\\]|\\ )*?`:
+      - **Folder Outline (`tree:/path`)**: Matches a folder path like file mentions do; 'tree:/' alone is the workspace root.
   - `(?=[.,;:!?]?(?=[\s\r\n]|$))`:
 	- **Positive Lookahead (`(?=...)`)**: Ensures that the match is followed by specific patterns without including them in the match.
 	- `[.,;:!?]?`:
@@ -53,6 +61,8 @@ Mention regex:
 	- The exact word 'problems'.
 	- The exact word 'git-changes'.
     - The exact word 'terminal'.
+    - The exact word 'tests'.
+    - Symbol, diff and tree mentions such as 'symbol:parseMentions', 'diff:main..HEAD' and 'tree:/src'.
   - It ensures that any trailing punctuation marks (such as ',', '.', '!', etc.) are not included in the matched mention, allowing the punctuation to follow the mention naturally in the text.
   - **NEW**: The @ symbol must be at the start of a line or preceded by whitespace to prevent accidental matches in pasted logs.
 
@@ -61,12 +71,22 @@ Mention regex:
 
 */
 export const mentionRegex =
-	/(?:^|(?<=\s))(?<!\\)@((?:\/|\w+:\/\/)(?:[^\s\\]|\\ )+?|[a-f0-9]{7,40}\b|problems\b|git-changes\b|terminal\b)(?=[.,;:!?]?(?=[\s\r\n]|$))/
+	/(?:^|(?<=\s))(?<!\\)@((?:\/|\w+:\/\/)(?:[^\s\\]|\\ )+?|[a-f0-9]{7,40}\b|problems\b|git-changes\b|terminal\b|tests\b|symbol:[\w$]+(?:\.[\w$]+)*|diff:[\w./~^@{}-]+?|tree:\/(?:[^\s\\]|\\ )*?)(?=[.,;:!?]?(?=[\s\r\n]|$))/
 export const mentionRegexGlobal = new RegExp(mentionRegex.source, "g")
 
 // Regex to match command mentions like /command-name anywhere in text
 export const commandRegexGlobal = /(?:^|\s)\/([a-zA-Z0-9_\.-]+)(?=\s|$)/g
 
+/**
+ * Builds the slash command name of an MCP prompt, e.g. "mcp.github.review_pr". Characters that
+ * can't be part of a command name are replaced with underscores, so the dots only separate the
+ * prefix, the server name and the prompt name.
+ */
+export function getMcpPromptCommandName(serverName: string, promptName: string): string {
+	const sanitize = (name: string) => name.replace(/[^a-zA-Z0-9_-]/g, "_")
+	return `mcp.${sanitize(serverName)}.${sanitize(promptName)}`
+}
+
 export interface MentionSuggestion {
 	type: "file" | "folder" | "git" | "problems"
 	label: string
@@ -83,6 +83,12 @@ export const EMBEDDING_MODEL_PROFILES: EmbeddingModelProfiles = {
 		"qwen/qwen3-embedding-4b": { dimension: 2560, scoreThreshold: 0.4 },
 		"qwen/qwen3-embedding-8b": { dimension: 4096, scoreThreshold: 0.4 },
 	},
+	local: {
+		// ONNX models run on the CPU by the extension
+		"Xenova/all-MiniLM-L6-v2": { dimension: 384, scoreThreshold: 0.3 },
+		"Xenova/bge-small-en-v1.5": { dimension: 384, scoreThreshold: 0.4 },
+		"jinaai/jina-embeddings-v2-base-code": { dimension: 768, scoreThreshold: 0.4 },
+	},
 }
 
 /**
@@ -181,6 +187,9 @@ export function getDefaultModelId(provider: EmbedderProvider): string {
 		case "openrouter":
 			return "openai/text-embedding-3-large"
 
+		case "local":
+			return "Xenova/all-MiniLM-L6-v2"
+
 		default:
 			// Fallback for unknown providers
 			console.warn(`Unknown provider for default model ID: ${provider}. Falling back to OpenAI default.`)
@@ -48,12 +48,147 @@ export const modes = DEFAULT_MODES
 // Export the default mode slug
 export const defaultModeSlug = modes[0].slug
 
+// Custom error class for modes that extend a mode that cannot be resolved
+export class ModeInheritanceError extends Error {
+	constructor(mode: string, reason: string) {
+		super(`Mode '${mode}' ${reason}`)
+		this.name = "ModeInheritanceError"
+	}
+}
+
+/**
+ * Get the modes that a mode extends, from its parent to the root of the chain.
+ * A custom mode that extends its own slug extends the built-in mode that it overrides.
+ * Throws a ModeInheritanceError for unknown parents and circular inheritance.
+ */
+export function getModeAncestors(mode: ModeConfig, customModes?: ModeConfig[]): ModeConfig[] {
+	const ancestors: ModeConfig[] = []
+	const chain = [mode]
+
+	for (let current = mode; current.extends; ) {
+		const parentSlug = current.extends
+		const parent =
+			parentSlug === current.slug
+				? modes.find((m) => m.slug === parentSlug)
+				: (customModes?.find((m) => m.slug === parentSlug) ?? modes.find((m) => m.slug === parentSlug))
+
+		if (!parent) {
+			throw new ModeInheritanceError(
+				current.slug,
+				parentSlug === current.slug ? "extends itself" : `extends the unknown mode '${parentSlug}'`,
+			)
+		}
+
+		if (chain.includes(parent)) {
+			const cycle = [...chain.slice(chain.indexOf(parent)), parent].map((m) => m.slug)
+			throw new ModeInheritanceError(mode.slug, `has circular inheritance: ${cycle.join(" → ")}`)
+		}
+
+		ancestors.push(parent)
+		chain.push(parent)
+		current = parent
+	}
+
+	return ancestors
+}
+
+/**
+ * Get why the inheritance of a mode cannot be resolved, if it cannot.
+ */
+export function getModeInheritanceError(mode: ModeConfig, customModes?: ModeConfig[]): string | undefined {
+	try {
+		getModeAncestors(mode, customModes)
+		return undefined
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error)
+	}
+}
+
+/**
+ * Apply a mode on top of the mode that it extends:
+ * - the role definition and the groups of the child replace the parent's, unless they are empty
+ * - the custom instructions of the child are appended to the parent's
+ * - any other field of the child replaces the parent's, unless it is not set
+ * The rules directories are merged when the instructions are loaded, see addCustomInstructions.
+ */
+function mergeModeConfig(parent: ModeConfig, child: ModeConfig): ModeConfig {
+	const customInstructions = [parent.customInstructions, child.customInstructions]
+		.filter((instructions) => instructions?.trim())
+		.join("\n\n")
+
+	return {
+		...parent,
+		...Object.fromEntries(Object.entries(child).filter(([, value]) => value !== undefined)),
+		roleDefinition: child.roleDefinition || parent.roleDefinition,
+		customInstructions: customInstructions || undefined,
+		groups: child.groups.length > 0 ? child.groups : parent.groups,
+	} as ModeConfig
+}
+
+/**
+ * Resolve the effective configuration of a mode from the modes that it extends.
+ * Modes whose inheritance cannot be resolved are returned as they are.
+ */
+export function resolveModeConfig(mode: ModeConfig, customModes?: ModeConfig[]): ModeConfig {
+	if (!mode.extends) {
+		return mode
+	}
+
+	try {
+		const [root, ...descendants] = [...getModeAncestors(mode, customModes).reverse(), mode]
+		return descendants.reduce((parent, child) => mergeModeConfig(parent, child), root)
+	} catch {
+		return mode
+	}
+}
+
+/**
+ * Get the slugs of the modes that a mode extends, from the root of the chain to its parent,
+ * whose rules are loaded before the rules of the mode itself.
+ */
+export function getInheritedModeSlugs(slug: string, customModes?: ModeConfig[]): string[] {
+	const mode = customModes?.find((m) => m.slug === slug)
+	if (!mode?.extends) {
+		return []
+	}
+
+	try {
+		const slugs = getModeAncestors(mode, customModes).map((m) => m.slug)
+		return Array.from(new Set(slugs.reverse())).filter((ancestor) => ancestor !== slug)
+	} catch {
+		return []
+	}
+}
+
+/**
+ * Get the fields of the effective configuration of a mode that differ from the mode it extends.
+ */
+export function getModeDiff(
+	mode: ModeConfig,
+	customModes?: ModeConfig[],
+): { field: keyof ModeConfig; parent: unknown; value: unknown }[] {
+	const [parent] = mode.extends ? getModeAncestors(mode, customModes) : []
+	if (!parent) {
+		return []
+	}
+
+	const resolvedParent = resolveModeConfig(parent, customModes)
+	const resolved = resolveModeConfig(mode, customModes)
+	const ignoredFields = new Set(["slug", "extends", "source"])
+	const fields = new Set([...Object.keys(resolvedParent), ...Object.keys(resolved)] as (keyof ModeConfig)[])
+
+	return Array.from(fields)
+		.filter((field) => !ignoredFields.has(field))
+		.filter((field) => JSON.stringify(resolvedParent[field]) !== JSON.stringify(resolved[field]))
+		.map((field) => ({ field, parent: resolvedParent[field], value: resolved[field] }))
+}
+
 // Helper functions
 export function getModeBySlug(slug: string, customModes?: ModeConfig[]): ModeConfig | undefined {
 	// Check custom modes first
 	const customMode = customModes?.find((mode) => mode.slug === slug)
 	if (customMode) {
-		return customMode
+		return resolveModeConfig(customMode, customModes)
 	}
 	// Then check built-in modes
 	return modes.find((mode) => mode.slug === slug)
@@ -81,10 +216,10 @@ export function getAllModes(customModes?: ModeConfig[]): ModeConfig[] {
 		const index = allModes.findIndex((mode) => mode.slug === customMode.slug)
 		if (index !== -1) {
 			// Override existing mode
-			allModes[index] = customMode
+			allModes[index] = resolveModeConfig(customMode, customModes)
 		} else {
 			// Add new mode
-			allModes.push(customMode)
+			allModes.push(resolveModeConfig(customMode, customModes))
 		}
 	})
 
@@ -133,10 +268,11 @@ export function getModeSelection(mode: string, promptComponent?: PromptComponent
 
 	// If we have a custom mode, use it entirely
 	if (customMode) {
+		const resolvedMode = resolveModeConfig(customMode, customModes)
 		return {
-			roleDefinition: customMode.roleDefinition || "",
-			baseInstructions: customMode.customInstructions || "",
-			description: customMode.description || "",
+			roleDefinition: resolvedMode.roleDefinition || "",
+			baseInstructions: resolvedMode.customInstructions || "",
+			description: resolvedMode.description || "",
 		}
 	}
 
@@ -161,6 +297,14 @@ export class FileRestrictionError extends Error {
 	}
 }
 
+// Custom error class for the permissions of a mode
+export class ModePermissionError extends Error {
+	constructor(mode: string, tool: string, reason: string) {
+		super(`Tool '${tool}' in mode '${mode}' ${reason}`)
+		this.name = "ModePermissionError"
+	}
+}
+
 // Create the mode-specific default prompts
 export const defaultPrompts: Readonly<CustomModePrompts> = Object.freeze(
 	Object.fromEntries(
@@ -222,7 +366,11 @@ export async function getFullModeDetails(
 			options.globalCustomInstructions || "",
 			options.cwd,
 			modeSlug,
-			{ language: options.language, shell: options.shell },
+			{
+				language: options.language,
+				shell: options.shell,
+				inheritedModes: getInheritedModeSlugs(modeSlug, customModes),
+			},
 		)
 	}
 
@@ -135,6 +135,7 @@ todo list 中必须包含以下操作，**请勿遗漏任何一个步骤**:
 - 在执行任何更新任务前，请仔细阅读\`\${scope}\`下的requirements.md、design.md和tasks.md文件
 - 结合需求文档，分析架构设计文档、任务规划文档对现有测试用例的影响范围
 - 为关键任务生成测试用例，并更新测试位置信息到tasks.md
+- 使用\`run_tests\`工具运行生成的测试用例，记录其返回的通过、失败和跳过数量以及通过率
 - 完成后使用attempt_completion工具提供简洁但全面的总结
 
 ### 测试生成要求：
@@ -150,7 +151,7 @@ todo list 中必须包含以下操作，**请勿遗漏任何一个步骤**:
 - 让test mode来决策，不给任何内容生成上的要求
 - 不应要求所有任务都生成测试
 
-完成后使用attempt_completion工具提供变更总结，包括更新的功能点、受影响模块和验证要点。这些具体指令优先于\${mode}的常规指令。
+完成后使用attempt_completion工具提供变更总结，包括更新的功能点、受影响模块、验证要点，以及\`run_tests\`返回的实际通过率（不要估算）。这些具体指令优先于\${mode}的常规指令。
 `,
 	},
 
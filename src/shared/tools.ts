@@ -8,6 +8,8 @@ import type {
 	FileEntry,
 	BrowserActionParams,
 	GenerateImageParams,
+	CodebaseSearchMode,
+	SymbolNavigation,
 } from "@roo-code/types"
 
 export type ToolResponse = string | Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam>
@@ -79,6 +81,12 @@ export const toolParamNames = [
 	"old_string", // search_replace and edit_file parameter
 	"new_string", // search_replace and edit_file parameter
 	"expected_replacements", // edit_file parameter for multiple occurrences
+	"symbol", // find_definition, find_references, navigate_symbol and rename_symbol parameter
+	"process_id", // read_process_output, wait_for_output and stop_process parameter
+	"pattern", // wait_for_output and run_tests parameter
+	"timeout", // wait_for_output parameter
+	"framework", // run_tests parameter
+	"new_name", // rename_symbol parameter
 ] as const
 
 export type ToolParamName = (typeof toolParamNames)[number]
@@ -113,7 +121,16 @@ export type NativeToolArgs = {
 		}>
 	}
 	browser_action: BrowserActionParams
-	codebase_search: { query: string; path?: string }
+	codebase_search: { query: string; path?: string; mode?: CodebaseSearchMode }
+	find_definition: { symbol: string; path?: string }
+	find_references: { symbol: string; path?: string }
+	navigate_symbol: { path: string; line: number; symbol: string; action: SymbolNavigation }
+	rename_symbol: { path: string; line: number; symbol: string; new_name: string }
+	start_process: { command: string; cwd?: string }
+	read_process_output: { process_id: number }
+	wait_for_output: { process_id: number; pattern: string; timeout?: number }
+	stop_process: { process_id: number }
+	run_tests: { framework?: string; path?: string; pattern?: string; cwd?: string }
 	fetch_instructions: { task: string }
 	generate_image: GenerateImageParams
 	run_slash_command: { command: string; args?: string }
@@ -174,6 +191,31 @@ export interface ExecuteCommandToolUse extends ToolUse<"execute_command"> {
 	params: Partial<Pick<Record<ToolParamName, string>, "command" | "cwd">>
 }
 
+export interface StartProcessToolUse extends ToolUse<"start_process"> {
+	name: "start_process"
+	params: Partial<Pick<Record<ToolParamName, string>, "command" | "cwd">>
+}
+
+export interface ReadProcessOutputToolUse extends ToolUse<"read_process_output"> {
+	name: "read_process_output"
+	params: Partial<Pick<Record<ToolParamName, string>, "process_id">>
+}
+
+export interface WaitForOutputToolUse extends ToolUse<"wait_for_output"> {
+	name: "wait_for_output"
+	params: Partial<Pick<Record<ToolParamName, string>, "process_id" | "pattern" | "timeout">>
+}
+
+export interface StopProcessToolUse extends ToolUse<"stop_process"> {
+	name: "stop_process"
+	params: Partial<Pick<Record<ToolParamName, string>, "process_id">>
+}
+
+export interface RunTestsToolUse extends ToolUse<"run_tests"> {
+	name: "run_tests"
+	params: Partial<Pick<Record<ToolParamName, string>, "framework" | "path" | "pattern" | "cwd">>
+}
+
 export interface ReadFileToolUse extends ToolUse<"read_file"> {
 	name: "read_file"
 	params: Partial<Pick<Record<ToolParamName, string>, "args" | "path" | "start_line" | "end_line" | "files">>
@@ -191,7 +233,27 @@ export interface WriteToFileToolUse extends ToolUse<"write_to_file"> {
 
 export interface CodebaseSearchToolUse extends ToolUse<"codebase_search"> {
 	name: "codebase_search"
-	params: Partial<Pick<Record<ToolParamName, string>, "query" | "path">>
+	params: Partial<Pick<Record<ToolParamName, string>, "query" | "path" | "mode">>
+}
+
+export interface FindDefinitionToolUse extends ToolUse<"find_definition"> {
+	name: "find_definition"
+	params: Partial<Pick<Record<ToolParamName, string>, "symbol" | "path">>
+}
+
+export interface FindReferencesToolUse extends ToolUse<"find_references"> {
+	name: "find_references"
+	params: Partial<Pick<Record<ToolParamName, string>, "symbol" | "path">>
+}
+
+export interface NavigateSymbolToolUse extends ToolUse<"navigate_symbol"> {
+	name: "navigate_symbol"
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "line" | "symbol" | "action">>
+}
+
+export interface RenameSymbolToolUse extends ToolUse<"rename_symbol"> {
+	name: "rename_symbol"
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "line" | "symbol" | "new_name">>
 }
 
 export interface SearchFilesToolUse extends ToolUse<"search_files"> {
@@ -282,6 +344,15 @@ export const TOOL_DISPLAY_NAMES: Record<ToolName, string> = {
 	switch_mode: "switch modes",
 	new_task: "create new task",
 	codebase_search: "codebase search",
+	find_definition: "find symbol definitions",
+	find_references: "find symbol references",
+	navigate_symbol: "navigate symbols",
+	rename_symbol: "rename symbols",
+	start_process: "start background processes",
+	read_process_output: "read background process output",
+	wait_for_output: "wait for background process output",
+	stop_process: "stop background processes",
+	run_tests: "run tests",
 	update_todo_list: "update todo list",
 	run_slash_command: "run slash command",
 	generate_image: "generate images",
@@ -298,17 +369,27 @@ export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 			"search_files",
 			"list_files",
 			"codebase_search",
+			"find_definition",
+			"find_references",
+			"navigate_symbol",
 		],
 	},
 	edit: {
-		tools: ["apply_diff", "write_to_file", "generate_image"],
+		tools: ["apply_diff", "write_to_file", "generate_image", "rename_symbol"],
 		customTools: ["search_and_replace", "search_replace", "edit_file", "apply_patch"],
 	},
 	browser: {
 		tools: ["browser_action"],
 	},
 	command: {
-		tools: ["execute_command"],
+		tools: [
+			"execute_command",
+			"start_process",
+			"read_process_output",
+			"wait_for_output",
+			"stop_process",
+			"run_tests",
+		],
 	},
 	mcp: {
 		tools: ["use_mcp_tool", "access_mcp_resource"],
@@ -7,12 +7,14 @@ import {
 	searchCommits,
 	getCommitInfo,
 	getWorkingState,
+	getBranchDiff,
 	getGitRepositoryInfo,
 	sanitizeGitUrl,
 	extractRepositoryName,
 	getWorkspaceGitInfo,
 	convertGitUrlToHttps,
 	getGitStatus,
+	getGitHeadRef,
 } from "../git"
 import { truncateOutput } from "../../integrations/misc/extract-text"
 
@@ -34,6 +36,7 @@ vitest.mock("fs", () => ({
 	promises: {
 		access: vitest.fn(),
 		readFile: vitest.fn(),
+		stat: vitest.fn(),
 	},
 }))
 
@@ -439,6 +442,61 @@ describe("git utils", () => {
 			expect(result).toBe("Not a git repository")
 		})
 	})
+
+	describe("getBranchDiff", () => {
+		const mockStats = " src/file1.ts | 2 +-\n 1 file changed"
+
+		const mockExec = (diff: (callback: any) => void) =>
+			vitest.mocked(exec).mockImplementation((command: string, options: any, callback: any) => {
+				if (command === "git --version") {
+					callback(null, { stdout: "git version 2.39.2", stderr: "" })
+				} else if (command === "git rev-parse --git-dir") {
+					callback(null, { stdout: ".git", stderr: "" })
+				} else if (command === "git diff --stat main..HEAD --") {
+					callback(null, { stdout: mockStats, stderr: "" })
+				} else if (command === "git diff main..HEAD --") {
+					diff(callback)
+				} else {
+					callback(new Error("Unexpected command"))
+				}
+				return {} as any
+			})
+
+		it("should return the stats and the diff of the range", async () => {
+			mockExec((callback) => callback(null, { stdout: "-old line\n+new line\n", stderr: "" }))
+
+			const result = await getBranchDiff("main..HEAD", cwd)
+
+			expect(result).toBe(`Changes in main..HEAD:\n\n${mockStats.trim()}\n\n-old line\n+new line`)
+			expect(vitest.mocked(exec)).toHaveBeenCalledWith(
+				"git diff main..HEAD --",
+				expect.objectContaining({ maxBuffer: 16 * 1024 * 1024 }),
+				expect.any(Function),
+			)
+		})
+
+		it("should cut off a diff that exceeds the buffer instead of failing", async () => {
+			const partialDiff = "+added line\n".repeat(100_000)
+			mockExec((callback) =>
+				callback(
+					Object.assign(new RangeError("stdout maxBuffer length exceeded"), {
+						code: "ERR_CHILD_PROCESS_STDIO_MAXBUFFER",
+						stdout: partialDiff,
+					}),
+				),
+			)
+
+			const result = await getBranchDiff("main..HEAD", cwd)
+
+			expect(result).toContain(partialDiff.trim())
+			expect(result).toMatch(/\[Diff truncated at 16 MiB\]$/)
+		})
+
+		it("should reject invalid ranges without running git", async () => {
+			expect(await getBranchDiff("main; rm -rf /", cwd)).toBe("Invalid revision range: main; rm -rf /")
+			expect(vitest.mocked(exec)).not.toHaveBeenCalled()
+		})
+	})
 })
 
 describe("getGitRepositoryInfo", () => {
@@ -836,6 +894,49 @@ describe("getWorkspaceGitInfo", () => {
 	})
 })
 
+describe("getGitHeadRef", () => {
+	const workspaceRoot = "/test/workspace"
+	const dotGit = path.join(workspaceRoot, ".git")
+
+	beforeEach(() => {
+		vitest.clearAllMocks()
+	})
+
+	it("should return the checked out branch", async () => {
+		vitest.mocked(fs.promises.stat).mockResolvedValue({ isDirectory: () => true } as fs.Stats)
+		vitest.mocked(fs.promises.readFile).mockResolvedValue("ref: refs/heads/feature/login\n")
+
+		expect(await getGitHeadRef(workspaceRoot)).toEqual({ branch: "feature/login" })
+		expect(fs.promises.readFile).toHaveBeenCalledWith(path.join(dotGit, "HEAD"), "utf8")
+	})
+
+	it("should return the abbreviated commit hash when HEAD is detached", async () => {
+		vitest.mocked(fs.promises.stat).mockResolvedValue({ isDirectory: () => true } as fs.Stats)
+		vitest.mocked(fs.promises.readFile).mockResolvedValue("0123456789abcdef0123456789abcdef01234567\n")
+
+		expect(await getGitHeadRef(workspaceRoot)).toEqual({ commit: "0123456789ab" })
+	})
+
+	it("should follow the gitdir of a worktree", async () => {
+		const worktreeGitDir = path.join(path.sep, "repo", ".git", "worktrees", "workspace")
+		vitest.mocked(fs.promises.stat).mockResolvedValue({ isDirectory: () => false } as fs.Stats)
+		vitest
+			.mocked(fs.promises.readFile)
+			.mockImplementation(async (filePath: any) =>
+				filePath === dotGit ? `gitdir: ${worktreeGitDir}\n` : "ref: refs/heads/main\n",
+			)
+
+		expect(await getGitHeadRef(workspaceRoot)).toEqual({ branch: "main" })
+		expect(fs.promises.readFile).toHaveBeenCalledWith(path.join(worktreeGitDir, "HEAD"), "utf8")
+	})
+
+	it("should return undefined when not a git repository", async () => {
+		vitest.mocked(fs.promises.stat).mockRejectedValue(new Error("ENOENT"))
+
+		expect(await getGitHeadRef(workspaceRoot)).toBeUndefined()
+	})
+})
+
 describe("getGitStatus", () => {
 	const cwd = "/test/path"
 
@@ -12,6 +12,8 @@ import { truncateOutput } from "../integrations/misc/extract-text"
 const execAsync = promisify(exec)
 
 const GIT_OUTPUT_LINE_LIMIT = 500
+// Diffs of whole branches easily exceed the 1 MiB that exec buffers by default.
+const GIT_DIFF_MAX_BUFFER = 16 * 1024 * 1024
 interface AutoCommit {
 	(relPath: string, cwd: string, option: { model: string; editorName: string; date: string }): Promise<void>
 }
@@ -194,6 +196,57 @@ export async function getWorkspaceGitInfo(): Promise<GitRepositoryInfo> {
 	return getGitRepositoryInfo(workspaceRoot)
 }
 
+/**
+ * Resolves the HEAD file of the repository rooted at the workspace. Worktrees and submodules
+ * use a `.git` file pointing at the actual git directory instead of a `.git` directory.
+ * @param workspaceRoot The root path of the workspace
+ * @returns Path of the HEAD file, or undefined if the workspace is not the root of a git repository
+ */
+export async function getGitHeadPath(workspaceRoot: string): Promise<string | undefined> {
+	const dotGit = path.join(workspaceRoot, ".git")
+
+	try {
+		const stats = await fs.stat(dotGit)
+		if (stats.isDirectory()) {
+			return path.join(dotGit, "HEAD")
+		}
+
+		const gitDirMatch = (await fs.readFile(dotGit, "utf8")).match(/^gitdir:\s*(.+)$/m)
+		return gitDirMatch ? path.join(path.resolve(workspaceRoot, gitDirMatch[1].trim()), "HEAD") : undefined
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Checked out branch, or abbreviated commit hash when HEAD is detached.
+ */
+export type GitHeadRef = { branch: string } | { commit: string }
+
+/**
+ * Reads the checked out branch of the repository rooted at the workspace.
+ * @param workspaceRoot The root path of the workspace
+ * @returns The branch name, the abbreviated commit hash when HEAD is detached,
+ * or undefined if the workspace is not the root of a git repository
+ */
+export async function getGitHeadRef(workspaceRoot: string): Promise<GitHeadRef | undefined> {
+	const headPath = await getGitHeadPath(workspaceRoot)
+	if (!headPath) {
+		return undefined
+	}
+
+	try {
+		const head = (await fs.readFile(headPath, "utf8")).trim()
+		const branchMatch = head.match(/^ref: refs\/heads\/(.+)$/)
+		if (branchMatch) {
+			return { branch: branchMatch[1] }
+		}
+		return /^[0-9a-f]{40,64}$/i.test(head) ? { commit: head.substring(0, 12) } : undefined
+	} catch {
+		return undefined
+	}
+}
+
 async function checkGitRepo(cwd: string): Promise<boolean> {
 	try {
 		await execAsync("git rev-parse --git-dir", { cwd })
@@ -279,6 +332,36 @@ export async function searchCommits(query: string, cwd: string): Promise<GitComm
 	}
 }
 
+/**
+ * Lists the local and remote branches whose name contains the query, most recently
+ * committed first
+ * @param query Case-insensitive part of the branch name
+ * @param cwd The working directory of the repository
+ */
+export async function searchBranches(query: string, cwd: string): Promise<string[]> {
+	try {
+		const isInstalled = await checkGitInstalled()
+		if (!isInstalled || !(await checkGitRepo(cwd))) {
+			return []
+		}
+
+		const { stdout } = await execAsync(
+			`git for-each-ref --sort=-committerdate --format="%(refname:short)" refs/heads refs/remotes`,
+			{ cwd },
+		)
+		const lowerQuery = query.toLowerCase()
+
+		return stdout
+			.split("\n")
+			.map((branch) => branch.trim())
+			.filter((branch) => branch && !branch.endsWith("/HEAD") && branch.toLowerCase().includes(lowerQuery))
+			.slice(0, 15)
+	} catch (error) {
+		console.error("Error searching branches:", error)
+		return []
+	}
+}
+
 export async function getCommitInfo(hash: string, cwd: string): Promise<string> {
 	try {
 		const isInstalled = await checkGitInstalled()
@@ -349,6 +432,59 @@ export async function getWorkingState(cwd: string): Promise<string> {
 	}
 }
 
+/**
+ * Gets the changes of a revision range like "main..HEAD" or "v1.0...feature", or the changes of
+ * the working directory compared to a single revision. The output is only cut off when it exceeds
+ * the buffer of `git diff`, callers apply their own budget.
+ * @param range The revision range passed to `git diff`
+ * @param cwd The working directory of the repository
+ */
+export async function getBranchDiff(range: string, cwd: string): Promise<string> {
+	try {
+		if (!/^[\w@][\w./~^@{}-]*$/.test(range)) {
+			return `Invalid revision range: ${range}`
+		}
+
+		const isInstalled = await checkGitInstalled()
+		if (!isInstalled) {
+			return "Git is not installed"
+		}
+
+		const isRepo = await checkGitRepo(cwd)
+		if (!isRepo) {
+			return "Not a git repository"
+		}
+
+		const { stdout: stats } = await execAsync(`git diff --stat ${range} --`, {
+			cwd,
+			maxBuffer: GIT_DIFF_MAX_BUFFER,
+		})
+		if (!stats.trim()) {
+			return `No changes in ${range}`
+		}
+
+		let diff: string
+		let truncated = false
+		try {
+			;({ stdout: diff } = await execAsync(`git diff ${range} --`, { cwd, maxBuffer: GIT_DIFF_MAX_BUFFER }))
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "ERR_CHILD_PROCESS_STDIO_MAXBUFFER") {
+				throw error
+			}
+
+			// The error carries the output up to the limit.
+			diff = (error as { stdout: string }).stdout
+			truncated = true
+		}
+
+		const note = truncated ? `\n\n[Diff truncated at ${GIT_DIFF_MAX_BUFFER / 1024 / 1024} MiB]` : ""
+		return `Changes in ${range}:\n\n${stats.trim()}\n\n${diff.trim()}${note}`
+	} catch (error) {
+		console.error("Error getting branch diff:", error)
+		return `Failed to get diff: ${error instanceof Error ? error.message : String(error)}`
+	}
+}
+
 /**
  * Gets list of changed files in git (both staged and unstaged)
  * @param cwd The working directory
@@ -11,5 +11,5 @@ export function isJetbrainsPlatform(): boolean {
 }
 
 export function isCliPatform(): boolean {
-	return vscode.env.appName.includes("cli")
+	return vscode?.env?.appName?.includes("cli") ?? false
 }
@@ -0,0 +1,55 @@
+import workerpool from "workerpool"
+import { env, pipeline, type FeatureExtractionPipeline } from "@huggingface/transformers"
+
+import { type LocalEmbeddingsRequest, type LocalEmbeddingsResult } from "./types"
+
+// `pipeline` is overloaded for every task, which is too complex for the compiler to resolve.
+const createFeatureExtractor = pipeline as (
+	task: "feature-extraction",
+	model: string,
+	options: { device: "cpu"; dtype: "q8" },
+) => Promise<FeatureExtractionPipeline>
+
+let extractor: Promise<FeatureExtractionPipeline> | undefined
+let loadedModelKey: string | undefined
+
+function getExtractor({
+	modelId,
+	modelsDir,
+	allowDownload,
+}: LocalEmbeddingsRequest): Promise<FeatureExtractionPipeline> {
+	const modelKey = `${modelsDir}:${modelId}`
+
+	if (!extractor || loadedModelKey !== modelKey) {
+		// Models are only read from the models directory. Files are downloaded into it by the
+		// explicit download step, or copied there by hand on air-gapped machines.
+		env.localModelPath = modelsDir
+		env.cacheDir = modelsDir
+		env.allowLocalModels = true
+		env.allowRemoteModels = allowDownload === true
+
+		loadedModelKey = modelKey
+		extractor = createFeatureExtractor("feature-extraction", modelId, { device: "cpu", dtype: "q8" })
+		extractor.catch(() => {
+			extractor = undefined
+			loadedModelKey = undefined
+		})
+	}
+
+	return extractor
+}
+
+async function embed(request: LocalEmbeddingsRequest): Promise<LocalEmbeddingsResult> {
+	try {
+		const model = await getExtractor(request)
+		const output = await model(request.texts, { pooling: "mean", normalize: true })
+		return { success: true, embeddings: output.tolist() as number[][] }
+	} catch (error) {
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : "Unknown error",
+		}
+	}
+}
+
+workerpool.worker({ embed })
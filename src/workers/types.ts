@@ -9,3 +9,21 @@ export const countTokensResultSchema = z.discriminatedUnion("success", [
 ])
 
 export type CountTokensResult = z.infer<typeof countTokensResultSchema>
+
+export type LocalEmbeddingsRequest = {
+	modelId: string
+	modelsDir: string
+	texts: string[]
+	// Whether missing model files may be downloaded into the models directory
+	allowDownload?: boolean
+}
+
+export const localEmbeddingsResultSchema = z.discriminatedUnion("success", [
+	z.object({
+		success: z.literal(true),
+		embeddings: z.array(z.array(z.number())),
+	}),
+	z.object({ success: z.literal(false), error: z.string() }),
+])
+
+export type LocalEmbeddingsResult = z.infer<typeof localEmbeddingsResultSchema>
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react"
+import { useEvent } from "react-use"
+import { useTranslation } from "react-i18next"
+
+import type { BackgroundProcessInfo, ExtensionMessage } from "@roo-code/types"
+
+import { vscode } from "@src/utils/vscode"
+import { Button, StandardTooltip } from "@src/components/ui"
+
+interface BackgroundProcessesPanelProps {
+	taskId?: string
+}
+
+/**
+ * Lists the background processes that the current task started with `start_process`, with the end
+ * of their output, so that the user can see what runs and stop it.
+ */
+export const BackgroundProcessesPanel = ({ taskId }: BackgroundProcessesPanelProps) => {
+	const { t } = useTranslation("chat")
+	const [processes, setProcesses] = useState<BackgroundProcessInfo[]>([])
+	const [expandedId, setExpandedId] = useState<number>()
+
+	useEffect(() => {
+		vscode.postMessage({ type: "requestBackgroundProcesses" })
+	}, [])
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "backgroundProcesses") {
+			setProcesses(message.backgroundProcesses ?? [])
+		}
+	})
+
+	const taskProcesses = processes.filter((process) => taskId && process.taskId === taskId)
+
+	if (taskProcesses.length === 0) {
+		return null
+	}
+
+	return (
+		<div className="px-[15px] py-[10px] pr-[6px]" data-testid="background-processes">
+			<div className="text-vscode-descriptionForeground text-md mb-2">
+				{t("backgroundProcesses.title", { count: taskProcesses.length })}
+			</div>
+			<div className="flex flex-col gap-2 max-h-[300px] overflow-y-auto pr-2">
+				{taskProcesses.map((process) => (
+					<div
+						key={process.id}
+						className="bg-vscode-editor-background border rounded-xs p-1 overflow-hidden flex-shrink-0"
+						data-testid={`background-process-${process.id}`}>
+						<div className="flex items-center gap-2 px-2 py-1">
+							<span
+								className={
+									process.status === "running"
+										? "codicon codicon-circle-filled text-vscode-charts-green"
+										: "codicon codicon-circle-outline text-vscode-descriptionForeground"
+								}
+							/>
+							<button
+								className="flex-grow min-w-0 text-left font-mono truncate bg-transparent border-0 p-0 cursor-pointer text-vscode-foreground"
+								onClick={() => setExpandedId(expandedId === process.id ? undefined : process.id)}>
+								{process.command}
+							</button>
+							<span className="text-xs text-vscode-descriptionForeground whitespace-nowrap">
+								{process.status === "running"
+									? process.pid
+										? t("backgroundProcesses.pid", { pid: process.pid })
+										: t("backgroundProcesses.running")
+									: process.status === "exited"
+										? t("backgroundProcesses.exited", { exitCode: process.exitCode ?? "?" })
+										: t("backgroundProcesses.stopped")}
+							</span>
+							{process.status === "running" && (
+								<StandardTooltip content={t("backgroundProcesses.stop")}>
+									<Button
+										variant="ghost"
+										size="icon"
+										aria-label={t("backgroundProcesses.stop")}
+										onClick={() =>
+											vscode.postMessage({ type: "stopBackgroundProcess", processId: process.id })
+										}
+										data-testid={`stop-background-process-${process.id}`}>
+										<span className="codicon codicon-debug-stop" />
+									</Button>
+								</StandardTooltip>
+							)}
+						</div>
+						{expandedId === process.id && (
+							<pre className="m-0 px-2 py-1 max-h-[200px] overflow-auto whitespace-pre-wrap break-all text-xs text-vscode-descriptionForeground">
+								{process.outputTail || t("backgroundProcesses.noOutput")}
+							</pre>
+						)}
+					</div>
+				))}
+			</div>
+		</div>
+	)
+}
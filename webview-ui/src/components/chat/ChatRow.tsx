@@ -12,8 +12,11 @@ import type {
 	ClineApiReqInfo,
 	ClineAskUseMcpServer,
 	ClineSayTool,
+	McpSamplingInfo,
 	MultipleChoiceData,
 	MultipleChoiceResponse,
+	TestRunResults,
+	IntroducedProblemsReport,
 } from "@roo-code/types"
 
 import { Mode } from "@roo/modes"
@@ -55,6 +58,8 @@ import { CommandExecutionError } from "./CommandExecutionError"
 import { AutoApprovedRequestLimitWarning } from "./AutoApprovedRequestLimitWarning"
 import { InProgressRow, CondensationResultRow, CondensationErrorRow, TruncationResultRow } from "./context-management"
 import CodebaseSearchResultsDisplay from "./CodebaseSearchResultsDisplay"
+import { TestResultsSummary } from "./TestResultsSummary"
+import { IntroducedProblemsPanel } from "./IntroducedProblemsPanel"
 import { appendImages } from "@src/utils/imageUtils"
 import { McpExecution } from "./McpExecution"
 import { ChatTextArea } from "./ChatTextArea"
@@ -293,6 +298,9 @@ export const ChatRowContent = ({
 		selectReason,
 		isAuto,
 		originModelId,
+		routerProfileName,
+		routerModelId,
+		routerFailovers,
 		firstTokenLatency,
 		tokensPerSecond,
 		totalDuration,
@@ -333,6 +341,9 @@ export const ChatRowContent = ({
 				info?.selectReason,
 				info?.isAuto,
 				info?.originModelId,
+				info?.routerProfileName,
+				info?.routerModelId,
+				info?.routerFailovers,
 				calculatedFirstTokenLatency,
 				calculatedTokensPerSecond,
 				calculatedTotalDuration,
@@ -743,6 +754,139 @@ export const ChatRowContent = ({
 					</div>
 				)
 			}
+			case "findDefinition":
+			case "findReferences": {
+				const i18nKey =
+					tool.tool === "findDefinition"
+						? tool.path
+							? "chat:symbolGraph.wantsToFindDefinitionWithPath"
+							: "chat:symbolGraph.wantsToFindDefinition"
+						: tool.path
+							? "chat:symbolGraph.wantsToFindReferencesWithPath"
+							: "chat:symbolGraph.wantsToFindReferences"
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon(tool.tool === "findDefinition" ? "symbol-method" : "references")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={i18nKey}
+									components={{ code: <code></code> }}
+									values={{ symbol: tool.symbol, path: tool.path }}
+								/>
+							</span>
+						</div>
+						{tool.content && (
+							<div className="pl-6">
+								<CodeAccordian
+									path={tool.path || tool.symbol}
+									code={tool.content}
+									language="shellsession"
+									isExpanded={isExpanded}
+									onToggleExpand={handleToggleExpand}
+								/>
+							</div>
+						)}
+					</>
+				)
+			}
+			case "navigateSymbol": {
+				const icons: Record<string, string> = {
+					definition: "symbol-method",
+					references: "references",
+					hover: "info",
+					incoming_calls: "call-incoming",
+					outgoing_calls: "call-outgoing",
+				}
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon(icons[tool.navigation ?? ""] ?? "symbol-method")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={`chat:symbolNavigation.${tool.navigation ?? "definition"}`}
+									components={{ code: <code></code> }}
+									values={{
+										symbol: tool.symbol,
+										path: tool.lineNumber ? `${tool.path}:${tool.lineNumber}` : tool.path,
+									}}
+								/>
+							</span>
+						</div>
+						{tool.content && (
+							<div className="pl-6">
+								<CodeAccordian
+									path={tool.path || tool.symbol}
+									code={tool.content}
+									language={tool.navigation === "hover" ? "markdown" : "shellsession"}
+									isExpanded={isExpanded}
+									onToggleExpand={handleToggleExpand}
+								/>
+							</div>
+						)}
+					</>
+				)
+			}
+			case "startProcess":
+			case "readProcessOutput":
+			case "waitForProcessOutput":
+			case "stopProcess": {
+				const i18nKey =
+					tool.tool === "startProcess"
+						? tool.path
+							? "chat:backgroundProcess.wantsToStartWithCwd"
+							: "chat:backgroundProcess.wantsToStart"
+						: tool.tool === "readProcessOutput"
+							? "chat:backgroundProcess.wantsToReadOutput"
+							: tool.tool === "waitForProcessOutput"
+								? "chat:backgroundProcess.wantsToWaitForOutput"
+								: "chat:backgroundProcess.wantsToStop"
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon(tool.tool === "stopProcess" ? "debug-stop" : "server-process")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={i18nKey}
+									components={{ code: <code></code> }}
+									values={{ cwd: tool.path, id: tool.processId, pattern: tool.pattern }}
+								/>
+							</span>
+						</div>
+						{tool.command && (
+							<div className="pl-6">
+								<code className="block whitespace-pre-wrap break-all p-2 rounded-xs bg-vscode-editor-background">
+									{tool.command}
+								</code>
+							</div>
+						)}
+					</>
+				)
+			}
+			case "runTests":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("beaker")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={
+										tool.path ? "chat:testResults.wantsToRunWithCwd" : "chat:testResults.wantsToRun"
+									}
+									components={{ code: <code></code> }}
+									values={{ cwd: tool.path, framework: tool.framework }}
+								/>
+							</span>
+						</div>
+						{tool.command && (
+							<div className="pl-6">
+								<code className="block whitespace-pre-wrap break-all p-2 rounded-xs bg-vscode-editor-background">
+									{tool.command}
+								</code>
+							</div>
+						)}
+					</>
+				)
 			case "updateTodoList" as any: {
 				const todos = (tool as any).todos || []
 				// Get previous todos from the latest todos in the task context
@@ -1343,6 +1487,28 @@ export const ChatRowContent = ({
 											{isAuto ? t("chat:autoMode.selectedLLM", { selectedLLM }) : originModelId}
 										</div>
 									)}
+									{routerProfileName && (
+										<StandardTooltip
+											content={
+												routerFailovers?.length
+													? t("chat:router.failedOver", {
+															profile: routerProfileName,
+															model: routerModelId,
+															failovers: routerFailovers.join(", "),
+														})
+													: t("chat:router.servedBy", {
+															profile: routerProfileName,
+															model: routerModelId,
+														})
+											}>
+											<div className="flex items-center gap-1 text-xs text-vscode-descriptionForeground border-vscode-dropdown-border/50 border px-1.5 py-0.5 rounded-lg">
+												{routerFailovers?.length ? (
+													<span className="codicon codicon-debug-step-over text-xs" />
+												) : null}
+												{routerProfileName}
+											</div>
+										</StandardTooltip>
+									)}
 								</div>
 								<div
 									className="text-xs text-vscode-dropdown-foreground border-vscode-dropdown-border/50 border px-1.5 py-0.5 rounded-lg"
@@ -1774,6 +1940,27 @@ export const ChatRowContent = ({
 					)
 				case "shell_integration_warning":
 					return <CommandExecutionError />
+				case "mcp_sampling": {
+					const sampling = safeJsonParse<McpSamplingInfo>(message.text)
+
+					if (!sampling) {
+						return null
+					}
+
+					return (
+						<div className="text-sm opacity-40 hover:opacity-100" style={headerStyle}>
+							<span
+								className="codicon codicon-server"
+								style={{ color: normalColor, marginBottom: "-1.5px" }}></span>
+							<span className="flex-grow">
+								{t("chat:mcp.sampling", { serverName: sampling.serverName, model: sampling.model })}
+							</span>
+							<div className="text-xs text-vscode-dropdown-foreground border-vscode-dropdown-border/50 border px-1.5 py-0.5 rounded-lg">
+								${Number(sampling.cost || 0).toFixed(4)}
+							</div>
+						</div>
+					)
+				}
 				case "checkpoint_saved":
 					return (
 						<CheckpointSaved
@@ -1824,6 +2011,7 @@ export const ChatRowContent = ({
 								startLine: number
 								endLine: number
 								codeChunk: string
+								matchReason?: string
 							}>
 						}
 					} | null = null
@@ -1844,6 +2032,14 @@ export const ChatRowContent = ({
 					const { results = [] } = parsed?.content || {}
 
 					return <CodebaseSearchResultsDisplay results={results} />
+				case "test_results": {
+					const results = safeJsonParse<TestRunResults>(message.text)
+					return results ? <TestResultsSummary results={results} /> : null
+				}
+				case "introduced_problems": {
+					const report = safeJsonParse<IntroducedProblemsReport>(message.text)
+					return report ? <IntroducedProblemsPanel report={report} /> : null
+				}
 				case "user_edit_todos":
 					return <UpdateTodoListToolBlock userEdited onChange={() => {}} />
 				case "tool" as any:
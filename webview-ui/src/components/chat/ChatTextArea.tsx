@@ -4,7 +4,7 @@ import DynamicTextArea from "react-textarea-autosize"
 import { ReviewTaskStatus } from "@roo/codeReview"
 import { VolumeX, Image, WandSparkles, SendHorizontal, ListEnd, Square } from "lucide-react"
 
-import type { ExtensionMessage, RouterModels } from "@roo-code/types"
+import type { ExtensionMessage, RouterModels, WorkspaceSymbolSearchResult } from "@roo-code/types"
 
 import { mentionRegex, mentionRegexGlobal, commandRegexGlobal, unescapeSpaces } from "@roo/context-mentions"
 import { WebviewMessage } from "@roo/WebviewMessage"
@@ -15,10 +15,14 @@ import { useExtensionState } from "@src/context/ExtensionStateContext"
 import { useAppTranslation } from "@src/i18n/TranslationContext"
 import {
 	ContextMenuOptionType,
+	ContextMenuQueryItem,
 	getContextMenuOptions,
+	getMentionPrefix,
 	insertMention,
+	insertMentionPrefix,
 	removeMention,
 	shouldShowContextMenu,
+	splitDiffRange,
 	SearchResult,
 } from "@src/utils/context-mentions"
 import { cn } from "@src/lib/utils"
@@ -164,6 +168,8 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 		// }, [listApiConfigMeta, currentApiConfigName])
 
 		const [gitCommits, setGitCommits] = useState<any[]>([])
+		const [workspaceSymbols, setWorkspaceSymbols] = useState<ContextMenuQueryItem[]>([])
+		const [branches, setBranches] = useState<ContextMenuQueryItem[]>([])
 		const [showDropdown, setShowDropdown] = useState(false)
 		const [fileSearchResults, setFileSearchResults] = useState<SearchResult[]>([])
 		const [searchLoading, setSearchLoading] = useState(false)
@@ -249,6 +255,29 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					}))
 
 					setGitCommits(commits)
+				} else if (message.type === "symbolSearchResults") {
+					if (message.requestId === searchRequestId) {
+						setWorkspaceSymbols(
+							(message.symbols || []).map((symbol: WorkspaceSymbolSearchResult) => {
+								const name = symbol.containerName
+									? `${symbol.containerName}.${symbol.name}`
+									: symbol.name
+								return {
+									type: ContextMenuOptionType.Symbol,
+									value: `symbol:${/^[\w$]+(?:\.[\w$]+)*$/.test(name) ? name : symbol.name}`,
+									label: symbol.name,
+									description: `${symbol.kind} · ${symbol.path}`,
+								}
+							}),
+						)
+					}
+				} else if (message.type === "branchSearchResults") {
+					setBranches(
+						(message.branches || []).map((branch: string) => ({
+							type: ContextMenuOptionType.Diff,
+							value: branch,
+						})),
+					)
 				} else if (message.type === "fileSearchResults") {
 					setSearchLoading(false)
 					if (message.requestId === searchRequestId) {
@@ -333,6 +362,8 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				{ type: ContextMenuOptionType.Problems, value: "problems" },
 				{ type: ContextMenuOptionType.Terminal, value: "terminal" },
 				...gitCommits,
+				...workspaceSymbols,
+				...branches,
 				...openedTabs
 					.filter((tab) => tab.path)
 					.map((tab) => ({
@@ -347,7 +378,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 						value: path,
 					})),
 			]
-		}, [filePaths, gitCommits, openedTabs])
+		}, [filePaths, gitCommits, workspaceSymbols, branches, openedTabs])
 
 		useEffect(() => {
 			const handleClickOutside = (event: MouseEvent) => {
@@ -368,6 +399,26 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			}
 		}, [showContextMenu, setShowContextMenu])
 
+		// Symbol and diff mentions are completed from the language servers and the git branches,
+		// the other mentions from the workspace files.
+		const requestMentionSearch = useCallback((query: string) => {
+			const reqId = Math.random().toString(36).substring(2, 9)
+			setSearchRequestId(reqId)
+
+			if (query.startsWith("symbol:")) {
+				vscode.postMessage({ type: "searchSymbols", query: query.slice("symbol:".length), requestId: reqId })
+			} else if (query.startsWith("diff:")) {
+				vscode.postMessage({ type: "searchBranches", query: splitDiffRange(query.slice("diff:".length)).ref })
+			} else {
+				setSearchLoading(true)
+				vscode.postMessage({
+					type: "searchFiles",
+					query: unescapeSpaces(query.startsWith("tree:/") ? query.slice("tree:/".length) : query),
+					requestId: reqId,
+				})
+			}
+		}, [])
+
 		const handleMentionSelect = useCallback(
 			(type: ContextMenuOptionType, value?: string) => {
 				if (type === ContextMenuOptionType.NoResults) {
@@ -404,6 +455,26 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					return
 				}
 
+				const mentionPrefix = getMentionPrefix(type)
+				if (mentionPrefix && !value) {
+					// Keep the menu open so the symbol, range or folder can be picked next.
+					if (textAreaRef.current) {
+						const { newValue, newPosition } = insertMentionPrefix(
+							textAreaRef.current.value,
+							cursorPosition,
+							mentionPrefix,
+						)
+						setInputValue(newValue)
+						setCursorPosition(newPosition)
+						setIntendedCursorPosition(newPosition)
+						setSearchQuery(mentionPrefix)
+						setSelectedMenuIndex(0)
+						requestMentionSearch(mentionPrefix)
+						textAreaRef.current.focus()
+					}
+					return
+				}
+
 				if (
 					type === ContextMenuOptionType.File ||
 					type === ContextMenuOptionType.Folder ||
@@ -431,6 +502,8 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 						insertValue = "problems"
 					} else if (type === ContextMenuOptionType.Terminal) {
 						insertValue = "terminal"
+					} else if (type === ContextMenuOptionType.Tests) {
+						insertValue = "tests"
 					} else if (type === ContextMenuOptionType.Git) {
 						insertValue = value || ""
 					} else if (type === ContextMenuOptionType.Command) {
@@ -681,19 +754,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 							}
 
 							// Set a timeout to debounce the search requests.
-							searchTimeoutRef.current = setTimeout(() => {
-								// Generate a request ID for this search.
-								const reqId = Math.random().toString(36).substring(2, 9)
-								setSearchRequestId(reqId)
-								setSearchLoading(true)
-
-								// Send message to extension to search files.
-								vscode.postMessage({
-									type: "searchFiles",
-									query: unescapeSpaces(query),
-									requestId: reqId,
-								})
-							}, 200) // 200ms debounce.
+							searchTimeoutRef.current = setTimeout(() => requestMentionSearch(query), 200) // 200ms debounce.
 						} else {
 							setSelectedMenuIndex(3) // Set to "File" option by default.
 						}
@@ -704,7 +765,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					setFileSearchResults([]) // Clear file search results.
 				}
 			},
-			[setInputValue, setSearchRequestId, setFileSearchResults, setSearchLoading, resetOnInputChange],
+			[setInputValue, setFileSearchResults, resetOnInputChange, requestMentionSearch],
 		)
 
 		useEffect(() => {
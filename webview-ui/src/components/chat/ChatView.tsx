@@ -60,6 +60,7 @@ import SystemPromptWarning from "./SystemPromptWarning"
 import ProfileViolationWarning from "./ProfileViolationWarning"
 import { CheckpointWarning } from "./CheckpointWarning"
 import { QueuedMessages } from "./QueuedMessages"
+import { BackgroundProcessesPanel } from "./BackgroundProcessesPanel"
 import ChatSearch from "./ChatSearch"
 // import DismissibleUpsell from "../common/DismissibleUpsell"
 // import { useCloudUpsell } from "@src/hooks/useCloudUpsell"
@@ -1874,6 +1875,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				</>
 			)}
 
+			<BackgroundProcessesPanel taskId={currentTaskItem?.id} />
 			<QueuedMessages
 				queue={messageQueue}
 				onRemove={(index) => {
@@ -12,7 +12,12 @@ import {
 import * as ProgressPrimitive from "@radix-ui/react-progress"
 import { AlertTriangle } from "lucide-react"
 
-import { type IndexingStatus, type EmbedderProvider, CODEBASE_INDEX_DEFAULTS } from "@roo-code/types"
+import {
+	type IndexingStatus,
+	type EmbedderProvider,
+	type VectorStoreProvider,
+	CODEBASE_INDEX_DEFAULTS,
+} from "@roo-code/types"
 
 import { vscode } from "@src/utils/vscode"
 import { useExtensionState } from "@src/context/ExtensionStateContext"
@@ -61,6 +66,7 @@ interface LocalCodeIndexSettings {
 	// Global state settings
 	codebaseIndexEnabled: boolean
 	codebaseIndexQdrantUrl: string
+	codebaseIndexVectorStoreProvider: VectorStoreProvider
 	codebaseIndexEmbedderProvider: EmbedderProvider
 	codebaseIndexEmbedderBaseUrl?: string
 	codebaseIndexEmbedderModelId: string
@@ -85,13 +91,17 @@ interface LocalCodeIndexSettings {
 }
 
 // Validation schema for codebase index settings
-const createValidationSchema = (provider: EmbedderProvider, t: any) => {
+const createValidationSchema = (provider: EmbedderProvider, vectorStoreProvider: VectorStoreProvider, t: any) => {
 	const baseSchema = z.object({
 		codebaseIndexEnabled: z.boolean(),
-		codebaseIndexQdrantUrl: z
-			.string()
-			.min(1, t("settings:codeIndex.validation.qdrantUrlRequired"))
-			.url(t("settings:codeIndex.validation.invalidQdrantUrl")),
+		// The local vector store needs no connection settings
+		codebaseIndexQdrantUrl:
+			vectorStoreProvider === "local"
+				? z.string().optional()
+				: z
+						.string()
+						.min(1, t("settings:codeIndex.validation.qdrantUrlRequired"))
+						.url(t("settings:codeIndex.validation.invalidQdrantUrl")),
 		codeIndexQdrantApiKey: z.string().optional(),
 	})
 
@@ -177,6 +187,13 @@ const createValidationSchema = (provider: EmbedderProvider, t: any) => {
 					.min(1, t("settings:codeIndex.validation.modelSelectionRequired")),
 			})
 
+		case "local":
+			return baseSchema.extend({
+				codebaseIndexEmbedderModelId: z
+					.string()
+					.min(1, t("settings:codeIndex.validation.modelSelectionRequired")),
+			})
+
 		default:
 			return baseSchema
 	}
@@ -198,6 +215,10 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 	const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle")
 	const [saveError, setSaveError] = useState<string | null>(null)
 
+	// Vector store migration/clear state
+	const [vectorStoreOperation, setVectorStoreOperation] = useState<"idle" | "migrating" | "clearing">("idle")
+	const [vectorStoreOperationMessage, setVectorStoreOperationMessage] = useState<string | null>(null)
+
 	// Form validation state
 	const [formErrors, setFormErrors] = useState<Record<string, string>>({})
 
@@ -209,6 +230,7 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 	const getDefaultSettings = (): LocalCodeIndexSettings => ({
 		codebaseIndexEnabled: defaultCodebaseIndexEnabled,
 		codebaseIndexQdrantUrl: "",
+		codebaseIndexVectorStoreProvider: "qdrant",
 		codebaseIndexEmbedderProvider: "openai",
 		codebaseIndexEmbedderBaseUrl: "",
 		codebaseIndexEmbedderModelId: "",
@@ -245,6 +267,7 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 			const settings = {
 				codebaseIndexEnabled: codebaseIndexConfig.codebaseIndexEnabled ?? defaultCodebaseIndexEnabled,
 				codebaseIndexQdrantUrl: codebaseIndexConfig.codebaseIndexQdrantUrl || "",
+				codebaseIndexVectorStoreProvider: codebaseIndexConfig.codebaseIndexVectorStoreProvider || "qdrant",
 				codebaseIndexEmbedderProvider: codebaseIndexConfig.codebaseIndexEmbedderProvider || "openai",
 				codebaseIndexEmbedderBaseUrl: codebaseIndexConfig.codebaseIndexEmbedderBaseUrl || "",
 				codebaseIndexEmbedderModelId: codebaseIndexConfig.codebaseIndexEmbedderModelId || "",
@@ -341,6 +364,35 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 		return () => window.removeEventListener("message", handleMessage)
 	}, [t, cwd])
 
+	// Listen for vector store migration/clear results
+	useEffect(() => {
+		const handleMessage = (event: MessageEvent) => {
+			if (event.data.type === "codeIndexVectorStoreOperationResult") {
+				const { operation, provider, success, count, error } = event.data.values
+				setVectorStoreOperation("idle")
+				if (!success) {
+					setVectorStoreOperationMessage(error || t("settings:codeIndex.vectorStoreOperationFailed"))
+				} else if (operation === "migrate") {
+					setVectorStoreOperationMessage(
+						t("settings:codeIndex.vectorStoreMigrated", {
+							count,
+							provider: t(`settings:codeIndex.vectorStoreProviders.${provider}`),
+						}),
+					)
+				} else {
+					setVectorStoreOperationMessage(
+						t("settings:codeIndex.vectorStoreCleared", {
+							provider: t(`settings:codeIndex.vectorStoreProviders.${provider}`),
+						}),
+					)
+				}
+			}
+		}
+
+		window.addEventListener("message", handleMessage)
+		return () => window.removeEventListener("message", handleMessage)
+	}, [t])
+
 	// Listen for secret status
 	useEffect(() => {
 		const handleMessage = (event: MessageEvent) => {
@@ -450,7 +502,11 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 
 	// Validation function
 	const validateSettings = (): boolean => {
-		const schema = createValidationSchema(currentSettings.codebaseIndexEmbedderProvider, t)
+		const schema = createValidationSchema(
+			currentSettings.codebaseIndexEmbedderProvider,
+			currentSettings.codebaseIndexVectorStoreProvider,
+			t,
+		)
 
 		// Prepare data for validation
 		const dataToValidate: any = {}
@@ -763,6 +819,9 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 												<SelectItem value="openrouter">
 													{t("settings:codeIndex.openRouterProvider")}
 												</SelectItem>
+												<SelectItem value="local">
+													{t("settings:codeIndex.localEmbedderProvider")}
+												</SelectItem>
 											</SelectContent>
 										</Select>
 									</div>
@@ -1155,6 +1214,53 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 										</>
 									)}
 
+									{currentSettings.codebaseIndexEmbedderProvider === "local" && (
+										<>
+											<p className="text-xs text-vscode-descriptionForeground mt-0 mb-0">
+												{t("settings:codeIndex.localEmbedderDescription")}
+											</p>
+
+											<div className="space-y-2">
+												<label className="text-sm font-medium">
+													{t("settings:codeIndex.modelLabel")}
+												</label>
+												<VSCodeDropdown
+													value={currentSettings.codebaseIndexEmbedderModelId}
+													onChange={(e: any) =>
+														updateSetting("codebaseIndexEmbedderModelId", e.target.value)
+													}
+													className={cn("w-full", {
+														"border-red-500": formErrors.codebaseIndexEmbedderModelId,
+													})}>
+													<VSCodeOption value="" className="p-2">
+														{t("settings:codeIndex.selectModel")}
+													</VSCodeOption>
+													{getAvailableModels().map((modelId) => {
+														const model =
+															codebaseIndexModels?.[
+																currentSettings.codebaseIndexEmbedderProvider as keyof typeof codebaseIndexModels
+															]?.[modelId]
+														return (
+															<VSCodeOption key={modelId} value={modelId} className="p-2">
+																{modelId}{" "}
+																{model
+																	? t("settings:codeIndex.modelDimensions", {
+																			dimension: model.dimension,
+																		})
+																	: ""}
+															</VSCodeOption>
+														)
+													})}
+												</VSCodeDropdown>
+												{formErrors.codebaseIndexEmbedderModelId && (
+													<p className="text-xs text-vscode-errorForeground mt-1 mb-0">
+														{formErrors.codebaseIndexEmbedderModelId}
+													</p>
+												)}
+											</div>
+										</>
+									)}
+
 									{currentSettings.codebaseIndexEmbedderProvider === "vercel-ai-gateway" && (
 										<>
 											<div className="space-y-2">
@@ -1432,54 +1538,112 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 										</>
 									)}
 
-									{/* Qdrant Settings */}
+									{/* Vector Store Settings */}
 									<div className="space-y-2">
 										<label className="text-sm font-medium">
-											{t("settings:codeIndex.qdrantUrlLabel")}
+											{t("settings:codeIndex.vectorStoreProviderLabel")}
 										</label>
-										<VSCodeTextField
-											value={currentSettings.codebaseIndexQdrantUrl || ""}
-											onInput={(e: any) =>
-												updateSetting("codebaseIndexQdrantUrl", e.target.value)
-											}
-											onBlur={(e: any) => {
-												// Set default Qdrant URL if field is empty
-												if (!e.target.value.trim()) {
-													currentSettings.codebaseIndexQdrantUrl = DEFAULT_QDRANT_URL
-													updateSetting("codebaseIndexQdrantUrl", DEFAULT_QDRANT_URL)
-												}
-											}}
-											placeholder={t("settings:codeIndex.qdrantUrlPlaceholder")}
-											className={cn("w-full", {
-												"border-red-500": formErrors.codebaseIndexQdrantUrl,
-											})}
-										/>
-										{formErrors.codebaseIndexQdrantUrl && (
-											<p className="text-xs text-vscode-errorForeground mt-1 mb-0">
-												{formErrors.codebaseIndexQdrantUrl}
+										<Select
+											value={currentSettings.codebaseIndexVectorStoreProvider}
+											onValueChange={(value: VectorStoreProvider) =>
+												updateSetting("codebaseIndexVectorStoreProvider", value)
+											}>
+											<SelectTrigger className="w-full">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value="qdrant">
+													{t("settings:codeIndex.vectorStoreProviders.qdrant")}
+												</SelectItem>
+												<SelectItem value="local">
+													{t("settings:codeIndex.vectorStoreProviders.local")}
+												</SelectItem>
+											</SelectContent>
+										</Select>
+										{currentSettings.codebaseIndexVectorStoreProvider === "local" && (
+											<p className="text-xs text-vscode-descriptionForeground mt-1 mb-0">
+												{t("settings:codeIndex.localVectorStoreDescription")}
 											</p>
 										)}
 									</div>
 
-									<div className="space-y-2">
-										<label className="text-sm font-medium">
-											{t("settings:codeIndex.qdrantApiKeyLabel")}
-										</label>
-										<VSCodeTextField
-											type="password"
-											value={currentSettings.codeIndexQdrantApiKey || ""}
-											onInput={(e: any) => updateSetting("codeIndexQdrantApiKey", e.target.value)}
-											placeholder={t("settings:codeIndex.qdrantApiKeyPlaceholder")}
-											className={cn("w-full", {
-												"border-red-500": formErrors.codeIndexQdrantApiKey,
-											})}
+									{/* Qdrant Settings */}
+									{currentSettings.codebaseIndexVectorStoreProvider === "qdrant" && (
+										<>
+											<div className="space-y-2">
+												<label className="text-sm font-medium">
+													{t("settings:codeIndex.qdrantUrlLabel")}
+												</label>
+												<VSCodeTextField
+													value={currentSettings.codebaseIndexQdrantUrl || ""}
+													onInput={(e: any) =>
+														updateSetting("codebaseIndexQdrantUrl", e.target.value)
+													}
+													onBlur={(e: any) => {
+														// Set default Qdrant URL if field is empty
+														if (!e.target.value.trim()) {
+															currentSettings.codebaseIndexQdrantUrl = DEFAULT_QDRANT_URL
+															updateSetting("codebaseIndexQdrantUrl", DEFAULT_QDRANT_URL)
+														}
+													}}
+													placeholder={t("settings:codeIndex.qdrantUrlPlaceholder")}
+													className={cn("w-full", {
+														"border-red-500": formErrors.codebaseIndexQdrantUrl,
+													})}
+												/>
+												{formErrors.codebaseIndexQdrantUrl && (
+													<p className="text-xs text-vscode-errorForeground mt-1 mb-0">
+														{formErrors.codebaseIndexQdrantUrl}
+													</p>
+												)}
+											</div>
+
+											<div className="space-y-2">
+												<label className="text-sm font-medium">
+													{t("settings:codeIndex.qdrantApiKeyLabel")}
+												</label>
+												<VSCodeTextField
+													type="password"
+													value={currentSettings.codeIndexQdrantApiKey || ""}
+													onInput={(e: any) =>
+														updateSetting("codeIndexQdrantApiKey", e.target.value)
+													}
+													placeholder={t("settings:codeIndex.qdrantApiKeyPlaceholder")}
+													className={cn("w-full", {
+														"border-red-500": formErrors.codeIndexQdrantApiKey,
+													})}
+												/>
+												{formErrors.codeIndexQdrantApiKey && (
+													<p className="text-xs text-vscode-errorForeground mt-1 mb-0">
+														{formErrors.codeIndexQdrantApiKey}
+													</p>
+												)}
+											</div>
+										</>
+									)}
+
+									{/* Vector Store Migration */}
+									{initialSettings.codebaseIndexEnabled && (
+										<VectorStoreMaintenance
+											activeProvider={initialSettings.codebaseIndexVectorStoreProvider}
+											canMigrate={indexingStatus.systemStatus === "Indexed" && !hasUnsavedChanges}
+											operation={vectorStoreOperation}
+											message={vectorStoreOperationMessage}
+											onMigrate={(target) => {
+												setVectorStoreOperation("migrating")
+												setVectorStoreOperationMessage(null)
+												vscode.postMessage({
+													type: "migrateCodeIndexVectorStore",
+													text: target,
+												})
+											}}
+											onClear={(target) => {
+												setVectorStoreOperation("clearing")
+												setVectorStoreOperationMessage(null)
+												vscode.postMessage({ type: "clearCodeIndexVectorStore", text: target })
+											}}
 										/>
-										{formErrors.codeIndexQdrantApiKey && (
-											<p className="text-xs text-vscode-errorForeground mt-1 mb-0">
-												{formErrors.codeIndexQdrantApiKey}
-											</p>
-										)}
-									</div>
+									)}
 								</div>
 							)}
 						</div>
@@ -1683,3 +1847,71 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 		</>
 	)
 }
+
+interface VectorStoreMaintenanceProps {
+	activeProvider: VectorStoreProvider
+	canMigrate: boolean
+	operation: "idle" | "migrating" | "clearing"
+	message: string | null
+	onMigrate: (target: VectorStoreProvider) => void
+	onClear: (target: VectorStoreProvider) => void
+}
+
+/**
+ * Actions for moving the index to the other vector store backend and for deleting
+ * the index data the inactive backend still holds.
+ */
+const VectorStoreMaintenance: React.FC<VectorStoreMaintenanceProps> = ({
+	activeProvider,
+	canMigrate,
+	operation,
+	message,
+	onMigrate,
+	onClear,
+}) => {
+	const { t } = useAppTranslation()
+	const otherProvider: VectorStoreProvider = activeProvider === "local" ? "qdrant" : "local"
+	const otherProviderName = t(`settings:codeIndex.vectorStoreProviders.${otherProvider}`)
+	const busy = operation !== "idle"
+
+	return (
+		<div className="space-y-2">
+			<label className="text-sm font-medium">{t("settings:codeIndex.vectorStoreMaintenanceLabel")}</label>
+			<div className="flex flex-wrap gap-2">
+				<StandardTooltip content={t("settings:codeIndex.migrateVectorStoreDescription")}>
+					<Button variant="secondary" disabled={!canMigrate || busy} onClick={() => onMigrate(otherProvider)}>
+						{operation === "migrating"
+							? t("settings:codeIndex.migratingVectorStore")
+							: t("settings:codeIndex.migrateVectorStoreButton", { provider: otherProviderName })}
+					</Button>
+				</StandardTooltip>
+				<AlertDialog>
+					<AlertDialogTrigger asChild>
+						<Button variant="secondary" disabled={busy}>
+							{t("settings:codeIndex.clearVectorStoreButton", { provider: otherProviderName })}
+						</Button>
+					</AlertDialogTrigger>
+					<AlertDialogContent>
+						<AlertDialogHeader>
+							<AlertDialogTitle>{t("settings:codeIndex.clearDataDialog.title")}</AlertDialogTitle>
+							<AlertDialogDescription>
+								{t("settings:codeIndex.clearVectorStoreDialogDescription", {
+									provider: otherProviderName,
+								})}
+							</AlertDialogDescription>
+						</AlertDialogHeader>
+						<AlertDialogFooter>
+							<AlertDialogCancel>
+								{t("settings:codeIndex.clearDataDialog.cancelButton")}
+							</AlertDialogCancel>
+							<AlertDialogAction onClick={() => onClear(otherProvider)}>
+								{t("settings:codeIndex.clearDataDialog.confirmButton")}
+							</AlertDialogAction>
+						</AlertDialogFooter>
+					</AlertDialogContent>
+				</AlertDialog>
+			</div>
+			{message && <p className="text-xs text-vscode-descriptionForeground mt-1 mb-0">{message}</p>}
+		</div>
+	)
+}
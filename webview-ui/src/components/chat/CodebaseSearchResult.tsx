@@ -10,15 +10,27 @@ interface CodebaseSearchResultProps {
 	endLine: number
 	snippet: string
 	language: string
+	matchReason?: string
+	/** Name and path of the workspace folder the result belongs to, set when searching a multi-root workspace */
+	workspaceFolder?: string
+	workspaceRoot?: string
 }
 
-const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, score, startLine, endLine }) => {
+const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({
+	filePath,
+	score,
+	startLine,
+	endLine,
+	matchReason,
+	workspaceFolder,
+	workspaceRoot,
+}) => {
 	const { t } = useTranslation("chat")
 
 	const handleClick = () => {
 		vscode.postMessage({
 			type: "openFile",
-			text: "./" + filePath,
+			text: workspaceRoot ? `${workspaceRoot}/${filePath}` : "./" + filePath,
 			values: {
 				line: startLine,
 			},
@@ -26,7 +38,12 @@ const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, s
 	}
 
 	return (
-		<StandardTooltip content={t("codebaseSearch.resultTooltip", { score: score.toFixed(3) })}>
+		<StandardTooltip
+			content={
+				matchReason
+					? t("codebaseSearch.resultTooltipWithMatch", { score: score.toFixed(3), matchReason })
+					: t("codebaseSearch.resultTooltip", { score: score.toFixed(3) })
+			}>
 			<div
 				onClick={handleClick}
 				className="p-2 border border-[var(--vscode-editorGroup-border)] cursor-pointer hover:bg-secondary hover:text-white">
@@ -35,7 +52,7 @@ const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, s
 						{filePath.split("/").at(-1)}:{startLine === endLine ? startLine : `${startLine}-${endLine}`}
 					</span>
 					<span className="text-gray-500 truncate min-w-0 flex-1">
-						{filePath.split("/").slice(0, -1).join("/")}
+						{[workspaceFolder, ...filePath.split("/").slice(0, -1)].filter(Boolean).join("/")}
 					</span>
 					<span className="text-xs text-vscode-descriptionForeground whitespace-nowrap ml-auto opacity-60">
 						{score.toFixed(3)}
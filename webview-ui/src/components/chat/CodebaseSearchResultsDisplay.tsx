@@ -9,6 +9,9 @@ interface CodebaseSearchResultsDisplayProps {
 		startLine: number
 		endLine: number
 		codeChunk: string
+		matchReason?: string
+		workspaceFolder?: string
+		workspaceRoot?: string
 	}>
 }
 
@@ -41,6 +44,9 @@ const CodebaseSearchResultsDisplay: React.FC<CodebaseSearchResultsDisplayProps>
 							endLine={result.endLine}
 							language="plaintext"
 							snippet={result.codeChunk}
+							matchReason={result.matchReason}
+							workspaceFolder={result.workspaceFolder}
+							workspaceRoot={result.workspaceRoot}
 						/>
 					))}
 				</div>
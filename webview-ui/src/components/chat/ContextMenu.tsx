@@ -146,6 +146,40 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 				return <span>{t("chat:contextMenu.url")}</span>
 			case ContextMenuOptionType.NoResults:
 				return <span>{t("chat:contextMenu.noResults")}</span>
+			case ContextMenuOptionType.Tests:
+				return <span>{t("chat:contextMenu.tests")}</span>
+			case ContextMenuOptionType.Symbol:
+			case ContextMenuOptionType.Diff:
+			case ContextMenuOptionType.FolderTree:
+				if (option.value) {
+					return (
+						<div style={{ display: "flex", flexDirection: "column", gap: 0 }}>
+							<span style={{ lineHeight: "1.2" }}>{option.label ?? option.value}</span>
+							{option.description && (
+								<span
+									style={{
+										fontSize: "0.85em",
+										opacity: 0.7,
+										whiteSpace: "nowrap",
+										overflow: "hidden",
+										textOverflow: "ellipsis",
+										lineHeight: "1.2",
+									}}>
+									{option.description}
+								</span>
+							)}
+						</div>
+					)
+				}
+				return (
+					<span>
+						{option.type === ContextMenuOptionType.Symbol
+							? t("chat:contextMenu.symbol")
+							: option.type === ContextMenuOptionType.Diff
+								? t("chat:contextMenu.diff")
+								: t("chat:contextMenu.folderTree")}
+					</span>
+				)
 			case ContextMenuOptionType.Git:
 				if (option.value) {
 					return (
@@ -236,6 +270,14 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 				return "link"
 			case ContextMenuOptionType.Git:
 				return "git-commit"
+			case ContextMenuOptionType.Symbol:
+				return "symbol-class"
+			case ContextMenuOptionType.Diff:
+				return "diff"
+			case ContextMenuOptionType.FolderTree:
+				return "list-tree"
+			case ContextMenuOptionType.Tests:
+				return "beaker"
 			case ContextMenuOptionType.NoResults:
 				return "info"
 			default:
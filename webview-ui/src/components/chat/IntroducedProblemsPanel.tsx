@@ -0,0 +1,67 @@
+import { useState } from "react"
+import { useTranslation } from "react-i18next"
+
+import type { IntroducedProblem, IntroducedProblemsReport } from "@roo-code/types"
+
+import { vscode } from "@src/utils/vscode"
+
+interface IntroducedProblemsPanelProps {
+	report: IntroducedProblemsReport
+}
+
+/**
+ * Lists the problems that a task introduced in the files it edited, when they kept it from
+ * completing or were left when it completed. Problems open their file at their line when clicked.
+ */
+export const IntroducedProblemsPanel = ({ report }: IntroducedProblemsPanelProps) => {
+	const { t } = useTranslation("chat")
+	const [expanded, setExpanded] = useState(true)
+	const files = new Map<string, IntroducedProblem[]>()
+
+	for (const problem of report.problems) {
+		files.set(problem.file, [...(files.get(problem.file) ?? []), problem])
+	}
+
+	const openProblem = ({ file, line }: IntroducedProblem) => {
+		vscode.postMessage({ type: "openFile", text: `./${file}`, values: { line } })
+	}
+
+	return (
+		<div className="flex flex-col gap-1" data-testid="introduced-problems">
+			<div
+				onClick={() => setExpanded(!expanded)}
+				className="cursor-pointer flex items-center gap-2 px-2 py-2 border bg-vscode-editor-background border-vscode-editorGroup-border">
+				<span className="codicon codicon-error text-vscode-errorForeground" />
+				<span className="font-medium">{t("introducedProblems.title", { count: report.problems.length })}</span>
+				<span className="text-sm opacity-60 ml-auto">
+					{report.blocked ? t("introducedProblems.blocked") : t("introducedProblems.notBlocked")}
+				</span>
+				<span className={`codicon codicon-chevron-${expanded ? "up" : "down"}`} />
+			</div>
+			{expanded &&
+				Array.from(files, ([file, problems]) => (
+					<div key={file} className="px-2 py-1 border border-vscode-editorGroup-border">
+						<div className="font-medium text-sm mb-1">{file}</div>
+						{problems.map((problem, index) => (
+							<div
+								key={index}
+								className="flex items-baseline gap-2 cursor-pointer text-sm min-w-0"
+								onClick={() => openProblem(problem)}
+								data-testid="introduced-problem">
+								<span
+									className={`codicon codicon-${problem.severity === "error" ? "error text-vscode-errorForeground" : "warning text-vscode-editorWarning-foreground"}`}
+								/>
+								<span className="text-vscode-textLink-foreground whitespace-nowrap">
+									{problem.line}:{problem.column}
+								</span>
+								<span className="break-words flex-1">{problem.message}</span>
+								{problem.source && (
+									<span className="opacity-60 whitespace-nowrap">{problem.source}</span>
+								)}
+							</div>
+						))}
+					</div>
+				))}
+		</div>
+	)
+}
@@ -0,0 +1,84 @@
+import { useState } from "react"
+import { useTranslation } from "react-i18next"
+
+import { type TestCaseResult, type TestRunResults, getTestPassRate } from "@roo-code/types"
+
+import { vscode } from "@src/utils/vscode"
+
+interface TestResultsSummaryProps {
+	results: TestRunResults
+}
+
+/**
+ * Summarizes a `run_tests` call: the passed, failed and skipped counts, the pass rate, and the failed
+ * tests with the file and line where they failed. Failures open their file when clicked.
+ */
+export const TestResultsSummary = ({ results }: TestResultsSummaryProps) => {
+	const { t } = useTranslation("chat")
+	const failures = results.tests.filter((test) => test.status === "failed")
+	const passRate = getTestPassRate(results)
+	const [expanded, setExpanded] = useState(failures.length > 0)
+	const [expandedFailure, setExpandedFailure] = useState<number>()
+
+	const openFailure = ({ file, line }: TestCaseResult) => {
+		if (file) {
+			vscode.postMessage({ type: "openFile", text: `${results.cwd}/${file}`, values: { line: line ?? 0 } })
+		}
+	}
+
+	return (
+		<div className="flex flex-col gap-1" data-testid="test-results">
+			<div
+				onClick={() => setExpanded(!expanded)}
+				className="cursor-pointer flex items-center gap-2 px-2 py-2 border bg-vscode-editor-background border-vscode-editorGroup-border">
+				<span
+					className={`codicon codicon-${results.failed > 0 ? "error text-vscode-errorForeground" : "pass text-vscode-charts-green"}`}
+				/>
+				<span className="font-medium">{t("testResults.title", { framework: results.framework })}</span>
+				<span className="flex gap-3 text-sm ml-auto">
+					<span className="text-vscode-charts-green">
+						{t("testResults.passed", { count: results.passed })}
+					</span>
+					<span className={results.failed > 0 ? "text-vscode-errorForeground" : "opacity-60"}>
+						{t("testResults.failed", { count: results.failed })}
+					</span>
+					<span className="opacity-60">{t("testResults.skipped", { count: results.skipped })}</span>
+					{passRate !== undefined && (
+						<span className="font-medium">{t("testResults.passRate", { rate: passRate })}</span>
+					)}
+				</span>
+				{failures.length > 0 && <span className={`codicon codicon-chevron-${expanded ? "up" : "down"}`} />}
+			</div>
+			{expanded && failures.length > 0 && (
+				<div className="flex flex-col gap-1">
+					{failures.map((test, index) => (
+						<div
+							key={index}
+							className="px-2 py-1 border border-vscode-editorGroup-border"
+							data-testid={`test-failure-${index}`}>
+							<div className="flex items-center gap-2 min-w-0">
+								<span
+									className="cursor-pointer truncate flex-1"
+									onClick={() => setExpandedFailure(expandedFailure === index ? undefined : index)}>
+									{test.name}
+								</span>
+								{test.file && (
+									<span
+										className="cursor-pointer text-vscode-textLink-foreground whitespace-nowrap text-sm"
+										onClick={() => openFailure(test)}>
+										{test.line ? `${test.file}:${test.line}` : test.file}
+									</span>
+								)}
+							</div>
+							{expandedFailure === index && test.message && (
+								<pre className="whitespace-pre-wrap break-all text-xs mt-1 p-2 bg-vscode-editor-background">
+									{test.message}
+								</pre>
+							)}
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	)
+}
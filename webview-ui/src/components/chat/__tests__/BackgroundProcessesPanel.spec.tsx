@@ -0,0 +1,86 @@
+// npx vitest run src/components/chat/__tests__/BackgroundProcessesPanel.spec.tsx
+
+import { render, screen, fireEvent, act } from "@/utils/test-utils"
+
+import type { BackgroundProcessInfo } from "@roo-code/types"
+
+import { vscode } from "@src/utils/vscode"
+
+import { BackgroundProcessesPanel } from "../BackgroundProcessesPanel"
+
+vi.mock("@src/utils/vscode", () => ({
+	vscode: { postMessage: vi.fn() },
+}))
+
+const processes: BackgroundProcessInfo[] = [
+	{
+		id: 1,
+		taskId: "task-1",
+		command: "npm run dev",
+		cwd: "/workspace",
+		pid: 4242,
+		status: "running",
+		startedAt: 1,
+		outputTail: "ready on http://localhost:5173\n",
+	},
+	{
+		id: 2,
+		taskId: "task-1",
+		command: "npm run build -- --watch",
+		cwd: "/workspace",
+		status: "exited",
+		exitCode: 1,
+		startedAt: 2,
+		endedAt: 3,
+		outputTail: "",
+	},
+	{
+		id: 3,
+		taskId: "task-2",
+		command: "redis-server",
+		cwd: "/workspace",
+		status: "running",
+		startedAt: 4,
+		outputTail: "",
+	},
+]
+
+const postProcesses = (backgroundProcesses: BackgroundProcessInfo[]) =>
+	act(() => {
+		window.dispatchEvent(
+			new MessageEvent("message", { data: { type: "backgroundProcesses", backgroundProcesses } }),
+		)
+	})
+
+describe("BackgroundProcessesPanel", () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("requests the processes and lists the ones of the task", () => {
+		render(<BackgroundProcessesPanel taskId="task-1" />)
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "requestBackgroundProcesses" })
+		expect(screen.queryByTestId("background-processes")).not.toBeInTheDocument()
+
+		postProcesses(processes)
+
+		expect(screen.getByTestId("background-process-1")).toHaveTextContent("npm run dev")
+		expect(screen.getByTestId("background-process-2")).toHaveTextContent("npm run build -- --watch")
+		expect(screen.queryByTestId("background-process-3")).not.toBeInTheDocument()
+
+		// Only running processes can be stopped.
+		expect(screen.queryByTestId("stop-background-process-2")).not.toBeInTheDocument()
+	})
+
+	it("shows the output of a process and stops it", () => {
+		render(<BackgroundProcessesPanel taskId="task-1" />)
+		postProcesses(processes)
+
+		fireEvent.click(screen.getByText("npm run dev"))
+		expect(screen.getByTestId("background-process-1")).toHaveTextContent("ready on http://localhost:5173")
+
+		fireEvent.click(screen.getByTestId("stop-background-process-1"))
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "stopBackgroundProcess", processId: 1 })
+	})
+})
@@ -0,0 +1,59 @@
+// npx vitest run src/components/chat/__tests__/IntroducedProblemsPanel.spec.tsx
+
+import { render, screen, fireEvent } from "@/utils/test-utils"
+
+import type { IntroducedProblemsReport } from "@roo-code/types"
+
+import { vscode } from "@src/utils/vscode"
+
+import { IntroducedProblemsPanel } from "../IntroducedProblemsPanel"
+
+vi.mock("@src/utils/vscode", () => ({
+	vscode: { postMessage: vi.fn() },
+}))
+
+vi.mock("react-i18next", () => ({
+	useTranslation: () => ({
+		t: (key: string, options?: Record<string, unknown>) =>
+			options ? `${key} ${Object.values(options).join(" ")}` : key,
+	}),
+}))
+
+const report: IntroducedProblemsReport = {
+	blocked: true,
+	problems: [
+		{ file: "src/app.ts", line: 3, column: 5, severity: "error", source: "ts", message: "Cannot find name 'foo'." },
+		{ file: "src/app.ts", line: 9, column: 1, severity: "warning", message: "Unreachable code." },
+		{ file: "src/util.ts", line: 1, column: 1, severity: "error", source: "eslint", message: "Parsing error." },
+	],
+}
+
+describe("IntroducedProblemsPanel", () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("lists the problems by file", () => {
+		render(<IntroducedProblemsPanel report={report} />)
+
+		expect(screen.getByTestId("introduced-problems")).toHaveTextContent("introducedProblems.title 3")
+		expect(screen.getByTestId("introduced-problems")).toHaveTextContent("introducedProblems.blocked")
+		expect(screen.getAllByText("src/app.ts")).toHaveLength(1)
+		expect(screen.getAllByTestId("introduced-problem")).toHaveLength(3)
+	})
+
+	it("opens the file of a problem at its line", () => {
+		render(<IntroducedProblemsPanel report={report} />)
+
+		fireEvent.click(screen.getByText("Unreachable code."))
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "openFile", text: "./src/app.ts", values: { line: 9 } })
+	})
+
+	it("collapses when the header is clicked", () => {
+		render(<IntroducedProblemsPanel report={{ ...report, blocked: false }} />)
+
+		expect(screen.getByTestId("introduced-problems")).toHaveTextContent("introducedProblems.notBlocked")
+		fireEvent.click(screen.getByText("introducedProblems.title 3"))
+		expect(screen.queryByTestId("introduced-problem")).not.toBeInTheDocument()
+	})
+})
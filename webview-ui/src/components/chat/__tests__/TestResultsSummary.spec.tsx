@@ -0,0 +1,86 @@
+// npx vitest run src/components/chat/__tests__/TestResultsSummary.spec.tsx
+
+import { render, screen, fireEvent } from "@/utils/test-utils"
+
+import type { TestRunResults } from "@roo-code/types"
+
+import { vscode } from "@src/utils/vscode"
+
+import { TestResultsSummary } from "../TestResultsSummary"
+
+vi.mock("@src/utils/vscode", () => ({
+	vscode: { postMessage: vi.fn() },
+}))
+
+vi.mock("react-i18next", () => ({
+	useTranslation: () => ({
+		t: (key: string, options?: Record<string, unknown>) =>
+			options ? `${key} ${Object.values(options).join(" ")}` : key,
+	}),
+}))
+
+const results: TestRunResults = {
+	framework: "vitest",
+	command: "npx vitest run --reporter=json",
+	cwd: "/workspace",
+	exitCode: 1,
+	durationMs: 1200,
+	passed: 2,
+	failed: 1,
+	skipped: 1,
+	tests: [
+		{ name: "math > adds", status: "passed", file: "src/math.test.ts" },
+		{ name: "math > subtracts", status: "passed", file: "src/math.test.ts" },
+		{
+			name: "math > divides",
+			status: "failed",
+			file: "src/math.test.ts",
+			line: 12,
+			message: "expected 2 to be 3",
+		},
+		{ name: "math > rounds", status: "skipped", file: "src/math.test.ts" },
+	],
+}
+
+describe("TestResultsSummary", () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("shows the counts and lists the failures", () => {
+		render(<TestResultsSummary results={results} />)
+
+		expect(screen.getByTestId("test-results")).toHaveTextContent("testResults.passed 2")
+		expect(screen.getByTestId("test-results")).toHaveTextContent("testResults.failed 1")
+		expect(screen.getByTestId("test-results")).toHaveTextContent("testResults.skipped 1")
+		expect(screen.getByTestId("test-results")).toHaveTextContent("testResults.passRate 66.7")
+		expect(screen.getByTestId("test-failure-0")).toHaveTextContent("math > divides")
+		expect(screen.queryByTestId("test-failure-1")).not.toBeInTheDocument()
+	})
+
+	it("shows the message of a failure and opens where it failed", () => {
+		render(<TestResultsSummary results={results} />)
+
+		expect(screen.queryByText("expected 2 to be 3")).not.toBeInTheDocument()
+		fireEvent.click(screen.getByText("math > divides"))
+		expect(screen.getByText("expected 2 to be 3")).toBeInTheDocument()
+
+		fireEvent.click(screen.getByText("src/math.test.ts:12"))
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "openFile",
+			text: "/workspace/src/math.test.ts",
+			values: { line: 12 },
+		})
+	})
+
+	it("is collapsed when all the tests passed", () => {
+		render(
+			<TestResultsSummary
+				results={{ ...results, failed: 0, tests: results.tests.filter((test) => test.status !== "failed") }}
+			/>,
+		)
+
+		expect(screen.getByTestId("test-results")).toHaveTextContent("testResults.failed 0")
+		expect(screen.queryByTestId("test-failure-0")).not.toBeInTheDocument()
+	})
+})
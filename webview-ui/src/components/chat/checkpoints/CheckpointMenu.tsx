@@ -7,6 +7,7 @@ import { useRooPortal } from "@/components/ui/hooks"
 
 import { vscode } from "@src/utils/vscode"
 import { Checkpoint } from "./schema"
+import { CheckpointTimeline } from "./CheckpointTimeline"
 
 type CheckpointMenuBaseProps = {
 	ts: number
@@ -26,6 +27,7 @@ export const CheckpointMenu = ({ ts, commitHash, checkpoint, onOpenChange }: Che
 	const [internalRestoreOpen, setInternalRestoreOpen] = useState(false)
 	const [restoreConfirming, setRestoreConfirming] = useState(false)
 	const [internalMoreOpen, setInternalMoreOpen] = useState(false)
+	const [timelineOpen, setInternalTimelineOpen] = useState(false)
 	const portalContainer = useRooPortal("roo-portal")
 
 	const previousCommitHash = checkpoint?.from
@@ -52,6 +54,16 @@ export const CheckpointMenu = ({ ts, commitHash, checkpoint, onOpenChange }: Che
 		[onOpenChange],
 	)
 
+	const setTimelineOpen = useCallback(
+		(open: boolean) => {
+			setInternalTimelineOpen(open)
+			if (onOpenChange) {
+				onOpenChange(open)
+			}
+		},
+		[onOpenChange],
+	)
+
 	const onCheckpointDiff = useCallback(() => {
 		vscode.postMessage({
 			type: "checkpointDiff",
@@ -193,9 +205,20 @@ export const CheckpointMenu = ({ ts, commitHash, checkpoint, onOpenChange }: Che
 							<span className="codicon codicon-diff mr-2" />
 							{t("chat:checkpoint.menu.viewDiffWithCurrent")}
 						</Button>
+						<Button
+							variant="secondary"
+							onClick={() => {
+								setMoreOpen(false)
+								setTimelineOpen(true)
+							}}
+							data-testid="open-timeline-btn">
+							<span className="codicon codicon-timeline-view-icon mr-2" />
+							{t("chat:checkpoint.menu.timeline")}
+						</Button>
 					</div>
 				</PopoverContent>
 			</Popover>
+			{timelineOpen && <CheckpointTimeline open onOpenChange={setTimelineOpen} commitHash={commitHash} />}
 		</div>
 	)
 }
@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { useEvent } from "react-use"
+
+import type { CheckpointTimelineDiff, CheckpointTimelineFile, ExtensionMessage } from "@roo-code/types"
+
+import {
+	Button,
+	Checkbox,
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	Input,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui"
+import { cn } from "@/lib/utils"
+import { useExtensionState } from "@src/context/ExtensionStateContext"
+import { vscode } from "@src/utils/vscode"
+
+import { checkpointSchema } from "./schema"
+
+const CURRENT_WORKSPACE = "current"
+
+/** Hunk indexes selected per file, `true` selects the whole file */
+type Selection = Record<string, number[] | true>
+
+type CheckpointTimelineProps = {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	commitHash: string
+}
+
+export const CheckpointTimeline = ({ open, onOpenChange, commitHash }: CheckpointTimelineProps) => {
+	const { t } = useTranslation()
+	const { clineMessages } = useExtensionState()
+	const [from, setFrom] = useState(commitHash)
+	const [to, setTo] = useState(CURRENT_WORKSPACE)
+	const [diff, setDiff] = useState<CheckpointTimelineDiff>()
+	const [selection, setSelection] = useState<Selection>({})
+	const [expanded, setExpanded] = useState<Record<string, boolean>>({})
+
+	const checkpoints = useMemo(
+		() =>
+			clineMessages.flatMap((message) => {
+				const result = checkpointSchema.safeParse(message.checkpoint)
+				return message.say === "checkpoint_saved" && message.text && result.success
+					? [{ ts: message.ts, commitHash: message.text, label: result.data.label }]
+					: []
+			}),
+		[clineMessages],
+	)
+
+	const toHash = to === CURRENT_WORKSPACE ? undefined : to
+	const canRestore = !toHash
+
+	const requestDiff = useCallback(() => {
+		setDiff(undefined)
+		setSelection({})
+		vscode.postMessage({ type: "checkpointTimelineDiff", payload: { from, to: toHash } })
+	}, [from, toHash])
+
+	useEffect(() => {
+		if (open) {
+			requestDiff()
+		}
+	}, [open, requestDiff])
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "checkpointTimelineDiff") {
+			const payload = message.payload as CheckpointTimelineDiff
+
+			// Ignore responses to an earlier comparison
+			if (payload.from === from && payload.to === toHash) {
+				setDiff(payload)
+				setSelection({})
+			}
+		}
+	})
+
+	const getCheckpointName = (index: number) =>
+		checkpoints[index].label || t("chat:checkpoint.timeline.untitled", { index: index + 1 })
+
+	const onLabelChange = (hash: string, previous: string | undefined, label: string) => {
+		if (label.trim() !== (previous ?? "")) {
+			vscode.postMessage({ type: "checkpointLabel", payload: { commitHash: hash, label } })
+		}
+	}
+
+	const toggleFile = (file: CheckpointTimelineFile, checked: boolean) => {
+		setSelection(({ [file.path]: _, ...rest }) => (checked ? { ...rest, [file.path]: true } : rest))
+	}
+
+	const toggleHunk = (file: CheckpointTimelineFile, index: number, checked: boolean) => {
+		setSelection(({ [file.path]: current, ...rest }) => {
+			const hunks = current === true ? file.hunks.map((_, i) => i) : (current ?? [])
+			const next = checked ? [...hunks, index] : hunks.filter((i) => i !== index)
+
+			if (next.length === 0) {
+				return rest
+			}
+			return { ...rest, [file.path]: next.length === file.hunks.length ? true : next }
+		})
+	}
+
+	const onRestoreSelected = () => {
+		const files = Object.entries(selection).map(([path, hunks]) => (hunks === true ? { path } : { path, hunks }))
+		vscode.postMessage({ type: "checkpointRestoreFiles", payload: { commitHash: from, files } })
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="checkpoint-timeline">
+				<DialogHeader>
+					<DialogTitle>{t("chat:checkpoint.timeline.title")}</DialogTitle>
+					<DialogDescription>{t("chat:checkpoint.timeline.description")}</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+					{checkpoints.map((checkpoint, index) => (
+						<div key={checkpoint.commitHash} className="flex items-center gap-2">
+							<span className="codicon codicon-git-commit text-blue-400" />
+							<span className="text-xs text-vscode-descriptionForeground whitespace-nowrap">
+								#{index + 1} · {new Date(checkpoint.ts).toLocaleTimeString()}
+							</span>
+							<Input
+								defaultValue={checkpoint.label}
+								placeholder={t("chat:checkpoint.timeline.labelPlaceholder")}
+								aria-label={t("chat:checkpoint.timeline.labelPlaceholder")}
+								className="h-7 flex-1"
+								onBlur={(e) => onLabelChange(checkpoint.commitHash, checkpoint.label, e.target.value)}
+								onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+							/>
+						</div>
+					))}
+				</div>
+
+				<div className="flex items-center gap-2">
+					<span className="text-sm">{t("chat:checkpoint.timeline.from")}</span>
+					<Select value={from} onValueChange={setFrom}>
+						<SelectTrigger className="flex-1" data-testid="timeline-from">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{checkpoints.map((checkpoint, index) => (
+								<SelectItem key={checkpoint.commitHash} value={checkpoint.commitHash}>
+									#{index + 1} {getCheckpointName(index)}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<span className="text-sm">{t("chat:checkpoint.timeline.to")}</span>
+					<Select value={to} onValueChange={setTo}>
+						<SelectTrigger className="flex-1" data-testid="timeline-to">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={CURRENT_WORKSPACE}>
+								{t("chat:checkpoint.timeline.currentWorkspace")}
+							</SelectItem>
+							{checkpoints.map((checkpoint, index) => (
+								<SelectItem key={checkpoint.commitHash} value={checkpoint.commitHash}>
+									#{index + 1} {getCheckpointName(index)}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+
+				<div className="flex flex-col gap-1">
+					{!diff ? (
+						<div className="text-vscode-descriptionForeground">{t("chat:checkpoint.timeline.loading")}</div>
+					) : diff.error ? (
+						<div className="text-vscode-errorForeground">{diff.error}</div>
+					) : diff.files.length === 0 ? (
+						<div className="text-vscode-descriptionForeground">
+							{t("chat:checkpoint.timeline.noChanges")}
+						</div>
+					) : (
+						diff.files.map((file) => {
+							const selected = selection[file.path]
+
+							return (
+								<div
+									key={file.path}
+									className="flex flex-col border border-vscode-panel-border rounded">
+									<div className="flex items-center gap-2 px-2 py-1">
+										{canRestore && (
+											<Checkbox
+												checked={selected === true ? true : selected ? "indeterminate" : false}
+												onCheckedChange={(checked) => toggleFile(file, checked === true)}
+												aria-label={file.path}
+											/>
+										)}
+										<button
+											className="flex flex-1 items-center gap-1 min-w-0 text-left"
+											onClick={() =>
+												setExpanded((prev) => ({ ...prev, [file.path]: !prev[file.path] }))
+											}>
+											<span
+												className={cn(
+													"codicon",
+													expanded[file.path]
+														? "codicon-chevron-down"
+														: "codicon-chevron-right",
+												)}
+											/>
+											<span className="truncate font-mono text-sm">{file.path}</span>
+										</button>
+										<span
+											className={cn(
+												"text-xs",
+												file.status === "added" && "text-vscode-charts-green",
+												file.status === "deleted" && "text-vscode-charts-red",
+											)}>
+											{t(`chat:checkpoint.timeline.status.${file.status}`)}
+										</span>
+									</div>
+									{expanded[file.path] &&
+										file.hunks.map((hunk, index) => (
+											<div
+												key={index}
+												className="flex items-start gap-2 px-2 py-1 border-t border-vscode-panel-border">
+												{canRestore && (
+													<Checkbox
+														checked={
+															selected === true ||
+															(Array.isArray(selected) && selected.includes(index))
+														}
+														onCheckedChange={(checked) =>
+															toggleHunk(file, index, checked === true)
+														}
+														aria-label={t("chat:checkpoint.timeline.selectHunk", {
+															path: file.path,
+															index: index + 1,
+														})}
+													/>
+												)}
+												<pre className="flex-1 m-0 overflow-x-auto text-xs">
+													<div className="text-vscode-descriptionForeground">
+														{`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`}
+													</div>
+													{hunk.lines.map((line, lineIndex) => (
+														<div
+															key={lineIndex}
+															className={cn(
+																line.startsWith("+") && "text-vscode-charts-green",
+																line.startsWith("-") && "text-vscode-charts-red",
+															)}>
+															{line}
+														</div>
+													))}
+												</pre>
+											</div>
+										))}
+								</div>
+							)
+						})
+					)}
+				</div>
+
+				<div className="flex items-center justify-between gap-2">
+					<span className="text-xs text-vscode-descriptionForeground">
+						{canRestore
+							? t("chat:checkpoint.timeline.restoreDescription")
+							: t("chat:checkpoint.timeline.restoreHint")}
+					</span>
+					<div className="flex items-center gap-2">
+						<Button
+							variant="secondary"
+							onClick={() => vscode.postMessage({ type: "exportTaskCheckpoints" })}
+							data-testid="timeline-export-btn">
+							{t("chat:checkpoint.timeline.exportToBranch")}
+						</Button>
+						<Button
+							variant="primary"
+							disabled={!canRestore || Object.keys(selection).length === 0}
+							onClick={onRestoreSelected}
+							data-testid="timeline-restore-btn">
+							{t("chat:checkpoint.timeline.restoreSelected")}
+						</Button>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	)
+}
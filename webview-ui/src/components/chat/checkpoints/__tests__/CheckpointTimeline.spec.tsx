@@ -0,0 +1,115 @@
+// npx vitest run src/components/chat/checkpoints/__tests__/CheckpointTimeline.spec.tsx
+
+import { render, screen, fireEvent, act } from "@/utils/test-utils"
+
+import type { CheckpointTimelineDiff } from "@roo-code/types"
+
+import { CheckpointTimeline } from "../CheckpointTimeline"
+
+const mockPostMessage = vi.fn()
+
+vi.mock("@src/utils/vscode", () => ({
+	vscode: {
+		postMessage: (...args: any[]) => mockPostMessage(...args),
+	},
+}))
+
+vi.mock("@src/context/ExtensionStateContext", () => ({
+	useExtensionState: () => ({
+		clineMessages: [
+			{ ts: 1, type: "say", say: "text", text: "Hello" },
+			{ ts: 2, type: "say", say: "checkpoint_saved", text: "abc123", checkpoint: { from: "base", to: "abc123" } },
+			{
+				ts: 3,
+				type: "say",
+				say: "checkpoint_saved",
+				text: "def456",
+				checkpoint: { from: "abc123", to: "def456", label: "Before refactor" },
+			},
+		],
+	}),
+}))
+
+const hunk = (line: number) => ({
+	oldStart: line,
+	oldLines: 1,
+	newStart: line,
+	newLines: 1,
+	lines: [`-old ${line}`, `+new ${line}`],
+})
+
+const sendDiff = (diff: CheckpointTimelineDiff) =>
+	act(() => {
+		window.dispatchEvent(new MessageEvent("message", { data: { type: "checkpointTimelineDiff", payload: diff } }))
+	})
+
+describe("CheckpointTimeline", () => {
+	beforeEach(() => {
+		mockPostMessage.mockClear()
+	})
+
+	const renderTimeline = () => render(<CheckpointTimeline open onOpenChange={vi.fn()} commitHash="abc123" />)
+
+	it("requests the diff to the current workspace and lists the checkpoints", () => {
+		renderTimeline()
+
+		expect(mockPostMessage).toHaveBeenCalledWith({
+			type: "checkpointTimelineDiff",
+			payload: { from: "abc123", to: undefined },
+		})
+		expect(screen.getByDisplayValue("Before refactor")).toBeInTheDocument()
+	})
+
+	it("saves a changed label", () => {
+		renderTimeline()
+
+		const input = screen.getByDisplayValue("Before refactor")
+		fireEvent.change(input, { target: { value: "After refactor" } })
+		fireEvent.blur(input)
+
+		expect(mockPostMessage).toHaveBeenCalledWith({
+			type: "checkpointLabel",
+			payload: { commitHash: "def456", label: "After refactor" },
+		})
+	})
+
+	it("restores selected files and hunks", () => {
+		renderTimeline()
+		sendDiff({
+			from: "abc123",
+			files: [
+				{ path: "src/app.ts", status: "modified", hunks: [hunk(1), hunk(20)] },
+				{ path: "new.ts", status: "added", hunks: [hunk(1)] },
+			],
+		})
+
+		fireEvent.click(screen.getByText("src/app.ts"))
+		// File checkbox of src/app.ts, its two hunks, then new.ts
+		fireEvent.click(screen.getAllByRole("checkbox")[2])
+		fireEvent.click(screen.getByRole("checkbox", { name: "new.ts" }))
+		fireEvent.click(screen.getByTestId("timeline-restore-btn"))
+
+		expect(mockPostMessage).toHaveBeenCalledWith({
+			type: "checkpointRestoreFiles",
+			payload: {
+				commitHash: "abc123",
+				files: [{ path: "src/app.ts", hunks: [1] }, { path: "new.ts" }],
+			},
+		})
+	})
+
+	it("exports the task checkpoints to a branch", () => {
+		renderTimeline()
+		fireEvent.click(screen.getByTestId("timeline-export-btn"))
+
+		expect(mockPostMessage).toHaveBeenCalledWith({ type: "exportTaskCheckpoints" })
+	})
+
+	it("ignores responses to an earlier comparison", () => {
+		renderTimeline()
+		sendDiff({ from: "def456", files: [{ path: "stale.ts", status: "modified", hunks: [hunk(1)] }] })
+
+		expect(screen.queryByText("stale.ts")).not.toBeInTheDocument()
+		expect(screen.getByText("chat:checkpoint.timeline.loading")).toBeInTheDocument()
+	})
+})
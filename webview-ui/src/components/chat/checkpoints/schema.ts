@@ -3,6 +3,7 @@ import { z } from "zod"
 export const checkpointSchema = z.object({
 	from: z.string(),
 	to: z.string(),
+	label: z.string().optional(),
 })
 
 export type Checkpoint = z.infer<typeof checkpointSchema>
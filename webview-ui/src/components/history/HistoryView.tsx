@@ -1,4 +1,4 @@
-import React, { memo, useState } from "react"
+import React, { memo, useMemo, useState } from "react"
 import { ArrowLeft } from "lucide-react"
 import { DeleteTaskDialog } from "./DeleteTaskDialog"
 import { BatchDeleteTaskDialog } from "./BatchDeleteTaskDialog"
@@ -9,6 +9,7 @@ import { VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
 import {
 	Button,
 	Checkbox,
+	Input,
 	Select,
 	SelectContent,
 	SelectItem,
@@ -17,6 +18,8 @@ import {
 	StandardTooltip,
 } from "@/components/ui"
 import { useAppTranslation } from "@/i18n/TranslationContext"
+import { useExtensionState } from "@/context/ExtensionStateContext"
+import { getAllModes } from "@roo/modes"
 
 import { Tab, TabContent, TabHeader } from "../common/Tab"
 import { useTaskSearch } from "./useTaskSearch"
@@ -40,8 +43,21 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 		setLastNonRelevantSort,
 		showAllWorkspaces,
 		setShowAllWorkspaces,
+		filters,
+		setFilters,
+		modes,
+		workspaces,
 	} = useTaskSearch()
 	const { t } = useAppTranslation()
+	const { customModes } = useExtensionState()
+	const modeNames = useMemo(
+		() => Object.fromEntries(getAllModes(customModes).map((mode) => [mode.slug, mode.name])),
+		[customModes],
+	)
+	const [showFilters, setShowFilters] = useState(false)
+	const activeFilterCount = Object.entries(filters).filter(
+		([key, value]) => key !== "workspace" && value !== undefined && value !== "",
+	).length
 
 	const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null)
 	const [isSelectionMode, setIsSelectionMode] = useState(false)
@@ -140,12 +156,20 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 					</VSCodeTextField>
 					<div className="flex gap-2">
 						<Select
-							value={showAllWorkspaces ? "all" : "current"}
-							onValueChange={(value) => setShowAllWorkspaces(value === "all")}>
+							value={filters.workspace ?? (showAllWorkspaces ? "all" : "current")}
+							onValueChange={(value) => {
+								setShowAllWorkspaces(value !== "current")
+								setFilters((prev) => ({
+									...prev,
+									workspace: value === "current" || value === "all" ? undefined : value,
+								}))
+							}}>
 							<SelectTrigger className="flex-1">
 								<SelectValue>
 									{t("history:workspace.prefix")}{" "}
-									{t(`history:workspace.${showAllWorkspaces ? "all" : "current"}`)}
+									{filters.workspace
+										? filters.workspace.split(/[\\/]/).pop()
+										: t(`history:workspace.${showAllWorkspaces ? "all" : "current"}`)}
 								</SelectValue>
 							</SelectTrigger>
 							<SelectContent>
@@ -161,6 +185,14 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 										{t("history:workspace.all")}
 									</div>
 								</SelectItem>
+								{workspaces.map((workspace) => (
+									<SelectItem key={workspace} value={workspace}>
+										<div className="flex items-center gap-2">
+											<span className="codicon codicon-folder" />
+											{workspace}
+										</div>
+									</SelectItem>
+								))}
 							</SelectContent>
 						</Select>
 						<Select value={sortOption} onValueChange={(value) => setSortOption(value as SortOption)}>
@@ -211,8 +243,130 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 								</SelectItem>
 							</SelectContent>
 						</Select>
+						<StandardTooltip content={t("history:filters.toggle")}>
+							<Button
+								variant={showFilters || activeFilterCount > 0 ? "primary" : "secondary"}
+								onClick={() => setShowFilters(!showFilters)}
+								aria-label={t("history:filters.toggle")}
+								data-testid="toggle-filters-button">
+								<span className="codicon codicon-filter" />
+								{activeFilterCount > 0 && <span className="ml-1">{activeFilterCount}</span>}
+							</Button>
+						</StandardTooltip>
 					</div>
 
+					{showFilters && (
+						<div className="flex flex-col gap-2" data-testid="history-filters">
+							<div className="flex gap-2">
+								<Select
+									value={filters.mode ?? "all"}
+									onValueChange={(value) =>
+										setFilters((prev) => ({ ...prev, mode: value === "all" ? undefined : value }))
+									}>
+									<SelectTrigger className="flex-1" data-testid="mode-filter">
+										<SelectValue>
+											{t("history:filters.mode")}{" "}
+											{filters.mode
+												? (modeNames[filters.mode] ?? filters.mode)
+												: t("history:filters.allModes")}
+										</SelectValue>
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="all">{t("history:filters.allModes")}</SelectItem>
+										{modes.map((mode) => (
+											<SelectItem key={mode} value={mode}>
+												{modeNames[mode] ?? mode}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+								<Input
+									className="flex-1"
+									placeholder={t("history:filters.filesPlaceholder")}
+									value={filters.file ?? ""}
+									onChange={(e) =>
+										setFilters((prev) => ({ ...prev, file: e.target.value || undefined }))
+									}
+									aria-label={t("history:filters.files")}
+									data-testid="file-filter"
+								/>
+							</div>
+							<div className="flex items-center gap-2">
+								<span className="text-vscode-descriptionForeground text-sm">
+									{t("history:filters.cost")}
+								</span>
+								<Input
+									type="number"
+									min={0}
+									step="0.01"
+									className="w-20"
+									placeholder={t("history:filters.min")}
+									value={filters.minCost ?? ""}
+									onChange={(e) =>
+										setFilters((prev) => ({
+											...prev,
+											minCost: e.target.value === "" ? undefined : Number(e.target.value),
+										}))
+									}
+									data-testid="min-cost-filter"
+								/>
+								<span>-</span>
+								<Input
+									type="number"
+									min={0}
+									step="0.01"
+									className="w-20"
+									placeholder={t("history:filters.max")}
+									value={filters.maxCost ?? ""}
+									onChange={(e) =>
+										setFilters((prev) => ({
+											...prev,
+											maxCost: e.target.value === "" ? undefined : Number(e.target.value),
+										}))
+									}
+									data-testid="max-cost-filter"
+								/>
+							</div>
+							<div className="flex items-center gap-2">
+								<span className="text-vscode-descriptionForeground text-sm">
+									{t("history:filters.date")}
+								</span>
+								<Input
+									type="date"
+									className="flex-1"
+									value={filters.from ?? ""}
+									max={filters.to}
+									onChange={(e) =>
+										setFilters((prev) => ({ ...prev, from: e.target.value || undefined }))
+									}
+									aria-label={t("history:filters.from")}
+									data-testid="from-date-filter"
+								/>
+								<span>-</span>
+								<Input
+									type="date"
+									className="flex-1"
+									value={filters.to ?? ""}
+									min={filters.from}
+									onChange={(e) =>
+										setFilters((prev) => ({ ...prev, to: e.target.value || undefined }))
+									}
+									aria-label={t("history:filters.to")}
+									data-testid="to-date-filter"
+								/>
+							</div>
+							{activeFilterCount > 0 && (
+								<Button
+									variant="ghost"
+									className="self-start"
+									onClick={() => setFilters((prev) => ({ workspace: prev.workspace }))}
+									data-testid="clear-filters-button">
+									{t("history:filters.clear")}
+								</Button>
+							)}
+						</div>
+					)}
+
 					{/* Select all control in selection mode */}
 					{isSelectionMode && tasks.length > 0 && (
 						<div className="flex items-center py-1">
@@ -9,6 +9,8 @@ import TaskItemFooter from "./TaskItemFooter"
 
 interface DisplayHistoryItem extends HistoryItem {
 	highlight?: string
+	snippet?: string
+	snippetHighlight?: string
 }
 
 interface TaskItemProps {
@@ -82,6 +84,17 @@ const TaskItem = ({
 						{item.highlight ? undefined : item.task}
 					</div>
 
+					{!isCompact && item.snippet && (
+						<div
+							className="overflow-hidden text-ellipsis line-clamp-2 text-xs text-vscode-descriptionForeground mt-1"
+							data-testid="task-snippet"
+							{...(item.snippetHighlight
+								? { dangerouslySetInnerHTML: { __html: item.snippetHighlight } }
+								: {})}>
+							{item.snippetHighlight ? undefined : item.snippet}
+						</div>
+					)}
+
 					<TaskItemFooter
 						item={item}
 						variant={variant}
@@ -109,4 +109,19 @@ describe("TaskItem", () => {
 		const taskItem = screen.getByTestId("task-item-1")
 		expect(taskItem).toHaveClass("hover:bg-vscode-editor-foreground/10")
 	})
+
+	it("shows the transcript snippet of a search result", () => {
+		render(
+			<TaskItem
+				item={{
+					...mockTask,
+					snippet: "…the JWT signature…",
+					snippetHighlight: "…the <mark>JWT</mark> signature…",
+				}}
+				variant="full"
+			/>,
+		)
+
+		expect(screen.getByTestId("task-snippet").innerHTML).toBe("…the <mark>JWT</mark> signature…")
+	})
 })
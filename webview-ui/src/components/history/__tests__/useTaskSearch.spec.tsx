@@ -12,7 +12,12 @@ vi.mock("@/utils/highlight", () => ({
 	highlightFzfMatch: vi.fn((text) => `<mark>${text}</mark>`),
 }))
 
+vi.mock("@/utils/vscode", () => ({
+	vscode: { postMessage: vi.fn() },
+}))
+
 import { useExtensionState } from "@/context/ExtensionStateContext"
+import { vscode } from "@/utils/vscode"
 
 const mockUseExtensionState = useExtensionState as ReturnType<typeof vi.fn>
 
@@ -284,4 +289,120 @@ describe("useTaskSearch", () => {
 		// When not searching, it should fall back to newest
 		expect(result.current.sortOption).toBe("mostRelevant")
 	})
+
+	describe("filters", () => {
+		it("filters by mode, cost and date range", () => {
+			mockUseExtensionState.mockReturnValue({
+				taskHistory: mockTaskHistory.map((item) => ({
+					...item,
+					mode: item.id === "task-3" ? "debug" : "code",
+				})),
+				cwd: "/workspace/project1",
+			} as any)
+			const { result } = renderHook(() => useTaskSearch())
+
+			act(() => {
+				result.current.setShowAllWorkspaces(true)
+				result.current.setFilters({ mode: "code" })
+			})
+			expect(result.current.modes).toEqual(["code", "debug"])
+			expect(result.current.tasks.map((task) => task.id)).toEqual(["task-2", "task-1"])
+
+			act(() => result.current.setFilters({ minCost: 0.015, maxCost: 0.05 }))
+			expect(result.current.tasks.map((task) => task.id)).toEqual(["task-2", "task-3"])
+
+			act(() => result.current.setFilters({ from: "2022-02-15", to: "2022-02-16" }))
+			expect(result.current.tasks.map((task) => task.id)).toEqual(["task-1", "task-3"])
+		})
+
+		it("filters by a specific workspace", () => {
+			const { result } = renderHook(() => useTaskSearch())
+
+			act(() => result.current.setFilters({ workspace: "/workspace/project2" }))
+
+			expect(result.current.workspaces).toEqual(["/workspace/project1", "/workspace/project2"])
+			expect(result.current.tasks.map((task) => task.id)).toEqual(["task-3"])
+		})
+	})
+
+	describe("transcript search", () => {
+		beforeEach(() => {
+			vi.useFakeTimers()
+		})
+
+		afterEach(() => {
+			vi.useRealTimers()
+		})
+
+		const respond = (taskSearchResults: { taskId: string; score: number; snippet?: string }[]) => {
+			const { requestId } = vi.mocked(vscode.postMessage).mock.calls.at(-1)![0] as { requestId: string }
+
+			act(() => {
+				window.dispatchEvent(
+					new MessageEvent("message", {
+						data: { type: "taskHistorySearchResults", requestId, taskSearchResults },
+					}),
+				)
+			})
+		}
+
+		it("adds the tasks that match in their transcripts, with a snippet", () => {
+			const { result } = renderHook(() => useTaskSearch())
+
+			act(() => {
+				result.current.setShowAllWorkspaces(true)
+				result.current.setSearchQuery("jwt")
+			})
+			act(() => vi.advanceTimersByTime(300))
+
+			expect(vscode.postMessage).toHaveBeenCalledWith(
+				expect.objectContaining({ type: "searchTaskHistory", query: "jwt", fileFilter: undefined }),
+			)
+			expect(result.current.isSearchingTranscripts).toBe(true)
+
+			respond([{ taskId: "task-3", score: 2, snippet: "Validate the JWT signature" }])
+
+			expect(result.current.tasks).toHaveLength(1)
+			expect(result.current.tasks[0]).toMatchObject({ id: "task-3", snippet: "Validate the JWT signature" })
+			expect(result.current.tasks[0].snippetHighlight).toBe("<mark>Validate the JWT signature</mark>")
+		})
+
+		it("ignores the results of outdated searches", () => {
+			const { result } = renderHook(() => useTaskSearch())
+
+			act(() => result.current.setSearchQuery("jwt"))
+			act(() => vi.advanceTimersByTime(300))
+			const { requestId } = vi.mocked(vscode.postMessage).mock.calls.at(-1)![0] as { requestId: string }
+
+			act(() => result.current.setSearchQuery("oauth"))
+			act(() => {
+				window.dispatchEvent(
+					new MessageEvent("message", {
+						data: {
+							type: "taskHistorySearchResults",
+							requestId,
+							taskSearchResults: [{ taskId: "task-1" }],
+						},
+					}),
+				)
+			})
+
+			expect(result.current.tasks).toHaveLength(0)
+		})
+
+		it("only shows the tasks that touched the filtered files", () => {
+			const { result } = renderHook(() => useTaskSearch())
+
+			act(() => result.current.setFilters({ file: "src/auth" }))
+			expect(result.current.tasks).toHaveLength(0)
+
+			act(() => vi.advanceTimersByTime(300))
+			expect(vscode.postMessage).toHaveBeenCalledWith(
+				expect.objectContaining({ type: "searchTaskHistory", query: "", fileFilter: "src/auth" }),
+			)
+
+			respond([{ taskId: "task-1", score: 0 }])
+			expect(result.current.tasks.map((task) => task.id)).toEqual(["task-1"])
+		})
+	})
 })
@@ -1,17 +1,79 @@
 import { useState, useEffect, useMemo } from "react"
+import { useEvent } from "react-use"
 import { Fzf } from "fzf"
 
+import type { ExtensionMessage, HistoryItem, TaskSearchResult } from "@roo-code/types"
+
 import { highlightFzfMatch } from "@/utils/highlight"
+import { vscode } from "@/utils/vscode"
 import { useExtensionState } from "@/context/ExtensionStateContext"
 
 type SortOption = "newest" | "oldest" | "mostExpensive" | "mostTokens" | "largestSize" | "mostRelevant"
 
+export type TaskHistoryFilters = {
+	mode?: string
+	workspace?: string
+	minCost?: number
+	maxCost?: number
+	// Dates as yyyy-mm-dd, both inclusive.
+	from?: string
+	to?: string
+	// Part of the path of a file that the task read or edited.
+	file?: string
+}
+
+type TranscriptSearch = {
+	requestId: string
+	query: string
+	file: string
+	results?: TaskSearchResult[]
+}
+
+export type DisplayHistoryItem = HistoryItem & {
+	highlight?: string
+	snippet?: string
+	snippetHighlight?: string
+}
+
+const TRANSCRIPT_SEARCH_DELAY_MS = 300
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function highlightTerms(text: string, query: string) {
+	const lowerText = text.toLowerCase()
+	const positions = new Set<number>()
+
+	for (const term of query.toLowerCase().split(/\s+/).filter(Boolean)) {
+		for (let index = lowerText.indexOf(term); index >= 0; index = lowerText.indexOf(term, index + 1)) {
+			for (let i = index; i < index + term.length; i++) {
+				positions.add(i)
+			}
+		}
+	}
+
+	// Without any position, highlightFzfMatch returns the text as it is, which is not safe as HTML.
+	return positions.size > 0 ? highlightFzfMatch(text, Array.from(positions)) : undefined
+}
+
+function matchesFilters(item: HistoryItem, filters: TaskHistoryFilters) {
+	const cost = item.totalCost || 0
+
+	return (
+		(!filters.mode || item.mode === filters.mode) &&
+		(filters.minCost === undefined || cost >= filters.minCost) &&
+		(filters.maxCost === undefined || cost <= filters.maxCost) &&
+		(!filters.from || item.ts >= new Date(`${filters.from}T00:00:00`).getTime()) &&
+		(!filters.to || item.ts < new Date(`${filters.to}T00:00:00`).getTime() + DAY_MS)
+	)
+}
+
 export const useTaskSearch = () => {
 	const { taskHistory, cwd } = useExtensionState()
 	const [searchQuery, setSearchQuery] = useState("")
 	const [sortOption, setSortOption] = useState<SortOption>("newest")
 	const [lastNonRelevantSort, setLastNonRelevantSort] = useState<SortOption | null>("newest")
 	const [showAllWorkspaces, setShowAllWorkspaces] = useState(false)
+	const [filters, setFilters] = useState<TaskHistoryFilters>({})
+	const [transcriptSearch, setTranscriptSearch] = useState<TranscriptSearch>()
 
 	useEffect(() => {
 		if (searchQuery && sortOption !== "mostRelevant" && !lastNonRelevantSort) {
@@ -23,13 +85,46 @@ export const useTaskSearch = () => {
 		}
 	}, [searchQuery, sortOption, lastNonRelevantSort])
 
+	// The task titles are searched right away, the transcripts once the user stops typing.
+	useEffect(() => {
+		const query = searchQuery.trim()
+		const file = filters.file?.trim() ?? ""
+
+		if (!query && !file) {
+			setTranscriptSearch(undefined)
+			return
+		}
+
+		const timeout = setTimeout(() => {
+			const requestId = Math.random().toString(36).substring(2, 9)
+			setTranscriptSearch({ requestId, query, file })
+			vscode.postMessage({ type: "searchTaskHistory", query, fileFilter: file || undefined, requestId })
+		}, TRANSCRIPT_SEARCH_DELAY_MS)
+
+		return () => clearTimeout(timeout)
+	}, [searchQuery, filters.file])
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "taskHistorySearchResults") {
+			setTranscriptSearch((search) =>
+				search && search.requestId === message.requestId
+					? { ...search, results: message.taskSearchResults ?? [] }
+					: search,
+			)
+		}
+	})
+
 	const presentableTasks = useMemo(() => {
 		let tasks = taskHistory.filter((item) => item.ts && item.task)
-		if (!showAllWorkspaces) {
+		if (filters.workspace) {
+			tasks = tasks.filter((item) => item.workspace === filters.workspace)
+		} else if (!showAllWorkspaces) {
 			tasks = tasks.filter((item) => item.workspace === cwd)
 		}
-		return tasks
-	}, [taskHistory, showAllWorkspaces, cwd])
+		return tasks.filter((item) => matchesFilters(item, filters))
+	}, [taskHistory, showAllWorkspaces, cwd, filters])
 
 	const fzf = useMemo(() => {
 		return new Fzf(presentableTasks, {
@@ -37,23 +132,49 @@ export const useTaskSearch = () => {
 		})
 	}, [presentableTasks])
 
+	const transcriptResults = useMemo(() => {
+		const isCurrent =
+			transcriptSearch?.query === searchQuery.trim() && transcriptSearch.file === (filters.file?.trim() ?? "")
+		return isCurrent ? transcriptSearch.results : undefined
+	}, [transcriptSearch, searchQuery, filters.file])
+
 	const tasks = useMemo(() => {
-		let results = presentableTasks
+		let results: DisplayHistoryItem[] = presentableTasks
+		const matches = new Map(transcriptResults?.map((result) => [result.taskId, result]))
+
+		// Only the extension knows the files that the tasks touched.
+		if (filters.file?.trim()) {
+			results = transcriptResults ? results.filter((item) => matches.has(item.id)) : []
+		}
 
 		if (searchQuery) {
 			const searchResults = fzf.find(searchQuery)
-			results = searchResults.map((result) => {
-				const positions = Array.from(result.positions)
-				const taskEndIndex = result.item.task.length
-
-				return {
-					...result.item,
-					highlight: highlightFzfMatch(
-						result.item.task,
-						positions.filter((p) => p < taskEndIndex),
-					),
-					workspace: result.item.workspace,
-				}
+			const titleMatches = new Set(searchResults.map((result) => result.item.id))
+			const candidates = new Set(results.map((item) => item.id))
+
+			results = [
+				...searchResults
+					.filter((result) => candidates.has(result.item.id))
+					.map((result) => {
+						const positions = Array.from(result.positions)
+						const taskEndIndex = result.item.task.length
+
+						return {
+							...result.item,
+							highlight: highlightFzfMatch(
+								result.item.task,
+								positions.filter((p) => p < taskEndIndex),
+							),
+							workspace: result.item.workspace,
+						}
+					}),
+				// The tasks that only match in their transcripts follow, in the order of their score.
+				...results
+					.filter((item) => matches.has(item.id) && !titleMatches.has(item.id))
+					.sort((a, b) => matches.get(b.id)!.score - matches.get(a.id)!.score),
+			].map((item) => {
+				const snippet = matches.get(item.id)?.snippet
+				return snippet ? { ...item, snippet, snippetHighlight: highlightTerms(snippet, searchQuery) } : item
 			})
 		}
 
@@ -78,7 +199,22 @@ export const useTaskSearch = () => {
 					return (b.ts || 0) - (a.ts || 0)
 			}
 		})
-	}, [presentableTasks, searchQuery, fzf, sortOption])
+	}, [presentableTasks, searchQuery, fzf, sortOption, transcriptResults, filters.file])
+
+	const modes = useMemo(
+		() => Array.from(new Set(taskHistory.map((item) => item.mode).filter((mode): mode is string => !!mode))),
+		[taskHistory],
+	)
+
+	const workspaces = useMemo(
+		() =>
+			Array.from(
+				new Set(
+					taskHistory.map((item) => item.workspace).filter((workspace): workspace is string => !!workspace),
+				),
+			),
+		[taskHistory],
+	)
 
 	return {
 		tasks,
@@ -93,5 +229,10 @@ export const useTaskSearch = () => {
 		setLastNonRelevantSort,
 		showAllWorkspaces,
 		setShowAllWorkspaces,
+		filters,
+		setFilters,
+		modes,
+		workspaces,
+		isSearchingTranscripts: !!transcriptSearch && !transcriptSearch.results,
 	}
 }
@@ -0,0 +1,82 @@
+import type { McpPrompt } from "@roo-code/types"
+
+import { getMcpPromptCommandName } from "@roo/context-mentions"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+
+type McpPromptRowProps = {
+	prompt: McpPrompt
+	serverName: string
+}
+
+const McpPromptRow = ({ prompt, serverName }: McpPromptRowProps) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div style={{ padding: "3px 0" }}>
+			<div
+				style={{
+					display: "flex",
+					alignItems: "center",
+					marginBottom: "4px",
+				}}>
+				<span className="codicon codicon-comment-discussion" style={{ marginRight: "6px" }} />
+				<span style={{ fontWeight: 500, wordBreak: "break-all" }}>
+					/{getMcpPromptCommandName(serverName, prompt.name)}
+				</span>
+			</div>
+			{(prompt.description || prompt.title) && (
+				<div
+					style={{
+						fontSize: "12px",
+						opacity: 0.8,
+						margin: "4px 0",
+					}}>
+					{prompt.description || prompt.title}
+				</div>
+			)}
+			{prompt.arguments && prompt.arguments.length > 0 && (
+				<div
+					style={{
+						marginTop: "8px",
+						fontSize: "12px",
+						border: "1px solid color-mix(in srgb, var(--vscode-descriptionForeground) 30%, transparent)",
+						borderRadius: "3px",
+						padding: "8px",
+					}}>
+					<div style={{ marginBottom: "4px", opacity: 0.8, fontSize: "11px", textTransform: "uppercase" }}>
+						{t("mcp:prompt.arguments")}
+					</div>
+					{prompt.arguments.map((argument) => (
+						<div
+							key={argument.name}
+							style={{
+								display: "flex",
+								alignItems: "baseline",
+								marginTop: "4px",
+							}}>
+							<code
+								style={{
+									color: "var(--vscode-textPreformat-foreground)",
+									marginRight: "8px",
+								}}>
+								{argument.name}
+								{argument.required && <span style={{ color: "var(--vscode-errorForeground)" }}>*</span>}
+							</code>
+							<span
+								style={{
+									opacity: 0.8,
+									overflowWrap: "break-word",
+									wordBreak: "break-word",
+								}}>
+								{argument.description || t("mcp:tool.noDescription")}
+							</span>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	)
+}
+
+export default McpPromptRow
@@ -22,7 +22,6 @@ import {
 	DialogDescription,
 	DialogFooter,
 	ToggleSwitch,
-	// eslint-disable-next-line @typescript-eslint/no-unused-vars
 	StandardTooltip,
 } from "@src/components/ui"
 // import { buildDocLink } from "@src/utils/docLinks"
@@ -31,6 +30,7 @@ import { SectionHeader } from "@src/components/settings/SectionHeader"
 
 import McpToolRow from "./McpToolRow"
 import McpResourceRow from "./McpResourceRow"
+import McpPromptRow from "./McpPromptRow"
 import McpEnabledToggle from "./McpEnabledToggle"
 import { McpErrorRow } from "./McpErrorRow"
 
@@ -261,6 +261,22 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 		})
 	}
 
+	const handleAuthorize = () => {
+		vscode.postMessage({
+			type: "authorizeMcpServer",
+			serverName: server.name,
+			source: server.source || "global",
+		})
+	}
+
+	const handleSignOut = () => {
+		vscode.postMessage({
+			type: "signOutMcpServer",
+			serverName: server.name,
+			source: server.source || "global",
+		})
+	}
+
 	const handleTimeoutChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
 		const seconds = parseInt(event.target.value)
 		setTimeoutValue(seconds)
@@ -334,6 +350,18 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 						style={{ marginRight: "8px" }}>
 						<span className="codicon codicon-refresh" style={{ fontSize: "14px" }}></span>
 					</Button>
+					{server.oauth === "authorized" && (
+						<StandardTooltip content={t("mcp:oauth.signOut")}>
+							<Button
+								variant="ghost"
+								size="icon"
+								onClick={handleSignOut}
+								aria-label={t("mcp:oauth.signOut")}
+								style={{ marginRight: "8px" }}>
+								<span className="codicon codicon-sign-out" style={{ fontSize: "14px" }}></span>
+							</Button>
+						</StandardTooltip>
+					)}
 				</div>
 				<div
 					style={{
@@ -378,6 +406,9 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 									{t("mcp:tabs.resources")} (
 									{[...(server.resourceTemplates || []), ...(server.resources || [])].length || 0})
 								</VSCodePanelTab>
+								<VSCodePanelTab id="prompts">
+									{t("mcp:tabs.prompts")} ({server.prompts?.length || 0})
+								</VSCodePanelTab>
 								{server.instructions && (
 									<VSCodePanelTab id="instructions">{t("mcp:instructions")}</VSCodePanelTab>
 								)}
@@ -439,6 +470,31 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 									)}
 								</VSCodePanelView>
 
+								<VSCodePanelView id="prompts-view">
+									{server.prompts && server.prompts.length > 0 ? (
+										<div
+											style={{
+												display: "flex",
+												flexDirection: "column",
+												gap: "8px",
+												width: "100%",
+											}}>
+											{server.prompts.map((prompt) => (
+												<McpPromptRow
+													key={prompt.name}
+													prompt={prompt}
+													serverName={server.name}
+												/>
+											))}
+										</div>
+									) : (
+										<div
+											style={{ padding: "10px 0", color: "var(--vscode-descriptionForeground)" }}>
+											{t("mcp:emptyState.noPrompts")}
+										</div>
+									)}
+								</VSCodePanelView>
+
 								{server.instructions && (
 									<VSCodePanelView id="instructions-view">
 										<div style={{ padding: "10px 0", fontSize: "12px" }}>
@@ -541,6 +597,17 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 										))}
 								</div>
 							</div>
+							{(server.oauth === "required" || server.oauth === "authorizing") && (
+								<Button
+									variant="primary"
+									onClick={handleAuthorize}
+									disabled={server.oauth === "authorizing"}
+									style={{ width: "calc(100% - 20px)", margin: "0 10px 10px 10px" }}>
+									{server.oauth === "authorizing"
+										? t("mcp:oauth.authorizing")
+										: t("mcp:oauth.authorize")}
+								</Button>
+							)}
 							<Button
 								variant="secondary"
 								onClick={handleRestart}
@@ -0,0 +1,88 @@
+import React, { useState } from "react"
+import { VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+
+import {
+	type DiagnosticsGate,
+	type DiagnosticSeverityName,
+	DEFAULT_DIAGNOSTICS_GATE_MAX_ATTEMPTS,
+	diagnosticSeverities,
+} from "@roo-code/types"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@src/components/ui"
+
+interface DiagnosticsGateEditorProps {
+	gate?: DiagnosticsGate
+	onChange: (gate: DiagnosticsGate | undefined) => void
+}
+
+/**
+ * Edits whether the new problems in the files that a task edits keep the task from completing.
+ */
+export const DiagnosticsGateEditor: React.FC<DiagnosticsGateEditorProps> = ({ gate, onChange }) => {
+	const { t } = useAppTranslation()
+	const [ignoredSources, setIgnoredSources] = useState(gate?.ignoredSources?.join(", ") ?? "")
+
+	const update = (changes: Partial<DiagnosticsGate>) => onChange({ enabled: false, ...gate, ...changes })
+
+	return (
+		<div className="mb-4" data-testid="diagnostics-gate">
+			<div className="font-bold mb-1">{t("prompts:diagnosticsGate.title")}</div>
+			<div className="text-[13px] text-vscode-descriptionForeground mb-2">
+				{t("prompts:diagnosticsGate.description")}
+			</div>
+			<VSCodeCheckbox
+				checked={!!gate?.enabled}
+				onChange={(e: any) => (e.target.checked ? update({ enabled: true }) : onChange(undefined))}
+				data-testid="diagnostics-gate-enabled">
+				{t("prompts:diagnosticsGate.enabled")}
+			</VSCodeCheckbox>
+			{gate?.enabled && (
+				<div className="flex flex-col gap-2 mt-2">
+					<div>
+						<div className="text-sm mb-1">{t("prompts:diagnosticsGate.severity")}</div>
+						<Select
+							value={gate.severity ?? "error"}
+							onValueChange={(severity) => update({ severity: severity as DiagnosticSeverityName })}>
+							<SelectTrigger className="w-full" data-testid="diagnostics-gate-severity">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{diagnosticSeverities.map((severity) => (
+									<SelectItem key={severity} value={severity}>
+										{t(`prompts:diagnosticsGate.severities.${severity}`)}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<VSCodeTextField
+						className="w-full"
+						value={ignoredSources}
+						placeholder={t("prompts:diagnosticsGate.ignoredSourcesPlaceholder")}
+						onInput={(e: any) => setIgnoredSources(e.target.value)}
+						onBlur={() => {
+							const sources = ignoredSources
+								.split(",")
+								.map((source) => source.trim())
+								.filter(Boolean)
+							update({ ignoredSources: sources.length > 0 ? sources : undefined })
+						}}
+						data-testid="diagnostics-gate-ignored-sources">
+						{t("prompts:diagnosticsGate.ignoredSources")}
+					</VSCodeTextField>
+					<VSCodeTextField
+						value={gate.maxAttempts?.toString() ?? ""}
+						placeholder={DEFAULT_DIAGNOSTICS_GATE_MAX_ATTEMPTS.toString()}
+						onChange={(e: any) => {
+							const maxAttempts = parseInt(e.target.value, 10)
+							update({ maxAttempts: maxAttempts > 0 ? maxAttempts : undefined })
+						}}
+						data-testid="diagnostics-gate-max-attempts">
+						{t("prompts:diagnosticsGate.maxAttempts")}
+					</VSCodeTextField>
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,131 @@
+import React, { useMemo } from "react"
+
+import type { ModeConfig } from "@roo-code/types"
+
+import { getAllModes, getGroupName, getModeDiff, getModeInheritanceError, modes, resolveModeConfig } from "@roo/modes"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@src/components/ui"
+
+const NO_PARENT = "__none__"
+
+interface ModeInheritanceSectionProps {
+	// The custom mode as it is stored, with only what it overrides.
+	mode: ModeConfig
+	customModes?: ModeConfig[]
+	onChangeParent: (parentSlug: string | undefined) => void
+}
+
+export const ModeInheritanceSection: React.FC<ModeInheritanceSectionProps> = ({
+	mode,
+	customModes,
+	onChangeParent,
+}) => {
+	const { t } = useAppTranslation()
+
+	const parents = useMemo(() => {
+		const builtInMode = modes.find((m) => m.slug === mode.slug)
+		const otherModes = getAllModes(customModes).filter((m) => m.slug !== mode.slug)
+
+		// A custom mode that overrides a built-in mode can extend it.
+		return builtInMode
+			? [
+					{ slug: builtInMode.slug, name: t("prompts:inheritance.builtIn", { name: builtInMode.name }) },
+					...otherModes,
+				]
+			: otherModes
+	}, [mode.slug, customModes, t])
+
+	const error = mode.extends ? getModeInheritanceError(mode, customModes) : undefined
+	const diff = mode.extends && !error ? getModeDiff(mode, customModes) : []
+	const resolvedMode = resolveModeConfig(mode, customModes)
+
+	const describeChange = ({ field, parent, value }: (typeof diff)[number]) => {
+		switch (field) {
+			case "roleDefinition":
+			case "permissions":
+			case "commandSandbox":
+			case "diagnosticsGate":
+				return t("prompts:inheritance.replaced")
+			case "customInstructions":
+				return t("prompts:inheritance.extended")
+			case "groups": {
+				const parentGroups = ((parent as ModeConfig["groups"]) ?? []).map(getGroupName)
+				const groups = ((value as ModeConfig["groups"]) ?? []).map(getGroupName)
+				return [
+					...groups.filter((group) => !parentGroups.includes(group)).map((group) => `+${group}`),
+					...parentGroups.filter((group) => !groups.includes(group)).map((group) => `−${group}`),
+				].join(", ")
+			}
+			default:
+				return typeof value === "string" ? value : t("prompts:inheritance.replaced")
+		}
+	}
+
+	return (
+		<div className="mb-4" data-testid="mode-inheritance">
+			<div className="font-bold mb-1">{t("prompts:inheritance.title")}</div>
+			<div className="text-sm text-vscode-descriptionForeground mb-2">{t("prompts:inheritance.description")}</div>
+			<Select
+				value={mode.extends ?? NO_PARENT}
+				onValueChange={(value) => onChangeParent(value === NO_PARENT ? undefined : value)}>
+				<SelectTrigger className="w-full" data-testid="mode-extends-select">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value={NO_PARENT}>{t("prompts:inheritance.none")}</SelectItem>
+					{parents.map((parent) => (
+						<SelectItem key={parent.slug} value={parent.slug}>
+							{parent.name}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+			{error && (
+				<div className="text-vscode-errorForeground text-sm mt-2" data-testid="mode-inheritance-error">
+					{error}
+				</div>
+			)}
+			{mode.extends && !error && (
+				<>
+					<div className="text-sm mt-2 mb-1">{t("prompts:inheritance.differences")}</div>
+					{diff.length > 0 ? (
+						<ul className="text-sm text-vscode-descriptionForeground my-0 pl-4" data-testid="mode-diff">
+							{diff.map((change) => (
+								<li key={change.field}>
+									{t(`prompts:inheritance.fields.${change.field}`, { defaultValue: change.field })}:{" "}
+									{describeChange(change)}
+								</li>
+							))}
+						</ul>
+					) : (
+						<div className="text-sm text-vscode-descriptionForeground">
+							{t("prompts:inheritance.noDifferences")}
+						</div>
+					)}
+					<details className="mt-2 text-sm">
+						<summary className="cursor-pointer">{t("prompts:inheritance.effective")}</summary>
+						<div className="mt-1 font-bold">{t("prompts:roleDefinition.title")}</div>
+						<div className="whitespace-pre-wrap text-vscode-descriptionForeground">
+							{resolvedMode.roleDefinition}
+						</div>
+						{resolvedMode.customInstructions && (
+							<>
+								<div className="mt-1 font-bold">{t("prompts:customInstructions.title")}</div>
+								<div className="whitespace-pre-wrap text-vscode-descriptionForeground">
+									{resolvedMode.customInstructions}
+								</div>
+							</>
+						)}
+						<div className="mt-1 font-bold">{t("prompts:tools.title")}</div>
+						<div className="text-vscode-descriptionForeground">
+							{resolvedMode.groups
+								.map((group) => t(`prompts:tools.toolNames.${getGroupName(group)}`))
+								.join(", ") || t("prompts:tools.noTools")}
+						</div>
+					</details>
+				</>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,132 @@
+import React, { useState } from "react"
+import { VSCodeCheckbox, VSCodeTextArea } from "@vscode/webview-ui-toolkit/react"
+
+import type { ModePermissions } from "@roo-code/types"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+
+type PermissionField = "commandsAllow" | "commandsDeny" | "mcpAllow" | "mcpDeny" | "pathsRead" | "pathsWrite"
+
+const PERMISSION_FIELDS: PermissionField[] = [
+	"commandsAllow",
+	"commandsDeny",
+	"mcpAllow",
+	"mcpDeny",
+	"pathsRead",
+	"pathsWrite",
+]
+
+function getPermissionList(permissions: ModePermissions | undefined, field: PermissionField) {
+	switch (field) {
+		case "commandsAllow":
+			return permissions?.commands?.allow
+		case "commandsDeny":
+			return permissions?.commands?.deny
+		case "mcpAllow":
+			return permissions?.mcp?.allow
+		case "mcpDeny":
+			return permissions?.mcp?.deny
+		case "pathsRead":
+			return permissions?.paths?.read
+		case "pathsWrite":
+			return permissions?.paths?.write
+	}
+}
+
+const toList = (text: string) =>
+	text
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean)
+
+const orUndefined = <T extends object>(value: T) =>
+	Object.values(value).some((entry) => entry !== undefined) ? value : undefined
+
+/**
+ * Builds the permissions of a mode from the lists of the editor, leaving out the empty ones so
+ * that a mode without restrictions has no permissions at all.
+ */
+export function buildModePermissions(
+	lists: Record<PermissionField, string[]>,
+	network: boolean,
+): ModePermissions | undefined {
+	const list = (field: PermissionField) => (lists[field].length > 0 ? lists[field] : undefined)
+
+	return orUndefined({
+		commands: orUndefined({ allow: list("commandsAllow"), deny: list("commandsDeny") }),
+		mcp: orUndefined({ allow: list("mcpAllow"), deny: list("mcpDeny") }),
+		paths: orUndefined({ read: list("pathsRead"), write: list("pathsWrite") }),
+		network: network ? undefined : false,
+	})
+}
+
+interface ModePermissionsEditorProps {
+	permissions?: ModePermissions
+	// Built-in modes have no permissions and cannot be edited.
+	isEditable: boolean
+	onChange: (permissions: ModePermissions | undefined) => void
+}
+
+export const ModePermissionsEditor: React.FC<ModePermissionsEditorProps> = ({ permissions, isEditable, onChange }) => {
+	const { t } = useAppTranslation()
+	const [drafts, setDrafts] = useState<Record<PermissionField, string>>(
+		() =>
+			Object.fromEntries(
+				PERMISSION_FIELDS.map((field) => [field, (getPermissionList(permissions, field) ?? []).join("\n")]),
+			) as Record<PermissionField, string>,
+	)
+
+	const save = (nextDrafts: Record<PermissionField, string>, network: boolean) => {
+		const lists = Object.fromEntries(
+			PERMISSION_FIELDS.map((field) => [field, toList(nextDrafts[field])]),
+		) as Record<PermissionField, string[]>
+		onChange(buildModePermissions(lists, network))
+	}
+
+	if (!isEditable) {
+		return (
+			<div className="mb-4">
+				<div className="font-bold mb-1">{t("prompts:permissions.title")}</div>
+				<div className="text-sm text-vscode-descriptionForeground">
+					{t("prompts:permissions.builtInModesText")}
+				</div>
+			</div>
+		)
+	}
+
+	return (
+		<div className="mb-4" data-testid="mode-permissions">
+			<div className="font-bold mb-1">{t("prompts:permissions.title")}</div>
+			<div className="text-[13px] text-vscode-descriptionForeground mb-2">
+				{t("prompts:permissions.description")}
+			</div>
+			<div className="grid grid-cols-[repeat(auto-fill,minmax(200px,1fr))] gap-2">
+				{PERMISSION_FIELDS.map((field) => (
+					<div key={field}>
+						<div className="text-sm mb-1">{t(`prompts:permissions.fields.${field}.label`)}</div>
+						<VSCodeTextArea
+							resize="vertical"
+							rows={3}
+							className="w-full"
+							value={drafts[field]}
+							placeholder={t(`prompts:permissions.fields.${field}.placeholder`)}
+							onInput={(e) => {
+								const value = ((e as any).target as HTMLTextAreaElement).value
+								setDrafts((drafts) => ({ ...drafts, [field]: value }))
+							}}
+							onBlur={() => save(drafts, permissions?.network !== false)}
+							data-testid={`mode-permissions-${field}`}
+						/>
+					</div>
+				))}
+			</div>
+			<VSCodeCheckbox
+				className="mt-2"
+				checked={permissions?.network !== false}
+				onChange={(e: any) => save(drafts, e.target.checked)}
+				data-testid="mode-permissions-network">
+				{t("prompts:permissions.network")}
+			</VSCodeCheckbox>
+		</div>
+	)
+}
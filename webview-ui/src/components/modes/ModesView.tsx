@@ -21,6 +21,7 @@ import {
 	getAllModes,
 	findModeBySlug as findCustomModeBySlug,
 	defaultModeSlug,
+	resolveModeConfig,
 } from "@roo/modes"
 import { TOOL_GROUPS } from "@roo/tools"
 
@@ -49,6 +50,10 @@ import {
 	StandardTooltip,
 } from "@src/components/ui"
 import { DeleteModeDialog } from "@src/components/modes/DeleteModeDialog"
+import { ModePermissionsEditor } from "@src/components/modes/ModePermissionsEditor"
+import { ModeInheritanceSection } from "@src/components/modes/ModeInheritanceSection"
+import { DiagnosticsGateEditor } from "@src/components/modes/DiagnosticsGateEditor"
+import { CommandSandboxControl } from "@src/components/settings/CommandSandboxControl"
 import { useEscapeKey } from "@src/hooks/useEscapeKey"
 
 // Get all available groups that should show in prompts view
@@ -292,7 +297,8 @@ const ModesView = () => {
 	// Helper function to get current mode's config
 	const getCurrentMode = useCallback((): ModeConfig | undefined => {
 		const findMode = (m: ModeConfig): boolean => m.slug === visualMode
-		return customModes?.find(findMode) || modes.find(findMode)
+		const customMode = customModes?.find(findMode)
+		return customMode ? resolveModeConfig(customMode, customModes) : modes.find(findMode)
 	}, [visualMode, customModes, modes])
 
 	// Check if the current mode has rules to export
@@ -478,7 +484,8 @@ const ModesView = () => {
 				if (!isCustomMode) return // Prevent changes to built-in modes
 				const target = (e as CustomEvent)?.detail?.target || (e.target as HTMLInputElement)
 				const checked = target.checked
-				const oldGroups = customMode?.groups || []
+				// Start from the groups that the mode inherits, if it does not override them yet
+				const oldGroups = customMode ? resolveModeConfig(customMode, customModes).groups : []
 				let newGroups: GroupEntry[]
 				if (checked) {
 					newGroups = [...oldGroups, group]
@@ -495,7 +502,7 @@ const ModesView = () => {
 					})
 				}
 			},
-		[updateCustomMode],
+		[updateCustomMode, customModes],
 	)
 
 	// Handle clicks outside the config menu
@@ -946,6 +953,29 @@ const ModesView = () => {
 					</div> */}
 				</div>
 
+				{/* Inheritance section, only for custom modes */}
+				{(() => {
+					const customMode = findModeBySlug(visualMode, customModes)
+					if (!customMode) {
+						return null
+					}
+					return (
+						<ModeInheritanceSection
+							mode={customMode}
+							customModes={customModes}
+							onChangeParent={(parentSlug) => {
+								// A mode that stops extending another mode keeps its effective configuration.
+								const baseMode = parentSlug ? customMode : resolveModeConfig(customMode, customModes)
+								updateCustomMode(visualMode, {
+									...baseMode,
+									extends: parentSlug,
+									source: customMode.source || "global",
+								})
+							}}
+						/>
+					)
+				})()}
+
 				{/* Role Definition section */}
 				<div className="mb-4">
 					<div className="flex justify-between items-center mb-1">
@@ -1144,9 +1174,7 @@ const ModesView = () => {
 									const currentMode = getCurrentMode()
 									const isCustomMode = findModeBySlug(visualMode, customModes)
 									const customMode = isCustomMode
-									const isGroupEnabled = isCustomMode
-										? customMode?.groups?.some((g) => getGroupName(g) === group)
-										: currentMode?.groups?.some((g) => getGroupName(g) === group)
+									const isGroupEnabled = currentMode?.groups?.some((g) => getGroupName(g) === group)
 
 									return (
 										<VSCodeCheckbox
@@ -1201,6 +1229,69 @@ const ModesView = () => {
 					</div>
 				</>
 
+				{/* Permissions of the tools, only editable for custom modes */}
+				{(() => {
+					const customMode = findModeBySlug(visualMode, customModes)
+					return (
+						<ModePermissionsEditor
+							key={visualMode}
+							permissions={customMode?.permissions}
+							isEditable={!!customMode}
+							onChange={(permissions) => {
+								if (customMode) {
+									updateCustomMode(visualMode, {
+										...customMode,
+										permissions,
+										source: customMode.source || "global",
+									})
+								}
+							}}
+						/>
+					)
+				})()}
+
+				{/* Sandbox of the commands, only editable for custom modes */}
+				{(() => {
+					const customMode = findModeBySlug(visualMode, customModes)
+					return (
+						customMode && (
+							<div className="mb-4">
+								<CommandSandboxControl
+									allowInherit
+									sandbox={customMode.commandSandbox}
+									onChange={(commandSandbox) =>
+										updateCustomMode(visualMode, {
+											...customMode,
+											commandSandbox,
+											source: customMode.source || "global",
+										})
+									}
+								/>
+							</div>
+						)
+					)
+				})()}
+
+				{/* Gate on the problems introduced by the task, only editable for custom modes */}
+				{(() => {
+					const customMode = findModeBySlug(visualMode, customModes)
+					return (
+						customMode && (
+							<DiagnosticsGateEditor
+								key={visualMode}
+								gate={customMode.diagnosticsGate}
+								onChange={(diagnosticsGate) =>
+									updateCustomMode(visualMode, {
+										...customMode,
+										diagnosticsGate,
+										source: customMode.source || "global",
+									})
+								}
+							/>
+						)
+					)
+				})()}
+
 				{/* Role definition for both built-in and custom modes */}
 				<div className="mb-2">
 					<div className="flex justify-between items-center mb-1">
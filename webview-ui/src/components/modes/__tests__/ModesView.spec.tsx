@@ -264,4 +264,67 @@ describe("PromptsView", () => {
 		// Verify popover remains closed
 		expect(selectTrigger).toHaveAttribute("aria-expanded", "false")
 	})
+
+	it("edits the permissions of custom modes", async () => {
+		const customMode = {
+			slug: "custom-mode",
+			name: "Custom Mode",
+			roleDefinition: "Custom role",
+			groups: ["read", "command"],
+			source: "project",
+			permissions: { commands: { allow: ["git log"] } },
+		}
+		renderPromptsView({ mode: "custom-mode", customModes: [customMode] })
+
+		const denied = screen.getByTestId("mode-permissions-commandsDeny")
+		Object.defineProperty(denied, "value", { writable: true, value: "rm\n\ngit push " })
+		fireEvent(denied, new Event("input", { bubbles: true }))
+		fireEvent.blur(denied)
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "updateCustomMode",
+			slug: "custom-mode",
+			modeConfig: {
+				...customMode,
+				permissions: { commands: { allow: ["git log"], deny: ["rm", "git push"] } },
+			},
+		})
+	})
+
+	it("does not edit the permissions of built-in modes", () => {
+		renderPromptsView({ mode: "code" })
+
+		expect(screen.queryByTestId("mode-permissions")).not.toBeInTheDocument()
+	})
+
+	it("shows the differences of a mode from the mode it extends", () => {
+		const customMode = {
+			slug: "reviewer",
+			name: "Reviewer",
+			extends: "code",
+			roleDefinition: "",
+			customInstructions: "Only review.",
+			groups: ["read"],
+			source: "global",
+		}
+		renderPromptsView({ mode: "reviewer", customModes: [customMode] })
+
+		const diff = screen.getByTestId("mode-diff")
+		expect(diff).toHaveTextContent("prompts:inheritance.fields.groups: −edit, −browser, −command, −mcp")
+		expect(diff).toHaveTextContent("prompts:inheritance.fields.customInstructions: prompts:inheritance.extended")
+		expect(diff).not.toHaveTextContent("prompts:inheritance.fields.roleDefinition")
+		expect(screen.queryByTestId("mode-inheritance-error")).not.toBeInTheDocument()
+	})
+
+	it("reports circular inheritance", () => {
+		const customModes = [
+			{ slug: "a", name: "A", extends: "b", roleDefinition: "", groups: [], source: "global" },
+			{ slug: "b", name: "B", extends: "a", roleDefinition: "", groups: [], source: "global" },
+		]
+		renderPromptsView({ mode: "a", customModes })
+
+		expect(screen.getByTestId("mode-inheritance-error")).toHaveTextContent(
+			"Mode 'a' has circular inheritance: a → b → a",
+		)
+	})
 })
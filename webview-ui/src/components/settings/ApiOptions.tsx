@@ -107,6 +107,7 @@ import {
 	DeepInfra,
 	GeminiCli,
 	MiniMax,
+	Router,
 } from "./providers"
 
 import { MODELS_BY_PROVIDER, PROVIDERS } from "./constants"
@@ -120,6 +121,7 @@ import { TodoListSettingsControl } from "./TodoListSettingsControl"
 import { TemperatureControl } from "./TemperatureControl"
 import { RateLimitSecondsControl } from "./RateLimitSecondsControl"
 import { ConsecutiveMistakeLimitControl } from "./ConsecutiveMistakeLimitControl"
+import { CommandSandboxControl } from "./CommandSandboxControl"
 import { BedrockCustomArn } from "./providers/BedrockCustomArn"
 // import { buildDocLink } from "@src/utils/docLinks"
 import { SetCachedStateField } from "./types"
@@ -852,6 +854,10 @@ const ApiOptions = ({
 				</>
 			)}
 
+			{selectedProvider === "router" && (
+				<Router apiConfiguration={apiConfiguration} setApiConfigurationField={setApiConfigurationField} />
+			)}
+
 			{selectedProvider === "fireworks" && (
 				<Fireworks apiConfiguration={apiConfiguration} setApiConfigurationField={setApiConfigurationField} />
 			)}
@@ -987,6 +993,10 @@ const ApiOptions = ({
 							}
 							onChange={(value) => setApiConfigurationField("consecutiveMistakeLimit", value)}
 						/>
+						<CommandSandboxControl
+							sandbox={apiConfiguration.commandSandbox}
+							onChange={(sandbox) => setApiConfigurationField("commandSandbox", sandbox)}
+						/>
 						{selectedProvider === "openrouter" &&
 							openRouterModelProviders &&
 							Object.keys(openRouterModelProviders).length > 0 && (
@@ -0,0 +1,103 @@
+import React from "react"
+import { VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+
+import {
+	type CommandSandbox,
+	type CommandSandboxBackend,
+	commandSandboxBackends,
+	DEFAULT_COMMAND_SANDBOX_IMAGE,
+} from "@roo-code/types"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui"
+
+const INHERIT = "inherit"
+
+type LimitField = "memoryLimitMb" | "cpuLimit" | "pidsLimit"
+
+const LIMIT_FIELDS: LimitField[] = ["memoryLimitMb", "cpuLimit", "pidsLimit"]
+
+interface CommandSandboxControlProps {
+	sandbox?: CommandSandbox
+	// Modes can leave the sandbox to the API configuration profile.
+	allowInherit?: boolean
+	onChange: (sandbox: CommandSandbox | undefined) => void
+}
+
+export const CommandSandboxControl: React.FC<CommandSandboxControlProps> = ({ sandbox, allowInherit, onChange }) => {
+	const { t } = useAppTranslation()
+	const backend = sandbox?.backend ?? (allowInherit ? INHERIT : "none")
+
+	const handleBackendChange = (value: string) => {
+		if (value === INHERIT || (value === "none" && !allowInherit)) {
+			onChange(undefined)
+		} else {
+			onChange({ ...sandbox, backend: value as CommandSandboxBackend })
+		}
+	}
+
+	const handleLimitChange = (field: LimitField, text: string) => {
+		const value = field === "cpuLimit" ? parseFloat(text) : parseInt(text, 10)
+
+		if (sandbox) {
+			onChange({ ...sandbox, [field]: value > 0 ? value : undefined })
+		}
+	}
+
+	return (
+		<div className="flex flex-col gap-1" data-testid="command-sandbox">
+			<label className="block font-medium mb-1">{t("settings:advanced.commandSandbox.label")}</label>
+			<Select value={backend} onValueChange={handleBackendChange}>
+				<SelectTrigger className="w-full" data-testid="command-sandbox-backend">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{allowInherit && (
+						<SelectItem value={INHERIT}>
+							{t("settings:advanced.commandSandbox.backends.inherit")}
+						</SelectItem>
+					)}
+					{commandSandboxBackends.map((value) => (
+						<SelectItem key={value} value={value}>
+							{t(`settings:advanced.commandSandbox.backends.${value}`)}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+			<div className="text-vscode-descriptionForeground text-sm">
+				{t("settings:advanced.commandSandbox.description")}
+			</div>
+			{sandbox && sandbox.backend !== "none" && (
+				<div className="flex flex-col gap-2 mt-1">
+					{(sandbox.backend === "docker" || sandbox.backend === "podman") && (
+						<VSCodeTextField
+							value={sandbox.image ?? ""}
+							placeholder={DEFAULT_COMMAND_SANDBOX_IMAGE}
+							onChange={(e: any) => onChange({ ...sandbox, image: e.target.value.trim() || undefined })}
+							data-testid="command-sandbox-image">
+							{t("settings:advanced.commandSandbox.image")}
+						</VSCodeTextField>
+					)}
+					<div className="grid grid-cols-3 gap-2">
+						{LIMIT_FIELDS.map((field) => (
+							<VSCodeTextField
+								key={field}
+								value={sandbox[field]?.toString() ?? ""}
+								placeholder={t("settings:advanced.commandSandbox.noLimit")}
+								onChange={(e: any) => handleLimitChange(field, e.target.value)}
+								data-testid={`command-sandbox-${field}`}>
+								{t(`settings:advanced.commandSandbox.limits.${field}`)}
+							</VSCodeTextField>
+						))}
+					</div>
+					<VSCodeCheckbox
+						checked={!!sandbox.network}
+						onChange={(e: any) => onChange({ ...sandbox, network: e.target.checked || undefined })}
+						data-testid="command-sandbox-network">
+						{t("settings:advanced.commandSandbox.network")}
+					</VSCodeCheckbox>
+				</div>
+			)}
+		</div>
+	)
+}
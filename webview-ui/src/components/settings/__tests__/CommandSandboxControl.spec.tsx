@@ -0,0 +1,89 @@
+import { render, screen, fireEvent } from "@testing-library/react"
+
+import { CommandSandboxControl } from "../CommandSandboxControl"
+
+vi.mock("@/i18n/TranslationContext", () => ({
+	useAppTranslation: () => ({ t: (key: string) => key }),
+}))
+
+vi.mock("@vscode/webview-ui-toolkit/react", () => ({
+	VSCodeCheckbox: ({ children, onChange, checked, ...props }: any) => (
+		<label>
+			<input
+				type="checkbox"
+				checked={checked}
+				onChange={(e) => onChange({ target: { checked: e.target.checked } })}
+				{...props}
+			/>
+			{children}
+		</label>
+	),
+	VSCodeTextField: ({ children, onChange, value, ...props }: any) => (
+		<label>
+			{children}
+			<input value={value} onChange={(e) => onChange({ target: { value: e.target.value } })} {...props} />
+		</label>
+	),
+}))
+
+vi.mock("@/components/ui", () => ({
+	Select: ({ children, value, onValueChange }: any) => (
+		<select value={value} onChange={(e) => onValueChange(e.target.value)} data-testid="command-sandbox-select">
+			{children}
+		</select>
+	),
+	SelectTrigger: () => null,
+	SelectValue: () => null,
+	SelectContent: ({ children }: any) => <>{children}</>,
+	SelectItem: ({ children, value }: any) => <option value={value}>{children}</option>,
+}))
+
+describe("CommandSandboxControl", () => {
+	it("leaves the sandbox of modes to the profile", () => {
+		const onChange = vi.fn()
+		render(<CommandSandboxControl allowInherit sandbox={{ backend: "none" }} onChange={onChange} />)
+
+		const select = screen.getByTestId("command-sandbox-select") as HTMLSelectElement
+		expect(select.value).toBe("none")
+
+		fireEvent.change(select, { target: { value: "inherit" } })
+		expect(onChange).toHaveBeenCalledWith(undefined)
+	})
+
+	it("runs the commands of profiles on the host by default", () => {
+		const onChange = vi.fn()
+		render(<CommandSandboxControl onChange={onChange} />)
+
+		const select = screen.getByTestId("command-sandbox-select") as HTMLSelectElement
+		expect(select.value).toBe("none")
+		expect(screen.queryByText("settings:advanced.commandSandbox.backends.inherit")).not.toBeInTheDocument()
+		expect(screen.queryByTestId("command-sandbox-network")).not.toBeInTheDocument()
+
+		fireEvent.change(select, { target: { value: "podman" } })
+		expect(onChange).toHaveBeenCalledWith({ backend: "podman" })
+	})
+
+	it("edits the image, the limits and the network access of a container", () => {
+		const onChange = vi.fn()
+		render(<CommandSandboxControl sandbox={{ backend: "docker", memoryLimitMb: 1024 }} onChange={onChange} />)
+
+		fireEvent.change(screen.getByTestId("command-sandbox-image"), { target: { value: " python:3.12 " } })
+		expect(onChange).toHaveBeenLastCalledWith({ backend: "docker", memoryLimitMb: 1024, image: "python:3.12" })
+
+		fireEvent.change(screen.getByTestId("command-sandbox-cpuLimit"), { target: { value: "1.5" } })
+		expect(onChange).toHaveBeenLastCalledWith({ backend: "docker", memoryLimitMb: 1024, cpuLimit: 1.5 })
+
+		fireEvent.change(screen.getByTestId("command-sandbox-memoryLimitMb"), { target: { value: "" } })
+		expect(onChange).toHaveBeenLastCalledWith({ backend: "docker", memoryLimitMb: undefined })
+
+		fireEvent.click(screen.getByTestId("command-sandbox-network"))
+		expect(onChange).toHaveBeenLastCalledWith({ backend: "docker", memoryLimitMb: 1024, network: true })
+	})
+
+	it("has no image for bubblewrap", () => {
+		render(<CommandSandboxControl sandbox={{ backend: "bubblewrap" }} onChange={vi.fn()} />)
+
+		expect(screen.queryByTestId("command-sandbox-image")).not.toBeInTheDocument()
+		expect(screen.getByTestId("command-sandbox-pidsLimit")).toBeInTheDocument()
+	})
+})
@@ -0,0 +1,132 @@
+import { useCallback, useMemo } from "react"
+import { VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+
+import { type ProviderSettings, type RouterProfile, type RouterStrategy, isCompositeProvider } from "@roo-code/types"
+
+import { useExtensionState } from "@src/context/ExtensionStateContext"
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@src/components/ui"
+
+type RouterProps = {
+	apiConfiguration: ProviderSettings
+	setApiConfigurationField: (field: keyof ProviderSettings, value: ProviderSettings[keyof ProviderSettings]) => void
+}
+
+export const Router = ({ apiConfiguration, setApiConfigurationField }: RouterProps) => {
+	const { t } = useAppTranslation()
+	const { listApiConfigMeta, currentApiConfigName } = useExtensionState()
+
+	const strategy: RouterStrategy = apiConfiguration.routerStrategy ?? "priority"
+	const routerProfiles = useMemo(() => apiConfiguration.routerProfiles ?? [], [apiConfiguration.routerProfiles])
+
+	// Routers can't route to themselves or to other routers.
+	const candidates = useMemo(
+		() =>
+			(listApiConfigMeta ?? []).filter(
+				(config) =>
+					config.name !== currentApiConfigName &&
+					!(config.apiProvider && isCompositeProvider(config.apiProvider)),
+			),
+		[listApiConfigMeta, currentApiConfigName],
+	)
+
+	const updateProfile = useCallback(
+		(profileId: string, update: Partial<RouterProfile> | undefined) => {
+			const existing = routerProfiles.find((profile) => profile.profileId === profileId)
+
+			const next = !update
+				? routerProfiles.filter((profile) => profile.profileId !== profileId)
+				: existing
+					? routerProfiles.map((profile) => (profile === existing ? { ...profile, ...update } : profile))
+					: [...routerProfiles, { profileId, priority: routerProfiles.length, weight: 1, ...update }]
+
+			setApiConfigurationField("routerProfiles", next)
+		},
+		[routerProfiles, setApiConfigurationField],
+	)
+
+	const parseNumber = (event: Event | React.FormEvent<HTMLElement>, integer = false) => {
+		const value = Number((event.target as HTMLInputElement).value)
+		return Number.isFinite(value) && value >= 0 ? (integer ? Math.round(value) : value) : undefined
+	}
+
+	return (
+		<>
+			<div className="text-sm text-vscode-descriptionForeground">
+				{t("settings:providers.router.description")}
+			</div>
+
+			<div>
+				<label className="block font-medium mb-1">{t("settings:providers.router.strategy")}</label>
+				<Select
+					value={strategy}
+					onValueChange={(value) => setApiConfigurationField("routerStrategy", value as RouterStrategy)}>
+					<SelectTrigger className="w-full">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value="priority">{t("settings:providers.router.strategies.priority")}</SelectItem>
+						<SelectItem value="weighted">{t("settings:providers.router.strategies.weighted")}</SelectItem>
+					</SelectContent>
+				</Select>
+				<div className="text-sm text-vscode-descriptionForeground mt-1">
+					{t(`settings:providers.router.strategyDescriptions.${strategy}`)}
+				</div>
+			</div>
+
+			<div>
+				<label className="block font-medium mb-1">{t("settings:providers.router.profiles")}</label>
+				{candidates.length === 0 && (
+					<div className="text-sm text-vscode-descriptionForeground">
+						{t("settings:providers.router.noProfiles")}
+					</div>
+				)}
+				{candidates.map((config) => {
+					const profile = routerProfiles.find((p) => p.profileId === config.id)
+
+					return (
+						<div key={config.id} className="flex items-center justify-between gap-2 py-1">
+							<VSCodeCheckbox
+								checked={!!profile}
+								onChange={(e: any) => updateProfile(config.id, e.target.checked ? {} : undefined)}>
+								<span className="truncate">
+									{config.name}
+									{config.modelId && (
+										<span className="text-vscode-descriptionForeground"> ({config.modelId})</span>
+									)}
+								</span>
+							</VSCodeCheckbox>
+							{profile && (
+								<VSCodeTextField
+									className="w-20"
+									aria-label={t(`settings:providers.router.inputLabels.${strategy}`)}
+									title={t(`settings:providers.router.inputLabels.${strategy}`)}
+									value={String((strategy === "weighted" ? profile.weight : profile.priority) ?? "")}
+									onInput={(e) =>
+										updateProfile(
+											config.id,
+											strategy === "weighted"
+												? { weight: parseNumber(e) }
+												: { priority: parseNumber(e, true) },
+										)
+									}
+								/>
+							)}
+						</div>
+					)
+				})}
+			</div>
+
+			<VSCodeTextField
+				value={String(apiConfiguration.routerCooldownSeconds ?? "")}
+				placeholder="60"
+				onInput={(e) => setApiConfigurationField("routerCooldownSeconds", parseNumber(e))}
+				className="w-full">
+				<label className="block font-medium mb-1">{t("settings:providers.router.cooldownSeconds")}</label>
+			</VSCodeTextField>
+			<div className="text-sm text-vscode-descriptionForeground -mt-2">
+				{t("settings:providers.router.cooldownDescription")}
+			</div>
+		</>
+	)
+}
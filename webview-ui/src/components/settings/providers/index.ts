@@ -35,3 +35,4 @@ export { VercelAiGateway } from "./VercelAiGateway"
 export { DeepInfra } from "./DeepInfra"
 export { MiniMax } from "./MiniMax"
 export { Baseten } from "./Baseten"
+export { Router } from "./Router"
@@ -433,12 +433,16 @@ function getSelectedModel({
 			const info = routerModels["vercel-ai-gateway"]?.[id]
 			return { id, info }
 		}
+		case "router": {
+			// The model info depends on the profile that serves each request.
+			return { id: "", info: undefined }
+		}
 		// case "anthropic":
 		// case "human-relay":
 		// case "fake-ai":
 		default: {
 			// provider satisfies "anthropic" | "gemini-cli" | "qwen-code" | "human-relay" | "fake-ai" | "roo"
-			provider satisfies "anthropic" | "gemini-cli" | "fake-ai" | "human-relay" | "roo"
+			provider satisfies "anthropic" | "gemini-cli" | "fake-ai" | "human-relay" | "replay" | "roo"
 			const id = apiConfiguration.apiModelId ?? defaultModelId
 			const baseInfo = anthropicModels[id as keyof typeof anthropicModels]
 
@@ -2,7 +2,9 @@ import {
 	insertMention,
 	removeMention,
 	getContextMenuOptions,
+	insertMentionPrefix,
 	shouldShowContextMenu,
+	splitDiffRange,
 	ContextMenuOptionType,
 	ContextMenuQueryItem,
 	SearchResult,
@@ -238,7 +240,7 @@ describe("getContextMenuOptions", () => {
 
 	it("should return all option types for empty query", () => {
 		const result = getContextMenuOptions("", null, [])
-		expect(result).toHaveLength(6)
+		expect(result).toHaveLength(10)
 		expect(result.map((item) => item.type)).toEqual([
 			ContextMenuOptionType.Problems,
 			ContextMenuOptionType.Terminal,
@@ -246,6 +248,10 @@ describe("getContextMenuOptions", () => {
 			ContextMenuOptionType.Folder,
 			ContextMenuOptionType.File,
 			ContextMenuOptionType.Git,
+			ContextMenuOptionType.Symbol,
+			ContextMenuOptionType.Diff,
+			ContextMenuOptionType.FolderTree,
+			ContextMenuOptionType.Tests,
 		])
 	})
 
@@ -433,8 +439,9 @@ describe("getContextMenuOptions", () => {
 		// Verify we have results
 		expect(result.length).toBeGreaterThan(0)
 
-		// Verify the first item is an opened file type
-		expect(result[0].type).toBe(ContextMenuOptionType.OpenedFile)
+		// "test" also matches the @tests mention, which is suggested before any item
+		expect(result[0].type).toBe(ContextMenuOptionType.Tests)
+		expect(result[1].type).toBe(ContextMenuOptionType.OpenedFile)
 
 		// Verify the remaining items are in the correct order:
 		// suggestions -> openedFiles -> searchResults -> gitResults
@@ -446,8 +453,8 @@ describe("getContextMenuOptions", () => {
 		)
 		const firstGitResultIndex = result.findIndex((item) => item.type === ContextMenuOptionType.Git)
 
-		// Verify opened files come first
-		expect(firstOpenedFileIndex).toBe(0)
+		// Verify opened files come first after the suggestions
+		expect(firstOpenedFileIndex).toBe(1)
 
 		// Verify search results come after opened files but before git results
 		expect(firstSearchResultIndex).toBeGreaterThan(firstOpenedFileIndex)
@@ -546,7 +553,75 @@ describe("getContextMenuOptions", () => {
 		})
 	})
 
-	// Add more tests for filtering, fuzzy search interaction if needed
+	it("should offer the typed symbol and the workspace symbols for a symbol query", () => {
+		const queryItems: ContextMenuQueryItem[] = [
+			{ type: ContextMenuOptionType.Symbol, value: "symbol:Task.say", label: "say" },
+			{ type: ContextMenuOptionType.File, value: "/src/task.ts" },
+		]
+
+		const result = getContextMenuOptions("symbol:say", null, queryItems)
+
+		expect(result.map((item) => item.value)).toEqual(["symbol:say", "symbol:Task.say"])
+		expect(result.every((item) => item.type === ContextMenuOptionType.Symbol)).toBe(true)
+	})
+
+	it("should complete either side of a diff range with branches", () => {
+		const queryItems: ContextMenuQueryItem[] = [
+			{ type: ContextMenuOptionType.Diff, value: "main" },
+			{ type: ContextMenuOptionType.Diff, value: "feature/login" },
+		]
+
+		expect(getContextMenuOptions("diff:", null, queryItems).map((item) => item.value)).toEqual([
+			"diff:main..HEAD",
+			"diff:feature/login..HEAD",
+		])
+		expect(getContextMenuOptions("diff:main..fea", null, queryItems).map((item) => item.value)).toEqual([
+			"diff:main..fea",
+			"diff:main..feature/login",
+		])
+	})
+
+	it("should offer folders for a tree query", () => {
+		const folders: SearchResult[] = [
+			{ path: "src/core", type: "folder" },
+			{ path: "src/core/index.ts", type: "file" },
+		]
+
+		expect(getContextMenuOptions("tree:/core", null, [], folders)).toEqual([
+			{ type: ContextMenuOptionType.FolderTree, value: "tree:/src/core" },
+		])
+		expect(
+			getContextMenuOptions("tree:/", null, [{ type: ContextMenuOptionType.Folder, value: "/src/" }]).map(
+				(item) => item.value,
+			),
+		).toEqual(["tree:/", "tree:/src"])
+	})
+
+	it("should suggest the new mention types by prefix", () => {
+		const types = (query: string) => getContextMenuOptions(query, null, []).map((item) => item.type)
+
+		expect(types("sym")).toContain(ContextMenuOptionType.Symbol)
+		expect(types("di")).toContain(ContextMenuOptionType.Diff)
+		expect(types("tr")).toContain(ContextMenuOptionType.FolderTree)
+		expect(types("tes")).toContain(ContextMenuOptionType.Tests)
+	})
+})
+
+describe("insertMentionPrefix", () => {
+	it("should replace the typed mention with the prefix and keep the cursor after it", () => {
+		expect(insertMentionPrefix("Explain @sym please", 12, "symbol:")).toEqual({
+			newValue: "Explain @symbol: please",
+			newPosition: 16,
+		})
+	})
+})
+
+describe("splitDiffRange", () => {
+	it("should split a range at the last range operator", () => {
+		expect(splitDiffRange("main..release-1.2")).toEqual({ base: "main..", ref: "release-1.2" })
+		expect(splitDiffRange("v1...fe")).toEqual({ base: "v1...", ref: "fe" })
+		expect(splitDiffRange("main")).toEqual({ base: "", ref: "main" })
+	})
 })
 
 describe("shouldShowContextMenu", () => {
@@ -108,6 +108,48 @@ export enum ContextMenuOptionType {
 	Mode = "mode", // Add mode type
 	Command = "command", // Add command type
 	SectionHeader = "sectionHeader", // Add section header type
+	Symbol = "symbol",
+	Diff = "diff",
+	FolderTree = "folderTree",
+	Tests = "tests",
+}
+
+const MENTION_PREFIXES: Partial<Record<ContextMenuOptionType, string>> = {
+	[ContextMenuOptionType.Symbol]: "symbol:",
+	[ContextMenuOptionType.Diff]: "diff:",
+	[ContextMenuOptionType.FolderTree]: "tree:/",
+}
+
+/**
+ * Gets the text that starts a mention which takes an argument, e.g. "symbol:" for `@symbol:Name`.
+ */
+export function getMentionPrefix(type: ContextMenuOptionType): string | undefined {
+	return MENTION_PREFIXES[type]
+}
+
+/**
+ * Replaces the mention being typed with a mention prefix and keeps the cursor right after it,
+ * so the user can go on typing the argument.
+ */
+export function insertMentionPrefix(
+	text: string,
+	position: number,
+	prefix: string,
+): { newValue: string; newPosition: number } {
+	const lastAtIndex = text.lastIndexOf("@", position - 1)
+	const start = lastAtIndex === -1 ? position : lastAtIndex
+	const newValue = text.slice(0, start) + "@" + prefix + text.slice(position)
+
+	return { newValue, newPosition: start + 1 + prefix.length }
+}
+
+/**
+ * Splits the argument of a `@diff:` mention at the last range operator, so branch suggestions
+ * can complete either side of "main..HEAD".
+ */
+export function splitDiffRange(range: string): { base: string; ref: string } {
+	const match = range.match(/^(.*?\.\.\.?)(.*)$/)
+	return match ? { base: match[1], ref: match[2] } : { base: "", ref: range }
 }
 
 export interface ContextMenuQueryItem {
@@ -255,9 +297,51 @@ export function getContextMenuOptions(
 			{ type: ContextMenuOptionType.Folder },
 			{ type: ContextMenuOptionType.File },
 			{ type: ContextMenuOptionType.Git },
+			{ type: ContextMenuOptionType.Symbol },
+			{ type: ContextMenuOptionType.Diff },
+			{ type: ContextMenuOptionType.FolderTree },
+			{ type: ContextMenuOptionType.Tests },
 		]
 	}
 
+	if (query.startsWith("symbol:")) {
+		const name = query.slice("symbol:".length)
+		const symbols = queryItems.filter((item) => item.type === ContextMenuOptionType.Symbol)
+		const typed = /^[\w$]+(?:\.[\w$]+)*$/.test(name)
+			? [{ type: ContextMenuOptionType.Symbol, value: query, label: name }]
+			: []
+		const options = [...typed, ...symbols.filter((item) => item.value !== query)]
+		return options.length > 0 ? options : [{ type: ContextMenuOptionType.NoResults }]
+	}
+
+	if (query.startsWith("diff:")) {
+		const range = query.slice("diff:".length)
+		const { base, ref } = splitDiffRange(range)
+		const branches = queryItems
+			.filter((item) => item.type === ContextMenuOptionType.Diff && item.value?.includes(ref))
+			.map((item) => {
+				const value = base ? `diff:${base}${item.value}` : `diff:${item.value}..HEAD`
+				return { type: ContextMenuOptionType.Diff, value, label: value.slice("diff:".length) }
+			})
+		const typed = range ? [{ type: ContextMenuOptionType.Diff, value: query, label: range }] : []
+		const options = [...typed, ...branches.filter((item) => item.value !== query)]
+		return options.length > 0 ? options : [{ type: ContextMenuOptionType.NoResults }]
+	}
+
+	if (query.startsWith("tree:/")) {
+		const folderQuery = query.slice("tree:/".length)
+		const folders = folderQuery
+			? dynamicSearchResults.filter((result) => result.type === "folder").map((result) => result.path)
+			: queryItems
+					.filter((item) => item.type === ContextMenuOptionType.Folder && item.value)
+					.map((item) => item.value!)
+		const options = [
+			...(folderQuery ? [] : [""]),
+			...folders.map((folder) => folder.replace(/^\//, "").replace(/\/$/, "")),
+		].map((folder) => ({ type: ContextMenuOptionType.FolderTree, value: `tree:/${folder}` }))
+		return options.length > 0 ? options : [{ type: ContextMenuOptionType.NoResults }]
+	}
+
 	const lowerQuery = query.toLowerCase()
 	const suggestions: ContextMenuQueryItem[] = []
 
@@ -278,6 +362,18 @@ export function getContextMenuOptions(
 	if ("terminal".startsWith(lowerQuery)) {
 		suggestions.push({ type: ContextMenuOptionType.Terminal })
 	}
+	if ("tests".startsWith(lowerQuery)) {
+		suggestions.push({ type: ContextMenuOptionType.Tests })
+	}
+	if ("symbol".startsWith(lowerQuery)) {
+		suggestions.push({ type: ContextMenuOptionType.Symbol })
+	}
+	if ("diff".startsWith(lowerQuery)) {
+		suggestions.push({ type: ContextMenuOptionType.Diff })
+	}
+	if ("tree".startsWith(lowerQuery)) {
+		suggestions.push({ type: ContextMenuOptionType.FolderTree })
+	}
 	if (query.startsWith("http")) {
 		suggestions.push({ type: ContextMenuOptionType.URL, value: query })
 	}
@@ -10,6 +10,7 @@ import {
 	isDynamicProvider,
 	isFauxProvider,
 	isCustomProvider,
+	isCompositeProvider,
 } from "@roo-code/types"
 
 export function validateApiConfiguration(
@@ -160,6 +161,11 @@ function validateModelsAndKeysProvided(apiConfiguration: ProviderSettings): stri
 				return i18next.t("settings:validation.apiKey")
 			}
 			break
+		case "router":
+			if (!apiConfiguration.routerProfiles?.length) {
+				return i18next.t("settings:validation.routerProfiles")
+			}
+			break
 	}
 
 	return undefined
@@ -216,6 +222,10 @@ function getModelIdForProvider(apiConfiguration: ProviderSettings, provider: Pro
 		return apiConfiguration.apiModelId
 	}
 
+	if (isCompositeProvider(provider)) {
+		return undefined
+	}
+
 	return apiConfiguration[modelIdKeysByProvider[provider]]
 }
 